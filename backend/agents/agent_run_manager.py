@@ -1,8 +1,10 @@
 import logging
 import threading
-from typing import Dict
+from typing import Dict, Optional
 from nexent.core.agents.agent_model import AgentRunInfo
 
+from agents.agent_run_stream import AgentRunStream
+
 logger = logging.getLogger("agent_run_manager")
 
 class AgentRunManager:
@@ -20,17 +22,21 @@ class AgentRunManager:
     def __init__(self):
         if not self._initialized:
             self.agent_runs: Dict[int, AgentRunInfo] = {}  # conversation_id -> agent_run_info
+            self.run_streams: Dict[int, AgentRunStream] = {}  # conversation_id -> buffered events of the run
             self._initialized = True
 
-    def register_agent_run(self, conversation_id: int, agent_run_info):
+    def register_agent_run(self, conversation_id: int, agent_run_info, run_stream: Optional[AgentRunStream] = None):
         """register agent run instance"""
         with self._lock:
             self.agent_runs[conversation_id] = agent_run_info
+            if run_stream is not None:
+                self.run_streams[conversation_id] = run_stream
             logger.info(f"register agent run instance, conversation_id: {conversation_id}")
 
     def unregister_agent_run(self, conversation_id: int):
         """unregister agent run instance"""
         with self._lock:
+            self.run_streams.pop(conversation_id, None)
             if conversation_id in self.agent_runs:
                 del self.agent_runs[conversation_id]
                 logger.info(f"unregister agent run instance, conversation_id: {conversation_id}")
@@ -41,6 +47,10 @@ class AgentRunManager:
         """get agent run instance"""
         return self.agent_runs.get(conversation_id)
 
+    def get_agent_run_stream(self, conversation_id: int) -> Optional[AgentRunStream]:
+        """get the buffered events of the run in progress"""
+        return self.run_streams.get(conversation_id)
+
     def stop_agent_run(self, conversation_id: int) -> bool:
         """stop agent run for specified conversation_id"""
         agent_run_info = self.get_agent_run_info(conversation_id)
@@ -0,0 +1,56 @@
+import asyncio
+import json
+import logging
+from typing import AsyncGenerator, Dict, List, Optional
+
+logger = logging.getLogger("agent_run_stream")
+
+
+class AgentRunStream:
+    """
+    Buffered events of one agent run.
+
+    Every event gets a sequence id starting at 1. The run is produced independently of the HTTP
+    connection that started it, so a client that lost its connection can reattach and replay the
+    events after the last sequence id it received.
+    """
+
+    def __init__(self, user_id: Optional[str] = None):
+        self.user_id = user_id
+        self.events: List[str] = []
+        self.finished = False
+        self._condition = asyncio.Condition()
+        # Keeps a reference to the producing task so it is not garbage collected while running
+        self.task: Optional[asyncio.Task] = None
+
+    @property
+    def last_seq(self) -> int:
+        return len(self.events)
+
+    async def publish(self, event: Dict) -> int:
+        """append an event to the stream and wake up the subscribers, return its sequence id"""
+        async with self._condition:
+            seq = len(self.events) + 1
+            self.events.append(json.dumps({**event, "seq": seq}, ensure_ascii=False))
+            self._condition.notify_all()
+            return seq
+
+    async def close(self):
+        """mark the run as finished, subscribers stop once they received every event"""
+        async with self._condition:
+            self.finished = True
+            self._condition.notify_all()
+
+    async def subscribe(self, after_seq: int = 0) -> AsyncGenerator[str, None]:
+        """yield the events after `after_seq`, then the new ones as they are published"""
+        index = max(after_seq, 0)
+        while True:
+            async with self._condition:
+                await self._condition.wait_for(lambda: len(self.events) > index or self.finished)
+                pending = self.events[index:]
+                finished = self.finished
+            for event in pending:
+                yield event
+            index += len(pending)
+            if finished and index >= len(self.events):
+                return
@@ -1,18 +1,20 @@
 import threading
 import yaml
 import logging
-from urllib.parse import urljoin
 from nexent.core.utils.observer import MessageObserver
 from nexent.core.agents.agent_model import AgentRunInfo, ModelConfig, AgentConfig, ToolConfig
-from services.remote_mcp_service import get_remote_mcp_server_list
-from utils.auth_utils import get_current_user_id
+from nexent.core.agents.approval_gate import ApprovalGate
+from consts.const import TOOL_APPROVAL_TIMEOUT
+from services.remote_mcp_service import get_mcp_server_parameters
+from utils.auth_utils import get_current_user_id, get_document_audience
 
 from database.agent_db import search_agent_info_by_agent_id, search_tools_for_sub_agent, \
-    query_or_create_main_agent_id, query_sub_agents_id_list
+    query_or_create_main_agent_id, query_sub_agents_id_list, search_agent_version
 from services.elasticsearch_service import ElasticSearchService, elastic_core, get_embedding_model
 from services.tenant_config_service import get_selected_knowledge_list
+from services.document_attribute_service import get_metadata_fields_service
 from utils.prompt_template_utils import get_agent_prompt_template
-from utils.config_utils import config_manager, tenant_config_manager, get_model_name_from_config
+from utils.config_utils import tenant_config_manager, get_model_name_from_config
 from smolagents.utils import BASE_BUILTIN_MODULES
 from services.memory_config_service import build_memory_context
 from jinja2 import Template, StrictUndefined
@@ -40,11 +42,22 @@ async def create_model_config_list(tenant_id):
                         url=sub_model_config.get("base_url", ""))]
 
 
-async def create_agent_config(agent_id, tenant_id, user_id, language: str = 'zh', last_user_query: str = None):
-    agent_info = search_agent_info_by_agent_id(agent_id=agent_id, tenant_id=tenant_id)
+async def create_agent_config(agent_id, tenant_id, user_id, language: str = 'zh', last_user_query: str = None,
+                              version_no: int = None, authorization: str = None):
+    if version_no is None:
+        agent_info = search_agent_info_by_agent_id(agent_id=agent_id, tenant_id=tenant_id)
+        sub_agent_id_list = query_sub_agents_id_list(main_agent_id=agent_id, tenant_id=tenant_id)
+        tools = None
+        approval_policy = agent_info.get("approval_policy")
+    else:
+        # A saved version runs the configuration kept in it, its sub agents run their current configuration
+        agent_info = search_agent_version(agent_id=agent_id, version_no=version_no, tenant_id=tenant_id)["snapshot"]
+        sub_agent_id_list = agent_info.get("sub_agent_id_list", [])
+        tools = agent_info.get("tools", [])
+        # Approvals are not part of a version, the current policy of the agent applies
+        approval_policy = search_agent_info_by_agent_id(agent_id=agent_id, tenant_id=tenant_id).get("approval_policy")
 
     # create sub agent
-    sub_agent_id_list = query_sub_agents_id_list(main_agent_id=agent_id, tenant_id=tenant_id)
     managed_agents = []
     for sub_agent_id in sub_agent_id_list:
         sub_agent_config = await create_agent_config(
@@ -52,10 +65,11 @@ async def create_agent_config(agent_id, tenant_id, user_id, language: str = 'zh'
             tenant_id=tenant_id,
             user_id=user_id,
             language=language,
-            last_user_query=last_user_query)
+            last_user_query=last_user_query,
+            authorization=authorization)
         managed_agents.append(sub_agent_config)
 
-    tool_list = await create_tool_config_list(agent_id, tenant_id, user_id)
+    tool_list = await create_tool_config_list(agent_id, tenant_id, user_id, tools, approval_policy, authorization)
     
     # Build system prompt: prioritize segmented fields, fallback to original prompt field if not available
     duty_prompt = agent_info.get("duty_prompt", "")
@@ -108,7 +122,11 @@ async def create_agent_config(agent_id, tenant_id, user_id, language: str = 'zh'
                         try:
                             message = ElasticSearchService().get_summary(index_name=knowledge_name)
                             summary = message.get("summary", "")
-                            knowledge_base_summary += f"**{knowledge_name}**: {summary}\n\n"
+                            knowledge_base_summary += f"**{knowledge_name}**: {summary}\n"
+                            # The search tool can filter the documents on these fields with metadata_filters
+                            fields = get_metadata_fields_service(knowledge_name, tenant_id)
+                            field_list = ", ".join(f"{field['key']} ({field['type']})" for field in fields)
+                            knowledge_base_summary += f"{'元数据字段' if language == 'zh' else 'Metadata fields'}: {field_list}\n\n"
                         except Exception as e:
                             logger.warning(f"Failed to get summary for knowledge base {knowledge_name}: {e}")
                 else:
@@ -148,13 +166,28 @@ async def create_agent_config(agent_id, tenant_id, user_id, language: str = 'zh'
     return agent_config
 
 
-async def create_tool_config_list(agent_id, tenant_id, user_id):
+def tool_requires_approval(tool: dict, approval_policy: dict = None) -> bool:
+    """
+    Whether the calls of a tool wait for the user's approval under the approval policy of its agent,
+    the mode set for the tool itself wins over the default mode
+    """
+    approval_policy = approval_policy or {}
+    tool_mode = (approval_policy.get("tool_modes") or {}).get(str(tool.get("tool_id")))
+    if tool_mode is not None:
+        return tool_mode == "ask"
+    default_mode = approval_policy.get("default_mode", "never")
+    return default_mode == "always" or (default_mode == "mcp" and tool.get("source") == "mcp")
+
+
+async def create_tool_config_list(agent_id, tenant_id, user_id, tools_list=None, approval_policy=None,
+                                  authorization=None):
     # create tool
     tool_config_list = []
     langchain_tools = await discover_langchain_tools()
 
     # now only admin can modify the agent, user_id is not used
-    tools_list = search_tools_for_sub_agent(agent_id, tenant_id)
+    if tools_list is None:
+        tools_list = search_tools_for_sub_agent(agent_id, tenant_id)
     for tool in tools_list:
         param_dict = {}
         for param in tool.get("params", []):
@@ -169,6 +202,7 @@ async def create_tool_config_list(agent_id, tenant_id, user_id):
             source=tool.get("source"),
             usage=tool.get("usage")
         )
+        tool_config.require_approval = tool_requires_approval(tool, approval_policy)
 
         if tool.get("source") == "langchain":
             tool_class_name = tool.get("class_name")
@@ -183,7 +217,9 @@ async def create_tool_config_list(agent_id, tenant_id, user_id):
             index_names = [knowledge_info.get("index_name") for knowledge_info in knowledge_info_list]
             tool_config.metadata = {"index_names": index_names,
                                     "es_core": elastic_core,
-                                    "embedding_model": get_embedding_model(tenant_id=tenant_id)}
+                                    "embedding_model": get_embedding_model(tenant_id=tenant_id),
+                                    # Restricted documents are only found for the users and roles they are visible to
+                                    "audience": get_document_audience(authorization, user_id)}
         tool_config_list.append(tool_config)
     
     return tool_config_list
@@ -258,15 +294,18 @@ def filter_mcp_servers_and_tools(input_agent_config: AgentConfig, mcp_info_dict)
     """
     Filter mcp servers and tools, only keep the actual used mcp servers
     Support multi-level agent, recursively check all sub-agent tools
+
+    Returns:
+        list: connection parameters of the used servers, `mcp_info_dict` maps server names to them
     """
-    used_mcp_urls = set()
+    used_mcp_names = []
 
     # Recursively check all agent tools
     def check_agent_tools(agent_config: AgentConfig):
         # Check current agent tools
         for tool in agent_config.tools:
-            if tool.source == "mcp" and tool.usage in mcp_info_dict:
-                used_mcp_urls.add(mcp_info_dict[tool.usage]["remote_mcp_server"])
+            if tool.source == "mcp" and tool.usage in mcp_info_dict and tool.usage not in used_mcp_names:
+                used_mcp_names.append(tool.usage)
 
         # Recursively check sub-agent
         for sub_agent_config in agent_config.managed_agents:
@@ -275,37 +314,36 @@ def filter_mcp_servers_and_tools(input_agent_config: AgentConfig, mcp_info_dict)
     # Check all agent tools
     check_agent_tools(input_agent_config)
 
-    return list(used_mcp_urls)
+    return [mcp_info_dict[mcp_name] for mcp_name in used_mcp_names]
 
 
-async def create_agent_run_info(agent_id, minio_files, query, history, authorization, language: str = 'zh'):
-    user_id, tenant_id = get_current_user_id(authorization)
+async def create_agent_run_info(agent_id, minio_files, query, history, authorization, language: str = 'zh',
+                                version_no: int = None, user_id: str = None, tenant_id: str = None):
+    # Runs started without a request, e.g. by a schedule, give the user and tenant instead of the authorization
+    if user_id is None:
+        user_id, tenant_id = get_current_user_id(authorization)
 
     final_query = await join_minio_file_description_to_query(minio_files=minio_files, query=query)
     model_list = await create_model_config_list(tenant_id)
     agent_config = await create_agent_config(agent_id=agent_id, tenant_id=tenant_id, user_id=user_id,
-                              language=language, last_user_query=final_query)
+                              language=language, last_user_query=final_query, version_no=version_no,
+                              authorization=authorization)
 
-    remote_mcp_list = await get_remote_mcp_server_list(tenant_id=tenant_id)
-    default_mcp_url = urljoin(config_manager.get_config("NEXENT_MCP_SERVER"), "sse")
-    remote_mcp_list.append({
-        "remote_mcp_server_name": "nexent",
-        "remote_mcp_server": default_mcp_url,
-        "status": True
-    })
-    remote_mcp_dict = {record["remote_mcp_server_name"]: record for record in remote_mcp_list if record["status"]}
+    remote_mcp_dict = await get_mcp_server_parameters(tenant_id=tenant_id)
 
     # Filter MCP servers and tools
     mcp_host = filter_mcp_servers_and_tools(agent_config, remote_mcp_dict)
 
-
+    observer = MessageObserver(lang=language)
+    stop_event = threading.Event()
     agent_run_info = AgentRunInfo(
         query=final_query,
         model_config_list=model_list,
-        observer=MessageObserver(lang=language),
+        observer=observer,
         agent_config=agent_config,
         mcp_host=mcp_host,
         history=history,
-        stop_event=threading.Event()
+        stop_event=stop_event,
+        approval_gate=ApprovalGate(observer, stop_event, TOOL_APPROVAL_TIMEOUT)
     )
     return agent_run_info
@@ -1,12 +1,15 @@
 import logging
 from typing import Optional
 
-from fastapi import HTTPException, APIRouter, Header, Request, Body
+from fastapi import HTTPException, APIRouter, Header, Request, Body, Query
 from fastapi.responses import JSONResponse
-from consts.model import AgentRequest, AgentInfoRequest, AgentIDRequest, ConversationResponse, AgentImportRequest
+from consts.model import AgentRequest, AgentInfoRequest, AgentIDRequest, ConversationResponse, AgentImportRequest, \
+    AgentRollbackRequest, ApprovalPolicyRequest, ToolApprovalRequest
 from services.agent_service import get_agent_info_impl, \
     get_creating_sub_agent_info_impl, update_agent_info_impl, delete_agent_impl, export_agent_impl, import_agent_impl, \
-    list_all_agent_info_impl, insert_related_agent_impl, run_agent_stream, stop_agent_tasks
+    list_all_agent_info_impl, insert_related_agent_impl, run_agent_stream, stop_agent_tasks, \
+    resume_agent_stream, list_agent_versions_impl, get_agent_version_impl, rollback_agent_version_impl, \
+    get_approval_policy_impl, save_approval_policy_impl, decide_tool_approval_impl
 from database.agent_db import delete_related_agent
 from utils.auth_utils import get_current_user_info, get_current_user_id
 
@@ -28,6 +31,15 @@ async def agent_run_api(agent_request: AgentRequest, http_request: Request, auth
     )
 
 
+@router.get("/stream/{conversation_id}")
+async def agent_stream_resume_api(conversation_id: int, after_seq: int = Query(0, ge=0),
+                                  authorization: str = Header(None)):
+    """
+    Reattach to the agent run in progress for the conversation, replaying the events after after_seq
+    """
+    return resume_agent_stream(conversation_id, after_seq, authorization)
+
+
 @router.get("/stop/{conversation_id}")
 async def agent_stop_api(conversation_id: int):
     """
@@ -65,15 +77,98 @@ async def get_creating_sub_agent_info_api(authorization: Optional[str] = Header(
 @router.post("/update")
 async def update_agent_info_api(request: AgentInfoRequest, authorization: Optional[str] = Header(None)):
     """
-    Update an existing agent
+    Update an existing agent, every update is saved as a new version which is returned
     """
     try:
-        update_agent_info_impl(request, authorization)
-        return {}
+        return update_agent_info_impl(request, authorization)
     except Exception as e:
         raise HTTPException(status_code=500, detail=f"Agent update error: {str(e)}")
 
 
+@router.get("/{agent_id}/versions")
+async def list_agent_versions_api(agent_id: int, authorization: Optional[str] = Header(None)):
+    """
+    List the versions of an agent, newest first
+    """
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return list_agent_versions_impl(agent_id, tenant_id)
+    except Exception as e:
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=f"Agent versions error: {str(e)}")
+
+
+@router.get("/{agent_id}/versions/{version_no}")
+async def get_agent_version_api(agent_id: int, version_no: int, authorization: Optional[str] = Header(None)):
+    """
+    Get one version of an agent with the configuration saved in it
+    """
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return get_agent_version_impl(agent_id, version_no, tenant_id)
+    except Exception as e:
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=f"Agent version error: {str(e)}")
+
+
+@router.post("/rollback")
+async def rollback_agent_version_api(request: AgentRollbackRequest, authorization: Optional[str] = Header(None)):
+    """
+    Restore an earlier version of an agent, saved as a new version which is returned
+    """
+    try:
+        return rollback_agent_version_impl(request.agent_id, request.version_no, authorization)
+    except Exception as e:
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=f"Agent rollback error: {str(e)}")
+
+
+@router.get("/{agent_id}/approval_policy")
+async def get_approval_policy_api(agent_id: int, authorization: Optional[str] = Header(None)):
+    """
+    Get which tool calls of an agent wait for the user's approval
+    """
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return get_approval_policy_impl(agent_id, tenant_id)
+    except Exception as e:
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=f"Approval policy error: {str(e)}")
+
+
+@router.post("/approval_policy")
+async def save_approval_policy_api(request: ApprovalPolicyRequest, authorization: Optional[str] = Header(None)):
+    """
+    Replace the approval policy of an agent
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return save_approval_policy_impl(request, tenant_id, user_id)
+    except Exception as e:
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=f"Approval policy save error: {str(e)}")
+
+
+@router.post("/approval")
+async def tool_approval_api(request: ToolApprovalRequest, authorization: Optional[str] = Header(None)):
+    """
+    Approve or deny a tool call waiting in the agent run of a conversation
+    """
+    try:
+        user_id, _ = get_current_user_id(authorization)
+        decide_tool_approval_impl(request, user_id)
+        return ConversationResponse(code=0, message="success", data=True)
+    except Exception as e:
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=f"Tool approval error: {str(e)}")
+
+
 @router.delete("")
 async def delete_agent_api(request: AgentIDRequest, authorization: Optional[str] = Header(None)):
     """
@@ -104,8 +199,7 @@ async def import_agent_api(request: AgentImportRequest, authorization: Optional[
     import an agent
     """
     try:
-        await import_agent_impl(request.agent_info, authorization)
-        return {}
+        return await import_agent_impl(request.agent_info, authorization)
     except Exception as e:
         raise HTTPException(status_code=500, detail=f"Agent import error: {str(e)}")
 
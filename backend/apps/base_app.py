@@ -1,4 +1,6 @@
+import asyncio
 import logging
+from contextlib import asynccontextmanager
 
 from fastapi import FastAPI, HTTPException
 from fastapi.responses import JSONResponse
@@ -21,12 +23,30 @@ from .prompt_app import router as prompt_router
 from .knowledge_summary_app import router as summary_router
 from .tenant_config_app import router as tenant_config_router
 from .remote_mcp_app import router as remote_mcp_router
+from .evaluation_app import router as evaluation_router
+from .schedule_app import router as schedule_router
+from services.schedule_service import run_scheduler
+from services.knowledge_source_service import run_source_scheduler
 from consts.const import IS_SPEED_MODE
 
 # Create logger instance
 logger = logging.getLogger("base_app")
 
-app = FastAPI(root_path="/api")
+
+@asynccontextmanager
+async def lifespan(app: FastAPI):
+    # Start the runs of the cron schedules of agents and the automatic syncs of knowledge base sources
+    # while the service is up
+    scheduler = asyncio.create_task(run_scheduler())
+    source_scheduler = asyncio.create_task(run_source_scheduler())
+    try:
+        yield
+    finally:
+        scheduler.cancel()
+        source_scheduler.cancel()
+
+
+app = FastAPI(root_path="/api", lifespan=lifespan)
 
 # Add CORS middleware
 app.add_middleware(
@@ -61,6 +81,8 @@ app.include_router(summary_router)
 app.include_router(prompt_router)
 app.include_router(tenant_config_router)
 app.include_router(remote_mcp_router)
+app.include_router(evaluation_router)
+app.include_router(schedule_router)
 
 
 # Global exception handler for HTTP exceptions
@@ -3,7 +3,10 @@ from typing import Dict, Any, Optional
 
 from fastapi import HTTPException, APIRouter, Header, Request
 
-from consts.model import ConversationResponse, ConversationRequest, RenameRequest, GenerateTitleRequest, OpinionRequest, MessageIdRequest
+from consts.model import ConversationResponse, ConversationRequest, RenameRequest, GenerateTitleRequest, OpinionRequest, MessageIdRequest, \
+    MessageRequest, ConversationImportRequest, ConversationSearchRequest, ConversationOrganizeRequest, \
+    ConversationIdsRequest, ConversationBatchMoveRequest, ConversationFolderRequest, ConversationFolderReorderRequest, \
+    ConversationTagRequest, ConversationShareRequest, ConversationAgentPinRequest
 from services.conversation_management_service import (
     create_new_conversation,
     get_conversation_list_service,
@@ -12,10 +15,30 @@ from services.conversation_management_service import (
     get_conversation_history_service,
     get_sources_service,
     generate_conversation_title_service,
-    update_message_opinion_service
+    update_message_opinion_service,
+    save_message,
+    import_conversation_service,
+    search_conversations_service,
+    organize_conversation_service,
+    pin_agent_version_service,
+    reorder_conversations_service,
+    batch_delete_conversations_service,
+    batch_move_conversations_service,
+    get_folder_list_service,
+    create_folder_service,
+    rename_folder_service,
+    delete_folder_service,
+    reorder_folders_service,
+    get_tag_list_service,
+    create_tag_service,
+    delete_tag_service,
+    create_share_service,
+    list_shares_service,
+    revoke_share_service,
+    get_shared_conversation_service
 )
 from utils.auth_utils import get_current_user_id, get_current_user_info
-from database.conversation_db import get_message_id_by_index
+from database.conversation_db import get_message_id_by_index, get_conversation, get_message
 
 router = APIRouter(prefix="/conversation")
 
@@ -72,6 +95,29 @@ async def list_conversations_endpoint(authorization: Optional[str] = Header(None
         raise HTTPException(status_code=500, detail=str(e))
 
 
+@router.post("/search", response_model=ConversationResponse)
+async def search_conversations_endpoint(request: ConversationSearchRequest, authorization: Optional[str] = Header(None)):
+    """
+    Full-text search over the messages of all conversations
+
+    Args:
+        request: ConversationSearchRequest object containing the query and the filters
+        authorization: Authorization header
+
+    Returns:
+        ConversationResponse object containing the matching messages with highlighted snippets
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        hits = search_conversations_service(request, user_id)
+        return ConversationResponse(code=0, message="success", data=hits)
+    except Exception as e:
+        logging.error(f"Failed to search conversations: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
 @router.post("/rename", response_model=ConversationResponse)
 async def rename_conversation_endpoint(request: RenameRequest, authorization: Optional[str] = Header(None)):
     """
@@ -97,6 +143,264 @@ async def rename_conversation_endpoint(request: RenameRequest, authorization: Op
         raise HTTPException(status_code=500, detail=str(e))
 
 
+# Organization routes are declared before the /{conversation_id} routes they would otherwise match
+@router.post("/organize", response_model=ConversationResponse)
+async def organize_conversation_endpoint(request: ConversationOrganizeRequest, authorization: Optional[str] = Header(None)):
+    """
+    Pin, file or tag a conversation, fields that were not sent are left as they are
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=organize_conversation_service(request, user_id))
+    except Exception as e:
+        logging.error(f"Failed to organize conversation: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/agent_pin", response_model=ConversationResponse)
+async def pin_agent_version_endpoint(request: ConversationAgentPinRequest, authorization: Optional[str] = Header(None)):
+    """
+    Pin a conversation to one version of an agent, or let it follow the latest version again
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success",
+                                    data=pin_agent_version_service(request, user_id, tenant_id))
+    except Exception as e:
+        logging.error(f"Failed to pin agent version: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/reorder", response_model=ConversationResponse)
+async def reorder_conversations_endpoint(request: ConversationIdsRequest, authorization: Optional[str] = Header(None)):
+    """
+    Persist the order of the conversations of one pinned list or folder
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=reorder_conversations_service(request.conversation_ids, user_id))
+    except Exception as e:
+        logging.error(f"Failed to reorder conversations: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/batch_delete", response_model=ConversationResponse)
+async def batch_delete_conversations_endpoint(request: ConversationIdsRequest, authorization: Optional[str] = Header(None)):
+    """
+    Delete several conversations at once, returns the number of deleted conversations
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=batch_delete_conversations_service(request.conversation_ids, user_id))
+    except Exception as e:
+        logging.error(f"Failed to delete conversations: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/batch_move", response_model=ConversationResponse)
+async def batch_move_conversations_endpoint(request: ConversationBatchMoveRequest, authorization: Optional[str] = Header(None)):
+    """
+    Move several conversations into a folder (null: out of any folder), returns the number of moved conversations
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=batch_move_conversations_service(request.conversation_ids, request.folder_id, user_id))
+    except Exception as e:
+        logging.error(f"Failed to move conversations: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.get("/folder", response_model=ConversationResponse)
+async def list_folders_endpoint(authorization: Optional[str] = Header(None)):
+    """
+    Get the conversation folders of the current user, ordered by sort_order
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=get_folder_list_service(user_id))
+    except Exception as e:
+        logging.error(f"Failed to list folders: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.put("/folder", response_model=ConversationResponse)
+async def create_folder_endpoint(request: ConversationFolderRequest, authorization: Optional[str] = Header(None)):
+    """
+    Create a conversation folder, returns the new folder
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=create_folder_service(request.name, user_id))
+    except Exception as e:
+        logging.error(f"Failed to create folder: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/folder", response_model=ConversationResponse)
+async def rename_folder_endpoint(request: ConversationFolderRequest, authorization: Optional[str] = Header(None)):
+    """
+    Rename a conversation folder
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=rename_folder_service(request.folder_id, request.name, user_id))
+    except Exception as e:
+        logging.error(f"Failed to rename folder: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/folder/reorder", response_model=ConversationResponse)
+async def reorder_folders_endpoint(request: ConversationFolderReorderRequest, authorization: Optional[str] = Header(None)):
+    """
+    Persist the order of the conversation folders
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=reorder_folders_service(request.folder_ids, user_id))
+    except Exception as e:
+        logging.error(f"Failed to reorder folders: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.delete("/folder/{folder_id}", response_model=ConversationResponse)
+async def delete_folder_endpoint(folder_id: int, authorization: Optional[str] = Header(None)):
+    """
+    Delete a conversation folder, its conversations are kept and become unfiled
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=delete_folder_service(folder_id, user_id))
+    except Exception as e:
+        logging.error(f"Failed to delete folder: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.get("/tag", response_model=ConversationResponse)
+async def list_tags_endpoint(authorization: Optional[str] = Header(None)):
+    """
+    Get the conversation tags of the current user
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=get_tag_list_service(user_id))
+    except Exception as e:
+        logging.error(f"Failed to list tags: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.put("/tag", response_model=ConversationResponse)
+async def create_tag_endpoint(request: ConversationTagRequest, authorization: Optional[str] = Header(None)):
+    """
+    Create a conversation tag, returns the new tag
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=create_tag_service(request.name, request.color, user_id))
+    except Exception as e:
+        logging.error(f"Failed to create tag: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.delete("/tag/{tag_id}", response_model=ConversationResponse)
+async def delete_tag_endpoint(tag_id: int, authorization: Optional[str] = Header(None)):
+    """
+    Delete a conversation tag, it is removed from every conversation
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=delete_tag_service(tag_id, user_id))
+    except Exception as e:
+        logging.error(f"Failed to delete tag: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/share", response_model=ConversationResponse)
+async def create_share_endpoint(request: ConversationShareRequest, authorization: Optional[str] = Header(None)):
+    """
+    Create a read-only share link holding a snapshot of the conversation
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success",
+                                    data=create_share_service(request, user_id, tenant_id))
+    except Exception as e:
+        logging.error(f"Failed to create share link: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.get("/share/list/{conversation_id}", response_model=ConversationResponse)
+async def list_shares_endpoint(conversation_id: int, authorization: Optional[str] = Header(None)):
+    """
+    Get the active share links of a conversation, revoked links are not returned
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=list_shares_service(conversation_id, user_id))
+    except Exception as e:
+        logging.error(f"Failed to list share links: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.get("/share/{share_token}", response_model=ConversationResponse)
+async def get_shared_conversation_endpoint(share_token: str, authorization: Optional[str] = Header(None)):
+    """
+    Open a share link, public links need no authorization header
+    """
+    try:
+        return ConversationResponse(code=0, message="success",
+                                    data=get_shared_conversation_service(share_token, authorization))
+    except Exception as e:
+        logging.error(f"Failed to open share link: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.delete("/share/{share_token}", response_model=ConversationResponse)
+async def revoke_share_endpoint(share_token: str, authorization: Optional[str] = Header(None)):
+    """
+    Revoke a share link, its snapshot is deleted
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=revoke_share_service(share_token, user_id))
+    except Exception as e:
+        logging.error(f"Failed to revoke share link: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
 @router.delete("/{conversation_id}", response_model=ConversationResponse)
 async def delete_conversation_endpoint(conversation_id: int, authorization: Optional[str] = Header(None)):
     """
@@ -200,6 +504,57 @@ async def generate_conversation_title_endpoint(request: GenerateTitleRequest,
         raise HTTPException(status_code=500, detail=str(e))
 
 
+@router.post("/save", response_model=ConversationResponse)
+async def save_message_endpoint(request: MessageRequest, authorization: Optional[str] = Header(None)):
+    """
+    Save a message, for example the edited user message of a new branch
+
+    Args:
+        request: MessageRequest object, parent_message_id places the message in the conversation tree
+        authorization: Authorization header
+
+    Returns:
+        ConversationResponse object containing the ID of the saved message
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        if not get_conversation(request.conversation_id, user_id):
+            raise HTTPException(status_code=404, detail="Conversation not found")
+        if request.parent_message_id is not None:
+            parent = get_message(request.parent_message_id, user_id)
+            if not parent or parent["conversation_id"] != request.conversation_id:
+                raise HTTPException(status_code=400, detail="Parent message does not belong to the conversation")
+        return save_message(request, authorization=authorization)
+    except Exception as e:
+        logging.error(f"Failed to save message: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/import", response_model=ConversationResponse)
+async def import_conversation_endpoint(request: ConversationImportRequest, authorization: Optional[str] = Header(None)):
+    """
+    Recreate a conversation from its JSON export
+
+    Args:
+        request: ConversationImportRequest object containing the title and the exported messages
+        authorization: Authorization header
+
+    Returns:
+        ConversationResponse object containing the new conversation, like /create
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        conversation_data = import_conversation_service(request, user_id, authorization)
+        return ConversationResponse(code=0, message="success", data=conversation_data)
+    except Exception as e:
+        logging.error(f"Failed to import conversation: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
 @router.post("/message/update_opinion", response_model=ConversationResponse)
 async def update_opinion_endpoint(request: OpinionRequest, authorization: Optional[str] = Header(None)):
     """
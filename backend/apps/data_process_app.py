@@ -4,6 +4,7 @@ from fastapi import HTTPException, APIRouter, Form, File, UploadFile, Header
 from typing import Optional
 import base64
 import io
+import json
 import time
 
 from consts.model import TaskResponse, TaskRequest, BatchTaskResponse, BatchTaskRequest, SimpleTaskStatusResponse, \
@@ -52,7 +53,8 @@ async def create_task(request: TaskRequest, authorization: Optional[str] = Heade
         chunking_strategy=request.chunking_strategy,
         index_name=request.index_name,
         original_filename=request.original_filename,
-        authorization=authorization
+        authorization=authorization,
+        **request.additional_params
     )
 
     return TaskResponse(task_id=task_result.id)
@@ -134,6 +136,7 @@ async def create_batch_tasks(request: BatchTaskRequest, authorization: Optional[
             chunking_strategy = source_config.get('chunking_strategy')
             index_name = source_config.get('index_name')
             original_filename = source_config.get('original_filename')
+            additional_params = source_config.get('additional_params') or {}
 
             # Validate required fields
             if not source:
@@ -150,7 +153,8 @@ async def create_batch_tasks(request: BatchTaskRequest, authorization: Optional[
                 chunking_strategy=chunking_strategy,
                 index_name=index_name,
                 original_filename=original_filename,
-                authorization=authorization
+                authorization=authorization,
+                **additional_params
             )
             
             task_ids.append(task_result.id)
@@ -298,7 +302,8 @@ async def filter_important_image(
 async def process_text_file(
     file: UploadFile = File(...),
     chunking_strategy: str = Form("basic"),
-    timeout: int = Form(60)
+    timeout: int = Form(60),
+    params: Optional[str] = Form(None)
 ):
     """
     Transfer the uploaded file to text content using SDK DataProcessCore
@@ -310,6 +315,7 @@ async def process_text_file(
         file: Uploaded file object
         chunking_strategy: Chunking strategy, default is "basic"
         timeout: Processing timeout (seconds), default is 60 seconds
+        params: JSON object of additional processing parameters, e.g. max_characters and overlap
     
     Returns:
         JSON object, containing the extracted full text content and processing metadata
@@ -331,17 +337,20 @@ async def process_text_file(
         chunks = data_processor.file_process(
             file_data=file_content,
             filename=filename,
-            chunking_strategy=chunking_strategy
+            chunking_strategy=chunking_strategy,
+            **(json.loads(params) if params else {})
         )
 
         # Extract text content from chunks
         full_text = ""
         chunk_texts = []
+        chunk_metadata = []
         for chunk in chunks:
             if 'content' in chunk:
                 chunk_content = chunk['content']
                 full_text += chunk_content + "\n"
                 chunk_texts.append(chunk_content)
+                chunk_metadata.append(chunk.get('metadata', {}))
         
         # Calculate processing time
         processing_time = time.time() - start_time
@@ -354,6 +363,7 @@ async def process_text_file(
             "filename": filename,
             "text": full_text.strip(),
             "chunks": chunk_texts,
+            "chunk_metadata": chunk_metadata,
             "chunks_count": len(chunks),
             "text_length": len(full_text.strip()),
             "processing_time": processing_time,
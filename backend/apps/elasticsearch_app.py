@@ -1,13 +1,23 @@
 from typing import Dict, List, Any, Optional
 import logging
 
-from fastapi import HTTPException, Query, Body, Path, Depends, APIRouter, Header
-from consts.model import IndexingResponse
+from fastapi import HTTPException, Query, Body, Path, Depends, APIRouter, Header, File, Form, UploadFile
+from consts.model import IndexingResponse, ChunkUpdateRequest, ChunkCreateRequest, ChunkMergeRequest, ChunkSplitRequest, \
+    RetrievalTestRequest, RetrievalQuerySaveRequest, KnowledgeSourceRequest, IngestionProfile, MetadataFieldsRequest, \
+    DocumentAttributesRequest
 
 from nexent.vector_database.elasticsearch_core import ElasticSearchCore
 from services.elasticsearch_service import ElasticSearchService, get_es_core, get_embedding_model
 from services.redis_service import get_redis_service
-from utils.auth_utils import get_current_user_id
+from services.retrieval_test_service import run_retrieval_test_service, list_queries_service, save_query_service, \
+    delete_query_service
+from services.knowledge_source_service import list_sources_service, create_source_service, update_source_service, \
+    delete_source_service, sync_source_service
+from services.ingestion_profile_service import get_ingestion_profile_service, save_ingestion_profile_service, \
+    preview_chunking_service, reprocess_service
+from services.document_attribute_service import get_metadata_fields_service, save_metadata_fields_service, \
+    update_document_attributes_service
+from utils.auth_utils import get_current_user_id, get_document_audience
 from database.knowledge_db import get_knowledge_record, delete_knowledge_record
 
 router = APIRouter(prefix="/indices")
@@ -77,6 +87,81 @@ async def check_knowledge_base_exist(
         raise HTTPException(status_code=500, detail=f"Error checking existence for index: {str(e)}")
 
 
+# Retrieval Test, registered before the index routes so that retrieval_test is not taken for an index name
+@router.post("/retrieval_test")
+def run_retrieval_test(
+        request: RetrievalTestRequest,
+        es_core: ElasticSearchCore = Depends(get_es_core),
+        authorization: Optional[str] = Header(None)
+):
+    """Run a query against knowledge bases the way an agent's search tool would, without generating an answer"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        audience = get_document_audience(authorization, user_id)
+        return {"status": "success", "results": run_retrieval_test_service(request, tenant_id, es_core, audience)}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error testing retrieval: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error testing retrieval: {str(e)}")
+
+
+@router.get("/retrieval_test/queries")
+def get_retrieval_queries(authorization: Optional[str] = Header(None)):
+    """Get the saved retrieval test queries of the current user with the results they had when saved"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return {"status": "success", "queries": list_queries_service(user_id, tenant_id)}
+    except Exception as e:
+        logger.error(f"Error getting saved retrieval queries: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error getting saved queries: {str(e)}")
+
+
+@router.post("/retrieval_test/queries")
+def create_retrieval_query(request: RetrievalQuerySaveRequest, authorization: Optional[str] = Header(None)):
+    """Save a retrieval test query with its results"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return {"status": "success", "query": save_query_service(request, user_id, tenant_id)}
+    except Exception as e:
+        logger.error(f"Error saving retrieval query: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error saving query: {str(e)}")
+
+
+@router.put("/retrieval_test/queries/{query_id}")
+def update_retrieval_query(
+        request: RetrievalQuerySaveRequest,
+        query_id: int = Path(..., description="ID of the saved query"),
+        authorization: Optional[str] = Header(None)
+):
+    """Replace a saved query, its new results become the baseline of the comparison"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return {"status": "success", "query": save_query_service(request, user_id, tenant_id, query_id)}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error updating retrieval query {query_id}: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error updating query: {str(e)}")
+
+
+@router.delete("/retrieval_test/queries/{query_id}")
+def delete_retrieval_query(
+        query_id: int = Path(..., description="ID of the saved query"),
+        authorization: Optional[str] = Header(None)
+):
+    """Delete a saved retrieval test query"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        delete_query_service(query_id, user_id, tenant_id)
+        return {"status": "success"}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error deleting retrieval query {query_id}: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error deleting query: {str(e)}")
+
+
 @router.post("/{index_name}")
 def create_new_index(
         index_name: str = Path(..., description="Name of the index to create"),
@@ -213,6 +298,335 @@ def delete_documents(
         raise HTTPException(status_code=500, detail=f"Error delete indexing documents: {e}")
 
 
+# Chunk Operations
+@router.get("/{index_name}/chunks")
+def get_document_chunks(
+        index_name: str = Path(..., description="Name of the index"),
+        path_or_url: str = Query(..., description="Path or URL of the document"),
+        es_core: ElasticSearchCore = Depends(get_es_core),
+        authorization: Optional[str] = Header(None)
+):
+    """Get the chunks of a document in the order they appear in it, a restricted document is only found by its audience"""
+    try:
+        user_id, _ = get_current_user_id(authorization)
+        return ElasticSearchService.list_chunks(index_name, path_or_url, es_core,
+                                                get_document_audience(authorization, user_id))
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error getting chunks of '{path_or_url}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error getting chunks: {str(e)}")
+
+
+@router.post("/{index_name}/chunks")
+def create_chunk(
+        request: ChunkCreateRequest,
+        index_name: str = Path(..., description="Name of the index"),
+        es_core: ElasticSearchCore = Depends(get_es_core),
+        authorization: Optional[str] = Header(None)
+):
+    """Add a chunk to a document at a position, the chunks from that position move down"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ElasticSearchService.create_chunk(index_name, request.path_or_url, request.position, request.content,
+                                                 request.metadata, get_embedding_model(tenant_id), es_core,
+                                                 get_document_audience(authorization, user_id))
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error creating chunk: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error creating chunk: {str(e)}")
+
+
+@router.post("/{index_name}/chunks/merge")
+def merge_chunks(
+        request: ChunkMergeRequest,
+        index_name: str = Path(..., description="Name of the index"),
+        es_core: ElasticSearchCore = Depends(get_es_core),
+        authorization: Optional[str] = Header(None)
+):
+    """Merge adjacent chunks into the first one"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ElasticSearchService.merge_chunks(index_name, request.chunk_ids, get_embedding_model(tenant_id),
+                                                 es_core, get_document_audience(authorization, user_id))
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error merging chunks: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error merging chunks: {str(e)}")
+
+
+@router.put("/{index_name}/chunks/{chunk_id}")
+def update_chunk(
+        request: ChunkUpdateRequest,
+        index_name: str = Path(..., description="Name of the index"),
+        chunk_id: str = Path(..., description="ID of the chunk"),
+        es_core: ElasticSearchCore = Depends(get_es_core),
+        authorization: Optional[str] = Header(None)
+):
+    """Replace the content and metadata of a chunk, it is embedded again"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ElasticSearchService.update_chunk(index_name, chunk_id, request.content, request.metadata,
+                                                 get_embedding_model(tenant_id), es_core,
+                                                 get_document_audience(authorization, user_id))
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error updating chunk '{chunk_id}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error updating chunk: {str(e)}")
+
+
+@router.delete("/{index_name}/chunks/{chunk_id}")
+def delete_chunk(
+        index_name: str = Path(..., description="Name of the index"),
+        chunk_id: str = Path(..., description="ID of the chunk"),
+        es_core: ElasticSearchCore = Depends(get_es_core),
+        authorization: Optional[str] = Header(None)
+):
+    """Delete a chunk, the following chunks move up one position"""
+    try:
+        user_id, _ = get_current_user_id(authorization)
+        return ElasticSearchService.delete_chunk(index_name, chunk_id, es_core,
+                                                 get_document_audience(authorization, user_id))
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error deleting chunk '{chunk_id}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error deleting chunk: {str(e)}")
+
+
+@router.post("/{index_name}/chunks/{chunk_id}/split")
+def split_chunk(
+        request: ChunkSplitRequest,
+        index_name: str = Path(..., description="Name of the index"),
+        chunk_id: str = Path(..., description="ID of the chunk"),
+        es_core: ElasticSearchCore = Depends(get_es_core),
+        authorization: Optional[str] = Header(None)
+):
+    """Split a chunk in two at a character offset of its content"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ElasticSearchService.split_chunk(index_name, chunk_id, request.offset, get_embedding_model(tenant_id),
+                                                es_core, get_document_audience(authorization, user_id))
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error splitting chunk '{chunk_id}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error splitting chunk: {str(e)}")
+
+
+# Source Operations
+@router.get("/{index_name}/sources")
+def get_sources(
+        index_name: str = Path(..., description="Name of the index"),
+        authorization: Optional[str] = Header(None)
+):
+    """Get the external sources the documents of a knowledge base are synced from"""
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return {"status": "success", "sources": list_sources_service(index_name, tenant_id)}
+    except Exception as e:
+        logger.error(f"Error getting sources of '{index_name}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error getting sources: {str(e)}")
+
+
+@router.post("/{index_name}/sources")
+def create_source(
+        request: KnowledgeSourceRequest,
+        index_name: str = Path(..., description="Name of the index"),
+        authorization: Optional[str] = Header(None)
+):
+    """Add a source to a knowledge base"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return {"status": "success", "source": create_source_service(index_name, request, tenant_id, user_id)}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error creating source of '{index_name}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error creating source: {str(e)}")
+
+
+@router.put("/{index_name}/sources/{source_id}")
+def update_source(
+        request: KnowledgeSourceRequest,
+        index_name: str = Path(..., description="Name of the index"),
+        source_id: int = Path(..., description="ID of the source"),
+        authorization: Optional[str] = Header(None)
+):
+    """Update a source, the documents follow the new settings on the next sync"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return {"status": "success",
+                "source": update_source_service(index_name, source_id, request, tenant_id, user_id)}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error updating source {source_id}: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error updating source: {str(e)}")
+
+
+@router.delete("/{index_name}/sources/{source_id}")
+def delete_source(
+        index_name: str = Path(..., description="Name of the index"),
+        source_id: int = Path(..., description="ID of the source"),
+        es_core: ElasticSearchCore = Depends(get_es_core),
+        authorization: Optional[str] = Header(None)
+):
+    """Delete a source together with the documents synced from it"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        delete_source_service(index_name, source_id, tenant_id, user_id, es_core)
+        return {"status": "success"}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error deleting source {source_id}: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error deleting source: {str(e)}")
+
+
+@router.post("/{index_name}/sources/{source_id}/sync")
+async def sync_source(
+        index_name: str = Path(..., description="Name of the index"),
+        source_id: int = Path(..., description="ID of the source"),
+        authorization: Optional[str] = Header(None)
+):
+    """Start syncing a source now, the sync continues in the background"""
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return {"status": "success", "run": sync_source_service(index_name, source_id, tenant_id)}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error syncing source {source_id}: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error syncing source: {str(e)}")
+
+
+# Ingestion Profile Operations
+@router.get("/{index_name}/ingestion_profile")
+def get_ingestion_profile(
+        index_name: str = Path(..., description="Name of the index"),
+        authorization: Optional[str] = Header(None)
+):
+    """Get how the documents of a knowledge base are parsed and chunked"""
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return {"status": "success", "profile": get_ingestion_profile_service(index_name, tenant_id)}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error getting ingestion profile of '{index_name}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error getting ingestion profile: {str(e)}")
+
+
+@router.put("/{index_name}/ingestion_profile")
+def save_ingestion_profile(
+        profile: IngestionProfile,
+        index_name: str = Path(..., description="Name of the index"),
+        authorization: Optional[str] = Header(None)
+):
+    """Save the profile, it applies to the documents uploaded or synced afterwards"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        save_ingestion_profile_service(index_name, profile, tenant_id, user_id)
+        return {"status": "success"}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error saving ingestion profile of '{index_name}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error saving ingestion profile: {str(e)}")
+
+
+@router.post("/{index_name}/ingestion_profile/preview")
+def preview_chunking(
+        index_name: str = Path(..., description="Name of the index"),
+        file: UploadFile = File(..., description="Sample file to split"),
+        profile: str = Form(..., description="Profile to split the file with, as JSON")
+):
+    """Split a sample file with a profile without adding it to the knowledge base"""
+    try:
+        return {"status": "success",
+                **preview_chunking_service(index_name, file.filename or "sample", file.file.read(), profile)}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error previewing chunking of '{index_name}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error previewing chunking: {str(e)}")
+
+
+@router.post("/{index_name}/reprocess")
+async def reprocess_documents(
+        index_name: str = Path(..., description="Name of the index"),
+        es_core: ElasticSearchCore = Depends(get_es_core),
+        authorization: Optional[str] = Header(None)
+):
+    """Parse and chunk all documents of a knowledge base again with its current profile"""
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return {"status": "success", **await reprocess_service(index_name, tenant_id, authorization, es_core)}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error reprocessing documents of '{index_name}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error reprocessing documents: {str(e)}")
+
+
+@router.get("/{index_name}/metadata_fields")
+def get_metadata_fields(
+        index_name: str = Path(..., description="Name of the index"),
+        authorization: Optional[str] = Header(None)
+):
+    """Get the metadata fields the documents of a knowledge base can have"""
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return {"status": "success", "fields": get_metadata_fields_service(index_name, tenant_id)}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error getting metadata fields of '{index_name}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error getting metadata fields: {str(e)}")
+
+
+@router.put("/{index_name}/metadata_fields")
+def save_metadata_fields(
+        request: MetadataFieldsRequest,
+        index_name: str = Path(..., description="Name of the index"),
+        authorization: Optional[str] = Header(None)
+):
+    """Replace the metadata fields, the values of removed fields are kept on the documents"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        save_metadata_fields_service(index_name, request, tenant_id, user_id)
+        return {"status": "success"}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error saving metadata fields of '{index_name}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error saving metadata fields: {str(e)}")
+
+
+@router.put("/{index_name}/files/attributes")
+def update_document_attributes(
+        request: DocumentAttributesRequest,
+        index_name: str = Path(..., description="Name of the index"),
+        es_core: ElasticSearchCore = Depends(get_es_core),
+        authorization: Optional[str] = Header(None)
+):
+    """Update the metadata and visibility of a document, its chunks are not embedded again"""
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        result = update_document_attributes_service(index_name, request, tenant_id, user_id, es_core,
+                                                    get_document_audience(authorization, user_id))
+        return {"status": "success", **result}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Error updating document attributes in '{index_name}': {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Error updating document attributes: {str(e)}")
+
+
 # Health check
 @router.get("/health")
 def health_check(es_core: ElasticSearchCore = Depends(get_es_core)):
@@ -0,0 +1,106 @@
+import logging
+from typing import Optional
+
+from fastapi import APIRouter, Header, HTTPException, Query, Request
+
+from consts.model import ConversationResponse, EvaluationJudgeRequest, EvaluationReportRequest, EvaluationSuiteRequest
+from services.evaluation_service import delete_suite_service, judge_answer_service, list_reports_service, \
+    list_suites_service, save_report_service, save_suite_service
+from utils.auth_utils import get_current_user_id, get_current_user_info
+
+router = APIRouter(prefix="/evaluation")
+
+# Configure logging
+logger = logging.getLogger("evaluation_app")
+
+
+@router.get("/suite", response_model=ConversationResponse)
+async def list_suites_endpoint(agent_id: int = Query(...), authorization: Optional[str] = Header(None)):
+    """
+    Get the evaluation suites of an agent, newest first
+    """
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=list_suites_service(agent_id, tenant_id))
+    except Exception as e:
+        logger.error(f"Failed to list evaluation suites: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/suite", response_model=ConversationResponse)
+async def save_suite_endpoint(request: EvaluationSuiteRequest, authorization: Optional[str] = Header(None)):
+    """
+    Create an evaluation suite, or replace its name and cases when it has an id
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=save_suite_service(request, tenant_id, user_id))
+    except Exception as e:
+        logger.error(f"Failed to save evaluation suite: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.delete("/suite/{suite_id}", response_model=ConversationResponse)
+async def delete_suite_endpoint(suite_id: int, authorization: Optional[str] = Header(None)):
+    """
+    Delete an evaluation suite together with its reports
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=delete_suite_service(suite_id, tenant_id, user_id))
+    except Exception as e:
+        logger.error(f"Failed to delete evaluation suite: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.get("/report", response_model=ConversationResponse)
+async def list_reports_endpoint(suite_id: int = Query(...), authorization: Optional[str] = Header(None)):
+    """
+    Get the reports of an evaluation suite, newest first
+    """
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=list_reports_service(suite_id, tenant_id))
+    except Exception as e:
+        logger.error(f"Failed to list evaluation reports: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/report", response_model=ConversationResponse)
+async def save_report_endpoint(request: EvaluationReportRequest, authorization: Optional[str] = Header(None)):
+    """
+    Keep the report of a run of an evaluation suite
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=save_report_service(request, tenant_id, user_id))
+    except Exception as e:
+        logger.error(f"Failed to save evaluation report: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/judge", response_model=ConversationResponse)
+async def judge_answer_endpoint(request: EvaluationJudgeRequest, http_request: Request,
+                                authorization: Optional[str] = Header(None)):
+    """
+    Ask a model whether an answer satisfies the expectation of a case
+    """
+    try:
+        _, tenant_id, language = get_current_user_info(authorization, http_request)
+        return ConversationResponse(code=0, message="success",
+                                    data=judge_answer_service(request, tenant_id, language))
+    except Exception as e:
+        logger.error(f"Failed to judge evaluation answer: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
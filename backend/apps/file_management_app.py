@@ -2,23 +2,26 @@ import asyncio
 import os
 import json
 from pathlib import Path
-from typing import List, Optional
+from typing import Any, Dict, List, Optional
 from io import BytesIO
 import requests
 import logging
 import httpx
 
-from utils.auth_utils import get_current_user_info
+from utils.auth_utils import get_current_user_id, get_current_user_info
 from fastapi import UploadFile, File, HTTPException, Form, APIRouter, Query, Path as PathParam, Body, Header, Request
 from fastapi.responses import JSONResponse, RedirectResponse, StreamingResponse
 
 from consts.model import ProcessParams
 from consts.const import MAX_CONCURRENT_UPLOADS, UPLOAD_FOLDER, DATA_PROCESS_SERVICE
 from utils.file_management_utils import save_upload_file, trigger_data_process
+from utils.ingestion_profile_utils import to_processing_params
 from utils.attachment_utils import convert_image_to_text, convert_long_text_to_text
 from database.attachment_db import (
     upload_fileobj, delete_file, get_file_url, list_files, get_file_stream, get_content_type
 )
+from database.knowledge_db import get_knowledge_record
+from services.document_attribute_service import parse_document_attributes, save_upload_attributes_service
 from agents.preprocess_manager import preprocess_manager
 
 logger = logging.getLogger("file_management_app")
@@ -85,11 +88,19 @@ async def _upload_to_minio(files: List[UploadFile], folder: str) -> List[dict]:
 async def upload_files(
         file: List[UploadFile] = File(..., alias="file"),
         destination: str = Form(..., description="Upload destination: 'local' or 'minio'"),
-        folder: str = Form("attachments", description="Storage folder path for MinIO (optional)")
+        folder: str = Form("attachments", description="Storage folder path for MinIO (optional)"),
+        metadata: Optional[str] = Form(None, description="Metadata of the files for the knowledge base, as JSON"),
+        visibility: Optional[str] = Form(None, description="Visibility of the files in the knowledge base, as JSON")
 ):
     if not file:
         raise HTTPException(status_code=400, detail="No files in the request")
 
+    # The attributes are recorded when the files are processed, invalid ones are refused before anything is stored
+    try:
+        parse_document_attributes(metadata, visibility)
+    except HTTPException as e:
+        return JSONResponse(status_code=400, content={"error": e.detail})
+
     uploaded_filenames = []
     uploaded_file_paths = []
     errors = []
@@ -152,20 +163,40 @@ async def process_files(
         chunking_strategy: Optional[str] = Body("basic"),
         index_name: str = Body(...),
         destination: str = Body(...),
+        metadata: Optional[Dict[str, Any]] = Body(None),
+        visibility: Optional[Dict[str, Any]] = Body(None),
         authorization: Optional[str] = Header(None)
 ):
     """
     Trigger data processing for a list of uploaded files.
     files: List of dicts, each with "path_or_url" and "filename"
-    chunking_strategy: chunking strategy, could be chosen from basic/by_title/none
+    chunking_strategy: chunking strategy, could be chosen from basic/by_title/none, replaced by the ingestion
+        profile of the knowledge base once one is saved
     index_name: index name in elasticsearch
     destination: 'local' or 'minio'
+    metadata: values of the metadata fields of the knowledge base, for every file
+    visibility: who may retrieve the files, every user of the knowledge base when not sent
     """
+    try:
+        attributes = parse_document_attributes(metadata, visibility)
+        if attributes:
+            user_id, tenant_id = get_current_user_id(authorization)
+            save_upload_attributes_service(index_name, [file["path_or_url"] for file in files], attributes,
+                                           tenant_id, user_id)
+    except HTTPException as e:
+        return JSONResponse(status_code=e.status_code, content={"error": e.detail})
+
+    additional_params = {}
+    profile = get_knowledge_record({"index_name": index_name}).get("ingestion_profile")
+    if profile:
+        chunking_strategy, additional_params = to_processing_params(profile)
+
     process_params = ProcessParams(
         chunking_strategy=chunking_strategy,
         source_type=destination,
         index_name=index_name,
-        authorization=authorization
+        authorization=authorization,
+        additional_params=additional_params
     )
 
     process_result = await trigger_data_process(files, process_params)
@@ -4,11 +4,13 @@ from typing import Optional
 from fastapi.responses import JSONResponse
 from fastapi import APIRouter, Header
 
+from consts.model import McpServerConfigRequest, McpServerUpdateRequest
 from services.remote_mcp_service import add_remote_mcp_server_list, delete_remote_mcp_server_list, \
-    get_remote_mcp_server_list, mcp_server_health
+    get_remote_mcp_server_list, check_remote_mcp_server_health, update_remote_mcp_server, build_mcp_server_config, \
+    record_mcp_error, get_mcp_server_usage
 from services.tool_configuration_service import get_tool_from_remote_mcp_server
 from utils.auth_utils import get_current_user_id
-from database.remote_mcp_db import update_mcp_status_by_name_and_url
+from database.remote_mcp_db import get_mcp_record_by_name
 
 router = APIRouter(prefix="/mcp")
 
@@ -22,15 +24,19 @@ async def get_tools_from_remote_mcp(
     mcp_url: str,
     authorization: Optional[str] = Header(None)
 ):
-    """ Used to list tool information from the remote MCP server """
+    """ Used to list tool information from the remote MCP server, including the tools its filter hides """
+    _, tenant_id = get_current_user_id(authorization)
     try:
-        tools_info = await get_tool_from_remote_mcp_server(mcp_server_name=service_name, remote_mcp_server=mcp_url)
+        server_config = get_mcp_record_by_name(mcp_name=service_name, tenant_id=tenant_id)
+        tools_info = await get_tool_from_remote_mcp_server(mcp_server_name=service_name, remote_mcp_server=mcp_url,
+                                                           server_config=server_config)
         return JSONResponse(
             status_code=200,
             content={"tools": [tool.__dict__ for tool in tools_info], "status": "success"}
         )
     except Exception as e:
         logger.error(f"get tools from remote MCP server failed, error: {e}")
+        record_mcp_error(service_name, tenant_id, str(e) or type(e).__name__)
         return JSONResponse(
             status_code=400,
             content={"message": "Failed to get tools from remote MCP server", "status": "error"}
@@ -38,17 +44,23 @@ async def get_tools_from_remote_mcp(
 
 @router.post("/add")
 async def add_remote_proxies(
-    mcp_url: str,
-    service_name: str,
+    request: McpServerConfigRequest,
     authorization: Optional[str] = Header(None)
 ):
     """ Used to add a remote MCP server """
     try:
         user_id, tenant_id = get_current_user_id(authorization)
+        try:
+            server_config = build_mcp_server_config(request)
+        except PermissionError as e:
+            return JSONResponse(status_code=403, content={"message": str(e), "status": "error"})
+        except ValueError as e:
+            return JSONResponse(status_code=400, content={"message": str(e), "status": "error"})
         result = await add_remote_mcp_server_list(tenant_id=tenant_id,
                                                   user_id=user_id,
-                                                  remote_mcp_server=mcp_url,
-                                                  remote_mcp_server_name=service_name)
+                                                  remote_mcp_server=server_config["mcp_server"],
+                                                  remote_mcp_server_name=request.service_name,
+                                                  server_config=server_config)
         # If result is already a JSONResponse, return it directly
         if isinstance(result, JSONResponse):
             return result
@@ -65,6 +77,22 @@ async def add_remote_proxies(
             content={"message": "Failed to add remote MCP proxy", "status": "error"}
         )
 
+@router.post("/update")
+async def update_remote_proxies(
+    request: McpServerUpdateRequest,
+    authorization: Optional[str] = Header(None)
+):
+    """ Used to edit a remote MCP server, the secrets left out of the request are kept """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return await update_remote_mcp_server(tenant_id=tenant_id, user_id=user_id, request=request)
+    except Exception as e:
+        logger.error(f"Failed to update remote MCP proxy: {e}")
+        return JSONResponse(
+            status_code=400,
+            content={"message": "Failed to update remote MCP proxy", "status": "error"}
+        )
+
 @router.delete("")
 async def delete_remote_proxies(
     service_name: str,
@@ -113,19 +141,29 @@ async def get_remote_proxies(
             content={"message": "Failed to get remote MCP proxy", "status": "error"}
         )
 
+@router.get("/usage")
+async def get_remote_proxy_usage(service_name: str, authorization: Optional[str] = Header(None)):
+    """ Used to list the agents using the tools of a MCP server before it is deleted """
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        agents = get_mcp_server_usage(tenant_id=tenant_id, remote_mcp_server_name=service_name)
+        return JSONResponse(
+            status_code=200,
+            content={"agents": agents, "status": "success"}
+        )
+    except Exception as e:
+        logger.error(f"Failed to get remote MCP proxy usage: {e}")
+        return JSONResponse(
+            status_code=400,
+            content={"message": "Failed to get remote MCP proxy usage", "status": "error"}
+        )
+
 @router.get("/healthcheck")
 async def check_mcp_health(mcp_url: str, service_name: str, authorization: Optional[str] = Header(None)):
-    """ Used to check the health of the MCP server, the front end can call it, and automatically update the database status """
+    """ Used to check the health of the MCP server, the front end can call it, and automatically update the database status.
+    The recent connection errors of the server are returned either way """
     user_id, tenant_id = get_current_user_id(authorization)
-
-    # check the health of the MCP server
-    response = await mcp_server_health(remote_mcp_server=mcp_url)
-    # update the status of the MCP server in the database
-
-    status = response.status_code == 200
-    update_mcp_status_by_name_and_url(mcp_name=service_name,
-                                        mcp_server=mcp_url,
-                                        tenant_id=tenant_id,
-                                        user_id=user_id,
-                                        status=status)
-    return response
+    return await check_remote_mcp_server_health(tenant_id=tenant_id,
+                                                user_id=user_id,
+                                                remote_mcp_server=mcp_url,
+                                                remote_mcp_server_name=service_name)
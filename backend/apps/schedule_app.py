@@ -0,0 +1,186 @@
+import json
+import logging
+from typing import Optional
+
+from fastapi import APIRouter, Header, HTTPException, Query, Request
+
+from consts.model import AgentScheduleRequest, ConversationResponse, ScheduleEnabledRequest, ScheduleInboxReadRequest, \
+    ScheduleRunRequest
+from services.schedule_service import delete_schedule_service, list_inbox_service, list_runs_service, \
+    list_schedules_service, mark_inbox_read_service, rotate_webhook_service, run_schedule_now_service, \
+    save_schedule_service, set_schedule_enabled_service, trigger_webhook_service
+from utils.auth_utils import get_current_user_id, get_current_user_info
+
+router = APIRouter(prefix="/schedule")
+
+# Configure logging
+logger = logging.getLogger("schedule_app")
+
+
+@router.get("", response_model=ConversationResponse)
+async def list_schedules_endpoint(agent_id: int = Query(...), authorization: Optional[str] = Header(None)):
+    """
+    Get the schedules of an agent with their latest run
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success",
+                                    data=list_schedules_service(agent_id, tenant_id, user_id))
+    except Exception as e:
+        logger.error(f"Failed to list schedules: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("", response_model=ConversationResponse)
+async def save_schedule_endpoint(request: AgentScheduleRequest, http_request: Request,
+                                 authorization: Optional[str] = Header(None)):
+    """
+    Create a schedule, or replace it when it has an id. A new webhook schedule gets its URL in the response
+    """
+    try:
+        user_id, tenant_id, language = get_current_user_info(authorization, http_request)
+        return ConversationResponse(code=0, message="success",
+                                    data=save_schedule_service(request, tenant_id, user_id, language))
+    except Exception as e:
+        logger.error(f"Failed to save schedule: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.get("/inbox", response_model=ConversationResponse)
+async def list_inbox_endpoint(authorization: Optional[str] = Header(None)):
+    """
+    Get the results delivered to the inbox of the current user, newest first
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success", data=list_inbox_service(user_id, tenant_id))
+    except Exception as e:
+        logger.error(f"Failed to list schedule inbox: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/inbox/read", response_model=ConversationResponse)
+async def mark_inbox_read_endpoint(request: ScheduleInboxReadRequest, authorization: Optional[str] = Header(None)):
+    """
+    Mark inbox items as read, every item when no id is given
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success",
+                                    data=mark_inbox_read_service(request.item_ids, user_id, tenant_id))
+    except Exception as e:
+        logger.error(f"Failed to mark schedule inbox as read: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/webhook/{webhook_token}", response_model=ConversationResponse)
+async def webhook_endpoint(webhook_token: str, http_request: Request):
+    """
+    Start a run of a webhook schedule, the query template is filled from the JSON body. Called by other
+    systems, the token of the URL stands for the authorization
+    """
+    try:
+        body = await http_request.body()
+        try:
+            payload = json.loads(body) if body else {}
+        except json.JSONDecodeError:
+            raise HTTPException(status_code=400, detail="The body of a webhook call must be JSON")
+        return ConversationResponse(code=0, message="success",
+                                    data=await trigger_webhook_service(webhook_token, payload))
+    except Exception as e:
+        logger.error(f"Failed to run webhook schedule: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.delete("/{schedule_id}", response_model=ConversationResponse)
+async def delete_schedule_endpoint(schedule_id: int, authorization: Optional[str] = Header(None)):
+    """
+    Delete a schedule, its runs stay in the conversation they were delivered to
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success",
+                                    data=delete_schedule_service(schedule_id, tenant_id, user_id))
+    except Exception as e:
+        logger.error(f"Failed to delete schedule: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/{schedule_id}/enabled", response_model=ConversationResponse)
+async def set_schedule_enabled_endpoint(schedule_id: int, request: ScheduleEnabledRequest,
+                                        authorization: Optional[str] = Header(None)):
+    """
+    Pause or resume a schedule, a paused webhook answers its calls with an error
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success",
+                                    data=set_schedule_enabled_service(schedule_id, request.enabled, tenant_id,
+                                                                      user_id))
+    except Exception as e:
+        logger.error(f"Failed to pause or resume schedule: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/{schedule_id}/run", response_model=ConversationResponse)
+async def run_schedule_endpoint(schedule_id: int, request: ScheduleRunRequest,
+                                authorization: Optional[str] = Header(None)):
+    """
+    Start a run right away, webhook templates are filled from the sample payload
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success",
+                                    data=await run_schedule_now_service(schedule_id, request.payload, tenant_id,
+                                                                        user_id))
+    except Exception as e:
+        logger.error(f"Failed to run schedule: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post("/{schedule_id}/webhook/rotate", response_model=ConversationResponse)
+async def rotate_webhook_endpoint(schedule_id: int, authorization: Optional[str] = Header(None)):
+    """
+    Replace the secret of the webhook URL, callers of the old URL are rejected from now on
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success",
+                                    data=rotate_webhook_service(schedule_id, tenant_id, user_id))
+    except Exception as e:
+        logger.error(f"Failed to rotate schedule webhook: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.get("/{schedule_id}/runs", response_model=ConversationResponse)
+async def list_runs_endpoint(schedule_id: int, authorization: Optional[str] = Header(None)):
+    """
+    Get the runs of a schedule, newest first
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return ConversationResponse(code=0, message="success",
+                                    data=list_runs_service(schedule_id, tenant_id, user_id))
+    except Exception as e:
+        logger.error(f"Failed to list schedule runs: {str(e)}")
+        if isinstance(e, HTTPException):
+            raise e
+        raise HTTPException(status_code=500, detail=str(e))
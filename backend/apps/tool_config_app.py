@@ -1,12 +1,14 @@
-from fastapi import HTTPException, APIRouter
+from fastapi import HTTPException, APIRouter, Query, Request
 from fastapi.responses import JSONResponse
 import logging
 from database.agent_db import query_all_tools
-from consts.model import ToolInstanceInfoRequest, ToolInstanceSearchRequest
+from consts.model import ToolInstanceInfoRequest, ToolInstanceSearchRequest, ToolInvokeRequest, ToolSampleRequest
 from services.tool_configuration_service import search_tool_info_impl, update_tool_info_impl, update_tool_list
+from services.tool_playground_service import invoke_tool_service, list_samples_service, save_sample_service, \
+    delete_sample_service
 from fastapi import Header
 from typing import Optional
-from utils.auth_utils import get_current_user_id
+from utils.auth_utils import get_current_user_id, get_current_user_info
 
 router = APIRouter(prefix="/tool")
 
@@ -65,4 +67,65 @@ async def scan_and_update_tool(
         return JSONResponse(
             status_code=400,
             content={"message": "Failed to update tool", "status": "error"}
-        )
\ No newline at end of file
+        )
+
+
+@router.post("/invoke")
+async def invoke_tool_api(request: ToolInvokeRequest, http_request: Request,
+                          authorization: Optional[str] = Header(None)):
+    """
+    Invoke a single tool directly, outside an agent run
+    """
+    try:
+        user_id, tenant_id, language = get_current_user_info(authorization, http_request)
+        return await invoke_tool_service(request, tenant_id, user_id, language, authorization)
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Failed to invoke tool, error in: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Failed to invoke tool, error in: {str(e)}")
+
+
+@router.get("/samples")
+async def list_tool_samples_api(tool_id: int = Query(...), agent_id: int = Query(...),
+                                authorization: Optional[str] = Header(None)):
+    """
+    List the saved playground invocations of a tool
+    """
+    try:
+        _, tenant_id = get_current_user_id(authorization)
+        return list_samples_service(tool_id, agent_id, tenant_id)
+    except Exception as e:
+        logger.error(f"Failed to get tool samples, error in: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Failed to get tool samples, error in: {str(e)}")
+
+
+@router.post("/sample")
+async def save_tool_sample_api(request: ToolSampleRequest, authorization: Optional[str] = Header(None)):
+    """
+    Save a playground invocation as a sample
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        return save_sample_service(request, tenant_id, user_id)
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Failed to save tool sample, error in: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Failed to save tool sample, error in: {str(e)}")
+
+
+@router.delete("/sample/{sample_id}")
+async def delete_tool_sample_api(sample_id: int, authorization: Optional[str] = Header(None)):
+    """
+    Delete a saved tool sample
+    """
+    try:
+        user_id, tenant_id = get_current_user_id(authorization)
+        delete_sample_service(sample_id, tenant_id, user_id)
+        return {}
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Failed to delete tool sample, error in: {str(e)}")
+        raise HTTPException(status_code=500, detail=f"Failed to delete tool sample, error in: {str(e)}")
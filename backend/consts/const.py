@@ -26,6 +26,16 @@ CLIP_MODEL_PATH = os.getenv("CLIP_MODEL_PATH")
 MAX_FILE_SIZE = 100 * 1024 * 1024  # 100MB
 MAX_CONCURRENT_UPLOADS = 5
 UPLOAD_FOLDER = os.getenv('UPLOAD_FOLDER', 'uploads')
+# Folder sources of knowledge bases are read from under this directory only
+SOURCE_FOLDER_ROOT = os.getenv('SOURCE_FOLDER_ROOT', '/mnt/nexent')
+# URL and sitemap sources may reach private, loopback and link-local addresses, for tests and local setups only
+SOURCE_ALLOW_PRIVATE_URLS = os.getenv('SOURCE_ALLOW_PRIVATE_URLS', 'false').lower() == 'true'
+# Commands MCP servers of the stdio transport may start on the backend host, comma separated.
+# stdio servers are refused when none is listed
+MCP_STDIO_ALLOWED_COMMANDS = [command.strip() for command in os.getenv('MCP_STDIO_ALLOWED_COMMANDS', '').split(',')
+                              if command.strip()]
+# Seconds a tool call waits for the user's approval before it is denied
+TOOL_APPROVAL_TIMEOUT = float(os.getenv('TOOL_APPROVAL_TIMEOUT', '600'))
 
 # Supabase Configuration
 SUPABASE_URL = os.getenv('SUPABASE_URL')
@@ -1,7 +1,7 @@
 from enum import Enum
-from typing import Optional, Any, List, Dict
+from typing import Optional, Any, List, Dict, Literal, Union
 
-from pydantic import BaseModel, Field, EmailStr
+from pydantic import BaseModel, Field, EmailStr, model_validator
 
 from nexent.core.agents.agent_model import ToolConfig
 
@@ -144,6 +144,12 @@ class AgentRequest(BaseModel):
     minio_files: Optional[List[Dict[str, Any]]] = None  # Complete list of attachment information
     agent_id: Optional[int] = None
     is_debug: Optional[bool] = False
+    # Message the run follows. A user message is the query itself (edit and regenerate), then only the
+    # answer is saved as a new branch under it. Defaults to the latest message of the conversation.
+    parent_message_id: Optional[int] = None
+    # Saved version of the agent to run instead of its current configuration. When not sent, a conversation
+    # pinned to a version runs that version.
+    agent_version_no: Optional[int] = None
 
 
 class MessageUnit(BaseModel):
@@ -157,6 +163,10 @@ class MessageRequest(BaseModel):
     role: str
     message: List[MessageUnit]
     minio_files: Optional[List[Dict[str, Any]]] = None  # Complete list of attachment information
+    # Message the saved one follows, None for the first message. When not sent at all, the message
+    # follows the latest message of the conversation.
+    parent_message_id: Optional[int] = None
+    agent_id: Optional[int] = None  # Agent that produced an assistant message
 
 
 class ConversationRequest(BaseModel):
@@ -179,6 +189,66 @@ class GenerateTitleRequest(BaseModel):
     history: List[Dict[str, str]]
 
 
+class ConversationSearchRequest(BaseModel):
+    query: str
+    include_steps: Optional[bool] = False  # Also search the text of agent steps
+    agent_id: Optional[int] = None
+    start_time: Optional[int] = None  # Millisecond timestamp
+    end_time: Optional[int] = None  # Millisecond timestamp
+    has_attachments: Optional[bool] = False
+    limit: Optional[int] = 50
+
+
+class ConversationOrganizeRequest(BaseModel):
+    conversation_id: int
+    pinned: Optional[bool] = None
+    # Folder to file the conversation in, None to take it out of its folder. Left as it is when not sent.
+    folder_id: Optional[int] = None
+    tag_ids: Optional[List[int]] = None
+
+
+class ConversationAgentPinRequest(BaseModel):
+    conversation_id: int
+    # Agent version the conversation runs, both None to follow the latest version again
+    agent_id: Optional[int] = None
+    version_no: Optional[int] = None
+
+
+class ConversationIdsRequest(BaseModel):
+    conversation_ids: List[int]
+
+
+class ConversationBatchMoveRequest(BaseModel):
+    conversation_ids: List[int]
+    folder_id: Optional[int] = None  # None to take the conversations out of their folder
+
+
+class ConversationFolderRequest(BaseModel):
+    name: str
+    folder_id: Optional[int] = None  # Set when renaming
+
+
+class ConversationFolderReorderRequest(BaseModel):
+    folder_ids: List[int]
+
+
+class ConversationTagRequest(BaseModel):
+    name: str
+    color: str
+
+
+class ConversationShareRequest(BaseModel):
+    conversation_id: int
+    visibility: Literal["public", "tenant"] = "tenant"  # public: anyone with the link, tenant: signed-in users of the tenant
+    redact_tool_inputs: bool = False  # Replace tool call arguments and generated code in the snapshot
+
+
+class ConversationImportRequest(BaseModel):
+    title: str
+    # Messages as returned by the conversation history API, in creation order
+    messages: List[Dict[str, Any]]
+
+
 # Pydantic models for API
 class TaskRequest(BaseModel):
     source: str
@@ -225,12 +295,122 @@ class IndexingResponse(BaseModel):
     total_submitted: int
 
 
+class ChunkUpdateRequest(BaseModel):
+    content: str = Field(..., min_length=1)
+    metadata: Dict[str, Any] = Field(default_factory=dict)
+
+
+class ChunkCreateRequest(ChunkUpdateRequest):
+    path_or_url: str
+    position: int = Field(..., ge=0)
+
+
+class ChunkMergeRequest(BaseModel):
+    chunk_ids: List[str] = Field(..., min_length=2)
+
+
+class ChunkSplitRequest(BaseModel):
+    offset: int = Field(..., gt=0)
+
+
+class RetrievalTestRequest(BaseModel):
+    query: str = Field(..., min_length=1)
+    index_names: List[str] = Field(..., min_length=1)
+    search_mode: Literal["keyword", "semantic", "hybrid"] = "hybrid"
+    # Display name of the rerank model, the results are not reranked when None
+    rerank_model: Optional[str] = None
+    top_k: int = Field(5, ge=1, le=50)
+    # Only documents whose metadata field has the value, keyed by field key
+    metadata_filters: Dict[str, str] = Field(default_factory=dict)
+
+
+class RetrievalQuerySaveRequest(BaseModel):
+    params: RetrievalTestRequest
+    results: List[Dict[str, Any]] = Field(default_factory=list)
+
+
+class KnowledgeSourceRequest(BaseModel):
+    name: str = Field(..., min_length=1, max_length=100)
+    type: Literal["urls", "sitemap", "folder", "bucket"]
+    # urls; sitemap_url and include_pattern; path and recursive; or bucket and prefix, depending on the type
+    config: Dict[str, Any] = Field(default_factory=dict)
+    sync_interval: Literal["manual", "hourly", "daily", "weekly"] = "manual"
+
+
+class IngestionProfile(BaseModel):
+    # Sizes are in tokens
+    chunk_size: int = Field(512, ge=64, le=8192)
+    chunk_overlap: int = Field(64, ge=0)
+    split_by: Literal["heading", "page", "sentence"] = "heading"
+    ocr: bool = False
+    table_mode: Literal["markdown", "text", "skip"] = "markdown"
+    language: Literal["auto", "zh", "en"] = "auto"
+
+    @model_validator(mode="after")
+    def check_overlap(self):
+        if self.chunk_overlap >= self.chunk_size:
+            raise ValueError("chunk_overlap must be smaller than chunk_size")
+        return self
+
+
+class DocumentMetadataField(BaseModel):
+    key: str = Field(..., pattern=r"^[a-z][a-z0-9_]*$", max_length=64)
+    label: str = Field(..., min_length=1, max_length=100)
+    type: Literal["text", "select", "date", "tags"]
+    # Values a select field can have
+    options: Optional[List[str]] = None
+
+    @model_validator(mode="after")
+    def check_options(self):
+        if self.type == "select" and not self.options:
+            raise ValueError(f"Select field {self.key} needs options")
+        return self
+
+
+class MetadataFieldsRequest(BaseModel):
+    fields: List[DocumentMetadataField]
+
+    @model_validator(mode="after")
+    def check_unique_keys(self):
+        keys = [field.key for field in self.fields]
+        if len(keys) != len(set(keys)):
+            raise ValueError("Metadata field keys must be unique")
+        return self
+
+
+class DocumentVisibility(BaseModel):
+    # When False every user of the knowledge base can retrieve the document
+    restricted: bool = False
+    # Emails of the users allowed when restricted
+    users: List[str] = Field(default_factory=list)
+    # Roles allowed when restricted, optional values admin/user
+    roles: List[Literal["admin", "user"]] = Field(default_factory=list)
+
+    @model_validator(mode="after")
+    def check_audience(self):
+        if self.restricted and not self.users and not self.roles:
+            raise ValueError("A restricted document needs users or roles")
+        return self
+
+
+class DocumentAttributes(BaseModel):
+    # Values of the metadata fields keyed by field key, a list of strings for tags fields
+    metadata: Dict[str, Union[str, List[str]]] = Field(default_factory=dict)
+    visibility: DocumentVisibility = Field(default_factory=DocumentVisibility)
+
+
+class DocumentAttributesRequest(DocumentAttributes):
+    path_or_url: str = Field(..., min_length=1)
+
+
 # Request models
 class ProcessParams(BaseModel):
     chunking_strategy: Optional[str] = "basic"
     source_type: str
     index_name: str
     authorization: Optional[str] = None
+    # Parser and chunker settings of the knowledge base ingestion profile
+    additional_params: Dict[str, Any] = Field(default_factory=dict)
 
 
 class OpinionRequest(BaseModel):
@@ -275,6 +455,108 @@ class AgentIDRequest(BaseModel):
     agent_id: int
 
 
+class AgentRollbackRequest(BaseModel):
+    agent_id: int
+    version_no: int
+
+
+class ApprovalPolicyRequest(BaseModel):
+    agent_id: int
+    # Tools asking for approval when they have no mode of their own: none, the MCP tools or all of them
+    default_mode: Literal["never", "mcp", "always"] = "never"
+    # Modes set on single tools, keyed by tool id, they win over the default
+    tool_modes: Dict[str, Literal["ask", "auto"]] = Field(default_factory=dict)
+
+
+class ToolApprovalRequest(BaseModel):
+    conversation_id: int
+    approval_id: str
+    decision: Literal["approved", "denied"]
+    # Arguments the tool runs with, only sent when the user edited them
+    arguments: Optional[Dict[str, Any]] = None
+
+
+class EvaluationCase(BaseModel):
+    id: str
+    question: str
+    # Expected answer for exact, one required fragment per line for contains, a pattern for regex,
+    # a description of a good answer for the LLM judge
+    expected: str = ""
+    scorer: Literal["exact", "contains", "regex", "llm_judge"] = "contains"
+    required_tools: List[str] = []
+    required_citations: List[str] = []
+    forbidden_phrases: List[str] = []
+
+
+class EvaluationSuiteRequest(BaseModel):
+    # Suite to replace, None to create one
+    suite_id: Optional[int] = None
+    agent_id: int
+    name: str
+    cases: List[EvaluationCase] = []
+
+
+class EvaluationCheck(BaseModel):
+    kind: Literal["answer", "tool", "citation", "forbidden"]
+    target: str = ""
+    passed: bool
+    detail: Optional[str] = None
+
+
+class EvaluationCaseResult(BaseModel):
+    case_id: str
+    question: str
+    passed: bool
+    answer: str = ""
+    checks: List[EvaluationCheck] = []
+    duration: float = 0  # Seconds
+    error: Optional[str] = None
+
+
+class EvaluationReportRequest(BaseModel):
+    suite_id: int
+    agent_id: int
+    version_no: Optional[int] = None  # Agent version the suite ran against
+    results: List[EvaluationCaseResult]
+
+
+class EvaluationJudgeRequest(BaseModel):
+    question: str
+    expected: str
+    answer: str
+    # Model that judges, the secondary LLM of the tenant when not sent or unknown
+    model_display_name: Optional[str] = None
+
+
+class AgentScheduleRequest(BaseModel):
+    # Replaces the schedule with this id, a new schedule is created when not sent
+    schedule_id: Optional[int] = None
+    agent_id: int
+    name: str
+    trigger: Literal["cron", "webhook"]
+    # Five field cron expression evaluated in the timezone, unused by webhook schedules
+    cron: str = ""
+    timezone: str = "UTC"
+    # Question sent to the agent, {{path}} placeholders are filled from the JSON body of the webhook call
+    query_template: str
+    delivery: Literal["conversation", "inbox"] = "conversation"
+    enabled: bool = True
+
+
+class ScheduleEnabledRequest(BaseModel):
+    enabled: bool
+
+
+class ScheduleRunRequest(BaseModel):
+    # Sample webhook payload the query template is filled from
+    payload: Optional[Dict[str, Any]] = None
+
+
+class ScheduleInboxReadRequest(BaseModel):
+    # Every item of the inbox when not sent
+    item_ids: Optional[List[int]] = None
+
+
 class ToolInstanceInfoRequest(BaseModel):
     tool_id: int
     agent_id: int
@@ -287,6 +569,24 @@ class ToolInstanceSearchRequest(BaseModel):
     agent_id: int
 
 
+class ToolInvokeRequest(BaseModel):
+    tool_id: int
+    agent_id: int
+    # Init params entered in the playground, the saved configuration of the agent fills the missing ones
+    params: Dict[str, Any] = Field(default_factory=dict)
+    inputs: Dict[str, Any] = Field(default_factory=dict)
+
+
+class ToolSampleRequest(BaseModel):
+    tool_id: int
+    agent_id: int
+    params: Dict[str, Any] = Field(default_factory=dict)
+    inputs: Dict[str, Any] = Field(default_factory=dict)
+    output: Any = None
+    error: Optional[str] = None
+    duration: int = Field(default=0, ge=0, description="Milliseconds")
+
+
 class ToolSourceEnum(Enum):
     LOCAL = "local"
     MCP = "mcp"
@@ -339,6 +639,35 @@ class MCPInfo(BaseModel):
     mcp_url: str
 
 
+class McpToolFilter(BaseModel):
+    # Tools exposed to agents: all of them, only the listed ones or all but the listed ones
+    mode: Literal["all", "allow", "deny"] = "all"
+    tools: List[str] = Field(default_factory=list)
+
+
+class McpServerConfigRequest(BaseModel):
+    service_name: str
+    transport: Literal["stdio", "sse", "streamable_http"] = "sse"
+    # Server address, only for sse and streamable_http
+    mcp_url: str = ""
+    # Command started by the backend, only for stdio
+    command: Optional[str] = None
+    args: List[str] = Field(default_factory=list)
+    # Secrets are never returned: a None value keeps the saved one, names left out are removed
+    env: Dict[str, Optional[str]] = Field(default_factory=dict)
+    headers: Dict[str, Optional[str]] = Field(default_factory=dict)
+    # None keeps the saved token, an empty string removes it
+    bearer_token: Optional[str] = None
+    # Connection timeout in seconds
+    timeout: int = Field(default=30, gt=0)
+    tool_filter: McpToolFilter = Field(default_factory=McpToolFilter)
+
+
+class McpServerUpdateRequest(McpServerConfigRequest):
+    # Name of the server before the update, the server can be renamed
+    original_service_name: str
+
+
 class ExportAndImportDataFormat(BaseModel):
     agent_id: int
     agent_info: Dict[str, ExportAndImportAgentInfo]
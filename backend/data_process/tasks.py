@@ -545,7 +545,8 @@ def forward(self, processed_data: Dict, index_name: str,
 @app.task(bind=True, base=LoggingTask, name='data_process.tasks.process_and_forward')
 def process_and_forward(self, source: str, source_type: str,
                         chunking_strategy: str, index_name: Optional[str] = None,
-                        original_filename: Optional[str] = None, authorization: Optional[str] = None) -> str:
+                        original_filename: Optional[str] = None, authorization: Optional[str] = None,
+                        **params) -> str:
     """
     Combined task that chains processing and forwarding
     
@@ -572,7 +573,8 @@ def process_and_forward(self, source: str, source_type: str,
             source_type=source_type,
             chunking_strategy=chunking_strategy,
             index_name=index_name,
-            original_filename=original_filename
+            original_filename=original_filename,
+            **params
         ).set(queue='process_q'),
         forward.s(
             index_name=index_name,
@@ -1,9 +1,11 @@
 import re
 import logging
-from typing import List
+from typing import List, Optional
+
+from sqlalchemy import func
 
 from database.client import get_db_session, as_dict, filter_property
-from database.db_models import ToolInfo, AgentInfo, ToolInstance, AgentRelation
+from database.db_models import ToolInfo, AgentInfo, ToolInstance, AgentRelation, AgentVersion
 
 logger = logging.getLogger("agent_db")
 
@@ -355,6 +357,27 @@ def query_all_agent_info_by_tenant_id(tenant_id: str):
                                                  AgentInfo.delete_flag != 'Y').order_by(AgentInfo.create_time.desc()).all()
         return [as_dict(agent) for agent in agents]
 
+def query_agents_using_mcp_server(mcp_name: str, tenant_id: str) -> List[dict]:
+    """
+    Query the agents with an enabled tool of a MCP server
+    """
+    with get_db_session() as session:
+        agents = session.query(AgentInfo.agent_id, AgentInfo.name, AgentInfo.display_name).join(
+            ToolInstance, ToolInstance.agent_id == AgentInfo.agent_id
+        ).join(
+            ToolInfo, ToolInfo.tool_id == ToolInstance.tool_id
+        ).filter(
+            ToolInfo.source == 'mcp',
+            ToolInfo.usage == mcp_name,
+            ToolInfo.delete_flag != 'Y',
+            ToolInstance.tenant_id == tenant_id,
+            ToolInstance.enabled == True,
+            ToolInstance.delete_flag != 'Y',
+            AgentInfo.tenant_id == tenant_id,
+            AgentInfo.delete_flag != 'Y'
+        ).distinct().order_by(AgentInfo.agent_id).all()
+        return [as_dict(agent) for agent in agents]
+
 def insert_related_agent(parent_agent_id: int, child_agent_id: int, tenant_id: str)->bool:
     try:
         relation_info = {"parent_agent_id": parent_agent_id,
@@ -392,4 +415,106 @@ def delete_all_related_agent(parent_agent_id: int, tenant_id: str)->bool:
             return True
     except Exception as e:
         logger.error(f"Failed to delete related agent: {str(e)}")
-        return False
\ No newline at end of file
+        return False
+
+
+def update_approval_policy(agent_id: int, approval_policy: dict, tenant_id: str, user_id: str) -> bool:
+    """
+    Replace the approval policy of an agent
+    :return: Whether the agent exists
+    """
+    with get_db_session() as session:
+        return session.query(AgentInfo).filter(
+            AgentInfo.agent_id == agent_id,
+            AgentInfo.tenant_id == tenant_id,
+            AgentInfo.delete_flag != 'Y'
+        ).update({AgentInfo.approval_policy: approval_policy, AgentInfo.updated_by: user_id}) > 0
+
+
+def create_agent_version(agent_id: int, snapshot: dict, tenant_id: str, user_id: str, rollback_from: Optional[int] = None):
+    """
+    Save a new immutable version of an agent, numbered after its latest version
+    :param agent_id: ID of the agent
+    :param snapshot: Agent configuration to keep in the version
+    :param tenant_id: tenant ID
+    :param user_id: Author of the version
+    :param rollback_from: Version restored by this one, None when not created by a rollback
+    :return: Created version without its snapshot
+    """
+    with get_db_session() as session:
+        latest_version_no = session.query(func.max(AgentVersion.version_no)).filter(
+            AgentVersion.agent_id == agent_id,
+            AgentVersion.tenant_id == tenant_id).scalar()
+        version = AgentVersion(agent_id=agent_id,
+                               tenant_id=tenant_id,
+                               version_no=(latest_version_no or 0) + 1,
+                               snapshot=snapshot,
+                               rollback_from=rollback_from,
+                               created_by=user_id,
+                               updated_by=user_id,
+                               delete_flag='N')
+        session.add(version)
+        session.flush()
+        return _version_summary(version)
+
+
+def query_agent_versions(agent_id: int, tenant_id: str):
+    """
+    Query the versions of an agent without their snapshots, newest first
+    """
+    with get_db_session() as session:
+        versions = session.query(AgentVersion).filter(AgentVersion.agent_id == agent_id,
+                                                      AgentVersion.tenant_id == tenant_id,
+                                                      AgentVersion.delete_flag != 'Y'
+                                                      ).order_by(AgentVersion.version_no.desc()).all()
+        return [_version_summary(version) for version in versions]
+
+
+def search_agent_version(agent_id: int, version_no: int, tenant_id: str):
+    """
+    Search one version of an agent with its snapshot
+    """
+    with get_db_session() as session:
+        version = session.query(AgentVersion).filter(AgentVersion.agent_id == agent_id,
+                                                     AgentVersion.version_no == version_no,
+                                                     AgentVersion.tenant_id == tenant_id,
+                                                     AgentVersion.delete_flag != 'Y').first()
+        if not version:
+            raise ValueError("agent version not found")
+        return _version_summary(version) | {"snapshot": version.snapshot}
+
+
+def _version_summary(version: AgentVersion):
+    return {"agent_id": version.agent_id,
+            "version_no": version.version_no,
+            "author": version.created_by,
+            "create_time": version.create_time,
+            "rollback_from": version.rollback_from}
+
+
+def restore_agent_tool_instances(agent_id: int, tool_params: dict, tenant_id: str, user_id: str):
+    """
+    Enable exactly the given tools of an agent with the given params, disable the others
+    :param agent_id: ID of the agent
+    :param tool_params: Params of every tool to enable, by tool ID
+    :param tenant_id: tenant ID
+    :param user_id: user ID
+    """
+    with get_db_session() as session:
+        tool_instances = session.query(ToolInstance).filter(ToolInstance.agent_id == agent_id,
+                                                            ToolInstance.tenant_id == tenant_id,
+                                                            ToolInstance.delete_flag != 'Y').all()
+        restored_tool_ids = set()
+        for tool_instance in tool_instances:
+            if tool_instance.tool_id in tool_params and tool_instance.tool_id not in restored_tool_ids:
+                tool_instance.params = tool_params[tool_instance.tool_id]
+                tool_instance.enabled = True
+                restored_tool_ids.add(tool_instance.tool_id)
+            else:
+                tool_instance.enabled = False
+            tool_instance.updated_by = user_id
+        for tool_id, params in tool_params.items():
+            if tool_id not in restored_tool_ids:
+                session.add(ToolInstance(tool_id=tool_id, agent_id=agent_id, params=params, enabled=True,
+                                         tenant_id=tenant_id, user_id=user_id, created_by=user_id,
+                                         updated_by=user_id, delete_flag='N'))
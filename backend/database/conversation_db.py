@@ -2,17 +2,18 @@ import json
 from datetime import datetime
 from typing import Dict, List, Any, Optional, TypedDict
 
-from sqlalchemy import insert, func, select, asc, desc, update
+from sqlalchemy import insert, func, select, asc, desc, update, exists, literal, union_all, case
 
 from .utils import add_creation_tracking, add_update_tracking
 
 from .client import get_db_session, as_dict
 from .db_models import ConversationRecord, ConversationMessage, ConversationMessageUnit, ConversationSourceSearch, \
-    ConversationSourceImage
+    ConversationSourceImage, ConversationFolder, ConversationTag, ConversationTagRelation, ConversationShare
 
 class MessageRecord(TypedDict):
     message_id: int
     message_index: int
+    parent_message_id: Optional[int]
     role: str
     type: Optional[str]
     content: Optional[str]
@@ -94,6 +95,8 @@ def create_conversation_message(message_data: Dict[str, Any], user_id: Optional[
             - role: Message role
             - content: Message content
             - minio_files: JSON string of attachment information
+            - parent_message_id: Optional, ID of the message this one follows
+            - agent_id: Optional, agent that produced an assistant message
         user_id: Reserved parameter for created_by and updated_by fields
 
     Returns:
@@ -114,6 +117,7 @@ def create_conversation_message(message_data: Dict[str, Any], user_id: Optional[
         # Prepare data dictionary
         data = {"conversation_id": conversation_id, "message_index": message_idx, "message_role": message_data['role'],
                 "message_content": message_data['content'], "minio_files": minio_files, "opinion_flag": None,
+                "parent_message_id": message_data.get('parent_message_id'), "agent_id": message_data.get('agent_id'),
                 "delete_flag": 'N'}
         if user_id:
             data = add_creation_tracking(data, user_id)
@@ -276,7 +280,12 @@ def get_conversation_list(user_id: Optional[str] = None) -> List[Dict[str, Any]]
             ConversationRecord.conversation_id,
             ConversationRecord.conversation_title,
             (func.extract('epoch', ConversationRecord.create_time) * 1000).label('create_time'),
-            (func.extract('epoch', ConversationRecord.update_time) * 1000).label('update_time')
+            (func.extract('epoch', ConversationRecord.update_time) * 1000).label('update_time'),
+            (ConversationRecord.pinned_flag == 'Y').label('pinned'),
+            ConversationRecord.folder_id,
+            ConversationRecord.sort_order,
+            ConversationRecord.pinned_agent_id,
+            ConversationRecord.pinned_version_no
         ).where(
             ConversationRecord.delete_flag == 'N'
         ).order_by(
@@ -290,17 +299,297 @@ def get_conversation_list(user_id: Optional[str] = None) -> List[Dict[str, Any]]
         # Execute the query
         records = session.execute(stmt)
 
+        # Tags of the listed conversations, grouped by conversation
+        tag_stmt = select(
+            ConversationTagRelation.conversation_id,
+            ConversationTagRelation.tag_id
+        ).join(
+            ConversationRecord, ConversationRecord.conversation_id == ConversationTagRelation.conversation_id
+        ).where(
+            ConversationTagRelation.delete_flag == 'N',
+            ConversationRecord.delete_flag == 'N'
+        ).order_by(ConversationTagRelation.relation_id)
+        if user_id:
+            tag_stmt = tag_stmt.where(ConversationRecord.created_by == user_id)
+        tag_ids_by_conversation: Dict[int, List[int]] = {}
+        for relation in session.execute(tag_stmt):
+            tag_ids_by_conversation.setdefault(relation.conversation_id, []).append(relation.tag_id)
+
         # Convert query results to a list of dictionaries and ensure timestamps are integers
         result = []
         for record in records:
             conversation = as_dict(record)
             conversation['create_time'] = int(conversation['create_time'])
             conversation['update_time'] = int(conversation['update_time'])
+            conversation['pinned'] = bool(conversation['pinned'])
+            conversation['tag_ids'] = tag_ids_by_conversation.get(conversation['conversation_id'], [])
+            pinned_agent_id = conversation.pop('pinned_agent_id')
+            pinned_version_no = conversation.pop('pinned_version_no')
+            conversation['agent_pin'] = {"agent_id": pinned_agent_id, "version_no": pinned_version_no} \
+                if pinned_agent_id is not None and pinned_version_no is not None else None
             result.append(conversation)
 
         return result
 
 
+def update_conversation_placement(conversation_ids: List[int], values: Dict[str, Any], user_id: str) -> int:
+    """
+    Update the pinned flag, the folder or the sort order of conversations of the user
+
+    Args:
+        conversation_ids: Conversation IDs
+        values: Columns to update, among pinned_flag, folder_id and sort_order
+        user_id: ID of the user owning the conversations, also used for the updated_by field
+
+    Returns:
+        int: Number of updated conversations
+    """
+    if not conversation_ids:
+        return 0
+    with get_db_session() as session:
+        update_data = add_update_tracking({**values, "update_time": func.current_timestamp()}, user_id)
+        stmt = update(ConversationRecord).where(
+            ConversationRecord.conversation_id.in_(conversation_ids),
+            ConversationRecord.created_by == user_id,
+            ConversationRecord.delete_flag == 'N'
+        ).values(update_data)
+        return session.execute(stmt).rowcount
+
+
+def update_conversation_agent_pin(conversation_id: int, agent_id: Optional[int], version_no: Optional[int],
+                                  user_id: str) -> bool:
+    """
+    Pin a conversation of the user to one version of an agent, or unpin it with None values
+
+    Args:
+        conversation_id: Conversation ID
+        agent_id: Pinned agent ID, None to unpin
+        version_no: Pinned version number, None to unpin
+        user_id: ID of the user owning the conversation, also used for the updated_by field
+
+    Returns:
+        bool: Whether the conversation was found
+    """
+    with get_db_session() as session:
+        update_data = add_update_tracking({"pinned_agent_id": agent_id, "pinned_version_no": version_no}, user_id)
+        stmt = update(ConversationRecord).where(
+            ConversationRecord.conversation_id == conversation_id,
+            ConversationRecord.created_by == user_id,
+            ConversationRecord.delete_flag == 'N'
+        ).values(update_data)
+        return session.execute(stmt).rowcount > 0
+
+
+def reorder_conversations(conversation_ids: List[int], user_id: str) -> None:
+    """
+    Persist the order of the conversations of one pinned list or folder, the first one gets sort_order 0
+
+    Args:
+        conversation_ids: Conversation IDs in their new order
+        user_id: ID of the user owning the conversations
+    """
+    with get_db_session() as session:
+        for index, conversation_id in enumerate(conversation_ids):
+            session.execute(update(ConversationRecord).where(
+                ConversationRecord.conversation_id == conversation_id,
+                ConversationRecord.created_by == user_id,
+                ConversationRecord.delete_flag == 'N'
+            ).values(sort_order=index, updated_by=user_id))
+
+
+def set_conversation_tags(conversation_id: int, tag_ids: List[int], user_id: str) -> None:
+    """
+    Replace the tags of a conversation
+
+    Args:
+        conversation_id: Conversation ID
+        tag_ids: IDs of the tags the conversation should have
+        user_id: Used for created_by and updated_by fields
+    """
+    with get_db_session() as session:
+        session.execute(update(ConversationTagRelation).where(
+            ConversationTagRelation.conversation_id == conversation_id,
+            ConversationTagRelation.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y', "update_time": func.current_timestamp()}, user_id)))
+        if tag_ids:
+            session.execute(insert(ConversationTagRelation).values([
+                add_creation_tracking({"conversation_id": conversation_id, "tag_id": tag_id, "delete_flag": 'N'}, user_id)
+                for tag_id in dict.fromkeys(tag_ids)
+            ]))
+
+
+def get_folder_list(user_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the conversation folders of the user, ordered by sort_order
+
+    Args:
+        user_id: ID of the user owning the folders
+
+    Returns:
+        List[Dict[str, Any]]: Folders with folder_id, name and sort_order
+    """
+    with get_db_session() as session:
+        stmt = select(
+            ConversationFolder.folder_id,
+            ConversationFolder.folder_name.label('name'),
+            ConversationFolder.sort_order
+        ).where(
+            ConversationFolder.created_by == user_id,
+            ConversationFolder.delete_flag == 'N'
+        ).order_by(asc(ConversationFolder.sort_order), asc(ConversationFolder.folder_id))
+        return [as_dict(record) for record in session.execute(stmt)]
+
+
+def get_folder(folder_id: int, user_id: str) -> Optional[Dict[str, Any]]:
+    """
+    Get a conversation folder of the user, None if it doesn't exist
+    """
+    with get_db_session() as session:
+        record = session.scalars(select(ConversationFolder).where(
+            ConversationFolder.folder_id == folder_id,
+            ConversationFolder.created_by == user_id,
+            ConversationFolder.delete_flag == 'N'
+        )).first()
+        return None if record is None else as_dict(record)
+
+
+def create_folder(name: str, user_id: str) -> Dict[str, Any]:
+    """
+    Create a conversation folder after the existing ones
+
+    Args:
+        name: Folder name
+        user_id: Used for created_by and updated_by fields
+
+    Returns:
+        Dict[str, Any]: The new folder with folder_id, name and sort_order
+    """
+    with get_db_session() as session:
+        last_sort_order = session.scalar(select(func.max(ConversationFolder.sort_order)).where(
+            ConversationFolder.created_by == user_id,
+            ConversationFolder.delete_flag == 'N'
+        ))
+        data = add_creation_tracking({
+            "folder_name": name,
+            "sort_order": 0 if last_sort_order is None else last_sort_order + 1,
+            "delete_flag": 'N'
+        }, user_id)
+        record = session.execute(insert(ConversationFolder).values(**data).returning(
+            ConversationFolder.folder_id,
+            ConversationFolder.folder_name.label('name'),
+            ConversationFolder.sort_order
+        )).fetchone()
+        return as_dict(record)
+
+
+def rename_folder(folder_id: int, name: str, user_id: str) -> bool:
+    """
+    Rename a conversation folder of the user
+
+    Returns:
+        bool: Whether the folder exists
+    """
+    with get_db_session() as session:
+        stmt = update(ConversationFolder).where(
+            ConversationFolder.folder_id == folder_id,
+            ConversationFolder.created_by == user_id,
+            ConversationFolder.delete_flag == 'N'
+        ).values(add_update_tracking({"folder_name": name, "update_time": func.current_timestamp()}, user_id))
+        return session.execute(stmt).rowcount > 0
+
+
+def delete_folder(folder_id: int, user_id: str) -> bool:
+    """
+    Delete a conversation folder of the user (soft delete), its conversations are kept and become unfiled
+
+    Returns:
+        bool: Whether the folder exists
+    """
+    with get_db_session() as session:
+        update_data = add_update_tracking({"update_time": func.current_timestamp()}, user_id)
+        result = session.execute(update(ConversationFolder).where(
+            ConversationFolder.folder_id == folder_id,
+            ConversationFolder.created_by == user_id,
+            ConversationFolder.delete_flag == 'N'
+        ).values({**update_data, "delete_flag": 'Y'}))
+        session.execute(update(ConversationRecord).where(
+            ConversationRecord.folder_id == folder_id,
+            ConversationRecord.created_by == user_id
+        ).values({**update_data, "folder_id": None, "sort_order": None}))
+        return result.rowcount > 0
+
+
+def reorder_folders(folder_ids: List[int], user_id: str) -> None:
+    """
+    Persist the order of the conversation folders of the user, the first one gets sort_order 0
+    """
+    with get_db_session() as session:
+        for index, folder_id in enumerate(folder_ids):
+            session.execute(update(ConversationFolder).where(
+                ConversationFolder.folder_id == folder_id,
+                ConversationFolder.created_by == user_id,
+                ConversationFolder.delete_flag == 'N'
+            ).values(sort_order=index, updated_by=user_id))
+
+
+def get_tag_list(user_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the conversation tags of the user, in creation order
+
+    Returns:
+        List[Dict[str, Any]]: Tags with tag_id, name and color
+    """
+    with get_db_session() as session:
+        stmt = select(
+            ConversationTag.tag_id,
+            ConversationTag.tag_name.label('name'),
+            ConversationTag.tag_color.label('color')
+        ).where(
+            ConversationTag.created_by == user_id,
+            ConversationTag.delete_flag == 'N'
+        ).order_by(asc(ConversationTag.tag_id))
+        return [as_dict(record) for record in session.execute(stmt)]
+
+
+def create_tag(name: str, color: str, user_id: str) -> Dict[str, Any]:
+    """
+    Create a conversation tag
+
+    Returns:
+        Dict[str, Any]: The new tag with tag_id, name and color
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({"tag_name": name, "tag_color": color, "delete_flag": 'N'}, user_id)
+        record = session.execute(insert(ConversationTag).values(**data).returning(
+            ConversationTag.tag_id,
+            ConversationTag.tag_name.label('name'),
+            ConversationTag.tag_color.label('color')
+        )).fetchone()
+        return as_dict(record)
+
+
+def delete_tag(tag_id: int, user_id: str) -> bool:
+    """
+    Delete a conversation tag of the user (soft delete), it is removed from every conversation
+
+    Returns:
+        bool: Whether the tag exists
+    """
+    with get_db_session() as session:
+        update_data = add_update_tracking({"delete_flag": 'Y', "update_time": func.current_timestamp()}, user_id)
+        result = session.execute(update(ConversationTag).where(
+            ConversationTag.tag_id == tag_id,
+            ConversationTag.created_by == user_id,
+            ConversationTag.delete_flag == 'N'
+        ).values(update_data))
+        if result.rowcount > 0:
+            session.execute(update(ConversationTagRelation).where(
+                ConversationTagRelation.tag_id == tag_id,
+                ConversationTagRelation.delete_flag == 'N'
+            ).values(update_data))
+        return result.rowcount > 0
+
+
 def rename_conversation(conversation_id: int, new_title: str, user_id: Optional[str] = None) -> bool:
     """
     Rename a conversation
@@ -490,6 +779,7 @@ def get_conversation_history(conversation_id: int, user_id: Optional[str] = None
         query = select(
             ConversationMessage.message_id,
             ConversationMessage.message_index,
+            ConversationMessage.parent_message_id,
             ConversationMessage.message_role.label('role'),
             ConversationMessage.message_content,
             ConversationMessage.minio_files,
@@ -498,7 +788,7 @@ def get_conversation_history(conversation_id: int, user_id: Optional[str] = None
         ).where(
             ConversationMessage.conversation_id == conversation_id,
             ConversationMessage.delete_flag == 'N'
-        ).order_by(ConversationMessage.message_index)
+        ).order_by(ConversationMessage.message_index, ConversationMessage.message_id)
 
         message_records = session.execute(query).all()
 
@@ -933,3 +1223,225 @@ def get_message_id_by_index(conversation_id: int, message_index: int) -> Optiona
         result = session.execute(stmt).scalar()
 
         return result
+
+
+def get_next_message_index(conversation_id: int) -> int:
+    """
+    Get the message index following the last message of a conversation, 0 when it has no message
+
+    Args:
+        conversation_id: Conversation ID
+
+    Returns:
+        int: The next message index
+    """
+    with get_db_session() as session:
+        last_index = session.scalar(select(func.max(ConversationMessage.message_index)).where(
+            ConversationMessage.conversation_id == conversation_id,
+            ConversationMessage.delete_flag == 'N'
+        ))
+        return 0 if last_index is None else last_index + 1
+
+
+def get_latest_message_id(conversation_id: int) -> Optional[int]:
+    """
+    Get the ID of the most recently created message of a conversation
+
+    Args:
+        conversation_id: Conversation ID (integer)
+
+    Returns:
+        Optional[int]: Message ID if the conversation has messages, None otherwise
+    """
+    with get_db_session() as session:
+        conversation_id = int(conversation_id)
+
+        stmt = select(ConversationMessage.message_id).where(
+            ConversationMessage.conversation_id == conversation_id,
+            ConversationMessage.delete_flag == 'N'
+        ).order_by(desc(ConversationMessage.message_id)).limit(1)
+
+        return session.execute(stmt).scalar()
+
+
+# Unit types holding the text of agent steps, searched on request
+STEP_UNIT_TYPES = ['model_output_thinking', 'model_output_deep_thinking', 'model_output_code', 'execution_logs', 'tool']
+
+
+def _escape_like(text: str) -> str:
+    return text.replace('\\', '\\\\').replace('%', '\\%').replace('_', '\\_')
+
+
+def search_conversation_messages(user_id: str, query: str, include_steps: bool = False,
+                                 agent_id: Optional[int] = None, start_time: Optional[int] = None,
+                                 end_time: Optional[int] = None, has_attachments: bool = False,
+                                 limit: int = 50) -> List[Dict[str, Any]]:
+    """
+    Full-text search over the messages of the conversations of a user
+
+    Args:
+        user_id: Owner of the searched conversations
+        query: Text to find, matched case-insensitively
+        include_steps: Also search the text of agent steps
+        agent_id: Only conversations answered by this agent
+        start_time: Only messages created at or after this millisecond timestamp
+        end_time: Only messages created at or before this millisecond timestamp
+        has_attachments: Only conversations with attachments
+        limit: Maximum number of matches
+
+    Returns:
+        List[Dict[str, Any]]: Matches, newest first, with the matched text in `content` and its kind in `match_type`
+    """
+    pattern = f"%{_escape_like(query)}%"
+    with get_db_session() as session:
+        text_matches = select(
+            ConversationMessage.message_id,
+            ConversationMessage.message_content.label('content'),
+            case((ConversationMessage.message_role == 'assistant', 'final_answer'), else_='user').label('match_type')
+        ).where(
+            ConversationMessage.delete_flag == 'N',
+            ConversationMessage.message_content.ilike(pattern, escape='\\')
+        )
+        matches = text_matches
+        if include_steps:
+            step_matches = select(
+                ConversationMessageUnit.message_id,
+                ConversationMessageUnit.unit_content.label('content'),
+                literal('step').label('match_type')
+            ).where(
+                ConversationMessageUnit.delete_flag == 'N',
+                ConversationMessageUnit.unit_type.in_(STEP_UNIT_TYPES),
+                ConversationMessageUnit.unit_content.ilike(pattern, escape='\\')
+            )
+            matches = union_all(text_matches, step_matches)
+        matches = matches.subquery()
+
+        stmt = select(
+            ConversationRecord.conversation_id,
+            ConversationRecord.conversation_title,
+            ConversationMessage.message_id,
+            ConversationMessage.message_role.label('role'),
+            matches.c.match_type,
+            matches.c.content,
+            (func.extract('epoch', ConversationMessage.create_time) * 1000).label('create_time')
+        ).select_from(matches).join(
+            ConversationMessage, ConversationMessage.message_id == matches.c.message_id
+        ).join(
+            ConversationRecord, ConversationRecord.conversation_id == ConversationMessage.conversation_id
+        ).where(
+            ConversationRecord.created_by == user_id,
+            ConversationRecord.delete_flag == 'N'
+        )
+
+        if start_time is not None:
+            stmt = stmt.where(ConversationMessage.create_time >= func.to_timestamp(start_time / 1000))
+        if end_time is not None:
+            stmt = stmt.where(ConversationMessage.create_time <= func.to_timestamp(end_time / 1000))
+
+        # Filters on the conversation: answered by the agent, holding an attachment
+        other = ConversationMessage.__table__.alias('other_message')
+        if agent_id is not None:
+            stmt = stmt.where(exists().where(
+                other.c.conversation_id == ConversationRecord.conversation_id,
+                other.c.delete_flag == 'N',
+                other.c.agent_id == agent_id
+            ))
+        if has_attachments:
+            stmt = stmt.where(exists().where(
+                other.c.conversation_id == ConversationRecord.conversation_id,
+                other.c.delete_flag == 'N',
+                other.c.minio_files.isnot(None),
+                other.c.minio_files.notin_(['', '[]', 'null'])
+            ))
+
+        stmt = stmt.order_by(desc(ConversationMessage.create_time), desc(ConversationMessage.message_id)).limit(limit)
+
+        result = []
+        for record in session.execute(stmt):
+            match = as_dict(record)
+            match['create_time'] = int(match['create_time'])
+            result.append(match)
+        return result
+
+
+SHARE_COLUMNS = (
+    ConversationShare.share_token.label('token'),
+    ConversationShare.conversation_id,
+    ConversationShare.visibility,
+    (ConversationShare.redact_flag == 'Y').label('redact_tool_inputs'),
+    (func.extract('epoch', ConversationShare.create_time) * 1000).label('create_time')
+)
+
+
+def _share_dict(record) -> Dict[str, Any]:
+    share = as_dict(record)
+    share['redact_tool_inputs'] = bool(share['redact_tool_inputs'])
+    share['create_time'] = int(share['create_time'])
+    return share
+
+
+def create_conversation_share(share_data: Dict[str, Any], user_id: str) -> Dict[str, Any]:
+    """
+    Create a share link of a conversation
+
+    Args:
+        share_data: Dictionary containing share_token, conversation_id, tenant_id, visibility, redact_flag
+            and snapshot_content
+        user_id: Used for created_by and updated_by fields
+
+    Returns:
+        Dict[str, Any]: The new link with token, conversation_id, visibility, redact_tool_inputs and create_time
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({**share_data, "delete_flag": 'N'}, user_id)
+        record = session.execute(insert(ConversationShare).values(**data).returning(*SHARE_COLUMNS)).fetchone()
+        return _share_dict(record)
+
+
+def get_conversation_shares(conversation_id: int, user_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the active share links of a conversation of the user, newest first
+    """
+    with get_db_session() as session:
+        stmt = select(*SHARE_COLUMNS).where(
+            ConversationShare.conversation_id == conversation_id,
+            ConversationShare.created_by == user_id,
+            ConversationShare.delete_flag == 'N'
+        ).order_by(desc(ConversationShare.create_time))
+        return [_share_dict(record) for record in session.execute(stmt)]
+
+
+def get_conversation_share_by_token(share_token: str) -> Optional[Dict[str, Any]]:
+    """
+    Get an active share link with its snapshot, None if it doesn't exist or was revoked
+    """
+    with get_db_session() as session:
+        record = session.execute(select(
+            *SHARE_COLUMNS,
+            ConversationShare.tenant_id,
+            ConversationShare.snapshot_content
+        ).where(
+            ConversationShare.share_token == share_token,
+            ConversationShare.delete_flag == 'N'
+        )).fetchone()
+        return None if record is None else _share_dict(record)
+
+
+def revoke_conversation_share(share_token: str, user_id: str) -> bool:
+    """
+    Revoke a share link of the user, its snapshot is deleted
+
+    Returns:
+        bool: Whether the link exists
+    """
+    with get_db_session() as session:
+        stmt = update(ConversationShare).where(
+            ConversationShare.share_token == share_token,
+            ConversationShare.created_by == user_id,
+            ConversationShare.delete_flag == 'N'
+        ).values(add_update_tracking({
+            "delete_flag": 'Y',
+            "snapshot_content": None,
+            "update_time": func.current_timestamp()
+        }, user_id))
+        return session.execute(stmt).rowcount > 0
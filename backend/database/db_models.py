@@ -26,6 +26,11 @@ class ConversationRecord(TableBase):
     create_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Creation time, audit field")
     updated_by = Column(String(100), doc="ID of the last updater, audit field")
     created_by = Column(String(100), doc="ID of the creator, audit field")
+    pinned_flag = Column(String(1), default="N", doc="Whether the conversation is pinned to the top of the sidebar. Optional values: Y/N")
+    folder_id = Column(Integer, doc="Formal foreign key used to associate with the folder the conversation is filed in, None for unfiled conversations")
+    sort_order = Column(Integer, doc="Position within its pinned list or folder, None when never reordered")
+    pinned_agent_id = Column(Integer, doc="Agent the conversation is pinned to, None when it follows the latest version")
+    pinned_version_no = Column(Integer, doc="Version of the pinned agent the conversation runs, None when it follows the latest version")
 
 class ConversationMessage(TableBase):
     """
@@ -37,6 +42,8 @@ class ConversationMessage(TableBase):
     message_id = Column(Integer, Sequence("conversation_message_t_message_id_seq", schema=SCHEMA), primary_key=True, nullable=False)
     conversation_id = Column(Integer, doc="Formal foreign key used to associate with the conversation")
     message_index = Column(Integer, doc="Sequence number for frontend display sorting")
+    parent_message_id = Column(Integer, doc="Message this one follows, None for the first message. Messages sharing a parent are branches of the conversation")
+    agent_id = Column(Integer, doc="Agent that produced an assistant message, None for user messages")
     message_role = Column(String(30), doc="The role sending the message, such as system, assistant, user")
     message_content = Column(String, doc="The complete content of the message")
     minio_files = Column(String, doc="Images or documents uploaded by the user on the chat page, stored as a list")
@@ -114,6 +121,74 @@ class ConversationSourceSearch(TableBase):
     updated_by = Column(String(100), doc="ID of the last updater, audit field")
     created_by = Column(String(100), doc="ID of the creator, audit field")
 
+class ConversationFolder(TableBase):
+    """
+    User-defined folders grouping conversations in the sidebar
+    """
+    __tablename__ = "conversation_folder_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    folder_id = Column(Integer, Sequence("conversation_folder_t_folder_id_seq", schema=SCHEMA), primary_key=True, nullable=False)
+    folder_name = Column(String(100), doc="Folder name")
+    sort_order = Column(Integer, default=0, doc="Position of the folder in the sidebar")
+    delete_flag = Column(String(1), default="N", doc="After the user deletes it on the frontend, the deletion flag will be set to \"Y\" for soft deletion. Optional values: Y/N")
+    create_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Creation time, audit field")
+    update_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Update date, audit field")
+    created_by = Column(String(100), doc="ID of the creator, audit field")
+    updated_by = Column(String(100), doc="ID of the last updater, audit field")
+
+class ConversationTag(TableBase):
+    """
+    User-defined tags of conversations
+    """
+    __tablename__ = "conversation_tag_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    tag_id = Column(Integer, Sequence("conversation_tag_t_tag_id_seq", schema=SCHEMA), primary_key=True, nullable=False)
+    tag_name = Column(String(100), doc="Tag name")
+    tag_color = Column(String(20), doc="Hex color of the tag, such as #1677ff")
+    delete_flag = Column(String(1), default="N", doc="After the user deletes it on the frontend, the deletion flag will be set to \"Y\" for soft deletion. Optional values: Y/N")
+    create_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Creation time, audit field")
+    update_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Update date, audit field")
+    created_by = Column(String(100), doc="ID of the creator, audit field")
+    updated_by = Column(String(100), doc="ID of the last updater, audit field")
+
+class ConversationTagRelation(TableBase):
+    """
+    Tags attached to conversations
+    """
+    __tablename__ = "conversation_tag_relation_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    relation_id = Column(Integer, Sequence("conversation_tag_relation_t_relation_id_seq", schema=SCHEMA), primary_key=True, nullable=False)
+    conversation_id = Column(Integer, doc="Formal foreign key used to associate with the tagged conversation")
+    tag_id = Column(Integer, doc="Formal foreign key used to associate with the tag")
+    delete_flag = Column(String(1), default="N", doc="After the user deletes it on the frontend, the deletion flag will be set to \"Y\" for soft deletion. Optional values: Y/N")
+    create_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Creation time, audit field")
+    update_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Update date, audit field")
+    created_by = Column(String(100), doc="ID of the creator, audit field")
+    updated_by = Column(String(100), doc="ID of the last updater, audit field")
+
+class ConversationShare(TableBase):
+    """
+    Read-only share links holding a snapshot of a conversation
+    """
+    __tablename__ = "conversation_share_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    share_id = Column(Integer, Sequence("conversation_share_t_share_id_seq", schema=SCHEMA), primary_key=True, nullable=False)
+    share_token = Column(String(64), unique=True, doc="Random token of the share link")
+    conversation_id = Column(Integer, doc="Formal foreign key used to associate with the shared conversation")
+    tenant_id = Column(String(100), doc="Tenant of the owner, tenant links only open for signed-in users of this tenant")
+    visibility = Column(String(20), doc="Who can open the link. Optional values: public/tenant")
+    redact_flag = Column(String(1), default="N", doc="Whether tool inputs were replaced in the snapshot. Optional values: Y/N")
+    snapshot_content = Column(String, doc="JSON snapshot of the conversation title and messages at share time")
+    delete_flag = Column(String(1), default="N", doc="Set to \"Y\" when the link is revoked for soft deletion. Optional values: Y/N")
+    create_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Creation time, audit field")
+    update_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Update date, audit field")
+    created_by = Column(String(100), doc="ID of the creator, audit field")
+    updated_by = Column(String(100), doc="ID of the last updater, audit field")
+
 class ModelRecord(TableBase):
     """
     Model list defined by the user on the configuration page
@@ -179,6 +254,199 @@ class AgentInfo(TableBase):
     enabled = Column(Boolean, doc="Enabled")
     provide_run_summary = Column(Boolean, doc="Whether to provide the running summary to the manager agent")
     business_description = Column(Text, doc="Manually entered by the user to describe the entire business process")
+    approval_policy = Column(JSON, doc="Tool calls waiting for the user's approval: default_mode and the tool_modes keyed by tool ID")
+
+class AgentVersion(TableBase):
+    """
+    Immutable versions of an agent, one per save
+    """
+    __tablename__ = "ag_agent_version_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    version_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    agent_id = Column(Integer, doc="Agent ID")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    version_no = Column(Integer, doc="Version number, starting at 1 for every agent")
+    snapshot = Column(JSON, doc="Agent configuration at save time: prompts, model, max steps, enabled tools with their params and sub agent ids")
+    rollback_from = Column(Integer, doc="Version restored by this one, None when not created by a rollback")
+
+class EvaluationSuite(TableBase):
+    """
+    Evaluation suites of an agent: golden questions run in batch and scored automatically
+    """
+    __tablename__ = "ag_evaluation_suite_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    suite_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    agent_id = Column(Integer, doc="Agent ID")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    suite_name = Column(String(100), doc="Suite name")
+    cases = Column(JSON, doc="Cases of the suite: question, expectation, scorer, required tools and citations, forbidden phrases")
+
+class EvaluationReport(TableBase):
+    """
+    Results of the runs of an evaluation suite
+    """
+    __tablename__ = "ag_evaluation_report_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    report_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    suite_id = Column(Integer, doc="Suite ID")
+    agent_id = Column(Integer, doc="Agent ID")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    version_no = Column(Integer, doc="Agent version the suite ran against, None when unknown")
+    results = Column(JSON, doc="Result of every case: answer, checks, duration and error")
+
+class ToolSample(TableBase):
+    """
+    Tool invocations of the playground kept as samples
+    """
+    __tablename__ = "ag_tool_sample_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    sample_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    tool_id = Column(Integer, doc="Tool ID")
+    agent_id = Column(Integer, doc="Agent ID whose tool configuration was used")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    params = Column(JSON, doc="Init params of the tool")
+    inputs = Column(JSON, doc="Call inputs of the tool")
+    output = Column(JSON, doc="Output of the tool, None when it raised an error")
+    error = Column(Text, doc="Error raised by the tool")
+    duration = Column(Integer, doc="Duration of the invocation in milliseconds")
+
+class AgentSchedule(TableBase):
+    """
+    Agent runs started without a user: on a cron schedule or from a webhook
+    """
+    __tablename__ = "ag_agent_schedule_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    schedule_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    agent_id = Column(Integer, doc="Agent ID")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    user_id = Column(String(100), doc="Owner ID, the agent runs as this user and the results are delivered to them")
+    schedule_name = Column(String(100), doc="Schedule name")
+    trigger_type = Column(String(20), doc="Trigger of the runs, optional values cron/webhook")
+    cron_expression = Column(String(100), doc="Five field cron expression, unused by webhook schedules")
+    timezone = Column(String(64), doc="IANA timezone the cron expression is evaluated in")
+    query_template = Column(Text, doc="Question sent to the agent, {{path}} placeholders are filled from the webhook payload")
+    delivery = Column(String(20), doc="Where the results go, optional values conversation/inbox")
+    conversation_id = Column(Integer, doc="Conversation the runs are appended to, created by the first run")
+    language = Column(String(10), doc="Language of the runs, optional values zh/en")
+    webhook_token = Column(String(100), doc="Secret token of the webhook URL, None for cron schedules")
+    next_run_time = Column(TIMESTAMP(timezone=False), doc="Next time a cron schedule fires in UTC, None when paused")
+    enabled = Column(Boolean, doc="Whether the schedule runs")
+
+class AgentScheduleRun(TableBase):
+    """
+    Runs of the agent schedules
+    """
+    __tablename__ = "ag_agent_schedule_run_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    run_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    schedule_id = Column(Integer, doc="Schedule ID")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    status = Column(String(20), doc="Status of the run, optional values running/success/failed")
+    triggered_by = Column(String(20), doc="What started the run, optional values cron/webhook/manual")
+    query = Column(Text, doc="Query sent to the agent after the template was filled")
+    start_time = Column(TIMESTAMP(timezone=False), doc="Start time of the run in UTC")
+    end_time = Column(TIMESTAMP(timezone=False), doc="End time of the run in UTC, None while it runs")
+    conversation_id = Column(Integer, doc="Conversation the answer was saved to")
+    message_id = Column(Integer, doc="Saved answer of the run, its trace is read from there")
+    error = Column(Text, doc="Error of a failed run")
+
+class ScheduleInboxItem(TableBase):
+    """
+    Results of schedule runs delivered to the inbox of their owner
+    """
+    __tablename__ = "ag_schedule_inbox_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    item_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    schedule_id = Column(Integer, doc="Schedule ID")
+    run_id = Column(Integer, doc="Run ID")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    user_id = Column(String(100), doc="User ID of the inbox")
+    summary = Column(Text, doc="Beginning of the answer, or the error of a failed run")
+    read_flag = Column(Boolean, doc="Whether the user read the item")
+
+class RetrievalQuery(TableBase):
+    """
+    Saved retrieval test queries of knowledge bases
+    """
+    __tablename__ = "knowledge_retrieval_query_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    query_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    user_id = Column(String(100), doc="User ID of the owner")
+    params = Column(JSON, doc="Parameters of the test: query, index_names, search_mode, rerank_model and top_k")
+    results = Column(JSON, doc="Ranked chunks retrieved when the query was saved, the baseline of the comparison")
+
+class KnowledgeSource(TableBase):
+    """
+    External sources the documents of knowledge bases are synced from
+    """
+    __tablename__ = "knowledge_source_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    source_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    index_name = Column(String(100), doc="Index name of the knowledge base the documents are synced to")
+    tenant_id = Column(String(100), doc="Tenant ID, its embedding model embeds the synced documents")
+    user_id = Column(String(100), doc="User ID of the creator")
+    source_name = Column(String(100), doc="Source name")
+    source_type = Column(String(20), doc="Source type, optional values urls/sitemap/folder/bucket")
+    config = Column(JSON, doc="Where the documents are fetched from, depends on the source type")
+    sync_interval = Column(String(20), doc="Interval of the automatic syncs, optional values manual/hourly/daily/weekly")
+    next_sync_time = Column(TIMESTAMP(timezone=False), doc="Next automatic sync in UTC, None for manual sources")
+
+class KnowledgeSourceDocument(TableBase):
+    """
+    Documents synced from the knowledge base sources with the hash of their content
+    """
+    __tablename__ = "knowledge_source_document_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    document_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    source_id = Column(Integer, doc="Source ID the document is synced from")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    path_or_url = Column(Text, doc="URL, path or object of the document, the path_or_url of its chunks")
+    content_hash = Column(String(64), doc="SHA-256 of the content indexed last")
+
+class KnowledgeSourceSync(TableBase):
+    """
+    Sync runs of the knowledge base sources
+    """
+    __tablename__ = "knowledge_source_sync_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    run_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    source_id = Column(Integer, doc="Source ID")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    status = Column(String(20), doc="Status of the run, optional values running/success/failed")
+    start_time = Column(TIMESTAMP(timezone=False), doc="Start time of the run in UTC")
+    end_time = Column(TIMESTAMP(timezone=False), doc="End time of the run in UTC, None while it runs")
+    added = Column(Integer, doc="Number of new documents indexed")
+    updated = Column(Integer, doc="Number of modified documents indexed again")
+    removed = Column(Integer, doc="Number of documents removed, they no longer exist in the source")
+    unchanged = Column(Integer, doc="Number of documents whose content did not change")
+    failed = Column(Integer, doc="Number of documents that could not be fetched or indexed")
+    error = Column(Text, doc="Error of a failed run")
+
+class KnowledgeDocument(TableBase):
+    """
+    Metadata and visibility of the documents of knowledge bases
+    """
+    __tablename__ = "knowledge_document_t"
+    __table_args__ = {"schema": SCHEMA}
+
+    document_id = Column(Integer, primary_key=True, nullable=False, doc="ID")
+    index_name = Column(String(100), doc="Index name of the knowledge base of the document")
+    tenant_id = Column(String(100), doc="Tenant ID")
+    path_or_url = Column(Text, doc="URL, path or object of the document, the path_or_url of its chunks")
+    metadata_values = Column("metadata", JSON, doc="Values of the metadata fields of the knowledge base")
+    visibility = Column(JSON, doc="Who may retrieve the document: restricted, users and roles")
 
 class ToolInstance(TableBase):
     """
@@ -206,6 +474,8 @@ class KnowledgeRecord(TableBase):
     index_name = Column(String(100), doc="Knowledge base name")
     knowledge_describe = Column(String(3000), doc="Knowledge base description")
     knowledge_sources = Column(String(300), doc="Knowledge base sources")
+    ingestion_profile = Column(JSON, doc="How the documents are parsed and chunked, None until the profile is saved")
+    metadata_fields = Column(JSON, doc="Metadata fields of the documents, None until the fields are saved")
     tenant_id = Column(String(100), doc="Tenant ID")
     delete_flag = Column(String(1), default="N", doc="Knowledge base status. Currently defaults to 1, if knowledge base status is 0, then this knowledge base is unavailable")
     create_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Creation time, audit field")
@@ -265,6 +535,15 @@ class McpRecord(TableBase):
     mcp_name = Column(String(100), doc="MCP name")
     mcp_server = Column(String(500), doc="MCP server address")
     status = Column(Boolean, default=None, doc="MCP server connection status, True=connected, False=disconnected, None=unknown")
+    transport = Column(String(30), default="sse", doc="MCP transport: stdio, sse or streamable_http")
+    command = Column(String(500), doc="Command started by the backend, only for the stdio transport")
+    args = Column(JSON, doc="Arguments of the command, only for the stdio transport")
+    env = Column(JSON, doc="Environment variables of the command, only for the stdio transport, secret")
+    headers = Column(JSON, doc="Request headers sent to the server, secret")
+    bearer_token = Column(String(1000), doc="Bearer token sent to the server, secret")
+    timeout = Column(Integer, default=30, doc="Connection timeout in seconds")
+    tool_filter = Column(JSON, doc="Tools exposed to agents: mode all, allow or deny and the tool names")
+    recent_errors = Column(JSON, doc="Latest connection errors with their time, newest first")
     create_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Creation time, audit field")
     update_time = Column(TIMESTAMP(timezone=False), server_default=func.now(), doc="Update time, audit field")
     created_by = Column(String(100), doc="Creator ID, audit field")
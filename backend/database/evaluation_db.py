@@ -0,0 +1,141 @@
+from typing import Any, Dict, List, Optional
+
+from sqlalchemy import desc, func, insert, select, update
+
+from database.client import get_db_session, as_dict
+from database.db_models import EvaluationReport, EvaluationSuite
+from database.utils import add_creation_tracking, add_update_tracking
+
+SUITE_COLUMNS = (
+    EvaluationSuite.suite_id,
+    EvaluationSuite.agent_id,
+    EvaluationSuite.suite_name.label('name'),
+    EvaluationSuite.cases,
+    (func.extract('epoch', EvaluationSuite.update_time) * 1000).label('update_time')
+)
+
+REPORT_COLUMNS = (
+    EvaluationReport.report_id,
+    EvaluationReport.suite_id,
+    EvaluationReport.agent_id,
+    EvaluationReport.version_no,
+    EvaluationReport.results,
+    (func.extract('epoch', EvaluationReport.create_time) * 1000).label('create_time')
+)
+
+
+def _with_int_time(record, key: str) -> Dict[str, Any]:
+    data = as_dict(record)
+    data[key] = int(data[key])
+    return data
+
+
+def get_suite_list(agent_id: int, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the evaluation suites of an agent, newest first
+    """
+    with get_db_session() as session:
+        stmt = select(*SUITE_COLUMNS).where(
+            EvaluationSuite.agent_id == agent_id,
+            EvaluationSuite.tenant_id == tenant_id,
+            EvaluationSuite.delete_flag == 'N'
+        ).order_by(desc(EvaluationSuite.suite_id))
+        return [_with_int_time(record, 'update_time') for record in session.execute(stmt)]
+
+
+def get_suite(suite_id: int, tenant_id: str) -> Optional[Dict[str, Any]]:
+    """
+    Get an evaluation suite of the tenant, None if it doesn't exist
+    """
+    with get_db_session() as session:
+        record = session.execute(select(*SUITE_COLUMNS).where(
+            EvaluationSuite.suite_id == suite_id,
+            EvaluationSuite.tenant_id == tenant_id,
+            EvaluationSuite.delete_flag == 'N'
+        )).fetchone()
+        return None if record is None else _with_int_time(record, 'update_time')
+
+
+def create_suite(agent_id: int, name: str, cases: List[Dict[str, Any]], tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Create an evaluation suite for an agent
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({
+            "agent_id": agent_id,
+            "tenant_id": tenant_id,
+            "suite_name": name,
+            "cases": cases,
+            "delete_flag": 'N'
+        }, user_id)
+        record = session.execute(insert(EvaluationSuite).values(**data).returning(*SUITE_COLUMNS)).fetchone()
+        return _with_int_time(record, 'update_time')
+
+
+def update_suite(suite_id: int, name: str, cases: List[Dict[str, Any]], tenant_id: str,
+                 user_id: str) -> Optional[Dict[str, Any]]:
+    """
+    Replace the name and the cases of an evaluation suite, None if it doesn't exist
+    """
+    with get_db_session() as session:
+        data = add_update_tracking({"suite_name": name, "cases": cases, "update_time": func.current_timestamp()},
+                                   user_id)
+        record = session.execute(update(EvaluationSuite).where(
+            EvaluationSuite.suite_id == suite_id,
+            EvaluationSuite.tenant_id == tenant_id,
+            EvaluationSuite.delete_flag == 'N'
+        ).values(data).returning(*SUITE_COLUMNS)).fetchone()
+        return None if record is None else _with_int_time(record, 'update_time')
+
+
+def delete_suite(suite_id: int, tenant_id: str, user_id: str) -> bool:
+    """
+    Soft delete an evaluation suite together with its reports
+
+    Returns:
+        bool: Whether the suite exists
+    """
+    with get_db_session() as session:
+        deleted = session.execute(update(EvaluationSuite).where(
+            EvaluationSuite.suite_id == suite_id,
+            EvaluationSuite.tenant_id == tenant_id,
+            EvaluationSuite.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id))).rowcount > 0
+        if deleted:
+            session.execute(update(EvaluationReport).where(
+                EvaluationReport.suite_id == suite_id,
+                EvaluationReport.tenant_id == tenant_id,
+                EvaluationReport.delete_flag == 'N'
+            ).values(add_update_tracking({"delete_flag": 'Y'}, user_id)))
+        return deleted
+
+
+def get_report_list(suite_id: int, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the reports of an evaluation suite, newest first
+    """
+    with get_db_session() as session:
+        stmt = select(*REPORT_COLUMNS).where(
+            EvaluationReport.suite_id == suite_id,
+            EvaluationReport.tenant_id == tenant_id,
+            EvaluationReport.delete_flag == 'N'
+        ).order_by(desc(EvaluationReport.report_id))
+        return [_with_int_time(record, 'create_time') for record in session.execute(stmt)]
+
+
+def create_report(suite_id: int, agent_id: int, version_no: Optional[int], results: List[Dict[str, Any]],
+                  tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Save the report of a run of an evaluation suite
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({
+            "suite_id": suite_id,
+            "agent_id": agent_id,
+            "tenant_id": tenant_id,
+            "version_no": version_no,
+            "results": results,
+            "delete_flag": 'N'
+        }, user_id)
+        record = session.execute(insert(EvaluationReport).values(**data).returning(*REPORT_COLUMNS)).fetchone()
+        return _with_int_time(record, 'create_time')
@@ -77,6 +77,76 @@ def update_knowledge_record(query: Dict[str, Any]) -> bool:
         session.rollback()
         raise e
 
+def update_ingestion_profile(index_name: str, profile: Dict[str, Any], tenant_id: str, user_id: str) -> bool:
+    """
+    Save how the documents of a knowledge base are parsed and chunked
+
+    Args:
+        index_name: Knowledge base name
+        profile: chunk_size, chunk_overlap, split_by, ocr, table_mode and language
+        tenant_id: Tenant ID the knowledge base belongs to
+        user_id: User ID for updated_by field
+
+    Returns:
+        bool: Whether the tenant has the knowledge base
+    """
+    try:
+        with get_db_session() as session:
+            record = session.query(KnowledgeRecord).filter(
+                KnowledgeRecord.index_name == index_name,
+                KnowledgeRecord.tenant_id == tenant_id,
+                KnowledgeRecord.delete_flag != 'Y'
+            ).first()
+
+            if not record:
+                return False
+
+            record.ingestion_profile = profile
+            record.update_time = func.current_timestamp()
+            record.updated_by = user_id
+
+            session.flush()
+            session.commit()
+            return True
+    except SQLAlchemyError as e:
+        session.rollback()
+        raise e
+
+def update_metadata_fields(index_name: str, fields: List[Dict[str, Any]], tenant_id: str, user_id: str) -> bool:
+    """
+    Save the metadata fields the documents of a knowledge base are described with
+
+    Args:
+        index_name: Knowledge base name
+        fields: key, label, type and the options of select fields of each field
+        tenant_id: Tenant ID the knowledge base belongs to
+        user_id: User ID for updated_by field
+
+    Returns:
+        bool: Whether the tenant has the knowledge base
+    """
+    try:
+        with get_db_session() as session:
+            record = session.query(KnowledgeRecord).filter(
+                KnowledgeRecord.index_name == index_name,
+                KnowledgeRecord.tenant_id == tenant_id,
+                KnowledgeRecord.delete_flag != 'Y'
+            ).first()
+
+            if not record:
+                return False
+
+            record.metadata_fields = fields
+            record.update_time = func.current_timestamp()
+            record.updated_by = user_id
+
+            session.flush()
+            session.commit()
+            return True
+    except SQLAlchemyError as e:
+        session.rollback()
+        raise e
+
 def delete_knowledge_record(query: Dict[str, Any]) -> bool:
     """
     Delete a knowledge base record (soft delete)
@@ -0,0 +1,80 @@
+from typing import Any, Dict, List, Optional
+
+from sqlalchemy import func, insert, select, update
+
+from database.client import get_db_session
+from database.db_models import KnowledgeDocument
+from database.utils import add_creation_tracking, add_update_tracking
+
+
+def get_document_attributes(index_name: str,
+                            paths_or_urls: Optional[List[str]] = None) -> Dict[str, Dict[str, Any]]:
+    """
+    Get the metadata and visibility of the documents of a knowledge base
+
+    Args:
+        index_name: Index name of the knowledge base
+        paths_or_urls: Only these documents, all documents when None
+
+    Returns:
+        Dict[str, Dict[str, Any]]: The metadata and visibility of each document, keyed by its path_or_url.
+            Documents without attributes are missing
+    """
+    if paths_or_urls is not None and not paths_or_urls:
+        return {}
+    with get_db_session() as session:
+        stmt = select(KnowledgeDocument.path_or_url, KnowledgeDocument.metadata_values,
+                      KnowledgeDocument.visibility).where(
+            KnowledgeDocument.index_name == index_name,
+            KnowledgeDocument.delete_flag == 'N'
+        )
+        if paths_or_urls is not None:
+            stmt = stmt.where(KnowledgeDocument.path_or_url.in_(paths_or_urls))
+        return {record.path_or_url: {"metadata": record.metadata_values or {}, "visibility": record.visibility}
+                for record in session.execute(stmt)}
+
+
+def save_document_attributes(index_name: str, path_or_url: str, metadata: Dict[str, Any],
+                             visibility: Dict[str, Any], tenant_id: str, user_id: str):
+    """
+    Record the metadata and visibility of a document, replacing the ones recorded before
+    """
+    with get_db_session() as session:
+        updated = session.execute(update(KnowledgeDocument).where(
+            KnowledgeDocument.index_name == index_name,
+            KnowledgeDocument.path_or_url == path_or_url,
+            KnowledgeDocument.delete_flag == 'N'
+        ).values(add_update_tracking({"metadata_values": metadata, "visibility": visibility,
+                                      "update_time": func.current_timestamp()}, user_id))).rowcount
+        if not updated:
+            session.execute(insert(KnowledgeDocument).values(**add_creation_tracking({
+                "index_name": index_name,
+                "tenant_id": tenant_id,
+                "path_or_url": path_or_url,
+                "metadata_values": metadata,
+                "visibility": visibility,
+                "delete_flag": 'N'
+            }, user_id)))
+
+
+def delete_document_attributes(index_name: str, path_or_url: str, user_id: Optional[str] = None):
+    """
+    Soft delete the attributes of a document removed from a knowledge base
+    """
+    with get_db_session() as session:
+        session.execute(update(KnowledgeDocument).where(
+            KnowledgeDocument.index_name == index_name,
+            KnowledgeDocument.path_or_url == path_or_url,
+            KnowledgeDocument.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id)))
+
+
+def delete_attributes_by_index(index_name: str, user_id: str):
+    """
+    Soft delete the attributes of the documents of a deleted knowledge base
+    """
+    with get_db_session() as session:
+        session.execute(update(KnowledgeDocument).where(
+            KnowledgeDocument.index_name == index_name,
+            KnowledgeDocument.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id)))
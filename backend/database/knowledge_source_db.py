@@ -0,0 +1,292 @@
+from datetime import datetime
+from typing import Any, Dict, List, Optional
+
+from sqlalchemy import desc, func, insert, select, update
+
+from database.client import get_db_session, as_dict
+from database.db_models import KnowledgeSource, KnowledgeSourceDocument, KnowledgeSourceSync
+from database.utils import add_creation_tracking, add_update_tracking
+
+SOURCE_COLUMNS = (
+    KnowledgeSource.source_id,
+    KnowledgeSource.index_name,
+    KnowledgeSource.tenant_id,
+    KnowledgeSource.user_id,
+    KnowledgeSource.source_name.label('name'),
+    KnowledgeSource.source_type.label('type'),
+    KnowledgeSource.config,
+    KnowledgeSource.sync_interval,
+    (func.extract('epoch', KnowledgeSource.next_sync_time) * 1000).label('next_sync_time')
+)
+
+RUN_COLUMNS = (
+    KnowledgeSourceSync.run_id,
+    KnowledgeSourceSync.source_id,
+    KnowledgeSourceSync.status,
+    (func.extract('epoch', KnowledgeSourceSync.start_time) * 1000).label('start_time'),
+    (func.extract('epoch', KnowledgeSourceSync.end_time) * 1000).label('end_time'),
+    KnowledgeSourceSync.added,
+    KnowledgeSourceSync.updated,
+    KnowledgeSourceSync.removed,
+    KnowledgeSourceSync.unchanged,
+    KnowledgeSourceSync.failed,
+    KnowledgeSourceSync.error
+)
+
+
+def _with_int_times(record, *keys: str) -> Dict[str, Any]:
+    data = as_dict(record)
+    for key in keys:
+        if data[key] is not None:
+            data[key] = int(data[key])
+    return data
+
+
+def _source_dict(record) -> Dict[str, Any]:
+    return _with_int_times(record, 'next_sync_time')
+
+
+def _run_dict(record) -> Dict[str, Any]:
+    return _with_int_times(record, 'start_time', 'end_time')
+
+
+def get_source_list(index_name: str, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the sources of a knowledge base, in the order they were created
+    """
+    with get_db_session() as session:
+        stmt = select(*SOURCE_COLUMNS).where(
+            KnowledgeSource.index_name == index_name,
+            KnowledgeSource.tenant_id == tenant_id,
+            KnowledgeSource.delete_flag == 'N'
+        ).order_by(KnowledgeSource.source_id)
+        return [_source_dict(record) for record in session.execute(stmt)]
+
+
+def get_source(source_id: int, index_name: str, tenant_id: str) -> Optional[Dict[str, Any]]:
+    """
+    Get a source of a knowledge base, None if the tenant has no such source
+    """
+    with get_db_session() as session:
+        record = session.execute(select(*SOURCE_COLUMNS).where(
+            KnowledgeSource.source_id == source_id,
+            KnowledgeSource.index_name == index_name,
+            KnowledgeSource.tenant_id == tenant_id,
+            KnowledgeSource.delete_flag == 'N'
+        )).fetchone()
+        return None if record is None else _source_dict(record)
+
+
+def create_source(source: Dict[str, Any], tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Create a source
+
+    Args:
+        source: index_name, source_name, source_type, config, sync_interval and next_sync_time of the source
+        tenant_id: Tenant ID
+        user_id: User ID of the creator
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({**source, "tenant_id": tenant_id, "user_id": user_id, "delete_flag": 'N'},
+                                     user_id)
+        record = session.execute(insert(KnowledgeSource).values(**data).returning(*SOURCE_COLUMNS)).fetchone()
+        return _source_dict(record)
+
+
+def update_source(source_id: int, index_name: str, values: Dict[str, Any], tenant_id: str,
+                  user_id: str) -> Optional[Dict[str, Any]]:
+    """
+    Update a source, None if the tenant has no such source
+    """
+    with get_db_session() as session:
+        data = add_update_tracking({**values, "update_time": func.current_timestamp()}, user_id)
+        record = session.execute(update(KnowledgeSource).where(
+            KnowledgeSource.source_id == source_id,
+            KnowledgeSource.index_name == index_name,
+            KnowledgeSource.tenant_id == tenant_id,
+            KnowledgeSource.delete_flag == 'N'
+        ).values(data).returning(*SOURCE_COLUMNS)).fetchone()
+        return None if record is None else _source_dict(record)
+
+
+def delete_source(source_id: int, tenant_id: str, user_id: str):
+    """
+    Soft delete a source and the records of the documents synced from it
+    """
+    with get_db_session() as session:
+        session.execute(update(KnowledgeSourceDocument).where(
+            KnowledgeSourceDocument.source_id == source_id,
+            KnowledgeSourceDocument.tenant_id == tenant_id,
+            KnowledgeSourceDocument.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id)))
+        session.execute(update(KnowledgeSource).where(
+            KnowledgeSource.source_id == source_id,
+            KnowledgeSource.tenant_id == tenant_id,
+            KnowledgeSource.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id)))
+
+
+def delete_sources_by_index(index_name: str, tenant_id: str, user_id: str):
+    """
+    Soft delete the sources of a deleted knowledge base and the records of their documents
+    """
+    with get_db_session() as session:
+        source_ids = select(KnowledgeSource.source_id).where(
+            KnowledgeSource.index_name == index_name,
+            KnowledgeSource.tenant_id == tenant_id,
+            KnowledgeSource.delete_flag == 'N'
+        ).scalar_subquery()
+        session.execute(update(KnowledgeSourceDocument).where(
+            KnowledgeSourceDocument.source_id.in_(source_ids),
+            KnowledgeSourceDocument.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id)))
+        session.execute(update(KnowledgeSource).where(
+            KnowledgeSource.index_name == index_name,
+            KnowledgeSource.tenant_id == tenant_id,
+            KnowledgeSource.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id)))
+
+
+def get_due_sources(now: datetime) -> List[Dict[str, Any]]:
+    """
+    Get the sources of every tenant whose next automatic sync has come
+
+    Args:
+        now: Current time in UTC, without timezone
+
+    Returns:
+        List[Dict[str, Any]]: The sources, with the sync time they are due for in due_time
+    """
+    with get_db_session() as session:
+        stmt = select(*SOURCE_COLUMNS, KnowledgeSource.next_sync_time.label('due_time')).where(
+            KnowledgeSource.next_sync_time <= now,
+            KnowledgeSource.delete_flag == 'N'
+        ).order_by(KnowledgeSource.next_sync_time)
+        return [_source_dict(record) for record in session.execute(stmt)]
+
+
+def claim_source_sync(source_id: int, due_time: datetime, next_sync_time: Optional[datetime]) -> bool:
+    """
+    Move a due source to its next sync time, unless another worker already did
+
+    Returns:
+        bool: Whether this call claimed the sync due at due_time
+    """
+    with get_db_session() as session:
+        return session.execute(update(KnowledgeSource).where(
+            KnowledgeSource.source_id == source_id,
+            KnowledgeSource.next_sync_time == due_time,
+            KnowledgeSource.delete_flag == 'N'
+        ).values(next_sync_time=next_sync_time)).rowcount > 0
+
+
+def get_source_documents(source_id: int) -> Dict[str, str]:
+    """
+    Get the documents synced from a source
+
+    Returns:
+        Dict[str, str]: The content hash of each document, keyed by its path_or_url
+    """
+    with get_db_session() as session:
+        stmt = select(KnowledgeSourceDocument.path_or_url, KnowledgeSourceDocument.content_hash).where(
+            KnowledgeSourceDocument.source_id == source_id,
+            KnowledgeSourceDocument.delete_flag == 'N'
+        )
+        return {record.path_or_url: record.content_hash for record in session.execute(stmt)}
+
+
+def get_document_counts(source_ids: List[int]) -> Dict[int, int]:
+    """
+    Count the documents synced from each source, keyed by source id. Sources without documents are missing
+    """
+    if not source_ids:
+        return {}
+    with get_db_session() as session:
+        stmt = select(KnowledgeSourceDocument.source_id, func.count()).where(
+            KnowledgeSourceDocument.source_id.in_(source_ids),
+            KnowledgeSourceDocument.delete_flag == 'N'
+        ).group_by(KnowledgeSourceDocument.source_id)
+        return {source_id: count for source_id, count in session.execute(stmt)}
+
+
+def save_source_document(source_id: int, path_or_url: str, content_hash: str, tenant_id: str, user_id: str):
+    """
+    Record the hash of the content of a document indexed from a source
+    """
+    with get_db_session() as session:
+        updated = session.execute(update(KnowledgeSourceDocument).where(
+            KnowledgeSourceDocument.source_id == source_id,
+            KnowledgeSourceDocument.path_or_url == path_or_url,
+            KnowledgeSourceDocument.delete_flag == 'N'
+        ).values(add_update_tracking({"content_hash": content_hash, "update_time": func.current_timestamp()},
+                                     user_id))).rowcount
+        if not updated:
+            session.execute(insert(KnowledgeSourceDocument).values(**add_creation_tracking({
+                "source_id": source_id,
+                "tenant_id": tenant_id,
+                "path_or_url": path_or_url,
+                "content_hash": content_hash,
+                "delete_flag": 'N'
+            }, user_id)))
+
+
+def delete_source_documents(source_id: int, paths_or_urls: List[str], user_id: str):
+    """
+    Soft delete the records of documents removed from a source
+    """
+    if not paths_or_urls:
+        return
+    with get_db_session() as session:
+        session.execute(update(KnowledgeSourceDocument).where(
+            KnowledgeSourceDocument.source_id == source_id,
+            KnowledgeSourceDocument.path_or_url.in_(paths_or_urls),
+            KnowledgeSourceDocument.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id)))
+
+
+def create_sync_run(source_id: int, start_time: datetime, tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Record the start of a sync of a source
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({
+            "source_id": source_id,
+            "tenant_id": tenant_id,
+            "status": "running",
+            "start_time": start_time,
+            "added": 0,
+            "updated": 0,
+            "removed": 0,
+            "unchanged": 0,
+            "failed": 0,
+            "delete_flag": 'N'
+        }, user_id)
+        record = session.execute(insert(KnowledgeSourceSync).values(**data).returning(*RUN_COLUMNS)).fetchone()
+        return _run_dict(record)
+
+
+def finish_sync_run(run_id: int, values: Dict[str, Any]) -> Optional[Dict[str, Any]]:
+    """
+    Record the end of a sync: status, end_time, the document counts and error
+    """
+    with get_db_session() as session:
+        record = session.execute(update(KnowledgeSourceSync).where(
+            KnowledgeSourceSync.run_id == run_id
+        ).values({**values, "update_time": func.current_timestamp()}).returning(*RUN_COLUMNS)).fetchone()
+        return None if record is None else _run_dict(record)
+
+
+def get_latest_runs(source_ids: List[int], tenant_id: str) -> Dict[int, Dict[str, Any]]:
+    """
+    Get the latest sync of each source, keyed by source id. Sources never synced are missing
+    """
+    if not source_ids:
+        return {}
+    with get_db_session() as session:
+        stmt = select(*RUN_COLUMNS).where(
+            KnowledgeSourceSync.source_id.in_(source_ids),
+            KnowledgeSourceSync.tenant_id == tenant_id,
+            KnowledgeSourceSync.delete_flag == 'N'
+        ).distinct(KnowledgeSourceSync.source_id).order_by(KnowledgeSourceSync.source_id,
+                                                            desc(KnowledgeSourceSync.run_id))
+        return {run["source_id"]: run for run in map(_run_dict, session.execute(stmt))}
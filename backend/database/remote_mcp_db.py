@@ -1,4 +1,4 @@
-from typing import Dict, Any, List
+from typing import Dict, Any, List, Optional
 from sqlalchemy.exc import SQLAlchemyError
 
 from .client import get_db_session, as_dict, filter_property
@@ -137,4 +137,74 @@ def check_mcp_name_exists(mcp_name: str, tenant_id: str) -> bool:
             
             return mcp_record is not None
         except SQLAlchemyError:
-            return False
\ No newline at end of file
+            return False
+
+
+def get_mcp_record_by_name(mcp_name: str, tenant_id: str) -> Optional[Dict[str, Any]]:
+    """
+    Get a MCP record with its connection configuration by name and tenant ID
+
+    :param mcp_name: MCP name
+    :param tenant_id: Tenant ID
+    :return: MCP record, None if not found
+    """
+    with get_db_session() as session:
+        mcp_record = session.query(McpRecord).filter(
+            McpRecord.mcp_name == mcp_name,
+            McpRecord.tenant_id == tenant_id,
+            McpRecord.delete_flag != 'Y'
+        ).first()
+
+        return as_dict(mcp_record) if mcp_record else None
+
+
+def update_mcp_record_by_id(mcp_id: int, mcp_data: Dict[str, Any], tenant_id: str, user_id: str) -> bool:
+    """
+    Update the name and the connection configuration of a MCP record
+
+    :param mcp_id: MCP record ID
+    :param mcp_data: Dictionary containing the MCP information to update
+    :param tenant_id: Tenant ID
+    :param user_id: User ID
+    :return: True if the record was updated, False otherwise
+    """
+    with get_db_session() as session:
+        try:
+            updated = session.query(McpRecord).filter(
+                McpRecord.mcp_id == mcp_id,
+                McpRecord.tenant_id == tenant_id,
+                McpRecord.delete_flag != 'Y'
+            ).update({**filter_property(mcp_data, McpRecord), "updated_by": user_id})
+            session.commit()
+            return updated > 0
+        except SQLAlchemyError:
+            session.rollback()
+    return False
+
+
+def add_mcp_error(mcp_name: str, tenant_id: str, error: Dict[str, str], max_errors: int) -> List[Dict[str, str]]:
+    """
+    Record a connection error of a MCP server, only the latest `max_errors` errors are kept
+
+    :param mcp_name: MCP name
+    :param tenant_id: Tenant ID
+    :param error: Time and message of the error
+    :param max_errors: Number of errors kept
+    :return: Recent errors of the server, newest first, empty if the server is not found
+    """
+    with get_db_session() as session:
+        try:
+            mcp_record = session.query(McpRecord).filter(
+                McpRecord.mcp_name == mcp_name,
+                McpRecord.tenant_id == tenant_id,
+                McpRecord.delete_flag != 'Y'
+            ).first()
+            if mcp_record is None:
+                return []
+
+            mcp_record.recent_errors = [error, *(mcp_record.recent_errors or [])][:max_errors]
+            session.commit()
+            return mcp_record.recent_errors
+        except SQLAlchemyError:
+            session.rollback()
+    return []
@@ -0,0 +1,86 @@
+from typing import Any, Dict, List, Optional
+
+from sqlalchemy import desc, func, insert, select, update
+
+from database.client import get_db_session, as_dict
+from database.db_models import RetrievalQuery
+from database.utils import add_creation_tracking, add_update_tracking
+
+QUERY_COLUMNS = (
+    RetrievalQuery.query_id,
+    RetrievalQuery.params,
+    RetrievalQuery.results,
+    (func.extract('epoch', RetrievalQuery.update_time) * 1000).label('update_time')
+)
+
+
+def _query_dict(record) -> Dict[str, Any]:
+    data = as_dict(record)
+    data['update_time'] = int(data['update_time'])
+    return data
+
+
+def get_query_list(user_id: str, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the saved retrieval test queries of a user, the latest saved first
+    """
+    with get_db_session() as session:
+        stmt = select(*QUERY_COLUMNS).where(
+            RetrievalQuery.user_id == user_id,
+            RetrievalQuery.tenant_id == tenant_id,
+            RetrievalQuery.delete_flag == 'N'
+        ).order_by(desc(RetrievalQuery.update_time), desc(RetrievalQuery.query_id))
+        return [_query_dict(record) for record in session.execute(stmt)]
+
+
+def create_query(params: Dict[str, Any], results: List[Dict[str, Any]], user_id: str,
+                 tenant_id: str) -> Dict[str, Any]:
+    """
+    Save a retrieval test query with its results
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({
+            "tenant_id": tenant_id,
+            "user_id": user_id,
+            "params": params,
+            "results": results,
+            "delete_flag": 'N'
+        }, user_id)
+        record = session.execute(insert(RetrievalQuery).values(**data).returning(*QUERY_COLUMNS)).fetchone()
+        return _query_dict(record)
+
+
+def update_query(query_id: int, params: Dict[str, Any], results: List[Dict[str, Any]], user_id: str,
+                 tenant_id: str) -> Optional[Dict[str, Any]]:
+    """
+    Replace the parameters and results of a saved query, None if the user has no such query
+    """
+    with get_db_session() as session:
+        data = add_update_tracking({
+            "params": params,
+            "results": results,
+            "update_time": func.current_timestamp()
+        }, user_id)
+        record = session.execute(update(RetrievalQuery).where(
+            RetrievalQuery.query_id == query_id,
+            RetrievalQuery.user_id == user_id,
+            RetrievalQuery.tenant_id == tenant_id,
+            RetrievalQuery.delete_flag == 'N'
+        ).values(data).returning(*QUERY_COLUMNS)).fetchone()
+        return None if record is None else _query_dict(record)
+
+
+def delete_query(query_id: int, user_id: str, tenant_id: str) -> bool:
+    """
+    Soft delete a saved query
+
+    Returns:
+        bool: Whether the user has the query
+    """
+    with get_db_session() as session:
+        return session.execute(update(RetrievalQuery).where(
+            RetrievalQuery.query_id == query_id,
+            RetrievalQuery.user_id == user_id,
+            RetrievalQuery.tenant_id == tenant_id,
+            RetrievalQuery.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id))).rowcount > 0
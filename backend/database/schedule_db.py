@@ -0,0 +1,308 @@
+from datetime import datetime
+from typing import Any, Dict, List, Optional
+
+from sqlalchemy import desc, func, insert, select, update
+
+from database.client import get_db_session, as_dict
+from database.db_models import AgentInfo, AgentSchedule, AgentScheduleRun, ScheduleInboxItem
+from database.utils import add_creation_tracking, add_update_tracking
+
+SCHEDULE_COLUMNS = (
+    AgentSchedule.schedule_id,
+    AgentSchedule.agent_id,
+    AgentSchedule.tenant_id,
+    AgentSchedule.user_id,
+    AgentSchedule.schedule_name.label('name'),
+    AgentSchedule.trigger_type.label('trigger'),
+    AgentSchedule.cron_expression.label('cron'),
+    AgentSchedule.timezone,
+    AgentSchedule.query_template,
+    AgentSchedule.delivery,
+    AgentSchedule.conversation_id,
+    AgentSchedule.language,
+    AgentSchedule.webhook_token,
+    AgentSchedule.enabled,
+    (func.extract('epoch', AgentSchedule.next_run_time) * 1000).label('next_run_time')
+)
+
+RUN_COLUMNS = (
+    AgentScheduleRun.run_id,
+    AgentScheduleRun.schedule_id,
+    AgentScheduleRun.status,
+    AgentScheduleRun.triggered_by,
+    AgentScheduleRun.query,
+    (func.extract('epoch', AgentScheduleRun.start_time) * 1000).label('start_time'),
+    (func.extract('epoch', AgentScheduleRun.end_time) * 1000).label('end_time'),
+    AgentScheduleRun.conversation_id,
+    AgentScheduleRun.message_id,
+    AgentScheduleRun.error
+)
+
+
+def _with_int_times(record, *keys: str) -> Dict[str, Any]:
+    data = as_dict(record)
+    for key in keys:
+        if data[key] is not None:
+            data[key] = int(data[key])
+    return data
+
+
+def _schedule_dict(record) -> Dict[str, Any]:
+    return _with_int_times(record, 'next_run_time')
+
+
+def _run_dict(record) -> Dict[str, Any]:
+    return _with_int_times(record, 'start_time', 'end_time')
+
+
+def get_schedule_list(agent_id: int, tenant_id: str, user_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the schedules a user owns on an agent, oldest first
+    """
+    with get_db_session() as session:
+        stmt = select(*SCHEDULE_COLUMNS).where(
+            AgentSchedule.agent_id == agent_id,
+            AgentSchedule.tenant_id == tenant_id,
+            AgentSchedule.user_id == user_id,
+            AgentSchedule.delete_flag == 'N'
+        ).order_by(AgentSchedule.schedule_id)
+        return [_schedule_dict(record) for record in session.execute(stmt)]
+
+
+def get_schedule(schedule_id: int, tenant_id: str) -> Optional[Dict[str, Any]]:
+    """
+    Get a schedule of the tenant, None if it doesn't exist
+    """
+    with get_db_session() as session:
+        record = session.execute(select(*SCHEDULE_COLUMNS).where(
+            AgentSchedule.schedule_id == schedule_id,
+            AgentSchedule.tenant_id == tenant_id,
+            AgentSchedule.delete_flag == 'N'
+        )).fetchone()
+        return None if record is None else _schedule_dict(record)
+
+
+def get_schedule_by_webhook_token(webhook_token: str) -> Optional[Dict[str, Any]]:
+    """
+    Get the webhook schedule a token belongs to, None if no schedule has it
+    """
+    with get_db_session() as session:
+        record = session.execute(select(*SCHEDULE_COLUMNS).where(
+            AgentSchedule.webhook_token == webhook_token,
+            AgentSchedule.trigger_type == 'webhook',
+            AgentSchedule.delete_flag == 'N'
+        )).fetchone()
+        return None if record is None else _schedule_dict(record)
+
+
+def create_schedule(schedule: Dict[str, Any], tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Create a schedule owned by the user
+
+    Args:
+        schedule: Columns of the schedule
+        tenant_id: Tenant ID
+        user_id: User ID, the owner of the schedule
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({**schedule, "tenant_id": tenant_id, "user_id": user_id, "delete_flag": 'N'},
+                                     user_id)
+        record = session.execute(insert(AgentSchedule).values(**data).returning(*SCHEDULE_COLUMNS)).fetchone()
+        return _schedule_dict(record)
+
+
+def update_schedule(schedule_id: int, values: Dict[str, Any], tenant_id: str,
+                    user_id: Optional[str] = None) -> Optional[Dict[str, Any]]:
+    """
+    Update columns of a schedule, None if it doesn't exist
+    """
+    with get_db_session() as session:
+        data = {**values, "update_time": func.current_timestamp()}
+        if user_id is not None:
+            data = add_update_tracking(data, user_id)
+        record = session.execute(update(AgentSchedule).where(
+            AgentSchedule.schedule_id == schedule_id,
+            AgentSchedule.tenant_id == tenant_id,
+            AgentSchedule.delete_flag == 'N'
+        ).values(data).returning(*SCHEDULE_COLUMNS)).fetchone()
+        return None if record is None else _schedule_dict(record)
+
+
+def delete_schedule(schedule_id: int, tenant_id: str, user_id: str) -> bool:
+    """
+    Soft delete a schedule, its runs and inbox items are kept
+
+    Returns:
+        bool: Whether the schedule exists
+    """
+    with get_db_session() as session:
+        return session.execute(update(AgentSchedule).where(
+            AgentSchedule.schedule_id == schedule_id,
+            AgentSchedule.tenant_id == tenant_id,
+            AgentSchedule.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id))).rowcount > 0
+
+
+def get_due_schedules(now: datetime) -> List[Dict[str, Any]]:
+    """
+    Get the enabled cron schedules of every tenant whose next run time has come
+
+    Args:
+        now: Current time in UTC, without timezone
+
+    Returns:
+        List[Dict[str, Any]]: The schedules, with the next run time they are due for in due_time
+    """
+    with get_db_session() as session:
+        stmt = select(*SCHEDULE_COLUMNS, AgentSchedule.next_run_time.label('due_time')).where(
+            AgentSchedule.trigger_type == 'cron',
+            AgentSchedule.enabled == True,
+            AgentSchedule.next_run_time <= now,
+            AgentSchedule.delete_flag == 'N'
+        ).order_by(AgentSchedule.next_run_time)
+        return [_schedule_dict(record) for record in session.execute(stmt)]
+
+
+def claim_schedule_run(schedule_id: int, due_time: datetime, next_run_time: Optional[datetime]) -> bool:
+    """
+    Move a due schedule to its next run time, unless another worker already did
+
+    Returns:
+        bool: Whether this call claimed the run due at due_time
+    """
+    with get_db_session() as session:
+        return session.execute(update(AgentSchedule).where(
+            AgentSchedule.schedule_id == schedule_id,
+            AgentSchedule.next_run_time == due_time,
+            AgentSchedule.delete_flag == 'N'
+        ).values(next_run_time=next_run_time)).rowcount > 0
+
+
+def create_schedule_run(run: Dict[str, Any], tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Record the start of a schedule run
+
+    Args:
+        run: schedule_id, triggered_by, query, conversation_id and start_time of the run
+        tenant_id: Tenant ID
+        user_id: User ID the agent runs as
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({**run, "tenant_id": tenant_id, "status": "running", "delete_flag": 'N'},
+                                     user_id)
+        record = session.execute(insert(AgentScheduleRun).values(**data).returning(*RUN_COLUMNS)).fetchone()
+        return _run_dict(record)
+
+
+def finish_schedule_run(run_id: int, values: Dict[str, Any]) -> Optional[Dict[str, Any]]:
+    """
+    Record the end of a schedule run: status, end_time, message_id and error
+    """
+    with get_db_session() as session:
+        record = session.execute(update(AgentScheduleRun).where(
+            AgentScheduleRun.run_id == run_id
+        ).values({**values, "update_time": func.current_timestamp()}).returning(*RUN_COLUMNS)).fetchone()
+        return None if record is None else _run_dict(record)
+
+
+def get_run_list(schedule_id: int, tenant_id: str, limit: int = 50) -> List[Dict[str, Any]]:
+    """
+    Get the latest runs of a schedule, newest first
+    """
+    with get_db_session() as session:
+        stmt = select(*RUN_COLUMNS).where(
+            AgentScheduleRun.schedule_id == schedule_id,
+            AgentScheduleRun.tenant_id == tenant_id,
+            AgentScheduleRun.delete_flag == 'N'
+        ).order_by(desc(AgentScheduleRun.run_id)).limit(limit)
+        return [_run_dict(record) for record in session.execute(stmt)]
+
+
+def get_runs_by_id(run_ids: List[int]) -> Dict[int, Dict[str, Any]]:
+    """
+    Get runs by their ids, keyed by run id
+    """
+    if not run_ids:
+        return {}
+    with get_db_session() as session:
+        stmt = select(*RUN_COLUMNS).where(AgentScheduleRun.run_id.in_(run_ids))
+        return {run["run_id"]: run for run in map(_run_dict, session.execute(stmt))}
+
+
+def get_latest_runs(schedule_ids: List[int], tenant_id: str) -> Dict[int, Dict[str, Any]]:
+    """
+    Get the latest run of each schedule, keyed by schedule id. Schedules that never ran are missing
+    """
+    if not schedule_ids:
+        return {}
+    with get_db_session() as session:
+        stmt = select(*RUN_COLUMNS).where(
+            AgentScheduleRun.schedule_id.in_(schedule_ids),
+            AgentScheduleRun.tenant_id == tenant_id,
+            AgentScheduleRun.delete_flag == 'N'
+        ).distinct(AgentScheduleRun.schedule_id).order_by(AgentScheduleRun.schedule_id, desc(AgentScheduleRun.run_id))
+        return {run["schedule_id"]: run for run in map(_run_dict, session.execute(stmt))}
+
+
+def create_inbox_item(item: Dict[str, Any], tenant_id: str, user_id: str) -> int:
+    """
+    Deliver the result of a run to the inbox of a user
+
+    Args:
+        item: schedule_id, run_id and summary of the item
+        tenant_id: Tenant ID
+        user_id: User ID of the inbox
+
+    Returns:
+        int: ID of the item
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({**item, "tenant_id": tenant_id, "user_id": user_id, "read_flag": False,
+                                      "delete_flag": 'N'}, user_id)
+        return session.execute(insert(ScheduleInboxItem).values(**data)
+                               .returning(ScheduleInboxItem.item_id)).scalar_one()
+
+
+def get_inbox_list(user_id: str, tenant_id: str, limit: int = 100) -> List[Dict[str, Any]]:
+    """
+    Get the latest items of the inbox of a user with the names of their schedules and agents, newest first
+    """
+    with get_db_session() as session:
+        stmt = select(
+            ScheduleInboxItem.item_id,
+            ScheduleInboxItem.schedule_id,
+            ScheduleInboxItem.run_id,
+            AgentSchedule.schedule_name,
+            func.coalesce(AgentInfo.display_name, AgentInfo.name).label('agent_name'),
+            ScheduleInboxItem.summary,
+            ScheduleInboxItem.read_flag.label('read'),
+            (func.extract('epoch', ScheduleInboxItem.create_time) * 1000).label('create_time')
+        ).join(
+            AgentSchedule, AgentSchedule.schedule_id == ScheduleInboxItem.schedule_id
+        ).outerjoin(
+            AgentInfo, AgentInfo.agent_id == AgentSchedule.agent_id
+        ).where(
+            ScheduleInboxItem.user_id == user_id,
+            ScheduleInboxItem.tenant_id == tenant_id,
+            ScheduleInboxItem.delete_flag == 'N'
+        ).order_by(desc(ScheduleInboxItem.item_id)).limit(limit)
+        return [_with_int_times(record, 'create_time') for record in session.execute(stmt)]
+
+
+def mark_inbox_read(user_id: str, tenant_id: str, item_ids: Optional[List[int]] = None) -> int:
+    """
+    Mark items of the inbox of a user as read, every item when no id is given
+
+    Returns:
+        int: Number of items marked
+    """
+    with get_db_session() as session:
+        stmt = update(ScheduleInboxItem).where(
+            ScheduleInboxItem.user_id == user_id,
+            ScheduleInboxItem.tenant_id == tenant_id,
+            ScheduleInboxItem.read_flag == False,
+            ScheduleInboxItem.delete_flag == 'N'
+        )
+        if item_ids is not None:
+            stmt = stmt.where(ScheduleInboxItem.item_id.in_(item_ids))
+        return session.execute(stmt.values(add_update_tracking({"read_flag": True}, user_id))).rowcount
@@ -0,0 +1,63 @@
+from typing import Any, Dict, List
+
+from sqlalchemy import desc, insert, select, update
+
+from database.client import get_db_session, as_dict
+from database.db_models import ToolSample
+from database.utils import add_creation_tracking, add_update_tracking
+
+SAMPLE_COLUMNS = (
+    ToolSample.sample_id,
+    ToolSample.tool_id,
+    ToolSample.agent_id,
+    ToolSample.params,
+    ToolSample.inputs,
+    ToolSample.output,
+    ToolSample.error,
+    ToolSample.duration,
+    ToolSample.create_time
+)
+
+
+def get_sample_list(tool_id: int, agent_id: int, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the samples of a tool saved for an agent, newest first
+    """
+    with get_db_session() as session:
+        stmt = select(*SAMPLE_COLUMNS).where(
+            ToolSample.tool_id == tool_id,
+            ToolSample.agent_id == agent_id,
+            ToolSample.tenant_id == tenant_id,
+            ToolSample.delete_flag == 'N'
+        ).order_by(desc(ToolSample.sample_id))
+        return [as_dict(record) for record in session.execute(stmt)]
+
+
+def create_sample(sample: Dict[str, Any], tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Save a tool invocation as a sample
+
+    Args:
+        sample: tool_id, agent_id, params, inputs, output, error and duration of the invocation
+        tenant_id: Tenant ID
+        user_id: User ID
+    """
+    with get_db_session() as session:
+        data = add_creation_tracking({**sample, "tenant_id": tenant_id, "delete_flag": 'N'}, user_id)
+        record = session.execute(insert(ToolSample).values(**data).returning(*SAMPLE_COLUMNS)).fetchone()
+        return as_dict(record)
+
+
+def delete_sample(sample_id: int, tenant_id: str, user_id: str) -> bool:
+    """
+    Soft delete a sample
+
+    Returns:
+        bool: Whether the sample exists
+    """
+    with get_db_session() as session:
+        return session.execute(update(ToolSample).where(
+            ToolSample.sample_id == sample_id,
+            ToolSample.tenant_id == tenant_id,
+            ToolSample.delete_flag == 'N'
+        ).values(add_update_tracking({"delete_flag": 'Y'}, user_id))).rowcount > 0
@@ -1,24 +1,31 @@
 import os
 import json
+import asyncio
 import logging
 from collections import deque
+from concurrent.futures import Future
+from typing import Optional
 
 from fastapi import Header, Request, HTTPException
 from fastapi.responses import JSONResponse, StreamingResponse
 from consts.model import AgentRequest
 from agents.create_agent_info import create_tool_config_list
-from consts.model import AgentInfoRequest, ExportAndImportAgentInfo, ExportAndImportDataFormat, ToolInstanceInfoRequest, MCPInfo
+from consts.model import AgentInfoRequest, ExportAndImportAgentInfo, ExportAndImportDataFormat, ToolInstanceInfoRequest, MCPInfo, \
+    ApprovalPolicyRequest, ToolApprovalRequest
 from database.agent_db import create_agent, query_all_enabled_tool_instances, \
      search_blank_sub_agent_by_main_agent_id, \
     search_tools_for_sub_agent, search_agent_info_by_agent_id, update_agent, delete_agent_by_id, query_all_tools, \
     create_or_update_tool_by_tool_info, check_tool_is_available, query_all_agent_info_by_tenant_id, \
-    query_sub_agents_id_list, insert_related_agent, delete_all_related_agent, search_agent_id_by_agent_name
+    query_sub_agents_id_list, insert_related_agent, delete_all_related_agent, search_agent_id_by_agent_name, \
+    create_agent_version, query_agent_versions, search_agent_version, restore_agent_tool_instances, \
+    update_approval_policy
+from database.conversation_db import get_conversation
 from database.remote_mcp_db import get_mcp_server_by_name_and_tenant, check_mcp_name_exists
 from services.remote_mcp_service import add_remote_mcp_server_list
 from services.tool_configuration_service import update_tool_list
 from services.conversation_management_service import save_conversation_user, save_conversation_assistant
 
-from utils.auth_utils import get_current_user_info
+from utils.auth_utils import get_current_user_info, get_current_user_id
 from utils.memory_utils import build_memory_config
 from utils.thread_utils import submit
 from nexent.memory.memory_service import clear_memory
@@ -26,11 +33,24 @@ from nexent.core.agents.run_agent import agent_run
 from services.memory_config_service import build_memory_context
 from agents.create_agent_info import create_agent_run_info
 from agents.agent_run_manager import agent_run_manager
+from agents.agent_run_stream import AgentRunStream
 from agents.preprocess_manager import preprocess_manager
 
 
 logger = logging.getLogger("agent_service")
 
+# Version of the agent stream protocol announced to the client at the start of every stream.
+# 1.1 adds sequence ids, the stream_end event, the message_saved event and the resume endpoint.
+# 1.2 adds the approval_request and approval_result events of tool calls waiting for the user.
+STREAM_PROTOCOL_VERSION = "1.2"
+
+# Agent fields kept in every version, restored by a rollback
+AGENT_VERSION_FIELDS = ["name", "display_name", "description", "business_description", "model_name", "max_steps",
+                        "provide_run_summary", "duty_prompt", "constraint_prompt", "few_shots_prompt"]
+# Tool fields kept in every version, enough to run the version without the current tool configuration
+TOOL_VERSION_FIELDS = ["tool_id", "name", "description", "source", "class_name", "is_available", "usage", "inputs",
+                       "output_type", "params"]
+
 def get_enable_tool_id_by_agent_id(agent_id: int, tenant_id: str, user_id: str = None):
     # now only admin can modify the tool, user_id is not used
     all_tool_instance = query_all_enabled_tool_instances(agent_id=agent_id, tenant_id=tenant_id, user_id=None)
@@ -108,14 +128,118 @@ def get_creating_sub_agent_info_impl(authorization: str = Header(None)):
             "sub_agent_id_list": query_sub_agents_id_list(main_agent_id=sub_agent_id, tenant_id=tenant_id)}
 
 def update_agent_info_impl(request: AgentInfoRequest, authorization: str = Header(None)):
+    """
+    Update an agent and save the result as a new version, return the version
+    """
     user_id, tenant_id, _ = get_current_user_info(authorization)
     
     try:
         update_agent(request.agent_id, request, tenant_id, user_id)
+        return save_agent_version(request.agent_id, tenant_id, user_id)
     except Exception as e:
         logger.error(f"Failed to update agent info: {str(e)}")
         raise ValueError(f"Failed to update agent info: {str(e)}")
 
+
+def build_agent_snapshot(agent_id: int, tenant_id: str) -> dict:
+    """
+    Current configuration of an agent as kept in a version: its fields, enabled tools and sub agent ids
+    """
+    agent_info = search_agent_info_by_agent_id(agent_id, tenant_id)
+    snapshot = {"agent_id": agent_id} | {field: agent_info.get(field) for field in AGENT_VERSION_FIELDS}
+    snapshot["tools"] = [{field: tool.get(field) for field in TOOL_VERSION_FIELDS}
+                         for tool in search_tools_for_sub_agent(agent_id=agent_id, tenant_id=tenant_id)]
+    snapshot["sub_agent_id_list"] = query_sub_agents_id_list(main_agent_id=agent_id, tenant_id=tenant_id)
+    return snapshot
+
+
+def save_agent_version(agent_id: int, tenant_id: str, user_id: str, rollback_from: Optional[int] = None) -> dict:
+    return create_agent_version(agent_id=agent_id,
+                                snapshot=build_agent_snapshot(agent_id, tenant_id),
+                                tenant_id=tenant_id,
+                                user_id=user_id,
+                                rollback_from=rollback_from)
+
+
+def list_agent_versions_impl(agent_id: int, tenant_id: str) -> list[dict]:
+    """
+    List the versions of an agent, newest first
+    """
+    return query_agent_versions(agent_id, tenant_id)
+
+
+def get_agent_version_impl(agent_id: int, version_no: int, tenant_id: str) -> dict:
+    """
+    Get one version of an agent with its snapshot, raise 404 when it does not exist
+    """
+    try:
+        return search_agent_version(agent_id, version_no, tenant_id)
+    except ValueError:
+        raise HTTPException(status_code=404, detail=f"Version {version_no} of agent {agent_id} does not exist")
+
+
+def rollback_agent_version_impl(agent_id: int, version_no: int, authorization: str = Header(None)) -> dict:
+    """
+    Restore the configuration of an earlier version. The restore is saved as a new version so the history
+    stays intact, the new version is returned.
+    """
+    user_id, tenant_id, _ = get_current_user_info(authorization)
+    snapshot = get_agent_version_impl(agent_id, version_no, tenant_id)["snapshot"]
+
+    # update_agent skips None values, an empty prompt has to be written as an empty string to be restored
+    agent_values = {field: snapshot.get(field) for field in AGENT_VERSION_FIELDS}
+    for prompt_field in ["duty_prompt", "constraint_prompt", "few_shots_prompt"]:
+        agent_values[prompt_field] = agent_values[prompt_field] or ""
+    update_agent(agent_id, AgentInfoRequest(agent_id=agent_id, **agent_values), tenant_id, user_id)
+
+    tool_params = {tool["tool_id"]: {param["name"]: param.get("default") for param in tool.get("params") or []}
+                   for tool in snapshot.get("tools", [])}
+    restore_agent_tool_instances(agent_id, tool_params, tenant_id, user_id)
+
+    delete_all_related_agent(agent_id, tenant_id)
+    for sub_agent_id in snapshot.get("sub_agent_id_list", []):
+        insert_related_agent(parent_agent_id=agent_id, child_agent_id=sub_agent_id, tenant_id=tenant_id)
+
+    return save_agent_version(agent_id, tenant_id, user_id, rollback_from=version_no)
+
+def get_approval_policy_impl(agent_id: int, tenant_id: str) -> dict:
+    """
+    Get which tool calls of an agent wait for the user's approval, nothing does while the agent has no policy
+    """
+    try:
+        approval_policy = search_agent_info_by_agent_id(agent_id, tenant_id).get("approval_policy") or {}
+    except ValueError:
+        raise HTTPException(status_code=404, detail=f"Agent {agent_id} does not exist")
+    return {"agent_id": agent_id,
+            "default_mode": approval_policy.get("default_mode", "never"),
+            "tool_modes": approval_policy.get("tool_modes") or {}}
+
+
+def save_approval_policy_impl(request: ApprovalPolicyRequest, tenant_id: str, user_id: str) -> dict:
+    """
+    Replace the approval policy of an agent, it applies from the next run on
+    """
+    approval_policy = {"default_mode": request.default_mode, "tool_modes": request.tool_modes}
+    if not update_approval_policy(request.agent_id, approval_policy, tenant_id, user_id):
+        raise HTTPException(status_code=404, detail=f"Agent {request.agent_id} does not exist")
+    return {"agent_id": request.agent_id, **approval_policy}
+
+
+def decide_tool_approval_impl(request: ToolApprovalRequest, user_id: str):
+    """
+    Answer a tool call waiting for the user's approval in the run in progress for a conversation,
+    the run goes on in its stream. Raises 404 when there is no such run or the call is no longer waiting.
+    """
+    run_stream = agent_run_manager.get_agent_run_stream(request.conversation_id)
+    agent_run_info = agent_run_manager.get_agent_run_info(request.conversation_id)
+    if run_stream is None or run_stream.user_id != user_id or agent_run_info is None \
+            or agent_run_info.approval_gate is None:
+        raise HTTPException(status_code=404,
+                            detail=f"no running agent found for conversation_id {request.conversation_id}")
+    if not agent_run_info.approval_gate.decide(request.approval_id, request.decision, request.arguments):
+        raise HTTPException(status_code=404, detail=f"approval {request.approval_id} is not waiting for a decision")
+
+
 async def delete_agent_impl(agent_id: int, authorization: str = Header(None)):
     user_id, tenant_id, _ = get_current_user_info(authorization)
 
@@ -258,6 +382,9 @@ async def export_agent_by_agent_id(agent_id: int, tenant_id: str, user_id: str)-
 async def import_agent_impl(agent_info: ExportAndImportDataFormat, authorization: str = Header(None)):
     """
     Import agent using DFS
+
+    Returns:
+        dict: the new id of the root agent, and the new id of every imported agent keyed by its id in the export
     """
     user_id, tenant_id, _ = get_current_user_info(authorization)
     agent_id = agent_info.agent_id
@@ -331,6 +458,10 @@ async def import_agent_impl(agent_info: ExportAndImportDataFormat, authorization
             agent_stack.append(need_import_agent_id)
             agent_stack.extend(managed_agents)
 
+    return {"agent_id": mapping_agent_id[agent_id],
+            "agent_id_mapping": {str(old_agent_id): new_agent_id
+                                 for old_agent_id, new_agent_id in mapping_agent_id.items()}}
+
 
 async def import_agent_by_agent_id(import_agent_info: ExportAndImportAgentInfo, tenant_id: str, user_id: str):
     tool_list = []
@@ -470,12 +601,27 @@ def insert_related_agent_impl(parent_agent_id, child_agent_id, tenant_id):
         )
 
 
+def resolve_agent_version(agent_request: AgentRequest, user_id: str):
+    """
+    Run the agent version a conversation is pinned to when the request does not ask for a version,
+    so that a later change of the agent does not alter the conversation
+    """
+    if agent_request.agent_version_no is not None or agent_request.is_debug or not agent_request.conversation_id:
+        return
+    conversation = get_conversation(agent_request.conversation_id, user_id)
+    if conversation and conversation.get("pinned_agent_id") is not None \
+            and conversation.get("pinned_version_no") is not None:
+        agent_request.agent_id = conversation["pinned_agent_id"]
+        agent_request.agent_version_no = conversation["pinned_version_no"]
+
+
 # Helper function for run_agent_stream, used to prepare context for an agent run
 async def prepare_agent_run(agent_request: AgentRequest, http_request: Request, authorization: str):
     """
     Prepare for an agent run by creating context and run info, and registering the run.
     """
     user_id, tenant_id, language = get_current_user_info(authorization, http_request)
+    resolve_agent_version(agent_request, user_id)
 
     memory_context = build_memory_context(user_id, tenant_id, agent_request.agent_id)
     agent_run_info = await create_agent_run_info(agent_id=agent_request.agent_id,
@@ -483,68 +629,123 @@ async def prepare_agent_run(agent_request: AgentRequest, http_request: Request,
                                                  query=agent_request.query,
                                                  history=agent_request.history,
                                                  authorization=authorization,
-                                                 language=language)
-    agent_run_manager.register_agent_run(agent_request.conversation_id, agent_run_info)
-    return agent_run_info, memory_context
+                                                 language=language,
+                                                 version_no=agent_request.agent_version_no)
+    run_stream = AgentRunStream(user_id=user_id)
+    agent_run_manager.register_agent_run(agent_request.conversation_id, agent_run_info, run_stream)
+    return agent_run_info, memory_context, run_stream
 
 
 # Helper function for run_agent_stream, used to save messages for either user or assistant
-def save_messages(agent_request, target:str, messages=None, authorization=None):
+def save_messages(agent_request, target:str, messages=None, authorization=None, parent_message_id=None):
     if target == "user":
         if messages is not None:
             raise ValueError("Messages should be None when saving for user.")
-        submit(save_conversation_user, agent_request, authorization)
+        return submit(save_conversation_user, agent_request, authorization)
     elif target == "assistant":
         if messages is None:
             raise ValueError("Messages cannot be None when saving for assistant.")
-        submit(save_conversation_assistant, agent_request, messages, authorization)
+        return submit(save_conversation_assistant, agent_request, messages, authorization, parent_message_id)
+
 
+def message_saved_event(role: str, message_id: int) -> dict:
+    return {"type": "message_saved", "content": json.dumps({"role": role, "message_id": message_id})}
 
-# Helper function for run_agent_stream, used to generate stream response
-async def generate_stream(agent_run_info, memory_context, agent_request: AgentRequest, authorization: str):
+
+# Helper function for run_agent_stream, runs the agent and publishes its events to the run stream
+async def produce_agent_stream(agent_run_info, memory_context, agent_request: AgentRequest, authorization: str,
+                               run_stream: AgentRunStream, user_saved: Optional[Future] = None):
     messages = []
+    user_message_id = None
     try:
+        # Handshake, not part of the saved assistant message
+        await run_stream.publish({"type": "protocol_version", "content": STREAM_PROTOCOL_VERSION})
+        if user_saved is not None:
+            try:
+                user_message_id = await asyncio.wrap_future(user_saved)
+            except Exception as e:
+                logger.error(f"Failed to save user message: {str(e)}")
+            if user_message_id is not None:
+                await run_stream.publish(message_saved_event("user", user_message_id))
         async for chunk in agent_run(agent_run_info, memory_context):
             messages.append(chunk)
-            yield f"data: {chunk}\n\n"
+            await run_stream.publish(json.loads(chunk))
     except Exception as e:
         logger.error(f"Agent run error: {str(e)}")
-        raise HTTPException(status_code=500, detail=f"Agent run error: {str(e)}")
+        await run_stream.publish({"type": "error", "content": f"Agent run error: {str(e)}"})
     finally:
-        # Save assistant message only if not in debug mode
+        # Save assistant message only if not in debug mode, before the end of the stream so that
+        # a client reconnecting after the run finds the answer in the history
         if not agent_request.is_debug:
-            save_messages(agent_request, target="assistant", messages=messages, authorization=authorization)
+            try:
+                assistant_message_id = await asyncio.wrap_future(
+                    save_messages(agent_request, target="assistant", messages=messages,
+                                  authorization=authorization, parent_message_id=user_message_id))
+                if assistant_message_id is not None:
+                    await run_stream.publish(message_saved_event("assistant", assistant_message_id))
+            except Exception as e:
+                logger.error(f"Failed to save assistant message: {str(e)}")
+        await run_stream.publish({"type": "stream_end", "content": ""})
+        await run_stream.close()
         # Unregister agent run instance for both debug and non-debug modes
         agent_run_manager.unregister_agent_run(agent_request.conversation_id)
 
 
+# Helper function for run_agent_stream and resume_agent_stream, used to generate stream response
+async def generate_stream(run_stream: AgentRunStream, after_seq: int = 0):
+    async for event in run_stream.subscribe(after_seq):
+        yield f"data: {event}\n\n"
+
+
+def _event_stream_response(run_stream: AgentRunStream, after_seq: int = 0) -> StreamingResponse:
+    return StreamingResponse(
+        generate_stream(run_stream, after_seq),
+        media_type="text/event-stream",
+        headers={
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive"
+        }
+    )
+
+
 async def run_agent_stream(agent_request: AgentRequest, http_request: Request, authorization: str):
     """
     Start an agent run and stream responses, using explicit user/tenant context.
     Mirrors the logic of agent_app.agent_run_api but reusable by services.
+
+    The run is not bound to this response: when the client disconnects it keeps running and the
+    client can reattach through resume_agent_stream.
     """
-    agent_run_info, memory_context = await prepare_agent_run(
+    agent_run_info, memory_context, run_stream = await prepare_agent_run(
         agent_request=agent_request,
         http_request=http_request,
         authorization=authorization
     )
 
     # Save user message only if not in debug mode
+    user_saved = None
     if not agent_request.is_debug:
-        save_messages(
+        user_saved = save_messages(
             agent_request, 
             target="user", 
             authorization=authorization
         )
 
-    return StreamingResponse(
-        generate_stream(agent_run_info, memory_context, agent_request, authorization),
-        media_type="text/event-stream",
-        headers={
-            "Cache-Control": "no-cache",
-            "Connection": "keep-alive"
-        }
-    )
+    run_stream.task = asyncio.create_task(
+        produce_agent_stream(agent_run_info, memory_context, agent_request, authorization, run_stream, user_saved))
+    return _event_stream_response(run_stream)
+
+
+def resume_agent_stream(conversation_id: int, after_seq: int, authorization: str):
+    """
+    Reattach to the run in progress for a conversation, replaying the events after `after_seq`.
+    Raises 404 when the conversation has no run in progress, its answer is then in the history.
+    """
+    user_id, _ = get_current_user_id(authorization)
+    run_stream = agent_run_manager.get_agent_run_stream(conversation_id)
+    if run_stream is None or run_stream.user_id != user_id:
+        raise HTTPException(status_code=404, detail=f"no running agent found for conversation_id {conversation_id}")
+    return _event_stream_response(run_stream, after_seq)
 
 
 def stop_agent_tasks(conversation_id: int):
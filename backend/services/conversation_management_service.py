@@ -1,6 +1,8 @@
 import asyncio
 import json
 import logging
+import re
+import secrets
 import yaml
 from typing import List, Optional, Dict, Any
 from datetime import datetime
@@ -9,14 +11,20 @@ from jinja2 import StrictUndefined, Template
 from fastapi import HTTPException, Header
 from smolagents import OpenAIServerModel
 
-from consts.model import MessageRequest, ConversationResponse, AgentRequest, MessageUnit
+from consts.model import MessageRequest, ConversationResponse, AgentRequest, MessageUnit, ConversationImportRequest, \
+    ConversationSearchRequest, ConversationOrganizeRequest, ConversationShareRequest, ConversationAgentPinRequest
 from database.conversation_db import create_conversation_message, create_source_search, create_message_units, \
     create_source_image, rename_conversation, get_conversation_list, get_conversation_history, get_source_images_by_message, \
     get_source_images_by_conversation, get_source_searches_by_message, get_source_searches_by_conversation, \
-    delete_conversation, get_conversation, create_conversation, update_message_opinion
+    delete_conversation, get_conversation, create_conversation, update_message_opinion, get_message, \
+    get_latest_message_id, search_conversation_messages, update_conversation_placement, reorder_conversations, \
+    set_conversation_tags, get_folder_list, get_folder, create_folder, rename_folder, delete_folder, reorder_folders, \
+    get_tag_list, create_tag, delete_tag, create_conversation_share, get_conversation_shares, \
+    get_conversation_share_by_token, revoke_conversation_share, update_conversation_agent_pin
+from database.agent_db import search_agent_version
 
 from utils.config_utils import tenant_config_manager,get_model_name_from_config
-from utils.auth_utils import get_current_user_id_from_token
+from utils.auth_utils import get_current_user_id_from_token, get_current_user_id
 from nexent.core.utils.observer import ProcessType
 from utils.str_utils import remove_think_tags, add_no_think_token
 from utils.prompt_template_utils import get_generate_title_prompt_template
@@ -24,7 +32,7 @@ from utils.prompt_template_utils import get_generate_title_prompt_template
 logger = logging.getLogger("conversation_management_service")
 
 
-def save_message(request: MessageRequest, authorization: Optional[str] = Header(None)):
+def save_message(request: MessageRequest, authorization: Optional[str] = Header(None), user_id: Optional[str] = None):
     """
     Save a new message record
 
@@ -35,16 +43,19 @@ def save_message(request: MessageRequest, authorization: Optional[str] = Header(
             - role: Message role
             - message: List of message units
             - minio_files: List of object_names for files stored in minio
+            - parent_message_id: Message the saved one follows, the latest message when not sent
         authorization: Authorization header
+        user_id: User the message is saved for, taken from the authorization header when not given
 
     Returns:
         ConversationResponse object:
             - code: 0 indicates success
-            - data: true indicates successful save
+            - data: ID of the saved message
             - message: "success" success message
     """
     try:
-        user_id = get_current_user_id_from_token(authorization)
+        if user_id is None:
+            user_id = get_current_user_id_from_token(authorization)
         message_data = request.model_dump()
 
         # Validate conversation_id
@@ -52,6 +63,11 @@ def save_message(request: MessageRequest, authorization: Optional[str] = Header(
         if not conversation_id:
             raise HTTPException(status_code=400, detail="conversation_id is required, please call /conversation/create to create a conversation first")
 
+        # Messages saved without a parent continue the conversation linearly
+        parent_message_id = message_data.get('parent_message_id')
+        if 'parent_message_id' not in request.model_fields_set:
+            parent_message_id = get_latest_message_id(conversation_id)
+
         # Process different types of message units
         message_units = message_data['message']
 
@@ -76,14 +92,16 @@ def save_message(request: MessageRequest, authorization: Optional[str] = Header(
         # Process string/final_answer type, create message record
         if string_content is not None:
             message_data_copy = {'conversation_id': conversation_id, 'message_idx': message_data['message_idx'],
-                'role': message_data['role'], 'content': string_content, 'minio_files': minio_files}
+                'role': message_data['role'], 'content': string_content, 'minio_files': minio_files,
+                'parent_message_id': parent_message_id, 'agent_id': message_data.get('agent_id')}
             message_id = create_conversation_message(message_data_copy, user_id)
 
         # If there are other types of units but no string type, create an empty content message for them
         if other_units and message_id is None:
             message_data_copy = {'conversation_id': conversation_id, 'message_idx': message_data['message_idx'],
                 'role': message_data['role'], 'content': "",  # Empty content
-                'minio_files': minio_files}
+                'minio_files': minio_files, 'parent_message_id': parent_message_id,
+                'agent_id': message_data.get('agent_id')}
             message_id = create_conversation_message(message_data_copy, user_id)
 
         # Process other types of units
@@ -176,7 +194,7 @@ def save_message(request: MessageRequest, authorization: Optional[str] = Header(
                 logging.error(f"Failed to save search content: {str(e)}")
                 search_placeholder_index += 1
 
-        return ConversationResponse(code=0, message="success", data=True)
+        return ConversationResponse(code=0, message="success", data=message_id)
 
     except Exception as e:
         logging.error(f"Failed to save message: {str(e)}")
@@ -185,17 +203,30 @@ def save_message(request: MessageRequest, authorization: Optional[str] = Header(
         raise HTTPException(status_code=500, detail=str(e))
 
 
-def save_conversation_user(request: AgentRequest, authorization: Optional[str] = None):
+def save_conversation_user(request: AgentRequest, authorization: Optional[str] = None) -> Optional[int]:
+    """
+    Save the query of an agent run, return the ID of the user message the run answers.
+    When the run follows a user message (edit and regenerate), that message is the query and nothing is saved.
+    """
+    if request.parent_message_id is not None:
+        parent = get_message(request.parent_message_id)
+        if parent and parent.get("message_role") == "user":
+            return request.parent_message_id
+
     user_role_count = sum(1 for item in getattr(request, "history", []) if item.get("role") == "user")
 
     conversation_req = MessageRequest(conversation_id=request.conversation_id, message_idx=user_role_count * 2,
         role="user", message=[MessageUnit(type="string", content=request.query)], minio_files=request.minio_files)
-    save_message(conversation_req, authorization=authorization)
+    if request.parent_message_id is not None:
+        conversation_req.parent_message_id = request.parent_message_id
+    return save_message(conversation_req, authorization=authorization).data
 
 
-def save_conversation_assistant(request: AgentRequest, messages: List[str], authorization: Optional[str] = None):
-    user_role_count = sum(1 for item in getattr(request, "history", []) if item.get("role") == "user")
-
+def merge_message_chunks(messages: List[str]) -> List[Dict[str, Any]]:
+    """
+    Turn the chunks streamed by an agent run into the units of the saved answer, consecutive code and
+    thinking chunks are joined
+    """
     message_list = []
     for item in messages:
         message = json.loads(item)
@@ -205,10 +236,21 @@ def save_conversation_assistant(request: AgentRequest, messages: List[str], auth
             message_list[-1]["content"] += message["content"]
         else:
             message_list.append(message)
+    return message_list
+
+
+def save_conversation_assistant(request: AgentRequest, messages: List[str], authorization: Optional[str] = None,
+                                parent_message_id: Optional[int] = None) -> Optional[int]:
+    """
+    Save the answer of an agent run under the user message it answers, return the ID of the saved message
+    """
+    user_role_count = sum(1 for item in getattr(request, "history", []) if item.get("role") == "user")
 
     conversation_req = MessageRequest(conversation_id=request.conversation_id, message_idx=user_role_count * 2 + 1,
-        role="assistant", message=message_list, minio_files=request.minio_files)
-    save_message(conversation_req, authorization=authorization)
+        role="assistant", message=merge_message_chunks(messages), minio_files=request.minio_files, agent_id=request.agent_id)
+    if parent_message_id is not None:
+        conversation_req.parent_message_id = parent_message_id
+    return save_message(conversation_req, authorization=authorization).data
 
 
 def extract_user_messages(history: List[Dict[str, str]]) -> str:
@@ -302,6 +344,72 @@ def create_new_conversation(title: str, user_id: str) -> Dict[str, Any]:
         raise HTTPException(status_code=500, detail=str(e))
 
 
+def _imported_message_units(message: Dict[str, Any]) -> List[MessageUnit]:
+    """
+    Convert a message of the conversation history API back into the units accepted by save_message
+    """
+    content = message.get('message')
+    if message.get('role') == 'user':
+        if isinstance(content, list):
+            content = next((unit.get('content', '') for unit in content if unit.get('type') == 'string'), '')
+        return [MessageUnit(type="string", content=content or "")]
+
+    search_by_unit_id = message.get('searchByUnitId') or message.get('search_unit_id') or {}
+    units = []
+    for unit in content or []:
+        if unit.get('type') == 'search_content_placeholder':
+            # The placeholder points to search results saved separately, save them again with the unit
+            try:
+                unit_id = json.loads(unit.get('content') or '{}').get('unit_id')
+            except json.JSONDecodeError:
+                unit_id = None
+            results = search_by_unit_id.get(str(unit_id), [])
+            units.append(MessageUnit(type="search_content", content=json.dumps(results, ensure_ascii=False)))
+        else:
+            units.append(MessageUnit(type=unit.get('type', ''), content=unit.get('content') or ''))
+
+    if message.get('picture'):
+        units.append(MessageUnit(type="picture_web", content=json.dumps({"images_url": message['picture']})))
+    return units
+
+
+def import_conversation_service(request: ConversationImportRequest, user_id: str,
+                                authorization: Optional[str] = None) -> Dict[str, Any]:
+    """
+    Recreate an exported conversation as a new conversation of the user
+
+    Args:
+        request: ConversationImportRequest with the title and the messages of the export
+        user_id: User ID
+        authorization: Authorization header
+
+    Returns:
+        Dict containing the data of the new conversation
+    """
+    conversation_data = create_conversation(request.title, user_id)
+    conversation_id = conversation_data['conversation_id']
+    # Exported message id -> id of the recreated message, keeps branches linked
+    message_ids = {}
+
+    for index, message in enumerate(request.messages):
+        if message.get('role') not in ('user', 'assistant'):
+            raise HTTPException(status_code=400, detail=f"Message {index} has an invalid role")
+
+        message_req = MessageRequest(conversation_id=conversation_id, message_idx=index, role=message['role'],
+                                     message=_imported_message_units(message),
+                                     minio_files=message.get('minio_files') or None)
+        # Messages exported before conversations could branch follow the previous message
+        if 'parent_message_id' in message:
+            parent_message_id = message['parent_message_id']
+            message_req.parent_message_id = None if parent_message_id is None else message_ids.get(parent_message_id)
+
+        saved_message_id = save_message(message_req, authorization=authorization).data
+        if message.get('message_id') is not None:
+            message_ids[message['message_id']] = saved_message_id
+
+    return conversation_data
+
+
 def get_conversation_list_service(user_id: str) -> List[Dict[str, Any]]:
     """
     Get all conversation list
@@ -317,6 +425,65 @@ def get_conversation_list_service(user_id: str) -> List[Dict[str, Any]]:
         raise HTTPException(status_code=500, detail=str(e))
 
 
+def build_search_snippet(content: str, query: str, radius: int = 60) -> str:
+    """
+    Cut a plain text snippet around the first case-insensitive match of the query
+    """
+    text = " ".join((content or "").split())
+    position = text.lower().find(query.lower())
+    if position < 0:
+        return text[:radius * 2] + ("…" if len(text) > radius * 2 else "")
+    start = max(position - radius, 0)
+    end = min(position + len(query) + radius, len(text))
+    return ("…" if start > 0 else "") + text[start:end] + ("…" if end < len(text) else "")
+
+
+def search_conversations_service(request: ConversationSearchRequest, user_id: str) -> List[Dict[str, Any]]:
+    """
+    Full-text search over the messages of all conversations of the user
+
+    Args:
+        request: ConversationSearchRequest with the query and the filters
+        user_id: User ID
+
+    Returns:
+        List of matching messages with a snippet around the match, newest first
+    """
+    query = request.query.strip()
+    if not query:
+        return []
+
+    try:
+        matches = search_conversation_messages(
+            user_id, query,
+            include_steps=bool(request.include_steps),
+            agent_id=request.agent_id,
+            start_time=request.start_time,
+            end_time=request.end_time,
+            has_attachments=bool(request.has_attachments),
+            limit=min(max(request.limit or 50, 1), 200)
+        )
+    except Exception as e:
+        logging.error(f"Failed to search conversations: {str(e)}")
+        raise HTTPException(status_code=500, detail=str(e))
+
+    # A message matching in several places is listed once, by its best match
+    hits = {}
+    for match in matches:
+        if match['message_id'] in hits:
+            continue
+        hits[match['message_id']] = {
+            'conversation_id': match['conversation_id'],
+            'conversation_title': match['conversation_title'],
+            'message_id': match['message_id'],
+            'role': match['role'],
+            'match_type': match['match_type'],
+            'snippet': build_search_snippet(match['content'], query),
+            'create_time': match['create_time']
+        }
+    return list(hits.values())
+
+
 def rename_conversation_service(conversation_id: int, name: str, user_id: str) -> bool:
     """
     Rename a conversation
@@ -370,6 +537,161 @@ def delete_conversation_service(conversation_id: int, user_id: str) -> bool:
         raise HTTPException(status_code=500, detail=str(e))
 
 
+TAG_COLOR_PATTERN = re.compile(r"^#[0-9a-fA-F]{6}$")
+
+
+def _required_name(name: str) -> str:
+    name = (name or "").strip()
+    if not name or len(name) > 100:
+        raise HTTPException(status_code=400, detail="Name must be between 1 and 100 characters")
+    return name
+
+
+def _check_folder(folder_id: Optional[int], user_id: str):
+    if folder_id is not None and get_folder(folder_id, user_id) is None:
+        raise HTTPException(status_code=404, detail=f"Folder {folder_id} does not exist or has been deleted")
+
+
+def organize_conversation_service(request: ConversationOrganizeRequest, user_id: str) -> bool:
+    """
+    Pin, file or tag a conversation, fields that were not sent are left as they are
+
+    Args:
+        request: ConversationOrganizeRequest object
+        user_id: User ID
+
+    Returns:
+        bool: Whether the operation was successful
+    """
+    if get_conversation(request.conversation_id, user_id) is None:
+        raise HTTPException(status_code=404,
+                            detail=f"Conversation {request.conversation_id} does not exist or has been deleted")
+
+    values = {}
+    if request.pinned is not None:
+        values["pinned_flag"] = 'Y' if request.pinned else 'N'
+    if "folder_id" in request.model_fields_set:
+        _check_folder(request.folder_id, user_id)
+        values["folder_id"] = request.folder_id
+    if values:
+        # A conversation moved to another section goes to its end until it is reordered
+        values["sort_order"] = None
+        update_conversation_placement([request.conversation_id], values, user_id)
+
+    if request.tag_ids is not None:
+        user_tag_ids = {tag['tag_id'] for tag in get_tag_list(user_id)}
+        unknown_tag_ids = [tag_id for tag_id in request.tag_ids if tag_id not in user_tag_ids]
+        if unknown_tag_ids:
+            raise HTTPException(status_code=404, detail=f"Tags {unknown_tag_ids} do not exist or have been deleted")
+        set_conversation_tags(request.conversation_id, request.tag_ids, user_id)
+    return True
+
+
+def pin_agent_version_service(request: ConversationAgentPinRequest, user_id: str, tenant_id: str) -> bool:
+    """
+    Pin a conversation to one version of an agent, or let it follow the latest version again
+
+    Args:
+        request: ConversationAgentPinRequest object, agent_id and version_no both None to unpin
+        user_id: User ID
+        tenant_id: Tenant ID of the user, the pinned agent must belong to it
+
+    Returns:
+        bool: Whether the operation was successful
+    """
+    if (request.agent_id is None) != (request.version_no is None):
+        raise HTTPException(status_code=400, detail="agent_id and version_no must be sent together")
+    if request.agent_id is not None:
+        try:
+            search_agent_version(request.agent_id, request.version_no, tenant_id)
+        except ValueError:
+            raise HTTPException(status_code=404,
+                                detail=f"Version {request.version_no} of agent {request.agent_id} does not exist")
+
+    if not update_conversation_agent_pin(request.conversation_id, request.agent_id, request.version_no, user_id):
+        raise HTTPException(status_code=404,
+                            detail=f"Conversation {request.conversation_id} does not exist or has been deleted")
+    return True
+
+
+def reorder_conversations_service(conversation_ids: List[int], user_id: str) -> bool:
+    """
+    Persist the order of the conversations of one pinned list or folder
+    """
+    reorder_conversations(conversation_ids, user_id)
+    return True
+
+
+def batch_delete_conversations_service(conversation_ids: List[int], user_id: str) -> int:
+    """
+    Delete several conversations of the user, conversations of other users are skipped
+
+    Returns:
+        int: Number of deleted conversations
+    """
+    deleted = 0
+    for conversation_id in conversation_ids:
+        if get_conversation(conversation_id, user_id) is not None and delete_conversation(conversation_id, user_id):
+            deleted += 1
+    return deleted
+
+
+def batch_move_conversations_service(conversation_ids: List[int], folder_id: Optional[int], user_id: str) -> int:
+    """
+    Move several conversations into a folder (None: out of any folder), moved conversations are unpinned
+
+    Returns:
+        int: Number of moved conversations
+    """
+    _check_folder(folder_id, user_id)
+    return update_conversation_placement(
+        conversation_ids, {"pinned_flag": 'N', "folder_id": folder_id, "sort_order": None}, user_id
+    )
+
+
+def get_folder_list_service(user_id: str) -> List[Dict[str, Any]]:
+    return get_folder_list(user_id)
+
+
+def create_folder_service(name: str, user_id: str) -> Dict[str, Any]:
+    return create_folder(_required_name(name), user_id)
+
+
+def rename_folder_service(folder_id: Optional[int], name: str, user_id: str) -> bool:
+    if folder_id is None:
+        raise HTTPException(status_code=400, detail="folder_id is required")
+    if not rename_folder(folder_id, _required_name(name), user_id):
+        raise HTTPException(status_code=404, detail=f"Folder {folder_id} does not exist or has been deleted")
+    return True
+
+
+def delete_folder_service(folder_id: int, user_id: str) -> bool:
+    if not delete_folder(folder_id, user_id):
+        raise HTTPException(status_code=404, detail=f"Folder {folder_id} does not exist or has been deleted")
+    return True
+
+
+def reorder_folders_service(folder_ids: List[int], user_id: str) -> bool:
+    reorder_folders(folder_ids, user_id)
+    return True
+
+
+def get_tag_list_service(user_id: str) -> List[Dict[str, Any]]:
+    return get_tag_list(user_id)
+
+
+def create_tag_service(name: str, color: str, user_id: str) -> Dict[str, Any]:
+    if not TAG_COLOR_PATTERN.match(color or ""):
+        raise HTTPException(status_code=400, detail="Tag color must be a hex color such as #1677ff")
+    return create_tag(_required_name(name), color, user_id)
+
+
+def delete_tag_service(tag_id: int, user_id: str) -> bool:
+    if not delete_tag(tag_id, user_id):
+        raise HTTPException(status_code=404, detail=f"Tag {tag_id} does not exist or has been deleted")
+    return True
+
+
 def get_conversation_history_service(conversation_id: int, user_id: str) -> List[Dict[str, Any]]:
     """
     Get complete history of specified conversation
@@ -454,6 +776,7 @@ def get_conversation_history_service(conversation_id: int, user_id: str) -> List
                     'role': role,
                     'message': message_content,
                     'message_id': message_id,
+                    'parent_message_id': msg.get('parent_message_id'),
                     'opinion_flag': None
                 }
 
@@ -493,6 +816,7 @@ def get_conversation_history_service(conversation_id: int, user_id: str) -> List
                     'role': role,
                     'message': processed_units,
                     'message_id': message_id,
+                    'parent_message_id': msg.get('parent_message_id'),
                     'opinion_flag': msg['opinion_flag']
                 }
 
@@ -533,6 +857,99 @@ def get_conversation_history_service(conversation_id: int, user_id: str) -> List
         raise HTTPException(status_code=500, detail=str(e))
 
 
+# Message units carrying what the agent passed to its tools
+TOOL_INPUT_UNIT_TYPES = ["tool", "model_output_code", "parse"]
+REDACTED_CONTENT = "[redacted]"
+
+
+def redact_tool_inputs(messages: List[Dict[str, Any]]) -> List[Dict[str, Any]]:
+    """
+    Replace the tool call arguments and the generated code of the assistant messages
+    """
+    redacted = []
+    for message in messages:
+        if isinstance(message.get('message'), list):
+            message = {**message, 'message': [
+                {**unit, 'content': REDACTED_CONTENT} if unit.get('type') in TOOL_INPUT_UNIT_TYPES else unit
+                for unit in message['message']
+            ]}
+        redacted.append(message)
+    return redacted
+
+
+def create_share_service(request: ConversationShareRequest, user_id: str, tenant_id: str) -> Dict[str, Any]:
+    """
+    Create a read-only share link holding a snapshot of the conversation
+
+    Args:
+        request: ConversationShareRequest object
+        user_id: User ID
+        tenant_id: Tenant of the user, tenant links only open for this tenant
+
+    Returns:
+        Dict[str, Any]: The new link with token, conversation_id, visibility, redact_tool_inputs and create_time
+    """
+    conversation = get_conversation(request.conversation_id, user_id)
+    if conversation is None:
+        raise HTTPException(status_code=404,
+                            detail=f"Conversation {request.conversation_id} does not exist or has been deleted")
+
+    messages = get_conversation_history_service(request.conversation_id, user_id)[0]['message']
+    if request.redact_tool_inputs:
+        messages = redact_tool_inputs(messages)
+    snapshot = {'title': conversation.get('conversation_title'), 'message': messages}
+
+    return create_conversation_share({
+        "share_token": secrets.token_urlsafe(24),
+        "conversation_id": request.conversation_id,
+        "tenant_id": tenant_id,
+        "visibility": request.visibility,
+        "redact_flag": 'Y' if request.redact_tool_inputs else 'N',
+        "snapshot_content": json.dumps(snapshot, ensure_ascii=False)
+    }, user_id)
+
+
+def list_shares_service(conversation_id: int, user_id: str) -> List[Dict[str, Any]]:
+    return get_conversation_shares(conversation_id, user_id)
+
+
+def revoke_share_service(share_token: str, user_id: str) -> bool:
+    if not revoke_conversation_share(share_token, user_id):
+        raise HTTPException(status_code=404, detail="Share link does not exist or has been revoked")
+    return True
+
+
+def get_shared_conversation_service(share_token: str, authorization: Optional[str] = None) -> Dict[str, Any]:
+    """
+    Open a share link. Public links need no session, tenant links need a signed-in user of the owner's tenant.
+
+    Args:
+        share_token: Token of the share link
+        authorization: Authorization header of the viewer, if any
+
+    Returns:
+        Dict[str, Any]: The snapshot with title, create_time, visibility, redact_tool_inputs and message
+    """
+    share = get_conversation_share_by_token(share_token)
+    if share is None:
+        raise HTTPException(status_code=404, detail="Share link does not exist or has been revoked")
+
+    if share['visibility'] != 'public':
+        # Raises 401 without a valid session
+        _, viewer_tenant_id = get_current_user_id(authorization)
+        if viewer_tenant_id != share['tenant_id']:
+            raise HTTPException(status_code=403, detail="Share link is only available within its tenant")
+
+    snapshot = json.loads(share['snapshot_content'])
+    return {
+        'title': snapshot.get('title'),
+        'create_time': share['create_time'],
+        'visibility': share['visibility'],
+        'redact_tool_inputs': share['redact_tool_inputs'],
+        'message': snapshot.get('message', [])
+    }
+
+
 def get_sources_service(conversation_id: Optional[int], message_id: Optional[int], source_type: str = "all", user_id: str = "") -> Dict[str, Any]:
     """
     Get message source information (images and search results)
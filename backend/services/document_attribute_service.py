@@ -0,0 +1,120 @@
+import json
+import logging
+from datetime import date
+from typing import Any, Dict, List, Optional, Union
+
+from fastapi import HTTPException
+from nexent.vector_database.utils import is_document_visible
+
+from consts.model import DocumentAttributes, DocumentAttributesRequest, MetadataFieldsRequest
+from database.knowledge_db import get_knowledge_record, update_metadata_fields
+from database.knowledge_document_db import get_document_attributes, save_document_attributes
+
+logger = logging.getLogger("document_attribute_service")
+
+# Fields of the knowledge bases whose fields were never saved
+DEFAULT_METADATA_FIELDS = [
+    {"key": "department", "label": "Department", "type": "text", "options": None},
+    {"key": "confidentiality", "label": "Confidentiality", "type": "select",
+     "options": ["public", "internal", "confidential", "secret"]},
+    {"key": "effective_date", "label": "Effective date", "type": "date", "options": None},
+    {"key": "tags", "label": "Tags", "type": "tags", "options": None},
+]
+
+
+def get_metadata_fields_service(index_name: str, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the metadata fields the documents of a knowledge base are described with
+    """
+    record = get_knowledge_record({"index_name": index_name, "tenant_id": tenant_id})
+    if not record:
+        raise HTTPException(status_code=404, detail=f"Knowledge base {index_name} does not exist")
+    return record.get("metadata_fields") or DEFAULT_METADATA_FIELDS
+
+
+def save_metadata_fields_service(index_name: str, request: MetadataFieldsRequest, tenant_id: str, user_id: str):
+    """
+    Replace the metadata fields of a knowledge base, the values of removed fields are kept on the documents
+    """
+    fields = [field.model_dump() for field in request.fields]
+    if not update_metadata_fields(index_name, fields, tenant_id, user_id):
+        raise HTTPException(status_code=404, detail=f"Knowledge base {index_name} does not exist")
+
+
+def _check_metadata(metadata: Dict[str, Any], fields: List[Dict[str, Any]]) -> Dict[str, Any]:
+    """
+    Check the values of the metadata fields against their type, empty values are dropped. Values of fields
+    the knowledge base no longer has are kept as they are
+    """
+    fields = {field["key"]: field for field in fields}
+    checked = {}
+    for key, value in metadata.items():
+        if value in ("", []):
+            continue
+        field = fields.get(key)
+        if field is None:
+            checked[key] = value
+            continue
+        if (field["type"] == "tags") != isinstance(value, list):
+            expected = "a list of tags" if field["type"] == "tags" else "a single value"
+            raise HTTPException(status_code=400, detail=f"Metadata field {key} must be {expected}")
+        if field["type"] == "select" and value not in field["options"]:
+            raise HTTPException(status_code=400, detail=f"{value} is not an option of metadata field {key}")
+        if field["type"] == "date":
+            try:
+                date.fromisoformat(value)
+            except ValueError:
+                raise HTTPException(status_code=400, detail=f"Metadata field {key} must be a YYYY-MM-DD date")
+        checked[key] = value
+    return checked
+
+
+def parse_document_attributes(metadata: Union[str, Dict[str, Any], None],
+                              visibility: Union[str, Dict[str, Any], None]) -> Optional[DocumentAttributes]:
+    """
+    Read the metadata and visibility sent with uploaded files, as JSON form fields or in a JSON body. None when
+    neither is sent
+    """
+    if metadata is None and visibility is None:
+        return None
+    try:
+        if isinstance(metadata, str):
+            metadata = json.loads(metadata)
+        if isinstance(visibility, str):
+            visibility = json.loads(visibility)
+        return DocumentAttributes(metadata=metadata or {}, visibility=visibility or {})
+    except ValueError as e:
+        raise HTTPException(status_code=400, detail=f"Invalid document attributes: {str(e)}")
+
+
+def save_upload_attributes_service(index_name: str, paths_or_urls: List[str], attributes: DocumentAttributes,
+                                   tenant_id: str, user_id: str):
+    """
+    Record the metadata and visibility chosen for uploaded files, their chunks get them when they are indexed
+    """
+    metadata = _check_metadata(attributes.metadata, get_metadata_fields_service(index_name, tenant_id))
+    for path_or_url in paths_or_urls:
+        save_document_attributes(index_name, path_or_url, metadata, attributes.visibility.model_dump(), tenant_id,
+                                 user_id)
+
+
+def update_document_attributes_service(index_name: str, request: DocumentAttributesRequest, tenant_id: str,
+                                       user_id: str, es_core,
+                                       audience: Optional[Dict[str, List[str]]] = None) -> Dict[str, Any]:
+    """
+    Update the metadata and visibility of a document. Its chunks are updated without embedding them again, a
+    document still being processed gets them when its chunks are indexed. A restricted document is only updated
+    by its audience
+
+    Returns:
+        Dict[str, Any]: The number of chunks updated
+    """
+    current = get_document_attributes(index_name, [request.path_or_url]).get(request.path_or_url)
+    if current and not is_document_visible(current["visibility"], audience):
+        raise HTTPException(status_code=404, detail=f"Document {request.path_or_url} not found in {index_name}")
+    metadata = _check_metadata(request.metadata, get_metadata_fields_service(index_name, tenant_id))
+    visibility = request.visibility.model_dump()
+    save_document_attributes(index_name, request.path_or_url, metadata, visibility, tenant_id, user_id)
+    updated = es_core.update_document_attributes(index_name, request.path_or_url, metadata, visibility)
+    logger.info(f"Updated the attributes of {updated} chunks of {request.path_or_url} in {index_name}")
+    return {"updated_chunks": updated}
@@ -18,8 +18,10 @@ from openai import OpenAI
 from openai.types.chat import ChatCompletionMessageParam
 from dotenv import load_dotenv
 import yaml
+import tiktoken
 from nexent.core.models.embedding_model import OpenAICompatibleEmbedding, JinaEmbedding, BaseEmbedding
 from nexent.vector_database.elasticsearch_core import ElasticSearchCore
+from nexent.vector_database.utils import is_document_visible
 from nexent.core.nlp.tokenizer import calculate_term_weights
 from fastapi import HTTPException, Query, Body, Path, Depends
 from fastapi.responses import StreamingResponse
@@ -30,6 +32,9 @@ from utils.prompt_template_utils import get_knowledge_summary_prompt_template
 from jinja2 import Template, StrictUndefined
 from database.knowledge_db import create_knowledge_record, get_knowledge_record, update_knowledge_record, delete_knowledge_record
 from database.attachment_db import delete_file
+from database.knowledge_source_db import delete_sources_by_index
+from database.knowledge_document_db import get_document_attributes, delete_document_attributes, \
+    delete_attributes_by_index
 
 # Configure logging
 logger = logging.getLogger("elasticsearch_service")
@@ -106,6 +111,15 @@ def get_es_core():
     return elastic_core
 
 
+def count_tokens(text: str) -> int:
+    """Count the tokens of a chunk, estimated from its length when the tokenizer can't be loaded"""
+    try:
+        return len(tiktoken.get_encoding("cl100k_base").encode(text))
+    except Exception:
+        # Approximately 4 characters = 1 token
+        return len(text) // 4
+
+
 def get_embedding_model(tenant_id: str):
     # Get the tenant config
     model_config = tenant_config_manager.get_model_config(key="EMBEDDING_ID", tenant_id=tenant_id)
@@ -176,6 +190,9 @@ class ElasticSearchService:
             # 3. Delete Elasticsearch index and its DB record
             logger.debug(f"Step 3/4: Deleting Elasticsearch index '{index_name}' and its database record.")
             delete_index_result = await ElasticSearchService.delete_index(index_name, es_core, user_id)
+            # The sources of the knowledge base stop syncing with it
+            delete_sources_by_index(index_name, tenant_id, user_id)
+            delete_attributes_by_index(index_name, user_id)
 
             # 4. Clean up Redis records related to this knowledge base
             logger.debug(f"Step 4/4: Cleaning up Redis records for index '{index_name}'.")
@@ -430,6 +447,8 @@ class ElasticSearchService:
 
             # Transform indexing request results to documents
             documents = []
+            # Position of the next chunk of each document, chunks arrive in the order they appear in it
+            positions = {}
 
             for idx, item in enumerate(data):
                 # All items should be dictionaries
@@ -455,6 +474,9 @@ class ElasticSearchService:
                     import datetime
                     create_time = datetime.datetime.fromtimestamp(create_time).isoformat()
 
+                position = positions.get(source, 0)
+                positions[source] = position + 1
+
                 # Set embedding model name from the embedding model
                 embedding_model_name = ""
                 if embedding_model:
@@ -474,11 +496,23 @@ class ElasticSearchService:
                     "file_size": file_size,
                     "create_time": create_time,
                     "languages": metadata.get("languages", []),
-                    "embedding_model_name": embedding_model_name
+                    "embedding_model_name": embedding_model_name,
+                    "position": position,
+                    "page": metadata.get("page_number")
                 }
 
                 documents.append(document)
 
+            # The metadata and visibility set at upload or edited later are stamped on every chunk, the
+            # searches filter on them
+            attributes = get_document_attributes(index_name, list(positions))
+            if attributes:
+                es_core.ensure_document_attribute_mapping(index_name)
+            for document in documents:
+                if document["path_or_url"] in attributes:
+                    document["doc_metadata"] = attributes[document["path_or_url"]]["metadata"]
+                    document["visibility"] = attributes[document["path_or_url"]]["visibility"]
+
             total_submitted = len(documents)
             if total_submitted == 0:
                 return {
@@ -538,6 +572,7 @@ class ElasticSearchService:
             celery_task_files = await get_all_files_status(index_name)
             # Create a set of path_or_urls from existing files for quick lookup
             existing_paths = {file_info.get('path_or_url') for file_info in existing_files}
+            attributes = get_document_attributes(index_name)
 
             # For files already stored in ES, add to files list
             for file_info in existing_files:
@@ -549,6 +584,7 @@ class ElasticSearchService:
                     'status': "COMPLETED",
                     'latest_task_id': ''
                 }
+                file_data.update(attributes.get(file_data['path_or_url'], {}))
                 files.append(file_data)
 
             # For files not yet stored in ES (files currently being processed)
@@ -580,6 +616,7 @@ class ElasticSearchService:
                         'status': status_dict.get('state', 'UNKNOWN'),
                         'latest_task_id': status_dict.get('latest_task_id', '')
                     }
+                    file_data.update(attributes.get(path_or_url, {}))
                     files.append(file_data)
 
             # Unified chunks processing for all files
@@ -650,10 +687,207 @@ class ElasticSearchService:
     ):
         # 1. Delete ES documents
         deleted_count = es_core.delete_documents_by_path_or_url(index_name, path_or_url)
+        delete_document_attributes(index_name, path_or_url)
         # 2. Delete MinIO file
         minio_result = delete_file(path_or_url)
         return {"status": "success", "deleted_es_count": deleted_count, "deleted_minio": minio_result.get("success")}
 
+    @staticmethod
+    def _chunk_view(chunk: Dict[str, Any], position: int) -> Dict[str, Any]:
+        content = chunk.get("content") or ""
+        return {
+            "id": chunk["chunk_id"],
+            "content": content,
+            "position": position,
+            "page": chunk.get("page"),
+            "token_count": count_tokens(content),
+            "metadata": chunk.get("chunk_metadata") or {},
+            "edited": bool(chunk.get("edited"))
+        }
+
+    @staticmethod
+    def _new_chunk(template: Dict[str, Any], content: str, metadata: Dict[str, Any], position: int) -> Dict[str, Any]:
+        """Build a chunk of the same document as the template, it gets a new id and creation time"""
+        chunk = {key: value for key, value in template.items()
+                 if key not in ("chunk_id", "id", "create_time", "embedding")}
+        chunk.update({"content": content, "chunk_metadata": metadata, "position": position, "edited": True})
+        return chunk
+
+    @staticmethod
+    def _get_chunk_or_404(index_name: str, chunk_id: str, es_core: ElasticSearchCore,
+                          audience: Optional[Dict[str, List[str]]] = None) -> Dict[str, Any]:
+        """The chunks of a document the user may not read are not found either"""
+        chunk = es_core.get_chunk(index_name, chunk_id)
+        if chunk is None or not is_document_visible(chunk.get("visibility"), audience):
+            raise HTTPException(status_code=404, detail=f"Chunk {chunk_id} not found in index {index_name}")
+        return chunk
+
+    @staticmethod
+    def _get_document_chunks_or_404(index_name: str, path_or_url: str, es_core: ElasticSearchCore,
+                                    audience: Optional[Dict[str, List[str]]] = None) -> List[Dict[str, Any]]:
+        """The chunks of a document in order, a document the user may not read is not found"""
+        chunks = es_core.get_document_chunks(index_name, path_or_url)
+        if not chunks or not is_document_visible(chunks[0].get("visibility"), audience):
+            raise HTTPException(status_code=404, detail=f"Document {path_or_url} not found in index {index_name}")
+        return chunks
+
+    @staticmethod
+    def _require_embedding_model(embedding_model: Optional[BaseEmbedding]) -> BaseEmbedding:
+        if embedding_model is None:
+            raise HTTPException(status_code=400, detail="An embedding model must be configured to edit chunks")
+        return embedding_model
+
+    @staticmethod
+    def _save_positions(index_name: str, chunks: List[Dict[str, Any]], es_core: ElasticSearchCore):
+        """Store the position of each chunk of a document as its index in the list, for the chunks that moved"""
+        es_core.update_chunk_positions(index_name, {
+            chunk["chunk_id"]: position for position, chunk in enumerate(chunks) if chunk.get("position") != position
+        })
+
+    @staticmethod
+    def list_chunks(index_name: str, path_or_url: str, es_core: ElasticSearchCore,
+                    audience: Optional[Dict[str, List[str]]] = None):
+        """
+        Get the chunks of a document in the order they appear in it
+
+        Args:
+            index_name: Name of the index
+            path_or_url: Path or URL of the document
+            es_core: ElasticSearchCore instance
+            audience: users and roles of the user, a restricted document they may not read is not found.
+                Visibility is not checked when None
+
+        Returns:
+            Dictionary containing the chunks
+        """
+        chunks = es_core.get_document_chunks(index_name, path_or_url)
+        if chunks and not is_document_visible(chunks[0].get("visibility"), audience):
+            raise HTTPException(status_code=404, detail=f"Document {path_or_url} not found in index {index_name}")
+        return {
+            "status": "success",
+            "chunks": [ElasticSearchService._chunk_view(chunk, position) for position, chunk in enumerate(chunks)]
+        }
+
+    @staticmethod
+    def update_chunk(index_name: str, chunk_id: str, content: str, metadata: Dict[str, Any],
+                     embedding_model: Optional[BaseEmbedding], es_core: ElasticSearchCore,
+                     audience: Optional[Dict[str, List[str]]] = None):
+        """
+        Replace the content and metadata of a chunk and embed it again
+
+        Returns:
+            Dictionary containing the updated chunk
+        """
+        embedding_model = ElasticSearchService._require_embedding_model(embedding_model)
+        chunk = ElasticSearchService._get_chunk_or_404(index_name, chunk_id, es_core, audience)
+        chunk_ids = [c["chunk_id"] for c in es_core.get_document_chunks(index_name, chunk["path_or_url"])]
+        position = chunk_ids.index(chunk_id)
+
+        chunk.update({"content": content, "chunk_metadata": metadata, "position": position, "edited": True})
+        es_core.save_chunk(index_name, {k: v for k, v in chunk.items() if k != "chunk_id"}, embedding_model,
+                           chunk_id=chunk_id)
+        return {"status": "success", "chunk": ElasticSearchService._chunk_view(chunk, position)}
+
+    @staticmethod
+    def delete_chunk(index_name: str, chunk_id: str, es_core: ElasticSearchCore,
+                     audience: Optional[Dict[str, List[str]]] = None):
+        """
+        Delete a chunk, the following chunks of its document move up one position
+        """
+        chunk = ElasticSearchService._get_chunk_or_404(index_name, chunk_id, es_core, audience)
+        es_core.delete_chunks(index_name, [chunk_id])
+        ElasticSearchService._save_positions(
+            index_name, es_core.get_document_chunks(index_name, chunk["path_or_url"]), es_core)
+        return {"status": "success"}
+
+    @staticmethod
+    def create_chunk(index_name: str, path_or_url: str, position: int, content: str, metadata: Dict[str, Any],
+                     embedding_model: Optional[BaseEmbedding], es_core: ElasticSearchCore,
+                     audience: Optional[Dict[str, List[str]]] = None):
+        """
+        Add a chunk to a document at a position, the chunks from that position move down one position.
+        The document fields of the new chunk are copied from its neighbour
+
+        Returns:
+            Dictionary containing the new chunk
+        """
+        embedding_model = ElasticSearchService._require_embedding_model(embedding_model)
+        chunks = ElasticSearchService._get_document_chunks_or_404(index_name, path_or_url, es_core, audience)
+        position = min(position, len(chunks))
+
+        chunk = ElasticSearchService._new_chunk(chunks[max(position - 1, 0)], content, metadata, position)
+        chunk["chunk_id"] = es_core.save_chunk(index_name, dict(chunk), embedding_model)
+        ElasticSearchService._save_positions(index_name, chunks[:position] + [chunk] + chunks[position:], es_core)
+        return {"status": "success", "chunk": ElasticSearchService._chunk_view(chunk, position)}
+
+    @staticmethod
+    def merge_chunks(index_name: str, chunk_ids: List[str], embedding_model: Optional[BaseEmbedding],
+                     es_core: ElasticSearchCore, audience: Optional[Dict[str, List[str]]] = None):
+        """
+        Merge adjacent chunks of a document into the first one, their contents are joined in order.
+        Metadata keys of the first chunk win over the ones of the following chunks
+
+        Returns:
+            Dictionary containing the merged chunk
+        """
+        embedding_model = ElasticSearchService._require_embedding_model(embedding_model)
+        if len(set(chunk_ids)) < 2:
+            raise HTTPException(status_code=400, detail="At least two different chunks are required to merge")
+        first = ElasticSearchService._get_chunk_or_404(index_name, chunk_ids[0], es_core, audience)
+        chunks = es_core.get_document_chunks(index_name, first["path_or_url"])
+        positions = {chunk["chunk_id"]: position for position, chunk in enumerate(chunks)}
+        if any(chunk_id not in positions for chunk_id in chunk_ids):
+            raise HTTPException(status_code=400, detail="Only chunks of the same document can be merged")
+        merged_positions = sorted({positions[chunk_id] for chunk_id in chunk_ids})
+        if merged_positions[-1] - merged_positions[0] != len(merged_positions) - 1:
+            raise HTTPException(status_code=400, detail="Only adjacent chunks can be merged")
+
+        merged = [chunks[position] for position in merged_positions]
+        metadata = {}
+        for chunk in reversed(merged):
+            metadata.update(chunk.get("chunk_metadata") or {})
+        target = merged[0]
+        target.update({"content": "\n".join(chunk.get("content") or "" for chunk in merged),
+                       "chunk_metadata": metadata, "position": merged_positions[0], "edited": True})
+        es_core.save_chunk(index_name, {k: v for k, v in target.items() if k != "chunk_id"}, embedding_model,
+                           chunk_id=target["chunk_id"])
+        es_core.delete_chunks(index_name, [chunk["chunk_id"] for chunk in merged[1:]])
+        ElasticSearchService._save_positions(
+            index_name, chunks[:merged_positions[0] + 1] + chunks[merged_positions[-1] + 1:], es_core)
+        return {"status": "success", "chunk": ElasticSearchService._chunk_view(target, merged_positions[0])}
+
+    @staticmethod
+    def split_chunk(index_name: str, chunk_id: str, offset: int, embedding_model: Optional[BaseEmbedding],
+                    es_core: ElasticSearchCore, audience: Optional[Dict[str, List[str]]] = None):
+        """
+        Split a chunk in two at a character offset of its content, the second part becomes a new chunk
+        right after it with the same metadata
+
+        Returns:
+            Dictionary containing the two chunks
+        """
+        embedding_model = ElasticSearchService._require_embedding_model(embedding_model)
+        chunk = ElasticSearchService._get_chunk_or_404(index_name, chunk_id, es_core, audience)
+        content = chunk.get("content") or ""
+        head, tail = content[:offset].strip(), content[offset:].strip()
+        if not head or not tail:
+            raise HTTPException(status_code=400, detail="The split offset must leave content in both chunks")
+        chunks = es_core.get_document_chunks(index_name, chunk["path_or_url"])
+        position = [c["chunk_id"] for c in chunks].index(chunk_id)
+
+        chunk.update({"content": head, "position": position, "edited": True})
+        es_core.save_chunk(index_name, {k: v for k, v in chunk.items() if k != "chunk_id"}, embedding_model,
+                           chunk_id=chunk_id)
+        second = ElasticSearchService._new_chunk(chunk, tail, chunk.get("chunk_metadata") or {}, position + 1)
+        second["chunk_id"] = es_core.save_chunk(index_name, dict(second), embedding_model)
+        ElasticSearchService._save_positions(
+            index_name, chunks[:position + 1] + [second] + chunks[position + 1:], es_core)
+        return {
+            "status": "success",
+            "chunks": [ElasticSearchService._chunk_view(chunk, position),
+                       ElasticSearchService._chunk_view(second, position + 1)]
+        }
+
     @staticmethod
     def health_check(es_core: ElasticSearchCore = Depends(get_es_core)):
         """
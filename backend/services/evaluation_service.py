@@ -0,0 +1,155 @@
+import json
+import logging
+import re
+from typing import Any, Dict, List
+
+from fastapi import HTTPException
+from jinja2 import StrictUndefined, Template
+from smolagents import OpenAIServerModel
+
+from consts.model import EvaluationJudgeRequest, EvaluationReportRequest, EvaluationSuiteRequest
+from database.agent_db import search_agent_info_by_agent_id
+from database.evaluation_db import create_report, create_suite, delete_suite, get_report_list, get_suite, \
+    get_suite_list, update_suite
+from database.model_management_db import get_model_by_display_name
+from utils.config_utils import get_model_name_from_config, tenant_config_manager
+from utils.prompt_template_utils import get_evaluation_judge_prompt_template
+from utils.str_utils import add_no_think_token, remove_think_tags
+
+logger = logging.getLogger("evaluation_service")
+
+JSON_OBJECT_PATTERN = re.compile(r"\{.*\}", re.DOTALL)
+THINK_PATTERN = re.compile(r"<think>.*?</think>", re.DOTALL)
+
+
+def _check_agent(agent_id: int, tenant_id: str):
+    try:
+        search_agent_info_by_agent_id(agent_id, tenant_id)
+    except ValueError:
+        raise HTTPException(status_code=404, detail=f"Agent {agent_id} does not exist")
+
+
+def _check_suite(suite_id: int, tenant_id: str) -> Dict[str, Any]:
+    suite = get_suite(suite_id, tenant_id)
+    if suite is None:
+        raise HTTPException(status_code=404, detail=f"Evaluation suite {suite_id} does not exist or has been deleted")
+    return suite
+
+
+def list_suites_service(agent_id: int, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the evaluation suites of an agent, newest first
+    """
+    return get_suite_list(agent_id, tenant_id)
+
+
+def save_suite_service(request: EvaluationSuiteRequest, tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Create an evaluation suite, or replace the name and the cases of the suite with the given id
+
+    Args:
+        request: EvaluationSuiteRequest object
+        tenant_id: Tenant ID, the agent must belong to it
+        user_id: User ID
+
+    Returns:
+        Dict[str, Any]: The saved suite
+    """
+    name = request.name.strip()
+    if not name:
+        raise HTTPException(status_code=400, detail="Suite name must not be empty")
+    case_ids = [case.id for case in request.cases]
+    if len(set(case_ids)) != len(case_ids):
+        raise HTTPException(status_code=400, detail="Case ids must be unique within a suite")
+    cases = [case.model_dump() for case in request.cases]
+
+    if request.suite_id is None:
+        _check_agent(request.agent_id, tenant_id)
+        return create_suite(request.agent_id, name, cases, tenant_id, user_id)
+
+    if _check_suite(request.suite_id, tenant_id)["agent_id"] != request.agent_id:
+        raise HTTPException(status_code=400, detail="A suite can not be moved to another agent")
+    return update_suite(request.suite_id, name, cases, tenant_id, user_id)
+
+
+def delete_suite_service(suite_id: int, tenant_id: str, user_id: str) -> bool:
+    """
+    Delete an evaluation suite together with its reports
+    """
+    if not delete_suite(suite_id, tenant_id, user_id):
+        raise HTTPException(status_code=404, detail=f"Evaluation suite {suite_id} does not exist or has been deleted")
+    return True
+
+
+def list_reports_service(suite_id: int, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the reports of an evaluation suite, newest first
+    """
+    _check_suite(suite_id, tenant_id)
+    return get_report_list(suite_id, tenant_id)
+
+
+def save_report_service(request: EvaluationReportRequest, tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Keep the report of a run of an evaluation suite, later runs are compared with it
+    """
+    if _check_suite(request.suite_id, tenant_id)["agent_id"] != request.agent_id:
+        raise HTTPException(status_code=400, detail=f"Evaluation suite {request.suite_id} does not belong to agent "
+                                                    f"{request.agent_id}")
+    results = [result.model_dump() for result in request.results]
+    return create_report(request.suite_id, request.agent_id, request.version_no, results, tenant_id, user_id)
+
+
+def parse_judge_verdict(content: str) -> Dict[str, Any]:
+    """
+    Read the verdict of the judge model: the JSON object of its answer, with passed and reason
+    """
+    # Reasoning models may think aloud before the verdict, braces in their thoughts must not be taken for it
+    match = JSON_OBJECT_PATTERN.search(remove_think_tags(THINK_PATTERN.sub("", content)))
+    if match is None:
+        raise ValueError(f"The judge model did not return a verdict: {content}")
+    try:
+        verdict = json.loads(match.group(0))
+    except json.JSONDecodeError:
+        raise ValueError(f"The judge model returned an invalid verdict: {content}")
+    if not isinstance(verdict, dict) or not isinstance(verdict.get("passed"), bool):
+        raise ValueError(f"The judge model returned an invalid verdict: {content}")
+    return {"passed": verdict["passed"], "reason": str(verdict.get("reason") or "")}
+
+
+def judge_answer_service(request: EvaluationJudgeRequest, tenant_id: str, language: str = 'zh') -> Dict[str, Any]:
+    """
+    Ask a model whether an answer satisfies the expectation of a case
+
+    Args:
+        request: EvaluationJudgeRequest object
+        tenant_id: Tenant ID
+        language: Language code ('zh' for Chinese, 'en' for English)
+
+    Returns:
+        Dict[str, Any]: Verdict with passed and reason
+    """
+    model_config = get_model_by_display_name(request.model_display_name, tenant_id) \
+        if request.model_display_name else None
+    if not model_config:
+        model_config = tenant_config_manager.get_model_config(key="LLM_SECONDARY_ID", tenant_id=tenant_id)
+    if not model_config.get("model_name"):
+        raise HTTPException(status_code=400, detail="No model is configured to judge answers")
+
+    llm = OpenAIServerModel(model_id=get_model_name_from_config(model_config), api_base=model_config.get("base_url", ""),
+                            api_key=model_config.get("api_key", ""), temperature=0, top_p=0.95)
+
+    prompt_template = get_evaluation_judge_prompt_template(language=language)
+    user_prompt = Template(prompt_template["USER_PROMPT"], undefined=StrictUndefined).render({
+        "question": request.question,
+        "expected": request.expected,
+        "answer": request.answer
+    })
+    messages = [{"role": "system",
+                 "content": prompt_template["SYSTEM_PROMPT"]},
+                {"role": "user",
+                 "content": user_prompt}]
+    add_no_think_token(messages)
+
+    response = llm(messages, max_tokens=300)
+    return parse_judge_verdict(response.content)
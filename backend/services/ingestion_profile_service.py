@@ -0,0 +1,105 @@
+import logging
+from typing import Any, Dict, Optional
+
+from fastapi import HTTPException
+
+from consts.model import IngestionProfile, ProcessParams
+from database.knowledge_db import get_knowledge_record, update_ingestion_profile
+from database.knowledge_source_db import get_source_documents, get_source_list
+from services.elasticsearch_service import count_tokens
+from services.knowledge_source_service import start_source_sync
+from utils.file_management_utils import trigger_data_process
+from utils.ingestion_profile_utils import split_document, to_processing_params
+
+logger = logging.getLogger("ingestion_profile_service")
+
+
+def _get_record(index_name: str, tenant_id: Optional[str]) -> Dict[str, Any]:
+    record = get_knowledge_record({"index_name": index_name, "tenant_id": tenant_id})
+    if not record:
+        raise HTTPException(status_code=404, detail=f"Knowledge base {index_name} does not exist")
+    return record
+
+
+def get_ingestion_profile_service(index_name: str, tenant_id: str) -> Dict[str, Any]:
+    """
+    Get how the documents of a knowledge base are parsed and chunked, the defaults until a profile is saved
+    """
+    return _get_record(index_name, tenant_id).get("ingestion_profile") or IngestionProfile().model_dump()
+
+
+def save_ingestion_profile_service(index_name: str, profile: IngestionProfile, tenant_id: str, user_id: str):
+    """
+    Save the profile of a knowledge base, the documents processed before keep their chunks until they are
+    reprocessed
+    """
+    if not update_ingestion_profile(index_name, profile.model_dump(), tenant_id, user_id):
+        raise HTTPException(status_code=404, detail=f"Knowledge base {index_name} does not exist")
+
+
+def preview_chunking_service(index_name: str, filename: str, content: bytes, profile: str) -> Dict[str, Any]:
+    """
+    Split a sample file the way the profile would, without adding it to the knowledge base
+
+    Args:
+        index_name: Index name of the knowledge base
+        filename: Name of the sample file, its extension gives the format
+        content: Content of the sample file
+        profile: The profile, as JSON
+
+    Returns:
+        Dict[str, Any]: The chunks with their page and token count, and the tokens of all chunks
+    """
+    _get_record(index_name, None)
+    try:
+        profile = IngestionProfile.model_validate_json(profile)
+    except ValueError as e:
+        raise HTTPException(status_code=400, detail=f"Invalid ingestion profile: {str(e)}")
+    try:
+        chunks = split_document(filename, content, profile.model_dump())
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=f"Error splitting {filename}: {str(e)}")
+    chunks = [{**chunk, "token_count": count_tokens(chunk["content"])} for chunk in chunks]
+    return {"chunks": chunks, "total_tokens": sum(chunk["token_count"] for chunk in chunks)}
+
+
+async def reprocess_service(index_name: str, tenant_id: str, authorization: Optional[str],
+                            es_core) -> Dict[str, Any]:
+    """
+    Parse and chunk all documents of a knowledge base again with its current profile. The uploaded files are
+    sent to the data process again and the sources are synced again, documents included whose content did
+    not change
+
+    Returns:
+        Dict[str, Any]: The number of uploaded documents and of sources being reprocessed
+    """
+    profile = _get_record(index_name, tenant_id).get("ingestion_profile")
+    sources = get_source_list(index_name, tenant_id)
+    synced = set()
+    for source in sources:
+        synced.update(get_source_documents(source["source_id"]))
+
+    files = [file for file in es_core.get_file_list_with_details(index_name) if file["path_or_url"] not in synced]
+    if files:
+        chunking_strategy, params = to_processing_params(profile) if profile else ("basic", {})
+        result = await trigger_data_process(files, ProcessParams(
+            chunking_strategy=chunking_strategy,
+            source_type="minio",
+            index_name=index_name,
+            authorization=authorization,
+            additional_params=params
+        ))
+        if isinstance(result, dict) and result.get("status") == "error":
+            raise HTTPException(status_code=500, detail=result.get("message", "Data process service failed"))
+        # The old chunks are removed once the tasks are queued, the new ones are indexed when the tasks finish
+        for file in files:
+            es_core.delete_documents_by_path_or_url(index_name, file["path_or_url"])
+
+    started = 0
+    for source in sources:
+        try:
+            start_source_sync(source, force=True)
+            started += 1
+        except HTTPException:
+            logger.info(f"Source {source['source_id']} is already syncing, it is not reprocessed")
+    return {"documents": len(files), "sources": started}
@@ -0,0 +1,467 @@
+import asyncio
+import hashlib
+import ipaddress
+import logging
+import mimetypes
+import os
+import socket
+import xml.etree.ElementTree as ElementTree
+from dataclasses import dataclass
+from datetime import datetime, timedelta, timezone
+from typing import Any, Callable, Dict, List, Optional, Tuple
+from urllib.parse import urljoin, urlparse
+
+import requests
+from fastapi import HTTPException
+
+from consts.const import SOURCE_ALLOW_PRIVATE_URLS, SOURCE_FOLDER_ROOT
+from consts.model import KnowledgeSourceRequest
+from database.attachment_db import get_file_stream, list_files
+from database.knowledge_db import get_knowledge_record
+from database.knowledge_document_db import delete_document_attributes
+from database.knowledge_source_db import claim_source_sync, create_source, create_sync_run, delete_source, \
+    delete_source_documents, finish_sync_run, get_document_counts, get_due_sources, get_latest_runs, get_source, \
+    get_source_documents, get_source_list, save_source_document, update_source
+from services.elasticsearch_service import ElasticSearchService, get_embedding_model, get_es_core
+from utils.ingestion_profile_utils import split_document
+
+logger = logging.getLogger("knowledge_source_service")
+
+SYNC_INTERVALS = {
+    "hourly": timedelta(hours=1),
+    "daily": timedelta(days=1),
+    "weekly": timedelta(weeks=1)
+}
+
+# Seconds between two checks for sources due for an automatic sync
+SOURCE_SCHEDULER_INTERVAL = 60
+
+# Seconds to wait for a document to download
+FETCH_TIMEOUT = 30
+
+# Redirects followed at most when a document downloads
+MAX_REDIRECTS = 5
+
+# Documents synced from a source at most, the rest of a large sitemap, folder or bucket is left out
+MAX_SOURCE_DOCUMENTS = 1000
+
+# Sitemap indexes are followed this deep at most, and URLs are read from sitemaps up to this count
+MAX_SITEMAP_DEPTH = 3
+MAX_SITEMAP_URLS = 10000
+
+# Syncs running in this worker, keyed by source id
+_sync_tasks: Dict[int, asyncio.Task] = {}
+
+
+@dataclass
+class SourceItem:
+    # path_or_url of the chunks of the document in the index
+    path_or_url: str
+    # source_type of the chunks, how the document was fetched
+    source_type: str
+    # Downloads the document, returns its content and its file name
+    load: Callable[[], Tuple[bytes, str]]
+
+
+def _utc_now() -> datetime:
+    return datetime.now(timezone.utc)
+
+
+def _to_db_time(time: Optional[datetime]) -> Optional[datetime]:
+    """times are stored in UTC without timezone"""
+    return None if time is None else time.astimezone(timezone.utc).replace(tzinfo=None)
+
+
+def _next_sync_time(sync_interval: str, start: datetime) -> Optional[datetime]:
+    """next automatic sync as stored, None for sources synced manually"""
+    interval = SYNC_INTERVALS.get(sync_interval)
+    return None if interval is None else _to_db_time(start + interval)
+
+
+def _folder_path(path: str) -> str:
+    """absolute path of a folder source, which must be under SOURCE_FOLDER_ROOT"""
+    root = os.path.realpath(SOURCE_FOLDER_ROOT)
+    folder = os.path.realpath(os.path.join(root, path))
+    if os.path.commonpath([root, folder]) != root:
+        raise ValueError(f"Folder {path} is outside of {SOURCE_FOLDER_ROOT}")
+    return folder
+
+
+def _is_http_url(url: Any) -> bool:
+    return isinstance(url, str) and urlparse(url).scheme in ("http", "https") and bool(urlparse(url).netloc)
+
+
+def _normalize_config(source_type: str, config: Dict[str, Any]) -> Dict[str, Any]:
+    """
+    Keep the settings of the source type, a source that could not be fetched is rejected with 400
+    """
+    if source_type == "urls":
+        urls = [url.strip() for url in config.get("urls") or [] if isinstance(url, str) and url.strip()]
+        if not urls or not all(map(_is_http_url, urls)):
+            raise HTTPException(status_code=400, detail="Enter one or more http or https URLs")
+        return {"urls": list(dict.fromkeys(urls))}
+
+    if source_type == "sitemap":
+        if not _is_http_url(config.get("sitemap_url")):
+            raise HTTPException(status_code=400, detail="Enter the http or https URL of the sitemap")
+        return {"sitemap_url": config["sitemap_url"].strip(), "include_pattern": config.get("include_pattern") or ""}
+
+    if source_type == "folder":
+        path = (config.get("path") or "").strip()
+        if not path:
+            raise HTTPException(status_code=400, detail="Enter the folder path")
+        try:
+            _folder_path(path)
+        except ValueError as e:
+            raise HTTPException(status_code=400, detail=str(e))
+        return {"path": path, "recursive": bool(config.get("recursive"))}
+
+    bucket = (config.get("bucket") or "").strip()
+    if not bucket:
+        raise HTTPException(status_code=400, detail="Enter the bucket")
+    # The prefix is read under the folder of the tenant, see _bucket_items
+    return {"bucket": bucket, "prefix": (config.get("prefix") or "").lstrip("/")}
+
+
+def _url_filename(url: str, content_type: str) -> str:
+    """name of the file a URL is processed as, the content type gives the extension when the URL has none"""
+    name = os.path.basename(urlparse(url).path.rstrip("/")) or urlparse(url).netloc
+    if not os.path.splitext(name)[1]:
+        name += mimetypes.guess_extension(content_type.split(";")[0].strip()) or ".html"
+    return name
+
+
+def _check_public_url(url: str):
+    """
+    Refuse a URL whose host resolves to a private, loopback, link-local or reserved address, so that sources
+    can't reach the services of the internal network. SOURCE_ALLOW_PRIVATE_URLS lifts the check
+    """
+    if SOURCE_ALLOW_PRIVATE_URLS:
+        return
+    parsed = urlparse(url)
+    if not _is_http_url(url) or not parsed.hostname:
+        raise ValueError(f"{url} is not an http or https URL")
+    try:
+        addresses = socket.getaddrinfo(parsed.hostname, parsed.port or (443 if parsed.scheme == "https" else 80),
+                                       proto=socket.IPPROTO_TCP)
+    except socket.gaierror as e:
+        raise ValueError(f"Failed to resolve {parsed.hostname}: {str(e)}")
+    for address in addresses:
+        ip = ipaddress.ip_address(address[4][0].split("%")[0])
+        if not ip.is_global or ip.is_multicast:
+            raise ValueError(f"{url} resolves to the non-public address {ip}")
+
+
+def _fetch_url(url: str) -> Tuple[bytes, str]:
+    # Redirects are followed one at a time, so that the address of each one is checked
+    location = url
+    for _ in range(MAX_REDIRECTS + 1):
+        _check_public_url(location)
+        response = requests.get(location, timeout=FETCH_TIMEOUT, allow_redirects=False)
+        if not response.is_redirect:
+            response.raise_for_status()
+            return response.content, _url_filename(url, response.headers.get("content-type", ""))
+        location = urljoin(location, response.headers["location"])
+    raise ValueError(f"{url} redirects more than {MAX_REDIRECTS} times")
+
+
+def _url_item(url: str) -> SourceItem:
+    return SourceItem(path_or_url=url, source_type="url", load=lambda: _fetch_url(url))
+
+
+def _sitemap_urls(sitemap_url: str, depth: int = 0, visited: Optional[set] = None) -> List[str]:
+    """
+    URLs listed by a sitemap, the sitemaps of a sitemap index are read as well, MAX_SITEMAP_DEPTH deep at most.
+    A sitemap is read once and the URLs stop at MAX_SITEMAP_URLS
+    """
+    visited = set() if visited is None else visited
+    visited.add(sitemap_url)
+    root = ElementTree.fromstring(_fetch_url(sitemap_url)[0])
+    locations = [element.text.strip() for element in root.iter() if element.tag.endswith("loc") and element.text]
+    if not root.tag.endswith("sitemapindex"):
+        return locations[:MAX_SITEMAP_URLS]
+    if depth >= MAX_SITEMAP_DEPTH:
+        logger.warning(f"Sitemap index {sitemap_url} is nested more than {MAX_SITEMAP_DEPTH} deep, left out")
+        return []
+
+    urls = []
+    for location in locations:
+        if len(urls) >= MAX_SITEMAP_URLS:
+            logger.warning(f"Sitemap {sitemap_url} lists more than {MAX_SITEMAP_URLS} URLs, the rest is left out")
+            break
+        if location not in visited:
+            urls.extend(_sitemap_urls(location, depth + 1, visited))
+    return urls[:MAX_SITEMAP_URLS]
+
+
+def _folder_items(path: str, recursive: bool) -> List[SourceItem]:
+    folder = _folder_path(path)
+    if not os.path.isdir(folder):
+        raise ValueError(f"Folder {path} does not exist")
+
+    def read_file(file_path: str) -> Tuple[bytes, str]:
+        with open(file_path, "rb") as file:
+            return file.read(), os.path.basename(file_path)
+
+    items = []
+    for directory, subdirectories, files in os.walk(folder):
+        subdirectories[:] = sorted(name for name in subdirectories if recursive and not name.startswith("."))
+        for name in sorted(files):
+            if not name.startswith("."):
+                file_path = os.path.join(directory, name)
+                items.append(SourceItem(path_or_url=file_path, source_type="local",
+                                        load=lambda file_path=file_path: read_file(file_path)))
+    return items
+
+
+def _bucket_items(bucket: str, prefix: str, tenant_id: str) -> List[SourceItem]:
+    """
+    Objects of a bucket under the folder of the tenant, a source can't read the objects of other tenants
+    """
+    def read_object(key: str) -> Tuple[bytes, str]:
+        stream = get_file_stream(key, bucket)
+        if stream is None:
+            raise ValueError(f"Failed to read {key} from bucket {bucket}")
+        return stream.read(), os.path.basename(key)
+
+    return [SourceItem(path_or_url=f"minio://{bucket}/{file['key']}", source_type="minio",
+                       load=lambda key=file["key"]: read_object(key))
+            for file in list_files(f"{tenant_id}/{prefix.lstrip('/')}", bucket) if not file["key"].endswith("/")]
+
+
+def _collect_items(source_type: str, config: Dict[str, Any], tenant_id: str) -> List[SourceItem]:
+    """
+    List the documents a source has now. Raises when the source can't be listed, so that a source
+    that is down does not empty the knowledge base
+    """
+    if source_type == "urls":
+        items = [_url_item(url) for url in config["urls"]]
+    elif source_type == "sitemap":
+        pattern = config.get("include_pattern") or ""
+        items = [_url_item(url) for url in dict.fromkeys(_sitemap_urls(config["sitemap_url"])) if pattern in url]
+    elif source_type == "folder":
+        items = _folder_items(config["path"], config.get("recursive", False))
+    else:
+        items = _bucket_items(config["bucket"], config.get("prefix") or "", tenant_id)
+
+    if len(items) > MAX_SOURCE_DOCUMENTS:
+        logger.warning(f"Source lists {len(items)} documents, only the first {MAX_SOURCE_DOCUMENTS} are synced")
+    return items[:MAX_SOURCE_DOCUMENTS]
+
+
+def _index_item(source: Dict[str, Any], item: SourceItem, filename: str, content: bytes, replace: bool,
+                profile: Optional[Dict[str, Any]], embedding_model, es_core):
+    chunks = split_document(filename, content, profile)
+    if not chunks:
+        raise ValueError(f"No text was extracted from {item.path_or_url}")
+
+    # The chunks of the previous version are only removed once the new version could be processed
+    if replace:
+        es_core.delete_documents_by_path_or_url(source["index_name"], item.path_or_url)
+    ElasticSearchService.index_documents(embedding_model, source["index_name"], [{
+        "path_or_url": item.path_or_url,
+        "source_type": item.source_type,
+        "filename": filename,
+        "file_size": len(content),
+        "content": chunk["content"],
+        "metadata": {"title": filename}
+    } for chunk in chunks], es_core)
+
+
+def _sync_source(source: Dict[str, Any], run_id: int, force: bool = False):
+    """
+    Sync the documents of a knowledge base with its source. A document is processed again only when the
+    hash of its content changed, or with force when the ingestion profile changed. Documents that are no
+    longer in the source are removed from the index
+    """
+    counts = {"added": 0, "updated": 0, "removed": 0, "unchanged": 0, "failed": 0}
+    try:
+        embedding_model = get_embedding_model(source["tenant_id"])
+        if embedding_model is None:
+            raise ValueError("An embedding model must be configured to sync sources")
+        es_core = get_es_core()
+        synced = get_source_documents(source["source_id"])
+        profile = get_knowledge_record({"index_name": source["index_name"],
+                                        "tenant_id": source["tenant_id"]}).get("ingestion_profile")
+        items = _collect_items(source["type"], source["config"], source["tenant_id"])
+
+        for item in items:
+            try:
+                content, filename = item.load()
+                content_hash = hashlib.sha256(content).hexdigest()
+                if not force and synced.get(item.path_or_url) == content_hash:
+                    counts["unchanged"] += 1
+                    continue
+                _index_item(source, item, filename, content, item.path_or_url in synced, profile, embedding_model,
+                            es_core)
+                save_source_document(source["source_id"], item.path_or_url, content_hash, source["tenant_id"],
+                                     source["user_id"])
+                counts["updated" if item.path_or_url in synced else "added"] += 1
+            except Exception as e:
+                # The document keeps its chunks from the last sync
+                logger.warning(f"Failed to sync {item.path_or_url} of source {source['source_id']}: {str(e)}")
+                counts["failed"] += 1
+
+        listed = {item.path_or_url for item in items}
+        removed = [path_or_url for path_or_url in synced if path_or_url not in listed]
+        for path_or_url in removed:
+            es_core.delete_documents_by_path_or_url(source["index_name"], path_or_url)
+            delete_document_attributes(source["index_name"], path_or_url, source["user_id"])
+        delete_source_documents(source["source_id"], removed, source["user_id"])
+        counts["removed"] = len(removed)
+
+        finish_sync_run(run_id, {"status": "success", "end_time": _to_db_time(_utc_now()), **counts})
+    except Exception as e:
+        logger.error(f"Failed to sync source {source['source_id']}: {str(e)}")
+        finish_sync_run(run_id, {"status": "failed", "end_time": _to_db_time(_utc_now()), "error": str(e),
+                                 **counts})
+
+
+async def _run_sync(source: Dict[str, Any], run_id: int, force: bool):
+    try:
+        await asyncio.to_thread(_sync_source, source, run_id, force)
+    finally:
+        _sync_tasks.pop(source["source_id"], None)
+
+
+def start_source_sync(source: Dict[str, Any], force: bool = False) -> Dict[str, Any]:
+    """
+    Start a sync of a source in the background, with force the unchanged documents are processed again too
+
+    Returns:
+        Dict[str, Any]: The sync run, running
+    """
+    if source["source_id"] in _sync_tasks:
+        raise HTTPException(status_code=409, detail=f"Source {source['source_id']} is already syncing")
+    run = create_sync_run(source["source_id"], _to_db_time(_utc_now()), source["tenant_id"], source["user_id"])
+    _sync_tasks[source["source_id"]] = asyncio.create_task(_run_sync(source, run["run_id"], force))
+    return run
+
+
+def _source_view(source: Dict[str, Any], document_count: int, last_sync: Optional[Dict[str, Any]]) -> Dict[str, Any]:
+    return {
+        "source_id": source["source_id"],
+        "name": source["name"],
+        "type": source["type"],
+        "config": source["config"],
+        "sync_interval": source["sync_interval"],
+        "document_count": document_count,
+        "last_sync": last_sync,
+        "next_sync_time": source["next_sync_time"]
+    }
+
+
+def _check_source(source_id: int, index_name: str, tenant_id: str) -> Dict[str, Any]:
+    source = get_source(source_id, index_name, tenant_id)
+    if source is None:
+        raise HTTPException(status_code=404, detail=f"Source {source_id} does not exist or has been deleted")
+    return source
+
+
+def list_sources_service(index_name: str, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the sources of a knowledge base with their document count and their latest sync
+    """
+    sources = get_source_list(index_name, tenant_id)
+    source_ids = [source["source_id"] for source in sources]
+    counts = get_document_counts(source_ids)
+    runs = get_latest_runs(source_ids, tenant_id)
+    return [_source_view(source, counts.get(source["source_id"], 0), runs.get(source["source_id"]))
+            for source in sources]
+
+
+def create_source_service(index_name: str, request: KnowledgeSourceRequest, tenant_id: str,
+                          user_id: str) -> Dict[str, Any]:
+    """
+    Add a source to a knowledge base. A source synced automatically is due right away, the others are
+    synced when the user asks
+
+    Args:
+        index_name: Index name of the knowledge base
+        request: Name, type, config and sync interval of the source
+        tenant_id: Tenant ID
+        user_id: User ID of the creator
+
+    Returns:
+        Dict[str, Any]: The source
+    """
+    if not get_knowledge_record({"index_name": index_name, "tenant_id": tenant_id}):
+        raise HTTPException(status_code=404, detail=f"Knowledge base {index_name} does not exist")
+    source = create_source({
+        "index_name": index_name,
+        "source_name": request.name,
+        "source_type": request.type,
+        "config": _normalize_config(request.type, request.config),
+        "sync_interval": request.sync_interval,
+        "next_sync_time": _to_db_time(_utc_now()) if request.sync_interval in SYNC_INTERVALS else None
+    }, tenant_id, user_id)
+    return _source_view(source, 0, None)
+
+
+def update_source_service(index_name: str, source_id: int, request: KnowledgeSourceRequest, tenant_id: str,
+                          user_id: str) -> Dict[str, Any]:
+    """
+    Update a source, the documents follow the new settings on its next sync. A new sync interval counts
+    from now
+    """
+    current = _check_source(source_id, index_name, tenant_id)
+    values = {
+        "source_name": request.name,
+        "source_type": request.type,
+        "config": _normalize_config(request.type, request.config),
+        "sync_interval": request.sync_interval
+    }
+    if request.sync_interval != current["sync_interval"]:
+        values["next_sync_time"] = _next_sync_time(request.sync_interval, _utc_now())
+    source = update_source(source_id, index_name, values, tenant_id, user_id)
+    if source is None:
+        raise HTTPException(status_code=404, detail=f"Source {source_id} does not exist or has been deleted")
+    return _source_view(source, get_document_counts([source_id]).get(source_id, 0),
+                        get_latest_runs([source_id], tenant_id).get(source_id))
+
+
+def delete_source_service(index_name: str, source_id: int, tenant_id: str, user_id: str, es_core):
+    """
+    Delete a source together with the documents synced from it
+    """
+    _check_source(source_id, index_name, tenant_id)
+    if source_id in _sync_tasks:
+        raise HTTPException(status_code=409, detail=f"Source {source_id} is syncing, delete it once it finished")
+    for path_or_url in get_source_documents(source_id):
+        es_core.delete_documents_by_path_or_url(index_name, path_or_url)
+        delete_document_attributes(index_name, path_or_url, user_id)
+    delete_source(source_id, tenant_id, user_id)
+
+
+def sync_source_service(index_name: str, source_id: int, tenant_id: str) -> Dict[str, Any]:
+    """
+    Start syncing a source right away, whatever its sync interval
+    """
+    return start_source_sync(_check_source(source_id, index_name, tenant_id))
+
+
+async def run_due_source_syncs():
+    """
+    Start the syncs of the sources whose time has come. A source is claimed before it syncs, so that it
+    syncs once when several workers check at the same time
+    """
+    for source in get_due_sources(_to_db_time(_utc_now())):
+        next_sync_time = _next_sync_time(source["sync_interval"], _utc_now())
+        if not claim_source_sync(source["source_id"], source["due_time"], next_sync_time):
+            continue
+        try:
+            start_source_sync(source)
+        except Exception as e:
+            logger.warning(f"Failed to sync source {source['source_id']}: {str(e)}")
+
+
+async def run_source_scheduler():
+    """
+    Check for sources due for an automatic sync until cancelled
+    """
+    while True:
+        try:
+            await run_due_source_syncs()
+        except Exception as e:
+            logger.error(f"Failed to sync due sources: {str(e)}")
+        await asyncio.sleep(SOURCE_SCHEDULER_INTERVAL)
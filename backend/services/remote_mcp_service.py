@@ -1,55 +1,222 @@
+import asyncio
+import json
 import logging
-from fastapi.responses import JSONResponse
+from datetime import datetime
+from typing import Any, Dict, List, Optional
+from urllib.parse import urljoin
 
-from database.remote_mcp_db import create_mcp_record, delete_mcp_record_by_name_and_url, get_mcp_records_by_tenant, check_mcp_name_exists
+from fastapi.responses import JSONResponse
 from fastmcp import Client
+from fastmcp.client.transports import SSETransport, StdioTransport, StreamableHttpTransport
+from mcp import StdioServerParameters
+
+from consts.const import MCP_STDIO_ALLOWED_COMMANDS
+from consts.model import McpServerConfigRequest, McpServerUpdateRequest
+from database.agent_db import query_agents_using_mcp_server
+from database.remote_mcp_db import create_mcp_record, delete_mcp_record_by_name_and_url, get_mcp_records_by_tenant, \
+    check_mcp_name_exists, get_mcp_record_by_name, update_mcp_record_by_id, update_mcp_status_by_name_and_url, \
+    add_mcp_error
+from utils.config_utils import config_manager
+
 logger = logging.getLogger("remote_mcp_service")
 
+# Connection timeout in seconds of the servers saved without one
+DEFAULT_MCP_TIMEOUT = 30
+# Connection errors kept per server
+MAX_RECENT_ERRORS = 10
 
-async def mcp_server_health(remote_mcp_server: str) -> JSONResponse:
-    try:
-        client = Client(remote_mcp_server)
+
+def _server_headers(server_config: Dict[str, Any]) -> Dict[str, str]:
+    headers = dict(server_config.get("headers") or {})
+    if server_config.get("bearer_token"):
+        headers["Authorization"] = f"Bearer {server_config['bearer_token']}"
+    return headers
+
+
+def check_stdio_command(command: str):
+    """
+    Check that a stdio MCP server may be started: its command runs on the backend host, only the commands of
+    MCP_STDIO_ALLOWED_COMMANDS are allowed
+
+    Raises:
+        PermissionError: the command is not allowed
+    """
+    if command not in MCP_STDIO_ALLOWED_COMMANDS:
+        raise PermissionError(f"The command '{command}' is not allowed for stdio MCP servers, "
+                              f"allowed commands are set with MCP_STDIO_ALLOWED_COMMANDS")
+
+
+def build_mcp_client(server_config: Dict[str, Any]) -> Client:
+    """
+    Create the client of a MCP server from its saved configuration: the columns of mcp_record_t,
+    servers saved before transports existed only have `mcp_server` and use sse
+
+    Raises:
+        PermissionError: the command of a stdio server is not allowed
+    """
+    transport = server_config.get("transport") or "sse"
+    if transport == "stdio":
+        check_stdio_command(server_config["command"])
+        client_transport = StdioTransport(command=server_config["command"], args=server_config.get("args") or [],
+                                          env=server_config.get("env") or None)
+    elif transport == "streamable_http":
+        client_transport = StreamableHttpTransport(server_config["mcp_server"], headers=_server_headers(server_config))
+    else:
+        client_transport = SSETransport(server_config["mcp_server"], headers=_server_headers(server_config))
+    return Client(client_transport, timeout=server_config.get("timeout") or DEFAULT_MCP_TIMEOUT)
+
+
+def build_mcp_server_parameters(server_config: Dict[str, Any]):
+    """
+    Convert the saved configuration of a MCP server to the parameters agent runs connect with,
+    see `ToolCollection.from_mcp`
+
+    Raises:
+        PermissionError: the command of a stdio server is not allowed
+    """
+    transport = server_config.get("transport") or "sse"
+    if transport == "stdio":
+        check_stdio_command(server_config["command"])
+        return StdioServerParameters(command=server_config["command"], args=server_config.get("args") or [],
+                                     env=server_config.get("env") or None)
+    server_parameters = {"url": server_config["mcp_server"],
+                         "headers": _server_headers(server_config),
+                         "timeout": server_config.get("timeout") or DEFAULT_MCP_TIMEOUT}
+    if transport == "streamable_http":
+        server_parameters["transport"] = "streamable-http"
+    return server_parameters
+
+
+def is_mcp_tool_exposed(tool_filter: Optional[Dict[str, Any]], tool_name: str) -> bool:
+    """
+    Whether the tool filter of a server exposes a tool to agents
+    """
+    tool_filter = tool_filter or {}
+    if tool_filter.get("mode") == "allow":
+        return tool_name in tool_filter.get("tools", [])
+    if tool_filter.get("mode") == "deny":
+        return tool_name not in tool_filter.get("tools", [])
+    return True
+
+
+def record_mcp_error(mcp_name: str, tenant_id: str, message: str) -> List[Dict[str, str]]:
+    """
+    Keep a connection error in the log of a server
+
+    Returns:
+        List[Dict[str, str]]: recent errors of the server, newest first
+    """
+    error = {"time": datetime.now().strftime("%Y-%m-%d %H:%M:%S"), "message": message}
+    return add_mcp_error(mcp_name, tenant_id, error, MAX_RECENT_ERRORS)
+
+
+def build_mcp_server_config(request: McpServerConfigRequest, saved_config: Optional[Dict[str, Any]] = None) \
+        -> Dict[str, Any]:
+    """
+    Build the columns of mcp_record_t from a submitted configuration, the secrets left out of it are taken
+    from the saved configuration
+
+    Raises:
+        ValueError: the configuration misses the address or the command of its transport
+        PermissionError: the command of a stdio server is not allowed
+    """
+    saved_config = saved_config or {}
+    if request.transport == "stdio" and not (request.command or "").strip():
+        raise ValueError("The stdio transport needs a command")
+    if request.transport == "stdio":
+        check_stdio_command(request.command.strip())
+    if request.transport != "stdio" and not request.mcp_url.strip():
+        raise ValueError(f"The {request.transport} transport needs a server address")
+
+    def merge_secrets(submitted: Dict[str, Optional[str]], saved: Optional[Dict[str, str]]) -> Dict[str, str]:
+        saved = saved or {}
+        return {name: saved.get(name, "") if value is None else value for name, value in submitted.items()}
+
+    if request.bearer_token is None:
+        bearer_token = saved_config.get("bearer_token")
+    else:
+        bearer_token = request.bearer_token or None
+
+    is_stdio = request.transport == "stdio"
+    return {
+        "mcp_server": "" if is_stdio else request.mcp_url.strip(),
+        "transport": request.transport,
+        "command": request.command.strip() if is_stdio else None,
+        "args": request.args if is_stdio else [],
+        "env": merge_secrets(request.env, saved_config.get("env")) if is_stdio else {},
+        "headers": {} if is_stdio else merge_secrets(request.headers, saved_config.get("headers")),
+        "bearer_token": None if is_stdio else bearer_token,
+        "timeout": request.timeout,
+        "tool_filter": request.tool_filter.model_dump()
+    }
+
+
+async def mcp_server_health(remote_mcp_server: str, server_config: Optional[Dict[str, Any]] = None) -> JSONResponse:
+    """
+    Check that a MCP server can be connected to, `server_config` holds the saved configuration of the server
+    """
+    server_config = {**(server_config or {}), "mcp_server": remote_mcp_server}
+    timeout = server_config.get("timeout") or DEFAULT_MCP_TIMEOUT
+
+    async def connect(client: Client) -> bool:
         async with client:
-            connected = client.is_connected()
-            if connected:
-                return JSONResponse(
-                    status_code=200,
-                    content={"message": "Successfully connected to remote MCP server", "status": "success"}
-                )
-            else:
-                logger.error(f"Remote MCP server health check failed: not connected to {remote_mcp_server}")
-                return JSONResponse(
-                    status_code=503,
-                    content={"message": "Cannot connect to remote MCP server", "status": "error"}
-                )
+            return client.is_connected()
+
+    try:
+        client = build_mcp_client(server_config)
+        connected = await asyncio.wait_for(connect(client), timeout)
+        if connected:
+            return JSONResponse(
+                status_code=200,
+                content={"message": "Successfully connected to remote MCP server", "status": "success"}
+            )
+        else:
+            logger.error(f"Remote MCP server health check failed: not connected to {remote_mcp_server}")
+            return JSONResponse(
+                status_code=503,
+                content={"message": "Cannot connect to remote MCP server", "status": "error"}
+            )
+    except asyncio.TimeoutError:
+        logger.error(f"Remote MCP server health check failed: no answer within {timeout}s")
+        return JSONResponse(
+            status_code=503,
+            content={"message": "Cannot connect to remote MCP server",
+                     "detail": f"No answer within {timeout} seconds", "status": "error"}
+        )
     except Exception as e:
         logger.error(f"Remote MCP server health check failed: {e}")
         return JSONResponse(
             status_code=400,
-            content={"message": "Failed to add remote MCP proxy", "status": "error"}
+            content={"message": "Failed to add remote MCP proxy", "detail": str(e) or type(e).__name__,
+                     "status": "error"}
         )
 
 async def add_remote_mcp_server_list(tenant_id: str,
                                      user_id: str,
                                      remote_mcp_server: str,
-                                     remote_mcp_server_name: str):
-
+                                     remote_mcp_server_name: str,
+                                     server_config: Optional[Dict[str, Any]] = None):
+    """
+    Add a MCP server once it can be connected to, `server_config` holds the columns built by
+    `build_mcp_server_config`, a bare address uses sse
+    """
     # check if MCP name already exists
     if check_mcp_name_exists(mcp_name=remote_mcp_server_name, tenant_id=tenant_id):
         logger.error(
             f"MCP name already exists, tenant_id: {tenant_id}, remote_mcp_server_name: {remote_mcp_server_name}")
         return JSONResponse(
-            status_code=400,
+            status_code=409,
             content={"message": f"MCP server name '{remote_mcp_server_name}' already exists", "status": "error"}
         )
 
     # check if the address is available
-    response = await mcp_server_health(remote_mcp_server=remote_mcp_server)
+    response = await mcp_server_health(remote_mcp_server=remote_mcp_server, server_config=server_config)
     if response.status_code != 200:
         return response
 
     # update the PG database record
-    insert_mcp_data = {"mcp_name": remote_mcp_server_name,
+    insert_mcp_data = {**(server_config or {}),
+                       "mcp_name": remote_mcp_server_name,
                        "mcp_server": remote_mcp_server,
                        "status": True}
     result = create_mcp_record(mcp_data=insert_mcp_data, tenant_id=tenant_id, user_id=user_id)
@@ -88,7 +255,78 @@ async def delete_remote_mcp_server_list(tenant_id: str,
         content={"message": "Successfully deleted remote MCP proxy", "status": "success"}
     )
 
+async def update_remote_mcp_server(tenant_id: str, user_id: str, request: McpServerUpdateRequest) -> JSONResponse:
+    """
+    Update the configuration of a MCP server once it can be connected to with it, the server can be renamed
+    """
+    saved_config = get_mcp_record_by_name(mcp_name=request.original_service_name, tenant_id=tenant_id)
+    if saved_config is None:
+        return JSONResponse(
+            status_code=404,
+            content={"message": f"MCP server '{request.original_service_name}' does not exist", "status": "error"}
+        )
+    if request.service_name != request.original_service_name \
+            and check_mcp_name_exists(mcp_name=request.service_name, tenant_id=tenant_id):
+        return JSONResponse(
+            status_code=409,
+            content={"message": f"MCP server name '{request.service_name}' already exists", "status": "error"}
+        )
+    try:
+        server_config = build_mcp_server_config(request, saved_config)
+    except PermissionError as e:
+        return JSONResponse(status_code=403, content={"message": str(e), "status": "error"})
+    except ValueError as e:
+        return JSONResponse(status_code=400, content={"message": str(e), "status": "error"})
+
+    response = await mcp_server_health(remote_mcp_server=server_config["mcp_server"], server_config=server_config)
+    if response.status_code != 200:
+        return response
+
+    updated = update_mcp_record_by_id(mcp_id=saved_config["mcp_id"],
+                                      mcp_data={**server_config, "mcp_name": request.service_name, "status": True},
+                                      tenant_id=tenant_id,
+                                      user_id=user_id)
+    if not updated:
+        logger.error(f"update_remote_mcp_server failed, tenant_id: {tenant_id}, mcp_id: {saved_config['mcp_id']}")
+        return JSONResponse(
+            status_code=400,
+            content={"message": "Failed to update remote MCP server, database error", "status": "error"}
+        )
+
+    return JSONResponse(
+        status_code=200,
+        content={"message": "Successfully updated remote MCP server", "status": "success"}
+    )
+
+
+async def check_remote_mcp_server_health(tenant_id: str, user_id: str, remote_mcp_server: str,
+                                         remote_mcp_server_name: str) -> JSONResponse:
+    """
+    Check a saved MCP server with its configuration, save its status and log the failure,
+    the recent errors of the server are returned either way
+    """
+    saved_config = get_mcp_record_by_name(mcp_name=remote_mcp_server_name, tenant_id=tenant_id) or {}
+    response = await mcp_server_health(remote_mcp_server=remote_mcp_server, server_config=saved_config)
+
+    status = response.status_code == 200
+    update_mcp_status_by_name_and_url(mcp_name=remote_mcp_server_name,
+                                      mcp_server=remote_mcp_server,
+                                      tenant_id=tenant_id,
+                                      user_id=user_id,
+                                      status=status)
+    content = json.loads(response.body)
+    if status:
+        recent_errors = saved_config.get("recent_errors") or []
+    else:
+        recent_errors = record_mcp_error(remote_mcp_server_name, tenant_id,
+                                         content.get("detail") or content.get("message", ""))
+    return JSONResponse(status_code=response.status_code, content={**content, "recent_errors": recent_errors})
+
+
 async def get_remote_mcp_server_list(tenant_id: str):
+    """
+    List the MCP servers of a tenant, the saved secrets are only listed by name
+    """
     mcp_records = get_mcp_records_by_tenant(tenant_id=tenant_id)
     mcp_records_list = []
 
@@ -96,6 +334,42 @@ async def get_remote_mcp_server_list(tenant_id: str):
         mcp_records_list.append({
             "remote_mcp_server_name": record["mcp_name"],
             "remote_mcp_server": record["mcp_server"],
-            "status": record["status"]
+            "status": record["status"],
+            "transport": record.get("transport") or "sse",
+            "command": record.get("command"),
+            "args": record.get("args") or [],
+            "env_keys": list((record.get("env") or {}).keys()),
+            "header_keys": list((record.get("headers") or {}).keys()),
+            "has_bearer_token": bool(record.get("bearer_token")),
+            "timeout": record.get("timeout") or DEFAULT_MCP_TIMEOUT,
+            "tool_filter": record.get("tool_filter") or {"mode": "all", "tools": []},
+            "recent_errors": record.get("recent_errors") or []
         })
-    return mcp_records_list
\ No newline at end of file
+    return mcp_records_list
+
+
+def get_mcp_server_usage(tenant_id: str, remote_mcp_server_name: str) -> List[Dict[str, Any]]:
+    """
+    List the agents using the tools of a MCP server, shown before the server is deleted
+    """
+    return [{"agent_id": agent["agent_id"],
+             "name": agent["name"],
+             "display_name": agent["display_name"] or agent["name"]}
+            for agent in query_agents_using_mcp_server(mcp_name=remote_mcp_server_name, tenant_id=tenant_id)]
+
+
+async def get_mcp_server_parameters(tenant_id: str) -> Dict[str, Any]:
+    """
+    Get the parameters agent runs connect to the connected MCP servers of a tenant with, keyed by server name,
+    the default Nexent server included. The stdio servers whose command is no longer allowed are left out
+    """
+    server_parameters = {}
+    for record in get_mcp_records_by_tenant(tenant_id=tenant_id):
+        if not record["status"]:
+            continue
+        try:
+            server_parameters[record["mcp_name"]] = build_mcp_server_parameters(record)
+        except PermissionError as e:
+            logger.warning(f"MCP server {record['mcp_name']} is left out: {e}")
+    server_parameters["nexent"] = {"url": urljoin(config_manager.get_config("NEXENT_MCP_SERVER"), "sse")}
+    return server_parameters
\ No newline at end of file
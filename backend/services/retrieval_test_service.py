@@ -0,0 +1,147 @@
+import hashlib
+import logging
+from typing import Any, Dict, List, Optional
+
+from fastapi import HTTPException
+from nexent.core.models.embedding_model import BaseEmbedding
+from nexent.core.models.rerank_model import OpenAICompatibleRerank
+from nexent.vector_database.elasticsearch_core import ElasticSearchCore
+from nexent.vector_database.utils import build_document_filters
+
+from consts.model import RetrievalQuerySaveRequest, RetrievalTestRequest
+from database.model_management_db import get_model_by_display_name
+from database.retrieval_query_db import create_query, delete_query, get_query_list, update_query
+from services.elasticsearch_service import get_embedding_model
+from utils.config_utils import get_model_name_from_config
+
+logger = logging.getLogger("retrieval_test_service")
+
+# Number of candidates retrieved for each result kept after reranking
+RERANK_CANDIDATE_FACTOR = 3
+
+
+def _chunk_key(document: Dict[str, Any]) -> str:
+    """
+    Identify a chunk by its document and its content. The key stays the same when the document is indexed
+    again with the same chunking, so the results of a saved query can be compared after reindexing
+    """
+    source = f"{document.get('path_or_url') or ''}\n{document.get('content') or ''}"
+    return hashlib.sha1(source.encode("utf-8")).hexdigest()[:16]
+
+
+def _search(params: RetrievalTestRequest, size: int, embedding_model: Optional[BaseEmbedding],
+            filters: List[Dict[str, Any]], es_core: ElasticSearchCore) -> List[Dict[str, Any]]:
+    """
+    Search the way the knowledge base search tool of the agents does, the score of each stage goes to score_details
+    """
+    if params.search_mode == "keyword":
+        results = es_core.accurate_search(params.index_names, params.query, top_k=size, filters=filters)
+        return [{**result, "score_details": {"accuracy": result["score"]}} for result in results]
+
+    if embedding_model is None:
+        raise HTTPException(status_code=400, detail="An embedding model must be configured for semantic search")
+    if params.search_mode == "semantic":
+        results = es_core.semantic_search(params.index_names, params.query, embedding_model=embedding_model,
+                                          top_k=size, filters=filters)
+        return [{**result, "score_details": {"semantic": result["score"]}} for result in results]
+
+    results = es_core.hybrid_search(params.index_names, params.query, embedding_model=embedding_model, top_k=size,
+                                    filters=filters)
+    return [{**result, "score_details": {"accuracy": result["scores"]["accurate"],
+                                         "semantic": result["scores"]["semantic"]}} for result in results]
+
+
+def _get_rerank_model(display_name: str, tenant_id: str) -> OpenAICompatibleRerank:
+    model_config = get_model_by_display_name(display_name, tenant_id)
+    if not model_config or model_config.get("model_type") != "rerank":
+        raise HTTPException(status_code=400, detail=f"Rerank model {display_name} does not exist")
+    return OpenAICompatibleRerank(model_name=get_model_name_from_config(model_config),
+                                  base_url=model_config.get("base_url", ""), api_key=model_config.get("api_key", ""))
+
+
+def _rerank(params: RetrievalTestRequest, results: List[Dict[str, Any]], tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Order the results by the relevance the rerank model gives them, the search score is kept as retrieval
+    """
+    rerank_model = _get_rerank_model(params.rerank_model, tenant_id)
+    ranked = rerank_model.rerank(params.query, [result["document"].get("content") or "" for result in results],
+                                 top_n=params.top_k)
+    reranked = []
+    for item in ranked:
+        result = results[item["index"]]
+        reranked.append({**result, "score": item["relevance_score"],
+                         "score_details": {**result["score_details"], "retrieval": result["score"],
+                                           "rerank": item["relevance_score"]}})
+    return reranked
+
+
+def run_retrieval_test_service(params: RetrievalTestRequest, tenant_id: str, es_core: ElasticSearchCore,
+                               audience: Optional[Dict[str, List[str]]] = None) -> List[Dict[str, Any]]:
+    """
+    Run a query against knowledge bases without generating an answer
+
+    Args:
+        params: Query, knowledge bases, search mode, rerank model, number of results and metadata filters
+        tenant_id: Tenant ID, its embedding model embeds the query
+        es_core: ElasticSearchCore instance
+        audience: users and roles of the user testing, only the documents visible to them are found. Visibility
+            is not checked when None
+
+    Returns:
+        List[Dict[str, Any]]: The ranked chunks with their score and the score of each stage
+    """
+    embedding_model = get_embedding_model(tenant_id) if params.search_mode != "keyword" else None
+    size = params.top_k * RERANK_CANDIDATE_FACTOR if params.rerank_model else params.top_k
+    filters = build_document_filters(params.metadata_filters, audience)
+    results = _search(params, size, embedding_model, filters, es_core)
+    if params.rerank_model:
+        results = _rerank(params, results, tenant_id)
+
+    return [{
+        "chunk_id": _chunk_key(result["document"]),
+        "index_name": result["index"],
+        "title": result["document"].get("title") or "",
+        "filename": result["document"].get("filename"),
+        "text": result["document"].get("content") or "",
+        "score": result["score"],
+        "score_details": result["score_details"]
+    } for result in results[:params.top_k]]
+
+
+def list_queries_service(user_id: str, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the saved retrieval test queries of a user, the latest saved first
+    """
+    return get_query_list(user_id, tenant_id)
+
+
+def save_query_service(request: RetrievalQuerySaveRequest, user_id: str, tenant_id: str,
+                       query_id: Optional[int] = None) -> Dict[str, Any]:
+    """
+    Save a query with its results, a saved query gets the new results as the baseline of the comparison
+
+    Args:
+        request: Parameters and results of the test
+        user_id: User ID, the owner of the query
+        tenant_id: Tenant ID
+        query_id: ID of the saved query to replace, a new query is saved when None
+
+    Returns:
+        Dict[str, Any]: The saved query
+    """
+    params = request.params.model_dump()
+    if query_id is None:
+        return create_query(params, request.results, user_id, tenant_id)
+
+    query = update_query(query_id, params, request.results, user_id, tenant_id)
+    if query is None:
+        raise HTTPException(status_code=404, detail=f"Saved query {query_id} does not exist or has been deleted")
+    return query
+
+
+def delete_query_service(query_id: int, user_id: str, tenant_id: str):
+    """
+    Delete a saved retrieval test query
+    """
+    if not delete_query(query_id, user_id, tenant_id):
+        raise HTTPException(status_code=404, detail=f"Saved query {query_id} does not exist or has been deleted")
@@ -0,0 +1,380 @@
+import asyncio
+import json
+import logging
+import secrets
+from datetime import datetime, timezone
+from typing import Any, Dict, List, Optional
+
+from fastapi import HTTPException
+
+from agents.agent_run_manager import agent_run_manager
+from agents.agent_run_stream import AgentRunStream
+from agents.create_agent_info import create_agent_run_info
+from consts.model import AgentScheduleRequest, MessageRequest, MessageUnit
+from database.agent_db import search_agent_info_by_agent_id
+from database.conversation_db import create_conversation, get_conversation, get_next_message_index
+from database.schedule_db import claim_schedule_run, create_inbox_item, create_schedule, create_schedule_run, \
+    delete_schedule, finish_schedule_run, get_due_schedules, get_inbox_list, get_latest_runs, get_run_list, \
+    get_runs_by_id, get_schedule, get_schedule_by_webhook_token, get_schedule_list, mark_inbox_read, update_schedule
+from nexent.core.agents.run_agent import agent_run
+from nexent.core.utils.observer import ProcessType
+from services.agent_service import STREAM_PROTOCOL_VERSION, message_saved_event
+from services.conversation_management_service import merge_message_chunks, save_message
+from services.memory_config_service import build_memory_context
+from utils.schedule_utils import is_valid_timezone, next_cron_run, parse_cron, render_query_template
+
+logger = logging.getLogger("schedule_service")
+
+# Path the webhook of a schedule is called on, the frontend completes it with its origin
+WEBHOOK_PATH = "/api/schedule/webhook/{0}"
+
+# Seconds between two checks for due cron schedules
+SCHEDULER_INTERVAL = 30
+
+# Characters of the answer kept in an inbox item
+INBOX_SUMMARY_LENGTH = 200
+
+
+def _utc_now() -> datetime:
+    return datetime.now(timezone.utc)
+
+
+def _to_db_time(time: Optional[datetime]) -> Optional[datetime]:
+    """times are stored in UTC without timezone"""
+    return None if time is None else time.astimezone(timezone.utc).replace(tzinfo=None)
+
+
+def _next_run_time(trigger: str, cron: str, timezone_name: str, enabled: bool) -> Optional[datetime]:
+    """next time a schedule fires as stored, None for paused and webhook schedules"""
+    expression = parse_cron(cron) if trigger == "cron" and enabled else None
+    if expression is None:
+        return None
+    return _to_db_time(next_cron_run(expression, timezone_name, _utc_now()))
+
+
+def _new_webhook_token() -> str:
+    return secrets.token_urlsafe(24)
+
+
+def _check_agent(agent_id: int, tenant_id: str):
+    try:
+        search_agent_info_by_agent_id(agent_id, tenant_id)
+    except ValueError:
+        raise HTTPException(status_code=404, detail=f"Agent {agent_id} does not exist")
+
+
+def _check_schedule(schedule_id: int, tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """the schedule, only its owner changes it or runs it since its runs act as the owner"""
+    schedule = get_schedule(schedule_id, tenant_id)
+    if schedule is None:
+        raise HTTPException(status_code=404, detail=f"Schedule {schedule_id} does not exist or has been deleted")
+    if schedule["user_id"] != user_id:
+        raise HTTPException(status_code=403, detail=f"Schedule {schedule_id} belongs to another user")
+    return schedule
+
+
+def _schedule_response(schedule: Dict[str, Any], last_run: Optional[Dict[str, Any]] = None) -> Dict[str, Any]:
+    """the schedule as the frontend shows it, the webhook token only appears in the webhook URL"""
+    response = {key: value for key, value in schedule.items()
+                if key not in ("tenant_id", "user_id", "language", "webhook_token", "due_time")}
+    if schedule["trigger"] == "webhook" and schedule["webhook_token"]:
+        response["webhook_url"] = WEBHOOK_PATH.format(schedule["webhook_token"])
+    response["last_run"] = last_run
+    return response
+
+
+def _with_last_run(schedule: Dict[str, Any], tenant_id: str) -> Dict[str, Any]:
+    return _schedule_response(schedule, get_latest_runs([schedule["schedule_id"]], tenant_id).get(
+        schedule["schedule_id"]))
+
+
+def list_schedules_service(agent_id: int, tenant_id: str, user_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the schedules the user owns on an agent with their latest run
+    """
+    schedules = get_schedule_list(agent_id, tenant_id, user_id)
+    last_runs = get_latest_runs([schedule["schedule_id"] for schedule in schedules], tenant_id)
+    return [_schedule_response(schedule, last_runs.get(schedule["schedule_id"])) for schedule in schedules]
+
+
+def save_schedule_service(request: AgentScheduleRequest, tenant_id: str, user_id: str,
+                          language: str = 'zh') -> Dict[str, Any]:
+    """
+    Create a schedule owned by the user, or replace the schedule of the user with the given id
+
+    Args:
+        request: AgentScheduleRequest object
+        tenant_id: Tenant ID, the agent must belong to it
+        user_id: User ID, the owner of a new schedule
+        language: Language the agent runs in
+
+    Returns:
+        Dict[str, Any]: The saved schedule, with its webhook URL for webhook schedules
+    """
+    name = request.name.strip()
+    if not name:
+        raise HTTPException(status_code=400, detail="Schedule name must not be empty")
+    if not request.query_template.strip():
+        raise HTTPException(status_code=400, detail="Query template must not be empty")
+    if request.trigger == "cron":
+        if parse_cron(request.cron) is None:
+            raise HTTPException(status_code=400, detail=f"Invalid cron expression: {request.cron}")
+        if not is_valid_timezone(request.timezone):
+            raise HTTPException(status_code=400, detail=f"Unknown timezone: {request.timezone}")
+
+    values = {
+        "schedule_name": name,
+        "trigger_type": request.trigger,
+        "cron_expression": request.cron.strip(),
+        "timezone": request.timezone,
+        "query_template": request.query_template,
+        "delivery": request.delivery,
+        "enabled": request.enabled,
+        "language": language,
+        "next_run_time": _next_run_time(request.trigger, request.cron, request.timezone, request.enabled)
+    }
+
+    if request.schedule_id is None:
+        _check_agent(request.agent_id, tenant_id)
+        if request.trigger == "webhook":
+            values["webhook_token"] = _new_webhook_token()
+        return _schedule_response(create_schedule({**values, "agent_id": request.agent_id}, tenant_id, user_id))
+
+    saved = _check_schedule(request.schedule_id, tenant_id, user_id)
+    if saved["agent_id"] != request.agent_id:
+        raise HTTPException(status_code=400, detail="A schedule can not be moved to another agent")
+    if request.trigger == "webhook" and not saved["webhook_token"]:
+        values["webhook_token"] = _new_webhook_token()
+    return _with_last_run(update_schedule(request.schedule_id, values, tenant_id, user_id), tenant_id)
+
+
+def delete_schedule_service(schedule_id: int, tenant_id: str, user_id: str) -> bool:
+    """
+    Delete a schedule, its runs stay in the conversation they were delivered to
+    """
+    _check_schedule(schedule_id, tenant_id, user_id)
+    if not delete_schedule(schedule_id, tenant_id, user_id):
+        raise HTTPException(status_code=404, detail=f"Schedule {schedule_id} does not exist or has been deleted")
+    return True
+
+
+def set_schedule_enabled_service(schedule_id: int, enabled: bool, tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Pause or resume a schedule, a resumed cron schedule fires at its next time from now
+    """
+    saved = _check_schedule(schedule_id, tenant_id, user_id)
+    schedule = update_schedule(schedule_id, {
+        "enabled": enabled,
+        "next_run_time": _next_run_time(saved["trigger"], saved["cron"], saved["timezone"], enabled)
+    }, tenant_id, user_id)
+    return _with_last_run(schedule, tenant_id)
+
+
+def rotate_webhook_service(schedule_id: int, tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Replace the token of the webhook URL of a schedule, the old URL stops working
+    """
+    if _check_schedule(schedule_id, tenant_id, user_id)["trigger"] != "webhook":
+        raise HTTPException(status_code=400, detail=f"Schedule {schedule_id} has no webhook")
+    schedule = update_schedule(schedule_id, {"webhook_token": _new_webhook_token()}, tenant_id, user_id)
+    return _with_last_run(schedule, tenant_id)
+
+
+def list_runs_service(schedule_id: int, tenant_id: str, user_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the latest runs of a schedule, newest first
+    """
+    _check_schedule(schedule_id, tenant_id, user_id)
+    return get_run_list(schedule_id, tenant_id)
+
+
+def list_inbox_service(user_id: str, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the results delivered to the inbox of the user with their runs, newest first
+    """
+    items = get_inbox_list(user_id, tenant_id)
+    runs = get_runs_by_id([item["run_id"] for item in items])
+    return [{"item_id": item["item_id"],
+             "schedule_id": item["schedule_id"],
+             "schedule_name": item["schedule_name"],
+             "agent_name": item["agent_name"] or "",
+             "run": runs.get(item["run_id"]),
+             "summary": item["summary"] or "",
+             "read": bool(item["read"]),
+             "create_time": item["create_time"]}
+            for item in items]
+
+
+def mark_inbox_read_service(item_ids: Optional[List[int]], user_id: str, tenant_id: str) -> int:
+    """
+    Mark items of the inbox of the user as read, every item when no id is given
+    """
+    return mark_inbox_read(user_id, tenant_id, item_ids)
+
+
+def _final_answer(messages: List[str]) -> str:
+    return "".join(message.get("content", "") for message in map(json.loads, messages)
+                   if message.get("type") == ProcessType.FINAL_ANSWER.value).strip()
+
+
+def _schedule_conversation(schedule: Dict[str, Any]) -> int:
+    """conversation the runs of the schedule are appended to, created again when the user deleted it"""
+    conversation_id = schedule["conversation_id"]
+    if conversation_id is not None and get_conversation(conversation_id, schedule["user_id"]) is not None:
+        return conversation_id
+    conversation_id = create_conversation(schedule["name"], schedule["user_id"])["conversation_id"]
+    update_schedule(schedule["schedule_id"], {"conversation_id": conversation_id}, schedule["tenant_id"])
+    return conversation_id
+
+
+def _finish_run(schedule: Dict[str, Any], run: Dict[str, Any], message_id: Optional[int], error: Optional[str],
+                summary: str = "") -> Dict[str, Any]:
+    """record the end of a run and deliver its result to the inbox when the schedule asks for it"""
+    finished = finish_schedule_run(run["run_id"], {"status": "failed" if error else "success",
+                                                   "end_time": _to_db_time(_utc_now()),
+                                                   "message_id": message_id,
+                                                   "error": error})
+    if schedule["delivery"] == "inbox":
+        create_inbox_item({"schedule_id": schedule["schedule_id"], "run_id": run["run_id"],
+                           "summary": (error or summary)[:INBOX_SUMMARY_LENGTH]},
+                          schedule["tenant_id"], schedule["user_id"])
+    return finished
+
+
+async def _produce_schedule_run(schedule: Dict[str, Any], run: Dict[str, Any], agent_run_info,
+                                run_stream: AgentRunStream):
+    """
+    Run the agent for a schedule run and save the query and the answer to its conversation. The events are
+    published like those of a chat run, so that the owner can follow the run and answer its approvals
+    """
+    conversation_id = run["conversation_id"]
+    owner = schedule["user_id"]
+    messages = []
+    user_message_id = None
+    assistant_message_id = None
+    error = None
+    try:
+        await run_stream.publish({"type": "protocol_version", "content": STREAM_PROTOCOL_VERSION})
+        message_index = get_next_message_index(conversation_id)
+        user_message_id = (await asyncio.to_thread(save_message, MessageRequest(
+            conversation_id=conversation_id, message_idx=message_index, role="user",
+            message=[MessageUnit(type="string", content=run["query"])]), None, owner)).data
+        await run_stream.publish(message_saved_event("user", user_message_id))
+
+        memory_context = build_memory_context(owner, schedule["tenant_id"], schedule["agent_id"])
+        async for chunk in agent_run(agent_run_info, memory_context):
+            messages.append(chunk)
+            await run_stream.publish(json.loads(chunk))
+        if agent_run_info.stop_event.is_set():
+            error = "The run was stopped"
+    except Exception as e:
+        logger.error(f"Schedule {schedule['schedule_id']} run error: {str(e)}")
+        error = str(e)
+        await run_stream.publish({"type": "error", "content": f"Agent run error: {str(e)}"})
+    finally:
+        try:
+            if messages and user_message_id is not None:
+                assistant_message_id = (await asyncio.to_thread(save_message, MessageRequest(
+                    conversation_id=conversation_id, message_idx=message_index + 1, role="assistant",
+                    message=merge_message_chunks(messages), agent_id=schedule["agent_id"],
+                    parent_message_id=user_message_id), None, owner)).data
+                await run_stream.publish(message_saved_event("assistant", assistant_message_id))
+        except Exception as e:
+            logger.error(f"Failed to save the answer of schedule {schedule['schedule_id']}: {str(e)}")
+            error = error or f"Failed to save the answer: {str(e)}"
+        try:
+            _finish_run(schedule, run, assistant_message_id, error, _final_answer(messages))
+        except Exception as e:
+            logger.error(f"Failed to record the end of schedule run {run['run_id']}: {str(e)}")
+        await run_stream.publish({"type": "stream_end", "content": ""})
+        await run_stream.close()
+        agent_run_manager.unregister_agent_run(conversation_id)
+
+
+async def start_schedule_run(schedule: Dict[str, Any], triggered_by: str,
+                             payload: Optional[Dict[str, Any]] = None) -> Dict[str, Any]:
+    """
+    Start a run of a schedule in the background, the agent runs as the owner of the schedule
+
+    Args:
+        schedule: The schedule
+        triggered_by: cron, webhook or manual
+        payload: JSON body of the webhook call the query template is filled from
+
+    Returns:
+        Dict[str, Any]: The run, failed when the agent could not be started
+    """
+    query = render_query_template(schedule["query_template"], payload or {})
+    if not query.strip():
+        raise HTTPException(status_code=400, detail="The query of the run is empty")
+
+    conversation_id = _schedule_conversation(schedule)
+    if agent_run_manager.get_agent_run_info(conversation_id) is not None:
+        raise HTTPException(status_code=409, detail=f"A run of schedule {schedule['schedule_id']} is in progress")
+
+    run = create_schedule_run({"schedule_id": schedule["schedule_id"],
+                               "triggered_by": triggered_by,
+                               "query": query,
+                               "conversation_id": conversation_id,
+                               "start_time": _to_db_time(_utc_now())}, schedule["tenant_id"], schedule["user_id"])
+    try:
+        agent_run_info = await create_agent_run_info(agent_id=schedule["agent_id"], minio_files=None, query=query,
+                                                     history=[], authorization=None,
+                                                     language=schedule["language"] or 'zh',
+                                                     user_id=schedule["user_id"], tenant_id=schedule["tenant_id"])
+    except Exception as e:
+        logger.error(f"Failed to start the run of schedule {schedule['schedule_id']}: {str(e)}")
+        return _finish_run(schedule, run, None, f"Failed to start the agent: {str(e)}")
+
+    run_stream = AgentRunStream(user_id=schedule["user_id"])
+    agent_run_manager.register_agent_run(conversation_id, agent_run_info, run_stream)
+    run_stream.task = asyncio.create_task(_produce_schedule_run(schedule, run, agent_run_info, run_stream))
+    return run
+
+
+async def run_schedule_now_service(schedule_id: int, payload: Optional[Dict[str, Any]], tenant_id: str,
+                                   user_id: str) -> Dict[str, Any]:
+    """
+    Start a run of a schedule right away, paused or not
+    """
+    return await start_schedule_run(_check_schedule(schedule_id, tenant_id, user_id), "manual", payload)
+
+
+async def trigger_webhook_service(webhook_token: str, payload: Dict[str, Any]) -> Dict[str, Any]:
+    """
+    Start the run of the schedule a webhook call is for, the token of the URL authenticates the caller
+    """
+    schedule = get_schedule_by_webhook_token(webhook_token)
+    if schedule is None:
+        raise HTTPException(status_code=404, detail="Unknown webhook")
+    if not schedule["enabled"]:
+        raise HTTPException(status_code=409, detail=f"Schedule {schedule['schedule_id']} is paused")
+    return await start_schedule_run(schedule, "webhook", payload)
+
+
+async def run_due_schedules():
+    """
+    Start the runs of the cron schedules whose time has come. A schedule is claimed before it runs, so that
+    it runs once when several workers check at the same time; the runs missed while the service was down
+    are caught up with a single run
+    """
+    for schedule in get_due_schedules(_to_db_time(_utc_now())):
+        next_run_time = _next_run_time("cron", schedule["cron"], schedule["timezone"], True)
+        if not claim_schedule_run(schedule["schedule_id"], schedule["due_time"], next_run_time):
+            continue
+        try:
+            await start_schedule_run(schedule, "cron")
+        except Exception as e:
+            logger.warning(f"Failed to run schedule {schedule['schedule_id']}: {str(e)}")
+
+
+async def run_scheduler():
+    """
+    Check for due cron schedules until cancelled
+    """
+    while True:
+        try:
+            await run_due_schedules()
+        except Exception as e:
+            logger.error(f"Failed to run due schedules: {str(e)}")
+        await asyncio.sleep(SCHEDULER_INTERVAL)
@@ -2,11 +2,12 @@ import importlib
 import inspect
 import json
 import logging
-from typing import Any, List
+from typing import Any, List, Optional
 from urllib.parse import urljoin
 
+from pydantic import create_model
+from pydantic.fields import FieldInfo
 from pydantic_core import PydanticUndefined
-from fastmcp import Client
 import jsonref
 from mcpadapt.smolagents_adapter import _sanitize_function_name
 
@@ -17,6 +18,7 @@ from database.agent_db import (
 )
 from consts.model import ToolInstanceInfoRequest, ToolInfo, ToolSourceEnum
 from database.remote_mcp_db import get_mcp_records_by_tenant
+from services.remote_mcp_service import build_mcp_client, is_mcp_tool_exposed, record_mcp_error
 from utils.auth_utils import get_current_user_id
 from fastapi import Header
 
@@ -59,6 +61,29 @@ def python_type_to_json_schema(annotation: Any) -> str:
     # Return mapped type, or original type name if no mapping exists
     return type_mapping.get(type_name, type_name)
 
+def tool_param_json_schema(param_name: str, param: inspect.Parameter) -> Optional[dict]:
+    """
+    Generate the JSON Schema of an init parameter of a local tool from its annotation and Field,
+    the frontend builds the parameter form and validates the values with it
+
+    Args:
+        param_name: Name of the parameter
+        param: Parameter of the tool __init__ signature, its default is a pydantic Field
+
+    Returns:
+        The JSON Schema of the parameter with references resolved, None when pydantic cannot describe it
+    """
+    if not isinstance(param.default, FieldInfo):
+        return None
+    annotation = Any if param.annotation == inspect.Parameter.empty else param.annotation
+    try:
+        model = create_model(f"{param_name}_params", **{param_name: (annotation, param.default)})
+        schema = jsonref.replace_refs(model.model_json_schema(), proxies=False)
+        return schema["properties"][param_name]
+    except Exception as e:
+        logger.warning(f"cannot generate the JSON Schema of parameter {param_name}: {e}")
+        return None
+
 def get_local_tools() -> List[ToolInfo]:
     """
     Get metadata for all locally available tools
@@ -85,6 +110,9 @@ def get_local_tools() -> List[ToolInfo]:
             else:
                 param_info["default"] = param.default.default
                 param_info["optional"] = True
+            schema = tool_param_json_schema(param_name, param)
+            if schema is not None:
+                param_info["schema"] = schema
 
             init_params_list.append(param_info)
 
@@ -183,7 +211,8 @@ def get_langchain_tools() -> List[ToolInfo]:
 
 async def get_all_mcp_tools(tenant_id: str) -> List[ToolInfo]:
     """
-    Get metadata for all tools available from the MCP service
+    Get metadata for all tools available from the MCP service, the tools hidden by the filter of their server
+    are left out
 
     Returns:
         List of ToolInfo objects for MCP tools, or empty list if connection fails
@@ -194,10 +223,14 @@ async def get_all_mcp_tools(tenant_id: str) -> List[ToolInfo]:
         # only update connected server
         if record["status"]:
             try:
-                tools_info.extend(await get_tool_from_remote_mcp_server(mcp_server_name=record["mcp_name"],
-                                                                    remote_mcp_server=record["mcp_server"]))
+                server_tools = await get_tool_from_remote_mcp_server(mcp_server_name=record["mcp_name"],
+                                                                     remote_mcp_server=record["mcp_server"],
+                                                                     server_config=record)
+                tools_info.extend(tool for tool in server_tools
+                                  if is_mcp_tool_exposed(record.get("tool_filter"), tool.name))
             except Exception as e:
                 logger.error(f"mcp connection error: {str(e)}")
+                record_mcp_error(record["mcp_name"], tenant_id, str(e) or type(e).__name__)
 
     default_mcp_url = urljoin(config_manager.get_config("NEXENT_MCP_SERVER"), "sse")
     tools_info.extend(await get_tool_from_remote_mcp_server(mcp_server_name="nexent",
@@ -264,10 +297,12 @@ def update_tool_info_impl(request: ToolInstanceInfoRequest, authorization: str =
     }
 
 
-async def get_tool_from_remote_mcp_server(mcp_server_name: str, remote_mcp_server: str):
-    """get the tool information from the remote MCP server, avoid blocking the event loop"""
+async def get_tool_from_remote_mcp_server(mcp_server_name: str, remote_mcp_server: str,
+                                          server_config: Optional[dict] = None):
+    """get the tool information from the remote MCP server, avoid blocking the event loop.
+    `server_config` holds the saved connection configuration of the server"""
     tools_info = []
-    client = Client(remote_mcp_server, timeout=10)
+    client = build_mcp_client({**(server_config or {}), "mcp_server": remote_mcp_server})
     async with client:
         # List available operations
         tools = await client.list_tools()
@@ -0,0 +1,126 @@
+import asyncio
+import json
+import logging
+import threading
+from typing import Any, Dict, List, Optional
+
+from fastapi import HTTPException
+from smolagents import ToolCollection
+
+from nexent.core.agents.agent_model import ToolConfig
+from nexent.core.agents.nexent_agent import NexentAgent
+from nexent.core.utils.observer import MessageObserver
+
+from agents.create_agent_info import create_tool_config_list
+from consts.model import ToolInvokeRequest, ToolSampleRequest
+from database.agent_db import query_all_tools, query_tool_instances_by_id
+from database.tool_sample_db import create_sample, delete_sample, get_sample_list
+from services.remote_mcp_service import get_mcp_server_parameters
+
+logger = logging.getLogger("tool_playground_service")
+
+
+def _find_tool(tool_id: int, tenant_id: str) -> Dict[str, Any]:
+    tool = next((tool for tool in query_all_tools(tenant_id=tenant_id) if tool["tool_id"] == tool_id), None)
+    if tool is None:
+        raise HTTPException(status_code=404, detail=f"Tool {tool_id} does not exist")
+    return tool
+
+
+async def _find_mcp_server(mcp_server_name: str, tenant_id: str) -> Any:
+    server_parameters = (await get_mcp_server_parameters(tenant_id=tenant_id)).get(mcp_server_name)
+    if server_parameters is None:
+        raise HTTPException(status_code=400, detail=f"MCP server {mcp_server_name} is not connected")
+    return server_parameters
+
+
+def _to_json(output: Any) -> Any:
+    """keep the output as is when it can be sent as JSON, otherwise its text"""
+    try:
+        json.dumps(output, ensure_ascii=False)
+        return output
+    except (TypeError, ValueError):
+        return str(output)
+
+
+def call_tool(tool_config: ToolConfig, inputs: Dict[str, Any], mcp_server: Optional[Any] = None,
+              language: str = 'zh') -> Dict[str, Any]:
+    """
+    Create the tool the way an agent run does and call it once with the inputs, blocks until it returns.
+    `mcp_server` holds the connection parameters of the server of a MCP tool
+
+    Returns:
+        Dict[str, Any]: output of the tool, or the error it raised
+    """
+    def create_and_call(mcp_tool_collection=None):
+        nexent = NexentAgent(observer=MessageObserver(lang=language), model_config_list=[],
+                             stop_event=threading.Event(), mcp_tool_collection=mcp_tool_collection)
+        tool = nexent.create_tool(tool_config)
+        return tool(**inputs)
+
+    try:
+        if mcp_server is None:
+            output = create_and_call()
+        else:
+            with ToolCollection.from_mcp([mcp_server], trust_remote_code=True) as tool_collection:
+                output = create_and_call(tool_collection)
+        return {"output": _to_json(output), "error": None}
+    except Exception as e:
+        logger.warning(f"tool {tool_config.class_name} raised an error in the playground: {e}")
+        return {"output": None, "error": str(e)}
+
+
+async def invoke_tool_service(request: ToolInvokeRequest, tenant_id: str, user_id: str,
+                              language: str = 'zh', authorization: Optional[str] = None) -> Dict[str, Any]:
+    """
+    Invoke a single tool directly, outside an agent run
+
+    Args:
+        request: ToolInvokeRequest object, params missing from it are taken from the configuration of the agent,
+            then from the defaults of the tool
+        tenant_id: Tenant ID
+        user_id: User ID
+        language: Language code ('zh' for Chinese, 'en' for English)
+        authorization: Authorization header value, the knowledge base search only finds the documents visible
+            to the user
+
+    Returns:
+        Dict[str, Any]: output of the tool, or the error it raised; the call itself succeeded
+    """
+    tool = _find_tool(request.tool_id, tenant_id)
+    tool_instance = query_tool_instances_by_id(request.agent_id, request.tool_id, tenant_id)
+    params = {**((tool_instance or {}).get("params") or {}), **request.params}
+    tool["params"] = [{**param, "default": params.get(param["name"], param.get("default"))}
+                      for param in tool.get("params") or []]
+
+    tool_config = (await create_tool_config_list(request.agent_id, tenant_id, user_id, tools_list=[tool],
+                                                 authorization=authorization))[0]
+    mcp_server = await _find_mcp_server(tool["usage"], tenant_id) if tool["source"] == "mcp" else None
+    # Tools block while they run, keep the event loop free
+    return await asyncio.to_thread(call_tool, tool_config, request.inputs, mcp_server, language)
+
+
+def list_samples_service(tool_id: int, agent_id: int, tenant_id: str) -> List[Dict[str, Any]]:
+    """
+    Get the saved playground invocations of a tool, newest first
+    """
+    return get_sample_list(tool_id, agent_id, tenant_id)
+
+
+def save_sample_service(request: ToolSampleRequest, tenant_id: str, user_id: str) -> Dict[str, Any]:
+    """
+    Save a playground invocation as a sample, e.g. to turn it into a few-shot example later
+    """
+    _find_tool(request.tool_id, tenant_id)
+    sample = request.model_dump()
+    sample["output"] = _to_json(sample["output"])
+    return create_sample(sample, tenant_id, user_id)
+
+
+def delete_sample_service(sample_id: int, tenant_id: str, user_id: str) -> bool:
+    """
+    Delete a saved sample
+    """
+    if not delete_sample(sample_id, tenant_id, user_id):
+        raise HTTPException(status_code=404, detail=f"Tool sample {sample_id} does not exist or has been deleted")
+    return True
@@ -1,7 +1,7 @@
 import logging
 import os
 from datetime import datetime, timedelta
-from typing import Optional
+from typing import Dict, List, Optional
 
 from fastapi import Request, HTTPException
 from consts.const import DEFAULT_USER_ID, DEFAULT_TENANT_ID, IS_SPEED_MODE
@@ -146,6 +146,34 @@ def get_current_user_id(authorization: Optional[str] = None) -> tuple[str, str]:
         raise HTTPException(status_code=401, detail="Invalid or expired authentication token")
 
 
+def get_document_audience(authorization: Optional[str], user_id: str) -> Optional[Dict[str, List[str]]]:
+    """
+    Get who a user is for the visibility of knowledge base documents
+
+    Args:
+        authorization: Authorization header value, None for runs without a request such as scheduled runs
+        user_id: ID of the user
+
+    Returns:
+        Optional[Dict[str, List[str]]]: users (ID and email) and roles a restricted document is checked against,
+            None in speed mode where every document is visible
+    """
+    if IS_SPEED_MODE:
+        return None
+    if not authorization:
+        # Without a token the email and role are unknown, only the documents visible to everyone or to the ID
+        return {"users": [user_id], "roles": []}
+    try:
+        token = authorization.replace("Bearer ", "") if authorization.startswith("Bearer ") else authorization
+        decoded = jwt.decode(token, options={"verify_signature": False})
+    except Exception as e:
+        logging.error(f"Failed to read the user from token: {str(e)}")
+        raise HTTPException(status_code=401, detail="Invalid or expired authentication token")
+    role = (decoded.get("user_metadata") or {}).get("role", "user")
+    users = [user_id] + ([decoded["email"]] if decoded.get("email") else [])
+    return {"users": users, "roles": [role]}
+
+
 def get_user_language(request: Request = None) -> str:
     """
     Get user language preference from request
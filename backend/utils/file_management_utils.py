@@ -47,7 +47,8 @@ async def trigger_data_process(files: List[dict], process_params: ProcessParams)
                 "source_type": process_params.source_type,
                 "chunking_strategy": process_params.chunking_strategy,
                 "index_name": process_params.index_name,
-                "original_filename": file_details.get("filename")
+                "original_filename": file_details.get("filename"),
+                "additional_params": process_params.additional_params
             }
 
             try:
@@ -76,7 +77,8 @@ async def trigger_data_process(files: List[dict], process_params: ProcessParams)
                     "source_type": process_params.source_type,
                     "chunking_strategy": process_params.chunking_strategy,
                     "index_name": process_params.index_name,
-                    "original_filename": file_details.get("filename")
+                    "original_filename": file_details.get("filename"),
+                    "additional_params": process_params.additional_params
                 }
                 sources.append(source)
 
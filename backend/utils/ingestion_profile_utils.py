@@ -0,0 +1,66 @@
+import json
+from typing import Any, Dict, List, Optional, Tuple
+
+import requests
+
+from consts.const import DATA_PROCESS_SERVICE
+
+# Seconds the data process may take for a document, OCR included
+PROCESS_TIMEOUT = 120
+
+# The profile sizes are in tokens while the chunker counts characters
+CHARS_PER_TOKEN = 4
+
+# split_by of the profile: chunking strategy of the data process and whether a chunk may span pages
+SPLIT_STRATEGIES = {
+    "heading": ("by_title", True),
+    "page": ("by_title", False),
+    "sentence": ("basic", True),
+}
+
+# language of the profile: Tesseract language codes used for OCR and parsing, detected when None
+LANGUAGES = {
+    "auto": None,
+    "zh": ["chi_sim"],
+    "en": ["eng"],
+}
+
+
+def to_processing_params(profile: Dict[str, Any]) -> Tuple[str, Dict[str, Any]]:
+    """Chunking strategy and additional processing parameters of the data process for an ingestion profile"""
+    chunking_strategy, multipage_sections = SPLIT_STRATEGIES[profile["split_by"]]
+    max_characters = profile["chunk_size"] * CHARS_PER_TOKEN
+    params = {
+        "max_characters": max_characters,
+        "new_after_n_chars": max_characters,
+        "overlap": profile["chunk_overlap"] * CHARS_PER_TOKEN,
+        "multipage_sections": multipage_sections,
+        # Scanned pages are only read by the hi_res strategy
+        "strategy": "hi_res" if profile["ocr"] else "fast",
+        "languages": LANGUAGES[profile["language"]],
+        "table_mode": profile["table_mode"],
+    }
+    return chunking_strategy, params
+
+
+def split_document(filename: str, content: bytes, profile: Optional[Dict[str, Any]]) -> List[Dict[str, Any]]:
+    """
+    Extract and chunk the text of a document with the data process service, with the ingestion profile of the
+    knowledge base or the default chunking when it has none
+
+    Returns:
+        List[Dict[str, Any]]: The non empty chunks, with their content and page number when the format has pages
+    """
+    data = {'chunking_strategy': 'basic', 'timeout': PROCESS_TIMEOUT}
+    if profile:
+        data['chunking_strategy'], params = to_processing_params(profile)
+        data['params'] = json.dumps(params)
+    response = requests.post(f"{DATA_PROCESS_SERVICE}/tasks/process_text_file",
+                             files={'file': (filename, content, 'application/octet-stream')},
+                             data=data, timeout=PROCESS_TIMEOUT)
+    if response.status_code != 200:
+        raise Exception(f"File processing failed (status code: {response.status_code}): {response.text}")
+    result = response.json()
+    chunk_metadata = result.get("chunk_metadata") or [{}] * len(result.get("chunks", []))
+    return [{"content": chunk, "page": metadata.get("page_number")}
+            for chunk, metadata in zip(result.get("chunks", []), chunk_metadata) if chunk.strip()]
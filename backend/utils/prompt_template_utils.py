@@ -16,6 +16,7 @@ def get_prompt_template(template_type: str, language: str = 'zh', **kwargs) -> D
             - 'analyze_file': File analysis template
             - 'prompt_fine_tune': Prompt fine-tuning template
             - 'generate_title': Title generation template
+            - 'evaluation_judge': Evaluation judge template
         language: Language code ('zh' or 'en')
         **kwargs: Additional parameters, for agent type need to pass is_manager parameter
         
@@ -55,6 +56,10 @@ def get_prompt_template(template_type: str, language: str = 'zh', **kwargs) -> D
         'generate_title': {
             'zh': 'backend/prompts/utils/generate_title.yaml',
             'en': 'backend/prompts/utils/generate_title_en.yaml'
+        },
+        'evaluation_judge': {
+            'zh': 'backend/prompts/utils/evaluation_judge.yaml',
+            'en': 'backend/prompts/utils/evaluation_judge_en.yaml'
         }
     }
     
@@ -152,3 +157,16 @@ def get_generate_title_prompt_template(language: str = 'zh') -> Dict[str, Any]:
         dict: Loaded prompt template configuration
     """
     return get_prompt_template('generate_title', language)
+
+
+def get_evaluation_judge_prompt_template(language: str = 'zh') -> Dict[str, Any]:
+    """
+    Get evaluation judge prompt template
+    
+    Args:
+        language: Language code ('zh' or 'en')
+        
+    Returns:
+        dict: Loaded prompt template configuration
+    """
+    return get_prompt_template('evaluation_judge', language)
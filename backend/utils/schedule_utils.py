@@ -0,0 +1,148 @@
+import json
+import re
+from dataclasses import dataclass
+from datetime import datetime, timezone
+from typing import Any, List, Optional, Set, Tuple
+from zoneinfo import ZoneInfo, ZoneInfoNotFoundError
+
+# Same rules as the preview of the schedule editor in the frontend, what it accepts runs here
+
+FIELD_RANGES: List[Tuple[int, int]] = [(0, 59), (0, 23), (1, 31), (1, 12), (0, 7)]
+
+# Skipping a non matching day costs two steps, this covers a February 29th over four years
+MAX_SEARCH_STEPS = 20000
+
+FIELD_PATTERN = re.compile(r"^(?:\*|(\d+)(?:-(\d+))?)(?:/(\d+))?$")
+
+TEMPLATE_PLACEHOLDER = re.compile(r"\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}")
+
+
+@dataclass
+class CronExpression:
+    minutes: Set[int]
+    hours: Set[int]
+    days: Set[int]
+    months: Set[int]
+    # 0 is Sunday
+    weekdays: Set[int]
+    # Whether the field matches every day. With both restricted a day matches when either the day of month
+    # or the weekday does, as in crontab
+    any_day: bool
+    any_weekday: bool
+
+
+def _parse_field(text: str, value_range: Tuple[int, int]) -> Optional[Set[int]]:
+    """"*", "5", "1-5", "*/15", "10-40/10" and comma separated lists of them"""
+    minimum, maximum = value_range
+    values = set()
+    for part in text.split(","):
+        match = FIELD_PATTERN.match(part)
+        if match is None:
+            return None
+        first, last, step = match.groups()
+        step = int(step) if step is not None else 1
+        start = int(first) if first is not None else minimum
+        end = int(last) if last is not None else start if first is not None and match.group(3) is None else maximum
+        if step < 1 or start < minimum or end > maximum or start > end:
+            return None
+        values.update(range(start, end + 1, step))
+    return values
+
+
+def parse_cron(expression: str) -> Optional[CronExpression]:
+    """
+    Parse a five field cron expression, None when it is invalid
+    """
+    fields = expression.split()
+    if len(fields) != 5:
+        return None
+    sets = [_parse_field(field, value_range) for field, value_range in zip(fields, FIELD_RANGES)]
+    if any(values is None for values in sets):
+        return None
+    minutes, hours, days, months, weekdays = sets
+    if 7 in weekdays:
+        weekdays.add(0)
+    return CronExpression(minutes=minutes, hours=hours, days=days, months=months, weekdays=weekdays,
+                          any_day=len(days) == 31, any_weekday=all(weekday in weekdays for weekday in range(7)))
+
+
+def is_valid_timezone(name: str) -> bool:
+    try:
+        ZoneInfo(name)
+        return True
+    except (ZoneInfoNotFoundError, ValueError):
+        return False
+
+
+def _day_matches(cron: CronExpression, day: int, weekday: int) -> bool:
+    if cron.any_day and cron.any_weekday:
+        return True
+    if cron.any_day:
+        return weekday in cron.weekdays
+    if cron.any_weekday:
+        return day in cron.days
+    return day in cron.days or weekday in cron.weekdays
+
+
+def next_cron_run(cron: CronExpression, timezone_name: str, after: datetime) -> Optional[datetime]:
+    """
+    Next time the expression fires after `after`, evaluated on the wall clock of the timezone
+
+    Args:
+        cron: Parsed expression
+        timezone_name: IANA name, e.g. "Asia/Shanghai"
+        after: Timezone aware time
+
+    Returns:
+        Optional[datetime]: The time in UTC, None when the expression does not fire within a few years
+    """
+    zone = ZoneInfo(timezone_name)
+    time = (int(after.timestamp()) // 60 + 1) * 60
+
+    for _ in range(MAX_SEARCH_STEPS):
+        clock = datetime.fromtimestamp(time, zone)
+        if clock.month not in cron.months or not _day_matches(cron, clock.day, clock.isoweekday() % 7):
+            # Up to 23:00 then to midnight, a single jump could pass midnight on a day with a DST change
+            time += ((23 - clock.hour) * 60 - clock.minute if clock.hour < 23 else 60 - clock.minute) * 60
+        elif clock.hour not in cron.hours:
+            time += (60 - clock.minute) * 60
+        elif clock.minute not in cron.minutes:
+            time += 60
+        else:
+            return datetime.fromtimestamp(time, timezone.utc)
+    return None
+
+
+def _json_value(value: Any) -> Any:
+    """the value with its integral floats as integers, JSON.stringify prints 1.0 as 1"""
+    if isinstance(value, float) and value.is_integer() and abs(value) < 1e21:
+        return int(value)
+    if isinstance(value, dict):
+        return {key: _json_value(item) for key, item in value.items()}
+    if isinstance(value, list):
+        return [_json_value(item) for item in value]
+    return value
+
+
+def render_query_template(template: str, payload: Any) -> str:
+    """
+    Fill the {{path}} placeholders of a query template from the JSON payload of a webhook call,
+    missing values are left empty. Values are printed like renderQueryTemplate of the frontend does, so that
+    the preview of the schedule editor shows the query a run gets
+    """
+    def replace(match: re.Match) -> str:
+        value = payload
+        for key in match.group(1).split("."):
+            if isinstance(value, dict):
+                value = value.get(key)
+            elif isinstance(value, list) and key.isdigit() and int(key) < len(value):
+                value = value[int(key)]
+            else:
+                value = None
+        if value is None:
+            return ""
+        if isinstance(value, str):
+            return value
+        return json.dumps(_json_value(value), ensure_ascii=False, separators=(",", ":"))
+
+    return TEMPLATE_PLACEHOLDER.sub(replace, template)
@@ -8,6 +8,8 @@ CREATE TABLE IF NOT EXISTS "conversation_message_t" (
   "message_id" SERIAL,
   "conversation_id" int4,
   "message_index" int4,
+  "parent_message_id" int4,
+  "agent_id" int4,
   "message_role" varchar(30) COLLATE "pg_catalog"."default",
   "message_content" varchar COLLATE "pg_catalog"."default",
   "minio_files" varchar,
@@ -22,6 +24,8 @@ CREATE TABLE IF NOT EXISTS "conversation_message_t" (
 ALTER TABLE "conversation_message_t" OWNER TO "root";
 COMMENT ON COLUMN "conversation_message_t"."conversation_id" IS 'Formal foreign key, used to associate with the conversation';
 COMMENT ON COLUMN "conversation_message_t"."message_index" IS 'Sequence number, used for frontend display sorting';
+COMMENT ON COLUMN "conversation_message_t"."parent_message_id" IS 'Message this one follows, NULL for the first message. Messages sharing a parent are branches of the conversation';
+COMMENT ON COLUMN "conversation_message_t"."agent_id" IS 'Agent that produced an assistant message, NULL for user messages';
 COMMENT ON COLUMN "conversation_message_t"."message_role" IS 'Role sending the message, such as system, assistant, user';
 COMMENT ON COLUMN "conversation_message_t"."message_content" IS 'Complete content of the message';
 COMMENT ON COLUMN "conversation_message_t"."minio_files" IS 'Images or documents uploaded by users in the chat interface, stored as a list';
@@ -68,6 +72,11 @@ CREATE TABLE IF NOT EXISTS "conversation_record_t" (
   "create_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
   "updated_by" varchar(100) COLLATE "pg_catalog"."default",
   "created_by" varchar(100) COLLATE "pg_catalog"."default",
+  "pinned_flag" varchar(1) COLLATE "pg_catalog"."default" DEFAULT 'N'::character varying,
+  "folder_id" int4,
+  "sort_order" int4,
+  "pinned_agent_id" int4,
+  "pinned_version_no" int4,
   CONSTRAINT "conversation_record_t_pk" PRIMARY KEY ("conversation_id")
 );
 ALTER TABLE "conversation_record_t" OWNER TO "root";
@@ -77,6 +86,11 @@ COMMENT ON COLUMN "conversation_record_t"."update_time" IS 'Update time, audit f
 COMMENT ON COLUMN "conversation_record_t"."create_time" IS 'Creation time, audit field';
 COMMENT ON COLUMN "conversation_record_t"."updated_by" IS 'Last updater ID, audit field';
 COMMENT ON COLUMN "conversation_record_t"."created_by" IS 'Creator ID, audit field';
+COMMENT ON COLUMN "conversation_record_t"."pinned_flag" IS 'Whether the conversation is pinned to the top of the sidebar, optional values Y/N';
+COMMENT ON COLUMN "conversation_record_t"."folder_id" IS 'Formal foreign key, folder the conversation is filed in, NULL for unfiled conversations';
+COMMENT ON COLUMN "conversation_record_t"."sort_order" IS 'Position within its pinned list or folder, NULL when never reordered';
+COMMENT ON COLUMN "conversation_record_t"."pinned_agent_id" IS 'Agent the conversation is pinned to, NULL when it follows the latest version';
+COMMENT ON COLUMN "conversation_record_t"."pinned_version_no" IS 'Version of the pinned agent the conversation runs, NULL when it follows the latest version';
 COMMENT ON TABLE "conversation_record_t" IS 'Overall information of Q&A conversations';
 
 CREATE TABLE IF NOT EXISTS "conversation_source_image_t" (
@@ -153,6 +167,99 @@ COMMENT ON COLUMN "conversation_source_search_t"."updated_by" IS 'Last updater I
 COMMENT ON COLUMN "conversation_source_search_t"."created_by" IS 'Creator ID, audit field';
 COMMENT ON TABLE "conversation_source_search_t" IS 'Carries search text source information referenced in conversation response messages';
 
+CREATE TABLE IF NOT EXISTS "conversation_folder_t" (
+  "folder_id" SERIAL,
+  "folder_name" varchar(100) COLLATE "pg_catalog"."default",
+  "sort_order" int4 DEFAULT 0,
+  "delete_flag" varchar(1) COLLATE "pg_catalog"."default" DEFAULT 'N'::character varying,
+  "create_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
+  "update_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
+  "created_by" varchar(100) COLLATE "pg_catalog"."default",
+  "updated_by" varchar(100) COLLATE "pg_catalog"."default",
+  CONSTRAINT "conversation_folder_t_pk" PRIMARY KEY ("folder_id")
+);
+ALTER TABLE "conversation_folder_t" OWNER TO "root";
+COMMENT ON COLUMN "conversation_folder_t"."folder_name" IS 'Folder name';
+COMMENT ON COLUMN "conversation_folder_t"."sort_order" IS 'Position of the folder in the sidebar';
+COMMENT ON COLUMN "conversation_folder_t"."delete_flag" IS 'When deleted by user frontend, delete flag will be set to true, achieving soft delete effect. Optional values Y/N';
+COMMENT ON COLUMN "conversation_folder_t"."create_time" IS 'Creation time, audit field';
+COMMENT ON COLUMN "conversation_folder_t"."update_time" IS 'Update time, audit field';
+COMMENT ON COLUMN "conversation_folder_t"."created_by" IS 'Creator ID, audit field';
+COMMENT ON COLUMN "conversation_folder_t"."updated_by" IS 'Last updater ID, audit field';
+COMMENT ON TABLE "conversation_folder_t" IS 'User-defined folders grouping conversations in the sidebar';
+
+CREATE TABLE IF NOT EXISTS "conversation_tag_t" (
+  "tag_id" SERIAL,
+  "tag_name" varchar(100) COLLATE "pg_catalog"."default",
+  "tag_color" varchar(20) COLLATE "pg_catalog"."default",
+  "delete_flag" varchar(1) COLLATE "pg_catalog"."default" DEFAULT 'N'::character varying,
+  "create_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
+  "update_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
+  "created_by" varchar(100) COLLATE "pg_catalog"."default",
+  "updated_by" varchar(100) COLLATE "pg_catalog"."default",
+  CONSTRAINT "conversation_tag_t_pk" PRIMARY KEY ("tag_id")
+);
+ALTER TABLE "conversation_tag_t" OWNER TO "root";
+COMMENT ON COLUMN "conversation_tag_t"."tag_name" IS 'Tag name';
+COMMENT ON COLUMN "conversation_tag_t"."tag_color" IS 'Hex color of the tag, such as #1677ff';
+COMMENT ON COLUMN "conversation_tag_t"."delete_flag" IS 'When deleted by user frontend, delete flag will be set to true, achieving soft delete effect. Optional values Y/N';
+COMMENT ON COLUMN "conversation_tag_t"."create_time" IS 'Creation time, audit field';
+COMMENT ON COLUMN "conversation_tag_t"."update_time" IS 'Update time, audit field';
+COMMENT ON COLUMN "conversation_tag_t"."created_by" IS 'Creator ID, audit field';
+COMMENT ON COLUMN "conversation_tag_t"."updated_by" IS 'Last updater ID, audit field';
+COMMENT ON TABLE "conversation_tag_t" IS 'User-defined tags of conversations';
+
+CREATE TABLE IF NOT EXISTS "conversation_tag_relation_t" (
+  "relation_id" SERIAL,
+  "conversation_id" int4,
+  "tag_id" int4,
+  "delete_flag" varchar(1) COLLATE "pg_catalog"."default" DEFAULT 'N'::character varying,
+  "create_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
+  "update_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
+  "created_by" varchar(100) COLLATE "pg_catalog"."default",
+  "updated_by" varchar(100) COLLATE "pg_catalog"."default",
+  CONSTRAINT "conversation_tag_relation_t_pk" PRIMARY KEY ("relation_id")
+);
+ALTER TABLE "conversation_tag_relation_t" OWNER TO "root";
+COMMENT ON COLUMN "conversation_tag_relation_t"."conversation_id" IS 'Formal foreign key, used to associate with the tagged conversation';
+COMMENT ON COLUMN "conversation_tag_relation_t"."tag_id" IS 'Formal foreign key, used to associate with the tag';
+COMMENT ON COLUMN "conversation_tag_relation_t"."delete_flag" IS 'When deleted by user frontend, delete flag will be set to true, achieving soft delete effect. Optional values Y/N';
+COMMENT ON COLUMN "conversation_tag_relation_t"."create_time" IS 'Creation time, audit field';
+COMMENT ON COLUMN "conversation_tag_relation_t"."update_time" IS 'Update time, audit field';
+COMMENT ON COLUMN "conversation_tag_relation_t"."created_by" IS 'Creator ID, audit field';
+COMMENT ON COLUMN "conversation_tag_relation_t"."updated_by" IS 'Last updater ID, audit field';
+COMMENT ON TABLE "conversation_tag_relation_t" IS 'Tags attached to conversations';
+
+CREATE TABLE IF NOT EXISTS "conversation_share_t" (
+  "share_id" SERIAL,
+  "share_token" varchar(64) COLLATE "pg_catalog"."default",
+  "conversation_id" int4,
+  "tenant_id" varchar(100) COLLATE "pg_catalog"."default",
+  "visibility" varchar(20) COLLATE "pg_catalog"."default",
+  "redact_flag" varchar(1) COLLATE "pg_catalog"."default" DEFAULT 'N'::character varying,
+  "snapshot_content" text COLLATE "pg_catalog"."default",
+  "delete_flag" varchar(1) COLLATE "pg_catalog"."default" DEFAULT 'N'::character varying,
+  "create_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
+  "update_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
+  "created_by" varchar(100) COLLATE "pg_catalog"."default",
+  "updated_by" varchar(100) COLLATE "pg_catalog"."default",
+  CONSTRAINT "conversation_share_t_pk" PRIMARY KEY ("share_id"),
+  CONSTRAINT "conversation_share_t_token_uk" UNIQUE ("share_token")
+);
+ALTER TABLE "conversation_share_t" OWNER TO "root";
+COMMENT ON COLUMN "conversation_share_t"."share_token" IS 'Random token of the share link';
+COMMENT ON COLUMN "conversation_share_t"."conversation_id" IS 'Formal foreign key, used to associate with the shared conversation';
+COMMENT ON COLUMN "conversation_share_t"."tenant_id" IS 'Tenant of the owner, tenant links only open for signed-in users of this tenant';
+COMMENT ON COLUMN "conversation_share_t"."visibility" IS 'Who can open the link, optional values public/tenant';
+COMMENT ON COLUMN "conversation_share_t"."redact_flag" IS 'Whether tool inputs were replaced in the snapshot, optional values Y/N';
+COMMENT ON COLUMN "conversation_share_t"."snapshot_content" IS 'JSON snapshot of the conversation title and messages at share time';
+COMMENT ON COLUMN "conversation_share_t"."delete_flag" IS 'Set to Y when the link is revoked, achieving soft delete effect. Optional values Y/N';
+COMMENT ON COLUMN "conversation_share_t"."create_time" IS 'Creation time, audit field';
+COMMENT ON COLUMN "conversation_share_t"."update_time" IS 'Update time, audit field';
+COMMENT ON COLUMN "conversation_share_t"."created_by" IS 'Creator ID, audit field';
+COMMENT ON COLUMN "conversation_share_t"."updated_by" IS 'Last updater ID, audit field';
+COMMENT ON TABLE "conversation_share_t" IS 'Read-only share links holding a snapshot of a conversation';
+
 CREATE TABLE IF NOT EXISTS "model_record_t" (
   "model_id" SERIAL,
   "model_repo" varchar(100) COLLATE "pg_catalog"."default",
@@ -202,6 +309,8 @@ CREATE TABLE IF NOT EXISTS "knowledge_record_t" (
   "knowledge_describe" varchar(3000) COLLATE "pg_catalog"."default",
   "tenant_id" varchar(100) COLLATE "pg_catalog"."default",
   "knowledge_sources" varchar(100) COLLATE "pg_catalog"."default",
+  "ingestion_profile" json,
+  "metadata_fields" json,
   "create_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
   "update_time" timestamp(0) DEFAULT CURRENT_TIMESTAMP,
   "delete_flag" varchar(1) COLLATE "pg_catalog"."default" DEFAULT 'N'::character varying,
@@ -215,6 +324,8 @@ COMMENT ON COLUMN "knowledge_record_t"."index_name" IS 'Knowledge base name';
 COMMENT ON COLUMN "knowledge_record_t"."knowledge_describe" IS 'Knowledge base description';
 COMMENT ON COLUMN "knowledge_record_t"."tenant_id" IS 'Tenant ID';
 COMMENT ON COLUMN "knowledge_record_t"."knowledge_sources" IS 'Knowledge base sources';
+COMMENT ON COLUMN "knowledge_record_t"."ingestion_profile" IS 'How the documents are parsed and chunked: chunk_size, chunk_overlap, split_by, ocr, table_mode and language';
+COMMENT ON COLUMN "knowledge_record_t"."metadata_fields" IS 'Metadata fields of the documents: key, label, type and the options of select fields';
 COMMENT ON COLUMN "knowledge_record_t"."create_time" IS 'Creation time, audit field';
 COMMENT ON COLUMN "knowledge_record_t"."update_time" IS 'Update time, audit field';
 COMMENT ON COLUMN "knowledge_record_t"."delete_flag" IS 'When deleted by user frontend, delete flag will be set to true, achieving soft delete effect. Optional values Y/N';
@@ -293,6 +404,7 @@ CREATE TABLE IF NOT EXISTS nexent.ag_tenant_agent_t (
     tenant_id VARCHAR(100),
     enabled BOOLEAN DEFAULT FALSE,
     provide_run_summary BOOLEAN DEFAULT FALSE,
+    approval_policy JSON,
     create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     created_by VARCHAR(100),
@@ -332,6 +444,7 @@ COMMENT ON COLUMN nexent.ag_tenant_agent_t.parent_agent_id IS 'Parent Agent ID';
 COMMENT ON COLUMN nexent.ag_tenant_agent_t.tenant_id IS 'Belonging tenant';
 COMMENT ON COLUMN nexent.ag_tenant_agent_t.enabled IS 'Enable flag';
 COMMENT ON COLUMN nexent.ag_tenant_agent_t.provide_run_summary IS 'Whether to provide the running summary to the manager agent';
+COMMENT ON COLUMN nexent.ag_tenant_agent_t.approval_policy IS 'Tool calls waiting for the user''s approval: default_mode and the tool_modes keyed by tool ID';
 COMMENT ON COLUMN nexent.ag_tenant_agent_t.create_time IS 'Creation time';
 COMMENT ON COLUMN nexent.ag_tenant_agent_t.update_time IS 'Update time';
 COMMENT ON COLUMN nexent.ag_tenant_agent_t.created_by IS 'Creator';
@@ -446,6 +559,15 @@ CREATE TABLE IF NOT EXISTS nexent.mcp_record_t (
     mcp_name VARCHAR(100),
     mcp_server VARCHAR(500),
     status BOOLEAN DEFAULT NULL,
+    transport VARCHAR(30) DEFAULT 'sse',
+    command VARCHAR(500),
+    args JSON,
+    env JSON,
+    headers JSON,
+    bearer_token VARCHAR(1000),
+    timeout INTEGER DEFAULT 30,
+    tool_filter JSON,
+    recent_errors JSON,
     create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     created_by VARCHAR(100),
@@ -463,6 +585,15 @@ COMMENT ON COLUMN nexent.mcp_record_t.user_id IS 'User ID';
 COMMENT ON COLUMN nexent.mcp_record_t.mcp_name IS 'MCP name';
 COMMENT ON COLUMN nexent.mcp_record_t.mcp_server IS 'MCP server address';
 COMMENT ON COLUMN nexent.mcp_record_t.status IS 'MCP server connection status, true=connected, false=disconnected, null=unknown';
+COMMENT ON COLUMN nexent.mcp_record_t.transport IS 'MCP transport: stdio, sse or streamable_http';
+COMMENT ON COLUMN nexent.mcp_record_t.command IS 'Command started by the backend, only for the stdio transport';
+COMMENT ON COLUMN nexent.mcp_record_t.args IS 'Arguments of the command, only for the stdio transport';
+COMMENT ON COLUMN nexent.mcp_record_t.env IS 'Environment variables of the command, only for the stdio transport, secret';
+COMMENT ON COLUMN nexent.mcp_record_t.headers IS 'Request headers sent to the server, secret';
+COMMENT ON COLUMN nexent.mcp_record_t.bearer_token IS 'Bearer token sent to the server, secret';
+COMMENT ON COLUMN nexent.mcp_record_t.timeout IS 'Connection timeout in seconds';
+COMMENT ON COLUMN nexent.mcp_record_t.tool_filter IS 'Tools exposed to agents: mode all, allow or deny and the tool names';
+COMMENT ON COLUMN nexent.mcp_record_t.recent_errors IS 'Latest connection errors with their time, newest first';
 COMMENT ON COLUMN nexent.mcp_record_t.create_time IS 'Creation time, audit field';
 COMMENT ON COLUMN nexent.mcp_record_t.update_time IS 'Update time, audit field';
 COMMENT ON COLUMN nexent.mcp_record_t.created_by IS 'Creator ID, audit field';
@@ -556,6 +687,427 @@ COMMENT ON COLUMN nexent.ag_agent_relation_t.created_by IS 'Creator ID, audit fi
 COMMENT ON COLUMN nexent.ag_agent_relation_t.updated_by IS 'Last updater ID, audit field';
 COMMENT ON COLUMN nexent.ag_agent_relation_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
 
+-- Create the ag_agent_version_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.ag_agent_version_t (
+    version_id SERIAL PRIMARY KEY NOT NULL,
+    agent_id INTEGER,
+    tenant_id VARCHAR(100),
+    version_no INTEGER,
+    snapshot JSON,
+    rollback_from INTEGER,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N',
+    CONSTRAINT ag_agent_version_t_agent_version_uk UNIQUE (agent_id, version_no)
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.ag_agent_version_t IS 'Immutable versions of an agent, one per save';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.ag_agent_version_t.version_id IS 'Version ID, primary key';
+COMMENT ON COLUMN nexent.ag_agent_version_t.agent_id IS 'Agent ID';
+COMMENT ON COLUMN nexent.ag_agent_version_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_agent_version_t.version_no IS 'Version number, starting at 1 for every agent';
+COMMENT ON COLUMN nexent.ag_agent_version_t.snapshot IS 'Agent configuration at save time: prompts, model, max steps, enabled tools with their params and sub agent ids';
+COMMENT ON COLUMN nexent.ag_agent_version_t.rollback_from IS 'Version restored by this one, NULL when not created by a rollback';
+COMMENT ON COLUMN nexent.ag_agent_version_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_version_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_version_t.created_by IS 'Author of the version, audit field';
+COMMENT ON COLUMN nexent.ag_agent_version_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_agent_version_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the ag_evaluation_suite_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.ag_evaluation_suite_t (
+    suite_id SERIAL PRIMARY KEY NOT NULL,
+    agent_id INTEGER,
+    tenant_id VARCHAR(100),
+    suite_name VARCHAR(100),
+    cases JSON,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.ag_evaluation_suite_t IS 'Evaluation suites of an agent: golden questions run in batch and scored automatically';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.suite_id IS 'Suite ID, primary key';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.agent_id IS 'Agent ID';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.suite_name IS 'Suite name';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.cases IS 'Cases of the suite: question, expectation, scorer, required tools and citations, forbidden phrases';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the ag_evaluation_report_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.ag_evaluation_report_t (
+    report_id SERIAL PRIMARY KEY NOT NULL,
+    suite_id INTEGER,
+    agent_id INTEGER,
+    tenant_id VARCHAR(100),
+    version_no INTEGER,
+    results JSON,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.ag_evaluation_report_t IS 'Results of the runs of an evaluation suite';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.report_id IS 'Report ID, primary key';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.suite_id IS 'Suite ID';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.agent_id IS 'Agent ID';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.version_no IS 'Agent version the suite ran against, NULL when unknown';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.results IS 'Result of every case: answer, checks, duration and error';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the ag_tool_sample_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.ag_tool_sample_t (
+    sample_id SERIAL PRIMARY KEY NOT NULL,
+    tool_id INTEGER,
+    agent_id INTEGER,
+    tenant_id VARCHAR(100),
+    params JSON,
+    inputs JSON,
+    output JSON,
+    error TEXT,
+    duration INTEGER,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.ag_tool_sample_t IS 'Tool invocations of the playground kept as samples, e.g. for few-shot examples';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.ag_tool_sample_t.sample_id IS 'Sample ID, primary key';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.tool_id IS 'Tool ID';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.agent_id IS 'Agent ID whose tool configuration was used';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.params IS 'Init params of the tool';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.inputs IS 'Call inputs of the tool';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.output IS 'Output of the tool, NULL when it raised an error';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.error IS 'Error raised by the tool';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.duration IS 'Duration of the invocation in milliseconds';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the ag_agent_schedule_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.ag_agent_schedule_t (
+    schedule_id SERIAL PRIMARY KEY NOT NULL,
+    agent_id INTEGER,
+    tenant_id VARCHAR(100),
+    user_id VARCHAR(100),
+    schedule_name VARCHAR(100),
+    trigger_type VARCHAR(20),
+    cron_expression VARCHAR(100),
+    timezone VARCHAR(64),
+    query_template TEXT,
+    delivery VARCHAR(20),
+    conversation_id INTEGER,
+    language VARCHAR(10),
+    webhook_token VARCHAR(100),
+    next_run_time TIMESTAMP WITHOUT TIME ZONE,
+    enabled BOOLEAN DEFAULT TRUE,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.ag_agent_schedule_t IS 'Agent runs started without a user: on a cron schedule or from a webhook';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.schedule_id IS 'Schedule ID, primary key';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.agent_id IS 'Agent ID';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.user_id IS 'Owner ID, the agent runs as this user and the results are delivered to them';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.schedule_name IS 'Schedule name';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.trigger_type IS 'Trigger of the runs, optional values cron/webhook';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.cron_expression IS 'Five field cron expression, unused by webhook schedules';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.timezone IS 'IANA timezone the cron expression is evaluated in';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.query_template IS 'Question sent to the agent, {{path}} placeholders are filled from the webhook payload';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.delivery IS 'Where the results go, optional values conversation/inbox';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.conversation_id IS 'Conversation the runs are appended to, created by the first run';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.language IS 'Language of the runs, optional values zh/en';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.webhook_token IS 'Secret token of the webhook URL, NULL for cron schedules';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.next_run_time IS 'Next time a cron schedule fires in UTC, NULL when paused';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.enabled IS 'Whether the schedule runs';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the ag_agent_schedule_run_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.ag_agent_schedule_run_t (
+    run_id SERIAL PRIMARY KEY NOT NULL,
+    schedule_id INTEGER,
+    tenant_id VARCHAR(100),
+    status VARCHAR(20),
+    triggered_by VARCHAR(20),
+    query TEXT,
+    start_time TIMESTAMP WITHOUT TIME ZONE,
+    end_time TIMESTAMP WITHOUT TIME ZONE,
+    conversation_id INTEGER,
+    message_id INTEGER,
+    error TEXT,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.ag_agent_schedule_run_t IS 'Runs of the agent schedules';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.run_id IS 'Run ID, primary key';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.schedule_id IS 'Schedule ID';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.status IS 'Status of the run, optional values running/success/failed';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.triggered_by IS 'What started the run, optional values cron/webhook/manual';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.query IS 'Query sent to the agent after the template was filled';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.start_time IS 'Start time of the run in UTC';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.end_time IS 'End time of the run in UTC, NULL while it runs';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.conversation_id IS 'Conversation the answer was saved to';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.message_id IS 'Saved answer of the run, its trace is read from there';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.error IS 'Error of a failed run';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the ag_schedule_inbox_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.ag_schedule_inbox_t (
+    item_id SERIAL PRIMARY KEY NOT NULL,
+    schedule_id INTEGER,
+    run_id INTEGER,
+    tenant_id VARCHAR(100),
+    user_id VARCHAR(100),
+    summary TEXT,
+    read_flag BOOLEAN DEFAULT FALSE,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.ag_schedule_inbox_t IS 'Results of schedule runs delivered to the inbox of their owner';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.item_id IS 'Inbox item ID, primary key';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.schedule_id IS 'Schedule ID';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.run_id IS 'Run ID';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.user_id IS 'User ID of the inbox';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.summary IS 'Beginning of the answer, or the error of a failed run';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.read_flag IS 'Whether the user read the item';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the knowledge_retrieval_query_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.knowledge_retrieval_query_t (
+    query_id SERIAL PRIMARY KEY NOT NULL,
+    tenant_id VARCHAR(100),
+    user_id VARCHAR(100),
+    params JSON,
+    results JSON,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.knowledge_retrieval_query_t IS 'Saved retrieval test queries of knowledge bases, run again after reindexing to compare with the saved results';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.query_id IS 'Query ID, primary key';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.user_id IS 'User ID of the owner';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.params IS 'Parameters of the test: query, index names, search mode, rerank model and top k';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.results IS 'Ranked chunks retrieved when the query was saved, the baseline of the comparison';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the knowledge_source_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.knowledge_source_t (
+    source_id SERIAL PRIMARY KEY NOT NULL,
+    index_name VARCHAR(100),
+    tenant_id VARCHAR(100),
+    user_id VARCHAR(100),
+    source_name VARCHAR(100),
+    source_type VARCHAR(20),
+    config JSON,
+    sync_interval VARCHAR(20) DEFAULT 'manual',
+    next_sync_time TIMESTAMP WITHOUT TIME ZONE,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.knowledge_source_t IS 'External sources the documents of knowledge bases are synced from';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.knowledge_source_t.source_id IS 'Source ID, primary key';
+COMMENT ON COLUMN nexent.knowledge_source_t.index_name IS 'Index name of the knowledge base the documents are synced to';
+COMMENT ON COLUMN nexent.knowledge_source_t.tenant_id IS 'Tenant ID, its embedding model embeds the synced documents';
+COMMENT ON COLUMN nexent.knowledge_source_t.user_id IS 'User ID of the creator';
+COMMENT ON COLUMN nexent.knowledge_source_t.source_name IS 'Source name';
+COMMENT ON COLUMN nexent.knowledge_source_t.source_type IS 'Source type, optional values urls/sitemap/folder/bucket';
+COMMENT ON COLUMN nexent.knowledge_source_t.config IS 'Where the documents are fetched from: urls, sitemap_url and include_pattern, path and recursive, or bucket and prefix';
+COMMENT ON COLUMN nexent.knowledge_source_t.sync_interval IS 'Interval of the automatic syncs, optional values manual/hourly/daily/weekly';
+COMMENT ON COLUMN nexent.knowledge_source_t.next_sync_time IS 'Next automatic sync in UTC, null for sources synced manually';
+COMMENT ON COLUMN nexent.knowledge_source_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the knowledge_source_document_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.knowledge_source_document_t (
+    document_id SERIAL PRIMARY KEY NOT NULL,
+    source_id INTEGER,
+    tenant_id VARCHAR(100),
+    path_or_url TEXT,
+    content_hash VARCHAR(64),
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.knowledge_source_document_t IS 'Documents synced from the knowledge base sources with the hash of their content';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.knowledge_source_document_t.document_id IS 'Document ID, primary key';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.source_id IS 'Source ID the document is synced from';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.path_or_url IS 'URL, path or object of the document, the path_or_url of its chunks in the index';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.content_hash IS 'SHA-256 of the content indexed last, a document is processed again when it changes';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the knowledge_source_sync_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.knowledge_source_sync_t (
+    run_id SERIAL PRIMARY KEY NOT NULL,
+    source_id INTEGER,
+    tenant_id VARCHAR(100),
+    status VARCHAR(20),
+    start_time TIMESTAMP WITHOUT TIME ZONE,
+    end_time TIMESTAMP WITHOUT TIME ZONE,
+    added INTEGER DEFAULT 0,
+    updated INTEGER DEFAULT 0,
+    removed INTEGER DEFAULT 0,
+    unchanged INTEGER DEFAULT 0,
+    failed INTEGER DEFAULT 0,
+    error TEXT,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.knowledge_source_sync_t IS 'Sync runs of the knowledge base sources';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.run_id IS 'Run ID, primary key';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.source_id IS 'Source ID';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.status IS 'Status of the run, optional values running/success/failed';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.start_time IS 'Start time of the run in UTC';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.end_time IS 'End time of the run in UTC, null while it runs';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.added IS 'Number of new documents indexed';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.updated IS 'Number of modified documents indexed again';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.removed IS 'Number of documents removed from the knowledge base, they no longer exist in the source';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.unchanged IS 'Number of documents whose content did not change';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.failed IS 'Number of documents that could not be fetched or indexed';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.error IS 'Error of a failed run';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the knowledge_document_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.knowledge_document_t (
+    document_id SERIAL PRIMARY KEY NOT NULL,
+    index_name VARCHAR(100),
+    tenant_id VARCHAR(100),
+    path_or_url TEXT,
+    metadata JSON,
+    visibility JSON,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.knowledge_document_t IS 'Metadata and visibility of the documents of knowledge bases';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.knowledge_document_t.document_id IS 'Document ID, primary key';
+COMMENT ON COLUMN nexent.knowledge_document_t.index_name IS 'Index name of the knowledge base of the document';
+COMMENT ON COLUMN nexent.knowledge_document_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.knowledge_document_t.path_or_url IS 'URL, path or object of the document, the path_or_url of its chunks';
+COMMENT ON COLUMN nexent.knowledge_document_t.metadata IS 'Values of the metadata fields of the knowledge base, keyed by field key';
+COMMENT ON COLUMN nexent.knowledge_document_t.visibility IS 'Who may retrieve the document: restricted, and the emails and roles allowed when restricted';
+COMMENT ON COLUMN nexent.knowledge_document_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.knowledge_document_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.knowledge_document_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_document_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_document_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
 -- Create user memory config table
 CREATE TABLE IF NOT EXISTS "memory_user_config_t" (
   "config_id" SERIAL PRIMARY KEY NOT NULL,
@@ -0,0 +1,123 @@
+-- Cron and webhook schedules of agents, their runs and the inbox their results are delivered to
+-- Create the ag_agent_schedule_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.ag_agent_schedule_t (
+    schedule_id SERIAL PRIMARY KEY NOT NULL,
+    agent_id INTEGER,
+    tenant_id VARCHAR(100),
+    user_id VARCHAR(100),
+    schedule_name VARCHAR(100),
+    trigger_type VARCHAR(20),
+    cron_expression VARCHAR(100),
+    timezone VARCHAR(64),
+    query_template TEXT,
+    delivery VARCHAR(20),
+    conversation_id INTEGER,
+    language VARCHAR(10),
+    webhook_token VARCHAR(100),
+    next_run_time TIMESTAMP WITHOUT TIME ZONE,
+    enabled BOOLEAN DEFAULT TRUE,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.ag_agent_schedule_t IS 'Agent runs started without a user: on a cron schedule or from a webhook';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.schedule_id IS 'Schedule ID, primary key';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.agent_id IS 'Agent ID';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.user_id IS 'Owner ID, the agent runs as this user and the results are delivered to them';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.schedule_name IS 'Schedule name';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.trigger_type IS 'Trigger of the runs, optional values cron/webhook';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.cron_expression IS 'Five field cron expression, unused by webhook schedules';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.timezone IS 'IANA timezone the cron expression is evaluated in';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.query_template IS 'Question sent to the agent, {{path}} placeholders are filled from the webhook payload';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.delivery IS 'Where the results go, optional values conversation/inbox';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.conversation_id IS 'Conversation the runs are appended to, created by the first run';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.language IS 'Language of the runs, optional values zh/en';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.webhook_token IS 'Secret token of the webhook URL, NULL for cron schedules';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.next_run_time IS 'Next time a cron schedule fires in UTC, NULL when paused';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.enabled IS 'Whether the schedule runs';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the ag_agent_schedule_run_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.ag_agent_schedule_run_t (
+    run_id SERIAL PRIMARY KEY NOT NULL,
+    schedule_id INTEGER,
+    tenant_id VARCHAR(100),
+    status VARCHAR(20),
+    triggered_by VARCHAR(20),
+    query TEXT,
+    start_time TIMESTAMP WITHOUT TIME ZONE,
+    end_time TIMESTAMP WITHOUT TIME ZONE,
+    conversation_id INTEGER,
+    message_id INTEGER,
+    error TEXT,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.ag_agent_schedule_run_t IS 'Runs of the agent schedules';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.run_id IS 'Run ID, primary key';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.schedule_id IS 'Schedule ID';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.status IS 'Status of the run, optional values running/success/failed';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.triggered_by IS 'What started the run, optional values cron/webhook/manual';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.query IS 'Query sent to the agent after the template was filled';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.start_time IS 'Start time of the run in UTC';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.end_time IS 'End time of the run in UTC, NULL while it runs';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.conversation_id IS 'Conversation the answer was saved to';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.message_id IS 'Saved answer of the run, its trace is read from there';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.error IS 'Error of a failed run';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_agent_schedule_run_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the ag_schedule_inbox_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.ag_schedule_inbox_t (
+    item_id SERIAL PRIMARY KEY NOT NULL,
+    schedule_id INTEGER,
+    run_id INTEGER,
+    tenant_id VARCHAR(100),
+    user_id VARCHAR(100),
+    summary TEXT,
+    read_flag BOOLEAN DEFAULT FALSE,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.ag_schedule_inbox_t IS 'Results of schedule runs delivered to the inbox of their owner';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.item_id IS 'Inbox item ID, primary key';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.schedule_id IS 'Schedule ID';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.run_id IS 'Run ID';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.user_id IS 'User ID of the inbox';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.summary IS 'Beginning of the answer, or the error of a failed run';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.read_flag IS 'Whether the user read the item';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_schedule_inbox_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
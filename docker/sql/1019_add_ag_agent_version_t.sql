@@ -0,0 +1,33 @@
+-- Immutable versions of an agent, one per save, and pinning of conversations to one of them
+CREATE TABLE IF NOT EXISTS nexent.ag_agent_version_t (
+    version_id SERIAL PRIMARY KEY NOT NULL,
+    agent_id INTEGER,
+    tenant_id VARCHAR(100),
+    version_no INTEGER,
+    snapshot JSON,
+    rollback_from INTEGER,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N',
+    CONSTRAINT ag_agent_version_t_agent_version_uk UNIQUE (agent_id, version_no)
+);
+COMMENT ON TABLE nexent.ag_agent_version_t IS 'Immutable versions of an agent, one per save';
+COMMENT ON COLUMN nexent.ag_agent_version_t.version_id IS 'Version ID, primary key';
+COMMENT ON COLUMN nexent.ag_agent_version_t.agent_id IS 'Agent ID';
+COMMENT ON COLUMN nexent.ag_agent_version_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_agent_version_t.version_no IS 'Version number, starting at 1 for every agent';
+COMMENT ON COLUMN nexent.ag_agent_version_t.snapshot IS 'Agent configuration at save time: prompts, model, max steps, enabled tools with their params and sub agent ids';
+COMMENT ON COLUMN nexent.ag_agent_version_t.rollback_from IS 'Version restored by this one, NULL when not created by a rollback';
+COMMENT ON COLUMN nexent.ag_agent_version_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_version_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_agent_version_t.created_by IS 'Author of the version, audit field';
+COMMENT ON COLUMN nexent.ag_agent_version_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_agent_version_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+ALTER TABLE nexent.conversation_record_t
+ADD COLUMN pinned_agent_id INT4,
+ADD COLUMN pinned_version_no INT4;
+COMMENT ON COLUMN nexent.conversation_record_t.pinned_agent_id IS 'Agent the conversation is pinned to, NULL when it follows the latest version';
+COMMENT ON COLUMN nexent.conversation_record_t.pinned_version_no IS 'Version of the pinned agent the conversation runs, NULL when it follows the latest version';
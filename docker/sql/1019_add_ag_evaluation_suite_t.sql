@@ -0,0 +1,50 @@
+-- Evaluation suites of agents and the reports of their runs
+CREATE TABLE IF NOT EXISTS nexent.ag_evaluation_suite_t (
+    suite_id SERIAL PRIMARY KEY NOT NULL,
+    agent_id INTEGER,
+    tenant_id VARCHAR(100),
+    suite_name VARCHAR(100),
+    cases JSON,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+COMMENT ON TABLE nexent.ag_evaluation_suite_t IS 'Evaluation suites of an agent: golden questions run in batch and scored automatically';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.suite_id IS 'Suite ID, primary key';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.agent_id IS 'Agent ID';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.suite_name IS 'Suite name';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.cases IS 'Cases of the suite: question, expectation, scorer, required tools and citations, forbidden phrases';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_suite_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+CREATE TABLE IF NOT EXISTS nexent.ag_evaluation_report_t (
+    report_id SERIAL PRIMARY KEY NOT NULL,
+    suite_id INTEGER,
+    agent_id INTEGER,
+    tenant_id VARCHAR(100),
+    version_no INTEGER,
+    results JSON,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+COMMENT ON TABLE nexent.ag_evaluation_report_t IS 'Results of the runs of an evaluation suite';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.report_id IS 'Report ID, primary key';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.suite_id IS 'Suite ID';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.agent_id IS 'Agent ID';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.version_no IS 'Agent version the suite ran against, NULL when unknown';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.results IS 'Result of every case: answer, checks, duration and error';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_evaluation_report_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
@@ -0,0 +1,32 @@
+-- Tool invocations of the playground kept as samples
+CREATE TABLE IF NOT EXISTS nexent.ag_tool_sample_t (
+    sample_id SERIAL PRIMARY KEY NOT NULL,
+    tool_id INTEGER,
+    agent_id INTEGER,
+    tenant_id VARCHAR(100),
+    params JSON,
+    inputs JSON,
+    output JSON,
+    error TEXT,
+    duration INTEGER,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+COMMENT ON TABLE nexent.ag_tool_sample_t IS 'Tool invocations of the playground kept as samples, e.g. for few-shot examples';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.sample_id IS 'Sample ID, primary key';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.tool_id IS 'Tool ID';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.agent_id IS 'Agent ID whose tool configuration was used';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.params IS 'Init params of the tool';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.inputs IS 'Call inputs of the tool';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.output IS 'Output of the tool, NULL when it raised an error';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.error IS 'Error raised by the tool';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.duration IS 'Duration of the invocation in milliseconds';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.ag_tool_sample_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
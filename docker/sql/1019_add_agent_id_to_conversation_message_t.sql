@@ -0,0 +1,3 @@
+ALTER TABLE nexent.conversation_message_t
+ADD COLUMN agent_id INT4;
+COMMENT ON COLUMN nexent.conversation_message_t.agent_id IS 'Agent that produced an assistant message, NULL for user messages';
@@ -0,0 +1,3 @@
+ALTER TABLE nexent.ag_tenant_agent_t
+ADD COLUMN approval_policy JSON;
+COMMENT ON COLUMN nexent.ag_tenant_agent_t.approval_policy IS 'Tool calls waiting for the user''s approval: default_mode and the tool_modes keyed by tool ID';
@@ -0,0 +1,19 @@
+ALTER TABLE nexent.mcp_record_t
+ADD COLUMN transport VARCHAR(30) DEFAULT 'sse',
+ADD COLUMN command VARCHAR(500),
+ADD COLUMN args JSON,
+ADD COLUMN env JSON,
+ADD COLUMN headers JSON,
+ADD COLUMN bearer_token VARCHAR(1000),
+ADD COLUMN timeout INTEGER DEFAULT 30,
+ADD COLUMN tool_filter JSON,
+ADD COLUMN recent_errors JSON;
+COMMENT ON COLUMN nexent.mcp_record_t.transport IS 'MCP transport: stdio, sse or streamable_http';
+COMMENT ON COLUMN nexent.mcp_record_t.command IS 'Command started by the backend, only for the stdio transport';
+COMMENT ON COLUMN nexent.mcp_record_t.args IS 'Arguments of the command, only for the stdio transport';
+COMMENT ON COLUMN nexent.mcp_record_t.env IS 'Environment variables of the command, only for the stdio transport, secret';
+COMMENT ON COLUMN nexent.mcp_record_t.headers IS 'Request headers sent to the server, secret';
+COMMENT ON COLUMN nexent.mcp_record_t.bearer_token IS 'Bearer token sent to the server, secret';
+COMMENT ON COLUMN nexent.mcp_record_t.timeout IS 'Connection timeout in seconds';
+COMMENT ON COLUMN nexent.mcp_record_t.tool_filter IS 'Tools exposed to agents: mode all, allow or deny and the tool names';
+COMMENT ON COLUMN nexent.mcp_record_t.recent_errors IS 'Latest connection errors with their time, newest first';
@@ -0,0 +1,65 @@
+-- Add pinning, folders, ordering and tags of conversations in the sidebar
+ALTER TABLE nexent.conversation_record_t
+ADD COLUMN pinned_flag VARCHAR(1) DEFAULT 'N',
+ADD COLUMN folder_id INT4,
+ADD COLUMN sort_order INT4;
+COMMENT ON COLUMN nexent.conversation_record_t.pinned_flag IS 'Whether the conversation is pinned to the top of the sidebar, optional values Y/N';
+COMMENT ON COLUMN nexent.conversation_record_t.folder_id IS 'Formal foreign key, folder the conversation is filed in, NULL for unfiled conversations';
+COMMENT ON COLUMN nexent.conversation_record_t.sort_order IS 'Position within its pinned list or folder, NULL when never reordered';
+
+CREATE TABLE IF NOT EXISTS nexent.conversation_folder_t (
+    folder_id SERIAL PRIMARY KEY NOT NULL,
+    folder_name VARCHAR(100),
+    sort_order INT4 DEFAULT 0,
+    delete_flag VARCHAR(1) DEFAULT 'N',
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100)
+);
+COMMENT ON TABLE nexent.conversation_folder_t IS 'User-defined folders grouping conversations in the sidebar';
+COMMENT ON COLUMN nexent.conversation_folder_t.folder_name IS 'Folder name';
+COMMENT ON COLUMN nexent.conversation_folder_t.sort_order IS 'Position of the folder in the sidebar';
+COMMENT ON COLUMN nexent.conversation_folder_t.delete_flag IS 'When deleted by user frontend, delete flag will be set to true, achieving soft delete effect. Optional values Y/N';
+COMMENT ON COLUMN nexent.conversation_folder_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.conversation_folder_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.conversation_folder_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.conversation_folder_t.updated_by IS 'Last updater ID, audit field';
+
+CREATE TABLE IF NOT EXISTS nexent.conversation_tag_t (
+    tag_id SERIAL PRIMARY KEY NOT NULL,
+    tag_name VARCHAR(100),
+    tag_color VARCHAR(20),
+    delete_flag VARCHAR(1) DEFAULT 'N',
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100)
+);
+COMMENT ON TABLE nexent.conversation_tag_t IS 'User-defined tags of conversations';
+COMMENT ON COLUMN nexent.conversation_tag_t.tag_name IS 'Tag name';
+COMMENT ON COLUMN nexent.conversation_tag_t.tag_color IS 'Hex color of the tag, such as #1677ff';
+COMMENT ON COLUMN nexent.conversation_tag_t.delete_flag IS 'When deleted by user frontend, delete flag will be set to true, achieving soft delete effect. Optional values Y/N';
+COMMENT ON COLUMN nexent.conversation_tag_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.conversation_tag_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.conversation_tag_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.conversation_tag_t.updated_by IS 'Last updater ID, audit field';
+
+CREATE TABLE IF NOT EXISTS nexent.conversation_tag_relation_t (
+    relation_id SERIAL PRIMARY KEY NOT NULL,
+    conversation_id INT4,
+    tag_id INT4,
+    delete_flag VARCHAR(1) DEFAULT 'N',
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100)
+);
+COMMENT ON TABLE nexent.conversation_tag_relation_t IS 'Tags attached to conversations';
+COMMENT ON COLUMN nexent.conversation_tag_relation_t.conversation_id IS 'Formal foreign key, used to associate with the tagged conversation';
+COMMENT ON COLUMN nexent.conversation_tag_relation_t.tag_id IS 'Formal foreign key, used to associate with the tag';
+COMMENT ON COLUMN nexent.conversation_tag_relation_t.delete_flag IS 'When deleted by user frontend, delete flag will be set to true, achieving soft delete effect. Optional values Y/N';
+COMMENT ON COLUMN nexent.conversation_tag_relation_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.conversation_tag_relation_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.conversation_tag_relation_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.conversation_tag_relation_t.updated_by IS 'Last updater ID, audit field';
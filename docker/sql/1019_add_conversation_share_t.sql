@@ -0,0 +1,27 @@
+-- Read-only share links holding a snapshot of a conversation
+CREATE TABLE IF NOT EXISTS nexent.conversation_share_t (
+    share_id SERIAL PRIMARY KEY NOT NULL,
+    share_token VARCHAR(64) UNIQUE,
+    conversation_id INT4,
+    tenant_id VARCHAR(100),
+    visibility VARCHAR(20),
+    redact_flag VARCHAR(1) DEFAULT 'N',
+    snapshot_content TEXT,
+    delete_flag VARCHAR(1) DEFAULT 'N',
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100)
+);
+COMMENT ON TABLE nexent.conversation_share_t IS 'Read-only share links holding a snapshot of a conversation';
+COMMENT ON COLUMN nexent.conversation_share_t.share_token IS 'Random token of the share link';
+COMMENT ON COLUMN nexent.conversation_share_t.conversation_id IS 'Formal foreign key, used to associate with the shared conversation';
+COMMENT ON COLUMN nexent.conversation_share_t.tenant_id IS 'Tenant of the owner, tenant links only open for signed-in users of this tenant';
+COMMENT ON COLUMN nexent.conversation_share_t.visibility IS 'Who can open the link, optional values public/tenant';
+COMMENT ON COLUMN nexent.conversation_share_t.redact_flag IS 'Whether tool inputs were replaced in the snapshot, optional values Y/N';
+COMMENT ON COLUMN nexent.conversation_share_t.snapshot_content IS 'JSON snapshot of the conversation title and messages at share time';
+COMMENT ON COLUMN nexent.conversation_share_t.delete_flag IS 'Set to Y when the link is revoked, achieving soft delete effect. Optional values Y/N';
+COMMENT ON COLUMN nexent.conversation_share_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.conversation_share_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.conversation_share_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.conversation_share_t.updated_by IS 'Last updater ID, audit field';
@@ -0,0 +1,3 @@
+ALTER TABLE nexent.knowledge_record_t
+ADD COLUMN ingestion_profile JSON;
+COMMENT ON COLUMN nexent.knowledge_record_t.ingestion_profile IS 'How the documents are parsed and chunked: chunk_size, chunk_overlap, split_by, ocr, table_mode and language';
@@ -0,0 +1,31 @@
+-- Metadata and visibility of the documents of knowledge bases
+-- Create the knowledge_document_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.knowledge_document_t (
+    document_id SERIAL PRIMARY KEY NOT NULL,
+    index_name VARCHAR(100),
+    tenant_id VARCHAR(100),
+    path_or_url TEXT,
+    metadata JSON,
+    visibility JSON,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.knowledge_document_t IS 'Metadata and visibility of the documents of knowledge bases';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.knowledge_document_t.document_id IS 'Document ID, primary key';
+COMMENT ON COLUMN nexent.knowledge_document_t.index_name IS 'Index name of the knowledge base of the document';
+COMMENT ON COLUMN nexent.knowledge_document_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.knowledge_document_t.path_or_url IS 'URL, path or object of the document, the path_or_url of its chunks';
+COMMENT ON COLUMN nexent.knowledge_document_t.metadata IS 'Values of the metadata fields of the knowledge base, keyed by field key';
+COMMENT ON COLUMN nexent.knowledge_document_t.visibility IS 'Who may retrieve the document: restricted, and the emails and roles allowed when restricted';
+COMMENT ON COLUMN nexent.knowledge_document_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.knowledge_document_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.knowledge_document_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_document_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_document_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
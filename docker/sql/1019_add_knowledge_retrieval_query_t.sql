@@ -0,0 +1,29 @@
+-- Saved retrieval test queries of knowledge bases with the results they had when saved
+-- Create the knowledge_retrieval_query_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.knowledge_retrieval_query_t (
+    query_id SERIAL PRIMARY KEY NOT NULL,
+    tenant_id VARCHAR(100),
+    user_id VARCHAR(100),
+    params JSON,
+    results JSON,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.knowledge_retrieval_query_t IS 'Saved retrieval test queries of knowledge bases, run again after reindexing to compare with the saved results';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.query_id IS 'Query ID, primary key';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.user_id IS 'User ID of the owner';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.params IS 'Parameters of the test: query, index names, search mode, rerank model and top k';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.results IS 'Ranked chunks retrieved when the query was saved, the baseline of the comparison';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_retrieval_query_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
@@ -0,0 +1,109 @@
+-- External sources of knowledge bases, the documents synced from them and the sync runs
+-- Create the knowledge_source_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.knowledge_source_t (
+    source_id SERIAL PRIMARY KEY NOT NULL,
+    index_name VARCHAR(100),
+    tenant_id VARCHAR(100),
+    user_id VARCHAR(100),
+    source_name VARCHAR(100),
+    source_type VARCHAR(20),
+    config JSON,
+    sync_interval VARCHAR(20) DEFAULT 'manual',
+    next_sync_time TIMESTAMP WITHOUT TIME ZONE,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.knowledge_source_t IS 'External sources the documents of knowledge bases are synced from';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.knowledge_source_t.source_id IS 'Source ID, primary key';
+COMMENT ON COLUMN nexent.knowledge_source_t.index_name IS 'Index name of the knowledge base the documents are synced to';
+COMMENT ON COLUMN nexent.knowledge_source_t.tenant_id IS 'Tenant ID, its embedding model embeds the synced documents';
+COMMENT ON COLUMN nexent.knowledge_source_t.user_id IS 'User ID of the creator';
+COMMENT ON COLUMN nexent.knowledge_source_t.source_name IS 'Source name';
+COMMENT ON COLUMN nexent.knowledge_source_t.source_type IS 'Source type, optional values urls/sitemap/folder/bucket';
+COMMENT ON COLUMN nexent.knowledge_source_t.config IS 'Where the documents are fetched from: urls, sitemap_url and include_pattern, path and recursive, or bucket and prefix';
+COMMENT ON COLUMN nexent.knowledge_source_t.sync_interval IS 'Interval of the automatic syncs, optional values manual/hourly/daily/weekly';
+COMMENT ON COLUMN nexent.knowledge_source_t.next_sync_time IS 'Next automatic sync in UTC, null for sources synced manually';
+COMMENT ON COLUMN nexent.knowledge_source_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the knowledge_source_document_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.knowledge_source_document_t (
+    document_id SERIAL PRIMARY KEY NOT NULL,
+    source_id INTEGER,
+    tenant_id VARCHAR(100),
+    path_or_url TEXT,
+    content_hash VARCHAR(64),
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.knowledge_source_document_t IS 'Documents synced from the knowledge base sources with the hash of their content';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.knowledge_source_document_t.document_id IS 'Document ID, primary key';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.source_id IS 'Source ID the document is synced from';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.path_or_url IS 'URL, path or object of the document, the path_or_url of its chunks in the index';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.content_hash IS 'SHA-256 of the content indexed last, a document is processed again when it changes';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_document_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
+
+-- Create the knowledge_source_sync_t table in the nexent schema
+CREATE TABLE IF NOT EXISTS nexent.knowledge_source_sync_t (
+    run_id SERIAL PRIMARY KEY NOT NULL,
+    source_id INTEGER,
+    tenant_id VARCHAR(100),
+    status VARCHAR(20),
+    start_time TIMESTAMP WITHOUT TIME ZONE,
+    end_time TIMESTAMP WITHOUT TIME ZONE,
+    added INTEGER DEFAULT 0,
+    updated INTEGER DEFAULT 0,
+    removed INTEGER DEFAULT 0,
+    unchanged INTEGER DEFAULT 0,
+    failed INTEGER DEFAULT 0,
+    error TEXT,
+    create_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    update_time TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    created_by VARCHAR(100),
+    updated_by VARCHAR(100),
+    delete_flag VARCHAR(1) DEFAULT 'N'
+);
+
+-- Add comment to the table
+COMMENT ON TABLE nexent.knowledge_source_sync_t IS 'Sync runs of the knowledge base sources';
+
+-- Add comments to the columns
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.run_id IS 'Run ID, primary key';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.source_id IS 'Source ID';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.tenant_id IS 'Tenant ID';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.status IS 'Status of the run, optional values running/success/failed';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.start_time IS 'Start time of the run in UTC';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.end_time IS 'End time of the run in UTC, null while it runs';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.added IS 'Number of new documents indexed';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.updated IS 'Number of modified documents indexed again';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.removed IS 'Number of documents removed from the knowledge base, they no longer exist in the source';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.unchanged IS 'Number of documents whose content did not change';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.failed IS 'Number of documents that could not be fetched or indexed';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.error IS 'Error of a failed run';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.create_time IS 'Creation time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.update_time IS 'Update time, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.created_by IS 'Creator ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.updated_by IS 'Last updater ID, audit field';
+COMMENT ON COLUMN nexent.knowledge_source_sync_t.delete_flag IS 'Delete flag, set to Y for soft delete, optional values Y/N';
@@ -0,0 +1,3 @@
+ALTER TABLE nexent.knowledge_record_t
+ADD COLUMN metadata_fields JSON;
+COMMENT ON COLUMN nexent.knowledge_record_t.metadata_fields IS 'Metadata fields of the documents: key, label, type and the options of select fields';
@@ -0,0 +1,14 @@
+ALTER TABLE nexent.conversation_message_t
+ADD COLUMN parent_message_id INT4;
+COMMENT ON COLUMN nexent.conversation_message_t.parent_message_id IS 'Message this one follows, NULL for the first message. Messages sharing a parent are branches of the conversation';
+
+-- Existing conversations are linear: every message follows the previous one
+UPDATE nexent.conversation_message_t AS m
+SET parent_message_id = ordered.previous_message_id
+FROM (
+  SELECT message_id,
+         LAG(message_id) OVER (PARTITION BY conversation_id ORDER BY message_index, message_id) AS previous_message_id
+  FROM nexent.conversation_message_t
+  WHERE delete_flag = 'N'
+) AS ordered
+WHERE m.message_id = ordered.message_id;
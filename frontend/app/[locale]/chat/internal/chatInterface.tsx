@@ -9,11 +9,14 @@ import { useConfig } from "@/hooks/useConfig"
 import { conversationService } from '@/services/conversationService';
 import { storageService } from '@/services/storageService';
 import { useAuth } from "@/hooks/useAuth"
+import { useConversationOrganizer } from "@/hooks/useConversationOrganizer"
 import { useTranslation } from 'react-i18next';
 
 import { ChatSidebar } from "@/app/chat/layout/chatLeftSidebar"
 import { FilePreview } from "@/app/chat/layout/chatInput"
 import { ChatHeader } from "@/app/chat/layout/chatHeader"
+import { ShareConversationDialog } from "@/app/chat/layout/shareConversationDialog"
+import { AgentVersionPinDialog } from "@/app/chat/layout/agentVersionPinDialog"
 import { ChatRightPanel } from "@/app/chat/layout/chatRightPanel"
 import { ChatStreamMain } from "@/app/chat/streaming/chatStreamMain"
 
@@ -27,12 +30,37 @@ import {
 } from "@/app/chat/internal/chatPreprocess"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 
-import { ConversationListItem, ApiConversationDetail } from '@/types/chat'
+import { ConversationListItem, ApiConversationDetail, ConversationAgentPin } from '@/types/chat'
+import { ConversationSearchHit } from '@/types/conversation'
+import { InboxItem } from '@/types/schedule'
 import { ChatMessageType, AgentStep } from '@/types/chat'
 import { handleStreamResponse } from "@/app/chat/streaming/chatStreamHandler"
+import { isResumableStreamError, supportsResume } from "@/app/chat/streaming/streamProtocol"
+import { AgentStreamState } from "@/app/chat/streaming/streamReducer"
+import { hasPendingApproval } from "@/app/chat/streaming/toolApproval"
+import { MAX_RESUME_ATTEMPTS, streamCheckpointStorage, waitForReconnect } from "@/app/chat/streaming/streamResume"
 import { extractUserMsgFromResponse, extractAssistantMsgFromResponse } from "./extractMsgFromHistoryResponse"
+import {
+  ConversationExportFile,
+  ConversationExportFormat,
+  exportConversation,
+  importConversation,
+  parseConversationJson
+} from "./conversationExport"
+import {
+  ConversationBranches,
+  addBranch,
+  createConversationBranches,
+  getBranchPosition,
+  linkHistoryMessages,
+  mergeActivePath,
+  resolveActivePath,
+  revealMessage,
+  selectSibling
+} from "./messageBranches"
 
 import { X } from "lucide-react"
+import { App } from "antd"
 import { getUrlParam } from "@/lib/utils";
 
 const stepIdCounter = {current: 0};
@@ -47,10 +75,16 @@ export function ChatInterface() {
   const [isLoading, setIsLoading] = useState(false)
   const initialized = useRef(false)
   const { t } = useTranslation('common');
+  const { message } = App.useApp()
   const [appName, setAppName] = useState(t("chatInterface.newApp"))
   const [conversationTitle, setConversationTitle] = useState(t("chatInterface.newConversation"))
   const [conversationId, setConversationId] = useState<number>(0)
   const [conversationList, setConversationList] = useState<ConversationListItem[]>([])
+  const organizer = useConversationOrganizer({
+    conversationList,
+    setConversationList,
+    refreshConversationList: () => fetchConversationList(),
+  })
   const [selectedConversationId, setSelectedConversationId] = useState<number | null>(null)
   const [openDropdownId, setOpenDropdownId] = useState<string | null>(null)
   const { appConfig } = useConfig()
@@ -59,11 +93,22 @@ export function ChatInterface() {
   const [streamingConversations, setStreamingConversations] = useState<Set<number>>(new Set())
   const conversationControllersRef = useRef<Map<number, AbortController>>(new Map())
   const conversationTimeoutsRef = useRef<Map<number, NodeJS.Timeout>>(new Map())
+  // Full message tree of each conversation, sessionMessages only holds the path currently shown
+  const [conversationBranches, setConversationBranches] = useState<{ [conversationId: number]: ConversationBranches }>({})
+  // Reduced stream state and active reader of each streaming conversation, used to resume after a drop
+  const conversationStreamStatesRef = useRef<Map<number, { current: AgentStreamState | null }>>(new Map())
+  const conversationReadersRef = useRef<Map<number, ReadableStreamDefaultReader<Uint8Array>>>(new Map())
 
   // 将 currentMessages 的声明放在 selectedConversationId 定义之后
   // 如果正在加载历史会话且没有缓存的消息，返回空数组避免显示错误内容
   const currentMessages = selectedConversationId ? (sessionMessages[selectedConversationId] || []) : [];
 
+  // Tree of the current conversation including the messages streamed into the shown path
+  const activeBranches = mergeActivePath(
+    (selectedConversationId && conversationBranches[selectedConversationId]) || createConversationBranches(),
+    currentMessages
+  );
+
   // 监控 currentMessages 变化
   // 计算当前对话是否正在流式传输
   const isCurrentConversationStreaming = conversationId && conversationId !== -1 ? streamingConversations.has(conversationId) : false;
@@ -105,6 +150,13 @@ export function ChatInterface() {
   // Add force scroll to bottom state control
   const [shouldScrollToBottom, setShouldScrollToBottom] = useState(false);
 
+  // Message picked from the history search, jumped to once its conversation is shown
+  const [pendingSearchJump, setPendingSearchJump] = useState<{ conversationId: number; messageId: number } | null>(null);
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
+
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isPinDialogOpen, setIsPinDialogOpen] = useState(false);
+
   // Add agent selection state
   const [selectedAgentId, setSelectedAgentId] = useState<number | null>(null);
 
@@ -164,6 +216,14 @@ export function ChatInterface() {
       // Get conversation history list, but don't auto-select the latest conversation
       fetchConversationList()
         .then((dialogData) => {
+          // A run interrupted by a page reload takes precedence over the new conversation screen
+          const checkpoint = streamCheckpointStorage.list()
+            .find(item => dialogData.some(dialog => dialog.conversation_id === item.conversation_id));
+          const interruptedDialog = checkpoint && dialogData.find(dialog => dialog.conversation_id === checkpoint.conversation_id);
+          if (interruptedDialog) {
+            resumeInterruptedRun(interruptedDialog)
+            return
+          }
           // Create new conversation by default regardless of history
           handleNewConversation()
         })
@@ -206,6 +266,172 @@ export function ChatInterface() {
     };
   }, []);
 
+  // setCurrentSessionMessages factory function
+  const setCurrentSessionMessagesFactory = (targetConversationId: number): React.Dispatch<React.SetStateAction<ChatMessageType[]>> => (valueOrUpdater) => {
+    setSessionMessages(prev => {
+      const prevArr = prev[targetConversationId] || [];
+      let nextArr: ChatMessageType[];
+      if (typeof valueOrUpdater === 'function') {
+        nextArr = (valueOrUpdater as (prev: ChatMessageType[]) => ChatMessageType[])(prevArr);
+      } else {
+        nextArr = valueOrUpdater;
+      }
+      // Ensure new reference
+      return {
+        ...prev,
+        [targetConversationId]: [...nextArr]
+      };
+    });
+  };
+
+  // Create resetTimeout function for a streaming conversation
+  const createResetTimeout = (currentConversationId: number) => () => {
+    const timeout = conversationTimeoutsRef.current.get(currentConversationId);
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+    const newTimeout = setTimeout(async () => {
+      conversationTimeoutsRef.current.delete(currentConversationId);
+
+      // A stalled resumable stream is dropped and reconnected instead of stopping the run
+      const streamState = conversationStreamStatesRef.current.get(currentConversationId)?.current;
+      // A run paused on an approval request is silent until the user answers, it is not stalled
+      if (hasPendingApproval(streamState?.approvals)) {
+        createResetTimeout(currentConversationId)();
+        return;
+      }
+
+      const activeReader = conversationReadersRef.current.get(currentConversationId);
+      if (streamState && activeReader && supportsResume(streamState.protocolVersion)) {
+        activeReader.cancel().catch(() => {});
+        return;
+      }
+
+      const controller = conversationControllersRef.current.get(currentConversationId);
+      if (controller && !controller.signal.aborted) {
+        try {
+          controller.abort(t("chatInterface.requestTimeout"));
+          console.log(t('chatInterface.requestTimeoutMessage'));
+
+          setSessionMessages(prev => {
+            const newMessages = { ...prev };
+            const lastMsg = newMessages[currentConversationId]?.[newMessages[currentConversationId].length - 1];
+            if (lastMsg && lastMsg.role === "assistant") {
+              lastMsg.error = t("chatInterface.requestTimeoutRetry");
+              lastMsg.isComplete = true;
+              lastMsg.thinking = undefined;
+            }
+            return newMessages;
+          });
+
+          if (currentConversationId && currentConversationId !== -1) {
+            try {
+              await conversationService.stop(currentConversationId);
+            } catch (error) {
+              console.error(t("chatInterface.stopTimeoutRequestFailed"), error);
+            }
+          }
+        } catch (error) {
+          console.log(t("chatInterface.errorCancelingRequest"), error);
+        }
+      }
+    }, 120000);
+    conversationTimeoutsRef.current.set(currentConversationId, newTimeout);
+  };
+
+  // Replace the messages of a conversation with its saved history, used when a dropped run
+  // finished on the server before the client could reconnect
+  const reloadConversationHistory = async (targetConversationId: number) => {
+    const data = await conversationService.getDetail(targetConversationId);
+    const conversationData = data.data?.[0] as ApiConversationDetail | undefined;
+    if (data.code !== 0 || !conversationData) {
+      throw new Error(t("chatStreamMain.noHistory"));
+    }
+
+    const formattedMessages: ChatMessageType[] = (conversationData.message || []).flatMap((dialog_msg, index) => {
+      if (dialog_msg.role === "user") {
+        return [extractUserMsgFromResponse(dialog_msg, index, conversationData.create_time)];
+      }
+      if (dialog_msg.role === "assistant") {
+        return [extractAssistantMsgFromResponse(dialog_msg, index, conversationData.create_time, t)];
+      }
+      return [];
+    });
+
+    const shownMessages = showHistoryMessages(targetConversationId, formattedMessages);
+    loadAttachmentUrls(shownMessages, targetConversationId);
+  };
+
+  // Read an agent stream into a conversation. When the connection drops, reconnect through the
+  // resume endpoint and replay the missed events into the same steps. When the run already
+  // finished on the server, the saved history replaces the partial answer.
+  const consumeAgentStream = async (
+    targetConversationId: number,
+    initialReader: ReadableStreamDefaultReader<Uint8Array>,
+    controller: AbortController,
+    isNewConversationRun: boolean
+  ) => {
+    const streamStateRef: { current: AgentStreamState | null } = { current: null };
+    conversationStreamStatesRef.current.set(targetConversationId, streamStateRef);
+    const resetTimeout = createResetTimeout(targetConversationId);
+
+    let reader: ReadableStreamDefaultReader<Uint8Array> | null = initialReader;
+    let attempt = 0;
+
+    try {
+      while (true) {
+        try {
+          if (!reader) {
+            reader = await conversationService.resumeAgent(
+              targetConversationId,
+              streamStateRef.current?.lastSeq ?? 0,
+              controller.signal
+            );
+            if (!reader) {
+              await reloadConversationHistory(targetConversationId);
+              return;
+            }
+          }
+          conversationReadersRef.current.set(targetConversationId, reader);
+
+          // Before processing streaming response, set an initial timeout first
+          resetTimeout();
+
+          await handleStreamResponse(
+            reader,
+            setCurrentSessionMessagesFactory(targetConversationId),
+            resetTimeout,
+            stepIdCounter,
+            setIsSwitchedConversation,
+            isNewConversationRun,
+            setConversationTitle,
+            fetchConversationList,
+            targetConversationId,
+            conversationService,
+            false, // isDebug: false for normal chat mode
+            t,
+            streamStateRef
+          );
+          return;
+        } catch (error) {
+          if (controller.signal.aborted || !isResumableStreamError(error)) {
+            throw error;
+          }
+          if (attempt >= MAX_RESUME_ATTEMPTS) {
+            throw new Error(t("chatInterface.streamResumeFailed"));
+          }
+          attempt += 1;
+          reader = null;
+          console.warn(t("chatInterface.streamReconnecting", { attempt, max: MAX_RESUME_ATTEMPTS }), error);
+          await waitForReconnect(attempt, controller.signal);
+        }
+      }
+    } finally {
+      conversationStreamStatesRef.current.delete(targetConversationId);
+      conversationReadersRef.current.delete(targetConversationId);
+    }
+  };
+
    const handleSend = async () => {
     if ((!input.trim()) && attachments.length === 0) return // Allow sending attachments only, without text content
 
@@ -515,96 +741,30 @@ export function ChatInterface() {
       if (selectedAgentId !== null) {
         runAgentParams.agent_id = selectedAgentId;
       }
+      applyAgentPin(runAgentParams, currentConversationId);
+
+      // Continue the branch currently shown, not whichever message the server saved last
+      const lastShownMessage = currentMessages.filter(msg => msg.id !== userMessage.id).pop();
+      if (lastShownMessage?.message_id !== undefined) {
+        runAgentParams.parent_message_id = lastShownMessage.message_id;
+      }
 
       const reader = await conversationService.runAgent(runAgentParams, currentController.signal);
 
       if (!reader) throw new Error("Response body is null")
 
-      // Create dynamic setCurrentSessionMessages in handleSend function
-      // setCurrentSessionMessages factory function
-      const setCurrentSessionMessagesFactory = (targetConversationId: number): React.Dispatch<React.SetStateAction<ChatMessageType[]>> => (valueOrUpdater) => {
-        setSessionMessages(prev => {
-          const prevArr = prev[targetConversationId] || [];
-          let nextArr: ChatMessageType[];
-          if (typeof valueOrUpdater === 'function') {
-            nextArr = (valueOrUpdater as (prev: ChatMessageType[]) => ChatMessageType[])(prevArr);
-          } else {
-            nextArr = valueOrUpdater;
-          }
-          // Ensure new reference
-          return {
-            ...prev,
-            [targetConversationId]: [...nextArr]
-          };
-        });
-      };
+      // Remember the run so a reloaded page can reattach to it
+      streamCheckpointStorage.save(currentConversationId);
 
-      // Create resetTimeout function for current conversation
-      const resetTimeout = () => {
-        const timeout = conversationTimeoutsRef.current.get(currentConversationId);
-        if (timeout) {
-          clearTimeout(timeout);
-        }
-        const newTimeout = setTimeout(async () => {
-          const controller = conversationControllersRef.current.get(currentConversationId);
-          if (controller && !controller.signal.aborted) {
-            try {
-              controller.abort(t("chatInterface.requestTimeout"));
-              console.log(t('chatInterface.requestTimeoutMessage'));
-
-              setSessionMessages(prev => {
-                const newMessages = { ...prev };
-                const lastMsg = newMessages[currentConversationId]?.[newMessages[currentConversationId].length - 1];
-                if (lastMsg && lastMsg.role === "assistant") {
-                  lastMsg.error = t("chatInterface.requestTimeoutRetry");
-                  lastMsg.isComplete = true;
-                  lastMsg.thinking = undefined;
-                }
-                return newMessages;
-              });
-
-              if (currentConversationId && currentConversationId !== -1) {
-                try {
-                  await conversationService.stop(currentConversationId);
-                } catch (error) {
-                  console.error(t("chatInterface.stopTimeoutRequestFailed"), error);
-                }
-              }
-            } catch (error) {
-              console.log(t("chatInterface.errorCancelingRequest"), error);
-            }
-          }
-          conversationTimeoutsRef.current.delete(currentConversationId);
-        }, 120000);
-        conversationTimeoutsRef.current.set(currentConversationId, newTimeout);
-      };
-
-      // Before processing streaming response, set an initial timeout first
-      resetTimeout();
-
-      // Call streaming processing function to handle response
-      // Compatible with both function and direct assignment
-      await handleStreamResponse(
-        reader,
-        setCurrentSessionMessagesFactory(currentConversationId),
-        resetTimeout,
-        stepIdCounter,
-        setIsSwitchedConversation,
-        isNewConversation,
-        setConversationTitle,
-        fetchConversationList,
-        currentConversationId,
-        conversationService,
-        false, // isDebug: false for normal chat mode
-        t
-      );
+      await consumeAgentStream(currentConversationId, reader, currentController, isNewConversation);
 
       // Reset all related states
       setIsLoading(false);
       setIsStreaming(false);
       
-      // Clean up controller and timeout for current conversation
+      // Clean up controller, timeout and resume checkpoint for current conversation
       conversationControllersRef.current.delete(currentConversationId);
+      streamCheckpointStorage.remove(currentConversationId);
       const timeout = conversationTimeoutsRef.current.get(currentConversationId);
       if (timeout) {
         clearTimeout(timeout);
@@ -666,8 +826,9 @@ export function ChatInterface() {
       setIsLoading(false);
       setIsStreaming(false);
       
-      // Clean up controller and timeout for current conversation
+      // Clean up controller, timeout and resume checkpoint for current conversation
       conversationControllersRef.current.delete(currentConversationId);
+      streamCheckpointStorage.remove(currentConversationId);
       const timeout = conversationTimeoutsRef.current.get(currentConversationId);
       if (timeout) {
         clearTimeout(timeout);
@@ -763,6 +924,15 @@ export function ChatInterface() {
     }
   };
 
+  // Turn the messages of all branches loaded from history into the tree and show its active path
+  const showHistoryMessages = (targetConversationId: number, formattedMessages: ChatMessageType[]) => {
+    const branches = createConversationBranches(linkHistoryMessages(formattedMessages));
+    const shownMessages = resolveActivePath(branches);
+    setConversationBranches(prev => ({ ...prev, [targetConversationId]: branches }));
+    setSessionMessages(prev => ({ ...prev, [targetConversationId]: shownMessages }));
+    return shownMessages;
+  };
+
   // When switching conversation, automatically load messages
   const handleDialogClick = async (dialog: ConversationListItem) => {
     // When switching conversation, keep all SSE connections active
@@ -854,11 +1024,8 @@ export function ChatInterface() {
               }
             });
 
-            // Update message array
-            setSessionMessages(prev => ({
-              ...prev,
-              [dialog.conversation_id]: formattedMessages
-            }));
+            // Update message array, showing the newest branch of every fork
+            const shownMessages = showHistoryMessages(dialog.conversation_id, formattedMessages);
 
             // Clear any previous error for this conversation
             setConversationLoadError(prev => {
@@ -868,7 +1035,7 @@ export function ChatInterface() {
             });
 
             // Asynchronously load all attachment URLs
-            loadAttachmentUrls(formattedMessages, dialog.conversation_id);
+            loadAttachmentUrls(shownMessages, dialog.conversation_id);
 
             // Trigger scroll to bottom
             setShouldScrollToBottom(true);
@@ -975,11 +1142,8 @@ export function ChatInterface() {
             }
           });
 
-          // Update message array
-          setSessionMessages(prev => ({
-            ...prev,
-            [dialog.conversation_id]: formattedMessages
-          }));
+          // Update message array, showing the newest branch of every fork
+          const shownMessages = showHistoryMessages(dialog.conversation_id, formattedMessages);
 
           // Clear any previous error for this conversation
           setConversationLoadError(prev => {
@@ -989,7 +1153,7 @@ export function ChatInterface() {
           });
 
           // Asynchronously load all attachment URLs
-          loadAttachmentUrls(formattedMessages, dialog.conversation_id);
+          loadAttachmentUrls(shownMessages, dialog.conversation_id);
 
           // Trigger scroll to bottom
           setShouldScrollToBottom(true);
@@ -1028,6 +1192,209 @@ export function ChatInterface() {
     }
   }
 
+  // Reattach to a run that was still streaming when the page was reloaded
+  const resumeInterruptedRun = async (dialog: ConversationListItem) => {
+    const targetConversationId = dialog.conversation_id;
+    const controller = new AbortController();
+
+    // Replay the whole run: the page lost every event it had received
+    const reader = await conversationService
+      .resumeAgent(targetConversationId, 0, controller.signal)
+      .catch(() => null);
+    if (!reader) {
+      // The run finished meanwhile (or the server cannot resume), its answer is in the history
+      streamCheckpointStorage.remove(targetConversationId);
+      await handleDialogClick(dialog);
+      return;
+    }
+
+    // The user message was saved when the run started, load it with the rest of the history
+    await handleDialogClick(dialog);
+    // The message list is already loaded, the replayed run streams into a new answer placeholder
+    setSessionMessages(prev => ({
+      ...prev,
+      [targetConversationId]: [...(prev[targetConversationId] || []), createAssistantPlaceholder()],
+    }));
+
+    await streamDetachedRun(targetConversationId, controller, async () => reader);
+  };
+
+  const createAssistantPlaceholder = (parentId?: string | null): ChatMessageType => ({
+    id: uuidv4(),
+    role: "assistant",
+    content: "",
+    timestamp: new Date(),
+    isComplete: false,
+    steps: [],
+    attachments: [],
+    images: [],
+    ...(parentId !== undefined ? { parentId } : {}),
+  });
+
+  // Stream a run started outside handleSend (resume after reload, edit, regenerate) into the last
+  // assistant message of a conversation, with the same bookkeeping as a normal send
+  const streamDetachedRun = async (
+    targetConversationId: number,
+    controller: AbortController,
+    openStream: () => Promise<ReadableStreamDefaultReader<Uint8Array>>
+  ) => {
+    conversationControllersRef.current.set(targetConversationId, controller);
+    setStreamingConversations(prev => new Set(prev).add(targetConversationId));
+    setIsStreaming(true);
+
+    try {
+      const reader = await openStream();
+      streamCheckpointStorage.save(targetConversationId);
+      await consumeAgentStream(targetConversationId, reader, controller, false);
+    } catch (error) {
+      const err = error as Error;
+      const stopped = err.name === 'AbortError';
+      if (!stopped) {
+        console.error(t("chatInterface.errorLabel"), error);
+      }
+      setSessionMessages(prev => {
+        const newMessages = { ...prev };
+        const lastMsg = newMessages[targetConversationId]?.[newMessages[targetConversationId].length - 1];
+        if (lastMsg && lastMsg.role === "assistant") {
+          lastMsg.content = stopped ? t("chatInterface.conversationStopped") : err.message;
+          lastMsg.error = stopped ? undefined : err.message;
+          lastMsg.isComplete = true;
+          lastMsg.thinking = undefined;
+        }
+        return newMessages;
+      });
+    } finally {
+      setIsStreaming(false);
+      conversationControllersRef.current.delete(targetConversationId);
+      streamCheckpointStorage.remove(targetConversationId);
+      const timeout = conversationTimeoutsRef.current.get(targetConversationId);
+      if (timeout) {
+        clearTimeout(timeout);
+        conversationTimeoutsRef.current.delete(targetConversationId);
+      }
+      setStreamingConversations(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(targetConversationId);
+        return newSet;
+      });
+    }
+  };
+
+  // Show a branch of the current conversation: the new tree becomes the source of the shown path
+  const showBranches = (targetConversationId: number, branches: ConversationBranches) => {
+    setConversationBranches(prev => ({ ...prev, [targetConversationId]: branches }));
+    setSessionMessages(prev => ({ ...prev, [targetConversationId]: resolveActivePath(branches) }));
+  };
+
+  const handleBranchChange = (message: ChatMessageType, direction: -1 | 1) => {
+    if (!conversationId || conversationId === -1 || isCurrentConversationStreaming) return;
+    showBranches(conversationId, selectSibling(activeBranches, message, direction));
+  };
+
+  // Run the agent for a new branch whose messages were just added to the tree
+  const runBranch = async (query: string, history: ChatMessageType[], parentMessageId: number, files?: ChatMessageType["attachments"]) => {
+    const targetConversationId = conversationId;
+    const controller = new AbortController();
+
+    const runAgentParams: any = {
+      query,
+      conversation_id: targetConversationId,
+      is_set: false,
+      history: history.map(msg => ({
+        role: msg.role,
+        content: msg.role === "assistant"
+          ? (msg.finalAnswer?.trim() || msg.content || "")
+          : (msg.content || "")
+      })),
+      minio_files: files && files.length > 0 ? files : undefined,
+      parent_message_id: parentMessageId,
+    };
+    if (selectedAgentId !== null) {
+      runAgentParams.agent_id = selectedAgentId;
+    }
+    applyAgentPin(runAgentParams, targetConversationId);
+
+    await streamDetachedRun(
+      targetConversationId,
+      controller,
+      () => conversationService.runAgent(runAgentParams, controller.signal)
+    );
+  };
+
+  // Edit a past user message: save the new text next to the original and answer it
+  const handleEditMessage = async (original: ChatMessageType, content: string) => {
+    if (!conversationId || conversationId === -1 || isCurrentConversationStreaming) return;
+
+    const path = resolveActivePath(activeBranches);
+    const position = path.findIndex(msg => msg.id === original.id);
+    if (position < 0) return;
+    const parent = position > 0 ? path[position - 1] : null;
+    if (parent && parent.message_id === undefined) {
+      message.error(t("chatInterface.branchNotSaved"));
+      return;
+    }
+
+    let savedMessageId: unknown;
+    try {
+      savedMessageId = await conversationService.saveMessage({
+        conversation_id: conversationId,
+        message_idx: String(position),
+        role: "user",
+        message: [{ type: "string", content }],
+        parent_message_id: parent ? parent.message_id : null,
+        minio_files: original.attachments?.map(attachment => ({
+          ...attachment,
+          object_name: attachment.object_name || ''
+        })),
+      });
+    } catch (error) {
+      console.error(t("chatInterface.errorLabel"), error);
+      message.error(t("chatInterface.branchSaveFailed"));
+      return;
+    }
+    // Servers that predate branching acknowledge the save without returning the new id
+    if (typeof savedMessageId !== "number") {
+      message.error(t("chatInterface.branchUnsupported"));
+      return;
+    }
+
+    const userMessage: ChatMessageType = {
+      id: uuidv4(),
+      role: "user",
+      message_id: savedMessageId,
+      parent_message_id: parent ? parent.message_id : null,
+      parentId: parent ? parent.id : null,
+      content,
+      timestamp: new Date(),
+      isComplete: true,
+      attachments: original.attachments,
+    };
+    const assistantMessage = createAssistantPlaceholder(userMessage.id);
+    showBranches(conversationId, addBranch(addBranch(activeBranches, userMessage), assistantMessage));
+    setShouldScrollToBottom(true);
+
+    await runBranch(content, path.slice(0, position), savedMessageId, original.attachments);
+  };
+
+  // Regenerate an answer: a new assistant branch under the same user message
+  const handleRegenerateMessage = async (original: ChatMessageType) => {
+    if (!conversationId || conversationId === -1 || isCurrentConversationStreaming) return;
+
+    const path = resolveActivePath(activeBranches);
+    const position = path.findIndex(msg => msg.id === original.id);
+    const userMessage = position > 0 ? path[position - 1] : undefined;
+    if (!userMessage || userMessage.role !== "user") return;
+    if (userMessage.message_id === undefined) {
+      message.error(t("chatInterface.branchNotSaved"));
+      return;
+    }
+
+    showBranches(conversationId, addBranch(activeBranches, createAssistantPlaceholder(userMessage.id)));
+    setShouldScrollToBottom(true);
+
+    await runBranch(userMessage.content, path.slice(0, position - 1), userMessage.message_id, userMessage.attachments);
+  };
+
   // Add function to asynchronously load attachment URLs
   const loadAttachmentUrls = async (messages: ChatMessageType[], targetConversationId?: number) => {
     // Create a copy to avoid directly modifying parameters
@@ -1078,51 +1445,200 @@ export function ChatInterface() {
     }
   };
 
-  // Left sidebar conversation deletion
-  const handleConversationDeleteClick = async (dialogId: number) => {
+  // Export a conversation from the left sidebar
+  const handleConversationExport = async (dialog: ConversationListItem, format: ConversationExportFormat) => {
     try {
-      // If deleting the currently active conversation, stop conversation first
-      if (selectedConversationId === dialogId && isStreaming && conversationId === dialogId) {
-        // Cancel current ongoing request first
-        if (abortControllerRef.current) {
-          try {
-            abortControllerRef.current.abort(t("chatInterface.deleteConversation"));
-          } catch (error) {
-            console.log(t("chatInterface.errorCancelingRequest"), error);
-          }
-          abortControllerRef.current = null;
-        }
+      const data = await conversationService.getDetail(dialog.conversation_id);
+      const detail = data.data?.[0] as ApiConversationDetail | undefined;
+      if (!detail) {
+        throw new Error(t("chatStreamMain.noHistory"));
+      }
+      await exportConversation(dialog.conversation_title, detail, format, t);
+    } catch (error) {
+      console.error(t("chatInterface.exportFailed"), error);
+      message.error(t("chatInterface.exportFailed"));
+    }
+  };
 
-        // Clear timeout timer
-        if (timeoutRef.current) {
-          clearTimeout(timeoutRef.current);
-          timeoutRef.current = null;
-        }
+  // Import a conversation exported as JSON, it is created as a new conversation and opened
+  const handleConversationImport = async (file: File) => {
+    let exported: ConversationExportFile;
+    try {
+      exported = parseConversationJson(await file.text());
+    } catch (error) {
+      message.error(t("chatInterface.importInvalidFile", { detail: (error as Error).message }));
+      return;
+    }
 
-        setIsStreaming(false);
-        setIsLoading(false);
+    try {
+      const newConversationId = await importConversation(exported);
+      const dialogList = await fetchConversationList();
+      const imported = dialogList.find(dialog => dialog.conversation_id === newConversationId);
+      if (imported) {
+        await handleDialogClick(imported);
+      }
+      message.success(t("chatInterface.importSuccess"));
+    } catch (error) {
+      console.error(t("chatInterface.importFailed"), error);
+      message.error(t("chatInterface.importFailed"));
+    }
+  };
+
+  const agentPinOf = (targetConversationId: number) =>
+    conversationList.find(item => item.conversation_id === targetConversationId)?.agent_pin ?? null;
+
+  // A pinned conversation keeps running the agent version it was pinned to
+  const applyAgentPin = (runAgentParams: any, targetConversationId: number) => {
+    const pin = agentPinOf(targetConversationId);
+    if (pin) {
+      runAgentParams.agent_id = pin.agent_id;
+      runAgentParams.agent_version_no = pin.version_no;
+    }
+  };
+
+  const currentAgentPin = agentPinOf(conversationId);
+
+  const handlePinAgentVersionClick = () => {
+    if (!conversationId || conversationId === -1) {
+      message.warning(t("agentVersion.pin.noConversation"));
+      return;
+    }
+    if (currentAgentPin === null && selectedAgentId === null) {
+      message.warning(t("agentSelector.pleaseSelectAgent"));
+      return;
+    }
+    setIsPinDialogOpen(true);
+  };
+
+  const handleAgentPinChange = (pin: ConversationAgentPin | null) => {
+    setConversationList(prev => prev.map(item =>
+      item.conversation_id === conversationId ? { ...item, agent_pin: pin } : item
+    ));
+  };
 
+  // Only saved conversations can be shared
+  const handleShareClick = () => {
+    if (!conversationId || conversationId === -1) {
+      message.warning(t("shareConversation.nothingToShare"));
+      return;
+    }
+    setIsShareDialogOpen(true);
+  };
+
+  // Open the conversation of a history search hit and jump to the matching message
+  const handleSearchResultClick = async (hit: ConversationSearchHit) => {
+    if (selectedConversationId !== hit.conversation_id) {
+      const dialog = conversationList.find(item => item.conversation_id === hit.conversation_id) || {
+        conversation_id: hit.conversation_id,
+        conversation_title: hit.conversation_title,
+        create_time: hit.create_time,
+        update_time: hit.create_time,
+      };
+      await handleDialogClick(dialog);
+    }
+    // The history is loaded now, the message is looked up once on the next render
+    setPendingSearchJump({ conversationId: hit.conversation_id, messageId: hit.message_id });
+  };
+
+  // Open the answer of a scheduled run from the inbox, the same way as a search hit
+  const handleInboxItemClick = (item: InboxItem) => {
+    const { conversation_id, message_id } = item.run;
+    if (!conversation_id || !message_id) return;
+    handleSearchResultClick({
+      conversation_id,
+      conversation_title: item.schedule_name,
+      message_id,
+      role: "assistant",
+      match_type: "final_answer",
+      snippet: item.summary,
+      create_time: item.create_time,
+    });
+  };
+
+  // Once the conversation is loaded, show the branch holding the message and let ChatStreamMain scroll to it
+  useEffect(() => {
+    if (!pendingSearchJump) return;
+    setPendingSearchJump(null);
+    // Another conversation was opened meanwhile
+    if (selectedConversationId !== pendingSearchJump.conversationId) return;
+
+    const target = activeBranches.messages.find(item => item.message_id === pendingSearchJump.messageId);
+    if (!target) {
+      message.warning(t("chatHistorySearch.messageNotFound"));
+      return;
+    }
+
+    showBranches(pendingSearchJump.conversationId, revealMessage(activeBranches, target.id));
+    setFocusMessageId(pendingSearchJump.messageId);
+  }, [pendingSearchJump]);
+
+  // If deleting the currently active conversation, stop conversation first
+  const stopConversationBeforeDelete = async (dialogId: number) => {
+    if (selectedConversationId === dialogId && isStreaming && conversationId === dialogId) {
+      // Cancel current ongoing request first
+      if (abortControllerRef.current) {
         try {
-          console.log(t("chatInterface.stoppingCurrentConversationBeforeDeleting"), dialogId);
-          await conversationService.stop(dialogId);
+          abortControllerRef.current.abort(t("chatInterface.deleteConversation"));
         } catch (error) {
-          console.error(t("chatInterface.stopConversationToDeleteFailed"), error);
-          // Continue deleting even if stopping fails
+          console.log(t("chatInterface.errorCancelingRequest"), error);
         }
+        abortControllerRef.current = null;
+      }
+
+      // Clear timeout timer
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+        timeoutRef.current = null;
+      }
+
+      setIsStreaming(false);
+      setIsLoading(false);
+
+      try {
+        console.log(t("chatInterface.stoppingCurrentConversationBeforeDeleting"), dialogId);
+        await conversationService.stop(dialogId);
+      } catch (error) {
+        console.error(t("chatInterface.stopConversationToDeleteFailed"), error);
+        // Continue deleting even if stopping fails
       }
+    }
+  };
 
+  // Leave a deleted conversation that was open for a new one
+  const resetDeletedSelection = (dialogIds: number[]) => {
+    if (selectedConversationId !== null && dialogIds.includes(selectedConversationId)) {
+      setSelectedConversationId(null);
+      // Update ref to track current selected conversation
+      currentSelectedConversationRef.current = null;
+      setConversationTitle(t("chatInterface.newConversation"));
+      handleNewConversation();
+    }
+  };
+
+  // Left sidebar conversation deletion
+  const handleConversationDeleteClick = async (dialogId: number) => {
+    try {
+      await stopConversationBeforeDelete(dialogId);
       await conversationService.delete(dialogId);
       await fetchConversationList();
+      resetDeletedSelection([dialogId]);
+    } catch (error) {
+      console.error(t("chatInterface.deleteFailed"), error);
+    }
+  };
 
-      if (selectedConversationId === dialogId) {
-        setSelectedConversationId(null);
-        // Update ref to track current selected conversation
-        currentSelectedConversationRef.current = null;
-        setConversationTitle(t("chatInterface.newConversation"));
-        handleNewConversation();
+  // Delete the conversations selected in the left sidebar
+  const handleConversationBulkDelete = async (dialogIds: number[]) => {
+    try {
+      for (const dialogId of dialogIds) {
+        await stopConversationBeforeDelete(dialogId);
       }
+      await conversationService.batchDelete(dialogIds);
+      await fetchConversationList();
+      resetDeletedSelection(dialogIds);
     } catch (error) {
       console.error(t("chatInterface.deleteFailed"), error);
+      message.error(t("chatInterface.deleteFailed"));
     }
   };
 
@@ -1161,6 +1677,7 @@ export function ChatInterface() {
       }
       conversationControllersRef.current.delete(conversationId);
     }
+    streamCheckpointStorage.remove(conversationId);
 
     // Clear timeout timer for current conversation
     const currentTimeout = conversationTimeoutsRef.current.get(conversationId);
@@ -1308,6 +1825,11 @@ export function ChatInterface() {
           onDialogClick={handleDialogClick}
           onRename={handleConversationRename}
           onDelete={handleConversationDeleteClick}
+          onBulkDelete={handleConversationBulkDelete}
+          organizer={organizer}
+          onExport={handleConversationExport}
+          onImport={handleConversationImport}
+          onSearchResultClick={handleSearchResultClick}
           onSettingsClick={() => {
             localStorage.setItem('show_page', user?.role === 'admin' ? '1' : '2');
             router.push("/setup");
@@ -1325,10 +1847,11 @@ export function ChatInterface() {
             <div className="flex-1 flex flex-col">
               <ChatHeader
                 title={conversationTitle}
-                onShare={() => {
-                  console.log("Share clicked")
-                }}
+                onShare={handleShareClick}
                 onRename={handleTitleRename}
+                onPinAgentVersion={handlePinAgentVersionClick}
+                pinnedVersionNo={currentAgentPin?.version_no}
+                onOpenInboxItem={handleInboxItemClick}
               />
 
               <ChatStreamMain
@@ -1354,6 +1877,12 @@ export function ChatInterface() {
                 shouldScrollToBottom={shouldScrollToBottom}
                 selectedAgentId={selectedAgentId}
                 onAgentSelect={setSelectedAgentId}
+                getBranchPosition={(msg) => getBranchPosition(activeBranches, msg)}
+                onBranchChange={handleBranchChange}
+                onEditMessage={handleEditMessage}
+                onRegenerateMessage={handleRegenerateMessage}
+                focusMessageId={focusMessageId}
+                onFocusMessageHandled={() => setFocusMessageId(null)}
               />
 
 
@@ -1406,6 +1935,25 @@ export function ChatInterface() {
           </div>
         </div>
       )}
+
+      {isShareDialogOpen && (
+        <ShareConversationDialog
+          open={isShareDialogOpen}
+          onOpenChange={setIsShareDialogOpen}
+          conversationId={conversationId}
+        />
+      )}
+
+      {isPinDialogOpen && (
+        <AgentVersionPinDialog
+          open={isPinDialogOpen}
+          onOpenChange={setIsPinDialogOpen}
+          conversationId={conversationId}
+          agentId={currentAgentPin?.agent_id ?? selectedAgentId ?? -1}
+          pin={currentAgentPin}
+          onPinChange={handleAgentPinChange}
+        />
+      )}
     </>
   )
 }
@@ -0,0 +1,416 @@
+// Conversation export (Markdown, HTML with inlined styles and images, lossless JSON) and re-import of the JSON format
+
+import { createElement } from "react"
+import { flushSync } from "react-dom"
+import { createRoot } from "react-dom/client"
+import { z } from "zod"
+import { MarkdownRenderer } from "@/components/ui/markdownRenderer"
+import { conversationService } from "@/services/conversationService"
+import { ApiConversationDetail, ApiMessage, ApiMessageItem, SearchResult, SearchResultItem } from "@/types/chat"
+
+export type ConversationExportFormat = "markdown" | "html" | "json"
+
+// Identifies files produced by the JSON export, bump the version on incompatible changes
+export const CONVERSATION_EXPORT_FORMAT = "nexent.conversation"
+export const CONVERSATION_EXPORT_VERSION = 1
+
+const apiMessageItemSchema = z.object({
+  type: z.string(),
+  content: z.string(),
+})
+
+const minioFileItemSchema = z.object({
+  type: z.string(),
+  name: z.string(),
+  size: z.number(),
+  object_name: z.string().optional(),
+  url: z.string().optional(),
+  description: z.string().optional(),
+})
+
+const exportedMessageSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  // The conversation detail API returns the text of user messages as a plain string
+  message: z.union([z.string(), z.array(apiMessageItemSchema)]),
+  message_id: z.number(),
+  parent_message_id: z.number().nullish(),
+  opinion_flag: z.string().nullish(),
+  picture: z.array(z.string()).nullish(),
+  search: z.array(z.record(z.any())).nullish(),
+  search_unit_id: z.record(z.array(z.record(z.any()))).nullish(),
+  minio_files: z.array(minioFileItemSchema).nullish(),
+}).passthrough()
+
+const conversationExportFileSchema = z.object({
+  format: z.literal(CONVERSATION_EXPORT_FORMAT),
+  version: z.number().int(),
+  exported_at: z.number(),
+  title: z.string(),
+  create_time: z.number(),
+  messages: z.array(exportedMessageSchema),
+})
+
+export type ConversationExportFile = z.infer<typeof conversationExportFileSchema>
+
+// The messages are kept exactly as returned by the conversation detail API, which makes the file lossless
+export const buildConversationJson = (title: string, detail: ApiConversationDetail): string => {
+  const file: ConversationExportFile = {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exported_at: Date.now(),
+    title,
+    create_time: detail.create_time,
+    messages: detail.message as ConversationExportFile["messages"],
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+// Validate an exported file, throws with a readable reason when it cannot be imported
+export const parseConversationJson = (text: string): ConversationExportFile => {
+  let payload: unknown
+  try {
+    payload = JSON.parse(text)
+  } catch (error) {
+    throw new Error((error as Error).message)
+  }
+
+  const result = conversationExportFileSchema.safeParse(payload)
+  if (!result.success) {
+    throw new Error(result.error.issues.map(issue => `${issue.path.join(".") || "<root>"}: ${issue.message}`).join("; "))
+  }
+  if (result.data.version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error(`unsupported version ${result.data.version}`)
+  }
+  return result.data
+}
+
+const userText = (message: ApiMessage): string => {
+  const content: ApiMessage["message"] | string = message.message
+  if (typeof content === "string") {
+    return content
+  }
+  return content.find(item => item.type === "string")?.content || ""
+}
+
+const finalAnswerText = (message: ApiMessage): string =>
+  message.message.filter(item => item.type === "final_answer").map(item => item.content).join("")
+
+// Search results of a message, the flat list and the per-unit lists may both be present
+const collectSearchResults = (message: ApiMessage): SearchResultItem[] => {
+  const results = [...(message.search || [])]
+  Object.values(message.search_unit_id || {}).forEach(unitResults => {
+    unitResults.forEach(result => {
+      if (!results.some(item => item.tool_sign === result.tool_sign && item.cite_index === result.cite_index)) {
+        results.push(result)
+      }
+    })
+  })
+  return results
+}
+
+const citationKey = (result: SearchResultItem) => `${result.tool_sign}${result.cite_index}`
+
+// Unit search results referenced by a search_content_placeholder item
+const placeholderResults = (message: ApiMessage, item: ApiMessageItem): SearchResultItem[] => {
+  try {
+    const unitId = JSON.parse(item.content).unit_id
+    return (unitId !== undefined && message.search_unit_id?.[unitId.toString()]) || []
+  } catch (error) {
+    return []
+  }
+}
+
+interface ExportStep {
+  title: string
+  items: ApiMessageItem[]
+}
+
+// Message items shown in the agent steps of an export
+const STEP_ITEM_TYPES = [
+  "model_output_thinking",
+  "model_output_deep_thinking",
+  "model_output_code",
+  "execution_logs",
+  "tool",
+  "error",
+  "search_content_placeholder",
+]
+
+// Agent steps of a message, the steps without items are left out
+const collectSteps = (message: ApiMessage): ExportStep[] => {
+  const steps: ExportStep[] = []
+  message.message.forEach(item => {
+    if (item.type === "step_count") {
+      steps.push({ title: item.content.trim(), items: [] })
+    } else if (steps.length > 0 && STEP_ITEM_TYPES.includes(item.type)) {
+      steps[steps.length - 1].items.push(item)
+    }
+  })
+  return steps.filter(step => step.items.length > 0)
+}
+
+const stepItemToMarkdown = (message: ApiMessage, item: ApiMessageItem, t: any): string[] => {
+  switch (item.type) {
+    case "model_output_code":
+    case "execution_logs":
+      return ["```", item.content.trim(), "```", ""]
+    case "tool":
+      return [`> ${t("conversationExport.toolCall")}: ${item.content.trim()}`, ""]
+    case "error":
+      return [`> ${t("conversationExport.error")}: ${item.content.trim()}`, ""]
+    case "search_content_placeholder":
+      return [...placeholderResults(message, item).map(result => `- [${result.title}](${result.url})`), ""]
+    default:
+      return [item.content.trim(), ""]
+  }
+}
+
+// Agent steps as collapsible Markdown sections
+const stepsToMarkdown = (message: ApiMessage, t: any): string =>
+  collectSteps(message).map(step => [
+    "<details>",
+    `<summary>${step.title}</summary>`,
+    "",
+    ...step.items.flatMap(item => stepItemToMarkdown(message, item, t)),
+    "",
+    "</details>",
+  ].join("\n")).join("\n\n")
+
+// Markdown with citations turned into footnotes ([[a1]] -> [^a1])
+export const buildConversationMarkdown = (title: string, detail: ApiConversationDetail, t: any): string => {
+  const parts: string[] = [
+    `# ${title}`,
+    `_${t("conversationExport.exportedAt", { date: new Date().toLocaleString() })}_`,
+  ]
+
+  detail.message.forEach(message => {
+    if (message.role === "user") {
+      parts.push(`## ${t("conversationExport.user")}`, userText(message))
+      message.minio_files?.forEach(file => {
+        parts.push(`- ${t("conversationExport.attachment")}: ${file.url ? `[${file.name}](${file.url})` : file.name}`)
+      })
+      return
+    }
+
+    parts.push(`## ${t("conversationExport.assistant")}`)
+    const steps = stepsToMarkdown(message, t)
+    if (steps) parts.push(steps)
+
+    const results = collectSearchResults(message)
+    const cited = new Map<string, SearchResultItem>()
+    const answer = finalAnswerText(message).replace(/\[\[([^\]]+)\]\]/g, (match, key: string) => {
+      const result = results.find(item => citationKey(item) === key)
+      if (!result) return ""
+      cited.set(key, result)
+      return `[^${key}]`
+    })
+    parts.push(answer)
+
+    message.picture?.forEach(url => parts.push(`![](${url})`))
+    cited.forEach((result, key) => {
+      parts.push(`[^${key}]: [${result.title}](${result.url})${result.filename ? ` (${result.filename})` : ""}`)
+    })
+  })
+
+  return parts.filter(part => part !== "").join("\n\n") + "\n"
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const blobToDataUri = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(reader.result as string)
+  reader.onerror = () => reject(reader.error)
+  reader.readAsDataURL(blob)
+})
+
+// The KaTeX fonts are only referenced by URL in the page styles, they are inlined (woff2 only) so that
+// formulas render offline. A font that cannot be fetched keeps its URL
+const inlineKatexFont = async (rule: CSSFontFaceRule): Promise<string> => {
+  const woff2 = rule.cssText.match(/url\("?([^")]+\.woff2)"?\)/)
+  if (!rule.style.getPropertyValue("font-family").includes("KaTeX") || !woff2) {
+    return rule.cssText
+  }
+  try {
+    const response = await fetch(new URL(woff2[1], rule.parentStyleSheet?.href || document.baseURI))
+    if (!response.ok) return rule.cssText
+    const dataUri = await blobToDataUri(await response.blob())
+    return rule.cssText.replace(/src:[^;]+;/, `src: url("${dataUri}") format("woff2");`)
+  } catch (error) {
+    return rule.cssText
+  }
+}
+
+// Styles loaded in the page (Tailwind, github-markdown and the KaTeX styles imported by MarkdownRenderer),
+// inlined so the file renders offline
+const collectPageStyles = async (): Promise<string> => {
+  const rules: Promise<string>[] = []
+  Array.from(document.styleSheets).forEach(sheet => {
+    try {
+      Array.from(sheet.cssRules).forEach(rule => {
+        rules.push(rule instanceof CSSFontFaceRule ? inlineKatexFont(rule) : Promise.resolve(rule.cssText))
+      })
+    } catch (error) {
+      // Cross-origin stylesheets cannot be read, they are left out
+    }
+  })
+  return (await Promise.all(rules)).join("\n")
+}
+
+const toSearchResult = (item: SearchResultItem): SearchResult => ({
+  title: item.title,
+  url: item.url,
+  text: item.text,
+  published_date: item.published_date || "",
+  source_type: item.source_type,
+  filename: item.filename || "",
+  score: item.score ?? undefined,
+  score_details: item.score_details,
+  tool_sign: item.tool_sign,
+  cite_index: item.cite_index,
+})
+
+// Render Markdown the way the chat does, into a detached node, and keep the resulting markup
+const renderMarkdownHtml = (content: string, searchResults: SearchResult[] = []): string => {
+  const container = document.createElement("div")
+  const root = createRoot(container)
+  flushSync(() => root.render(createElement(MarkdownRenderer, { content, searchResults })))
+  const html = container.innerHTML
+  root.unmount()
+  return html
+}
+
+const stepItemToHtml = (message: ApiMessage, item: ApiMessageItem, t: any): string => {
+  switch (item.type) {
+    case "model_output_code":
+    case "execution_logs":
+      return `<pre><code>${escapeHtml(item.content.trim())}</code></pre>`
+    case "tool":
+      return `<blockquote>${escapeHtml(t("conversationExport.toolCall"))}: ${escapeHtml(item.content.trim())}</blockquote>`
+    case "error":
+      return `<blockquote>${escapeHtml(t("conversationExport.error"))}: ${escapeHtml(item.content.trim())}</blockquote>`
+    case "search_content_placeholder":
+      return `<ul>${placeholderResults(message, item).map(result =>
+        `<li><a href="${escapeHtml(result.url)}">${escapeHtml(result.title)}</a></li>`
+      ).join("")}</ul>`
+    default:
+      return renderMarkdownHtml(item.content.trim())
+  }
+}
+
+// Agent steps as collapsible sections, the same as in the Markdown export
+const stepsToHtml = (message: ApiMessage, t: any): string =>
+  collectSteps(message).map(step =>
+    `<details class="export-step"><summary>${escapeHtml(step.title)}</summary>${step.items.map(item =>
+      stepItemToHtml(message, item, t)
+    ).join("")}</details>`
+  ).join("")
+
+// Download the pictures of a conversation as data URIs, keyed by URL. Pictures that cannot be
+// fetched (offline, no CORS) are left out and keep pointing to their URL in the export.
+export const fetchImagesAsDataUris = async (detail: ApiConversationDetail): Promise<Record<string, string>> => {
+  const urls = Array.from(new Set(detail.message.flatMap(message => message.picture || [])))
+  const entries = await Promise.all(urls.map(async url => {
+    try {
+      const response = await fetch(url)
+      if (!response.ok) return null
+      return [url, await blobToDataUri(await response.blob())] as const
+    } catch (error) {
+      return null
+    }
+  }))
+  return Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => entry !== null))
+}
+
+// HTML with the page styles and the given pictures inlined: agent steps and answers are rendered through
+// MarkdownRenderer, sources are listed under each answer
+export const buildConversationHtml = async (
+  title: string,
+  detail: ApiConversationDetail,
+  t: any,
+  imageDataUris: Record<string, string> = {}
+): Promise<string> => {
+  const body = detail.message.map(message => {
+    if (message.role === "user") {
+      return `<section class="export-user"><h2>${escapeHtml(t("conversationExport.user"))}</h2><p>${escapeHtml(userText(message))}</p></section>`
+    }
+
+    const results = collectSearchResults(message)
+    const steps = stepsToHtml(message, t)
+    const answer = `<div class="export-answer">${renderMarkdownHtml(finalAnswerText(message), results.map(toSearchResult))}</div>`
+    const images = (message.picture || []).map(url =>
+      `<img src="${escapeHtml(imageDataUris[url] || url)}" alt="" />`
+    ).join("")
+    const sources = results.length === 0 ? "" : `<ol class="export-sources">${results.map(result =>
+      `<li>[${escapeHtml(citationKey(result))}] <a href="${escapeHtml(result.url)}">${escapeHtml(result.title)}</a></li>`
+    ).join("")}</ol>`
+
+    return `<section class="export-assistant"><h2>${escapeHtml(t("conversationExport.assistant"))}</h2>${steps}${answer}${images}${sources}</section>`
+  }).join("\n")
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+${await collectPageStyles()}
+body { max-width: 860px; margin: 0 auto; padding: 32px 16px; }
+.export-user p { white-space: pre-wrap; background: #eff6ff; border-radius: 8px; padding: 8px 12px; }
+.export-step { margin: 8px 0; padding: 8px 12px; border-left: 3px solid #e5e7eb; color: #4b5563; }
+.export-step summary { cursor: pointer; font-weight: 500; }
+.export-step pre { white-space: pre-wrap; background: #f9fafb; padding: 8px; border-radius: 4px; }
+.export-assistant img { max-width: 240px; margin: 4px; }
+.export-sources { font-size: 0.875rem; color: #6b7280; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p><em>${escapeHtml(t("conversationExport.exportedAt", { date: new Date().toLocaleString() }))}</em></p>
+${body}
+</body>
+</html>
+`
+}
+
+export const downloadTextFile = (filename: string, content: string, type: string) => {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+const EXPORT_FILE_TYPES: Record<ConversationExportFormat, { extension: string; mime: string }> = {
+  markdown: { extension: "md", mime: "text/markdown" },
+  html: { extension: "html", mime: "text/html" },
+  json: { extension: "json", mime: "application/json" },
+}
+
+// Build and download one conversation in the requested format
+export const exportConversation = async (
+  title: string,
+  detail: ApiConversationDetail,
+  format: ConversationExportFormat,
+  t: any
+) => {
+  const content = format === "markdown"
+    ? buildConversationMarkdown(title, detail, t)
+    : format === "html"
+      ? await buildConversationHtml(title, detail, t, await fetchImagesAsDataUris(detail))
+      : buildConversationJson(title, detail)
+  const { extension, mime } = EXPORT_FILE_TYPES[format]
+  const safeTitle = title.replace(/[\\/:*?"<>|]/g, "_").trim() || "conversation"
+  downloadTextFile(`${safeTitle}.${extension}`, content, mime)
+}
+
+// Recreate an exported conversation as a new conversation, returns its id
+export const importConversation = async (file: ConversationExportFile): Promise<number> => {
+  const imported = await conversationService.importConversation(file)
+  return imported.conversation_id
+}
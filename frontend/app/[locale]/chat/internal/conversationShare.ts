@@ -0,0 +1,36 @@
+// Read-only share links: link building and the transformation of a shared snapshot into chat messages
+
+import { ApiMessage, ChatMessageType, SharedConversationDetail } from "@/types/chat";
+import { extractAssistantMsgFromResponse, extractUserMsgFromResponse } from "./extractMsgFromHistoryResponse";
+import { createConversationBranches, linkHistoryMessages, resolveActivePath } from "./messageBranches";
+
+// Message units carrying what the agent passed to its tools
+const TOOL_INPUT_TYPES = ["tool", "model_output_code", "parse"];
+
+export const buildShareUrl = (token: string, locale: string): string =>
+  `${window.location.origin}/${locale}/share/${encodeURIComponent(token)}`;
+
+// The server redacts the snapshot when the link is created, this keeps older snapshots from showing the inputs
+// User messages are sent as plain strings and carry no tool inputs.
+export const redactToolInputs = (messages: ApiMessage[], placeholder: string): ApiMessage[] =>
+  messages.map(message => Array.isArray(message.message)
+    ? {
+        ...message,
+        message: message.message.map(item => TOOL_INPUT_TYPES.includes(item.type) ? { ...item, content: placeholder } : item),
+      }
+    : message
+  );
+
+// Messages of the shared snapshot, showing the newest branch of every fork like a freshly opened conversation
+export const toSharedMessages = (detail: SharedConversationDetail, t: any): ChatMessageType[] => {
+  const apiMessages = detail.redact_tool_inputs
+    ? redactToolInputs(detail.message, t("sharedConversation.redacted"))
+    : detail.message;
+
+  const messages = apiMessages.map((message, index) => message.role === "user"
+    ? extractUserMsgFromResponse(message, index, detail.create_time)
+    : extractAssistantMsgFromResponse(message, index, detail.create_time, t)
+  );
+
+  return resolveActivePath(createConversationBranches(linkHistoryMessages(messages)));
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ApiMessage } from '@/types/chat';
+import { extractAssistantMsgFromResponse } from './extractMsgFromHistoryResponse';
+
+const t = (key: string) => key;
+
+// Assistant message as returned by GET /conversation/{id}: the first step was saved by an older server with
+// the duration rendered into an HTML span, the second one with the structured metrics
+const savedMessage: ApiMessage = {
+  role: 'assistant',
+  message_id: 42,
+  parent_message_id: 41,
+  message: [
+    { type: 'step_count', content: '\n**Step 1** \n' },
+    { type: 'model_output_thinking', content: 'Let me search the knowledge base.' },
+    { type: 'parse', content: 'result = knowledge_base_search(query="Q3 revenue")\nprint(result)' },
+    { type: 'tool', content: 'knowledge_base_search' },
+    { type: 'execution_logs', content: 'Q3 revenue grew by 12%' },
+    { type: 'token_count', content: '<span style="color: #bbbbc2; font-size: 12px;">Duration:3.2</span> ' },
+    { type: 'step_count', content: '\n**Step 2** \n' },
+    { type: 'model_output_thinking', content: 'I can answer now.' },
+    {
+      type: 'token_count',
+      content: JSON.stringify({ duration: 1.5, input_tokens: 1800, output_tokens: 120, model: 'Qwen/Qwen2.5-72B' }),
+    },
+    { type: 'final_answer', content: 'Revenue grew by 12% in Q3.' },
+  ],
+};
+
+const durationOf = (span: { startTime: number; endTime?: number }) => (span.endTime ?? span.startTime) - span.startTime;
+
+describe('extractAssistantMsgFromResponse', () => {
+  it('lays the trace of a saved run out over the recorded step durations', () => {
+    const message = extractAssistantMsgFromResponse(savedMessage, 1, 0, t);
+    const spans = message.trace!;
+
+    const steps = spans.filter(span => span.kind === 'step');
+    expect(steps.map(durationOf)).toEqual([3200, 1500]);
+    expect(steps[1].startTime).toBe(3200);
+
+    // Every span has a width, none ends before it starts
+    for (const span of spans) {
+      expect(durationOf(span)).toBeGreaterThan(0);
+    }
+    expect(durationOf(spans.find(span => span.kind === 'agent')!)).toBe(4700);
+    expect(spans.map(span => span.kind)).toEqual(['agent', 'step', 'model', 'execution', 'tool', 'step', 'model']);
+  });
+
+  it('keeps the metrics of both payload formats on the steps', () => {
+    const message = extractAssistantMsgFromResponse(savedMessage, 1, 0, t);
+
+    expect(message.steps!.map(step => step.stepMetrics)).toEqual([
+      { duration: 3.2 },
+      { duration: 1.5, inputTokens: 1800, outputTokens: 120, model: 'Qwen/Qwen2.5-72B', toolDuration: undefined },
+    ]);
+  });
+});
@@ -1,5 +1,9 @@
 "use client";
-import { ApiMessage, SearchResult, AgentStep, ApiMessageItem, ChatMessageType, MinioFileItem } from "@/types/chat";
+import { ApiMessage, SearchResult, AgentStep, ApiMessageItem, ChatMessageType, MinioFileItem, ToolApproval } from "@/types/chat";
+import { parseStepMetrics } from "@/app/chat/streaming/runTelemetry";
+import { closeTrace, createTraceState, layoutHistoryEvents, reduceTraceEvent } from "@/app/chat/streaming/traceBuilder";
+import { parseStreamEvent } from "@/app/chat/streaming/streamProtocol";
+import { describeApproval, requestApproval, resolveApproval } from "@/app/chat/streaming/toolApproval";
 
 
 // function: process the user break tag
@@ -45,8 +49,16 @@ export function extractAssistantMsgFromResponse(dialog_msg: ApiMessage, index: n
   // extract the content of the Message
   let finalAnswer = "";
   let steps: AgentStep[] = [];
+  // History keeps no event times, the trace is laid out with the step durations the server recorded
+  let trace = createTraceState();
+  let traceClock = 0;
+  let approvals: ToolApproval[] = [];
   if (dialog_msg.message && Array.isArray(dialog_msg.message)) {
-    dialog_msg.message.forEach((msg: ApiMessageItem) => {
+    const eventTimes = layoutHistoryEvents(dialog_msg.message);
+    dialog_msg.message.forEach((msg: ApiMessageItem, msgIndex: number) => {
+      traceClock = eventTimes[msgIndex];
+      trace = reduceTraceEvent(trace, msg, `history-${index}`, traceClock);
+
       switch (msg.type) {
         case "final_answer": {
           // process the final_answer content and identify the user break tag
@@ -155,6 +167,7 @@ export function extractAssistantMsgFromResponse(dialog_msg: ApiMessage, index: n
           const currentStep = steps[steps.length - 1];
           if (currentStep) {
             currentStep.metrics = msg.content;
+            currentStep.stepMetrics = parseStepMetrics(msg.content);
           }
           break;
         }
@@ -191,6 +204,36 @@ export function extractAssistantMsgFromResponse(dialog_msg: ApiMessage, index: n
           break;
         }
 
+        case "approval_request":
+        case "approval_result": {
+          const parsed = parseStreamEvent(msg);
+          if (!parsed.ok) {
+            console.error(t("extractMsg.cannotParseApproval"), parsed.error);
+            break;
+          }
+          const event = parsed.event;
+          let approvalId: string | undefined;
+          if (event.type === "approval_request") {
+            approvals = requestApproval(approvals, event, traceClock);
+            approvalId = event.request.approval_id;
+          } else if (event.type === "approval_result") {
+            approvals = resolveApproval(approvals, event, traceClock);
+            approvalId = event.result.approval_id;
+          }
+          const approval = approvals.find(item => item.id === approvalId);
+          const currentStep = steps[steps.length - 1];
+          if (currentStep && approval) {
+            currentStep.contents.push({
+              id: `approval-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+              type: "approval",
+              content: describeApproval(approval, t),
+              expanded: true,
+              timestamp: Date.now()
+            });
+          }
+          break;
+        }
+
         default:
           // handle other types of messages
           break;
@@ -204,10 +247,14 @@ export function extractAssistantMsgFromResponse(dialog_msg: ApiMessage, index: n
     id: `assistant-${index}-${Date.now()}`,
     role: "assistant",
     message_id: dialog_msg.message_id,
+    parent_message_id: dialog_msg.parent_message_id,
     content: "",
     opinion_flag: dialog_msg.opinion_flag,
     timestamp: new Date(create_time),
     steps: steps,
+    trace: closeTrace(trace, traceClock).spans,
+    // A request left unanswered belongs to a run that ended without a decision
+    approvals: approvals.filter(approval => approval.status !== "pending"),
     finalAnswer: finalAnswer,
     agentRun: "",
     isComplete: true,
@@ -251,6 +298,7 @@ export function extractUserMsgFromResponse(dialog_msg: ApiMessage, index: number
     id: `user-${index}-${Date.now()}`,
     role: "user",
     message_id: dialog_msg.message_id,
+    parent_message_id: dialog_msg.parent_message_id,
     content: userContent,
     opinion_flag: dialog_msg.opinion_flag, // user message does not have the like/dislike status
     timestamp: new Date(create_time),
@@ -0,0 +1,138 @@
+// Conversation tree helpers: editing a user message or regenerating an answer adds a sibling branch,
+// the chat view always shows a single path through the tree
+
+import { ChatMessageType } from "@/types/chat";
+
+// Parent key of the first messages of a conversation
+const ROOT_KEY = "root";
+
+export interface ConversationBranches {
+  // Every message of the conversation, all branches included, in creation order
+  messages: ChatMessageType[]
+  // Child chosen at each fork, keyed by parent message id. Forks without a choice show their newest child.
+  selection: Record<string, string>
+}
+
+// Position of a message among its siblings, for the `<` `>` navigation
+export interface BranchPosition {
+  index: number
+  count: number
+}
+
+export const createConversationBranches = (messages: ChatMessageType[] = []): ConversationBranches => ({
+  messages,
+  selection: {}
+});
+
+const parentKeyOf = (message: ChatMessageType): string => message.parentId ?? ROOT_KEY;
+
+const childrenOf = (branches: ConversationBranches, key: string): ChatMessageType[] =>
+  branches.messages.filter(message => parentKeyOf(message) === key);
+
+// Link messages loaded from history into a tree. Messages saved before branching existed carry no
+// parent_message_id and simply follow the previous message.
+export const linkHistoryMessages = (messages: ChatMessageType[]): ChatMessageType[] => {
+  const idByMessageId = new Map<number, string>();
+  messages.forEach(message => {
+    if (message.message_id !== undefined) {
+      idByMessageId.set(message.message_id, message.id);
+    }
+  });
+
+  return messages.map((message, index) => {
+    let parentId: string | null = index > 0 ? messages[index - 1].id : null;
+    if (message.parent_message_id === null) {
+      parentId = null;
+    } else if (message.parent_message_id !== undefined) {
+      parentId = idByMessageId.get(message.parent_message_id) ?? parentId;
+    }
+    return { ...message, parentId };
+  });
+};
+
+// The path currently shown: from the root, follow the selected (or newest) child at every fork
+export const resolveActivePath = (branches: ConversationBranches): ChatMessageType[] => {
+  const path: ChatMessageType[] = [];
+  let key = ROOT_KEY;
+
+  while (true) {
+    const children = childrenOf(branches, key);
+    if (children.length === 0) {
+      break;
+    }
+    const next = children.find(child => child.id === branches.selection[key]) ?? children[children.length - 1];
+    path.push(next);
+    key = next.id;
+  }
+
+  return path;
+};
+
+// Write the shown path back into the tree. The path is where streaming updates land, and messages
+// appended by a normal send are linked to the message before them.
+export const mergeActivePath = (branches: ConversationBranches, path: ChatMessageType[]): ConversationBranches => {
+  const messages = [...branches.messages];
+  const selection = { ...branches.selection };
+
+  path.forEach((message, index) => {
+    const linked = message.parentId !== undefined
+      ? message
+      : { ...message, parentId: index > 0 ? path[index - 1].id : null };
+    const existingIndex = messages.findIndex(item => item.id === linked.id);
+    if (existingIndex >= 0) {
+      messages[existingIndex] = linked;
+    } else {
+      messages.push(linked);
+    }
+    selection[parentKeyOf(linked)] = linked.id;
+  });
+
+  return { messages, selection };
+};
+
+// Add a new sibling branch and make it the selected one
+export const addBranch = (branches: ConversationBranches, message: ChatMessageType): ConversationBranches => ({
+  messages: [...branches.messages, message],
+  selection: { ...branches.selection, [parentKeyOf(message)]: message.id }
+});
+
+// Select every fork on the way from the root to a message, so the shown path passes through it
+export const revealMessage = (branches: ConversationBranches, id: string): ConversationBranches => {
+  const selection = { ...branches.selection };
+  let message = branches.messages.find(item => item.id === id);
+
+  while (message) {
+    const key = parentKeyOf(message);
+    selection[key] = message.id;
+    message = key === ROOT_KEY ? undefined : branches.messages.find(item => item.id === key);
+  }
+
+  return { ...branches, selection };
+};
+
+export const getBranchPosition = (
+  branches: ConversationBranches,
+  message: ChatMessageType
+): BranchPosition | undefined => {
+  const siblings = childrenOf(branches, parentKeyOf(message));
+  const index = siblings.findIndex(sibling => sibling.id === message.id);
+  if (index < 0) {
+    return undefined;
+  }
+  return { index, count: siblings.length };
+};
+
+// Select the previous (-1) or next (1) sibling of a message
+export const selectSibling = (
+  branches: ConversationBranches,
+  message: ChatMessageType,
+  direction: -1 | 1
+): ConversationBranches => {
+  const key = parentKeyOf(message);
+  const siblings = childrenOf(branches, key);
+  const target = siblings[siblings.findIndex(sibling => sibling.id === message.id) + direction];
+  if (!target) {
+    return branches;
+  }
+  return { ...branches, selection: { ...branches.selection, [key]: target.id } };
+};
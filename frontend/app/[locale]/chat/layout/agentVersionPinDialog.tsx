@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react"
+import { App, Radio, Spin } from "antd"
+import { useTranslation } from "react-i18next"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { conversationService } from "@/services/conversationService"
+import { fetchAgentVersions } from "@/services/agentConfigService"
+import type { AgentVersion } from "@/app/setup/agentSetup/ConstInterface"
+import { ConversationAgentPin } from "@/types/chat"
+
+interface AgentVersionPinDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  conversationId: number
+  agentId: number
+  pin: ConversationAgentPin | null
+  onPinChange: (pin: ConversationAgentPin | null) => void
+}
+
+// Keep a conversation on one saved version of its agent, so later edits of the agent don't change its answers
+export function AgentVersionPinDialog({ open, onOpenChange, conversationId, agentId, pin, onPinChange }: AgentVersionPinDialogProps) {
+  const { t } = useTranslation()
+  const { message } = App.useApp()
+  const [versions, setVersions] = useState<AgentVersion[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  // null follows the latest version
+  const [versionNo, setVersionNo] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+
+    setVersionNo(pin && pin.agent_id === agentId ? pin.version_no : null)
+    setIsLoading(true)
+    fetchAgentVersions(agentId)
+      .then(result => {
+        if (result.success) {
+          setVersions(result.data)
+        } else {
+          message.error(t("agentVersion.loadFailed"))
+        }
+      })
+      .finally(() => setIsLoading(false))
+  }, [open, agentId])
+
+  const handleSave = async () => {
+    const nextPin = versionNo === null ? null : { agent_id: agentId, version_no: versionNo }
+    setIsSaving(true)
+    try {
+      await conversationService.pinAgentVersion(conversationId, nextPin)
+      onPinChange(nextPin)
+      message.success(nextPin
+        ? t("agentVersion.pin.pinned", { version: nextPin.version_no })
+        : t("agentVersion.pin.unpinned"))
+      onOpenChange(false)
+    } catch (error) {
+      console.error(t("agentVersion.pin.saveFailed"), error)
+      message.error(t("agentVersion.pin.saveFailed"))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>{t("agentVersion.pin.title")}</DialogTitle>
+          <DialogDescription>{t("agentVersion.pin.description")}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Spin size="small" />
+          </div>
+        ) : (
+          <Radio.Group
+            value={versionNo}
+            onChange={(e) => setVersionNo(e.target.value)}
+            className="flex max-h-72 flex-col gap-2 overflow-y-auto"
+          >
+            <Radio value={null}>
+              <span className="font-medium">{t("agentVersion.pin.latest")}</span>
+            </Radio>
+            {versions.map(version => (
+              <Radio key={version.version_no} value={version.version_no}>
+                <span className="font-medium">v{version.version_no}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {version.author} · {new Date(version.create_time).toLocaleString()}
+                </span>
+              </Radio>
+            ))}
+          </Radio.Group>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving || isLoading}>
+            {t("agentVersion.pin.save")}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
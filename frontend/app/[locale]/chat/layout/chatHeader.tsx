@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input"
 import {
   Share,
   Bookmark,
+  Pin,
   MoreHorizontal,
   BrainCircuit,
   Globe
@@ -30,17 +31,27 @@ import { Dropdown } from "antd"
 import { languageOptions } from '@/lib/constants'
 import { useLanguageSwitch } from '@/lib/languageUtils'
 import MemoryManageModal from "../internal/memory/memoryManageModal"
+import { ScheduleInbox } from "./scheduleInbox"
+import { InboxItem } from "@/types/schedule"
 
 interface ChatHeaderProps {
   title: string
   onShare?: () => void
   onRename?: (newTitle: string) => void
+  onPinAgentVersion?: () => void
+  // Agent version the conversation is pinned to
+  pinnedVersionNo?: number
+  // Open the answer of a scheduled run delivered to the inbox
+  onOpenInboxItem?: (item: InboxItem) => void
 }
 
 export function ChatHeader({
   title,
   onShare,
-  onRename
+  onRename,
+  onPinAgentVersion,
+  pinnedVersionNo,
+  onOpenInboxItem
 }: ChatHeaderProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(title);
@@ -120,6 +131,16 @@ export function ChatHeader({
                     {title}
                   </h1>
                 )}
+                {pinnedVersionNo !== undefined && (
+                  <span
+                    className="ml-2 self-center flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-600 cursor-pointer"
+                    onClick={onPinAgentVersion}
+                    title={t("agentVersion.pin.title")}
+                  >
+                    <Pin className="h-3 w-3" />
+                    v{pinnedVersionNo}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -139,6 +160,8 @@ export function ChatHeader({
                   <DownOutlined className="text-[10px]" />
                 </a>
               </Dropdown>
+              {/* Results of scheduled runs */}
+              {onOpenInboxItem && <ScheduleInbox onOpenItem={onOpenInboxItem} />}
               {/* Memory Setting */}
               <Button variant="ghost" className="h-8 w-12 rounded-full" onClick={() => setMemoryModalVisible(true)}>
                 <BrainCircuit className="size-5" stroke="url(#brainCogGradient)" />
@@ -159,6 +182,10 @@ export function ChatHeader({
                     <Share className="mr-2 h-4 w-4" />
                     <span>{t("chatHeader.share")}</span>
                   </DropdownMenuItem>
+                  <DropdownMenuItem className="cursor-pointer" onClick={onPinAgentVersion}>
+                    <Pin className="mr-2 h-4 w-4" />
+                    <span>{t("agentVersion.pin.title")}</span>
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
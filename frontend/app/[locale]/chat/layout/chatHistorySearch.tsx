@@ -0,0 +1,225 @@
+import { useEffect, useState } from "react"
+import { Checkbox, DatePicker, GetProps, Popover, Select, Spin } from "antd"
+import { Search, SlidersHorizontal, X } from "lucide-react"
+import { useTranslation } from "react-i18next"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { HighlightedSnippet } from "@/components/ui/highlightedSnippet"
+import { conversationService } from "@/services/conversationService"
+import { fetchAllAgents } from "@/services/agentConfigService"
+import { ConversationSearchHit, ConversationSearchParams } from "@/types/conversation"
+
+type DateRange = GetProps<typeof DatePicker.RangePicker>["value"]
+
+export interface HistorySearchFilters {
+  agentId: number | null
+  dateRange: DateRange
+  hasAttachments: boolean
+  // Also match the text of agent steps, not only user messages and final answers
+  includeSteps: boolean
+}
+
+export const EMPTY_HISTORY_SEARCH_FILTERS: HistorySearchFilters = {
+  agentId: null,
+  dateRange: null,
+  hasAttachments: false,
+  includeSteps: false,
+}
+
+// Wait for the user to stop typing before querying
+const SEARCH_DEBOUNCE_MS = 300
+const SEARCH_RESULT_LIMIT = 50
+
+const hasActiveFilters = (filters: HistorySearchFilters) =>
+  filters.agentId !== null || !!filters.dateRange || filters.hasAttachments || filters.includeSteps
+
+const toSearchParams = (query: string, filters: HistorySearchFilters): ConversationSearchParams => ({
+  query,
+  include_steps: filters.includeSteps,
+  agent_id: filters.agentId ?? undefined,
+  start_time: filters.dateRange?.[0]?.startOf("day").valueOf(),
+  end_time: filters.dateRange?.[1]?.endOf("day").valueOf(),
+  has_attachments: filters.hasAttachments || undefined,
+  limit: SEARCH_RESULT_LIMIT,
+})
+
+interface ChatHistorySearchBoxProps {
+  query: string
+  onQueryChange: (query: string) => void
+  filters: HistorySearchFilters
+  onFiltersChange: (filters: HistorySearchFilters) => void
+}
+
+// Search input with a popover holding the agent, date range, attachment and step filters
+export function ChatHistorySearchBox({ query, onQueryChange, filters, onFiltersChange }: ChatHistorySearchBoxProps) {
+  const { t } = useTranslation()
+  const [agents, setAgents] = useState<{ agent_id: number; display_name: string }[]>([])
+
+  useEffect(() => {
+    fetchAllAgents().then(result => {
+      if (result.success) {
+        setAgents(result.data)
+      }
+    })
+  }, [])
+
+  const filterContent = (
+    <div className="flex flex-col gap-3 w-64">
+      <div>
+        <div className="text-xs text-gray-500 mb-1">{t("chatHistorySearch.agent")}</div>
+        <Select
+          className="w-full"
+          allowClear
+          placeholder={t("chatHistorySearch.allAgents")}
+          value={filters.agentId ?? undefined}
+          onChange={(value) => onFiltersChange({ ...filters, agentId: value ?? null })}
+          options={agents.map(agent => ({ value: agent.agent_id, label: agent.display_name }))}
+        />
+      </div>
+      <div>
+        <div className="text-xs text-gray-500 mb-1">{t("chatHistorySearch.dateRange")}</div>
+        <DatePicker.RangePicker
+          className="w-full"
+          value={filters.dateRange}
+          onChange={(value) => onFiltersChange({ ...filters, dateRange: value })}
+        />
+      </div>
+      <Checkbox
+        checked={filters.hasAttachments}
+        onChange={(e) => onFiltersChange({ ...filters, hasAttachments: e.target.checked })}
+      >
+        {t("chatHistorySearch.hasAttachments")}
+      </Checkbox>
+      <Checkbox
+        checked={filters.includeSteps}
+        onChange={(e) => onFiltersChange({ ...filters, includeSteps: e.target.checked })}
+      >
+        {t("chatHistorySearch.includeSteps")}
+      </Checkbox>
+      {hasActiveFilters(filters) && (
+        <Button variant="ghost" size="sm" className="self-end" onClick={() => onFiltersChange(EMPTY_HISTORY_SEARCH_FILTERS)}>
+          {t("chatHistorySearch.resetFilters")}
+        </Button>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="flex items-center gap-1">
+      <div className="relative flex-1">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <Input
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => e.key === "Escape" && onQueryChange("")}
+          placeholder={t("chatHistorySearch.placeholder")}
+          className="h-9 pl-8 pr-7 text-sm"
+        />
+        {query && (
+          <button
+            type="button"
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+            onClick={() => onQueryChange("")}
+            title={t("chatHistorySearch.clear")}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      <Popover content={filterContent} trigger="click" placement="bottomLeft">
+        <Button variant="ghost" size="icon" className="relative h-9 w-9 flex-shrink-0" title={t("chatHistorySearch.filters")}>
+          <SlidersHorizontal className="h-4 w-4" />
+          {hasActiveFilters(filters) && (
+            <span className="absolute top-1.5 right-1.5 h-2 w-2 rounded-full bg-blue-500" />
+          )}
+        </Button>
+      </Popover>
+    </div>
+  )
+}
+
+interface ChatHistorySearchResultsProps {
+  query: string
+  filters: HistorySearchFilters
+  onResultClick: (hit: ConversationSearchHit) => void
+}
+
+// Matching messages of all conversations, newest first as returned by the server
+export function ChatHistorySearchResults({ query, filters, onResultClick }: ChatHistorySearchResultsProps) {
+  const { t } = useTranslation()
+  const [hits, setHits] = useState<ConversationSearchHit[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const trimmedQuery = query.trim()
+    if (!trimmedQuery) {
+      setHits([])
+      return
+    }
+
+    // Each new query cancels the one still in flight
+    const controller = new AbortController()
+    const timer = setTimeout(async () => {
+      setIsSearching(true)
+      setError(null)
+      try {
+        const result = await conversationService.search(toSearchParams(trimmedQuery, filters), controller.signal)
+        setHits(result)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error(t("chatHistorySearch.searchFailed"), err)
+        setError(t("chatHistorySearch.searchFailed"))
+        setHits([])
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsSearching(false)
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query, filters])
+
+  if (isSearching && hits.length === 0) {
+    return (
+      <div className="flex justify-center py-6">
+        <Spin size="small" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="px-2 py-4 text-sm text-red-500">{error}</p>
+  }
+
+  if (hits.length === 0) {
+    return <p className="px-2 py-4 text-sm text-muted-foreground">{t("chatHistorySearch.noResults")}</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="px-2 text-xs text-gray-500">{t("chatHistorySearch.resultCount", { count: hits.length })}</p>
+      {hits.map(hit => (
+        <button
+          key={`${hit.conversation_id}-${hit.message_id}-${hit.match_type}`}
+          type="button"
+          className="w-full text-left rounded-md px-2 py-2 hover:bg-slate-100"
+          onClick={() => onResultClick(hit)}
+        >
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <span className="truncate flex-1 font-medium text-gray-700">{hit.conversation_title}</span>
+            <span className="flex-shrink-0">{new Date(hit.create_time).toLocaleDateString()}</span>
+          </div>
+          <div className="mt-1 text-sm text-gray-800 line-clamp-3 break-words">
+            <span className="mr-1 text-xs text-blue-600">[{t(`chatHistorySearch.matchType.${hit.match_type}`)}]</span>
+            <HighlightedSnippet snippet={hit.snippet} query={query} />
+          </div>
+        </button>
+      ))}
+    </div>
+  )
+}
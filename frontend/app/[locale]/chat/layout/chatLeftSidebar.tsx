@@ -1,6 +1,16 @@
 import { useState, useRef, useEffect } from "react"
 import { Button } from "@/components/ui/button"
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdownMenu"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdownMenu"
 import {
   Clock,
   Settings,
@@ -10,7 +20,19 @@ import {
   MoreHorizontal,
   ChevronLeft,
   ChevronRight,
+  ChevronDown,
   User,
+  Download,
+  Upload,
+  Pin,
+  PinOff,
+  Folder,
+  FolderOpen,
+  FolderInput,
+  FolderPlus,
+  Tags,
+  ListChecks,
+  X,
 } from "lucide-react"
 import { ConversationListItem } from "@/types/chat"
 import { Input } from "@/components/ui/input"
@@ -19,11 +41,27 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { StaticScrollArea } from "@/components/ui/scrollArea"
 import { useConfig } from "@/hooks/useConfig"
 import { useResponsiveTextSize } from "@/hooks/useResponsiveTextSize"
-import { Spin, Tag, ConfigProvider } from "antd"
+import { Spin, Tag, ConfigProvider, Checkbox } from "antd"
 import { getRoleColor } from "@/lib/auth"
 import { useAuth } from "@/hooks/useAuth"
 import { extractColorsFromUri } from "@/lib/avatar"
 import { useTranslation } from "react-i18next"
+import { ConversationExportFormat } from "@/app/chat/internal/conversationExport"
+import { ConversationFolder, ConversationSearchHit, ConversationTag } from "@/types/conversation"
+import {
+  ConversationOrganizer,
+  ConversationPlacement,
+  UNFILED_PLACEMENT,
+  placementOf,
+  sortByOrder
+} from "@/hooks/useConversationOrganizer"
+import { ConversationTagManager } from "./conversationTagManager"
+import {
+  ChatHistorySearchBox,
+  ChatHistorySearchResults,
+  EMPTY_HISTORY_SEARCH_FILTERS,
+  HistorySearchFilters
+} from "./chatHistorySearch"
 
 // conversation status indicator component
 const ConversationStatusIndicator = ({ 
@@ -62,6 +100,11 @@ interface ChatSidebarProps {
   onDialogClick: (dialog: ConversationListItem) => void
   onRename: (dialogId: number, title: string) => void
   onDelete: (dialogId: number) => void
+  onBulkDelete: (dialogIds: number[]) => void
+  organizer: ConversationOrganizer
+  onExport: (dialog: ConversationListItem, format: ConversationExportFormat) => void
+  onImport: (file: File) => void
+  onSearchResultClick: (hit: ConversationSearchHit) => void
   onSettingsClick: () => void
   onDropdownOpenChange: (open: boolean, id: string | null) => void
   onToggleSidebar: () => void
@@ -100,6 +143,11 @@ const categorizeDialogs = (dialogs: ConversationListItem[]) => {
   }
 }
 
+// Tag dots shown after a title, the tooltip lists all of them
+const MAX_VISIBLE_TAGS = 3
+
+type DragItem = { kind: "conversation" | "folder"; id: number }
+
 export function ChatSidebar({
   conversationList,
   selectedConversationId,
@@ -110,6 +158,11 @@ export function ChatSidebar({
   onDialogClick,
   onRename,
   onDelete,
+  onBulkDelete,
+  organizer,
+  onExport,
+  onImport,
+  onSearchResultClick,
   onSettingsClick,
   onDropdownOpenChange,
   onToggleSidebar,
@@ -119,10 +172,37 @@ export function ChatSidebar({
   userRole = "user",
 }: ChatSidebarProps) {
   const { t } = useTranslation();
-  const { today, week, older } = categorizeDialogs(conversationList)
+  // Pinned and filed conversations get their own sections, conversations of unknown folders stay unfiled
+  const folderIds = new Set(organizer.folders.map(folder => folder.folder_id))
+  const pinned = sortByOrder(conversationList.filter(dialog => dialog.pinned))
+  const unfiled = conversationList.filter(dialog => {
+    const placement = placementOf(dialog)
+    return !placement.pinned && (placement.folderId === null || !folderIds.has(placement.folderId))
+  })
+  const { today, week, older } = categorizeDialogs(unfiled)
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editingTitle, setEditingTitle] = useState("");
   const inputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchFilters, setSearchFilters] = useState<HistorySearchFilters>(EMPTY_HISTORY_SEARCH_FILTERS);
+
+  // Folder editing and collapsing
+  const [isCreatingFolder, setIsCreatingFolder] = useState(false);
+  const [newFolderName, setNewFolderName] = useState("");
+  const [editingFolderId, setEditingFolderId] = useState<number | null>(null);
+  const [editingFolderName, setEditingFolderName] = useState("");
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<number>>(new Set());
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+
+  // Drag and drop of conversations and folders
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+
+  // Bulk selection
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [isBulkDeleteDialogOpen, setIsBulkDeleteDialogOpen] = useState(false);
 
    // 获取用户认证状态
   const { isLoading: userAuthLoading, isSpeedMode } = useAuth();
@@ -212,6 +292,88 @@ export function ChatSidebar({
     }
   };
 
+  // Handle export click
+  const handleExportClick = (dialog: ConversationListItem, format: ConversationExportFormat) => {
+    onDropdownOpenChange(false, null);
+    onExport(dialog, format);
+  };
+
+  // Handle the file chosen for import, reset the input so the same file can be chosen again
+  const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImport(file);
+    }
+    e.target.value = "";
+  };
+
+  // Close the dropdown before running an action picked from it
+  const handleOrganizerAction = (action: () => void) => {
+    onDropdownOpenChange(false, null);
+    action();
+  };
+
+  const handleSubmitNewFolder = () => {
+    if (newFolderName.trim()) {
+      organizer.createFolder(newFolderName.trim());
+    }
+    setNewFolderName("");
+    setIsCreatingFolder(false);
+  };
+
+  const handleStartFolderEdit = (folder: ConversationFolder) => {
+    onDropdownOpenChange(false, null);
+    setEditingFolderId(folder.folder_id);
+    setEditingFolderName(folder.name);
+  };
+
+  const handleSubmitFolderEdit = () => {
+    if (editingFolderId !== null && editingFolderName.trim()) {
+      organizer.renameFolder(editingFolderId, editingFolderName.trim());
+    }
+    setEditingFolderId(null);
+  };
+
+  const toggleFolderCollapsed = (folderId: number) => {
+    setCollapsedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+
+  const handleDragEnd = () => {
+    setDragItem(null);
+    setDropTargetKey(null);
+  };
+
+  const toggleSelected = (dialogId: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(dialogId)) {
+        next.delete(dialogId);
+      } else {
+        next.add(dialogId);
+      }
+      return next;
+    });
+  };
+
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedIds(new Set());
+  };
+
+  const confirmBulkDelete = () => {
+    onBulkDelete(Array.from(selectedIds));
+    setIsBulkDeleteDialogOpen(false);
+    exitSelectMode();
+  };
+
   // Render application icon
   const renderAppIcon = () => {
     return (
@@ -221,92 +383,425 @@ export function ChatSidebar({
     );
   };
 
+  // Drop zone handlers, a zone only reacts to the kinds of items it has a handler for
+  const dropZoneProps = (key: string, handlers: { conversation?: (id: number) => void; folder?: (id: number) => void }) => {
+    const handler = dragItem ? handlers[dragItem.kind] : undefined;
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!handler) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setDropTargetKey(key);
+      },
+      onDragLeave: (e: React.DragEvent) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setDropTargetKey(prev => (prev === key ? null : prev));
+        }
+      },
+      onDrop: (e: React.DragEvent) => {
+        if (!handler || !dragItem) return;
+        e.preventDefault();
+        e.stopPropagation();
+        handler(dragItem.id);
+        handleDragEnd();
+      },
+    };
+  };
+
+  const dragSourceProps = (item: DragItem, enabled: boolean) => enabled ? {
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.stopPropagation();
+      e.dataTransfer.effectAllowed = "move";
+      e.dataTransfer.setData("text/plain", String(item.id));
+      setDragItem(item);
+    },
+    onDragEnd: handleDragEnd,
+  } : {};
+
+  const dropHighlight = (key: string) => dropTargetKey === key ? "ring-2 ring-blue-300 bg-blue-50" : "";
+
+  // Render one conversation. Rows of an ordered section (pinned, folders) accept drops to reorder before them.
+  const renderDialogItem = (dialog: ConversationListItem, orderedPlacement?: ConversationPlacement) => {
+    const rowKey = `conversation-${dialog.conversation_id}`;
+    const dialogTags = (dialog.tag_ids || [])
+      .map(tagId => organizer.tags.find(tag => tag.tag_id === tagId))
+      .filter((tag): tag is ConversationTag => !!tag);
+
+    return (
+      <div
+        key={dialog.conversation_id}
+        className={`flex items-center group rounded-md ${
+          selectedConversationId === dialog.conversation_id ? "bg-blue-100" : "hover:bg-slate-100"
+        } ${dropHighlight(rowKey)}`}
+        {...dragSourceProps({ kind: "conversation", id: dialog.conversation_id }, editingId !== dialog.conversation_id && !selectMode)}
+        {...(orderedPlacement ? dropZoneProps(rowKey, {
+          conversation: (id) => organizer.moveConversation(id, orderedPlacement, dialog.conversation_id)
+        }) : {})}
+      >
+        {editingId === dialog.conversation_id ? (
+          // Edit mode
+          <div className="flex-1 px-3 py-2">
+            <Input
+              ref={inputRef}
+              value={editingTitle}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onKeyDown={handleKeyDown}
+              onBlur={handleSubmitEdit}
+              className="h-8 text-base"
+              autoFocus
+            />
+          </div>
+        ) : (
+          // Display mode
+          <>
+            {selectMode && (
+              <Checkbox
+                className="ml-3"
+                checked={selectedIds.has(dialog.conversation_id)}
+                onChange={() => toggleSelected(dialog.conversation_id)}
+              />
+            )}
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    className="flex-1 justify-start text-left hover:bg-transparent min-w-0 max-w-[250px]"
+                    onClick={() => selectMode ? toggleSelected(dialog.conversation_id) : onDialogClick(dialog)}
+                  >
+                    <ConversationStatusIndicator
+                      isStreaming={streamingConversations.has(dialog.conversation_id)}
+                      isCompleted={completedConversations.has(dialog.conversation_id)}
+                    />
+                    <span className="truncate block text-base font-normal text-gray-800 tracking-wide font-sans">{dialog.conversation_title}</span>
+                    {dialogTags.length > 0 && (
+                      <span className="ml-2 flex flex-shrink-0 gap-1">
+                        {dialogTags.slice(0, MAX_VISIBLE_TAGS).map(tag => (
+                          <span key={tag.tag_id} className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                        ))}
+                      </span>
+                    )}
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent side="right" className="max-w-xs">
+                  <p className="break-words">{dialog.conversation_title}</p>
+                  {dialogTags.length > 0 && (
+                    <p className="mt-1 text-xs text-muted-foreground">{dialogTags.map(tag => tag.name).join(", ")}</p>
+                  )}
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+
+            {!selectMode && (
+              <DropdownMenu
+                open={openDropdownId === dialog.conversation_id.toString()}
+                onOpenChange={(open) => onDropdownOpenChange(open, dialog.conversation_id.toString())}
+              >
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 flex-shrink-0 opacity-0 group-hover:opacity-100 hover:bg-slate-100 hover:border hover:border-slate-200 mr-1 focus:outline-none focus:ring-0"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" side="bottom">
+                  <DropdownMenuItem onClick={() => handleOrganizerAction(() => organizer.togglePin(dialog))}>
+                    {dialog.pinned ? <PinOff className="mr-2 h-5 w-5" /> : <Pin className="mr-2 h-5 w-5" />}
+                    {t(dialog.pinned ? 'chatLeftSidebar.unpin' : 'chatLeftSidebar.pin')}
+                  </DropdownMenuItem>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <FolderInput className="mr-2 h-5 w-5" />
+                      {t('chatLeftSidebar.moveToFolder')}
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {renderMoveTargets([dialog.conversation_id])}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <Tags className="mr-2 h-5 w-5" />
+                      {t('chatLeftSidebar.tags')}
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {organizer.tags.map(tag => (
+                        <DropdownMenuCheckboxItem
+                          key={tag.tag_id}
+                          checked={dialogTags.some(item => item.tag_id === tag.tag_id)}
+                          onSelect={(e) => e.preventDefault()}
+                          onCheckedChange={(checked) => organizer.setConversationTags(
+                            dialog.conversation_id,
+                            checked
+                              ? [...(dialog.tag_ids || []), tag.tag_id]
+                              : (dialog.tag_ids || []).filter(id => id !== tag.tag_id)
+                          )}
+                        >
+                          <span className="mr-2 h-3 w-3 rounded-full" style={{ backgroundColor: tag.color }} />
+                          {tag.name}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                      {organizer.tags.length > 0 && <DropdownMenuSeparator />}
+                      <DropdownMenuItem onClick={() => handleOrganizerAction(() => setIsTagManagerOpen(true))}>
+                        {t('chatLeftSidebar.manageTags')}
+                      </DropdownMenuItem>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuItem onClick={() => handleStartEdit(dialog.conversation_id, dialog.conversation_title)}>
+                    <Pencil className="mr-2 h-5 w-5" />
+                    {t('chatLeftSidebar.rename')}
+                  </DropdownMenuItem>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger>
+                      <Download className="mr-2 h-5 w-5" />
+                      {t('chatLeftSidebar.export')}
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      <DropdownMenuItem onClick={() => handleExportClick(dialog, "markdown")}>
+                        {t('chatLeftSidebar.exportMarkdown')}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleExportClick(dialog, "html")}>
+                        {t('chatLeftSidebar.exportHtml')}
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleExportClick(dialog, "json")}>
+                        {t('chatLeftSidebar.exportJson')}
+                      </DropdownMenuItem>
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuItem
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                    onClick={() => handleDeleteClick(dialog.conversation_id)}
+                  >
+                    <Trash2 className="mr-2 h-5 w-5" />
+                    {t('chatLeftSidebar.delete')}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // Folder entries of a "move to" menu, plus taking the conversations out of their folder
+  const renderMoveTargets = (conversationIds: number[]) => (
+    <>
+      {organizer.folders.map(folder => (
+        <DropdownMenuItem key={folder.folder_id} onClick={() => handleOrganizerAction(() => organizer.moveToFolder(conversationIds, folder.folder_id))}>
+          <Folder className="mr-2 h-4 w-4" />
+          <span className="truncate max-w-[180px]">{folder.name}</span>
+        </DropdownMenuItem>
+      ))}
+      {organizer.folders.length > 0 && <DropdownMenuSeparator />}
+      <DropdownMenuItem onClick={() => handleOrganizerAction(() => organizer.moveToFolder(conversationIds, null))}>
+        {t('chatLeftSidebar.noFolder')}
+      </DropdownMenuItem>
+    </>
+  );
+
+  const sectionTitleClassName = "px-2 pr-3 text-sm font-medium text-gray-500 tracking-wide font-sans py-1";
+  const sectionTitleStyle = { fontWeight: 'bold', color: '#4d4d4d', backgroundColor: 'rgb(242 248 255)', fontSize: '16px', whiteSpace: 'nowrap' } as const;
+
   // Render dialog list items
   const renderDialogList = (dialogs: ConversationListItem[], title: string) => {
     if (dialogs.length === 0) return null;
 
     return (
       <div className="space-y-1">
-        <p className="px-2 pr-3 text-sm font-medium text-gray-500 tracking-wide font-sans py-1" style={{ fontWeight:'bold',color:'#4d4d4d',backgroundColor: 'rgb(242 248 255)',fontSize:'16px', whiteSpace: 'nowrap' }}>{title}</p>
-        {dialogs.map((dialog) => (
-          <div 
-            key={dialog.conversation_id} 
-            className={`flex items-center group rounded-md ${
-              selectedConversationId === dialog.conversation_id ? "bg-blue-100" : "hover:bg-slate-100"
-            }`}
+        <p className={sectionTitleClassName} style={sectionTitleStyle}>{title}</p>
+        {dialogs.map((dialog) => renderDialogItem(dialog))}
+      </div>
+    );
+  };
+
+  // Pinned conversations, shown while dragging even when empty so conversations can be dropped in
+  const renderPinnedSection = () => {
+    if (pinned.length === 0 && dragItem?.kind !== "conversation") return null;
+    const placement: ConversationPlacement = { pinned: true, folderId: null };
+
+    return (
+      <div
+        className={`space-y-1 rounded-md ${dropHighlight("pinned")}`}
+        {...dropZoneProps("pinned", { conversation: (id) => organizer.moveConversation(id, placement) })}
+      >
+        <p className={`${sectionTitleClassName} flex items-center`} style={sectionTitleStyle}>
+          <Pin className="mr-2 h-4 w-4" />
+          {t('chatLeftSidebar.pinned')}
+        </p>
+        {pinned.length === 0 ? (
+          <p className="px-3 py-2 text-sm text-muted-foreground">{t('chatLeftSidebar.dropToPin')}</p>
+        ) : pinned.map(dialog => renderDialogItem(dialog, placement))}
+      </div>
+    );
+  };
+
+  const renderFolder = (folder: ConversationFolder) => {
+    const placement: ConversationPlacement = { pinned: false, folderId: folder.folder_id };
+    const dialogs = sortByOrder(conversationList.filter(dialog => placementOf(dialog).folderId === folder.folder_id));
+    const collapsed = collapsedFolders.has(folder.folder_id);
+    const headerKey = `folder-${folder.folder_id}`;
+    const bodyKey = `folder-body-${folder.folder_id}`;
+
+    return (
+      <div key={folder.folder_id} className="space-y-1">
+        <div
+          className={`flex items-center group rounded-md hover:bg-slate-100 ${dropHighlight(headerKey)}`}
+          {...dragSourceProps({ kind: "folder", id: folder.folder_id }, editingFolderId !== folder.folder_id && !selectMode)}
+          {...dropZoneProps(headerKey, {
+            conversation: (id) => organizer.moveConversation(id, placement),
+            folder: (id) => organizer.moveFolder(id, folder.folder_id),
+          })}
+        >
+          {editingFolderId === folder.folder_id ? (
+            <div className="flex-1 px-3 py-1">
+              <Input
+                value={editingFolderName}
+                onChange={(e) => setEditingFolderName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSubmitFolderEdit();
+                  else if (e.key === "Escape") setEditingFolderId(null);
+                }}
+                onBlur={handleSubmitFolderEdit}
+                className="h-8 text-base"
+                autoFocus
+              />
+            </div>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                className="flex-1 justify-start text-left hover:bg-transparent min-w-0 px-2"
+                onClick={() => toggleFolderCollapsed(folder.folder_id)}
+              >
+                {collapsed ? <ChevronRight className="mr-1 h-4 w-4 flex-shrink-0" /> : <ChevronDown className="mr-1 h-4 w-4 flex-shrink-0" />}
+                {collapsed ? <Folder className="mr-2 h-4 w-4 flex-shrink-0" /> : <FolderOpen className="mr-2 h-4 w-4 flex-shrink-0" />}
+                <span className="truncate text-base font-medium text-gray-800">{folder.name}</span>
+                <span className="ml-2 text-xs text-gray-400">{dialogs.length}</span>
+              </Button>
+              <DropdownMenu
+                open={openDropdownId === headerKey}
+                onOpenChange={(open) => onDropdownOpenChange(open, headerKey)}
+              >
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 flex-shrink-0 opacity-0 group-hover:opacity-100 hover:bg-slate-100 hover:border hover:border-slate-200 mr-1 focus:outline-none focus:ring-0"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" side="bottom">
+                  <DropdownMenuItem onClick={() => handleStartFolderEdit(folder)}>
+                    <Pencil className="mr-2 h-5 w-5" />
+                    {t('chatLeftSidebar.rename')}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                    onClick={() => handleOrganizerAction(() => organizer.deleteFolder(folder.folder_id))}
+                  >
+                    <Trash2 className="mr-2 h-5 w-5" />
+                    {t('chatLeftSidebar.deleteFolder')}
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </>
+          )}
+        </div>
+        {!collapsed && (
+          <div
+            className={`ml-4 space-y-1 rounded-md ${dropHighlight(bodyKey)}`}
+            {...dropZoneProps(bodyKey, { conversation: (id) => organizer.moveConversation(id, placement) })}
           >
-            {editingId === dialog.conversation_id ? (
-              // Edit mode
-              <div className="flex-1 px-3 py-2">
-                <Input
-                  ref={inputRef}
-                  value={editingTitle}
-                  onChange={(e) => setEditingTitle(e.target.value)}
-                  onKeyDown={handleKeyDown}
-                  onBlur={handleSubmitEdit}
-                  className="h-8 text-base"
-                  autoFocus
-                />
-              </div>
-            ) : (
-              // Display mode
-              <>
-                <TooltipProvider>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        variant="ghost"
-                        className="flex-1 justify-start text-left hover:bg-transparent min-w-0 max-w-[250px]"
-                        onClick={() => onDialogClick(dialog)}
-                      >
-                        <ConversationStatusIndicator
-                          isStreaming={streamingConversations.has(dialog.conversation_id)}
-                          isCompleted={completedConversations.has(dialog.conversation_id)}
-                        />
-                        <span className="truncate block text-base font-normal text-gray-800 tracking-wide font-sans">{dialog.conversation_title}</span>
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent side="right" className="max-w-xs">
-                      <p className="break-words">{dialog.conversation_title}</p>
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
-                
-                <DropdownMenu 
-                  open={openDropdownId === dialog.conversation_id.toString()} 
-                  onOpenChange={(open) => onDropdownOpenChange(open, dialog.conversation_id.toString())}
-                >
-                  <DropdownMenuTrigger asChild>
-                    <Button 
-                      variant="ghost" 
-                      size="icon" 
-                      className="h-6 w-6 flex-shrink-0 opacity-0 group-hover:opacity-100 hover:bg-slate-100 hover:border hover:border-slate-200 mr-1 focus:outline-none focus:ring-0"
-                    >
-                      <MoreHorizontal className="h-4 w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" side="bottom">
-                    <DropdownMenuItem onClick={() => handleStartEdit(dialog.conversation_id, dialog.conversation_title)}>
-                      <Pencil className="mr-2 h-5 w-5" />
-                      {t('chatLeftSidebar.rename')}
-                    </DropdownMenuItem>
-                    <DropdownMenuItem 
-                      className="text-red-500 hover:text-red-600 hover:bg-red-50"
-                      onClick={() => handleDeleteClick(dialog.conversation_id)}
-                    >
-                      <Trash2 className="mr-2 h-5 w-5" />
-                      {t('chatLeftSidebar.delete')}
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </>
-            )}
+            {dialogs.length === 0 ? (
+              <p className="px-3 py-2 text-sm text-muted-foreground">{t('chatLeftSidebar.emptyFolder')}</p>
+            ) : dialogs.map(dialog => renderDialogItem(dialog, placement))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderFolderSection = () => {
+    if (organizer.folders.length === 0 && !isCreatingFolder) return null;
+
+    return (
+      <div className="space-y-1">
+        <p className={`${sectionTitleClassName} flex items-center`} style={sectionTitleStyle}>
+          <Folder className="mr-2 h-4 w-4" />
+          {t('chatLeftSidebar.folders')}
+        </p>
+        {isCreatingFolder && (
+          <div className="px-3 py-1">
+            <Input
+              value={newFolderName}
+              onChange={(e) => setNewFolderName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSubmitNewFolder();
+                else if (e.key === "Escape") setIsCreatingFolder(false);
+              }}
+              onBlur={handleSubmitNewFolder}
+              placeholder={t('chatLeftSidebar.folderNamePlaceholder')}
+              className="h-8 text-base"
+              autoFocus
+            />
           </div>
-        ))}
+        )}
+        {organizer.folders.map(renderFolder)}
       </div>
     );
   };
 
+  // Conversations outside of folders and the pinned list, grouped by date; dropping here unfiles a conversation
+  const renderUnfiledSection = () => (
+    <div
+      className={`space-y-4 rounded-md ${dropHighlight("unfiled")}`}
+      {...dropZoneProps("unfiled", { conversation: (id) => organizer.moveConversation(id, UNFILED_PLACEMENT) })}
+    >
+      {renderDialogList(today, t('chatLeftSidebar.today'))}
+      {renderDialogList(week, t('chatLeftSidebar.last7Days'))}
+      {renderDialogList(older, t('chatLeftSidebar.older'))}
+      {unfiled.length === 0 && dragItem?.kind === "conversation" && (
+        <p className="px-3 py-2 text-sm text-muted-foreground">{t('chatLeftSidebar.dropToUnfile')}</p>
+      )}
+    </div>
+  );
+
+  // Bar shown in selection mode, acting on all selected conversations
+  const renderBulkActions = () => (
+    <div className="mx-2 mb-2 flex items-center gap-1 rounded-md border border-slate-200 bg-white p-2">
+      <span className="flex-1 truncate text-sm text-gray-700">
+        {t('chatLeftSidebar.selectedCount', { count: selectedIds.size })}
+      </span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-8 w-8" disabled={selectedIds.size === 0} title={t('chatLeftSidebar.moveToFolder')}>
+            <FolderInput className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" side="top">
+          {renderMoveTargets(Array.from(selectedIds))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50"
+        disabled={selectedIds.size === 0}
+        onClick={() => setIsBulkDeleteDialogOpen(true)}
+        title={t('chatLeftSidebar.delete')}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={exitSelectMode} title={t('chatLeftSidebar.cancel')}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
   // Render collapsed state sidebar
   const renderCollapsedSidebar = () => {
     return (
@@ -465,20 +960,75 @@ export function ChatSidebar({
               </div>
             </div>
 
-            <div className="m-4">
-              <Button variant="outline" className="w-full justify-start text-base overflow-hidden" onClick={onNewConversation}>
+            <div className="m-4 flex gap-2">
+              <Button variant="outline" className="flex-1 justify-start text-base overflow-hidden" onClick={onNewConversation}>
                 <Plus className="mr-2 flex-shrink-0" style={{height:'20px', width:'20px'}}/>
                 <span className="truncate">{t('chatLeftSidebar.newConversation')}</span>
               </Button>
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button variant="outline" size="icon" className="flex-shrink-0" onClick={() => importInputRef.current?.click()}>
+                      <Upload className="h-5 w-5" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>{t('chatLeftSidebar.importConversation')}</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleImportFileChange}
+              />
+            </div>
+
+            <div className="mx-4">
+              <ChatHistorySearchBox
+                query={searchQuery}
+                onQueryChange={setSearchQuery}
+                filters={searchFilters}
+                onFiltersChange={setSearchFilters}
+              />
+            </div>
+
+            <div className="mx-4 mt-1 flex justify-end gap-1">
+              {[
+                { icon: FolderPlus, label: t('chatLeftSidebar.newFolder'), onClick: () => setIsCreatingFolder(true), active: false },
+                { icon: Tags, label: t('chatLeftSidebar.manageTags'), onClick: () => setIsTagManagerOpen(true), active: false },
+                { icon: ListChecks, label: t('chatLeftSidebar.select'), onClick: () => selectMode ? exitSelectMode() : setSelectMode(true), active: selectMode },
+              ].map(({ icon: Icon, label, onClick, active }) => (
+                <TooltipProvider key={label}>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button variant="ghost" size="icon" className={`h-8 w-8 ${active ? "bg-blue-100" : ""}`} onClick={onClick}>
+                        <Icon className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>{label}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              ))}
             </div>
 
             <StaticScrollArea className="flex-1 m-2">
               <div className="space-y-4 pr-2">
-                {conversationList.length > 0 ? (
+                {searchQuery.trim() ? (
+                  <ChatHistorySearchResults
+                    query={searchQuery}
+                    filters={searchFilters}
+                    onResultClick={onSearchResultClick}
+                  />
+                ) : conversationList.length > 0 || organizer.folders.length > 0 || isCreatingFolder ? (
                   <>
-                    {renderDialogList(today, t('chatLeftSidebar.today'))}
-                    {renderDialogList(week, t('chatLeftSidebar.last7Days'))}
-                    {renderDialogList(older, t('chatLeftSidebar.older'))}
+                    {renderPinnedSection()}
+                    {renderFolderSection()}
+                    {renderUnfiledSection()}
                   </>
                 ) : (
                   <div className="space-y-1">
@@ -492,6 +1042,8 @@ export function ChatSidebar({
               </div>
             </StaticScrollArea>
 
+            {selectMode && renderBulkActions()}
+
           <div className="mt-auto p-3 border-t border-transparent flex justify-between items-center">
             {userAuthLoading ? (
               <div className="flex items-center">
@@ -568,6 +1120,30 @@ export function ChatSidebar({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Bulk delete confirmation dialog */}
+      <Dialog open={isBulkDeleteDialogOpen} onOpenChange={setIsBulkDeleteDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{t('chatLeftSidebar.confirmBulkDeletionTitle')}</DialogTitle>
+            <DialogDescription>
+              {t('chatLeftSidebar.confirmBulkDeletionDescription', { count: selectedIds.size })}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsBulkDeleteDialogOpen(false)}>{t('chatLeftSidebar.cancel')}</Button>
+            <Button variant="destructive" onClick={confirmBulkDelete}>{t('chatLeftSidebar.delete')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConversationTagManager
+        open={isTagManagerOpen}
+        onOpenChange={setIsTagManagerOpen}
+        tags={organizer.tags}
+        onCreateTag={organizer.createTag}
+        onDeleteTag={organizer.deleteTag}
+      />
     </>
   )
 }
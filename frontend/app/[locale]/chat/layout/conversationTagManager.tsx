@@ -0,0 +1,94 @@
+import { useState } from "react"
+import { Trash2 } from "lucide-react"
+import { useTranslation } from "react-i18next"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ConversationTag } from "@/types/conversation"
+
+export const TAG_COLORS = ["#1677ff", "#52c41a", "#faad14", "#f5222d", "#722ed1", "#13c2c2", "#eb2f96", "#8c8c8c"]
+
+interface ConversationTagManagerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tags: ConversationTag[]
+  onCreateTag: (name: string, color: string) => void
+  onDeleteTag: (tagId: number) => void
+}
+
+// Create and delete the colored tags that can be put on conversations
+export function ConversationTagManager({ open, onOpenChange, tags, onCreateTag, onDeleteTag }: ConversationTagManagerProps) {
+  const { t } = useTranslation()
+  const [name, setName] = useState("")
+  const [color, setColor] = useState(TAG_COLORS[0])
+
+  const trimmedName = name.trim()
+  const isDuplicate = tags.some(tag => tag.name === trimmedName)
+
+  const handleCreate = () => {
+    if (!trimmedName || isDuplicate) return
+    onCreateTag(trimmedName, color)
+    setName("")
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{t("conversationTagManager.title")}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {tags.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("conversationTagManager.empty")}</p>
+          ) : tags.map(tag => (
+            <div key={tag.tag_id} className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-slate-50">
+              <span className="h-3 w-3 rounded-full flex-shrink-0" style={{ backgroundColor: tag.color }} />
+              <span className="flex-1 truncate text-sm">{tag.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-red-500 hover:text-red-600 hover:bg-red-50"
+                onClick={() => onDeleteTag(tag.tag_id)}
+                title={t("conversationTagManager.delete")}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+              placeholder={t("conversationTagManager.namePlaceholder")}
+              className="h-9"
+              maxLength={30}
+            />
+            <Button onClick={handleCreate} disabled={!trimmedName || isDuplicate}>
+              {t("conversationTagManager.add")}
+            </Button>
+          </div>
+          {isDuplicate && (
+            <p className="text-xs text-red-500">{t("conversationTagManager.duplicate")}</p>
+          )}
+          <div className="flex gap-2">
+            {TAG_COLORS.map(item => (
+              <button
+                key={item}
+                type="button"
+                className={`h-6 w-6 rounded-full border-2 ${color === item ? "border-gray-700" : "border-transparent"}`}
+                style={{ backgroundColor: item }}
+                onClick={() => setColor(item)}
+                aria-label={item}
+              />
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
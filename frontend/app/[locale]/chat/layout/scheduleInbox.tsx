@@ -0,0 +1,128 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import { Bell, CheckCheck, CircleCheck, CircleX, Loader2 } from "lucide-react"
+import { useTranslation } from "react-i18next"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdownMenu"
+import { scheduleService } from "@/services/scheduleService"
+import { InboxItem } from "@/types/schedule"
+
+// Scheduled runs finish without anyone watching, the inbox checks for new results at this pace
+const INBOX_POLL_INTERVAL = 60000
+
+interface ScheduleInboxProps {
+  onOpenItem: (item: InboxItem) => void
+}
+
+const RunStatusIcon = ({ item }: { item: InboxItem }) => {
+  switch (item.run.status) {
+    case "running":
+      return <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin text-blue-500" />
+    case "success":
+      return <CircleCheck className="h-4 w-4 flex-shrink-0 text-green-600" />
+    case "failed":
+      return <CircleX className="h-4 w-4 flex-shrink-0 text-red-500" />
+  }
+}
+
+// Results of the scheduled and webhook triggered runs delivered to the inbox of the user
+export function ScheduleInbox({ onOpenItem }: ScheduleInboxProps) {
+  const { t } = useTranslation('common')
+  const [items, setItems] = useState<InboxItem[]>([])
+
+  const loadItems = async () => {
+    try {
+      setItems(await scheduleService.listInbox())
+    } catch (error) {
+      // Servers without schedules have no inbox, the bell just stays empty
+      console.warn(t('scheduleInbox.loadFailed'), error)
+    }
+  }
+
+  useEffect(() => {
+    loadItems()
+    const timer = setInterval(loadItems, INBOX_POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [])
+
+  const unreadCount = items.filter(item => !item.read).length
+
+  const markRead = async (itemIds?: number[]) => {
+    setItems(prev => prev.map(item => !itemIds || itemIds.includes(item.item_id) ? { ...item, read: true } : item))
+    try {
+      await scheduleService.markInboxRead(itemIds)
+    } catch (error) {
+      console.error(t('scheduleInbox.markReadFailed'), error)
+    }
+  }
+
+  const handleOpen = (item: InboxItem) => {
+    if (!item.read) markRead([item.item_id])
+    onOpenItem(item)
+  }
+
+  return (
+    <DropdownMenu onOpenChange={(open) => { if (open) loadItems() }}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className="relative h-8 w-12 rounded-full" title={t('scheduleInbox.title')}>
+          <Bell className="size-5" />
+          {unreadCount > 0 && (
+            <span className="absolute right-2 top-0.5 min-w-[16px] rounded-full bg-red-500 px-1 text-[10px] leading-4 text-white">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>{t('scheduleInbox.title')}</span>
+          {unreadCount > 0 && (
+            <button
+              className="flex items-center gap-1 text-xs font-normal text-blue-600 hover:underline"
+              onClick={(e) => {
+                e.preventDefault()
+                markRead()
+              }}
+            >
+              <CheckCheck className="h-3.5 w-3.5" />
+              {t('scheduleInbox.markAllRead')}
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {items.length === 0 ? (
+          <div className="px-2 py-4 text-center text-sm text-gray-400">{t('scheduleInbox.empty')}</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {items.map(item => (
+              <DropdownMenuItem
+                key={item.item_id}
+                className="cursor-pointer items-start gap-2"
+                onClick={() => handleOpen(item)}
+                disabled={!item.run.conversation_id}
+              >
+                <RunStatusIcon item={item} />
+                <div className="min-w-0 flex-1">
+                  <div className={`truncate text-sm ${item.read ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                    {item.agent_name} · {item.schedule_name}
+                  </div>
+                  <div className="line-clamp-2 text-xs text-gray-500">{item.summary}</div>
+                  <div className="text-[11px] text-gray-400">{new Date(item.create_time).toLocaleString()}</div>
+                </div>
+                {!item.read && <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-blue-500" />}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
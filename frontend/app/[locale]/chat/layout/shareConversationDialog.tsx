@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react"
+import { App, Checkbox, Popconfirm, Radio, Spin, Tag } from "antd"
+import { Copy, Link2, Trash2 } from "lucide-react"
+import { useTranslation } from "react-i18next"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { conversationService } from "@/services/conversationService"
+import { ConversationShare, ConversationShareVisibility } from "@/types/conversation"
+import { buildShareUrl } from "@/app/chat/internal/conversationShare"
+
+interface ShareConversationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  conversationId: number
+}
+
+// Create, copy and revoke the read-only links of a conversation
+export function ShareConversationDialog({ open, onOpenChange, conversationId }: ShareConversationDialogProps) {
+  const { t, i18n } = useTranslation()
+  const { message } = App.useApp()
+  const [shares, setShares] = useState<ConversationShare[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const [visibility, setVisibility] = useState<ConversationShareVisibility>("tenant")
+  const [redactToolInputs, setRedactToolInputs] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+
+    setIsLoading(true)
+    conversationService.listShares(conversationId)
+      .then(setShares)
+      .catch(error => {
+        console.error(t("shareConversation.loadFailed"), error)
+        message.error(t("shareConversation.loadFailed"))
+      })
+      .finally(() => setIsLoading(false))
+  }, [open, conversationId])
+
+  const copyLink = async (share: ConversationShare) => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(share.token, i18n.language))
+      message.success(t("shareConversation.copied"))
+    } catch (error) {
+      console.error(t("shareConversation.copyFailed"), error)
+      message.error(t("shareConversation.copyFailed"))
+    }
+  }
+
+  const handleCreate = async () => {
+    setIsCreating(true)
+    try {
+      const share = await conversationService.createShare({
+        conversation_id: conversationId,
+        visibility,
+        redact_tool_inputs: redactToolInputs,
+      })
+      setShares(prev => [share, ...prev])
+      await copyLink(share)
+    } catch (error) {
+      console.error(t("shareConversation.createFailed"), error)
+      message.error(t("shareConversation.createFailed"))
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRevoke = async (share: ConversationShare) => {
+    try {
+      await conversationService.revokeShare(share.token)
+      setShares(prev => prev.filter(item => item.token !== share.token))
+      message.success(t("shareConversation.revoked"))
+    } catch (error) {
+      console.error(t("shareConversation.revokeFailed"), error)
+      message.error(t("shareConversation.revokeFailed"))
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{t("shareConversation.title")}</DialogTitle>
+          <DialogDescription>{t("shareConversation.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Radio.Group value={visibility} onChange={(e) => setVisibility(e.target.value)} className="flex flex-col gap-2">
+            <Radio value="tenant">
+              <span className="font-medium">{t("shareConversation.visibility.tenant")}</span>
+              <span className="ml-2 text-xs text-gray-500">{t("shareConversation.visibility.tenantHint")}</span>
+            </Radio>
+            <Radio value="public">
+              <span className="font-medium">{t("shareConversation.visibility.public")}</span>
+              <span className="ml-2 text-xs text-gray-500">{t("shareConversation.visibility.publicHint")}</span>
+            </Radio>
+          </Radio.Group>
+          <Checkbox checked={redactToolInputs} onChange={(e) => setRedactToolInputs(e.target.checked)}>
+            {t("shareConversation.redactToolInputs")}
+          </Checkbox>
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={isCreating}>
+              <Link2 className="mr-2 h-4 w-4" />
+              {t("shareConversation.create")}
+            </Button>
+          </div>
+        </div>
+
+        <div className="border-t pt-4">
+          <p className="mb-2 text-sm font-medium text-gray-700">{t("shareConversation.activeLinks")}</p>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Spin size="small" />
+            </div>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("shareConversation.noLinks")}</p>
+          ) : (
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+              {shares.map(share => (
+                <div key={share.token} className="rounded-md border border-slate-200 p-2">
+                  <div className="mb-1 flex items-center gap-1 text-xs text-gray-500">
+                    <Tag color={share.visibility === "public" ? "orange" : "blue"}>
+                      {t(`shareConversation.visibility.${share.visibility}`)}
+                    </Tag>
+                    {share.redact_tool_inputs && <Tag>{t("shareConversation.redacted")}</Tag>}
+                    <span className="ml-auto">{new Date(share.create_time).toLocaleString()}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Input readOnly value={buildShareUrl(share.token, i18n.language)} className="h-8 text-xs" onFocus={(e) => e.target.select()} />
+                    <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" onClick={() => copyLink(share)} title={t("shareConversation.copy")}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Popconfirm
+                      title={t("shareConversation.confirmRevoke")}
+                      okText={t("shareConversation.revoke")}
+                      cancelText={t("common.cancel")}
+                      okButtonProps={{ danger: true }}
+                      onConfirm={() => handleRevoke(share)}
+                    >
+                      <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0 text-red-500 hover:text-red-600 hover:bg-red-50" title={t("shareConversation.revoke")}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </Popconfirm>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,8 +1,9 @@
 import { useEffect, useRef, useState } from "react"
 import { MarkdownRenderer } from '@/components/ui/markdownRenderer'
 import { ChatMessageType } from '@/types/chat'
-import { Copy, Volume2, ChevronRight, Square, Loader2 } from "lucide-react"
+import { Copy, Volume2, ChevronLeft, ChevronRight, Square, Loader2, Pencil, RotateCcw } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { FaRegThumbsDown, FaRegThumbsUp } from "react-icons/fa"
 import { useConfig } from "@/hooks/useConfig"
@@ -10,6 +11,8 @@ import { ChatAttachment, AttachmentItem } from '@/app/chat/internal/chatAttachme
 import { conversationService } from '@/services/conversationService'
 import { useTranslation } from "react-i18next"
 import { copyToClipboard } from "@/lib/clipboard"
+import { BranchPosition } from "@/app/chat/internal/messageBranches"
+import { ToolApprovalCard, ToolApprovalLog } from "./toolApprovalCard"
 
 interface FinalMessageProps {
   message: ChatMessageType
@@ -22,6 +25,53 @@ interface FinalMessageProps {
   hideButtons?: boolean
   index?: number
   currentConversationId?: number
+  // Branch navigation, only passed for messages that have siblings or can get one
+  branch?: BranchPosition
+  onBranchChange?: (message: ChatMessageType, direction: -1 | 1) => void
+  onEdit?: (message: ChatMessageType, content: string) => void
+  onRegenerate?: (message: ChatMessageType) => void
+  branchActionsDisabled?: boolean
+  // Shared snapshots: no feedback or speech, which need the owner's session
+  readOnly?: boolean
+}
+
+// `<` index/count `>` switcher between the sibling branches of a message
+function BranchNavigator({
+  branch,
+  disabled,
+  onChange,
+}: {
+  branch: BranchPosition
+  disabled?: boolean
+  onChange: (direction: -1 | 1) => void
+}) {
+  const { t } = useTranslation('common');
+
+  return (
+    <div className="flex items-center text-xs text-gray-500 select-none">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => onChange(-1)}
+        disabled={disabled || branch.index === 0}
+        aria-label={t('chatStreamFinalMessage.previousBranch')}
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <span>{branch.index + 1}/{branch.count}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => onChange(1)}
+        disabled={disabled || branch.index === branch.count - 1}
+        aria-label={t('chatStreamFinalMessage.nextBranch')}
+      >
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+    </div>
+  );
 }
 
 // TTS playback status
@@ -38,6 +88,12 @@ export function ChatStreamFinalMessage({
   hideButtons = false,
   index,
   currentConversationId,
+  branch,
+  onBranchChange,
+  onEdit,
+  onRegenerate,
+  branchActionsDisabled = false,
+  readOnly = false,
 }: FinalMessageProps) {
   const { t } = useTranslation('common');
   const { getAppAvatarUrl } = useConfig();
@@ -47,6 +103,8 @@ export function ChatStreamFinalMessage({
   const [copied, setCopied] = useState(false);
   const [localOpinion, setLocalOpinion] = useState<string | null>(message.opinion_flag ?? null);
   const [isVisible, setIsVisible] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editContent, setEditContent] = useState(message.content);
   
   // TTS related states
   const [ttsStatus, setTtsStatus] = useState<TTSStatus>('idle');
@@ -131,6 +189,31 @@ export function ChatStreamFinalMessage({
     }
   };
 
+  // Editing a user message sends the new text as a sibling branch
+  const handleEditStart = () => {
+    setEditContent(message.content);
+    setIsEditing(true);
+  };
+
+  const handleEditSubmit = () => {
+    const content = editContent.trim();
+    setIsEditing(false);
+    if (onEdit && content && content !== message.content) {
+      onEdit(message, content);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      handleEditSubmit();
+    } else if (e.key === "Escape") {
+      setIsEditing(false);
+    }
+  };
+
+  const showBranchNavigator = !!branch && branch.count > 1 && !!onBranchChange;
+
   // TTS functionality - using service layer
   const handleTTSPlay = async () => {
     const contentToPlay = message.finalAnswer || message.content;
@@ -213,8 +296,28 @@ export function ChatStreamFinalMessage({
               </div>
             )}
             
+            {/* Edit box, replaces the text while editing */}
+            {isEditing && (
+              <div className="w-full flex flex-col items-end gap-2" style={{ maxWidth: "80%" }}>
+                <Textarea
+                  value={editContent}
+                  onChange={(e) => setEditContent(e.target.value)}
+                  onKeyDown={handleEditKeyDown}
+                  autoFocus
+                />
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+                    {t('chatStreamFinalMessage.cancelEdit')}
+                  </Button>
+                  <Button size="sm" onClick={handleEditSubmit} disabled={!editContent.trim()}>
+                    {t('chatStreamFinalMessage.sendEdit')}
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {/* Text content */}
-            {message.content && (
+            {!isEditing && message.content && (
               <div className="rounded-lg border bg-blue-50 border-blue-100 user-message-container px-3 ml-auto text-normal" style={{
                 maxWidth: "80%",
                 wordWrap: "break-word",
@@ -232,12 +335,56 @@ export function ChatStreamFinalMessage({
                 </div>
               </div>
             )}
+
+            {/* Branch navigation and edit button */}
+            {!isEditing && (showBranchNavigator || onEdit) && (
+              <div className="flex items-center gap-1 mt-1">
+                {showBranchNavigator && (
+                  <BranchNavigator
+                    branch={branch!}
+                    disabled={branchActionsDisabled}
+                    onChange={(direction) => onBranchChange!(message, direction)}
+                  />
+                )}
+                {onEdit && (
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 text-gray-500"
+                          onClick={handleEditStart}
+                          disabled={branchActionsDisabled}
+                        >
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>{t('chatStreamFinalMessage.editMessage')}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                )}
+              </div>
+            )}
           </>
         )}
         
         {/* Assistant message part - show final answer or content */}
         {message.role === "assistant" && (message.finalAnswer || message.content !== undefined) && (
           <div className="bg-white rounded-lg w-full -mt-2">
+            {message.approvals?.filter(approval => approval.status === "pending").map(approval => (
+              <ToolApprovalCard
+                key={approval.id}
+                approval={approval}
+                conversationId={currentConversationId}
+                readOnly={readOnly}
+              />
+            ))}
+            {message.approvals?.some(approval => approval.status !== "pending") && (
+              <ToolApprovalLog approvals={message.approvals.filter(approval => approval.status !== "pending")} />
+            )}
             <MarkdownRenderer 
               content={message.finalAnswer || message.content || ""} 
               searchResults={message?.searchResults}
@@ -271,7 +418,34 @@ export function ChatStreamFinalMessage({
 
                 {/* Tool button */}
                 <div className="flex items-center space-x-2 mt-1 justify-end">
+                  {showBranchNavigator && (
+                    <BranchNavigator
+                      branch={branch!}
+                      disabled={branchActionsDisabled}
+                      onChange={(direction) => onBranchChange!(message, direction)}
+                    />
+                  )}
                   <TooltipProvider>
+                    {/* Regenerate button */}
+                    {onRegenerate && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="h-8 w-8 rounded-full bg-white hover:bg-gray-100 transition-all duration-200 shadow-sm"
+                            onClick={() => onRegenerate(message)}
+                            disabled={branchActionsDisabled}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>{t('chatStreamFinalMessage.regenerate')}</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+
                     {/* Copy button */}
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -292,57 +466,61 @@ export function ChatStreamFinalMessage({
                       </TooltipContent>
                     </Tooltip>
 
-                    {/* Thumbs up button */}
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant={localOpinion === 'Y' ? "secondary" : "outline"}
-                          size="icon"
-                          className={`h-8 w-8 rounded-full ${localOpinion === 'Y' ? 'bg-green-100 text-green-600 border-green-200' : 'bg-white hover:bg-gray-100'} transition-all duration-200 shadow-sm`}
-                          onClick={handleThumbsUp}
-                        >
-                          <FaRegThumbsUp className="h-4 w-4" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>{localOpinion === 'Y' ? t('chatStreamMessage.cancelLike') : t('chatStreamMessage.like')}</p>
-                      </TooltipContent>
-                    </Tooltip>
+                    {!readOnly && (
+                      <>
+                        {/* Thumbs up button */}
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant={localOpinion === 'Y' ? "secondary" : "outline"}
+                              size="icon"
+                              className={`h-8 w-8 rounded-full ${localOpinion === 'Y' ? 'bg-green-100 text-green-600 border-green-200' : 'bg-white hover:bg-gray-100'} transition-all duration-200 shadow-sm`}
+                              onClick={handleThumbsUp}
+                            >
+                              <FaRegThumbsUp className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>{localOpinion === 'Y' ? t('chatStreamMessage.cancelLike') : t('chatStreamMessage.like')}</p>
+                          </TooltipContent>
+                        </Tooltip>
 
-                    {/* Thumbs down button */}
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant={localOpinion === 'N' ? "secondary" : "outline"}
-                          size="icon"
-                          className={`h-8 w-8 rounded-full ${localOpinion === 'N' ? 'bg-red-100 text-red-600 border-red-200' : 'bg-white hover:bg-gray-100'} transition-all duration-200 shadow-sm`}
-                          onClick={handleThumbsDown}
-                        >
-                          <FaRegThumbsDown className="h-4 w-4" />
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>{localOpinion === 'N' ? t('chatStreamMessage.cancelDislike') : t('chatStreamMessage.dislike')}</p>
-                      </TooltipContent>
-                    </Tooltip>
+                        {/* Thumbs down button */}
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant={localOpinion === 'N' ? "secondary" : "outline"}
+                              size="icon"
+                              className={`h-8 w-8 rounded-full ${localOpinion === 'N' ? 'bg-red-100 text-red-600 border-red-200' : 'bg-white hover:bg-gray-100'} transition-all duration-200 shadow-sm`}
+                              onClick={handleThumbsDown}
+                            >
+                              <FaRegThumbsDown className="h-4 w-4" />
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>{localOpinion === 'N' ? t('chatStreamMessage.cancelDislike') : t('chatStreamMessage.dislike')}</p>
+                          </TooltipContent>
+                        </Tooltip>
 
-                    {/* Voice playback button */}
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          className={`h-8 w-8 rounded-full ${ttsButtonContent.className} transition-all duration-200 shadow-sm`}
-                          onClick={handleTTSPlay}
-                          disabled={ttsStatus === 'generating' || (message.finalAnswer === undefined && message.content === undefined)}
-                        >
-                          {ttsButtonContent.icon}
-                        </Button>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>{ttsButtonContent.tooltip}</p>
-                      </TooltipContent>
-                    </Tooltip>
+                        {/* Voice playback button */}
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className={`h-8 w-8 rounded-full ${ttsButtonContent.className} transition-all duration-200 shadow-sm`}
+                              onClick={handleTTSPlay}
+                              disabled={ttsStatus === 'generating' || (message.finalAnswer === undefined && message.content === undefined)}
+                            >
+                              {ttsButtonContent.icon}
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>{ttsButtonContent.tooltip}</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </>
+                    )}
                   </TooltipProvider>
                 </div>
               </div>
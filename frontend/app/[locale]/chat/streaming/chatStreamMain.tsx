@@ -1,7 +1,7 @@
 import { useRef, useEffect, useState } from "react"
 import { ScrollArea } from "@/components/ui/scrollArea"
 import { ChatInput } from "@/app/chat/layout/chatInput"
-import { ChatMessageType } from "@/types/chat"
+import { ChatMessageType, TraceSpan } from "@/types/chat"
 import { FilePreview } from "@/app/chat/layout/chatInput"
 import { Button } from "@/components/ui/button"
 import { ChevronDown } from "lucide-react"
@@ -9,6 +9,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { ChatStreamFinalMessage } from "./chatStreamFinalMessage"
 import { TaskWindow } from "./taskWindow"
 import { useTranslation } from "react-i18next"
+import { BranchPosition } from "@/app/chat/internal/messageBranches"
+import { TelemetryRun } from "./runTelemetry"
 
 // Define a new message processing structure
 interface ProcessedMessages {
@@ -16,6 +18,9 @@ interface ProcessedMessages {
   taskMessages: any[];  // Task messages, used for task windows
   // Add conversation group mapping
   conversationGroups: Map<string, any[]>; // User message ID -> related task messages
+  runGroups: Map<string, TelemetryRun[]>; // User message ID -> steps of its answers
+  conversationRuns: TelemetryRun[];
+  traceGroups: Map<string, TraceSpan[]>; // User message ID -> trace spans of its answers
 }
 
 interface ChatStreamMainProps {
@@ -41,6 +46,15 @@ interface ChatStreamMainProps {
   shouldScrollToBottom?: boolean
   selectedAgentId?: number | null
   onAgentSelect?: (agentId: number | null) => void
+  getBranchPosition?: (message: ChatMessageType) => BranchPosition | undefined
+  onBranchChange?: (message: ChatMessageType, direction: -1 | 1) => void
+  onEditMessage?: (message: ChatMessageType, content: string) => void
+  onRegenerateMessage?: (message: ChatMessageType) => void
+  // Server id of a message to scroll to and highlight, e.g. picked from the history search
+  focusMessageId?: number | null
+  onFocusMessageHandled?: () => void
+  // Shared snapshots are shown without input box and message actions
+  readOnly?: boolean
 }
 
 export function ChatStreamMain({
@@ -66,6 +80,13 @@ export function ChatStreamMain({
   shouldScrollToBottom,
   selectedAgentId,
   onAgentSelect,
+  getBranchPosition,
+  onBranchChange,
+  onEditMessage,
+  onRegenerateMessage,
+  focusMessageId,
+  onFocusMessageHandled,
+  readOnly = false,
 }: ChatStreamMainProps) {
   const { t } = useTranslation();
   // Animation variants for ChatInput
@@ -89,10 +110,14 @@ export function ChatStreamMain({
   const [showScrollButton, setShowScrollButton] = useState(false)
   const [showTopFade, setShowTopFade] = useState(false)
   const [autoScroll, setAutoScroll] = useState(true)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null)
   const [processedMessages, setProcessedMessages] = useState<ProcessedMessages>({
     finalMessages: [],
     taskMessages: [],
-    conversationGroups: new Map()
+    conversationGroups: new Map(),
+    runGroups: new Map(),
+    conversationRuns: [],
+    traceGroups: new Map()
   })
   const lastUserMessageIdRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -102,6 +127,9 @@ export function ChatStreamMain({
     const finalMsgs: ChatMessageType[] = [];
     const taskMsgs: any[] = [];
     const conversationGroups = new Map<string, any[]>();
+    const runGroups = new Map<string, TelemetryRun[]>();
+    const conversationRuns: TelemetryRun[] = [];
+    const traceGroups = new Map<string, TraceSpan[]>();
     
     // First preprocess, find all user message IDs and initialize task groups
     messages.forEach(message => {
@@ -133,8 +161,18 @@ export function ChatStreamMain({
           // Do not reset currentUserMsgId here, continue to use it to associate tasks
         }
         
+        if (message.trace && message.trace.length > 0 && currentUserMsgId) {
+          traceGroups.set(currentUserMsgId, [...(traceGroups.get(currentUserMsgId) || []), ...message.trace]);
+        }
+
         // Process all steps and content as task messages
         if (message.steps && message.steps.length > 0) {
+          const run = { messageId: message.id, steps: message.steps };
+          conversationRuns.push(run);
+          if (currentUserMsgId) {
+            runGroups.set(currentUserMsgId, [...(runGroups.get(currentUserMsgId) || []), run]);
+          }
+
           message.steps.forEach(step => {
             // Process step.contents (if it exists)
             if (step.contents && step.contents.length > 0) {
@@ -250,7 +288,10 @@ export function ChatStreamMain({
     setProcessedMessages({
       finalMessages: finalMsgs,
       taskMessages: taskMsgs,
-      conversationGroups: conversationGroups
+      conversationGroups: conversationGroups,
+      runGroups,
+      conversationRuns,
+      traceGroups
     });
   }, [messages]);
   
@@ -363,6 +404,27 @@ export function ChatStreamMain({
     }
   }, [processedMessages.taskMessages.length, isStreaming, autoScroll, shouldScrollToBottom]);
 
+  // Scroll to the focused message, only once the forced scroll to the bottom of a freshly opened conversation is over
+  useEffect(() => {
+    if (!focusMessageId || shouldScrollToBottom) return;
+
+    const scrollAreaElement = scrollAreaRef.current?.querySelector('[data-radix-scroll-area-viewport]');
+    const target = scrollAreaElement?.querySelector(`[data-message-id="${focusMessageId}"]`);
+    if (!target) return;
+
+    setAutoScroll(false);
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(focusMessageId);
+    onFocusMessageHandled?.();
+  }, [focusMessageId, shouldScrollToBottom, processedMessages.finalMessages]);
+
+  // Fade the highlight out after a moment
+  useEffect(() => {
+    if (highlightedMessageId === null) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   return (
     <div className="flex-1 flex flex-col overflow-hidden relative custom-scrollbar">
       {/* Main message area */}
@@ -398,7 +460,7 @@ export function ChatStreamMain({
                       </Button>
                     </div>
                   </div>
-                ) : (
+                ) : readOnly ? null : (
                   // when new conversation, show input interface
                   <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)]">
                     <div className="w-full max-w-3xl">
@@ -434,7 +496,13 @@ export function ChatStreamMain({
           ) : (
             <>
               {processedMessages.finalMessages.map((message, index) => (
-                <div key={message.id || index} className="flex flex-col gap-2">
+                <div
+                  key={message.id || index}
+                  data-message-id={message.message_id}
+                  className={`flex flex-col gap-2 rounded-lg transition-shadow duration-500 ${
+                    message.message_id !== undefined && message.message_id === highlightedMessageId ? "ring-2 ring-yellow-300" : ""
+                  }`}
+                >
                   <ChatStreamFinalMessage
                     message={message}
                     onSelectMessage={onSelectMessage}
@@ -445,12 +513,21 @@ export function ChatStreamMain({
                     onOpinionChange={onOpinionChange}
                     index={index}
                     currentConversationId={currentConversationId}
+                    branch={getBranchPosition?.(message)}
+                    onBranchChange={onBranchChange}
+                    onEdit={message.role === "user" ? onEditMessage : undefined}
+                    onRegenerate={message.role === "assistant" ? onRegenerateMessage : undefined}
+                    branchActionsDisabled={isStreaming}
+                    readOnly={readOnly}
                   />
                   {message.role === "user" && processedMessages.conversationGroups.has(message.id!) && (
                     <div className="transition-all duration-500 opacity-0 translate-y-4 animate-task-window">
                       <TaskWindow
                         messages={processedMessages.conversationGroups.get(message.id!) || []}
                         isStreaming={isStreaming && lastUserMessageIdRef.current === message.id}
+                        runs={processedMessages.runGroups.get(message.id!)}
+                        conversationRuns={processedMessages.conversationRuns}
+                        trace={processedMessages.traceGroups.get(message.id!)}
                       />
                     </div>
                   )}
@@ -485,7 +562,7 @@ export function ChatStreamMain({
       )}
 
       {/* Input box in non-initial mode */}
-      {processedMessages.finalMessages.length > 0 && (
+      {processedMessages.finalMessages.length > 0 && !readOnly && (
         <AnimatePresence mode="wait">
           <motion.div
             key="regular-chat-input"
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { AgentStep } from '@/types/chat';
+import { ModelOption } from '@/types/config';
+import { aggregateRuns, estimateStepCost, parseStepMetrics, runsToCsv } from './runTelemetry';
+
+const model = (name: string, inputPrice?: number, outputPrice?: number): ModelOption => ({
+  id: name,
+  name,
+  type: 'llm',
+  maxTokens: 0,
+  source: 'custom',
+  apiKey: '',
+  apiUrl: '',
+  displayName: name,
+  inputPrice,
+  outputPrice,
+});
+
+const step = (id: string, metrics: AgentStep['stepMetrics']): AgentStep => ({
+  id,
+  title: `Step ${id}`,
+  content: '',
+  expanded: false,
+  contents: [],
+  metrics: '',
+  thinking: { content: '', expanded: false },
+  code: { content: '', expanded: false },
+  output: { content: '', expanded: false },
+  stepMetrics: metrics,
+});
+
+describe('parseStepMetrics', () => {
+  it('parses the metrics sent by the SDK', () => {
+    const raw = JSON.stringify({ duration: 2.51, input_tokens: 1200, output_tokens: 85, model: 'Qwen/Qwen2.5-72B' });
+    expect(parseStepMetrics(raw)).toEqual({
+      duration: 2.51,
+      inputTokens: 1200,
+      outputTokens: 85,
+      model: 'Qwen/Qwen2.5-72B',
+      toolDuration: undefined,
+    });
+  });
+
+  it('keeps what is known when the model reports no usage', () => {
+    expect(parseStepMetrics(JSON.stringify({ duration: 1.2, input_tokens: null, output_tokens: null, model: null })))
+      .toMatchObject({ duration: 1.2, inputTokens: undefined, outputTokens: undefined, model: undefined });
+  });
+
+  it('reads the duration from the HTML span saved by older servers', () => {
+    expect(parseStepMetrics('<span style="color: #bbbbc2; font-size: 12px;">Duration:1.52</span> '))
+      .toEqual({ duration: 1.52 });
+    expect(parseStepMetrics('<span style="color: #bbbbc2; font-size: 12px;">步骤耗时：3.0</span> '))
+      .toEqual({ duration: 3 });
+  });
+
+  it('ignores payloads without metrics', () => {
+    expect(parseStepMetrics('')).toBeUndefined();
+    expect(parseStepMetrics('<span>n/a</span>')).toBeUndefined();
+    expect(parseStepMetrics('[1, 2]')).toBeUndefined();
+    expect(parseStepMetrics('{}')).toBeUndefined();
+  });
+});
+
+describe('aggregateRuns', () => {
+  it('sums the steps and prices the ones with a known model', () => {
+    const models = [model('a/priced', 2, 8)];
+    const runs = [
+      { messageId: '1', steps: [step('1', { model: 'a/priced', inputTokens: 1000, outputTokens: 500, duration: 1 })] },
+      { messageId: '2', steps: [step('2', { model: 'b/free', inputTokens: 100, outputTokens: 50, duration: 2 }), step('3', undefined)] },
+    ];
+
+    const totals = aggregateRuns(runs, models);
+
+    expect(totals).toMatchObject({ steps: 2, inputTokens: 1100, outputTokens: 550, duration: 3, unpricedSteps: 1 });
+    expect(totals.cost).toBeCloseTo(0.006);
+    expect(estimateStepCost(runs[1].steps[0].stepMetrics, models)).toBeNull();
+  });
+});
+
+describe('runsToCsv', () => {
+  it('writes one row per step with metrics and quotes titles', () => {
+    const titled = { ...step('1', { model: 'a/priced', inputTokens: 10, duration: 1.5 }), title: 'Search, then answer' };
+    const csv = runsToCsv([{ messageId: '7', steps: [titled] }], []).split('\n');
+
+    expect(csv).toHaveLength(2);
+    expect(csv[1]).toBe('7,1,"Search, then answer",a/priced,10,,1.50,,');
+  });
+});
@@ -0,0 +1,164 @@
+// Per-step telemetry of agent runs: parsing of the token_count payload, aggregation, cost estimation and CSV export
+
+import { AgentStep, StepMetrics } from '@/types/chat';
+import { ModelOption } from '@/types/config';
+
+// Steps of one assistant message
+export interface TelemetryRun {
+  messageId: string
+  steps: AgentStep[]
+}
+
+export interface TelemetryTotals {
+  steps: number
+  inputTokens: number
+  outputTokens: number
+  duration: number
+  toolDuration: number
+  // Estimated cost of the priced steps, null when none could be priced
+  cost: number | null
+  // Steps with a model that has no price, the cost is then a lower bound
+  unpricedSteps: number
+}
+
+const toMetricNumber = (value: unknown): number | undefined => {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+// Older servers render the duration into an HTML span, e.g. `<span ...>Duration:1.52</span> `
+const LEGACY_DURATION_PATTERN = /(?:Duration:|步骤耗时：)\s*([\d.]+)/;
+
+// The SDK sends the metrics of a step as a JSON object: duration, input_tokens, output_tokens and model
+export const parseStepMetrics = (raw: string): StepMetrics | undefined => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    const legacyDuration = LEGACY_DURATION_PATTERN.exec(raw);
+    const duration = legacyDuration ? toMetricNumber(legacyDuration[1]) : undefined;
+    return duration === undefined ? undefined : { duration };
+  }
+
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return undefined;
+  }
+
+  const data = payload as Record<string, unknown>;
+  const metrics: StepMetrics = {
+    inputTokens: toMetricNumber(data.input_tokens),
+    outputTokens: toMetricNumber(data.output_tokens),
+    model: typeof data.model === "string" && data.model ? data.model : undefined,
+    duration: toMetricNumber(data.duration),
+    toolDuration: toMetricNumber(data.tool_duration),
+  };
+  return Object.values(metrics).some(value => value !== undefined) ? metrics : undefined;
+};
+
+// Fill in the durations the server did not send from the receive times of the step's events
+export const withMeasuredDurations = (metrics: StepMetrics | undefined, step: AgentStep, now: number): StepMetrics => {
+  const firstContent = step.contents[0];
+  const toolCall = step.contents.find(content => content.type === "executing");
+  return {
+    ...metrics,
+    duration: metrics?.duration ?? (firstContent ? (now - firstContent.timestamp) / 1000 : undefined),
+    toolDuration: metrics?.toolDuration ?? (toolCall ? (now - toolCall.timestamp) / 1000 : undefined),
+  };
+};
+
+// The step reports the model name, the model list is matched on both its name and display name
+const findPricedModel = (models: ModelOption[], model?: string): ModelOption | undefined =>
+  model
+    ? models.find(item =>
+        (item.name === model || item.displayName === model) &&
+        (item.inputPrice !== undefined || item.outputPrice !== undefined)
+      )
+    : undefined;
+
+// Prices are per million tokens
+export const estimateStepCost = (metrics: StepMetrics | undefined, models: ModelOption[]): number | null => {
+  const pricedModel = findPricedModel(models, metrics?.model);
+  if (!metrics || !pricedModel) {
+    return null;
+  }
+  return (
+    (metrics.inputTokens ?? 0) * (pricedModel.inputPrice ?? 0) +
+    (metrics.outputTokens ?? 0) * (pricedModel.outputPrice ?? 0)
+  ) / 1000000;
+};
+
+export const hasTelemetry = (runs: TelemetryRun[]): boolean =>
+  runs.some(run => run.steps.some(step => step.stepMetrics));
+
+export const aggregateRuns = (runs: TelemetryRun[], models: ModelOption[]): TelemetryTotals => {
+  const totals: TelemetryTotals = {
+    steps: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    duration: 0,
+    toolDuration: 0,
+    cost: null,
+    unpricedSteps: 0,
+  };
+
+  for (const run of runs) {
+    for (const step of run.steps) {
+      const metrics = step.stepMetrics;
+      if (!metrics) continue;
+
+      totals.steps += 1;
+      totals.inputTokens += metrics.inputTokens ?? 0;
+      totals.outputTokens += metrics.outputTokens ?? 0;
+      totals.duration += metrics.duration ?? 0;
+      totals.toolDuration += metrics.toolDuration ?? 0;
+
+      const cost = estimateStepCost(metrics, models);
+      if (cost === null) {
+        totals.unpricedSteps += 1;
+      } else {
+        totals.cost = (totals.cost ?? 0) + cost;
+      }
+    }
+  }
+
+  return totals;
+};
+
+const csvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per step, durations in seconds and the cost in the currency of the configured prices
+export const runsToCsv = (runs: TelemetryRun[], models: ModelOption[]): string => {
+  const header = [
+    "message_id",
+    "step",
+    "title",
+    "model",
+    "input_tokens",
+    "output_tokens",
+    "duration_s",
+    "tool_duration_s",
+    "estimated_cost",
+  ];
+  const rows = runs.flatMap(run => run.steps
+    .filter(step => step.stepMetrics)
+    .map((step, index) => {
+      const metrics = step.stepMetrics!;
+      const cost = estimateStepCost(metrics, models);
+      return [
+        run.messageId,
+        index + 1,
+        step.title,
+        metrics.model,
+        metrics.inputTokens,
+        metrics.outputTokens,
+        metrics.duration?.toFixed(2),
+        metrics.toolDuration?.toFixed(2),
+        cost === null ? undefined : cost.toFixed(6),
+      ];
+    })
+  );
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\n");
+};
@@ -0,0 +1,143 @@
+import { useState } from "react"
+import { useTranslation } from "react-i18next"
+import { ChevronRight, Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useModelPrices } from "@/hooks/useModelPrices"
+import { downloadTextFile } from "@/app/chat/internal/conversationExport"
+import {
+  TelemetryRun,
+  TelemetryTotals,
+  aggregateRuns,
+  estimateStepCost,
+  hasTelemetry,
+  runsToCsv
+} from "./runTelemetry"
+
+interface RunTelemetrySummaryProps {
+  // Steps of the message the task window belongs to
+  runs: TelemetryRun[]
+  // Steps of the whole conversation, for the conversation totals
+  conversationRuns?: TelemetryRun[]
+}
+
+const formatSeconds = (seconds?: number) => seconds === undefined ? "-" : `${seconds.toFixed(2)}s`
+
+const formatTokens = (tokens?: number) => tokens === undefined ? "-" : tokens.toLocaleString()
+
+const formatCost = (cost: number | null) => cost === null ? "-" : cost.toFixed(4)
+
+// Collapsible tokens, latency and estimated cost of an agent run, per step and in total
+export function RunTelemetrySummary({ runs, conversationRuns }: RunTelemetrySummaryProps) {
+  const { t } = useTranslation("common")
+  const models = useModelPrices()
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  if (!hasTelemetry(runs)) {
+    return null
+  }
+
+  const totals = aggregateRuns(runs, models)
+  const conversationTotals = conversationRuns && conversationRuns.length > runs.length
+    ? aggregateRuns(conversationRuns, models)
+    : null
+
+  const costLabel = (summary: TelemetryTotals) => summary.cost !== null && summary.unpricedSteps > 0
+    ? t("runTelemetry.partialCost", { cost: formatCost(summary.cost) })
+    : formatCost(summary.cost)
+
+  const exportCsv = (exportedRuns: TelemetryRun[], filename: string) => {
+    downloadTextFile(filename, runsToCsv(exportedRuns, models), "text/csv")
+  }
+
+  return (
+    <div className="rounded-lg mb-4 border border-gray-200 bg-gray-50 px-1 py-2 text-xs text-gray-600">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0 hover:bg-gray-100 rounded-full"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          <ChevronRight className={`h-4 w-4 ${isExpanded ? "rotate-90" : ""}`} />
+        </Button>
+        <span className="font-medium text-gray-500">{t("runTelemetry.title")}</span>
+        <span className="truncate text-gray-400">
+          {t("runTelemetry.inline", {
+            steps: totals.steps,
+            input: formatTokens(totals.inputTokens),
+            output: formatTokens(totals.outputTokens),
+            duration: formatSeconds(totals.duration),
+            cost: costLabel(totals),
+          })}
+        </span>
+      </div>
+
+      {isExpanded && (
+        <div className="px-3 pt-2">
+          <table className="w-full text-left">
+            <thead className="text-gray-400">
+              <tr>
+                <th className="py-1 font-normal">{t("runTelemetry.step")}</th>
+                <th className="py-1 font-normal">{t("runTelemetry.model")}</th>
+                <th className="py-1 font-normal text-right">{t("runTelemetry.inputTokens")}</th>
+                <th className="py-1 font-normal text-right">{t("runTelemetry.outputTokens")}</th>
+                <th className="py-1 font-normal text-right">{t("runTelemetry.duration")}</th>
+                <th className="py-1 font-normal text-right">{t("runTelemetry.toolDuration")}</th>
+                <th className="py-1 font-normal text-right">{t("runTelemetry.cost")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.flatMap(run => run.steps.filter(step => step.stepMetrics).map(step => (
+                <tr key={step.id} className="border-t border-gray-200">
+                  <td className="py-1 pr-2 max-w-[160px] truncate" title={step.title}>{step.title || "-"}</td>
+                  <td className="py-1 pr-2 max-w-[120px] truncate">{step.stepMetrics!.model || "-"}</td>
+                  <td className="py-1 text-right">{formatTokens(step.stepMetrics!.inputTokens)}</td>
+                  <td className="py-1 text-right">{formatTokens(step.stepMetrics!.outputTokens)}</td>
+                  <td className="py-1 text-right">{formatSeconds(step.stepMetrics!.duration)}</td>
+                  <td className="py-1 text-right">{formatSeconds(step.stepMetrics!.toolDuration)}</td>
+                  <td className="py-1 text-right">{formatCost(estimateStepCost(step.stepMetrics, models))}</td>
+                </tr>
+              )))}
+              <tr className="border-t border-gray-300 font-medium">
+                <td className="py-1" colSpan={2}>{t("runTelemetry.total")}</td>
+                <td className="py-1 text-right">{formatTokens(totals.inputTokens)}</td>
+                <td className="py-1 text-right">{formatTokens(totals.outputTokens)}</td>
+                <td className="py-1 text-right">{formatSeconds(totals.duration)}</td>
+                <td className="py-1 text-right">{formatSeconds(totals.toolDuration)}</td>
+                <td className="py-1 text-right">{costLabel(totals)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          {totals.unpricedSteps > 0 && (
+            <p className="mt-1 text-gray-400">{t("runTelemetry.noPrice")}</p>
+          )}
+
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            {conversationTotals && (
+              <span className="flex-1 text-gray-500">
+                {t("runTelemetry.conversationTotal", {
+                  steps: conversationTotals.steps,
+                  input: formatTokens(conversationTotals.inputTokens),
+                  output: formatTokens(conversationTotals.outputTokens),
+                  duration: formatSeconds(conversationTotals.duration),
+                  cost: costLabel(conversationTotals),
+                })}
+              </span>
+            )}
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => exportCsv(runs, "run-telemetry.csv")}>
+              <Download className="mr-1 h-3 w-3" />
+              {t("runTelemetry.exportCsv")}
+            </Button>
+            {conversationTotals && (
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => exportCsv(conversationRuns!, "conversation-telemetry.csv")}>
+                <Download className="mr-1 h-3 w-3" />
+                {t("runTelemetry.exportConversationCsv")}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
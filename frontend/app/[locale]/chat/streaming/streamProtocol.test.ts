@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  STREAM_PROTOCOL_VERSION,
+  StreamProtocolError,
+  negotiateProtocolVersion,
+  parseStreamEvent,
+  parseStreamLine,
+  supportsResume,
+} from './streamProtocol';
+
+const line = (payload: unknown) => `data: ${JSON.stringify(payload)}`;
+
+const expectError = (result: ReturnType<typeof parseStreamLine>, code: StreamProtocolError["code"]) => {
+  expect(result).not.toBeNull();
+  expect(result!.ok).toBe(false);
+  if (!result!.ok) {
+    expect(result!.error).toBeInstanceOf(StreamProtocolError);
+    expect(result!.error.code).toBe(code);
+  }
+};
+
+describe('parseStreamLine', () => {
+  it('ignores lines without data', () => {
+    expect(parseStreamLine('')).toBeNull();
+    expect(parseStreamLine(': keep-alive')).toBeNull();
+    expect(parseStreamLine('event: message')).toBeNull();
+    expect(parseStreamLine('data:   ')).toBeNull();
+  });
+
+  it('parses a text event with its sequence id', () => {
+    const result = parseStreamLine(line({ type: 'final_answer', content: 'done', seq: 3 }));
+    expect(result).toEqual({ ok: true, event: { type: 'final_answer', content: 'done', seq: 3 } });
+  });
+
+  it('accepts legacy events without sequence id', () => {
+    const result = parseStreamLine(line({ type: 'step_count', content: 'Step 1' }));
+    expect(result?.ok).toBe(true);
+    if (result?.ok) {
+      expect(result.event.seq).toBeUndefined();
+    }
+  });
+
+  it('decodes the JSON content of search results', () => {
+    const results = [{ title: 'Q3 contract', url: 'https://example.com', score: 0.8, cite_index: 1 }];
+    const result = parseStreamLine(line({ type: 'search_content', content: JSON.stringify(results) }));
+    expect(result?.ok).toBe(true);
+    if (result?.ok && result.event.type === 'search_content') {
+      expect(result.event.results).toEqual(results);
+    }
+  });
+
+  it('reports malformed JSON', () => {
+    expectError(parseStreamLine('data: {"type": "final_answer", '), 'invalid_json');
+  });
+
+  it('reports payloads without a string type', () => {
+    expectError(parseStreamLine(line({ content: 'no type' })), 'invalid_envelope');
+    expectError(parseStreamLine(line(['final_answer'])), 'invalid_envelope');
+  });
+
+  it('reports unknown event types instead of dropping them', () => {
+    const result = parseStreamLine(line({ type: 'model_output_video', content: '' }));
+    expectError(result, 'unknown_event');
+    if (result && !result.ok) {
+      expect(result.error.raw).toContain('model_output_video');
+    }
+  });
+
+  it('reports known events with an invalid payload', () => {
+    expectError(parseStreamLine(line({ type: 'final_answer', content: 42 })), 'invalid_payload');
+    expectError(parseStreamLine(line({ type: 'final_answer', content: 'x', seq: 0 })), 'invalid_payload');
+    expectError(parseStreamLine(line({ type: 'search_content', content: 'not json' })), 'invalid_payload');
+    expectError(parseStreamLine(line({ type: 'picture_web', content: '{"images": []}' })), 'invalid_payload');
+  });
+
+  it('is not fatal for anything but a version mismatch', () => {
+    const result = parseStreamEvent({ type: 'unknown', content: '' });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.fatal).toBe(false);
+    }
+  });
+});
+
+describe('negotiateProtocolVersion', () => {
+  it('accepts any version with the same major version', () => {
+    expect(negotiateProtocolVersion('1.0')).toBe('1.0');
+    expect(negotiateProtocolVersion(' 1.9 ')).toBe('1.9');
+    expect(negotiateProtocolVersion(STREAM_PROTOCOL_VERSION)).toBe(STREAM_PROTOCOL_VERSION);
+  });
+
+  it('rejects another major version as fatal', () => {
+    for (const version of ['2.0', '0.9', 'abc']) {
+      try {
+        negotiateProtocolVersion(version);
+        expect.unreachable(`version ${version} should be rejected`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(StreamProtocolError);
+        expect((error as StreamProtocolError).code).toBe('version_mismatch');
+        expect((error as StreamProtocolError).fatal).toBe(true);
+      }
+    }
+  });
+
+  it('only resumes from 1.1 on', () => {
+    expect(supportsResume('1.0')).toBe(false);
+    expect(supportsResume('1.1')).toBe(true);
+    expect(supportsResume('1.2')).toBe(true);
+    expect(supportsResume('2.1')).toBe(false);
+  });
+});
@@ -0,0 +1,335 @@
+// Agent stream protocol: typed, schema-validated events emitted by /agent/run
+
+import { z } from 'zod';
+import { ApiError } from '@/services/api';
+import { STATUS_CODES } from '@/types/auth';
+
+// Version spoken by this client. The major part must match the server's.
+// 1.1 adds sequence ids (`seq`), the `stream_end` event and the resume endpoint.
+// 1.2 adds the `approval_request` and `approval_result` events of tool calls waiting for the user.
+export const STREAM_PROTOCOL_VERSION = "1.2";
+
+// Servers that predate the handshake speak the original untyped format, which is 1.0
+export const LEGACY_STREAM_PROTOCOL_VERSION = "1.0";
+
+export type StreamProtocolErrorCode =
+  | "invalid_json"
+  | "invalid_envelope"
+  | "unknown_event"
+  | "invalid_payload"
+  | "version_mismatch";
+
+// Raised (or recorded) whenever the backend sends something this client does not understand
+export class StreamProtocolError extends Error {
+  constructor(
+    public code: StreamProtocolErrorCode,
+    public detail: string,
+    public raw?: string
+  ) {
+    super(`[${code}] ${detail}`);
+    this.name = 'StreamProtocolError';
+  }
+
+  // A version mismatch means nothing after it can be trusted, so the stream is aborted
+  get fatal(): boolean {
+    return this.code === "version_mismatch";
+  }
+}
+
+// Raised when the connection ends before the server sent `stream_end`, the run can be resumed
+export class StreamInterruptedError extends Error {
+  constructor(public lastSeq: number) {
+    super(`stream interrupted after event ${lastSeq}`);
+    this.name = 'StreamInterruptedError';
+  }
+}
+
+// Dropped connections surface as an interruption, a raw fetch TypeError or the ApiError that
+// fetchWithErrorHandling makes of it. User aborts never resume.
+export const isResumableStreamError = (error: unknown): boolean => {
+  if (error instanceof StreamInterruptedError) {
+    return true;
+  }
+  if (error instanceof ApiError) {
+    return error.code === STATUS_CODES.SERVER_ERROR;
+  }
+  return error instanceof TypeError && error.name !== 'AbortError';
+};
+
+// Search result item as produced by the search tools (SearchResultTextMessage.to_dict)
+const searchResultPayloadSchema = z.object({
+  title: z.string().nullish(),
+  url: z.string().nullish(),
+  text: z.string().nullish(),
+  published_date: z.string().nullish(),
+  source_type: z.string().nullish(),
+  filename: z.string().nullish(),
+  score: z.union([z.number(), z.string()]).nullish(),
+  score_details: z.record(z.any()).nullish(),
+  cite_index: z.number().nullish(),
+  search_type: z.string().nullish(),
+  tool_sign: z.string().nullish(),
+}).passthrough();
+
+export type SearchResultPayload = z.infer<typeof searchResultPayloadSchema>;
+
+const picturePayloadSchema = z.object({
+  images_url: z.array(z.string()),
+});
+
+const messageSavedPayloadSchema = z.object({
+  role: z.enum(["user", "assistant"]),
+  message_id: z.number().int(),
+});
+
+const approvalRequestPayloadSchema = z.object({
+  approval_id: z.string(),
+  tool_name: z.string(),
+  arguments: z.record(z.any()),
+});
+
+const approvalResultPayloadSchema = z.object({
+  approval_id: z.string(),
+  decision: z.enum(["approved", "denied"]),
+  // Arguments the tool runs with, absent when the call was denied
+  arguments: z.record(z.any()).nullish(),
+  edited: z.boolean().nullish(),
+  // Whether the call was denied because nobody decided in time
+  timed_out: z.boolean().nullish(),
+});
+
+// Decode a JSON string carried in `content`, reporting failures on the zod context
+const decodeJsonContent = <T>(content: string, schema: z.ZodType<T>, ctx: z.RefinementCtx): T => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["content"], message: "content is not valid JSON" });
+    return z.NEVER;
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ["content", ...issue.path] }));
+    return z.NEVER;
+  }
+  return result.data;
+};
+
+const textEvent = <T extends string>(type: T) => z.object({
+  type: z.literal(type),
+  content: z.string(),
+  // Sequence id of the event within its run, starting at 1 (protocol >= 1.1)
+  seq: z.number().int().positive().optional(),
+  // Agent emitting the event, lets the trace tell sub-agents apart when the server sends it
+  agent_name: z.string().optional(),
+});
+
+const handshakeEventSchema = textEvent("protocol_version");
+const stepCountEventSchema = textEvent("step_count");
+const tokenCountEventSchema = textEvent("token_count");
+const modelOutputEventSchema = textEvent("model_output");
+const modelOutputThinkingEventSchema = textEvent("model_output_thinking");
+const modelOutputDeepThinkingEventSchema = textEvent("model_output_deep_thinking");
+const modelOutputCodeEventSchema = textEvent("model_output_code");
+const cardEventSchema = textEvent("card");
+const finalAnswerEventSchema = textEvent("final_answer");
+const parseEventSchema = textEvent("parse");
+const toolEventSchema = textEvent("tool");
+const executionLogsEventSchema = textEvent("execution_logs");
+const agentNewRunEventSchema = textEvent("agent_new_run");
+const agentFinishEventSchema = textEvent("agent_finish");
+const errorEventSchema = textEvent("error");
+const otherEventSchema = textEvent("other");
+const streamEndEventSchema = textEvent("stream_end");
+
+const searchContentEventSchema = textEvent("search_content").transform((event, ctx) => ({
+  ...event,
+  results: decodeJsonContent(event.content, z.array(searchResultPayloadSchema), ctx),
+}));
+
+const pictureWebEventSchema = textEvent("picture_web").transform((event, ctx) => ({
+  ...event,
+  images: decodeJsonContent(event.content, picturePayloadSchema, ctx).images_url,
+}));
+
+// Sent once a message of the run is persisted, so the client learns its server id
+const messageSavedEventSchema = textEvent("message_saved").transform((event, ctx) => ({
+  ...event,
+  saved: decodeJsonContent(event.content, messageSavedPayloadSchema, ctx),
+}));
+
+// Sent when a tool call needs the user's approval, the run pauses until it is answered
+const approvalRequestEventSchema = textEvent("approval_request").transform((event, ctx) => ({
+  ...event,
+  request: decodeJsonContent(event.content, approvalRequestPayloadSchema, ctx),
+}));
+
+// Sent once the user answered an approval request, whichever client the answer came from
+const approvalResultEventSchema = textEvent("approval_result").transform((event, ctx) => ({
+  ...event,
+  result: decodeJsonContent(event.content, approvalResultPayloadSchema, ctx),
+}));
+
+export type HandshakeEvent = z.infer<typeof handshakeEventSchema>;
+export type StepCountEvent = z.infer<typeof stepCountEventSchema>;
+export type TokenCountEvent = z.infer<typeof tokenCountEventSchema>;
+export type ModelOutputEvent = z.infer<typeof modelOutputEventSchema>;
+export type ModelOutputThinkingEvent = z.infer<typeof modelOutputThinkingEventSchema>;
+export type ModelOutputDeepThinkingEvent = z.infer<typeof modelOutputDeepThinkingEventSchema>;
+export type ModelOutputCodeEvent = z.infer<typeof modelOutputCodeEventSchema>;
+export type CardEvent = z.infer<typeof cardEventSchema>;
+export type SearchContentEvent = z.infer<typeof searchContentEventSchema>;
+export type PictureWebEvent = z.infer<typeof pictureWebEventSchema>;
+export type FinalAnswerEvent = z.infer<typeof finalAnswerEventSchema>;
+export type ParseEvent = z.infer<typeof parseEventSchema>;
+export type ToolEvent = z.infer<typeof toolEventSchema>;
+export type ExecutionLogsEvent = z.infer<typeof executionLogsEventSchema>;
+export type AgentNewRunEvent = z.infer<typeof agentNewRunEventSchema>;
+export type AgentFinishEvent = z.infer<typeof agentFinishEventSchema>;
+export type ErrorEvent = z.infer<typeof errorEventSchema>;
+export type OtherEvent = z.infer<typeof otherEventSchema>;
+export type StreamEndEvent = z.infer<typeof streamEndEventSchema>;
+export type MessageSavedEvent = z.infer<typeof messageSavedEventSchema>;
+export type ApprovalRequestEvent = z.infer<typeof approvalRequestEventSchema>;
+export type ApprovalResultEvent = z.infer<typeof approvalResultEventSchema>;
+
+// One member per event type the backend may emit
+export type AgentStreamEvent =
+  | HandshakeEvent
+  | StepCountEvent
+  | TokenCountEvent
+  | ModelOutputEvent
+  | ModelOutputThinkingEvent
+  | ModelOutputDeepThinkingEvent
+  | ModelOutputCodeEvent
+  | CardEvent
+  | SearchContentEvent
+  | PictureWebEvent
+  | FinalAnswerEvent
+  | ParseEvent
+  | ToolEvent
+  | ExecutionLogsEvent
+  | AgentNewRunEvent
+  | AgentFinishEvent
+  | ErrorEvent
+  | OtherEvent
+  | StreamEndEvent
+  | MessageSavedEvent
+  | ApprovalRequestEvent
+  | ApprovalResultEvent;
+
+export type AgentStreamEventType = AgentStreamEvent["type"];
+
+// Registry of event schemas, keyed by the `type` discriminator
+const eventSchemas: Record<AgentStreamEventType, z.ZodType<AgentStreamEvent, z.ZodTypeDef, unknown>> = {
+  protocol_version: handshakeEventSchema,
+  step_count: stepCountEventSchema,
+  token_count: tokenCountEventSchema,
+  model_output: modelOutputEventSchema,
+  model_output_thinking: modelOutputThinkingEventSchema,
+  model_output_deep_thinking: modelOutputDeepThinkingEventSchema,
+  model_output_code: modelOutputCodeEventSchema,
+  card: cardEventSchema,
+  search_content: searchContentEventSchema,
+  picture_web: pictureWebEventSchema,
+  final_answer: finalAnswerEventSchema,
+  parse: parseEventSchema,
+  tool: toolEventSchema,
+  execution_logs: executionLogsEventSchema,
+  agent_new_run: agentNewRunEventSchema,
+  agent_finish: agentFinishEventSchema,
+  error: errorEventSchema,
+  other: otherEventSchema,
+  stream_end: streamEndEventSchema,
+  message_saved: messageSavedEventSchema,
+  approval_request: approvalRequestEventSchema,
+  approval_result: approvalResultEventSchema,
+};
+
+const envelopeSchema = z.object({
+  type: z.string(),
+  content: z.unknown(),
+}).passthrough();
+
+export const isKnownEventType = (type: string): type is AgentStreamEventType =>
+  Object.prototype.hasOwnProperty.call(eventSchemas, type);
+
+const formatZodIssues = (error: z.ZodError): string =>
+  error.issues.map(issue => `${issue.path.join(".") || "<root>"}: ${issue.message}`).join("; ");
+
+export type ParseStreamEventResult =
+  | { ok: true; event: AgentStreamEvent }
+  | { ok: false; error: StreamProtocolError };
+
+// Validate one decoded JSON payload against the protocol
+export const parseStreamEvent = (payload: unknown, raw?: string): ParseStreamEventResult => {
+  const envelope = envelopeSchema.safeParse(payload);
+  if (!envelope.success) {
+    return {
+      ok: false,
+      error: new StreamProtocolError("invalid_envelope", formatZodIssues(envelope.error), raw)
+    };
+  }
+
+  const { type } = envelope.data;
+  if (!isKnownEventType(type)) {
+    return {
+      ok: false,
+      error: new StreamProtocolError("unknown_event", `unknown event type "${type}"`, raw)
+    };
+  }
+
+  const result = eventSchemas[type].safeParse(envelope.data);
+  if (!result.success) {
+    return {
+      ok: false,
+      error: new StreamProtocolError("invalid_payload", `${type}: ${formatZodIssues(result.error)}`, raw)
+    };
+  }
+
+  return { ok: true, event: result.data };
+};
+
+// Parse one SSE line. Returns null for lines that carry no data (comments, blank lines, other fields)
+export const parseStreamLine = (line: string): ParseStreamEventResult | null => {
+  if (!line.startsWith("data:")) {
+    return null;
+  }
+
+  const jsonStr = line.substring(5).trim();
+  if (!jsonStr) {
+    return null;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(jsonStr);
+  } catch (error) {
+    return {
+      ok: false,
+      error: new StreamProtocolError("invalid_json", (error as Error).message, jsonStr)
+    };
+  }
+
+  return parseStreamEvent(payload, jsonStr);
+};
+
+const majorVersion = (version: string): number => parseInt(version.split(".")[0], 10);
+const minorVersion = (version: string): number => parseInt(version.split(".")[1] || "0", 10);
+
+// Whether a negotiated version carries sequence ids and can be resumed
+export const supportsResume = (version: string): boolean =>
+  majorVersion(version) === 1 && minorVersion(version) >= 1;
+
+// Check the version announced by the server in its handshake event
+export const negotiateProtocolVersion = (serverVersion: string): string => {
+  const serverMajor = majorVersion(serverVersion.trim());
+  if (Number.isNaN(serverMajor) || serverMajor !== majorVersion(STREAM_PROTOCOL_VERSION)) {
+    throw new StreamProtocolError(
+      "version_mismatch",
+      `server speaks protocol ${serverVersion}, client supports ${STREAM_PROTOCOL_VERSION}`
+    );
+  }
+  return serverVersion.trim();
+};
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import { AgentStreamEvent, StreamProtocolError, parseStreamEvent } from './streamProtocol';
+import {
+  AgentStreamReducerContext,
+  AgentStreamState,
+  createAgentStreamState,
+  deduplicateSteps,
+  reduceAgentStreamEvent,
+  reduceProtocolError,
+} from './streamReducer';
+
+const t = (key: string) => key;
+
+const context = (now = 0, isDebug = false): AgentStreamReducerContext => ({ t, isDebug, now });
+
+// Events go through the protocol parser, as they do in the stream handler
+const event = (payload: Record<string, unknown>): AgentStreamEvent => {
+  const result = parseStreamEvent(payload);
+  if (!result.ok) {
+    throw result.error;
+  }
+  return result.event;
+};
+
+const reduceAll = (payloads: Record<string, unknown>[], isDebug = false): AgentStreamState =>
+  payloads.reduce<AgentStreamState>(
+    (state, payload, index) => reduceAgentStreamEvent(state, event(payload), context(index * 1000, isDebug)),
+    createAgentStreamState('run')
+  );
+
+describe('reduceAgentStreamEvent', () => {
+  it('starts a step per step_count and only keeps steps with content', () => {
+    const state = reduceAll([
+      { type: 'step_count', content: 'Step 1' },
+      { type: 'model_output_thinking', content: 'Looking up' },
+      { type: 'step_count', content: 'Step 2' },
+    ]);
+    expect(state.stepCount).toBe(2);
+    expect(state.steps.map(step => step.title)).toEqual(['Step 1']);
+    expect(state.currentStep.title).toBe('Step 2');
+  });
+
+  it('merges consecutive model output of the same kind', () => {
+    const state = reduceAll([
+      { type: 'step_count', content: 'Step 1' },
+      { type: 'model_output_thinking', content: 'Looking ' },
+      { type: 'model_output_thinking', content: 'up' },
+      { type: 'model_output_deep_thinking', content: 'hmm' },
+      { type: 'model_output_thinking', content: 'again' },
+    ]);
+    expect(state.steps[0].contents.map(content => [content.subType, content.content])).toEqual([
+      ['thinking', 'Looking up'],
+      ['deep_thinking', 'hmm'],
+      ['thinking', 'again'],
+    ]);
+  });
+
+  it('shows a single loading hint for generated code outside debug mode', () => {
+    const state = reduceAll([
+      { type: 'step_count', content: 'Step 1' },
+      { type: 'model_output_code', content: 'print(' },
+      { type: 'model_output_code', content: '1)' },
+    ]);
+    expect(state.steps[0].contents).toHaveLength(1);
+    expect(state.steps[0].contents[0]).toMatchObject({ type: 'generating_code', isLoading: true });
+  });
+
+  it('streams generated code in debug mode', () => {
+    const state = reduceAll([
+      { type: 'step_count', content: 'Step 1' },
+      { type: 'model_output_code', content: 'print(' },
+      { type: 'model_output_code', content: '1)<end' },
+    ], true);
+    expect(state.steps[0].contents[0]).toMatchObject({ type: 'model_output', subType: 'code', content: 'print(1)' });
+  });
+
+  it('collects search results, images and the final answer', () => {
+    const state = reduceAll([
+      { type: 'step_count', content: 'Step 1' },
+      { type: 'search_content', content: JSON.stringify([{ title: 'Doc', url: 'https://example.com', cite_index: 2 }]) },
+      { type: 'picture_web', content: JSON.stringify({ images_url: ['https://example.com/a.png'] }) },
+      { type: 'final_answer', content: 'Part one, ' },
+      { type: 'final_answer', content: 'part two' },
+    ]);
+    expect(state.searchResults).toHaveLength(1);
+    expect(state.searchResults[0]).toMatchObject({ title: 'Doc', cite_index: 2 });
+    expect(state.images).toEqual(['https://example.com/a.png']);
+    expect(state.finalAnswer).toBe('Part one, part two');
+  });
+
+  it('ignores empty events and known events without visual representation', () => {
+    const before = reduceAll([{ type: 'step_count', content: 'Step 1' }]);
+    for (const payload of [
+      { type: 'final_answer', content: '' },
+      { type: 'parse', content: 'code' },
+      { type: 'execution_logs', content: 'logs' },
+      { type: 'other', content: 'x' },
+    ]) {
+      const after = reduceAgentStreamEvent(before, event(payload), context());
+      expect(after.steps).toEqual(before.steps);
+      expect(after.finalAnswer).toBe(before.finalAnswer);
+    }
+  });
+
+  it('applies sequence ids in order and skips replayed events', () => {
+    let state = reduceAll([
+      { type: 'final_answer', content: 'a', seq: 1 },
+      { type: 'final_answer', content: 'b', seq: 2 },
+    ]);
+    expect(state.lastSeq).toBe(2);
+
+    // A resume replays from an earlier sequence id
+    for (const payload of [
+      { type: 'final_answer', content: 'b', seq: 2 },
+      { type: 'final_answer', content: 'a', seq: 1 },
+      { type: 'final_answer', content: 'c', seq: 3 },
+    ]) {
+      state = reduceAgentStreamEvent(state, event(payload), context());
+    }
+    expect(state.finalAnswer).toBe('abc');
+    expect(state.lastSeq).toBe(3);
+  });
+
+  it('marks the run as ended on stream_end', () => {
+    const state = reduceAll([
+      { type: 'final_answer', content: 'done', seq: 1 },
+      { type: 'stream_end', content: '', seq: 2 },
+    ]);
+    expect(state.ended).toBe(true);
+    expect(state.lastSeq).toBe(2);
+  });
+
+  it('negotiates the protocol version from the handshake', () => {
+    expect(createAgentStreamState('run').protocolVersion).toBe('1.0');
+    const state = reduceAll([{ type: 'protocol_version', content: '1.1' }]);
+    expect(state.protocolVersion).toBe('1.1');
+    expect(state.protocolErrors).toEqual([]);
+  });
+
+  it('records a version mismatch as a fatal protocol error in the current step', () => {
+    const state = reduceAll([
+      { type: 'step_count', content: 'Step 1' },
+      { type: 'protocol_version', content: '2.0' },
+    ]);
+    expect(state.protocolVersion).toBe('1.0');
+    expect(state.protocolErrors).toHaveLength(1);
+    expect(state.protocolErrors[0].fatal).toBe(true);
+    expect(state.steps[0].contents[0]).toMatchObject({
+      type: 'error',
+      content: 'chatStreamHandler.protocolVersionMismatch',
+    });
+  });
+
+  it('remembers the ids of saved messages', () => {
+    const state = reduceAll([
+      { type: 'message_saved', content: JSON.stringify({ role: 'user', message_id: 7 }) },
+      { type: 'message_saved', content: JSON.stringify({ role: 'assistant', message_id: 8 }) },
+    ]);
+    expect(state.savedMessageIds).toEqual({ user: 7, assistant: 8 });
+  });
+});
+
+describe('reduceProtocolError', () => {
+  it('surfaces unknown events instead of dropping them', () => {
+    const error = new StreamProtocolError('unknown_event', 'unknown event type "x"');
+    const state = reduceProtocolError(createAgentStreamState('run'), error, context());
+    expect(state.protocolErrors).toEqual([error]);
+    expect(state.steps[0].contents[0]).toMatchObject({ type: 'error', content: 'chatStreamHandler.protocolUnknownEvent' });
+  });
+});
+
+describe('deduplicateSteps', () => {
+  it('drops empty steps and repeated titles', () => {
+    const state = reduceAll([
+      { type: 'step_count', content: 'Step 1' },
+      { type: 'model_output_thinking', content: 'a' },
+      { type: 'step_count', content: 'Step 1' },
+      { type: 'model_output_thinking', content: 'b' },
+    ]);
+    expect(state.steps).toHaveLength(2);
+    expect(deduplicateSteps(state.steps).map(step => step.contents[0].content)).toEqual(['a']);
+  });
+});
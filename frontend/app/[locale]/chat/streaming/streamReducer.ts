@@ -0,0 +1,407 @@
+// Pure state machine turning agent stream events into AgentStep[]
+
+import { AgentStep, SearchResult, StepContent, ToolApproval } from '@/types/chat';
+import {
+  AgentStreamEvent,
+  LEGACY_STREAM_PROTOCOL_VERSION,
+  StreamProtocolError,
+  negotiateProtocolVersion
+} from './streamProtocol';
+import { parseStepMetrics, withMeasuredDurations } from './runTelemetry';
+import { TraceState, createTraceState, reduceTraceEvent } from './traceBuilder';
+import { describeApproval, requestApproval, resolveApproval } from './toolApproval';
+
+type LastContentType = "model_output" | "execution" | "generating_code" | "search_content" | "card" | "approval" | null;
+
+export interface AgentStreamState {
+  runId: string
+  protocolVersion: string
+  // Sequence id of the last applied event, replayed events up to it are ignored
+  lastSeq: number
+  // Whether the server confirmed the end of the run
+  ended: boolean
+  // Steps that already received content, in arrival order
+  steps: AgentStep[]
+  // Step currently receiving events, it joins `steps` once it has content
+  currentStep: AgentStep
+  stepCount: number
+  lastContentType: LastContentType
+  // Index of the last model output in currentStep.contents
+  lastModelOutputIndex: number
+  searchResults: SearchResult[]
+  images: string[]
+  // Tool calls the run asked the user to approve, in request order
+  approvals: ToolApproval[]
+  finalAnswer: string
+  // Server ids of the messages persisted by this run
+  savedMessageIds: { user?: number; assistant?: number }
+  protocolErrors: StreamProtocolError[]
+  trace: TraceState
+}
+
+export interface AgentStreamReducerContext {
+  isDebug: boolean
+  t: any
+  // Receive time of the event, used as content timestamp
+  now: number
+}
+
+const createStep = (id: string, title: string): AgentStep => ({
+  id,
+  title,
+  content: "",
+  expanded: true,
+  contents: [],
+  metrics: "",
+  thinking: { content: "", expanded: true },
+  code: { content: "", expanded: true },
+  output: { content: "", expanded: true }
+});
+
+export const createAgentStreamState = (runId: string): AgentStreamState => ({
+  runId,
+  protocolVersion: LEGACY_STREAM_PROTOCOL_VERSION,
+  lastSeq: 0,
+  ended: false,
+  steps: [],
+  currentStep: createStep(`${runId}-step-0`, ""),
+  stepCount: 0,
+  lastContentType: null,
+  lastModelOutputIndex: -1,
+  searchResults: [],
+  images: [],
+  approvals: [],
+  finalAnswer: "",
+  savedMessageIds: {},
+  protocolErrors: [],
+  trace: createTraceState()
+});
+
+// function: process the user break tag
+const processUserBreakTag = (content: string, t: any): string => {
+  if (content == '<user_break>') {
+    return t('chatStreamHandler.userInterrupted');
+  }
+  return content;
+};
+
+// Upsert the current step into the step list, only once it has content
+const commitStep = (state: AgentStreamState, step: AgentStep): AgentStreamState => {
+  const stepIndex = state.steps.findIndex(s => s.id === step.id);
+  let steps = state.steps;
+  if (stepIndex >= 0) {
+    steps = [...state.steps];
+    steps[stepIndex] = step;
+  } else if (step.contents.length > 0) {
+    steps = [...state.steps, step];
+  }
+  return { ...state, currentStep: step, steps };
+};
+
+// Append a new content item to the current step
+const pushContent = (
+  state: AgentStreamState,
+  content: Omit<StepContent, "id" | "expanded" | "timestamp">,
+  context: AgentStreamReducerContext
+): AgentStreamState => {
+  const step = state.currentStep;
+  const item: StepContent = {
+    id: `${step.id}-content-${step.contents.length}`,
+    expanded: true,
+    timestamp: context.now,
+    ...content
+  };
+  return commitStep(state, { ...step, contents: [...step.contents, item] });
+};
+
+// Append text to the last model output of the current step
+const appendToLastModelOutput = (state: AgentStreamState, text: string): AgentStreamState => {
+  const step = state.currentStep;
+  const contents = [...step.contents];
+  const last = contents[state.lastModelOutputIndex];
+  contents[state.lastModelOutputIndex] = { ...last, content: last.content + text };
+  return commitStep(state, { ...step, contents });
+};
+
+const canAppendModelOutput = (state: AgentStreamState, subType?: StepContent["subType"]): boolean => {
+  if (state.lastContentType !== "model_output" || state.lastModelOutputIndex < 0) {
+    return false;
+  }
+  const last = state.currentStep.contents[state.lastModelOutputIndex];
+  return !!last && last.subType === subType;
+};
+
+// Merge consecutive model output chunks of the same subType, start a new group otherwise
+const reduceModelOutput = (
+  state: AgentStreamState,
+  text: string,
+  subType: StepContent["subType"],
+  context: AgentStreamReducerContext
+): AgentStreamState => {
+  if (canAppendModelOutput(state, subType)) {
+    return { ...appendToLastModelOutput(state, text), lastContentType: "model_output" };
+  }
+  const next = pushContent(state, { type: "model_output", subType, content: text }, context);
+  return {
+    ...next,
+    lastContentType: "model_output",
+    lastModelOutputIndex: next.currentStep.contents.length - 1
+  };
+};
+
+const stripCodeMarkers = (content: string, codePrefix: string, isFirstChunk: boolean): string => {
+  let processed = content;
+  if (isFirstChunk && processed.startsWith(codePrefix)) {
+    processed = processed.substring(codePrefix.length);
+  }
+  if (processed.endsWith("<end")) {
+    processed = processed.slice(0, -4);
+  }
+  return processed;
+};
+
+const reduceModelOutputCode = (
+  state: AgentStreamState,
+  text: string,
+  context: AgentStreamReducerContext
+): AgentStreamState => {
+  const { t, isDebug } = context;
+
+  if (!isDebug) {
+    // Outside debug mode only a stable loading hint is shown while the code is generated
+    if (state.lastContentType === "generating_code") {
+      return state;
+    }
+    const next = pushContent(state, {
+      type: "generating_code",
+      content: t('chatStreamHandler.callingTool'),
+      isLoading: true
+    }, context);
+    return { ...next, lastContentType: "generating_code" };
+  }
+
+  // In debug mode the generated code is streamed like thinking content
+  const codePrefix = t('chatStreamHandler.codePrefix');
+  if (canAppendModelOutput(state, "code")) {
+    const step = state.currentStep;
+    const contents = [...step.contents];
+    const last = contents[state.lastModelOutputIndex];
+    let existing = last.content;
+    // The prefix may have arrived split over several chunks, clean it once it is complete
+    if (existing.includes(codePrefix) && text.trim()) {
+      existing = existing.replace(new RegExp(codePrefix + `\\s*`), "");
+    }
+    contents[state.lastModelOutputIndex] = {
+      ...last,
+      content: stripCodeMarkers(existing + text, codePrefix, false)
+    };
+    return { ...commitStep(state, { ...step, contents }), lastContentType: "model_output" };
+  }
+
+  const next = pushContent(state, {
+    type: "model_output",
+    subType: "code",
+    content: stripCodeMarkers(text, codePrefix, true)
+  }, context);
+  return {
+    ...next,
+    lastContentType: "model_output",
+    lastModelOutputIndex: next.currentStep.contents.length - 1
+  };
+};
+
+const toSearchResult = (item: any, t: any): SearchResult => ({
+  title: item.title || t('chatRightPanel.unknownTitle'),
+  url: item.url || "#",
+  text: item.text || t('chatRightPanel.noContentDescription'),
+  published_date: item.published_date || "",
+  source_type: item.source_type || "",
+  filename: item.filename || "",
+  score: typeof item.score === 'number' ? item.score : undefined,
+  score_details: item.score_details || {},
+  tool_sign: item.tool_sign || "",
+  cite_index: typeof item.cite_index === 'number' ? item.cite_index : -1
+});
+
+// Apply one validated event to the stream state, returning a new state
+export const reduceAgentStreamEvent = (
+  state: AgentStreamState,
+  event: AgentStreamEvent,
+  context: AgentStreamReducerContext
+): AgentStreamState => {
+  const { t } = context;
+
+  // Events replayed after a resume that were already applied
+  if (event.seq !== undefined) {
+    if (event.seq <= state.lastSeq) {
+      return state;
+    }
+    state = { ...state, lastSeq: event.seq };
+  }
+
+  // The trace also follows empty events, e.g. the end of a sub-agent without report
+  state = { ...state, trace: reduceTraceEvent(state.trace, event, state.runId, context.now) };
+
+  if (event.type === "stream_end") {
+    return { ...state, ended: true };
+  }
+
+  // Empty chunks carry no information (e.g. agent_finish of the main agent)
+  if (!event.content) {
+    return state;
+  }
+
+  switch (event.type) {
+    case "protocol_version":
+      try {
+        return { ...state, protocolVersion: negotiateProtocolVersion(event.content) };
+      } catch (error) {
+        if (error instanceof StreamProtocolError) {
+          return reduceProtocolError(state, error, context);
+        }
+        throw error;
+      }
+
+    case "step_count": {
+      const stepCount = state.stepCount + 1;
+      return {
+        ...state,
+        stepCount,
+        currentStep: createStep(`${state.runId}-step-${stepCount}`, event.content.trim()),
+        lastContentType: null,
+        lastModelOutputIndex: -1
+      };
+    }
+
+    case "token_count":
+      return commitStep(state, {
+        ...state.currentStep,
+        metrics: event.content,
+        stepMetrics: withMeasuredDurations(parseStepMetrics(event.content), state.currentStep, context.now)
+      });
+
+    case "model_output":
+      return reduceModelOutput(state, event.content, undefined, context);
+
+    case "model_output_thinking":
+      return reduceModelOutput(state, event.content, "thinking", context);
+
+    case "model_output_deep_thinking":
+      return reduceModelOutput(state, event.content, "deep_thinking", context);
+
+    case "model_output_code":
+      return reduceModelOutputCode(state, event.content, context);
+
+    case "card": {
+      const next = pushContent(state, { type: "card", content: event.content }, context);
+      return { ...next, lastContentType: "card" };
+    }
+
+    case "search_content": {
+      const results = event.results.map(item => toSearchResult(item, t));
+      // Keep the original JSON string, TaskWindow renders it
+      const next = pushContent(state, { type: "search_content", content: event.content }, context);
+      return {
+        ...next,
+        lastContentType: "search_content",
+        searchResults: [...state.searchResults, ...results]
+      };
+    }
+
+    case "picture_web":
+      return { ...state, images: [...state.images, ...event.images] };
+
+    case "final_answer":
+      return { ...state, finalAnswer: state.finalAnswer + processUserBreakTag(event.content, t) };
+
+    case "tool": {
+      // Keep a single executing hint while consecutive tool events arrive, so the animation stays continuous
+      if (state.lastContentType === "execution") {
+        return state;
+      }
+      const next = pushContent(state, { type: "executing", content: event.content, isLoading: true }, context);
+      return {
+        ...commitStep(next, { ...next.currentStep, parsingContent: event.content }),
+        lastContentType: "execution"
+      };
+    }
+
+    case "agent_new_run": {
+      const content = event.content === "<MCP_START>"
+        ? t('chatStreamHandler.connectingMcpServer')
+        : t('chatStreamHandler.thinking');
+      return pushContent(state, { type: "agent_new_run", content }, context);
+    }
+
+    case "error":
+      return pushContent(state, { type: "error", content: event.content }, context);
+
+    case "approval_request":
+    case "approval_result": {
+      const approvals = event.type === "approval_request"
+        ? requestApproval(state.approvals, event, context.now)
+        : resolveApproval(state.approvals, event, context.now);
+      const approvalId = event.type === "approval_request" ? event.request.approval_id : event.result.approval_id;
+      const approval = approvals.find(item => item.id === approvalId);
+      if (!approval) {
+        return { ...state, approvals };
+      }
+      // The tool event following a decision starts a new executing hint
+      const next = pushContent(state, { type: "approval", content: describeApproval(approval, t) }, context);
+      return { ...next, approvals, lastContentType: "approval" };
+    }
+
+    case "message_saved":
+      return {
+        ...state,
+        savedMessageIds: { ...state.savedMessageIds, [event.saved.role]: event.saved.message_id }
+      };
+
+    case "parse":
+    case "execution_logs":
+    case "agent_finish":
+    case "other":
+      // Known events without a visual representation in the step list
+      return state;
+  }
+};
+
+// Human readable description of a protocol error
+export const formatProtocolError = (error: StreamProtocolError, t: any): string => {
+  switch (error.code) {
+    case "invalid_json":
+      return t('chatStreamHandler.protocolInvalidJson', { detail: error.detail });
+    case "unknown_event":
+      return t('chatStreamHandler.protocolUnknownEvent', { detail: error.detail });
+    case "version_mismatch":
+      return t('chatStreamHandler.protocolVersionMismatch', { detail: error.detail });
+    default:
+      return t('chatStreamHandler.protocolInvalidPayload', { detail: error.detail });
+  }
+};
+
+// Record a protocol error and surface it in the current step instead of dropping the event
+export function reduceProtocolError(
+  state: AgentStreamState,
+  error: StreamProtocolError,
+  context: AgentStreamReducerContext
+): AgentStreamState {
+  const next = pushContent(state, { type: "error", content: formatProtocolError(error, context.t) }, context);
+  return { ...next, protocolErrors: [...state.protocolErrors, error] };
+}
+
+// Drop empty steps and steps whose title was already seen
+export const deduplicateSteps = (steps: AgentStep[]): AgentStep[] => {
+  const uniqueSteps: AgentStep[] = [];
+  const seenTitles = new Set<string>();
+
+  for (const step of steps) {
+    if (!step.contents || step.contents.length === 0 || seenTitles.has(step.title.trim())) {
+      continue;
+    }
+    seenTitles.add(step.title.trim());
+    uniqueSteps.push(step);
+  }
+
+  return uniqueSteps;
+};
@@ -0,0 +1,85 @@
+// Helpers for reconnecting to an agent run after a network drop or a page reload
+
+export const MAX_RESUME_ATTEMPTS = 5;
+const RESUME_BASE_DELAY_MS = 1000;
+const RESUME_MAX_DELAY_MS = 15000;
+
+// Checkpoints older than this belong to runs the server has long forgotten
+const CHECKPOINT_TTL_MS = 60 * 60 * 1000;
+const CHECKPOINT_KEY = "agent_stream_checkpoints";
+
+export interface StreamCheckpoint {
+  conversation_id: number
+  started_at: number
+}
+
+const readCheckpoints = (): StreamCheckpoint[] => {
+  try {
+    const raw = localStorage.getItem(CHECKPOINT_KEY);
+    const checkpoints: StreamCheckpoint[] = raw ? JSON.parse(raw) : [];
+    return checkpoints.filter(checkpoint => Date.now() - checkpoint.started_at < CHECKPOINT_TTL_MS);
+  } catch (error) {
+    console.error("读取流检查点失败:", error);
+    return [];
+  }
+};
+
+const writeCheckpoints = (checkpoints: StreamCheckpoint[]) => {
+  try {
+    localStorage.setItem(CHECKPOINT_KEY, JSON.stringify(checkpoints));
+  } catch (error) {
+    console.error("保存流检查点失败:", error);
+  }
+};
+
+// Remembers which conversations have a run in flight, so a reloaded page can reattach to them
+export const streamCheckpointStorage = {
+  save: (conversationId: number) => {
+    const checkpoints = readCheckpoints().filter(checkpoint => checkpoint.conversation_id !== conversationId);
+    writeCheckpoints([...checkpoints, { conversation_id: conversationId, started_at: Date.now() }]);
+  },
+
+  remove: (conversationId: number) => {
+    writeCheckpoints(readCheckpoints().filter(checkpoint => checkpoint.conversation_id !== conversationId));
+  },
+
+  list: (): StreamCheckpoint[] => readCheckpoints(),
+};
+
+// Wait before the next resume attempt: exponential backoff, or until the browser is back online
+export const waitForReconnect = (attempt: number, signal: AbortSignal): Promise<void> => {
+  const delay = Math.min(RESUME_BASE_DELAY_MS * 2 ** (attempt - 1), RESUME_MAX_DELAY_MS);
+
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      window.removeEventListener("online", onOnline);
+      signal.removeEventListener("abort", onAbort);
+    };
+    const onOnline = () => {
+      cleanup();
+      resolve();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort);
+
+    // While offline there is no point in retrying before the connection is back
+    if (navigator.onLine) {
+      timer = setTimeout(() => {
+        cleanup();
+        resolve();
+      }, delay);
+    } else {
+      window.addEventListener("online", onOnline);
+    }
+  });
+};
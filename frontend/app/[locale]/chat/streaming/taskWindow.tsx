@@ -1,11 +1,14 @@
 import { useRef, useEffect, useState } from "react"
 import { ScrollArea } from "@/components/ui/scrollArea"
-import { ChatMessageType, TaskMessageType } from "@/types/chat"
+import { ChatMessageType, TaskMessageType, TraceSpan } from "@/types/chat"
 import { MarkdownRenderer } from '@/components/ui/markdownRenderer'
-import { Globe, Search, Zap, Bot, Code, FileText, ChevronRight, Wrench } from "lucide-react"
+import { Globe, Search, Zap, Bot, Code, FileText, ChevronRight, Wrench, ShieldCheck } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useChatTaskMessage } from "@/hooks/useChatTaskMessage"
 import { useTranslation } from "react-i18next"
+import { RunTelemetrySummary } from "./runTelemetrySummary"
+import { TelemetryRun } from "./runTelemetry"
+import { TraceViewer } from "./traceViewer"
 
 // Icon mapping dictionary - map strings to corresponding icon components
 const iconMap: Record<string, React.ReactNode> = {
@@ -605,6 +608,27 @@ const messageHandlers: MessageHandler[] = [
     )
   },
   
+  // approval type processor - approval requests and decisions of tool calls
+  {
+    canHandle: (message) => message.type === "approval",
+    render: (message, _t) => (
+      <div style={{
+        fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif",
+        fontSize: "0.875rem",
+        lineHeight: 1.5,
+        color: "#b45309",
+        fontWeight: 500,
+        paddingTop: "0.5rem",
+        display: "flex",
+        alignItems: "center",
+        gap: "0.375rem"
+      }}>
+        <ShieldCheck size={14} />
+        <span>{message.content}</span>
+      </div>
+    )
+  },
+
   // virtual type processor - virtual message (do not display content, only as a card container)
   {
     canHandle: (message) => message.type === "virtual",
@@ -636,17 +660,27 @@ const messageHandlers: MessageHandler[] = [
 interface TaskWindowProps {
   messages: TaskMessageType[]
   isStreaming?: boolean
+  // Steps behind the task messages, shown in the run summary
+  runs?: TelemetryRun[]
+  conversationRuns?: TelemetryRun[]
+  // Span tree of the run, shown as a waterfall instead of the message list
+  trace?: TraceSpan[]
 }
 
 export function TaskWindow({
   messages,
-  isStreaming = false
+  isStreaming = false,
+  runs,
+  conversationRuns,
+  trace
 }: TaskWindowProps) {
   const { t } = useTranslation('common');
   const scrollAreaRef = useRef<HTMLDivElement>(null)
   const [autoScroll, setAutoScroll] = useState(true)
   const [isExpanded, setIsExpanded] = useState(true) // default expand task details interface
   const [contentHeight, setContentHeight] = useState(0)
+  const [view, setView] = useState<"steps" | "trace">("steps")
+  const hasTrace = !!trace && trace.length > 0
   const contentRef = useRef<HTMLDivElement>(null)
   
   // Add new refs for dynamic threshold calculation
@@ -672,7 +706,7 @@ export function TaskWindow({
       const height = contentRef.current.scrollHeight
       setContentHeight(height)
     }
-  }, [isExpanded, groupedMessages, messages])
+  }, [isExpanded, groupedMessages, messages, view, trace])
 
   // Dynamic threshold calculation based on content growth
   const calculateDynamicThreshold = (baseThreshold: number) => {
@@ -910,6 +944,20 @@ export function TaskWindow({
               <ChevronRight className={`h-4 w-4 ${isExpanded ? 'rotate-90' : '-rotate-90'}`} />
             </Button>
             <span className="text-xs font-medium text-gray-500">{t('taskWindow.taskDetails')}</span>
+            {hasTrace && isExpanded && (
+              <div className="ml-auto mr-2 flex rounded-md border border-gray-200 bg-white text-xs">
+                {(["steps", "trace"] as const).map(item => (
+                  <button
+                    key={item}
+                    type="button"
+                    className={`px-2 py-0.5 rounded-md ${view === item ? "bg-gray-100 text-gray-700" : "text-gray-400 hover:text-gray-600"}`}
+                    onClick={() => setView(item)}
+                  >
+                    {t(`taskWindow.view.${item}`)}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
           {isExpanded && <div className="h-px bg-gray-200 mt-2" />}
         </div>
@@ -919,18 +967,20 @@ export function TaskWindow({
             {needsScroll ? (
               <ScrollArea className="h-full" ref={scrollAreaRef}>
                 <div className="" ref={contentRef}>
-                  {renderMessages()}
+                  {view === "trace" && hasTrace ? <TraceViewer spans={trace!} isStreaming={isStreaming} /> : renderMessages()}
                 </div>
               </ScrollArea>
             ) : (
               <div className="" ref={contentRef}>
-                {renderMessages()}
+                {view === "trace" && hasTrace ? <TraceViewer spans={trace!} isStreaming={isStreaming} /> : renderMessages()}
               </div>
             )}
           </div>
         )}
       </div>
 
+      {runs && <RunTelemetrySummary runs={runs} conversationRuns={conversationRuns} />}
+
       {/* Add necessary CSS animations */}
       <style jsx global>{`
         @keyframes blinkingDot {
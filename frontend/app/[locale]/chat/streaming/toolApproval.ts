@@ -0,0 +1,58 @@
+// Tool calls waiting for the user's approval, rebuilt from the approval events of a run (live or from history)
+
+import { ToolApproval } from '@/types/chat';
+import { ApprovalRequestEvent, ApprovalResultEvent } from './streamProtocol';
+
+export const hasPendingApproval = (approvals?: ToolApproval[]): boolean =>
+  !!approvals?.some(approval => approval.status === "pending");
+
+// A replayed request keeps the state of the approval it already created
+export const requestApproval = (
+  approvals: ToolApproval[],
+  event: ApprovalRequestEvent,
+  now: number
+): ToolApproval[] => {
+  if (approvals.some(approval => approval.id === event.request.approval_id)) {
+    return approvals;
+  }
+  return [...approvals, {
+    id: event.request.approval_id,
+    toolName: event.request.tool_name,
+    agentName: event.agent_name,
+    arguments: event.request.arguments,
+    status: "pending",
+    requestedAt: now
+  }];
+};
+
+export const resolveApproval = (
+  approvals: ToolApproval[],
+  event: ApprovalResultEvent,
+  now: number
+): ToolApproval[] =>
+  approvals.map(approval => approval.id === event.result.approval_id
+    ? {
+        ...approval,
+        status: event.result.decision,
+        arguments: event.result.arguments ?? approval.arguments,
+        edited: !!event.result.edited,
+        timedOut: !!event.result.timed_out,
+        decidedAt: now
+      }
+    : approval);
+
+// Line logged in the step list for a request or a decision
+export const describeApproval = (approval: ToolApproval, t: any): string => {
+  switch (approval.status) {
+    case "pending":
+      return t('toolApproval.log.requested', { tool: approval.toolName });
+    case "approved":
+      return approval.edited
+        ? t('toolApproval.log.approvedEdited', { tool: approval.toolName })
+        : t('toolApproval.log.approved', { tool: approval.toolName });
+    case "denied":
+      return approval.timedOut
+        ? t('toolApproval.log.timedOut', { tool: approval.toolName })
+        : t('toolApproval.log.denied', { tool: approval.toolName });
+  }
+};
@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react"
+import { ShieldAlert, ShieldCheck, ShieldX, Pencil, Loader2 } from "lucide-react"
+import { useTranslation } from "react-i18next"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { ToolApproval } from "@/types/chat"
+import { conversationService } from "@/services/conversationService"
+import { describeApproval } from "./toolApproval"
+
+interface ToolApprovalCardProps {
+  approval: ToolApproval
+  conversationId?: number
+  readOnly?: boolean
+}
+
+const formatArguments = (args: Record<string, any>) => JSON.stringify(args, null, 2)
+
+// Edited arguments must stay a JSON object, they replace the keyword arguments of the call
+const parseArguments = (text: string): Record<string, any> | null => {
+  try {
+    const parsed = JSON.parse(text)
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+// Pending tool call of a paused run: the proposed arguments, editable, with the approve and deny actions.
+// The card only sends the decision, it turns into a log entry once the run reports it with approval_result.
+export function ToolApprovalCard({ approval, conversationId, readOnly = false }: ToolApprovalCardProps) {
+  const { t } = useTranslation('common')
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(() => formatArguments(approval.arguments))
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDraft(formatArguments(approval.arguments))
+  }, [approval.arguments])
+
+  const draftArguments = isEditing ? parseArguments(draft) : approval.arguments
+  const canDecide = !readOnly && !isSubmitting && conversationId !== undefined && conversationId > 0
+
+  const decide = async (decision: "approved" | "denied") => {
+    if (!canDecide || (decision === "approved" && !draftArguments)) return
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      await conversationService.decideApproval(
+        conversationId!,
+        approval.id,
+        decision,
+        decision === "approved" && isEditing ? draftArguments! : undefined
+      )
+    } catch (err) {
+      console.error(t('toolApproval.decideFailed'), err)
+      setError(t('toolApproval.decideFailed'))
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="mb-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm">
+      <div className="flex items-center gap-2 font-medium text-amber-800">
+        <ShieldAlert className="h-4 w-4" />
+        <span>
+          {approval.agentName
+            ? t('toolApproval.titleWithAgent', { tool: approval.toolName, agent: approval.agentName })
+            : t('toolApproval.title', { tool: approval.toolName })}
+        </span>
+      </div>
+      <div className="mt-1 text-xs text-amber-700">{t('toolApproval.description')}</div>
+
+      <div className="mt-2">
+        {isEditing ? (
+          <>
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              className="min-h-[120px] bg-white font-mono text-xs"
+              disabled={isSubmitting}
+            />
+            {!draftArguments && (
+              <div className="mt-1 text-xs text-red-500">{t('toolApproval.invalidArguments')}</div>
+            )}
+          </>
+        ) : (
+          <pre className="max-h-60 overflow-auto whitespace-pre-wrap break-words rounded border border-amber-100 bg-white p-2 text-xs text-gray-700">
+            {formatArguments(approval.arguments)}
+          </pre>
+        )}
+      </div>
+
+      {error && <div className="mt-2 text-xs text-red-500">{error}</div>}
+
+      {!readOnly && (
+        <div className="mt-3 flex items-center gap-2">
+          <Button size="sm" onClick={() => decide("approved")} disabled={!canDecide || !draftArguments}>
+            {isSubmitting ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-1 h-4 w-4" />}
+            {isEditing ? t('toolApproval.approveEdited') : t('toolApproval.approve')}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => decide("denied")} disabled={!canDecide}>
+            <ShieldX className="mr-1 h-4 w-4" />
+            {t('toolApproval.deny')}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              setIsEditing(!isEditing)
+              setDraft(formatArguments(approval.arguments))
+            }}
+            disabled={!canDecide}
+          >
+            <Pencil className="mr-1 h-4 w-4" />
+            {isEditing ? t('toolApproval.cancelEdit') : t('toolApproval.edit')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Decisions taken during the run, kept with the answer once the run went on
+export function ToolApprovalLog({ approvals }: { approvals: ToolApproval[] }) {
+  const { t } = useTranslation('common')
+
+  return (
+    <div className="mb-2 flex flex-col gap-1 text-xs">
+      {approvals.map(approval => (
+        <details key={approval.id} className="text-gray-500">
+          <summary className="flex cursor-pointer items-center gap-1">
+            {approval.status === "approved"
+              ? <ShieldCheck className="h-3.5 w-3.5 text-green-600" />
+              : <ShieldX className="h-3.5 w-3.5 text-red-500" />}
+            <span>{describeApproval(approval, t)}</span>
+          </summary>
+          <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-words rounded bg-gray-50 p-2">
+            {formatArguments(approval.arguments)}
+          </pre>
+        </details>
+      ))}
+    </div>
+  )
+}
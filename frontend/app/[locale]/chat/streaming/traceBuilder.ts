@@ -0,0 +1,216 @@
+// Builds the span tree of an agent run (agent → step → model call → code execution → tool call / sub-agent)
+// from the same events as the step list. Used for live streams and for runs loaded from history.
+
+import { TraceSpan, TraceSpanKind } from '@/types/chat';
+import { parseStepMetrics } from './runTelemetry';
+
+export interface TraceState {
+  spans: TraceSpan[]
+  // Spans not closed yet, from the outermost agent to the innermost span
+  openSpanIds: string[]
+}
+
+// Subset of a stream event or a history message unit the trace needs
+export interface TraceEvent {
+  type: string
+  content: string
+  agent_name?: string
+}
+
+// Inputs and outputs are kept for inspection only, long ones are cut
+const MAX_SPAN_TEXT_LENGTH = 4000;
+
+const MODEL_OUTPUT_TYPES = [
+  "model_output",
+  "model_output_thinking",
+  "model_output_deep_thinking",
+  "model_output_code"
+];
+
+const clip = (text: string): string =>
+  text.length > MAX_SPAN_TEXT_LENGTH ? `${text.slice(0, MAX_SPAN_TEXT_LENGTH)}…` : text;
+
+export const createTraceState = (): TraceState => ({ spans: [], openSpanIds: [] });
+
+const topSpan = (trace: TraceState): TraceSpan | undefined => {
+  const id = trace.openSpanIds[trace.openSpanIds.length - 1];
+  return id === undefined ? undefined : trace.spans.find(span => span.id === id);
+};
+
+const updateSpan = (trace: TraceState, id: string, patch: Partial<TraceSpan>): TraceState => ({
+  ...trace,
+  spans: trace.spans.map(span => span.id === id ? { ...span, ...patch } : span)
+});
+
+// Open a span as a child of the innermost open span
+const openSpan = (
+  trace: TraceState,
+  kind: TraceSpanKind,
+  fields: { name?: string; input?: string },
+  runId: string,
+  now: number
+): TraceState => {
+  const id = `${runId}-span-${trace.spans.length}`;
+  const span: TraceSpan = {
+    id,
+    parentId: trace.openSpanIds[trace.openSpanIds.length - 1] ?? null,
+    kind,
+    name: fields.name ?? "",
+    status: "running",
+    startTime: now,
+    input: fields.input === undefined ? undefined : clip(fields.input)
+  };
+  return { spans: [...trace.spans, span], openSpanIds: [...trace.openSpanIds, id] };
+};
+
+// Close innermost spans as long as they match, spans that failed keep their status
+const closeWhile = (trace: TraceState, now: number, shouldClose: (span: TraceSpan) => boolean): TraceState => {
+  let next = trace;
+  let span = topSpan(next);
+  while (span && shouldClose(span)) {
+    next = updateSpan(next, span.id, { endTime: now, status: span.status === "running" ? "success" : span.status });
+    next = { ...next, openSpanIds: next.openSpanIds.slice(0, -1) };
+    span = topSpan(next);
+  }
+  return next;
+};
+
+// Innermost open agent span, the one named by the event when the server tags events with their agent
+const findOpenAgent = (trace: TraceState, agentName?: string): TraceSpan | undefined => {
+  for (let index = trace.openSpanIds.length - 1; index >= 0; index--) {
+    const span = trace.spans.find(item => item.id === trace.openSpanIds[index]);
+    if (span?.kind === "agent" && (!agentName || span.name === agentName)) {
+      return span;
+    }
+  }
+  return undefined;
+};
+
+// Close everything opened inside an agent, the agent itself stays open
+const closeInside = (trace: TraceState, agent: TraceSpan, now: number): TraceState =>
+  closeWhile(trace, now, span => span.id !== agent.id);
+
+// Legacy streams may start with a step, the answering agent is then opened implicitly
+const ensureRootAgent = (trace: TraceState, event: TraceEvent, runId: string, now: number): TraceState =>
+  trace.spans.length === 0 ? openSpan(trace, "agent", { name: event.agent_name }, runId, now) : trace;
+
+// History keeps no event times, only the duration of every step in its closing token_count. Each step is laid
+// out over that duration with its events spread evenly, so the spans inside a step keep a visible width.
+// Returns the time in milliseconds of every event, relative to the start of the run.
+export const layoutHistoryEvents = (events: TraceEvent[]): number[] => {
+  const times: number[] = [];
+  let stepStart = 0;
+  let stepEvents: number[] = [];
+  events.forEach((event, index) => {
+    if (event.type !== "token_count") {
+      stepEvents.push(index);
+      return;
+    }
+    const duration = (parseStepMetrics(event.content)?.duration ?? 0) * 1000;
+    stepEvents.forEach((eventIndex, position) => {
+      times[eventIndex] = stepStart + duration * position / stepEvents.length;
+    });
+    stepStart += duration;
+    times[index] = stepStart;
+    stepEvents = [];
+  });
+  // The final answer comes after the last step
+  stepEvents.forEach(eventIndex => {
+    times[eventIndex] = stepStart;
+  });
+  return times;
+};
+
+export const closeTrace = (trace: TraceState, now: number): TraceState =>
+  closeWhile(trace, now, () => true);
+
+// Apply one event to the trace, returning a new trace
+export const reduceTraceEvent = (trace: TraceState, event: TraceEvent, runId: string, now: number): TraceState => {
+  const top = topSpan(trace);
+
+  switch (event.type) {
+    case "agent_new_run": {
+      if (event.content === "<MCP_START>") {
+        return trace;
+      }
+      // The first agent answers the user, later ones are sub-agents called from a code execution
+      return openSpan(trace, "agent", { name: event.agent_name, input: event.content }, runId, now);
+    }
+
+    case "step_count": {
+      const rooted = ensureRootAgent(trace, event, runId, now);
+      const agent = findOpenAgent(rooted, event.agent_name) ?? findOpenAgent(rooted);
+      const closed = agent ? closeInside(rooted, agent, now) : rooted;
+      return openSpan(closed, "step", { name: event.content.trim() }, runId, now);
+    }
+
+    case "parse": {
+      // The parsed code is what the model call produced and what the execution runs
+      const closed = closeWhile(trace, now, span => span.kind === "model");
+      const withOutput = top?.kind === "model" ? updateSpan(closed, top.id, { output: clip(event.content) }) : closed;
+      return topSpan(withOutput)?.kind === "step"
+        ? openSpan(withOutput, "execution", { input: event.content }, runId, now)
+        : withOutput;
+    }
+
+    case "tool": {
+      // Tools only announce their start, a tool call lasts until the next event of its execution
+      const closed = closeWhile(trace, now, span => span.kind === "tool");
+      return closed.openSpanIds.length > 0
+        ? openSpan(closed, "tool", { input: event.content }, runId, now)
+        : closed;
+    }
+
+    case "execution_logs": {
+      const closed = closeWhile(trace, now, span => span.kind === "tool");
+      const execution = topSpan(closed);
+      return execution?.kind === "execution"
+        ? updateSpan(closed, execution.id, { output: clip((execution.output || "") + event.content) })
+        : closed;
+    }
+
+    case "token_count":
+      // Sent once the step is done
+      return closeWhile(trace, now, span => span.kind !== "agent");
+
+    case "agent_finish": {
+      const agent = findOpenAgent(trace, event.agent_name);
+      // The answering agent is closed by the end of the stream
+      if (!agent || agent.parentId === null) {
+        return trace;
+      }
+      const closed = closeInside(trace, agent, now);
+      return closeWhile(
+        event.content ? updateSpan(closed, agent.id, { output: clip(event.content) }) : closed,
+        now,
+        span => span.id === agent.id
+      );
+    }
+
+    case "error": {
+      if (!top) {
+        return trace;
+      }
+      // Errors reported after a step closed belong to that step
+      const target = top.kind === "agent"
+        ? [...trace.spans].reverse().find(span => span.parentId === top.id) ?? top
+        : top;
+      return updateSpan(trace, target.id, { status: "error", output: clip(event.content) });
+    }
+
+    case "final_answer": {
+      const root = trace.spans[0];
+      return root ? updateSpan(trace, root.id, { output: clip((root.output || "") + event.content) }) : trace;
+    }
+
+    case "stream_end":
+      return closeTrace(trace, now);
+
+    default:
+      // Model calls start with their first output chunk
+      if (MODEL_OUTPUT_TYPES.includes(event.type) && top?.kind === "step") {
+        return openSpan(trace, "model", {}, runId, now);
+      }
+      return trace;
+  }
+};
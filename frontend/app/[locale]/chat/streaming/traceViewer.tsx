@@ -0,0 +1,167 @@
+import { useState } from "react"
+import { useTranslation } from "react-i18next"
+import { Bot, ChevronRight, Code, ListTree, Sparkles, Wrench } from "lucide-react"
+import { TraceSpan, TraceSpanKind } from "@/types/chat"
+
+interface TraceViewerProps {
+  spans: TraceSpan[]
+  isStreaming?: boolean
+}
+
+type DisplayStatus = TraceSpan["status"] | "interrupted"
+
+const kindIcons: Record<TraceSpanKind, React.ReactNode> = {
+  agent: <Bot size={14} className="flex-shrink-0" />,
+  step: <ListTree size={14} className="flex-shrink-0" />,
+  model: <Sparkles size={14} className="flex-shrink-0" />,
+  execution: <Code size={14} className="flex-shrink-0" />,
+  tool: <Wrench size={14} className="flex-shrink-0" />,
+}
+
+const kindColors: Record<TraceSpanKind, string> = {
+  agent: "bg-indigo-400",
+  step: "bg-slate-400",
+  model: "bg-violet-400",
+  execution: "bg-amber-400",
+  tool: "bg-emerald-400",
+}
+
+const statusColors: Record<DisplayStatus, string> = {
+  running: "text-blue-500",
+  success: "text-green-600",
+  error: "text-red-500",
+  interrupted: "text-gray-400",
+}
+
+const formatSpanDuration = (ms: number) => ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(2)}s`
+
+// Waterfall of a run: one row per span, indented by nesting, with its bar on the time axis of the run
+export function TraceViewer({ spans, isStreaming = false }: TraceViewerProps) {
+  const { t } = useTranslation("common")
+  const [selectedSpanId, setSelectedSpanId] = useState<string | null>(null)
+  const [collapsedSpanIds, setCollapsedSpanIds] = useState<Set<string>>(new Set())
+
+  if (spans.length === 0) {
+    return <div className="text-center text-sm text-gray-400 mt-8">{t("traceViewer.empty")}</div>
+  }
+
+  const startTime = Math.min(...spans.map(span => span.startTime))
+  const lastKnownTime = Math.max(...spans.map(span => span.endTime ?? span.startTime))
+  // Open spans of a live run grow with it, the ones of a finished run were cut off
+  const runEndTime = isStreaming ? Math.max(Date.now(), lastKnownTime) : lastKnownTime
+  const totalDuration = Math.max(runEndTime - startTime, 1)
+
+  const endOf = (span: TraceSpan) => span.endTime ?? runEndTime
+  const statusOf = (span: TraceSpan): DisplayStatus =>
+    span.status === "running" && !isStreaming ? "interrupted" : span.status
+
+  const labelOf = (span: TraceSpan) => {
+    if (span.name) return span.name
+    if (span.kind === "agent" && span.parentId) return t("traceViewer.subAgent")
+    // Tools announce themselves with a short running message
+    if (span.kind === "tool" && span.input) return span.input.split("\n")[0]
+    return t(`traceViewer.kind.${span.kind}`)
+  }
+
+  const childrenOf = new Map<string | null, TraceSpan[]>()
+  spans.forEach(span => {
+    childrenOf.set(span.parentId, [...(childrenOf.get(span.parentId) || []), span])
+  })
+
+  // Depth-first order, children of collapsed spans are hidden
+  const rows: { span: TraceSpan; depth: number }[] = []
+  const visit = (span: TraceSpan, depth: number) => {
+    rows.push({ span, depth })
+    if (!collapsedSpanIds.has(span.id)) {
+      (childrenOf.get(span.id) || []).forEach(child => visit(child, depth + 1))
+    }
+  }
+  (childrenOf.get(null) || []).forEach(root => visit(root, 0))
+
+  const toggleCollapsed = (spanId: string) => {
+    setCollapsedSpanIds(prev => {
+      const next = new Set(prev)
+      if (next.has(spanId)) {
+        next.delete(spanId)
+      } else {
+        next.add(spanId)
+      }
+      return next
+    })
+  }
+
+  const selectedSpan = spans.find(span => span.id === selectedSpanId)
+
+  return (
+    <div className="text-xs">
+      {rows.map(({ span, depth }) => {
+        const hasChildren = childrenOf.has(span.id)
+        const status = statusOf(span)
+        const left = ((span.startTime - startTime) / totalDuration) * 100
+        const width = ((endOf(span) - span.startTime) / totalDuration) * 100
+
+        return (
+          <div
+            key={span.id}
+            className={`flex items-center gap-2 rounded px-1 py-0.5 cursor-pointer hover:bg-gray-100 ${
+              span.id === selectedSpanId ? "bg-gray-100" : ""
+            }`}
+            onClick={() => setSelectedSpanId(span.id === selectedSpanId ? null : span.id)}
+          >
+            <div className="flex w-2/5 min-w-0 items-center gap-1" style={{ paddingLeft: `${depth * 12}px` }}>
+              {hasChildren ? (
+                <ChevronRight
+                  size={12}
+                  className={`flex-shrink-0 text-gray-400 transition-transform ${collapsedSpanIds.has(span.id) ? "" : "rotate-90"}`}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    toggleCollapsed(span.id)
+                  }}
+                />
+              ) : (
+                <span className="w-3 flex-shrink-0" />
+              )}
+              <span className={statusColors[status]}>{kindIcons[span.kind]}</span>
+              <span className="truncate text-gray-700" title={labelOf(span)}>{labelOf(span)}</span>
+            </div>
+            <div className="relative h-3 flex-1 rounded bg-gray-100">
+              <div
+                className={`absolute top-0 h-3 rounded ${status === "error" ? "bg-red-400" : kindColors[span.kind]} ${
+                  status === "running" ? "animate-pulse" : ""
+                } ${status === "interrupted" ? "opacity-40" : ""}`}
+                style={{ left: `${left}%`, width: `max(${width}%, 2px)` }}
+              />
+            </div>
+            <span className="w-14 flex-shrink-0 text-right text-gray-500">
+              {formatSpanDuration(endOf(span) - span.startTime)}
+            </span>
+          </div>
+        )
+      })}
+
+      {selectedSpan && (
+        <div className="mt-2 rounded border border-gray-200 bg-white p-2">
+          <div className="mb-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-gray-500">
+            <span className="font-medium text-gray-700">{labelOf(selectedSpan)}</span>
+            <span>{t(`traceViewer.kind.${selectedSpan.kind}`)}</span>
+            <span className={statusColors[statusOf(selectedSpan)]}>{t(`traceViewer.status.${statusOf(selectedSpan)}`)}</span>
+            <span>{t("traceViewer.startedAt", { offset: formatSpanDuration(selectedSpan.startTime - startTime) })}</span>
+            <span>{t("traceViewer.duration", { duration: formatSpanDuration(endOf(selectedSpan) - selectedSpan.startTime) })}</span>
+          </div>
+          {selectedSpan.input && (
+            <>
+              <div className="mt-1 text-gray-400">{t("traceViewer.input")}</div>
+              <pre className="max-h-32 overflow-auto whitespace-pre-wrap break-words rounded bg-gray-50 p-1">{selectedSpan.input}</pre>
+            </>
+          )}
+          {selectedSpan.output && (
+            <>
+              <div className="mt-1 text-gray-400">{t("traceViewer.output")}</div>
+              <pre className="max-h-32 overflow-auto whitespace-pre-wrap break-words rounded bg-gray-50 p-1">{selectedSpan.output}</pre>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
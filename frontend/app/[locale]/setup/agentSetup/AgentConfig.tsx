@@ -6,10 +6,12 @@ import BusinessLogicConfig from './AgentManagementConfig'
 import DebugConfig from './DebugConfig'
 import GuideSteps from './components/GuideSteps'
 import { Row, Col, Drawer, App } from 'antd'
-import { fetchTools, fetchAgentList, exportAgent, deleteAgent } from '@/services/agentConfigService'
+import { fetchTools, fetchAgentList, deleteAgent } from '@/services/agentConfigService'
 import { generatePromptStream } from '@/services/promptService'
 import { OpenAIModel } from '@/app/setup/agentSetup/ConstInterface'
 import { updateToolList } from '@/services/mcpService'
+import { useConfig } from '@/hooks/useConfig'
+import { buildAgentBundle, downloadAgentBundle } from './utils/agentBundle'
 import { 
   SETUP_PAGE_CONTAINER, 
   THREE_COLUMN_LAYOUT,
@@ -22,6 +24,7 @@ const LAYOUT_CONFIG = {
   CARD_HEADER_PADDING: "10px 24px",
   CARD_BODY_PADDING: "12px 20px",
   DRAWER_WIDTH: "40%",
+  WIDE_DRAWER_WIDTH: "90%",
 }
 
 /**
@@ -30,11 +33,13 @@ const LAYOUT_CONFIG = {
 export default function AgentConfig() {
   const { t } = useTranslation('common')
   const { message } = App.useApp()
+  const { modelConfig } = useConfig()
   const [businessLogic, setBusinessLogic] = useState("")
   const [systemPrompt, setSystemPrompt] = useState("")
   const [selectedAgents, setSelectedAgents] = useState<any[]>([])
   const [selectedTools, setSelectedTools] = useState<any[]>([])
   const [isDebugDrawerOpen, setIsDebugDrawerOpen] = useState(false)
+  const [isDebugWide, setIsDebugWide] = useState(false)
   const [isCreatingNewAgent, setIsCreatingNewAgent] = useState(false)
   const [mainAgentModel, setMainAgentModel] = useState(OpenAIModel.MainModel)
   const [mainAgentMaxStep, setMainAgentMaxStep] = useState(5)
@@ -155,34 +160,13 @@ export default function AgentConfig() {
     }
 
     try {
-      const result = await exportAgent(Number(editingAgent.id))
-      if (result.success) {
-        // Handle backend returned string or object
-        let exportData = result.data;
-        if (typeof exportData === 'string') {
-          try {
-            exportData = JSON.parse(exportData);
-          } catch (e) {
-            // If parsing fails, it means it's already a string, export directly
-          }
-        }
-        const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-          type: 'application/json'
-        });
-
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `${editingAgent.name}_config.json`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-
-        message.success(t('businessLogic.config.message.agentExportSuccess'));
-      } else {
-        message.error(result.message || t('businessLogic.config.error.agentExportFailed'))
-      }
+      // The agent is exported as a bundle together with its sub-agents and dependencies
+      const bundle = await buildAgentBundle(Number(editingAgent.id), {
+        main_model: modelConfig.llm.displayName || modelConfig.llm.modelName,
+        sub_model: modelConfig.llmSecondary.displayName || modelConfig.llmSecondary.modelName,
+      })
+      downloadAgentBundle(bundle.name, bundle.content)
+      message.success(t('businessLogic.config.message.agentExportSuccess'));
     } catch (error) {
       console.error(t('debug.console.exportAgentFailed'), error)
       message.error(t('businessLogic.config.error.agentExportFailed'))
@@ -595,7 +579,7 @@ export default function AgentConfig() {
           placement="right"
           onClose={() => setIsDebugDrawerOpen(false)}
           open={isDebugDrawerOpen}
-          width={LAYOUT_CONFIG.DRAWER_WIDTH}
+          width={isDebugWide ? LAYOUT_CONFIG.WIDE_DRAWER_WIDTH : LAYOUT_CONFIG.DRAWER_WIDTH}
           styles={{
             body: {
               padding: 0,
@@ -607,6 +591,7 @@ export default function AgentConfig() {
           <div className="h-full">
             <DebugConfig 
               agentId={getCurrentAgentId()}
+              onWideModeChange={setIsDebugWide}
             />
           </div>
         </Drawer>
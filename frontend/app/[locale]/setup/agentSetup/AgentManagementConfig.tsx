@@ -10,6 +10,11 @@ import { MemoizedToolPool } from './components/ToolPool'
 import DeleteConfirmModal from './components/DeleteConfirmModal'
 import CollaborativeAgentDisplay from './components/CollaborativeAgentDisplay'
 import PromptManager from './components/PromptManager'
+import AgentVersionHistory from './components/AgentVersionHistory'
+import AgentSchedules from './components/AgentSchedules'
+import AgentBundleImportWizard from './components/AgentBundleImportWizard'
+import AgentOrchestrationCanvas from './components/AgentOrchestrationCanvas'
+import { AgentBundle, parseAgentBundle } from './utils/agentBundle'
 import {
   Agent,
   OpenAIModel,
@@ -137,6 +142,8 @@ export default function BusinessLogicConfig({
   const [enabledToolIds, setEnabledToolIds] = useState<number[]>([]);
   const [isLoadingTools, setIsLoadingTools] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [importBundle, setImportBundle] = useState<AgentBundle | null>(null);
+  const [isOrchestrationOpen, setIsOrchestrationOpen] = useState(false);
   // Use generation state passed from parent component, not local state
   
   // Delete confirmation popup status
@@ -146,6 +153,8 @@ export default function BusinessLogicConfig({
   // Edit agent related status
   const [isEditingAgent, setIsEditingAgent] = useState(false);
   const [editingAgent, setEditingAgent] = useState<Agent | null>(null);
+  const [isVersionHistoryOpen, setIsVersionHistoryOpen] = useState(false);
+  const [isSchedulesOpen, setIsSchedulesOpen] = useState(false);
 
   // Add a flag to track if it has been initialized to avoid duplicate calls
   const hasInitialized = useRef(false);
@@ -595,11 +604,21 @@ export default function BusinessLogicConfig({
     // Create a hidden file input element
     const fileInput = document.createElement('input');
     fileInput.type = 'file';
-    fileInput.accept = '.json';
+    fileInput.accept = '.zip,.json';
     fileInput.onchange = async (event) => {
       const file = (event.target as HTMLInputElement).files?.[0];
       if (!file) return;
 
+      // Bundles go through the import wizard, plain configuration files are imported directly
+      if (file.name.endsWith('.zip')) {
+        try {
+          setImportBundle(parseAgentBundle(new Uint8Array(await file.arrayBuffer())));
+        } catch (error) {
+          message.error(t('agentBundle.invalid', { reason: (error as Error).message }));
+        }
+        return;
+      }
+
       // Check file type
       if (!file.name.endsWith('.json')) {
         message.error(t('businessLogic.config.error.invalidFileType'));
@@ -728,6 +747,7 @@ export default function BusinessLogicConfig({
               onCreateNewAgent={handleCreateNewAgent}
               onExitEditMode={handleExitEditMode}
               onImportAgent={() => handleImportAgent(t)}
+              onShowOrchestration={() => setIsOrchestrationOpen(true)}
               subAgentList={subAgentList}
               loadingAgents={loadingAgents}
               isImporting={isImporting}
@@ -783,6 +803,9 @@ export default function BusinessLogicConfig({
                       onToolsRefresh={handleToolsRefresh}
                       isEditingMode={isEditingAgent || isCreatingNewAgent}
                       isGeneratingAgent={isGeneratingAgent}
+                      onAddFewShot={(example) => {
+                        setFewShotsContent(fewShotsContent?.trim() ? `${fewShotsContent.trimEnd()}\n\n${example}` : example);
+                      }}
                     />
                 </div>
               </div>
@@ -822,6 +845,8 @@ export default function BusinessLogicConfig({
               onExportAgent={onExportAgent || (() => {})}
               onDeleteAgent={onDeleteAgent || (() => {})}
               onDeleteSuccess={handleExitEdit}
+              onShowHistory={isEditingAgent && editingAgent ? () => setIsVersionHistoryOpen(true) : undefined}
+              onShowSchedules={isEditingAgent && editingAgent ? () => setIsSchedulesOpen(true) : undefined}
               editingAgent={editingAgentFromParent || editingAgent}
             />
           </div>
@@ -834,6 +859,52 @@ export default function BusinessLogicConfig({
         onCancel={() => setIsDeleteConfirmOpen(false)}
         onConfirm={() => handleConfirmDelete(t)}
       />
+
+      {/* Version history of the agent being edited */}
+      <AgentVersionHistory
+        open={isVersionHistoryOpen}
+        agentId={editingAgent ? Number(editingAgent.id) : undefined}
+        agents={subAgentList}
+        onClose={() => setIsVersionHistoryOpen(false)}
+        onRolledBack={() => {
+          // Reload the restored configuration into the editor
+          if (editingAgent) {
+            handleEditAgent(editingAgent, t);
+          }
+        }}
+      />
+
+      {/* Scheduled and webhook triggered runs of the agent being edited */}
+      <AgentSchedules
+        open={isSchedulesOpen}
+        agentId={editingAgent ? Number(editingAgent.id) : undefined}
+        onClose={() => setIsSchedulesOpen(false)}
+      />
+
+      {/* Dependency mapping of an agent bundle before it is imported */}
+      <AgentBundleImportWizard
+        bundle={importBundle}
+        onClose={() => setImportBundle(null)}
+        onImported={() => refreshAgentList(t)}
+      />
+
+      {/* Delegation tree of all agents */}
+      <AgentOrchestrationCanvas
+        open={isOrchestrationOpen}
+        agents={subAgentList}
+        onClose={() => setIsOrchestrationOpen(false)}
+        onEditAgent={(agent) => {
+          setIsOrchestrationOpen(false);
+          handleEditAgent(agent, t);
+        }}
+        onLinksChange={(parentId, childIds) => {
+          // Keep the collaborative agents of the agent being edited in sync
+          if (editingAgent && Number(editingAgent.id) === parentId) {
+            setEnabledAgentIds(childIds);
+          }
+        }}
+        disabled={isGeneratingAgent}
+      />
     </div>
   </TooltipProvider>
   )
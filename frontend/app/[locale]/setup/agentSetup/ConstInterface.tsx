@@ -1,5 +1,7 @@
 "use client";
 
+import type { JsonSchema } from '@/types/jsonSchema';
+
 // model enum class
 export enum OpenAIModel {
   MainModel = 'main_model',
@@ -23,6 +25,19 @@ export interface Agent {
   sub_agent_id_list?: number[]; // 添加sub_agent_id_list字段
 }
 
+// Immutable record the backend keeps for every save of an agent
+export interface AgentVersion {
+  version_no: number;
+  author: string;
+  create_time: string;
+  // Version restored by this one, when it was created by a rollback
+  rollback_from?: number | null;
+}
+
+export interface AgentVersionDetail extends AgentVersion {
+  snapshot: Agent;
+}
+
 export interface Tool {
   id: string;
   name: string;
@@ -32,6 +47,8 @@ export interface Tool {
   is_available?: boolean;
   create_time?: string;
   usage?: string; // 用于标注工具来源的usage字段
+  // Call inputs as a JSON string of {name: {type, description, nullable}}
+  inputs?: string;
 }
 
 export interface ToolParam {
@@ -40,4 +57,38 @@ export interface ToolParam {
   required: boolean;
   value?: any;
   description?: string;
+  // Full JSON Schema of the parameter when the backend provides one, it takes precedence over type
+  schema?: JsonSchema;
+}
+
+// Outcome of calling a tool directly from the playground
+export interface ToolInvocationResult {
+  output: any;
+  // Error raised by the tool, the call itself succeeded
+  error?: string | null;
+}
+
+// A playground invocation kept for later reuse, e.g. as a few-shot example
+export interface ToolSample extends ToolInvocationResult {
+  sample_id: number;
+  tool_id: number;
+  agent_id: number;
+  params: Record<string, any>;
+  inputs: Record<string, any>;
+  // Milliseconds
+  duration: number;
+  create_time: string;
+}
+
+// Whether the calls of a tool pause the run until the user approves them
+export type ToolApprovalMode = "ask" | "auto";
+
+// Tools asking for approval when they have no mode of their own: none, the MCP tools or all of them
+export type AgentApprovalDefault = "never" | "mcp" | "always";
+
+export interface ApprovalPolicy {
+  agent_id: number;
+  default_mode: AgentApprovalDefault;
+  // Modes set on single tools, keyed by tool id, they win over the default
+  tool_modes: Record<string, ToolApprovalMode>;
 }
@@ -1,13 +1,15 @@
 "use client"
 
-import { useState, useRef } from 'react'
-import { Input } from 'antd'
+import { useState } from 'react'
+import { Input, Segmented } from 'antd'
 import { useTranslation } from 'react-i18next'
-import { conversationService } from '@/services/conversationService'
-import { handleStreamResponse } from '@/app/chat/streaming/chatStreamHandler'
-import { ChatMessageType, TaskMessageType } from '@/types/chat'
+import { ChatMessageType } from '@/types/chat'
 import { ChatStreamFinalMessage } from '@/app/chat/streaming/chatStreamFinalMessage'
 import { TaskWindow } from '@/app/chat/streaming/taskWindow'
+import { useAgentDebugRuns } from '@/hooks/useAgentDebugRuns'
+import { toTaskMessages } from './utils/agentUtils'
+import AgentComparison from './components/AgentComparison'
+import AgentEvaluation from './components/AgentEvaluation'
 
 
 // Agent debugging component Props interface
@@ -21,10 +23,13 @@ interface AgentDebuggingProps {
 // Main component Props interface
 interface DebugConfigProps {
   agentId?: number; // Make agentId an optional prop
+  // The comparison and the evaluation need more room, the parent widens its drawer
+  onWideModeChange?: (wide: boolean) => void;
 }
 
-// Counter for generating unique IDs
-const stepIdCounter = { current: 0 };
+type DebugMode = "single" | "compare" | "evaluate";
+
+const SINGLE_RUN_KEY = "single";
 
 /**
  * Agent debugging component
@@ -49,64 +54,11 @@ function AgentDebugging({
     }
   }
   
-  // Process the step content of the message
-  const processMessageSteps = (message: ChatMessageType): TaskMessageType[] => {
-    if (!message.steps || message.steps.length === 0) return [];
-    
-    const taskMsgs: TaskMessageType[] = [];
-    message.steps.forEach(step => {
-      // Process step.contents
-      if (step.contents && step.contents.length > 0) {
-        step.contents.forEach(content => {
-          taskMsgs.push({
-            id: content.id,
-            role: "assistant",
-            content: content.content,
-            timestamp: new Date(),
-            type: content.type,
-            // Preserve subType so TaskWindow can style deep thinking text
-            subType: content.subType as any
-          } as any);
-        });
-      }
-      
-      // Process step.thinking
-      if (step.thinking && step.thinking.content) {
-        taskMsgs.push({
-          id: `thinking-${step.id}`,
-          role: "assistant",
-          content: step.thinking.content,
-          timestamp: new Date(),
-          type: "model_output_thinking"
-        });
-      }
-      
-      // Process step.code 
-      if (step.code && step.code.content) {
-        taskMsgs.push({
-          id: `code-${step.id}`,
-          role: "assistant",
-          content: step.code.content,
-          timestamp: new Date(),
-          type: "model_output_code"
-        });
-      }
-      
-      // Process step.output
-      if (step.output && step.output.content) {
-        taskMsgs.push({
-          id: `output-${step.id}`,
-          role: "assistant",
-          content: step.output.content,
-          timestamp: new Date(),
-          type: "tool"
-        });
-      }
-    });
-    
-    return taskMsgs;
-  };
-  
+  // Steps of every answer, for the totals of the debug session
+  const conversationRuns = messages
+    .filter(message => message.role === "assistant" && message.steps && message.steps.length > 0)
+    .map(message => ({ messageId: message.id, steps: message.steps! }));
+
   return (
     <div className="flex flex-col h-full p-4">
       <div className="flex flex-col gap-4 flex-grow overflow-hidden">
@@ -114,7 +66,7 @@ function AgentDebugging({
         <div className="flex flex-col gap-3 h-full overflow-y-auto custom-scrollbar">
           {messages.map((message, index) => {
             // Process the task content of the current message
-            const currentTaskMessages = message.role === "assistant" ? processMessageSteps(message) : [];
+            const currentTaskMessages = message.role === "assistant" ? toTaskMessages(message) : [];
             
             return (
               <div key={message.id || index} className="flex flex-col gap-2">
@@ -137,6 +89,9 @@ function AgentDebugging({
                   <TaskWindow
                     messages={currentTaskMessages}
                     isStreaming={isStreaming && index === messages.length - 1}
+                    runs={[{ messageId: message.id, steps: message.steps || [] }]}
+                    conversationRuns={conversationRuns}
+                    trace={message.trace}
                   />
                 )}
                 
@@ -193,178 +148,48 @@ function AgentDebugging({
  * Debug configuration main component
  */
 export default function DebugConfig({
-  agentId
+  agentId,
+  onWideModeChange
 }: DebugConfigProps) {
   const { t } = useTranslation()
-  const [messages, setMessages] = useState<ChatMessageType[]>([]);
-  const [isStreaming, setIsStreaming] = useState(false);
-  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  // Reset timeout timer
-  const resetTimeout = () => {
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-    }
-    timeoutRef.current = setTimeout(() => {
-      setIsStreaming(false);
-    }, 30000); // 30 seconds timeout
-  };
-
-  // Handle stop function
-  const handleStop = async () => {
-    // Stop agent_run immediately
-    if (abortControllerRef.current) {
-      try {
-        abortControllerRef.current.abort(t('agent.debug.userStop'));
-      } catch (error) {
-        console.error(t('agent.debug.cancelError'), error);
-      }
-      abortControllerRef.current = null;
-    }
-
-    // Clear timeout timer
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
-    }
-
-    // Immediately update frontend state
-    setIsStreaming(false);
-
-    // Try to stop backend agent run for debug mode
-    try {
-      await conversationService.stop(-1); // Use -1 for debug mode
-    } catch (error) {
-      console.error(t('agent.debug.stopError'), error);
-      // This is expected if no agent is running for debug mode
-    }
+  const debugRuns = useAgentDebugRuns()
+  const [mode, setMode] = useState<DebugMode>("single")
 
-    // Manually update messages, clear thinking state
-    setMessages(prev => {
-      const newMessages = [...prev];
-      const lastMsg = newMessages[newMessages.length - 1];
-      if (lastMsg && lastMsg.role === "assistant") {
-        lastMsg.isComplete = true;
-        lastMsg.thinking = undefined; // Explicitly clear thinking state
-        lastMsg.content = t('agent.debug.stopped');
-      }
-      return newMessages;
-    });
-  };
-
-  // Process test question
-  const handleTestQuestion = async (question: string) => {
-    setIsStreaming(true);
-    
-    // Create new AbortController for this request
-    abortControllerRef.current = new AbortController();
-    
-    // Add user message
-    const userMessage: ChatMessageType = {
-      id: Date.now().toString(),
-      role: "user",
-      content: question,
-      timestamp: new Date()
-    };
-    
-    // Add assistant message (initial state)
-    const assistantMessage: ChatMessageType = {
-      id: (Date.now() + 1).toString(),
-      role: "assistant",
-      content: "",
-      timestamp: new Date(),
-      isComplete: false
-    };
-    
-    setMessages([userMessage, assistantMessage]);
-    
-    try {
-      // Ensure agent_id is a number
-      let agentIdValue = undefined;
-      if (agentId !== undefined && agentId !== null) {
-        agentIdValue = Number(agentId);
-        if (isNaN(agentIdValue)) {
-          agentIdValue = undefined;
-        }
-      }
-      
-      // Call agent_run with AbortSignal
-      const reader = await conversationService.runAgent({
-        query: question,
-        conversation_id: -1, // Debug mode uses -1 as conversation ID
-        is_set: true,
-        history: [],
-        is_debug: true,  // Add debug mode flag
-        agent_id: agentIdValue  // Use the properly parsed agent_id
-      }, abortControllerRef.current.signal); // Pass AbortSignal
-
-      if (!reader) throw new Error(t('agent.debug.nullResponse'));
+  const handleModeChange = (value: DebugMode) => {
+    setMode(value)
+    onWideModeChange?.(value !== "single")
+  }
 
-      // Process stream response
-      await handleStreamResponse(
-        reader,
-        setMessages,
-        resetTimeout,
-        stepIdCounter,
-        () => {}, // setIsSwitchedConversation - Debug mode does not need
-        false, // isNewConversation - Debug mode does not need
-        () => {}, // setConversationTitle - Debug mode does not need
-        async () => {}, // fetchConversationList - Debug mode does not need
-        -1, // currentConversationId - Debug mode uses -1
-        conversationService,
-        true, // isDebug: true for debug mode
-        t
-      );
-    } catch (error) {
-      // If user actively canceled, don't show error message
-      const err = error as Error;
-      if (err.name === 'AbortError') {
-        setMessages(prev => {
-          const newMessages = [...prev];
-          const lastMsg = newMessages[newMessages.length - 1];
-          if (lastMsg && lastMsg.role === "assistant") {
-            lastMsg.content = t('agent.debug.stopped');
-            lastMsg.isComplete = true;
-            lastMsg.thinking = undefined; // Explicitly clear thinking state
-          }
-          return newMessages;
-        });
-      } else {
-        console.error(t('agent.debug.streamError'), error);
-        const errorMessage = error instanceof Error ? error.message : t('agent.debug.processError');
-        
-        setMessages(prev => {
-          const newMessages = [...prev];
-          const lastMsg = newMessages[newMessages.length - 1];
-          if (lastMsg && lastMsg.role === "assistant") {
-            lastMsg.content = errorMessage;
-            lastMsg.isComplete = true;
-            lastMsg.error = errorMessage;
-          }
-          return newMessages;
-        });
-      }
-    } finally {
-      setIsStreaming(false);
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-        timeoutRef.current = null;
-      }
-      if (abortControllerRef.current) {
-        abortControllerRef.current = null;
-      }
-    }
-  };
+  const singleRun = debugRuns.runs[SINGLE_RUN_KEY]
 
   return (
-    <div className="w-full h-full bg-white">
-      <AgentDebugging 
-        onAskQuestion={handleTestQuestion}
-        onStop={handleStop}
-        isStreaming={isStreaming}
-        messages={messages}
-      />
+    <div className="w-full h-full bg-white flex flex-col">
+      <div className="px-4 pt-4">
+        <Segmented
+          value={mode}
+          onChange={(value) => handleModeChange(value as DebugMode)}
+          disabled={debugRuns.isAnyStreaming}
+          options={[
+            { label: t('agent.debug.mode.single'), value: "single" },
+            { label: t('agent.debug.mode.compare'), value: "compare" },
+            { label: t('agent.debug.mode.evaluate'), value: "evaluate" },
+          ]}
+        />
+      </div>
+      <div className="flex-1 min-h-0">
+        {mode === "single" ? (
+          <AgentDebugging
+            onAskQuestion={(question) => debugRuns.startRun(SINGLE_RUN_KEY, question, agentId)}
+            onStop={debugRuns.stopAll}
+            isStreaming={!!singleRun?.isStreaming}
+            messages={singleRun?.messages || []}
+          />
+        ) : mode === "compare" ? (
+          <AgentComparison agentId={agentId} debugRuns={debugRuns} />
+        ) : (
+          <AgentEvaluation agentId={agentId} debugRuns={debugRuns} />
+        )}
+      </div>
     </div>
   )
-} 
\ No newline at end of file
+}
@@ -0,0 +1,358 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { App, Checkbox, Input, Modal, Select, Spin, Tag } from 'antd'
+import { useTranslation } from 'react-i18next'
+import { checkAgentDisplayName, checkAgentName, fetchAllAgents } from '@/services/agentConfigService'
+import { checkMcpServerHealth, getMcpServerList } from '@/services/mcpService'
+import knowledgeBaseService from '@/services/knowledgeBaseService'
+import { useConfig } from '@/hooks/useConfig'
+import {
+  AGENT_MODEL_SLOTS,
+  AgentBundle,
+  AgentBundleAgentAction,
+  AgentBundleImportPlan,
+  AgentModelSlot,
+  collectImportedAgents,
+  importAgentBundle,
+  usesKnowledgeBase
+} from '../utils/agentBundle'
+
+interface AgentBundleImportWizardProps {
+  bundle: AgentBundle | null
+  onClose: () => void
+  onImported: () => void
+}
+
+interface ExistingAgent {
+  agent_id: number
+  name: string
+  display_name: string
+}
+
+interface NameConflicts {
+  name: boolean
+  displayName: boolean
+}
+
+interface McpServerState {
+  // Url of the server of the same name in the tenant
+  existingUrl?: string
+  reachable: boolean
+}
+
+const AGENT_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+
+const isValidAgentName = (name: string) => name.length <= 30 && AGENT_NAME_PATTERN.test(name)
+
+/**
+ * Preview of what a bundle brings in and conflicts with, where each dependency is imported, mapped or skipped
+ */
+export default function AgentBundleImportWizard({ bundle, onClose, onImported }: AgentBundleImportWizardProps) {
+  const { t } = useTranslation('common')
+  const { message } = App.useApp()
+  const { modelConfig } = useConfig()
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [existingAgents, setExistingAgents] = useState<ExistingAgent[]>([])
+  const [conflicts, setConflicts] = useState<Record<number, NameConflicts>>({})
+  const [mcpServers, setMcpServers] = useState<Record<string, McpServerState>>({})
+  const [existingKnowledgeBases, setExistingKnowledgeBases] = useState<string[]>([])
+  const [plan, setPlan] = useState<AgentBundleImportPlan | null>(null)
+
+  const configuredSlots: Record<AgentModelSlot, string> = {
+    main_model: modelConfig.llm.modelName ? modelConfig.llm.displayName || modelConfig.llm.modelName : '',
+    sub_model: modelConfig.llmSecondary.modelName ? modelConfig.llmSecondary.displayName || modelConfig.llmSecondary.modelName : '',
+  }
+
+  const checkConflicts = async (name: string, displayName: string): Promise<NameConflicts> => {
+    const [nameResult, displayNameResult] = await Promise.all([
+      checkAgentName(name),
+      displayName ? checkAgentDisplayName(displayName) : Promise.resolve({ status: 'available' }),
+    ])
+    return {
+      name: nameResult.status === 'exists_in_tenant',
+      displayName: displayNameResult.status === 'exists_in_tenant',
+    }
+  }
+
+  const analyze = async (bundle: AgentBundle) => {
+    setIsAnalyzing(true)
+    const agents = Object.values(bundle.agents)
+    const [agentsResult, mcpResult, knowledgeBases, agentConflicts, health] = await Promise.all([
+      fetchAllAgents(),
+      getMcpServerList(),
+      knowledgeBaseService.getKnowledgeBases(true).catch(() => [] as string[]),
+      Promise.all(agents.map(agent => checkConflicts(agent.name, agent.display_name || ''))),
+      Promise.all(bundle.manifest.mcp_servers.map(server =>
+        checkMcpServerHealth(server.mcp_url, server.mcp_server_name)
+      )),
+    ])
+
+    const tenantAgents: ExistingAgent[] = agentsResult.data
+    const nextConflicts: Record<number, NameConflicts> = {}
+    const agentActions: Record<number, AgentBundleAgentAction> = {}
+    agents.forEach((agent, index) => {
+      nextConflicts[agent.agent_id] = agentConflicts[index]
+      const existing = tenantAgents.find(item => item.name === agent.name)
+      // A sub-agent that already exists is reused by default, the agent being imported is always imported
+      agentActions[agent.agent_id] = existing && agent.agent_id !== bundle.manifest.root_agent_id
+        ? { type: 'existing', agent_id: existing.agent_id }
+        : { type: 'import', name: agent.name, display_name: agent.display_name || agent.name }
+    })
+
+    const nextMcpServers: Record<string, McpServerState> = {}
+    const mcpActions: AgentBundleImportPlan['mcpServers'] = {}
+    bundle.manifest.mcp_servers.forEach((server, index) => {
+      const existing = (mcpResult.data as { service_name: string; mcp_url: string }[])
+        .find(item => item.service_name === server.mcp_server_name)
+      const reachable = health[index].success
+      nextMcpServers[server.mcp_server_name] = { existingUrl: existing?.mcp_url, reachable }
+      mcpActions[server.mcp_server_name] = existing ? 'existing' : reachable ? 'add' : 'skip'
+    })
+
+    const models = {} as Record<AgentModelSlot, AgentModelSlot>
+    AGENT_MODEL_SLOTS.forEach(slot => {
+      models[slot] = configuredSlots[slot] ? slot : AGENT_MODEL_SLOTS.find(other => configuredSlots[other]) || slot
+    })
+
+    setExistingAgents(tenantAgents)
+    setConflicts(nextConflicts)
+    setMcpServers(nextMcpServers)
+    setExistingKnowledgeBases(knowledgeBases)
+    setPlan({
+      agents: agentActions,
+      mcpServers: mcpActions,
+      models,
+      knowledgeBases: bundle.manifest.knowledge_bases.filter(name => knowledgeBases.includes(name)),
+    })
+    setIsAnalyzing(false)
+  }
+
+  useEffect(() => {
+    setPlan(null)
+    if (bundle) {
+      analyze(bundle)
+    }
+  }, [bundle])
+
+  if (!bundle) return null
+
+  const setAgentAction = (agentId: number, action: AgentBundleAgentAction) => {
+    setPlan(prev => prev && { ...prev, agents: { ...prev.agents, [agentId]: action } })
+  }
+
+  // Names are checked again when an edited name loses focus
+  const recheckAgent = async (agentId: number) => {
+    const action = plan?.agents[agentId]
+    if (action?.type !== 'import') return
+    const result = await checkConflicts(action.name, action.display_name)
+    setConflicts(prev => ({ ...prev, [agentId]: result }))
+  }
+
+  const importedAgents = plan ? collectImportedAgents(bundle, plan) : []
+  const usedSlots = AGENT_MODEL_SLOTS.filter(slot => importedAgents.some(agent => agent.model_name === slot))
+  const needsKnowledgeBases = importedAgents.some(usesKnowledgeBase) && bundle.manifest.knowledge_bases.length > 0
+
+  const agentError = (agentId: number): string | null => {
+    const action = plan?.agents[agentId]
+    if (action?.type !== 'import') return null
+    if (!isValidAgentName(action.name)) return t('agentBundle.agent.invalidName')
+    if (conflicts[agentId]?.name) return t('agentBundle.agent.nameExists')
+    if (conflicts[agentId]?.displayName) return t('agentBundle.agent.displayNameExists')
+    return null
+  }
+
+  const canImport = !!plan
+    && importedAgents.every(agent => !agentError(agent.agent_id))
+    && usedSlots.every(slot => !!configuredSlots[plan.models[slot]])
+
+  const handleImport = async () => {
+    if (!plan) return
+    setIsImporting(true)
+    try {
+      await importAgentBundle(bundle, plan)
+      message.success(t('businessLogic.config.error.agentImportSuccess'))
+      onImported()
+      onClose()
+    } catch (error) {
+      console.error(t('debug.console.importAgentFailed'), error)
+      message.error(`${t('businessLogic.config.error.agentImportFailed')} ${(error as Error).message}`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const rootAgent = bundle.agents[bundle.manifest.root_agent_id]
+  const sectionTitle = (key: string) => (
+    <div className="mb-2 mt-4 text-sm font-medium text-gray-700">{t(`agentBundle.section.${key}`)}</div>
+  )
+
+  return (
+    <Modal
+      open
+      title={t('agentBundle.import.title', { name: rootAgent.display_name || rootAgent.name })}
+      width={780}
+      onCancel={onClose}
+      onOk={handleImport}
+      okText={t('agentBundle.import.confirm')}
+      okButtonProps={{ disabled: !canImport, loading: isImporting }}
+      destroyOnClose
+    >
+      <div className="text-xs text-gray-500">
+        {t('agentBundle.import.summary', {
+          version: bundle.manifest.version,
+          time: new Date(bundle.manifest.exported_at).toLocaleString(),
+          count: Object.keys(bundle.agents).length,
+        })}
+      </div>
+
+      {isAnalyzing || !plan ? (
+        <div className="flex justify-center py-8"><Spin /></div>
+      ) : (
+        <div className="max-h-[60vh] overflow-y-auto pr-1">
+          {sectionTitle('agents')}
+          {Object.values(bundle.agents).map(agent => {
+            const action = plan.agents[agent.agent_id]
+            const isRoot = agent.agent_id === bundle.manifest.root_agent_id
+            const isReached = importedAgents.some(item => item.agent_id === agent.agent_id)
+            const error = agentError(agent.agent_id)
+            return (
+              <div key={agent.agent_id} className={`mb-2 rounded border border-gray-200 p-2 ${action.type === 'import' && !isReached ? 'opacity-50' : ''}`}>
+                <div className="flex items-center gap-2">
+                  <span className="min-w-0 flex-1 truncate text-sm">
+                    {agent.display_name || agent.name}
+                    <span className="ml-1 text-xs text-gray-400">{agent.name}</span>
+                  </span>
+                  {isRoot && <Tag color="blue" className="m-0">{t('agentBundle.agent.root')}</Tag>}
+                  <Select
+                    size="small"
+                    style={{ width: 220 }}
+                    value={action.type === 'existing' ? `existing:${action.agent_id}` : action.type}
+                    onChange={(value: string) => {
+                      if (value === 'import') {
+                        setAgentAction(agent.agent_id, { type: 'import', name: agent.name, display_name: agent.display_name || agent.name })
+                      } else if (value === 'skip') {
+                        setAgentAction(agent.agent_id, { type: 'skip' })
+                      } else {
+                        setAgentAction(agent.agent_id, { type: 'existing', agent_id: Number(value.split(':')[1]) })
+                      }
+                    }}
+                    options={[
+                      { label: t('agentBundle.action.import'), value: 'import' },
+                      ...(isRoot ? [] : [
+                        { label: t('agentBundle.action.skip'), value: 'skip' },
+                        ...existingAgents.map(existing => ({
+                          label: t('agentBundle.action.useAgent', { name: existing.display_name || existing.name }),
+                          value: `existing:${existing.agent_id}`,
+                        })),
+                      ]),
+                    ]}
+                  />
+                </div>
+                {action.type === 'import' && (
+                  <div className="mt-2 flex gap-2">
+                    <Input
+                      size="small"
+                      value={action.name}
+                      status={!isValidAgentName(action.name) || conflicts[agent.agent_id]?.name ? 'error' : undefined}
+                      onChange={(e) => setAgentAction(agent.agent_id, { ...action, name: e.target.value })}
+                      onBlur={() => recheckAgent(agent.agent_id)}
+                      addonBefore={t('agentBundle.agent.name')}
+                    />
+                    <Input
+                      size="small"
+                      value={action.display_name}
+                      status={conflicts[agent.agent_id]?.displayName ? 'error' : undefined}
+                      onChange={(e) => setAgentAction(agent.agent_id, { ...action, display_name: e.target.value })}
+                      onBlur={() => recheckAgent(agent.agent_id)}
+                      addonBefore={t('agentBundle.agent.displayName')}
+                    />
+                  </div>
+                )}
+                {isReached && error && <div className="mt-1 text-xs text-red-500">{error}</div>}
+              </div>
+            )
+          })}
+
+          {usedSlots.length > 0 && sectionTitle('models')}
+          {usedSlots.map(slot => (
+            <div key={slot} className="mb-2 flex items-center gap-2 text-sm">
+              <span className="flex-1">
+                {t(`agentBundle.model.${slot}`)}
+                <span className="ml-1 text-xs text-gray-400">
+                  {t('agentBundle.model.exported', { name: bundle.manifest.models[slot] || t('agentBundle.none') })}
+                </span>
+              </span>
+              <Select
+                size="small"
+                style={{ width: 260 }}
+                value={plan.models[slot]}
+                status={configuredSlots[plan.models[slot]] ? undefined : 'error'}
+                onChange={(target: AgentModelSlot) => setPlan({ ...plan, models: { ...plan.models, [slot]: target } })}
+                options={AGENT_MODEL_SLOTS.map(target => ({
+                  label: `${t(`agentBundle.model.${target}`)}: ${configuredSlots[target] || t('agentBundle.model.missing')}`,
+                  value: target,
+                  disabled: !configuredSlots[target],
+                }))}
+              />
+            </div>
+          ))}
+
+          {bundle.manifest.mcp_servers.length > 0 && sectionTitle('mcpServers')}
+          {bundle.manifest.mcp_servers.map(server => {
+            const state = mcpServers[server.mcp_server_name]
+            return (
+              <div key={server.mcp_server_name} className="mb-2 flex items-center gap-2 text-sm">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">
+                    {server.mcp_server_name}
+                    {state.reachable
+                      ? <Tag color="green" className="ml-2">{t('agentBundle.mcp.reachable')}</Tag>
+                      : <Tag color="red" className="ml-2">{t('agentBundle.mcp.unreachable')}</Tag>}
+                  </div>
+                  <div className="truncate text-xs text-gray-400">{server.mcp_url}</div>
+                  {state.existingUrl !== undefined && state.existingUrl !== server.mcp_url && (
+                    <div className="truncate text-xs text-orange-500">
+                      {t('agentBundle.mcp.differentUrl', { url: state.existingUrl })}
+                    </div>
+                  )}
+                </div>
+                <Select
+                  size="small"
+                  style={{ width: 200 }}
+                  value={plan.mcpServers[server.mcp_server_name]}
+                  onChange={(value) => setPlan({ ...plan, mcpServers: { ...plan.mcpServers, [server.mcp_server_name]: value } })}
+                  options={[
+                    { label: t('agentBundle.action.addServer'), value: 'add', disabled: !state.reachable },
+                    { label: t('agentBundle.action.useServer'), value: 'existing', disabled: state.existingUrl === undefined },
+                    { label: t('agentBundle.action.skipServer'), value: 'skip' },
+                  ]}
+                />
+              </div>
+            )
+          })}
+
+          {needsKnowledgeBases && sectionTitle('knowledgeBases')}
+          {needsKnowledgeBases && (
+            <Checkbox.Group
+              className="flex flex-col gap-1"
+              value={plan.knowledgeBases}
+              onChange={(values) => setPlan({ ...plan, knowledgeBases: values as string[] })}
+            >
+              {bundle.manifest.knowledge_bases.map(name => {
+                const exists = existingKnowledgeBases.includes(name)
+                return (
+                  <Checkbox key={name} value={name} disabled={!exists}>
+                    {name}
+                    {!exists && <span className="ml-2 text-xs text-red-500">{t('agentBundle.knowledgeBase.missing')}</span>}
+                  </Checkbox>
+                )
+              })}
+            </Checkbox.Group>
+          )}
+        </div>
+      )}
+    </Modal>
+  )
+}
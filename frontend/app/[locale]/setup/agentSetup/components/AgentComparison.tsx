@@ -0,0 +1,274 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { Button, Input, Select } from 'antd'
+import { PlusOutlined, CloseOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { fetchAgentVersions, fetchAllAgents } from '@/services/agentConfigService'
+import { ChatMessageType } from '@/types/chat'
+import { ChatStreamFinalMessage } from '@/app/chat/streaming/chatStreamFinalMessage'
+import { TaskWindow } from '@/app/chat/streaming/taskWindow'
+import { aggregateRuns, TelemetryTotals } from '@/app/chat/streaming/runTelemetry'
+import { AgentDebugRuns } from '@/hooks/useAgentDebugRuns'
+import { useModelPrices } from '@/hooks/useModelPrices'
+import { diffWords } from '@/lib/textDiff'
+import { toTaskMessages } from '../utils/agentUtils'
+import { AgentVersion } from '../ConstInterface'
+
+const MIN_LANES = 2
+const MAX_LANES = 4
+
+interface ComparisonLane {
+  key: string
+  agentId?: number
+  // Saved version to run, the current configuration when missing
+  versionNo?: number
+}
+
+interface AgentComparisonProps {
+  // Agent being edited, preselected in the first lane
+  agentId?: number
+  debugRuns: AgentDebugRuns
+}
+
+interface LaneResult {
+  lane: ComparisonLane
+  answer?: ChatMessageType
+  stepCount: number
+  totals: TelemetryTotals
+}
+
+const formatDelta = (value: number, baseline: number) => {
+  const delta = value - baseline
+  return delta === 0 ? "" : ` (${delta > 0 ? "+" : ""}${Number.isInteger(delta) ? delta : delta.toFixed(2)})`
+}
+
+/**
+ * Runs the same question against several agents at once and shows their traces and answers side by side
+ */
+export default function AgentComparison({ agentId, debugRuns }: AgentComparisonProps) {
+  const { t } = useTranslation('common')
+  const models = useModelPrices()
+  const laneCounter = useRef(MIN_LANES)
+  const [agents, setAgents] = useState<{ agent_id: number; display_name: string }[]>([])
+  const [lanes, setLanes] = useState<ComparisonLane[]>([
+    { key: "lane-0", agentId },
+    { key: "lane-1" },
+  ])
+  const [question, setQuestion] = useState("")
+  const [versionsByAgent, setVersionsByAgent] = useState<Record<number, AgentVersion[]>>({})
+
+  useEffect(() => {
+    fetchAllAgents().then(result => {
+      if (result.success) setAgents(result.data)
+    })
+  }, [])
+
+  // Versions of every chosen agent, so lanes can compare versions of the same agent
+  useEffect(() => {
+    lanes.forEach(lane => {
+      const laneAgentId = lane.agentId
+      if (laneAgentId === undefined || versionsByAgent[laneAgentId]) return
+      fetchAgentVersions(laneAgentId).then(result => {
+        if (result.success) setVersionsByAgent(prev => ({ ...prev, [laneAgentId]: result.data }))
+      })
+    })
+  }, [lanes])
+
+  const { runs, isAnyStreaming, startRun, stopAll } = debugRuns
+
+  const updateLane = (key: string, laneAgentId: number) => {
+    setLanes(prev => prev.map(lane => lane.key === key ? { ...lane, agentId: laneAgentId, versionNo: undefined } : lane))
+  }
+
+  const updateLaneVersion = (key: string, versionNo?: number) => {
+    setLanes(prev => prev.map(lane => lane.key === key ? { ...lane, versionNo } : lane))
+  }
+
+  const addLane = () => {
+    setLanes(prev => [...prev, { key: `lane-${laneCounter.current++}` }])
+  }
+
+  const removeLane = (key: string) => {
+    setLanes(prev => prev.filter(lane => lane.key !== key))
+  }
+
+  const canRun = !!question.trim() && lanes.every(lane => lane.agentId !== undefined)
+
+  const handleRun = () => {
+    if (!canRun) return
+    lanes.forEach(lane => startRun(lane.key, question.trim(), lane.agentId, lane.versionNo))
+  }
+
+  const agentName = (laneAgentId?: number) =>
+    agents.find(agent => agent.agent_id === laneAgentId)?.display_name ?? (laneAgentId !== undefined ? `#${laneAgentId}` : "")
+
+  const laneName = (lane: ComparisonLane) =>
+    lane.versionNo !== undefined ? `${agentName(lane.agentId)} v${lane.versionNo}` : agentName(lane.agentId)
+
+  const results: LaneResult[] = lanes.map(lane => {
+    const answer = runs[lane.key]?.messages.find(message => message.role === "assistant")
+    const steps = answer?.steps || []
+    return {
+      lane,
+      answer,
+      stepCount: steps.length,
+      totals: aggregateRuns(answer ? [{ messageId: answer.id, steps }] : [], models),
+    }
+  })
+  const baseline = results[0]
+  const isComplete = results.every(result => result.answer?.isComplete)
+
+  return (
+    <div className="flex flex-col h-full p-4 gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {lanes.map((lane, index) => (
+          <div key={lane.key} className="flex items-center gap-1">
+            <span className="text-xs text-gray-400">{index + 1}.</span>
+            <Select
+              value={lane.agentId}
+              onChange={(value) => updateLane(lane.key, value)}
+              placeholder={t('agent.debug.compare.selectAgent')}
+              style={{ width: 180 }}
+              disabled={isAnyStreaming}
+              showSearch
+              optionFilterProp="label"
+              options={agents.map(agent => ({ label: agent.display_name, value: agent.agent_id }))}
+            />
+            {lane.agentId !== undefined && (
+              <Select
+                value={lane.versionNo ?? null}
+                onChange={(value) => updateLaneVersion(lane.key, value ?? undefined)}
+                style={{ width: 110 }}
+                disabled={isAnyStreaming}
+                options={[
+                  { label: t('agentVersion.pin.latest'), value: null },
+                  ...(versionsByAgent[lane.agentId] || []).map(version => ({ label: `v${version.version_no}`, value: version.version_no })),
+                ]}
+              />
+            )}
+            {lanes.length > MIN_LANES && (
+              <Button type="text" size="small" icon={<CloseOutlined />} onClick={() => removeLane(lane.key)} disabled={isAnyStreaming} />
+            )}
+          </div>
+        ))}
+        {lanes.length < MAX_LANES && (
+          <Button size="small" icon={<PlusOutlined />} onClick={addLane} disabled={isAnyStreaming}>
+            {t('agent.debug.compare.addAgent')}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={t('agent.debug.placeholder')}
+          onPressEnter={handleRun}
+          disabled={isAnyStreaming}
+        />
+        {isAnyStreaming ? (
+          <Button danger type="primary" onClick={stopAll}>{t('agent.debug.stop')}</Button>
+        ) : (
+          <Button type="primary" onClick={handleRun} disabled={!canRun}>{t('agent.debug.compare.run')}</Button>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar">
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${lanes.length}, minmax(0, 1fr))` }}>
+          {results.map(({ lane, answer, stepCount, totals }, index) => (
+            <div key={lane.key} className="flex flex-col gap-2 min-w-0">
+              <div className="rounded-md border border-gray-200 px-2 py-1 text-xs">
+                <div className="font-medium text-gray-700 truncate">{index + 1}. {laneName(lane)}</div>
+                {answer && (
+                  <div className="text-gray-500">
+                    {t('agent.debug.compare.stats', {
+                      steps: stepCount,
+                      tokens: (totals.inputTokens + totals.outputTokens).toLocaleString(),
+                      duration: totals.duration.toFixed(2),
+                    })}
+                  </div>
+                )}
+              </div>
+              {answer && toTaskMessages(answer).length > 0 && (
+                <TaskWindow
+                  messages={toTaskMessages(answer)}
+                  isStreaming={!!runs[lane.key]?.isStreaming}
+                  runs={[{ messageId: answer.id, steps: answer.steps || [] }]}
+                  trace={answer.trace}
+                />
+              )}
+              {answer && (
+                <ChatStreamFinalMessage
+                  message={answer}
+                  onSelectMessage={() => {}}
+                  isSelected={false}
+                  searchResultsCount={answer.searchResults?.length || 0}
+                  imagesCount={answer.images?.length || 0}
+                  onImageClick={() => {}}
+                  onOpinionChange={() => {}}
+                  hideButtons={true}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isComplete && results.length >= MIN_LANES && (
+          <div className="mt-4 rounded-md border border-gray-200 p-3">
+            <div className="mb-2 text-sm font-medium text-gray-700">{t('agent.debug.compare.diffTitle')}</div>
+            <table className="mb-3 w-full text-left text-xs">
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="py-1 font-normal">{t('agent.debug.compare.agent')}</th>
+                  <th className="py-1 font-normal text-right">{t('agent.debug.compare.steps')}</th>
+                  <th className="py-1 font-normal text-right">{t('agent.debug.compare.inputTokens')}</th>
+                  <th className="py-1 font-normal text-right">{t('agent.debug.compare.outputTokens')}</th>
+                  <th className="py-1 font-normal text-right">{t('agent.debug.compare.duration')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(({ lane, stepCount, totals }, index) => (
+                  <tr key={lane.key} className="border-t border-gray-100">
+                    <td className="py-1">{index + 1}. {laneName(lane)}</td>
+                    <td className="py-1 text-right">{stepCount}{index > 0 && formatDelta(stepCount, baseline.stepCount)}</td>
+                    <td className="py-1 text-right">
+                      {totals.inputTokens}{index > 0 && formatDelta(totals.inputTokens, baseline.totals.inputTokens)}
+                    </td>
+                    <td className="py-1 text-right">
+                      {totals.outputTokens}{index > 0 && formatDelta(totals.outputTokens, baseline.totals.outputTokens)}
+                    </td>
+                    <td className="py-1 text-right">
+                      {totals.duration.toFixed(2)}s{index > 0 && formatDelta(totals.duration, baseline.totals.duration)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {results.slice(1).map(({ lane, answer }, index) => (
+              <div key={lane.key} className="mb-3">
+                <div className="mb-1 text-xs text-gray-500">
+                  {t('agent.debug.compare.answerDiff', { baseline: laneName(baseline.lane), other: `${index + 2}. ${laneName(lane)}` })}
+                </div>
+                <div className="whitespace-pre-wrap break-words rounded bg-gray-50 p-2 text-sm">
+                  {diffWords(baseline.answer?.finalAnswer || "", answer?.finalAnswer || "").map((part, partIndex) => (
+                    <span
+                      key={partIndex}
+                      className={
+                        part.type === "insert" ? "bg-green-100 text-green-800" :
+                        part.type === "delete" ? "bg-red-100 text-red-700 line-through" : ""
+                      }
+                    >
+                      {part.text}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
 import { Button, Modal, Spin } from 'antd'
-import { ExpandAltOutlined, SaveOutlined, LoadingOutlined, BugOutlined, UploadOutlined, DeleteOutlined } from '@ant-design/icons'
+import { ExpandAltOutlined, SaveOutlined, LoadingOutlined, BugOutlined, UploadOutlined, DeleteOutlined, HistoryOutlined, ScheduleOutlined } from '@ant-design/icons'
 import { useState, useEffect, useCallback } from 'react'
 import { useTranslation } from 'react-i18next'
 import { OpenAIModel } from '../ConstInterface'
@@ -36,6 +36,8 @@ export interface AgentConfigurationSectionProps {
   onExportAgent?: () => void;
   onDeleteAgent?: () => void;
   onDeleteSuccess?: () => void; // New prop for handling delete success
+  onShowHistory?: () => void;
+  onShowSchedules?: () => void;
   onSaveAgent?: () => void;
   isCreatingNewAgent?: boolean;
   editingAgent?: any;
@@ -69,6 +71,8 @@ export default function AgentConfigurationSection({
   onExportAgent,
   onDeleteAgent,
   onDeleteSuccess,
+  onShowHistory,
+  onShowSchedules,
   onSaveAgent,
   isCreatingNewAgent = false,
   editingAgent,
@@ -812,6 +816,30 @@ export default function AgentConfigurationSection({
                 >
                   {t('agent.contextMenu.export')}
                 </Button>
+
+                {onShowHistory && (
+                  <Button
+                    size="middle"
+                    icon={<HistoryOutlined />}
+                    onClick={onShowHistory}
+                    className="responsive-button"
+                    title={t('agentVersion.history')}
+                  >
+                    {t('agentVersion.history')}
+                  </Button>
+                )}
+
+                {onShowSchedules && (
+                  <Button
+                    size="middle"
+                    icon={<ScheduleOutlined />}
+                    onClick={onShowSchedules}
+                    className="responsive-button"
+                    title={t('agentSchedule.button')}
+                  >
+                    {t('agentSchedule.button')}
+                  </Button>
+                )}
                 
                 <Button
                   type="primary"
@@ -0,0 +1,413 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { App, Button, Empty, Input, Popconfirm, Progress, Segmented, Select, Table, Tag } from 'antd'
+import { DeleteOutlined, PlusOutlined, SaveOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { evaluationService } from '@/services/evaluationService'
+import { fetchAgentVersions, searchAgentInfo } from '@/services/agentConfigService'
+import { useConfig } from '@/hooks/useConfig'
+import { AgentDebugRuns } from '@/hooks/useAgentDebugRuns'
+import { EvaluationCase, EvaluationCaseResult, EvaluationReport, EvaluationSuite } from '@/types/evaluation'
+import { AgentVersion } from '../ConstInterface'
+import {
+  CaseComparison,
+  compareCase,
+  EvaluationJudge,
+  extractRunOutput,
+  findBaselineReport,
+  scoreCase
+} from '../utils/evaluationScoring'
+import EvaluationSuiteEditor, { createEvaluationCase } from './EvaluationSuiteEditor'
+
+interface AgentEvaluationProps {
+  agentId?: number
+  debugRuns: AgentDebugRuns
+}
+
+interface SuiteDraft {
+  suite_id?: number
+  name: string
+  cases: EvaluationCase[]
+}
+
+const comparisonColors: Record<CaseComparison, string> = {
+  regressed: "red",
+  fixed: "green",
+  passing: "default",
+  failing: "default",
+  new: "blue",
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleString()
+
+/**
+ * Runs the golden questions of a suite against an agent version and reports what passed and what regressed
+ */
+export default function AgentEvaluation({ agentId, debugRuns }: AgentEvaluationProps) {
+  const { t } = useTranslation('common')
+  const { message } = App.useApp()
+  const { modelConfig } = useConfig()
+  const [suites, setSuites] = useState<EvaluationSuite[]>([])
+  const [draft, setDraft] = useState<SuiteDraft | null>(null)
+  const [isDirty, setIsDirty] = useState(false)
+  const [toolNames, setToolNames] = useState<string[]>([])
+  const [versions, setVersions] = useState<AgentVersion[]>([])
+  const [versionNo, setVersionNo] = useState<number | undefined>(undefined)
+  const [reports, setReports] = useState<EvaluationReport[]>([])
+  const [selectedReportId, setSelectedReportId] = useState<number | null>(null)
+  const [view, setView] = useState<"cases" | "report">("cases")
+  const [liveResults, setLiveResults] = useState<EvaluationCaseResult[] | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const cancelledRef = useRef(false)
+
+  const judgeModel = modelConfig.llmSecondary.displayName
+
+  useEffect(() => {
+    if (agentId === undefined) return
+
+    evaluationService.listSuites(agentId)
+      .then(result => {
+        setSuites(result)
+        if (result.length > 0) selectSuite(result[0])
+      })
+      .catch(error => {
+        console.error(t('evaluation.loadFailed'), error)
+        message.error(t('evaluation.loadFailed'))
+      })
+    searchAgentInfo(agentId).then(result => {
+      if (result.success && result.data) setToolNames(result.data.tools.map((tool: { name: string }) => tool.name))
+    })
+    fetchAgentVersions(agentId).then(result => {
+      if (result.success) {
+        setVersions(result.data)
+        setVersionNo(result.data[0]?.version_no)
+      }
+    })
+  }, [agentId])
+
+  const loadReports = async (suiteId: number) => {
+    try {
+      const result = await evaluationService.listReports(suiteId)
+      setReports(result)
+      setSelectedReportId(result[0]?.report_id ?? null)
+    } catch (error) {
+      console.error(t('evaluation.loadFailed'), error)
+      message.error(t('evaluation.loadFailed'))
+    }
+  }
+
+  const selectSuite = (suite: EvaluationSuite) => {
+    setDraft({ suite_id: suite.suite_id, name: suite.name, cases: suite.cases })
+    setIsDirty(false)
+    setLiveResults(null)
+    setReports([])
+    setSelectedReportId(null)
+    loadReports(suite.suite_id)
+  }
+
+  const handleNewSuite = () => {
+    setDraft({ name: t('evaluation.newSuiteName'), cases: [createEvaluationCase()] })
+    setIsDirty(true)
+    setLiveResults(null)
+    setReports([])
+    setSelectedReportId(null)
+    setView("cases")
+  }
+
+  const updateDraft = (patch: Partial<SuiteDraft>) => {
+    setDraft(prev => prev ? { ...prev, ...patch } : prev)
+    setIsDirty(true)
+  }
+
+  const saveDraft = async (): Promise<EvaluationSuite | null> => {
+    if (!draft || agentId === undefined) return null
+    try {
+      const saved = await evaluationService.saveSuite({
+        suite_id: draft.suite_id,
+        agent_id: agentId,
+        name: draft.name.trim() || t('evaluation.newSuiteName'),
+        cases: draft.cases.filter(testCase => testCase.question.trim()),
+      })
+      setSuites(prev => prev.some(suite => suite.suite_id === saved.suite_id)
+        ? prev.map(suite => suite.suite_id === saved.suite_id ? saved : suite)
+        : [...prev, saved])
+      setDraft({ suite_id: saved.suite_id, name: saved.name, cases: saved.cases })
+      setIsDirty(false)
+      return saved
+    } catch (error) {
+      console.error(t('evaluation.saveFailed'), error)
+      message.error(t('evaluation.saveFailed'))
+      return null
+    }
+  }
+
+  const handleDeleteSuite = async () => {
+    if (draft?.suite_id === undefined) {
+      setDraft(null)
+      return
+    }
+    try {
+      await evaluationService.deleteSuite(draft.suite_id)
+      const remaining = suites.filter(suite => suite.suite_id !== draft.suite_id)
+      setSuites(remaining)
+      if (remaining.length > 0) {
+        selectSuite(remaining[0])
+      } else {
+        setDraft(null)
+        setReports([])
+      }
+    } catch (error) {
+      console.error(t('evaluation.deleteFailed'), error)
+      message.error(t('evaluation.deleteFailed'))
+    }
+  }
+
+  const judge: EvaluationJudge = async (testCase, answer) => {
+    if (!judgeModel) {
+      return { passed: false, reason: t('evaluation.judgeUnavailable') }
+    }
+    return evaluationService.judge({
+      question: testCase.question,
+      expected: testCase.expected,
+      answer,
+      model_display_name: judgeModel,
+    })
+  }
+
+  // Cases run one after the other, the debug runs of the backend share one conversation
+  const handleRun = async () => {
+    const suite = isDirty || draft?.suite_id === undefined ? await saveDraft() : suites.find(item => item.suite_id === draft.suite_id)
+    if (!suite || agentId === undefined || suite.cases.length === 0) return
+
+    // The current configuration is the latest version
+    const testedVersionNo = versionNo ?? versions[0]?.version_no ?? null
+    cancelledRef.current = false
+    setIsRunning(true)
+    setView("report")
+    const results: EvaluationCaseResult[] = []
+    setLiveResults(results)
+
+    for (const testCase of suite.cases) {
+      if (cancelledRef.current) break
+      const startedAt = Date.now()
+      const answer = await debugRuns.startRun(`evaluation-${testCase.id}`, testCase.question, agentId, versionNo)
+      if (cancelledRef.current) break
+      results.push(await scoreCase(testCase, extractRunOutput(answer, (Date.now() - startedAt) / 1000), judge))
+      setLiveResults([...results])
+    }
+
+    setIsRunning(false)
+    // A stopped run is not a complete picture of the version, it is not kept
+    if (cancelledRef.current) return
+
+    try {
+      const report = await evaluationService.saveReport({
+        suite_id: suite.suite_id,
+        agent_id: agentId,
+        version_no: testedVersionNo,
+        results,
+      })
+      setReports(prev => [report, ...prev])
+      setSelectedReportId(report.report_id)
+      setLiveResults(null)
+    } catch (error) {
+      console.error(t('evaluation.saveReportFailed'), error)
+      message.error(t('evaluation.saveReportFailed'))
+    }
+  }
+
+  const handleStop = () => {
+    cancelledRef.current = true
+    debugRuns.stopAll()
+  }
+
+  if (agentId === undefined) {
+    return <Empty className="mt-8" description={t('evaluation.noAgent')} />
+  }
+
+  const selectedReport = reports.find(report => report.report_id === selectedReportId)
+  // A run in progress is compared like the report it is about to become
+  const baseline = liveResults
+    ? findBaselineReport(reports, { create_time: Infinity, version_no: versionNo ?? versions[0]?.version_no ?? null })
+    : selectedReport && findBaselineReport(reports, selectedReport)
+  const results = liveResults ?? selectedReport?.results ?? []
+  const passedCount = results.filter(result => result.passed).length
+  const comparisons = results.map(result => compareCase(result, baseline))
+  const regressedCount = comparisons.filter(comparison => comparison === "regressed").length
+  const fixedCount = comparisons.filter(comparison => comparison === "fixed").length
+  const versionLabel = (report: EvaluationReport) => report.version_no !== null ? `v${report.version_no}` : ""
+
+  return (
+    <div className="flex flex-col h-full p-4 gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={draft?.suite_id}
+          onChange={(suiteId) => {
+            const suite = suites.find(item => item.suite_id === suiteId)
+            if (suite) selectSuite(suite)
+          }}
+          placeholder={t('evaluation.selectSuite')}
+          style={{ width: 200 }}
+          disabled={isRunning}
+          options={suites.map(suite => ({ label: suite.name, value: suite.suite_id }))}
+        />
+        <Button icon={<PlusOutlined />} onClick={handleNewSuite} disabled={isRunning}>
+          {t('evaluation.newSuite')}
+        </Button>
+        {draft && (
+          <Popconfirm title={t('evaluation.deleteConfirm', { name: draft.name })} onConfirm={handleDeleteSuite} disabled={isRunning}>
+            <Button icon={<DeleteOutlined />} disabled={isRunning} />
+          </Popconfirm>
+        )}
+        <div className="flex-1" />
+        <Select
+          value={versionNo ?? null}
+          onChange={(value) => setVersionNo(value ?? undefined)}
+          style={{ width: 140 }}
+          disabled={isRunning}
+          options={[
+            { label: t('agentVersion.pin.latest'), value: null },
+            ...versions.map(version => ({ label: `v${version.version_no}`, value: version.version_no })),
+          ]}
+        />
+        {isRunning ? (
+          <Button danger type="primary" onClick={handleStop}>{t('agent.debug.stop')}</Button>
+        ) : (
+          <Button type="primary" onClick={handleRun} disabled={!draft || draft.cases.every(testCase => !testCase.question.trim())}>
+            {t('evaluation.run')}
+          </Button>
+        )}
+      </div>
+
+      {!draft ? (
+        <Empty className="mt-8" description={t('evaluation.empty')} />
+      ) : (
+        <>
+          <Segmented
+            value={view}
+            onChange={(value) => setView(value as "cases" | "report")}
+            options={[
+              { label: t('evaluation.view.cases', { count: draft.cases.length }), value: "cases" },
+              { label: t('evaluation.view.report'), value: "report" },
+            ]}
+          />
+
+          <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar">
+            {view === "cases" ? (
+              <>
+                <div className="mb-3 flex gap-2">
+                  <Input
+                    value={draft.name}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                    placeholder={t('evaluation.suiteName')}
+                    disabled={isRunning}
+                  />
+                  <Button icon={<SaveOutlined />} onClick={saveDraft} disabled={!isDirty || isRunning}>
+                    {t('evaluation.save')}
+                  </Button>
+                </div>
+                <EvaluationSuiteEditor
+                  cases={draft.cases}
+                  onChange={(cases) => updateDraft({ cases })}
+                  toolNames={toolNames}
+                  isJudgeAvailable={!!judgeModel}
+                  disabled={isRunning}
+                />
+              </>
+            ) : results.length === 0 && !isRunning ? (
+              <Empty className="mt-8" description={t('evaluation.noReport')} />
+            ) : (
+              <>
+                <div className="mb-3 flex flex-wrap items-center gap-3 text-sm">
+                  {!liveResults && (
+                    <Select
+                      value={selectedReportId}
+                      onChange={setSelectedReportId}
+                      style={{ width: 240 }}
+                      options={reports.map(report => ({
+                        label: `${formatTime(report.create_time)} ${versionLabel(report)}`,
+                        value: report.report_id,
+                      }))}
+                    />
+                  )}
+                  {isRunning && draft.cases.length > 0 && (
+                    <Progress
+                      percent={Math.round((results.length / draft.cases.length) * 100)}
+                      size="small"
+                      style={{ width: 160 }}
+                    />
+                  )}
+                  <span className="font-medium">
+                    {t('evaluation.summary', { passed: passedCount, total: results.length })}
+                  </span>
+                  {baseline && (
+                    <span className="text-gray-500">
+                      {t('evaluation.baseline', { baseline: `${versionLabel(baseline)} ${formatTime(baseline.create_time)}`.trim() })}
+                      {' · '}
+                      <span className={regressedCount > 0 ? "text-red-500" : ""}>{t('evaluation.regressions', { count: regressedCount })}</span>
+                      {' · '}
+                      <span className={fixedCount > 0 ? "text-green-600" : ""}>{t('evaluation.fixes', { count: fixedCount })}</span>
+                    </span>
+                  )}
+                </div>
+
+                <Table
+                  size="small"
+                  rowKey="case_id"
+                  pagination={false}
+                  dataSource={results}
+                  columns={[
+                    {
+                      title: t('evaluation.column.question'),
+                      dataIndex: 'question',
+                      ellipsis: true,
+                    },
+                    {
+                      title: t('evaluation.column.result'),
+                      width: 90,
+                      render: (_, result) => (
+                        <Tag color={result.passed ? "green" : "red"}>
+                          {result.error ? t('evaluation.result.error') : result.passed ? t('evaluation.result.pass') : t('evaluation.result.fail')}
+                        </Tag>
+                      ),
+                    },
+                    {
+                      title: t('evaluation.column.change'),
+                      width: 100,
+                      render: (_, result, index) => baseline && (
+                        <Tag color={comparisonColors[comparisons[index]]}>{t(`evaluation.comparison.${comparisons[index]}`)}</Tag>
+                      ),
+                    },
+                    {
+                      title: t('evaluation.column.duration'),
+                      width: 80,
+                      align: 'right',
+                      render: (_, result) => `${result.duration.toFixed(1)}s`,
+                    },
+                  ]}
+                  expandable={{
+                    expandedRowRender: (result) => (
+                      <div className="text-xs">
+                        {result.error && <div className="mb-1 text-red-500">{result.error}</div>}
+                        {result.checks.map((check, index) => (
+                          <div key={index} className={check.passed ? "text-green-600" : "text-red-500"}>
+                            {check.passed ? "✓" : "✗"} {t(`evaluation.check.${check.kind}`, { target: check.target })}
+                            {check.detail && <span className="ml-2 text-gray-500">{check.detail}</span>}
+                          </div>
+                        ))}
+                        <pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap break-words rounded bg-gray-50 p-2">
+                          {result.answer}
+                        </pre>
+                      </div>
+                    ),
+                  }}
+                />
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
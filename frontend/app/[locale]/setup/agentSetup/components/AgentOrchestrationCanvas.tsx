@@ -0,0 +1,344 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { App, Button, Empty, Modal, Spin, Tag } from 'antd'
+import { CloseOutlined, EditOutlined, PartitionOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { Agent } from '../ConstInterface'
+import { addRelatedAgent, deleteRelatedAgent, searchAgentInfo } from '@/services/agentConfigService'
+import {
+  AgentGraphNode,
+  AgentGraphPosition,
+  GRAPH_NODE_HEIGHT,
+  GRAPH_NODE_WIDTH,
+  layoutAgentGraph,
+  wouldCreateCycle
+} from '../utils/agentGraph'
+
+interface AgentOrchestrationCanvasProps {
+  open: boolean
+  // Agents of the tenant as listed in the agent pool
+  agents: Agent[]
+  onClose: () => void
+  onEditAgent: (agent: Agent) => void
+  // Sub-agents of an agent after a link was added or removed on the canvas
+  onLinksChange: (parentId: number, childIds: number[]) => void
+  disabled?: boolean
+}
+
+type Interaction =
+  | { type: 'move'; id: number; offsetX: number; offsetY: number }
+  | { type: 'connect'; from: number; x: number; y: number }
+
+const MAX_LISTED_TOOLS = 3
+
+const edgePath = (from: AgentGraphPosition, to: AgentGraphPosition) => {
+  const x1 = from.x + GRAPH_NODE_WIDTH / 2
+  const y1 = from.y + GRAPH_NODE_HEIGHT
+  const x2 = to.x + GRAPH_NODE_WIDTH / 2
+  const y2 = to.y
+  const bend = Math.max(40, Math.abs(y2 - y1) / 2)
+  return `M ${x1} ${y1} C ${x1} ${y1 + bend}, ${x2} ${y2 - bend}, ${x2} ${y2}`
+}
+
+/**
+ * Delegation tree of all agents, where agents are linked by dragging from a parent's handle onto a sub-agent
+ */
+export default function AgentOrchestrationCanvas({
+  open,
+  agents,
+  onClose,
+  onEditAgent,
+  onLinksChange,
+  disabled = false
+}: AgentOrchestrationCanvasProps) {
+  const { t } = useTranslation('common')
+  const { message } = App.useApp()
+  const surfaceRef = useRef<HTMLDivElement>(null)
+  const [nodes, setNodes] = useState<AgentGraphNode[]>([])
+  const [positions, setPositions] = useState<Record<number, AgentGraphPosition>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [interaction, setInteraction] = useState<Interaction | null>(null)
+  const [hoveredEdge, setHoveredEdge] = useState<string | null>(null)
+
+  const loadGraph = async () => {
+    setIsLoading(true)
+    try {
+      // The agent list has no relationships, every agent is read once per opening
+      const details = await Promise.all(agents.map(agent => searchAgentInfo(Number(agent.id))))
+      const loaded: AgentGraphNode[] = agents.map((agent, index) => {
+        const detail = details[index].success ? details[index].data : null
+        return {
+          id: Number(agent.id),
+          name: agent.name,
+          display_name: agent.display_name || agent.name,
+          model: detail?.model || '',
+          tools: (detail?.tools || []).map((tool: any) => tool.name),
+          children: (detail?.sub_agent_id_list || []).map((id: any) => Number(id)),
+          is_available: agent.is_available !== false,
+          load_failed: !detail,
+        }
+      })
+      const failed = loaded.filter(node => node.load_failed)
+      if (failed.length > 0) {
+        message.error(t('agentGraph.loadFailed', { agents: failed.map(node => node.display_name).join(', ') }))
+      }
+      setNodes(loaded)
+      setPositions(layoutAgentGraph(loaded))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (open) {
+      loadGraph()
+    }
+  }, [open])
+
+  const nodeName = (id: number) => nodes.find(node => node.id === id)?.display_name || `#${id}`
+
+  const updateChildren = (parentId: number, children: number[]) => {
+    setNodes(prev => prev.map(node => node.id === parentId ? { ...node, children } : node))
+    onLinksChange(parentId, children)
+  }
+
+  const handleLink = async (parentId: number, childId: number) => {
+    const parent = nodes.find(node => node.id === parentId)
+    // Links of an agent that failed to load would replace the sub-agents it already has
+    if (!parent || parent.load_failed || parent.children.includes(childId)) return
+    if (wouldCreateCycle(nodes, parentId, childId)) {
+      message.error(t('agentGraph.cycle', { parent: nodeName(parentId), child: nodeName(childId) }))
+      return
+    }
+    const result = await addRelatedAgent(parentId, childId)
+    if (!result.success) {
+      message.error(result.status === 500
+        ? t('collaborativeAgent.message.circularDependency')
+        : result.message || t('collaborativeAgent.message.addFailed'))
+      return
+    }
+    updateChildren(parentId, [...parent.children, childId])
+  }
+
+  const handleUnlink = async (parentId: number, childId: number) => {
+    const parent = nodes.find(node => node.id === parentId)
+    if (!parent) return
+    const result = await deleteRelatedAgent(parentId, childId)
+    if (!result.success) {
+      message.error(result.message || t('collaborativeAgent.message.removeFailed'))
+      return
+    }
+    setHoveredEdge(null)
+    updateChildren(parentId, parent.children.filter(id => id !== childId))
+  }
+
+  const surfacePoint = (event: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect()
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  const nodeAt = (x: number, y: number) =>
+    nodes.find(node => {
+      const position = positions[node.id]
+      return position && x >= position.x && x <= position.x + GRAPH_NODE_WIDTH
+        && y >= position.y && y <= position.y + GRAPH_NODE_HEIGHT
+    })
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!interaction) return
+    const point = surfacePoint(event)
+    if (interaction.type === 'move') {
+      setPositions(prev => ({
+        ...prev,
+        [interaction.id]: {
+          x: Math.max(0, point.x - interaction.offsetX),
+          y: Math.max(0, point.y - interaction.offsetY),
+        },
+      }))
+    } else {
+      setInteraction({ ...interaction, x: point.x, y: point.y })
+    }
+  }
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (interaction?.type === 'connect') {
+      const point = surfacePoint(event)
+      const target = nodeAt(point.x, point.y)
+      if (target && target.id !== interaction.from) {
+        handleLink(interaction.from, target.id)
+      }
+    }
+    setInteraction(null)
+  }
+
+  // Drop targets are colored while a link is dragged, red where the link would close a cycle
+  const dropState = (node: AgentGraphNode): 'valid' | 'invalid' | null => {
+    if (interaction?.type !== 'connect' || node.id === interaction.from) return null
+    return wouldCreateCycle(nodes, interaction.from, node.id) ? 'invalid' : 'valid'
+  }
+
+  const edges = nodes.flatMap(node =>
+    node.children
+      .filter(childId => positions[childId])
+      .map(childId => ({ parentId: node.id, childId, key: `${node.id}-${childId}` }))
+  )
+
+  const width = Math.max(...Object.values(positions).map(position => position.x + GRAPH_NODE_WIDTH), 0) + 48
+  const height = Math.max(...Object.values(positions).map(position => position.y + GRAPH_NODE_HEIGHT), 0) + 48
+
+  return (
+    <Modal
+      open={open}
+      title={t('agentGraph.title')}
+      width="90vw"
+      footer={null}
+      onCancel={onClose}
+      destroyOnClose
+    >
+      <div className="mb-2 flex items-center gap-2 text-xs text-gray-500">
+        <span className="flex-1">{t('agentGraph.hint')}</span>
+        <Button size="small" icon={<PartitionOutlined />} onClick={() => setPositions(layoutAgentGraph(nodes))}>
+          {t('agentGraph.autoLayout')}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-16"><Spin /></div>
+      ) : nodes.length === 0 ? (
+        <Empty description={t('agentGraph.empty')} />
+      ) : (
+        <div className="h-[65vh] overflow-auto rounded-md border border-gray-200 bg-gray-50">
+          <div
+            ref={surfaceRef}
+            className="relative select-none"
+            style={{ width, height, minWidth: '100%', minHeight: '100%' }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={() => setInteraction(null)}
+          >
+            <svg className="pointer-events-none absolute inset-0 h-full w-full">
+              <defs>
+                <marker id="agent-graph-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="#60a5fa" />
+                </marker>
+              </defs>
+              {edges.map(edge => (
+                <g key={edge.key} className="pointer-events-auto">
+                  <path
+                    d={edgePath(positions[edge.parentId], positions[edge.childId])}
+                    stroke="transparent"
+                    strokeWidth={14}
+                    fill="none"
+                    onMouseEnter={() => setHoveredEdge(edge.key)}
+                  />
+                  <path
+                    d={edgePath(positions[edge.parentId], positions[edge.childId])}
+                    stroke={hoveredEdge === edge.key ? '#2563eb' : '#60a5fa'}
+                    strokeWidth={2}
+                    fill="none"
+                    markerEnd="url(#agent-graph-arrow)"
+                  />
+                </g>
+              ))}
+              {interaction?.type === 'connect' && positions[interaction.from] && (
+                <path
+                  d={edgePath(positions[interaction.from], { x: interaction.x - GRAPH_NODE_WIDTH / 2, y: interaction.y })}
+                  stroke="#2563eb"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  fill="none"
+                />
+              )}
+            </svg>
+
+            {!disabled && edges.filter(edge => edge.key === hoveredEdge).map(edge => {
+              const from = positions[edge.parentId]
+              const to = positions[edge.childId]
+              return (
+                <button
+                  key={edge.key}
+                  type="button"
+                  className="absolute z-10 flex h-5 w-5 items-center justify-center rounded-full border border-red-300 bg-white text-red-500 hover:bg-red-50"
+                  style={{
+                    left: (from.x + to.x + GRAPH_NODE_WIDTH) / 2 - 10,
+                    top: (from.y + GRAPH_NODE_HEIGHT + to.y) / 2 - 10,
+                  }}
+                  title={t('agentGraph.unlink', { parent: nodeName(edge.parentId), child: nodeName(edge.childId) })}
+                  onClick={() => handleUnlink(edge.parentId, edge.childId)}
+                  onMouseLeave={() => setHoveredEdge(null)}
+                >
+                  <CloseOutlined className="text-[10px]" />
+                </button>
+              )
+            })}
+
+            {nodes.map(node => {
+              const position = positions[node.id]
+              const state = dropState(node)
+              const agent = agents.find(item => Number(item.id) === node.id)
+              return (
+                <div
+                  key={node.id}
+                  className={`absolute flex cursor-move flex-col rounded-md border-2 bg-white px-3 py-2 shadow-sm ${
+                    state === 'valid' ? 'border-green-400' :
+                    state === 'invalid' ? 'border-red-400' : 'border-gray-200'
+                  } ${node.is_available ? '' : 'opacity-60'}`}
+                  style={{ left: position.x, top: position.y, width: GRAPH_NODE_WIDTH, height: GRAPH_NODE_HEIGHT }}
+                  onPointerDown={(event) => {
+                    if ((event.target as HTMLElement).closest('button')) return
+                    const point = surfacePoint(event)
+                    setInteraction({ type: 'move', id: node.id, offsetX: point.x - position.x, offsetY: point.y - position.y })
+                  }}
+                >
+                  <div className="flex items-center gap-1">
+                    <span className="min-w-0 flex-1 truncate text-sm font-medium text-gray-800" title={node.name}>
+                      {node.display_name}
+                    </span>
+                    {agent && (
+                      <Button
+                        type="text"
+                        size="small"
+                        icon={<EditOutlined />}
+                        title={t('agentGraph.edit')}
+                        onClick={() => onEditAgent(agent)}
+                      />
+                    )}
+                  </div>
+                  <div className="truncate text-xs text-gray-400">{node.name}</div>
+                  <div className="mt-1 flex items-center gap-1 overflow-hidden">
+                    {node.load_failed ? (
+                      <Tag color="red" className="m-0 text-[10px]">{t('agentGraph.loadFailedTag')}</Tag>
+                    ) : (
+                      <>
+                        {node.model && <Tag color="blue" className="m-0 text-[10px]">{node.model}</Tag>}
+                        <span className="truncate text-[11px] text-gray-500" title={node.tools.join(', ')}>
+                          {node.tools.length === 0
+                            ? t('agentGraph.noTools')
+                            : node.tools.slice(0, MAX_LISTED_TOOLS).join(', ')
+                              + (node.tools.length > MAX_LISTED_TOOLS ? ` +${node.tools.length - MAX_LISTED_TOOLS}` : '')}
+                        </span>
+                      </>
+                    )}
+                  </div>
+                  {!disabled && !node.load_failed && (
+                    <button
+                      type="button"
+                      className="absolute -bottom-2 left-1/2 h-4 w-4 -translate-x-1/2 cursor-crosshair rounded-full border-2 border-blue-400 bg-white hover:bg-blue-100"
+                      title={t('agentGraph.connect')}
+                      onPointerDown={(event) => {
+                        event.stopPropagation()
+                        const point = surfacePoint(event)
+                        setInteraction({ type: 'connect', from: node.id, x: point.x, y: point.y })
+                      }}
+                    />
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
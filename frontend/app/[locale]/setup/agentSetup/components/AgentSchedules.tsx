@@ -0,0 +1,536 @@
+"use client"
+
+import { useEffect, useMemo, useState } from 'react'
+import { App, Button, Drawer, Empty, Input, Popconfirm, Radio, Select, Spin, Switch, Table, Tag, Typography } from 'antd'
+import { CaretRightOutlined, CopyOutlined, DeleteOutlined, PlusOutlined, ReloadOutlined, SaveOutlined, SyncOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { scheduleService } from '@/services/scheduleService'
+import { conversationService } from '@/services/conversationService'
+import { copyToClipboard } from '@/lib/clipboard'
+import { AgentSchedule, AgentScheduleDraft, ScheduleRun, ScheduleRunStatus } from '@/types/schedule'
+import { ApiConversationDetail, ChatMessageType } from '@/types/chat'
+import { TaskWindow } from '@/app/chat/streaming/taskWindow'
+import { ChatStreamFinalMessage } from '@/app/chat/streaming/chatStreamFinalMessage'
+import { extractAssistantMsgFromResponse } from '@/app/chat/internal/extractMsgFromHistoryResponse'
+import { toTaskMessages } from '../utils/agentUtils'
+import {
+  CRON_PRESETS,
+  isValidTimezone,
+  nextCronRuns,
+  parseCron,
+  renderQueryTemplate,
+  templateFields
+} from '../utils/agentSchedule'
+
+const { Text } = Typography
+
+interface AgentSchedulesProps {
+  open: boolean
+  agentId?: number
+  onClose: () => void
+}
+
+const PREVIEW_RUN_COUNT = 3
+
+// Kept out of the translations, i18next would read the braces as its own placeholder
+const TEMPLATE_EXAMPLE = '{{issue.title}}'
+
+const RUN_STATUS_COLORS: Record<ScheduleRunStatus, string> = {
+  running: 'processing',
+  success: 'success',
+  failed: 'error',
+}
+
+const localTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+
+const timezoneOptions = () => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [localTimezone(), 'UTC']
+  return zones.map(zone => ({ label: zone, value: zone }))
+}
+
+const formatTime = (time?: number | null) => time ? new Date(time).toLocaleString() : '-'
+
+// Answer a run saved in its conversation, with the steps TaskWindow shows
+const loadRunAnswer = async (run: ScheduleRun, t: any): Promise<ChatMessageType | null> => {
+  if (!run.conversation_id || !run.message_id) return null
+  const data = await conversationService.getDetail(run.conversation_id)
+  if (data.code !== 0 || !data.data || data.data.length === 0) return null
+  const detail = data.data[0] as ApiConversationDetail
+  const index = (detail.message || []).findIndex(message => message.message_id === run.message_id)
+  if (index < 0) return null
+  return extractAssistantMsgFromResponse(detail.message[index], index, detail.create_time, t)
+}
+
+/**
+ * Cron schedules and webhook triggers of an agent, with their run history and the trace of each run
+ */
+export default function AgentSchedules({ open, agentId, onClose }: AgentSchedulesProps) {
+  const { t } = useTranslation('common')
+  const { message } = App.useApp()
+  const [schedules, setSchedules] = useState<AgentSchedule[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [draft, setDraft] = useState<AgentScheduleDraft | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [runs, setRuns] = useState<ScheduleRun[]>([])
+  const [isLoadingRuns, setIsLoadingRuns] = useState(false)
+  // Answers of the expanded runs, null when the run has none to show
+  const [runAnswers, setRunAnswers] = useState<Record<number, ChatMessageType | null>>({})
+  const [samplePayload, setSamplePayload] = useState('')
+  const [now, setNow] = useState(() => new Date())
+
+  const saved = draft?.schedule_id !== undefined
+    ? schedules.find(schedule => schedule.schedule_id === draft.schedule_id)
+    : undefined
+
+  const loadRuns = async (scheduleId: number) => {
+    setIsLoadingRuns(true)
+    try {
+      setRuns(await scheduleService.listRuns(scheduleId))
+    } catch (error) {
+      console.error(t('agentSchedule.loadRunsFailed'), error)
+      message.error(t('agentSchedule.loadRunsFailed'))
+    } finally {
+      setIsLoadingRuns(false)
+    }
+  }
+
+  const selectSchedule = (schedule: AgentSchedule) => {
+    const { conversation_id, webhook_url, next_run_time, last_run, ...editable } = schedule
+    setDraft(editable)
+    setRuns([])
+    setRunAnswers({})
+    setSamplePayload('')
+    loadRuns(schedule.schedule_id)
+  }
+
+  useEffect(() => {
+    if (!open || agentId === undefined) return
+    setDraft(null)
+    setRuns([])
+    setRunAnswers({})
+    setNow(new Date())
+    setIsLoading(true)
+    scheduleService.list(agentId)
+      .then(result => {
+        setSchedules(result)
+        if (result.length > 0) selectSchedule(result[0])
+      })
+      .catch(error => {
+        console.error(t('agentSchedule.loadFailed'), error)
+        message.error(t('agentSchedule.loadFailed'))
+      })
+      .finally(() => setIsLoading(false))
+  }, [open, agentId])
+
+  const handleNew = () => {
+    if (agentId === undefined) return
+    setDraft({
+      agent_id: agentId,
+      name: t('agentSchedule.newName'),
+      trigger: 'cron',
+      cron: CRON_PRESETS[1].cron,
+      timezone: localTimezone(),
+      query_template: '',
+      delivery: 'conversation',
+      enabled: true,
+    })
+    setRuns([])
+    setRunAnswers({})
+    setSamplePayload('')
+  }
+
+  const updateDraft = (patch: Partial<AgentScheduleDraft>) => setDraft(prev => prev ? { ...prev, ...patch } : prev)
+
+  const cron = draft?.trigger === 'cron' ? parseCron(draft.cron) : null
+  const timezoneValid = !!draft && isValidTimezone(draft.timezone)
+  const upcomingRuns = useMemo(
+    () => cron && draft && timezoneValid ? nextCronRuns(cron, draft.timezone, now, PREVIEW_RUN_COUNT) : [],
+    [draft?.cron, draft?.timezone, draft?.trigger, now]
+  )
+
+  // An invalid sample is reported instead of previewed
+  const parsedPayload = useMemo(() => {
+    if (!samplePayload.trim()) return { value: undefined, valid: true }
+    try {
+      return { value: JSON.parse(samplePayload), valid: true }
+    } catch {
+      return { value: undefined, valid: false }
+    }
+  }, [samplePayload])
+
+  const validationError = (): string | null => {
+    if (!draft) return null
+    if (!draft.name.trim()) return t('agentSchedule.error.nameRequired')
+    if (!draft.query_template.trim()) return t('agentSchedule.error.queryRequired')
+    if (draft.trigger === 'cron') {
+      if (!cron) return t('agentSchedule.error.invalidCron')
+      if (!timezoneValid) return t('agentSchedule.error.invalidTimezone')
+      if (upcomingRuns.length === 0) return t('agentSchedule.error.neverRuns')
+    }
+    return null
+  }
+  const error = validationError()
+
+  const replaceSchedule = (schedule: AgentSchedule) =>
+    setSchedules(prev => prev.some(item => item.schedule_id === schedule.schedule_id)
+      ? prev.map(item => item.schedule_id === schedule.schedule_id ? schedule : item)
+      : [...prev, schedule])
+
+  const handleSave = async () => {
+    if (!draft || error) return
+    setIsSaving(true)
+    try {
+      const result = await scheduleService.save({ ...draft, name: draft.name.trim() })
+      replaceSchedule(result)
+      setDraft(prev => prev ? { ...prev, schedule_id: result.schedule_id } : prev)
+      message.success(t('agentSchedule.saveSuccess'))
+    } catch (err) {
+      console.error(t('agentSchedule.saveFailed'), err)
+      message.error(t('agentSchedule.saveFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (draft?.schedule_id === undefined) {
+      setDraft(null)
+      return
+    }
+    try {
+      await scheduleService.delete(draft.schedule_id)
+      const remaining = schedules.filter(schedule => schedule.schedule_id !== draft.schedule_id)
+      setSchedules(remaining)
+      if (remaining.length > 0) {
+        selectSchedule(remaining[0])
+      } else {
+        setDraft(null)
+        setRuns([])
+      }
+    } catch (err) {
+      console.error(t('agentSchedule.deleteFailed'), err)
+      message.error(t('agentSchedule.deleteFailed'))
+    }
+  }
+
+  const handleToggleEnabled = async (schedule: AgentSchedule, enabled: boolean) => {
+    try {
+      const result = await scheduleService.setEnabled(schedule.schedule_id, enabled)
+      replaceSchedule(result)
+      if (draft?.schedule_id === schedule.schedule_id) updateDraft({ enabled: result.enabled })
+    } catch (err) {
+      console.error(t('agentSchedule.saveFailed'), err)
+      message.error(t('agentSchedule.saveFailed'))
+    }
+  }
+
+  const handleRunNow = async () => {
+    if (draft?.schedule_id === undefined) return
+    try {
+      const run = await scheduleService.runNow(
+        draft.schedule_id,
+        draft.trigger === 'webhook' ? parsedPayload.value : undefined
+      )
+      setRuns(prev => [run, ...prev.filter(item => item.run_id !== run.run_id)])
+      message.success(t('agentSchedule.runStarted'))
+    } catch (err) {
+      console.error(t('agentSchedule.runFailed'), err)
+      message.error(t('agentSchedule.runFailed'))
+    }
+  }
+
+  const handleRotateWebhook = async () => {
+    if (draft?.schedule_id === undefined) return
+    try {
+      replaceSchedule(await scheduleService.rotateWebhook(draft.schedule_id))
+      message.success(t('agentSchedule.webhook.rotated'))
+    } catch (err) {
+      console.error(t('agentSchedule.saveFailed'), err)
+      message.error(t('agentSchedule.saveFailed'))
+    }
+  }
+
+  const handleExpandRun = async (run: ScheduleRun) => {
+    if (run.run_id in runAnswers) return
+    try {
+      const answer = await loadRunAnswer(run, t)
+      setRunAnswers(prev => ({ ...prev, [run.run_id]: answer }))
+    } catch (err) {
+      console.error(t('agentSchedule.loadTraceFailed'), err)
+      setRunAnswers(prev => ({ ...prev, [run.run_id]: null }))
+    }
+  }
+
+  const renderRunTrace = (run: ScheduleRun) => {
+    if (!(run.run_id in runAnswers)) {
+      return <div className="flex justify-center py-4"><Spin size="small" /></div>
+    }
+    const answer = runAnswers[run.run_id]
+    if (!answer) {
+      return <Text type="secondary">{run.error || t('agentSchedule.noTrace')}</Text>
+    }
+    return (
+      <div className="flex flex-col gap-2">
+        {toTaskMessages(answer).length > 0 && (
+          <TaskWindow
+            messages={toTaskMessages(answer)}
+            runs={[{ messageId: answer.id, steps: answer.steps || [] }]}
+            trace={answer.trace}
+          />
+        )}
+        <ChatStreamFinalMessage
+          message={answer}
+          onSelectMessage={() => {}}
+          isSelected={false}
+          searchResultsCount={answer.searchResults?.length || 0}
+          imagesCount={answer.images?.length || 0}
+          onImageClick={() => {}}
+          onOpinionChange={() => {}}
+          hideButtons={true}
+        />
+      </div>
+    )
+  }
+
+  const runColumns = [
+    {
+      title: t('agentSchedule.runs.startTime'),
+      dataIndex: 'start_time',
+      key: 'start_time',
+      width: 170,
+      render: (time: number) => formatTime(time),
+    },
+    {
+      title: t('agentSchedule.runs.triggeredBy'),
+      dataIndex: 'triggered_by',
+      key: 'triggered_by',
+      width: 100,
+      render: (trigger: ScheduleRun['triggered_by']) => <Tag>{t(`agentSchedule.runs.trigger.${trigger}`)}</Tag>,
+    },
+    {
+      title: t('agentSchedule.runs.status'),
+      dataIndex: 'status',
+      key: 'status',
+      width: 100,
+      render: (status: ScheduleRunStatus) => <Tag color={RUN_STATUS_COLORS[status]}>{t(`agentSchedule.runs.statusLabel.${status}`)}</Tag>,
+    },
+    {
+      title: t('agentSchedule.runs.duration'),
+      key: 'duration',
+      width: 90,
+      render: (_: any, run: ScheduleRun) => run.end_time ? `${((run.end_time - run.start_time) / 1000).toFixed(1)}s` : '-',
+    },
+    {
+      title: t('agentSchedule.runs.query'),
+      dataIndex: 'query',
+      key: 'query',
+      ellipsis: true,
+    },
+  ]
+
+  const renderEditor = (current: AgentScheduleDraft) => (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="flex items-center gap-2">
+        <Input
+          value={current.name}
+          onChange={(e) => updateDraft({ name: e.target.value })}
+          placeholder={t('agentSchedule.namePlaceholder')}
+          className="flex-1"
+        />
+        <Switch
+          checked={current.enabled}
+          onChange={(enabled) => saved ? handleToggleEnabled(saved, enabled) : updateDraft({ enabled })}
+          checkedChildren={t('agentSchedule.active')}
+          unCheckedChildren={t('agentSchedule.paused')}
+        />
+      </div>
+
+      <Radio.Group
+        value={current.trigger}
+        onChange={(e) => updateDraft({ trigger: e.target.value })}
+        disabled={saved !== undefined}
+      >
+        <Radio.Button value="cron">{t('agentSchedule.trigger.cron')}</Radio.Button>
+        <Radio.Button value="webhook">{t('agentSchedule.trigger.webhook')}</Radio.Button>
+      </Radio.Group>
+
+      {current.trigger === 'cron' ? (
+        <div className="flex flex-col gap-2">
+          <div className="flex gap-2">
+            <Select
+              value={CRON_PRESETS.find(preset => preset.cron === current.cron.trim())?.key}
+              onChange={(key) => updateDraft({ cron: CRON_PRESETS.find(preset => preset.key === key)!.cron })}
+              options={CRON_PRESETS.map(preset => ({ label: t(`agentSchedule.preset.${preset.key}`), value: preset.key }))}
+              placeholder={t('agentSchedule.preset.custom')}
+              style={{ width: 180 }}
+            />
+            <Input
+              value={current.cron}
+              onChange={(e) => updateDraft({ cron: e.target.value })}
+              placeholder="0 9 * * 1-5"
+              status={cron ? undefined : 'error'}
+              className="flex-1 font-mono"
+            />
+            <Select
+              value={current.timezone}
+              onChange={(timezone) => updateDraft({ timezone })}
+              options={timezoneOptions()}
+              showSearch
+              status={timezoneValid ? undefined : 'error'}
+              style={{ width: 200 }}
+            />
+          </div>
+          <Text type="secondary" className="text-xs">{t('agentSchedule.cronHint')}</Text>
+          {upcomingRuns.length > 0 && (
+            <div className="text-xs text-gray-500">
+              {t('agentSchedule.nextRuns')} {upcomingRuns.map(run => run.toLocaleString()).join(' · ')}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {saved?.webhook_url ? (
+            <div className="flex gap-2">
+              <Input value={saved.webhook_url} readOnly className="flex-1 font-mono" />
+              <Button
+                icon={<CopyOutlined />}
+                onClick={() => copyToClipboard(saved.webhook_url!).then(() => message.success(t('agentSchedule.webhook.copied')))}
+              />
+              <Popconfirm title={t('agentSchedule.webhook.rotateConfirm')} onConfirm={handleRotateWebhook}>
+                <Button icon={<SyncOutlined />}>{t('agentSchedule.webhook.rotate')}</Button>
+              </Popconfirm>
+            </div>
+          ) : (
+            <Text type="secondary" className="text-xs">{t('agentSchedule.webhook.urlAfterSave')}</Text>
+          )}
+          <Text type="secondary" className="text-xs">{t('agentSchedule.webhook.hint', { example: TEMPLATE_EXAMPLE })}</Text>
+        </div>
+      )}
+
+      <div>
+        <div className="mb-1 text-gray-600">{t('agentSchedule.query')}</div>
+        <Input.TextArea
+          value={current.query_template}
+          onChange={(e) => updateDraft({ query_template: e.target.value })}
+          placeholder={current.trigger === 'webhook' ? t('agentSchedule.queryWebhookPlaceholder', { example: TEMPLATE_EXAMPLE }) : t('agentSchedule.queryPlaceholder')}
+          autoSize={{ minRows: 2, maxRows: 6 }}
+        />
+        {current.trigger === 'webhook' && templateFields(current.query_template).length > 0 && (
+          <div className="mt-2 flex flex-col gap-1">
+            <div className="flex flex-wrap gap-1">
+              {templateFields(current.query_template).map(field => <Tag key={field} className="font-mono">{field}</Tag>)}
+            </div>
+            <Input.TextArea
+              value={samplePayload}
+              onChange={(e) => setSamplePayload(e.target.value)}
+              placeholder={t('agentSchedule.webhook.samplePlaceholder')}
+              autoSize={{ minRows: 2, maxRows: 6 }}
+              status={parsedPayload.valid ? undefined : 'error'}
+              className="font-mono text-xs"
+            />
+            {parsedPayload.value !== undefined && (
+              <div className="rounded bg-gray-50 p-2 text-xs text-gray-600 whitespace-pre-wrap">
+                {renderQueryTemplate(current.query_template, parsedPayload.value)}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="text-gray-600">{t('agentSchedule.delivery')}</span>
+        <Radio.Group value={current.delivery} onChange={(e) => updateDraft({ delivery: e.target.value })}>
+          <Radio value="conversation">{t('agentSchedule.deliveryOption.conversation')}</Radio>
+          <Radio value="inbox">{t('agentSchedule.deliveryOption.inbox')}</Radio>
+        </Radio.Group>
+      </div>
+
+      {error && <Text type="danger" className="text-xs">{error}</Text>}
+
+      <div className="flex items-center gap-2">
+        <Button type="primary" icon={<SaveOutlined />} onClick={handleSave} loading={isSaving} disabled={!!error}>
+          {t('agentSchedule.save')}
+        </Button>
+        <Button
+          icon={<CaretRightOutlined />}
+          onClick={handleRunNow}
+          disabled={saved === undefined || (current.trigger === 'webhook' && !parsedPayload.valid)}
+        >
+          {t('agentSchedule.runNow')}
+        </Button>
+        <div className="flex-1" />
+        <Popconfirm title={t('agentSchedule.deleteConfirm')} onConfirm={handleDelete}>
+          <Button danger icon={<DeleteOutlined />}>{t('agentSchedule.delete')}</Button>
+        </Popconfirm>
+      </div>
+
+      {saved !== undefined && (
+        <div className="mt-2">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="font-medium text-gray-700">{t('agentSchedule.runs.title')}</span>
+            <Button size="small" icon={<ReloadOutlined />} onClick={() => loadRuns(saved.schedule_id)} />
+          </div>
+          <Table
+            columns={runColumns}
+            dataSource={runs}
+            rowKey="run_id"
+            size="small"
+            loading={isLoadingRuns}
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+            locale={{ emptyText: t('agentSchedule.runs.empty') }}
+            expandable={{
+              expandedRowRender: renderRunTrace,
+              onExpand: (expanded, run) => { if (expanded) handleExpandRun(run) },
+            }}
+          />
+        </div>
+      )}
+    </div>
+  )
+
+  return (
+    <Drawer
+      title={t('agentSchedule.title')}
+      open={open}
+      onClose={onClose}
+      width={960}
+      destroyOnClose
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-8"><Spin /></div>
+      ) : (
+        <div className="flex h-full gap-4">
+          <div className="w-56 flex-shrink-0 overflow-y-auto border-r pr-2">
+            <Button block icon={<PlusOutlined />} onClick={handleNew} className="mb-2">
+              {t('agentSchedule.new')}
+            </Button>
+            {schedules.map(schedule => (
+              <div
+                key={schedule.schedule_id}
+                className={`mb-1 cursor-pointer rounded px-2 py-1.5 text-xs hover:bg-gray-100 ${
+                  schedule.schedule_id === draft?.schedule_id ? 'bg-blue-50' : ''
+                }`}
+                onClick={() => selectSchedule(schedule)}
+              >
+                <div className="flex items-center gap-1">
+                  <span className="truncate font-medium text-gray-700">{schedule.name}</span>
+                  {!schedule.enabled && <Tag className="m-0 text-[10px]">{t('agentSchedule.paused')}</Tag>}
+                </div>
+                <div className="text-gray-500">
+                  {schedule.trigger === 'cron' ? <span className="font-mono">{schedule.cron}</span> : t('agentSchedule.trigger.webhook')}
+                </div>
+                {schedule.trigger === 'cron' && schedule.enabled && schedule.next_run_time && (
+                  <div className="text-gray-400">{t('agentSchedule.nextRun', { time: formatTime(schedule.next_run_time) })}</div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="min-w-0 flex-1 overflow-y-auto">
+            {draft ? renderEditor(draft) : <Empty description={t('agentSchedule.empty')} />}
+          </div>
+        </div>
+      )}
+    </Drawer>
+  )
+}
@@ -0,0 +1,278 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { App, Button, Drawer, Empty, Popconfirm, Select, Spin, Tag } from 'antd'
+import { RollbackOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { Agent, AgentVersion, AgentVersionDetail } from '../ConstInterface'
+import { fetchAgentVersion, fetchAgentVersions, rollbackAgentVersion } from '@/services/agentConfigService'
+import { diffLines, DiffPart } from '@/lib/textDiff'
+
+interface AgentVersionHistoryProps {
+  open: boolean
+  agentId?: number
+  // Known agents, used to name the sub-agents of a version
+  agents: Agent[]
+  onClose: () => void
+  onRolledBack: () => void
+}
+
+interface FieldChange {
+  key: string
+  before: string
+  after: string
+  // Prompts are compared line by line instead of as a whole
+  isText: boolean
+}
+
+const SCALAR_FIELDS: { key: string; get: (agent: Agent) => unknown }[] = [
+  { key: 'name', get: agent => agent.name },
+  { key: 'displayName', get: agent => agent.display_name },
+  { key: 'description', get: agent => agent.description },
+  { key: 'model', get: agent => agent.model },
+  { key: 'maxStep', get: agent => agent.max_step },
+  { key: 'provideRunSummary', get: agent => agent.provide_run_summary },
+  { key: 'businessDescription', get: agent => agent.business_description },
+]
+
+const TEXT_FIELDS: { key: string; get: (agent: Agent) => string | undefined }[] = [
+  { key: 'dutyPrompt', get: agent => agent.duty_prompt },
+  { key: 'constraintPrompt', get: agent => agent.constraint_prompt },
+  { key: 'fewShotsPrompt', get: agent => agent.few_shots_prompt },
+]
+
+// One line per tool with its configured parameters, so a changed parameter shows as a changed line
+const formatTools = (agent: Agent) =>
+  [...(agent.tools || [])]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(tool => {
+      const params = (tool.initParams || [])
+        .filter(param => param.value !== undefined && param.value !== null && param.value !== '')
+        .map(param => `${param.name}=${JSON.stringify(param.value)}`)
+      return params.length > 0 ? `${tool.name} (${params.join(', ')})` : tool.name
+    })
+    .join('\n')
+
+const diffSnapshots = (before: Agent, after: Agent, agentName: (id: number) => string): FieldChange[] => {
+  const changes: FieldChange[] = []
+  SCALAR_FIELDS.forEach(({ key, get }) => {
+    const beforeValue = String(get(before) ?? '')
+    const afterValue = String(get(after) ?? '')
+    if (beforeValue !== afterValue) {
+      changes.push({ key, before: beforeValue, after: afterValue, isText: false })
+    }
+  })
+
+  const beforeTools = formatTools(before)
+  const afterTools = formatTools(after)
+  if (beforeTools !== afterTools) {
+    changes.push({ key: 'tools', before: beforeTools, after: afterTools, isText: true })
+  }
+
+  const formatSubAgents = (agent: Agent) =>
+    (agent.sub_agent_id_list || []).map(id => agentName(Number(id))).sort().join('\n')
+  const beforeSubAgents = formatSubAgents(before)
+  const afterSubAgents = formatSubAgents(after)
+  if (beforeSubAgents !== afterSubAgents) {
+    changes.push({ key: 'subAgents', before: beforeSubAgents, after: afterSubAgents, isText: true })
+  }
+
+  TEXT_FIELDS.forEach(({ key, get }) => {
+    const beforeText = get(before) || ''
+    const afterText = get(after) || ''
+    if (beforeText !== afterText) {
+      changes.push({ key, before: beforeText, after: afterText, isText: true })
+    }
+  })
+  return changes
+}
+
+const DiffText = ({ parts }: { parts: DiffPart[] }) => (
+  <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-words rounded bg-gray-50 p-2 text-xs">
+    {parts.map((part, index) => (
+      <span
+        key={index}
+        className={
+          part.type === 'insert' ? 'bg-green-100 text-green-800' :
+          part.type === 'delete' ? 'bg-red-100 text-red-700 line-through' : 'text-gray-500'
+        }
+      >
+        {part.text}
+      </span>
+    ))}
+  </pre>
+)
+
+/**
+ * Saved versions of an agent, the changes between any two of them and rollback to an earlier one
+ */
+export default function AgentVersionHistory({ open, agentId, agents, onClose, onRolledBack }: AgentVersionHistoryProps) {
+  const { t } = useTranslation('common')
+  const { message } = App.useApp()
+  const [versions, setVersions] = useState<AgentVersion[]>([])
+  const [details, setDetails] = useState<Record<number, AgentVersionDetail>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [isRollingBack, setIsRollingBack] = useState(false)
+  const [selectedNo, setSelectedNo] = useState<number | null>(null)
+  const [compareNo, setCompareNo] = useState<number | null>(null)
+
+  const loadVersions = async () => {
+    if (agentId === undefined) return
+    setIsLoading(true)
+    const result = await fetchAgentVersions(agentId)
+    setIsLoading(false)
+    if (!result.success) {
+      message.error(result.message || t('agentVersion.loadFailed'))
+      return
+    }
+    setVersions(result.data)
+    setSelectedNo(result.data[0]?.version_no ?? null)
+    setCompareNo(result.data[1]?.version_no ?? null)
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setDetails({})
+    loadVersions()
+  }, [open, agentId])
+
+  // Snapshots are immutable, each one is fetched once per opening
+  useEffect(() => {
+    if (agentId === undefined) return
+    [selectedNo, compareNo].forEach(versionNo => {
+      if (versionNo === null || details[versionNo]) return
+      fetchAgentVersion(agentId, versionNo).then(result => {
+        if (result.success && result.data) {
+          const detail = result.data
+          setDetails(prev => ({ ...prev, [versionNo]: detail }))
+        } else {
+          message.error(result.message || t('agentVersion.loadFailed'))
+        }
+      })
+    })
+  }, [agentId, selectedNo, compareNo])
+
+  const handleSelect = (versionNo: number) => {
+    setSelectedNo(versionNo)
+    // Compare with the previous version by default
+    const index = versions.findIndex(version => version.version_no === versionNo)
+    setCompareNo(versions[index + 1]?.version_no ?? null)
+  }
+
+  const handleRollback = async () => {
+    if (agentId === undefined || selectedNo === null) return
+    setIsRollingBack(true)
+    const result = await rollbackAgentVersion(agentId, selectedNo)
+    setIsRollingBack(false)
+    if (!result.success) {
+      message.error(result.message || t('agentVersion.rollbackFailed'))
+      return
+    }
+    message.success(t('agentVersion.rollbackSuccess', { version: selectedNo }))
+    await loadVersions()
+    onRolledBack()
+  }
+
+  const agentName = (id: number) =>
+    agents.find(agent => Number(agent.id) === id)?.display_name || `#${id}`
+
+  const latestNo = versions[0]?.version_no
+  const selected = selectedNo !== null ? details[selectedNo] : undefined
+  const compared = compareNo !== null ? details[compareNo] : undefined
+  const changes = selected && compared ? diffSnapshots(compared.snapshot, selected.snapshot, agentName) : []
+
+  return (
+    <Drawer
+      title={t('agentVersion.title')}
+      open={open}
+      onClose={onClose}
+      width={880}
+      destroyOnClose
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-8"><Spin /></div>
+      ) : versions.length === 0 ? (
+        <Empty description={t('agentVersion.empty')} />
+      ) : (
+        <div className="flex h-full gap-4">
+          <div className="w-52 flex-shrink-0 overflow-y-auto border-r pr-2">
+            {versions.map(version => (
+              <div
+                key={version.version_no}
+                className={`mb-1 cursor-pointer rounded px-2 py-1.5 text-xs hover:bg-gray-100 ${
+                  version.version_no === selectedNo ? 'bg-blue-50' : ''
+                }`}
+                onClick={() => handleSelect(version.version_no)}
+              >
+                <div className="flex items-center gap-1">
+                  <span className="font-medium text-gray-700">v{version.version_no}</span>
+                  {version.version_no === latestNo && <Tag color="blue" className="m-0 text-[10px]">{t('agentVersion.current')}</Tag>}
+                </div>
+                <div className="text-gray-500 truncate">{version.author}</div>
+                <div className="text-gray-400">{new Date(version.create_time).toLocaleString()}</div>
+                {version.rollback_from != null && (
+                  <div className="text-gray-400">{t('agentVersion.rollbackFrom', { version: version.rollback_from })}</div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="min-w-0 flex-1 overflow-y-auto">
+            <div className="mb-3 flex items-center gap-2 text-sm">
+              <span className="font-medium">v{selectedNo}</span>
+              <span className="text-gray-500">{t('agentVersion.compareWith')}</span>
+              <Select
+                size="small"
+                style={{ width: 120 }}
+                value={compareNo}
+                onChange={setCompareNo}
+                placeholder={t('agentVersion.noPrevious')}
+                options={versions
+                  .filter(version => version.version_no !== selectedNo)
+                  .map(version => ({ label: `v${version.version_no}`, value: version.version_no }))}
+              />
+              <div className="flex-1" />
+              <Popconfirm
+                title={t('agentVersion.rollbackConfirm', { version: selectedNo })}
+                onConfirm={handleRollback}
+                disabled={selectedNo === latestNo}
+              >
+                <Button
+                  size="small"
+                  icon={<RollbackOutlined />}
+                  loading={isRollingBack}
+                  disabled={selectedNo === latestNo}
+                >
+                  {t('agentVersion.rollback')}
+                </Button>
+              </Popconfirm>
+            </div>
+
+            {compareNo === null ? (
+              <div className="text-sm text-gray-400">{t('agentVersion.noPrevious')}</div>
+            ) : !selected || !compared ? (
+              <div className="flex justify-center py-8"><Spin size="small" /></div>
+            ) : changes.length === 0 ? (
+              <div className="text-sm text-gray-400">{t('agentVersion.noChanges')}</div>
+            ) : (
+              changes.map(change => (
+                <div key={change.key} className="mb-3">
+                  <div className="mb-1 text-xs font-medium text-gray-600">{t(`agentVersion.field.${change.key}`)}</div>
+                  {change.isText ? (
+                    <DiffText parts={diffLines(change.before, change.after)} />
+                  ) : (
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="rounded bg-red-100 px-1 text-red-700 line-through">{change.before || t('agentVersion.none')}</span>
+                      <span className="text-gray-400">→</span>
+                      <span className="rounded bg-green-100 px-1 text-green-800">{change.after || t('agentVersion.none')}</span>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </Drawer>
+  )
+}
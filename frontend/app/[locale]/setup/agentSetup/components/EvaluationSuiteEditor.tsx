@@ -0,0 +1,119 @@
+"use client"
+
+import { Button, Input, Select } from 'antd'
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { v4 as uuidv4 } from 'uuid'
+import { EvaluationCase, EvaluationScorer } from '@/types/evaluation'
+
+interface EvaluationSuiteEditorProps {
+  cases: EvaluationCase[]
+  onChange: (cases: EvaluationCase[]) => void
+  // Names of the tools of the agent, offered as required tools
+  toolNames: string[]
+  // The LLM judge needs a secondary model in the model configuration
+  isJudgeAvailable: boolean
+  disabled?: boolean
+}
+
+const SCORERS: EvaluationScorer[] = ["contains", "exact", "regex", "llm_judge"]
+
+export const createEvaluationCase = (): EvaluationCase => ({
+  id: uuidv4(),
+  question: "",
+  expected: "",
+  scorer: "contains",
+  required_tools: [],
+  required_citations: [],
+  forbidden_phrases: [],
+})
+
+/**
+ * Golden questions of a suite with what a good answer contains, uses and avoids
+ */
+export default function EvaluationSuiteEditor({ cases, onChange, toolNames, isJudgeAvailable, disabled = false }: EvaluationSuiteEditorProps) {
+  const { t } = useTranslation('common')
+
+  const updateCase = (id: string, patch: Partial<EvaluationCase>) => {
+    onChange(cases.map(testCase => testCase.id === id ? { ...testCase, ...patch } : testCase))
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {cases.map((testCase, index) => (
+        <div key={testCase.id} className="rounded-md border border-gray-200 p-3">
+          <div className="mb-2 flex items-start gap-2">
+            <span className="mt-1 text-xs text-gray-400">{index + 1}.</span>
+            <Input.TextArea
+              value={testCase.question}
+              onChange={(e) => updateCase(testCase.id, { question: e.target.value })}
+              placeholder={t('evaluation.case.question')}
+              autoSize={{ minRows: 1, maxRows: 4 }}
+              disabled={disabled}
+            />
+            <Button
+              type="text"
+              size="small"
+              icon={<DeleteOutlined />}
+              onClick={() => onChange(cases.filter(item => item.id !== testCase.id))}
+              disabled={disabled}
+              title={t('evaluation.case.remove')}
+            />
+          </div>
+
+          <div className="mb-2 flex items-start gap-2 pl-4">
+            <Select
+              value={testCase.scorer}
+              onChange={(scorer) => updateCase(testCase.id, { scorer })}
+              style={{ width: 150, flexShrink: 0 }}
+              disabled={disabled}
+              options={SCORERS.map(scorer => ({
+                label: t(`evaluation.scorer.${scorer}`),
+                value: scorer,
+                disabled: scorer === "llm_judge" && !isJudgeAvailable,
+              }))}
+            />
+            <Input.TextArea
+              value={testCase.expected}
+              onChange={(e) => updateCase(testCase.id, { expected: e.target.value })}
+              placeholder={t(`evaluation.case.expected.${testCase.scorer}`)}
+              autoSize={{ minRows: 1, maxRows: 6 }}
+              disabled={disabled}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 pl-4">
+            <Select
+              mode="tags"
+              value={testCase.required_tools}
+              onChange={(required_tools) => updateCase(testCase.id, { required_tools })}
+              placeholder={t('evaluation.case.requiredTools')}
+              options={toolNames.map(name => ({ label: name, value: name }))}
+              disabled={disabled}
+            />
+            <Select
+              mode="tags"
+              value={testCase.required_citations}
+              onChange={(required_citations) => updateCase(testCase.id, { required_citations })}
+              placeholder={t('evaluation.case.requiredCitations')}
+              open={false}
+              disabled={disabled}
+            />
+            <Select
+              mode="tags"
+              value={testCase.forbidden_phrases}
+              onChange={(forbidden_phrases) => updateCase(testCase.id, { forbidden_phrases })}
+              placeholder={t('evaluation.case.forbiddenPhrases')}
+              open={false}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button icon={<PlusOutlined />} onClick={() => onChange([...cases, createEvaluationCase()])} disabled={disabled}>
+        {t('evaluation.case.add')}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+"use client"
+
+import { Button, Input, InputNumber, Select, Switch } from 'antd'
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { JsonSchema } from '@/types/jsonSchema'
+import { defaultValueFor, isSecretSchema, resolveSchema, schemaType } from '@/lib/jsonSchema'
+
+interface JsonSchemaFieldProps {
+  schema: JsonSchema
+  value: any
+  onChange: (value: any) => void
+  // Dotted location of the value, issues are looked up by it
+  path: string
+  // Message of the first issue of each path
+  issues: Record<string, string>
+  // Display names of enum values, the values themselves are shown otherwise
+  enumLabels?: Record<string, string>
+  disabled?: boolean
+}
+
+// Strings longer than this are edited in a text area
+const LONG_TEXT_LENGTH = 15
+
+const joinPath = (path: string, key: string | number) => path ? `${path}.${key}` : String(key)
+
+// Free-form arrays and objects are edited as JSON, text that doesn't parse is kept as is and reported by validation
+const JsonTextInput = ({ value, onChange, placeholder, disabled, hasError }: {
+  value: any
+  onChange: (value: any) => void
+  placeholder: string
+  disabled?: boolean
+  hasError: boolean
+}) => (
+  <Input.TextArea
+    value={typeof value === 'string' ? value : value === undefined ? '' : JSON.stringify(value, null, 2)}
+    onChange={(e) => {
+      try {
+        onChange(JSON.parse(e.target.value))
+      } catch {
+        onChange(e.target.value)
+      }
+    }}
+    placeholder={placeholder}
+    autoSize={{ minRows: 1, maxRows: 8 }}
+    style={{ resize: 'vertical' }}
+    status={hasError ? 'error' : undefined}
+    disabled={disabled}
+  />
+)
+
+export const SchemaFieldLabel = ({ name, schema, required }: { name: string; schema: JsonSchema; required: boolean }) => (
+  <div className="text-sm text-gray-600">
+    {schema.title || name}
+    {required && <span className="text-red-500 ml-1">*</span>}
+    {schema.description && schema.description !== (schema.title || name) && (
+      <div className="text-xs text-gray-400">{schema.description}</div>
+    )}
+  </div>
+)
+
+/**
+ * Input for a value described by a JSON Schema, nested objects and arrays of objects are rendered recursively
+ */
+export default function JsonSchemaField({ schema: rawSchema, value, onChange, path, issues, enumLabels, disabled }: JsonSchemaFieldProps) {
+  const { t } = useTranslation('common')
+  const { schema, nullable } = resolveSchema(rawSchema)
+  const type = schemaType(schema)
+  const error = issues[path]
+  const status = error ? 'error' as const : undefined
+
+  const renderControl = () => {
+    if (schema.enum) {
+      return (
+        <Select
+          value={value}
+          onChange={onChange}
+          allowClear={nullable}
+          status={status}
+          disabled={disabled}
+          style={{ width: '100%' }}
+          placeholder={t('toolConfig.input.select.placeholder')}
+          options={schema.enum.map(option => ({ label: enumLabels?.[String(option)] ?? String(option), value: option }))}
+        />
+      )
+    }
+
+    switch (type) {
+      case 'boolean':
+        return <Switch checked={!!value} onChange={onChange} disabled={disabled} />
+
+      case 'number':
+      case 'integer':
+        return (
+          <InputNumber
+            value={value}
+            onChange={onChange}
+            min={schema.minimum ?? schema.exclusiveMinimum}
+            max={schema.maximum ?? schema.exclusiveMaximum}
+            precision={type === 'integer' ? 0 : undefined}
+            status={status}
+            disabled={disabled}
+            className="w-full"
+          />
+        )
+
+      case 'object':
+        if (!schema.properties || typeof value === 'string') {
+          return <JsonTextInput value={value} onChange={onChange} placeholder={t('toolConfig.input.object.placeholder')} disabled={disabled} hasError={!!error} />
+        }
+        return (
+          <div className="space-y-3 rounded border border-gray-200 p-3">
+            {Object.entries(schema.properties).map(([key, propertySchema]) => (
+              <div key={key}>
+                <SchemaFieldLabel name={key} schema={propertySchema} required={!!schema.required?.includes(key)} />
+                <div className="mt-1">
+                  <JsonSchemaField
+                    schema={propertySchema}
+                    value={value?.[key]}
+                    onChange={(propertyValue) => onChange({ ...(value || {}), [key]: propertyValue })}
+                    path={joinPath(path, key)}
+                    issues={issues}
+                    enumLabels={enumLabels}
+                    disabled={disabled}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+
+      case 'array': {
+        if (!schema.items || (value !== undefined && value !== null && !Array.isArray(value))) {
+          return <JsonTextInput value={value} onChange={onChange} placeholder={t('toolConfig.input.array.placeholder')} disabled={disabled} hasError={!!error} />
+        }
+        const items: any[] = value || []
+        return (
+          <div className="space-y-2">
+            {items.map((item, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <div className="min-w-0 flex-1">
+                  <JsonSchemaField
+                    schema={schema.items!}
+                    value={item}
+                    onChange={(itemValue) => onChange(items.map((current, i) => i === index ? itemValue : current))}
+                    path={joinPath(path, index)}
+                    issues={issues}
+                    enumLabels={enumLabels}
+                    disabled={disabled}
+                  />
+                </div>
+                <Button
+                  type="text"
+                  size="small"
+                  icon={<DeleteOutlined />}
+                  onClick={() => onChange(items.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                  title={t('toolConfig.input.array.remove')}
+                />
+              </div>
+            ))}
+            <Button
+              size="small"
+              icon={<PlusOutlined />}
+              onClick={() => onChange([...items, defaultValueFor(schema.items!)])}
+              disabled={disabled || (schema.maxItems !== undefined && items.length >= schema.maxItems)}
+            >
+              {t('toolConfig.input.array.add')}
+            </Button>
+          </div>
+        )
+      }
+
+      default: {
+        const placeholder = t('toolConfig.input.string.placeholder', { name: schema.title || path })
+        if (isSecretSchema(schema)) {
+          return (
+            <Input.Password
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder={placeholder}
+              status={status}
+              disabled={disabled}
+              autoComplete="new-password"
+            />
+          )
+        }
+        if (typeof value === 'string' && value.length > LONG_TEXT_LENGTH) {
+          return (
+            <Input.TextArea
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder={placeholder}
+              autoSize={{ minRows: 1, maxRows: 8 }}
+              style={{ resize: 'vertical' }}
+              status={status}
+              disabled={disabled}
+            />
+          )
+        }
+        return (
+          <Input
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            maxLength={schema.maxLength}
+            status={status}
+            disabled={disabled}
+          />
+        )
+      }
+    }
+  }
+
+  return (
+    <div>
+      {renderControl()}
+      {error && <div className="mt-1 text-xs text-red-500">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+"use client"
+
+import { useEffect, useMemo, useState } from 'react'
+import { Modal, Button, Input, Select, Tag, Typography, Empty, Spin, Card } from 'antd'
+import { ArrowLeftOutlined, CheckOutlined, DownloadOutlined, LinkOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { McpServer, McpServerConfig } from '@/services/mcpService'
+import { validateJsonSchema } from '@/lib/jsonSchema'
+import JsonSchemaField, { SchemaFieldLabel } from './JsonSchemaField'
+import { formatSchemaIssue } from '../utils/toolParamSchema'
+import {
+  buildCatalogServerConfig,
+  catalogConfigSchema,
+  loadMcpCatalog,
+  localize,
+  McpCatalogServer,
+} from '../utils/mcpCatalog'
+
+const { Text, Paragraph } = Typography
+
+interface McpCatalogModalProps {
+  open: boolean
+  installedServers: McpServer[]
+  installing: boolean
+  onCancel: () => void
+  onInstall: (config: McpServerConfig) => void
+}
+
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9]+$/
+const MAX_SERVER_NAME_LENGTH = 20
+const MAX_PREVIEW_TOOLS = 4
+
+// Package a stdio server runs, the first argument that is not a flag like "-y"
+const packageArg = (args?: string[]) => args?.find(arg => !arg.startsWith('-'))
+
+// Same package or URL as an installed server, whatever name and config it was installed with
+const isInstalled = (entry: McpCatalogServer, servers: McpServer[]) =>
+  servers.some(server => entry.transport === 'stdio'
+    ? server.transport === 'stdio' && server.command === entry.command && packageArg(server.args) === packageArg(entry.args)
+    : server.mcp_url.split('?')[0] === entry.url?.split('?')[0])
+
+// A free service name close to the suggested one, a second install of an entry gets a number
+const freeServiceName = (suggested: string, servers: McpServer[]) => {
+  const taken = new Set(servers.map(server => server.service_name))
+  if (!taken.has(suggested)) return suggested
+  let index = 2
+  while (taken.has(`${suggested}${index}`)) index++
+  return `${suggested}${index}`
+}
+
+/**
+ * Servers of the local MCP registry, installed with the config form generated from the fields of an entry
+ */
+export default function McpCatalogModal({ open, installedServers, installing, onCancel, onInstall }: McpCatalogModalProps) {
+  const { t, i18n } = useTranslation('common')
+  const language = i18n.language
+  const [catalog, setCatalog] = useState<McpCatalogServer[]>([])
+  const [loading, setLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [category, setCategory] = useState<string | undefined>(undefined)
+  // Entry being installed, the list is shown when none is selected
+  const [selected, setSelected] = useState<McpCatalogServer | null>(null)
+  const [serviceName, setServiceName] = useState('')
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [issues, setIssues] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (!open) return
+    setSelected(null)
+    setSearch('')
+    setCategory(undefined)
+    setLoading(true)
+    setLoadError(null)
+    loadMcpCatalog()
+      .then(setCatalog)
+      .catch(error => {
+        console.error(t('mcpConfig.catalog.loadFailed'), error)
+        setLoadError(t('mcpConfig.catalog.loadFailed'))
+        setCatalog([])
+      })
+      .finally(() => setLoading(false))
+  }, [open])
+
+  const categories = useMemo(() => Array.from(new Set(catalog.map(entry => entry.category))).sort(), [catalog])
+
+  const visibleEntries = useMemo(() => {
+    const keyword = search.trim().toLowerCase()
+    return catalog.filter(entry => {
+      if (category && entry.category !== category) return false
+      if (!keyword) return true
+      return [entry.name, localize(entry.description, language), ...entry.tools.map(tool => tool.name)]
+        .some(text => text.toLowerCase().includes(keyword))
+    })
+  }, [catalog, search, category, language])
+
+  const selectEntry = (entry: McpCatalogServer) => {
+    setSelected(entry)
+    setServiceName(freeServiceName(entry.service_name, installedServers))
+    setValues(Object.fromEntries(entry.config.filter(field => field.default).map(field => [field.key, field.default!])))
+    setIssues({})
+  }
+
+  const configSchema = selected ? catalogConfigSchema(selected, language) : null
+
+  const handleInstall = () => {
+    if (!selected || !configSchema) return
+
+    const nextIssues: Record<string, string> = {}
+    const name = serviceName.trim()
+    if (!name) {
+      nextIssues.service_name = t('mcpConfig.form.error.nameRequired')
+    } else if (!SERVER_NAME_PATTERN.test(name)) {
+      nextIssues.service_name = t('mcpConfig.message.invalidServerName')
+    } else if (name.length > MAX_SERVER_NAME_LENGTH) {
+      nextIssues.service_name = t('mcpConfig.message.serverNameTooLong')
+    } else if (installedServers.some(server => server.service_name === name)) {
+      nextIssues.service_name = t('mcpConfig.message.serverExists')
+    }
+    for (const issue of validateJsonSchema(configSchema, values)) {
+      nextIssues[issue.path] = nextIssues[issue.path] ?? formatSchemaIssue(issue, t)
+    }
+    setIssues(nextIssues)
+    if (Object.keys(nextIssues).length > 0) return
+
+    onInstall(buildCatalogServerConfig(selected, name, values))
+  }
+
+  const renderEntry = (entry: McpCatalogServer) => {
+    const installed = isInstalled(entry, installedServers)
+    return (
+      <Card
+        key={entry.id}
+        size="small"
+        title={
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <span>{entry.name}</span>
+            <Tag color={entry.transport === 'stdio' ? 'purple' : entry.transport === 'streamable_http' ? 'cyan' : 'blue'}>
+              {t(`mcpConfig.transport.${entry.transport}`)}
+            </Tag>
+            {installed && <Tag color="green" icon={<CheckOutlined />}>{t('mcpConfig.catalog.installed')}</Tag>}
+          </div>
+        }
+        extra={
+          <Button type="link" size="small" icon={<DownloadOutlined />} onClick={() => selectEntry(entry)}>
+            {t('mcpConfig.catalog.install')}
+          </Button>
+        }
+      >
+        <Paragraph type="secondary" ellipsis={{ rows: 2 }} style={{ marginBottom: 8 }}>
+          {localize(entry.description, language)}
+        </Paragraph>
+        {entry.config.some(field => field.required) && (
+          <div style={{ marginBottom: 8, fontSize: 12 }}>
+            <Text type="secondary">{t('mcpConfig.catalog.requires')} </Text>
+            {entry.config.filter(field => field.required).map(field => localize(field.label, language)).join(', ')}
+          </div>
+        )}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4 }}>
+          {entry.tools.slice(0, MAX_PREVIEW_TOOLS).map(tool => (
+            <Tag key={tool.name} title={localize(tool.description, language)}>{tool.name}</Tag>
+          ))}
+          {entry.tools.length > MAX_PREVIEW_TOOLS && (
+            <Tag>{t('mcpConfig.catalog.moreTools', { count: entry.tools.length - MAX_PREVIEW_TOOLS })}</Tag>
+          )}
+        </div>
+      </Card>
+    )
+  }
+
+  const renderList = () => {
+    if (loading) {
+      return <div style={{ textAlign: 'center', padding: '40px 0' }}><Spin /></div>
+    }
+    if (loadError) {
+      return <Empty description={loadError} />
+    }
+    return (
+      <>
+        <div style={{ display: 'flex', gap: 8, marginBottom: 16 }}>
+          <Input.Search
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('mcpConfig.catalog.searchPlaceholder')}
+            allowClear
+          />
+          <Select
+            value={category}
+            onChange={setCategory}
+            options={categories.map(item => ({ label: item, value: item }))}
+            placeholder={t('mcpConfig.catalog.allCategories')}
+            allowClear
+            style={{ width: 200 }}
+          />
+        </div>
+        {visibleEntries.length === 0 ? (
+          <Empty description={t('mcpConfig.catalog.empty')} />
+        ) : (
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, minmax(0, 1fr))', gap: 12, maxHeight: 500, overflow: 'auto' }}>
+            {visibleEntries.map(renderEntry)}
+          </div>
+        )}
+      </>
+    )
+  }
+
+  const renderInstallForm = (entry: McpCatalogServer, schema: NonNullable<typeof configSchema>) => (
+    <div>
+      <Button type="link" icon={<ArrowLeftOutlined />} onClick={() => setSelected(null)} style={{ padding: 0 }} disabled={installing}>
+        {t('mcpConfig.catalog.back')}
+      </Button>
+      <Paragraph style={{ marginTop: 8 }}>
+        {localize(entry.description, language)}
+        {entry.homepage && (
+          <a href={entry.homepage} target="_blank" rel="noopener noreferrer" style={{ marginLeft: 8 }}>
+            <LinkOutlined /> {t('mcpConfig.catalog.homepage')}
+          </a>
+        )}
+      </Paragraph>
+
+      <div className="space-y-4">
+        <div className="flex items-start gap-4">
+          <div className="flex-[0.3] pt-1">
+            <SchemaFieldLabel name={t('mcpConfig.form.name')} schema={{ type: 'string' }} required />
+          </div>
+          <div className="flex-[0.7]">
+            <Input
+              value={serviceName}
+              onChange={(e) => setServiceName(e.target.value)}
+              maxLength={MAX_SERVER_NAME_LENGTH}
+              status={issues.service_name ? 'error' : undefined}
+              disabled={installing}
+            />
+            {issues.service_name && <div className="text-xs text-red-500 mt-1">{issues.service_name}</div>}
+          </div>
+        </div>
+        {Object.entries(schema.properties || {}).map(([key, fieldSchema]) => (
+          <div key={key} className="flex items-start gap-4">
+            <div className="flex-[0.3] pt-1">
+              <SchemaFieldLabel name={key} schema={fieldSchema} required={!!schema.required?.includes(key)} />
+            </div>
+            <div className="flex-[0.7]">
+              <JsonSchemaField
+                schema={fieldSchema}
+                value={values[key]}
+                onChange={(value) => setValues(prev => ({ ...prev, [key]: value ?? '' }))}
+                path={key}
+                issues={issues}
+                disabled={installing}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ marginTop: 16 }}>
+        <Text type="secondary" style={{ fontSize: 12 }}>{t('mcpConfig.catalog.toolsPreview')}</Text>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4, marginTop: 4 }}>
+          {entry.tools.map(tool => (
+            <div key={tool.name} style={{ fontSize: 12 }}>
+              <Text code>{tool.name}</Text>
+              <Text type="secondary"> {localize(tool.description, language)}</Text>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+
+  return (
+    <Modal
+      title={selected ? t('mcpConfig.catalog.installTitle', { name: selected.name }) : t('mcpConfig.catalog.title')}
+      open={open}
+      onCancel={installing ? undefined : onCancel}
+      width={800}
+      maskClosable={!installing}
+      destroyOnClose
+      footer={selected ? [
+        <Button key="cancel" onClick={() => setSelected(null)} disabled={installing}>
+          {t('mcpConfig.catalog.back')}
+        </Button>,
+        <Button key="install" type="primary" onClick={handleInstall} loading={installing}>
+          {t('mcpConfig.catalog.install')}
+        </Button>
+      ] : [
+        <Button key="close" onClick={onCancel}>
+          {t('mcpConfig.modal.close')}
+        </Button>
+      ]}
+    >
+      {selected && configSchema ? renderInstallForm(selected, configSchema) : renderList()}
+    </Modal>
+  )
+}
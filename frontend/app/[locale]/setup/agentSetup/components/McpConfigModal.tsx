@@ -1,10 +1,26 @@
 "use client"
 
 import { useState, useEffect } from 'react'
-import { Modal, Button, Input, Table, Space, Typography, Card, Divider, Tooltip, App } from 'antd'
-import { DeleteOutlined, EyeOutlined, PlusOutlined, LoadingOutlined, ExpandAltOutlined, CompressOutlined, RedoOutlined } from '@ant-design/icons'
-import { getMcpServerList, addMcpServer, deleteMcpServer, getMcpTools, updateToolList, checkMcpServerHealth, McpServer, McpTool } from '@/services/mcpService'
+import { Modal, Button, Table, Space, Typography, Tooltip, App, Tag, Popover, Badge } from 'antd'
+import { DeleteOutlined, EyeOutlined, PlusOutlined, LoadingOutlined, ExpandAltOutlined, CompressOutlined, RedoOutlined, EditOutlined, WarningOutlined, AppstoreOutlined } from '@ant-design/icons'
+import {
+  getMcpServerList,
+  addMcpServer,
+  updateMcpServer,
+  deleteMcpServer,
+  getMcpServerUsage,
+  getMcpTools,
+  updateToolList,
+  checkMcpServerHealth,
+  isMcpToolExposed,
+  McpConnectionError,
+  McpServer,
+  McpServerConfig,
+  McpTool,
+} from '@/services/mcpService'
 import { useTranslation } from 'react-i18next'
+import McpServerFormModal from './McpServerFormModal'
+import McpCatalogModal from './McpCatalogModal'
 
 const { Text, Title } = Typography
 
@@ -18,16 +34,20 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
   const { message, modal } = App.useApp()
   const [serverList, setServerList] = useState<McpServer[]>([])
   const [loading, setLoading] = useState(false)
-  const [addingServer, setAddingServer] = useState(false)
-  const [newServerName, setNewServerName] = useState('')
-  const [newServerUrl, setNewServerUrl] = useState('')
+  const [savingServer, setSavingServer] = useState(false)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  // Server edited in the form, null when adding one
+  const [editingServer, setEditingServer] = useState<McpServer | null>(null)
+  const [isCatalogOpen, setIsCatalogOpen] = useState(false)
   const [toolsModalVisible, setToolsModalVisible] = useState(false)
   const [currentServerTools, setCurrentServerTools] = useState<McpTool[]>([])
-  const [currentServerName, setCurrentServerName] = useState('')
+  const [currentServer, setCurrentServer] = useState<McpServer | null>(null)
   const [loadingTools, setLoadingTools] = useState(false)
   const [expandedDescriptions, setExpandedDescriptions] = useState<Set<string>>(new Set())
   const [updatingTools, setUpdatingTools] = useState(false)
   const [healthCheckLoading, setHealthCheckLoading] = useState<{ [key: string]: boolean }>({})
+  // Connection errors reported by the last health check of each server, newer than the ones of the list
+  const [errorLogs, setErrorLogs] = useState<{ [serviceName: string]: McpConnectionError[] }>({})
 
   // 加载MCP服务器列表
   const loadServerList = async () => {
@@ -46,77 +66,82 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
     }
   }
 
-  // 添加MCP服务器
-  const handleAddServer = async () => {
-    if (!newServerName.trim() || !newServerUrl.trim()) {
-      message.error(t('mcpConfig.message.completeServerInfo'))
-      return
-    }
-
-    // 验证服务器名称格式
-    const serverName = newServerName.trim()
-    const nameRegex = /^[a-zA-Z0-9]+$/
-    
-    if (!nameRegex.test(serverName)) {
-      message.error(t('mcpConfig.message.invalidServerName'))
-      return
-    }
-    
-    if (serverName.length > 20) {
-      message.error(t('mcpConfig.message.serverNameTooLong'))
-      return
+  // 服务器变更后自动刷新工具列表
+  const refreshToolsAfterChange = async (successKey: string, failedKey: string) => {
+    setUpdatingTools(true)
+    try {
+      const updateResult = await updateToolList()
+      if (updateResult.success) {
+        message.success(t(successKey))
+        // 通知父组件更新工具列表
+        window.dispatchEvent(new CustomEvent('toolsUpdated'))
+      } else {
+        message.warning(t(failedKey))
+      }
+    } catch (updateError) {
+      console.log(t('mcpConfig.debug.autoUpdateToolsFailed'), updateError)
+      message.warning(t(failedKey))
+    } finally {
+      setUpdatingTools(false)
     }
+  }
 
-    // 检查是否已存在相同的服务器
-    const exists = serverList.some(
-      server => server.service_name === serverName || server.mcp_url === newServerUrl.trim()
-    )
-    if (exists) {
-      message.error(t('mcpConfig.message.serverExists'))
-      return
-    }
+  const openServerForm = (server: McpServer | null) => {
+    setEditingServer(server)
+    setIsFormOpen(true)
+  }
 
-    setAddingServer(true)
+  // 添加或编辑MCP服务器，original为空时添加（手动填写或从目录安装）
+  const handleSaveServer = async (config: McpServerConfig, original: McpServer | null) => {
+    setSavingServer(true)
     try {
-      const result = await addMcpServer(newServerUrl.trim(), serverName)
+      const result = original
+        ? await updateMcpServer(original.service_name, config)
+        : await addMcpServer(config)
       if (result.success) {
-        message.success(t('mcpConfig.message.addServerSuccess'))
-        setNewServerName('')
-        setNewServerUrl('')
+        message.success(original ? t('mcpConfig.message.updateServerSuccess') : t('mcpConfig.message.addServerSuccess'))
+        setIsFormOpen(false)
+        setIsCatalogOpen(false)
         await loadServerList() // 重新加载列表
-        
-        // 设置工具更新状态并自动刷新工具列表
-        setUpdatingTools(true)
-        try {
-          const updateResult = await updateToolList()
-          if (updateResult.success) {
-            message.success(t('mcpConfig.message.addServerSuccessToolsUpdated'))
-            // 通知父组件更新工具列表
-            window.dispatchEvent(new CustomEvent('toolsUpdated'))
-          } else {
-            message.warning(t('mcpConfig.message.addServerSuccessToolsFailed'))
-          }
-        } catch (updateError) {
-          console.log(t('mcpConfig.debug.autoUpdateToolsFailed'), updateError)
-          message.warning(t('mcpConfig.message.addServerSuccessToolsFailed'))
-        } finally {
-          setUpdatingTools(false)
-        }
+
+        // Transport, credentials and filters all change which tools the server exposes
+        await refreshToolsAfterChange(
+          original ? 'mcpConfig.message.toolsListUpdated' : 'mcpConfig.message.addServerSuccessToolsUpdated',
+          original ? 'mcpConfig.message.toolsListUpdateFailed' : 'mcpConfig.message.addServerSuccessToolsFailed'
+        )
       } else {
         message.error(result.message)
       }
     } catch (error) {
-      message.error(t('mcpConfig.message.addServerFailed'))
+      message.error(original ? t('mcpConfig.message.updateServerFailed') : t('mcpConfig.message.addServerFailed'))
     } finally {
-      setAddingServer(false)
+      setSavingServer(false)
     }
   }
 
-  // 删除MCP服务器
+  // 删除MCP服务器，先列出仍在使用其工具的智能体
   const handleDeleteServer = async (server: McpServer) => {
+    const usage = await getMcpServerUsage(server.service_name)
     modal.confirm({
       title: t('mcpConfig.delete.confirmTitle'),
-      content: t('mcpConfig.delete.confirmContent', { name: server.service_name }),
+      content: (
+        <div>
+          <div>{t('mcpConfig.delete.confirmContent', { name: server.service_name })}</div>
+          {!usage.success && (
+            <Text type="warning" style={{ display: 'block', marginTop: 8 }}>{t('mcpConfig.delete.usageUnknown')}</Text>
+          )}
+          {usage.data.length > 0 && (
+            <div style={{ marginTop: 8 }}>
+              <Text type="danger">{t('mcpConfig.delete.usedBy', { count: usage.data.length })}</Text>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginTop: 4 }}>
+                {usage.data.map(agent => (
+                  <Tag key={agent.agent_id}>{agent.display_name || agent.name}</Tag>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      ),
       okType: 'danger',
       cancelButtonProps: { disabled: updatingTools },
       okButtonProps: { disabled: updatingTools, loading: updatingTools },
@@ -130,22 +155,7 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
             // 删除成功后立即关闭确认弹窗，然后异步更新工具列表
             setTimeout(async () => {
               message.info(t('mcpConfig.message.updatingToolsList'))
-              setUpdatingTools(true)
-              try {
-                const updateResult = await updateToolList()
-                if (updateResult.success) {
-                  message.success(t('mcpConfig.message.toolsListUpdated'))
-                  // 通知父组件更新工具列表
-                  window.dispatchEvent(new CustomEvent('toolsUpdated'))
-                } else {
-                  message.warning(t('mcpConfig.message.toolsListUpdateFailed'))
-                }
-              } catch (updateError) {
-                console.log(t('mcpConfig.debug.autoUpdateToolsFailed'), updateError)
-                message.warning(t('mcpConfig.message.toolsListUpdateFailed'))
-              } finally {
-                setUpdatingTools(false)
-              }
+              await refreshToolsAfterChange('mcpConfig.message.toolsListUpdated', 'mcpConfig.message.toolsListUpdateFailed')
             }, 100) // 给确认弹窗关闭一点时间
           } else {
             message.error(result.message)
@@ -159,7 +169,7 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
 
   // 查看服务器工具
   const handleViewTools = async (server: McpServer) => {
-    setCurrentServerName(server.service_name)
+    setCurrentServer(server)
     setLoadingTools(true)
     setToolsModalVisible(true)
     setExpandedDescriptions(new Set()) // 重置展开状态
@@ -198,6 +208,7 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
     setHealthCheckLoading((prev) => ({ ...prev, [key]: true }))
     try {
       const result = await checkMcpServerHealth(server.mcp_url, server.service_name)
+      setErrorLogs((prev) => ({ ...prev, [server.service_name]: result.recentErrors }))
       if (result.success) {
         message.success(t('mcpConfig.message.healthCheckSuccess'))
         await loadServerList()
@@ -219,7 +230,7 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
       title: t('mcpConfig.serverList.column.name'),
       dataIndex: 'service_name',
       key: 'service_name',
-      width: '25%',
+      width: '20%',
       ellipsis: true,
       render: (text: string, record: McpServer) => {
         const key = `${record.service_name}__${record.mcp_url}`
@@ -246,21 +257,43 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
         )
       },
     },
+    {
+      title: t('mcpConfig.serverList.column.transport'),
+      dataIndex: 'transport',
+      key: 'transport',
+      width: '12%',
+      render: (transport: McpServer['transport']) => (
+        <Tag color={transport === 'stdio' ? 'purple' : transport === 'streamable_http' ? 'cyan' : 'blue'}>
+          {t(`mcpConfig.transport.${transport}`)}
+        </Tag>
+      ),
+    },
     {
       title: t('mcpConfig.serverList.column.url'),
       dataIndex: 'mcp_url',
       key: 'mcp_url',
-      width: '40%',
+      width: '28%',
       ellipsis: true,
+      render: (url: string, record: McpServer) => (
+        <span>
+          {record.transport === 'stdio' ? [record.command, ...(record.args || [])].join(' ') : url}
+          {record.tool_filter.mode !== 'all' && (
+            <Tag style={{ marginLeft: 8 }}>
+              {t(`mcpConfig.serverList.filter.${record.tool_filter.mode}`, { count: record.tool_filter.tools.length })}
+            </Tag>
+          )}
+        </span>
+      ),
     },
     {
       title: t('mcpConfig.serverList.column.action'),
       key: 'action',
-      width: '35%',
+      width: '40%',
       render: (_: any, record: McpServer) => {
         const key = `${record.service_name}__${record.mcp_url}`
+        const errors = errorLogs[record.service_name] ?? record.recent_errors
         return (
-          <Space size="small">
+          <Space size={0} wrap>
             <Button
               type="link"
               icon={<RedoOutlined />}
@@ -293,6 +326,39 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
                 </Button>
               </Tooltip>
             )}
+            <Button
+              type="link"
+              icon={<EditOutlined />}
+              onClick={() => openServerForm(record)}
+              size="small"
+              disabled={updatingTools}
+            >
+              {t('mcpConfig.serverList.button.edit')}
+            </Button>
+            {errors.length > 0 && (
+              <Popover
+                title={t('mcpConfig.errorLog.title', { name: record.service_name })}
+                trigger="click"
+                content={
+                  <div style={{ maxWidth: 480, maxHeight: 300, overflow: 'auto' }}>
+                    {errors.map((error, index) => (
+                      <div key={index} style={{ marginBottom: 8 }}>
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          {error.time ? new Date(error.time).toLocaleString() : ''}
+                        </Text>
+                        <div style={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{error.message}</div>
+                      </div>
+                    ))}
+                  </div>
+                }
+              >
+                <Button type="link" danger size="small" icon={<WarningOutlined />}>
+                  <Badge count={errors.length} size="small" offset={[6, -2]}>
+                    <span style={{ color: 'inherit' }}>{t('mcpConfig.serverList.button.errors')}</span>
+                  </Badge>
+                </Button>
+              </Popover>
+            )}
             <Button
               type="link"
               danger
@@ -317,11 +383,20 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
       key: 'name',
       width: '30%',
     },
+    {
+      title: t('mcpConfig.toolsList.column.exposed'),
+      key: 'exposed',
+      width: '15%',
+      render: (_: any, record: McpTool) =>
+        !currentServer || isMcpToolExposed(currentServer.tool_filter, record.name)
+          ? <Tag color="green">{t('mcpConfig.toolsList.exposed')}</Tag>
+          : <Tag>{t('mcpConfig.toolsList.hidden')}</Tag>,
+    },
     {
       title: t('mcpConfig.toolsList.column.description'),
       dataIndex: 'description',
       key: 'description',
-      width: '70%',
+      width: '55%',
       render: (text: string, record: McpTool) => {
         const isExpanded = expandedDescriptions.has(record.name)
         const maxLength = 100 // 描述超过100字符时显示展开按钮
@@ -389,43 +464,6 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
               <Text style={{ color: '#52c41a' }}>{t('mcpConfig.status.updatingToolsHint')}</Text>
             </div>
           )}
-          {/* 添加服务器区域 */}
-          <Card size="small" style={{ marginBottom: 16 }}>
-            <Title level={5} style={{ margin: '0 0 12px 0' }}>
-              <PlusOutlined style={{ marginRight: 8 }} />
-              {t('mcpConfig.addServer.title')}
-            </Title>
-            <Space direction="vertical" style={{ width: '100%' }}>
-              <div style={{ display: 'flex', gap: 8 }}>
-                <Input
-                  placeholder={t('mcpConfig.addServer.namePlaceholder')}
-                  value={newServerName}
-                  onChange={(e) => setNewServerName(e.target.value)}
-                  style={{ flex: 1 }}
-                  maxLength={20}
-                  disabled={updatingTools || addingServer}
-                />
-                <Input
-                  placeholder={t('mcpConfig.addServer.urlPlaceholder')}
-                  value={newServerUrl}
-                  onChange={(e) => setNewServerUrl(e.target.value)}
-                  style={{ flex: 2 }}
-                  disabled={updatingTools || addingServer}
-                />
-                <Button
-                  type="primary"
-                  onClick={handleAddServer}
-                  loading={addingServer || updatingTools}
-                  icon={(addingServer || updatingTools) ? <LoadingOutlined /> : <PlusOutlined />}
-                  disabled={updatingTools}
-                >
-                  {updatingTools ? t('mcpConfig.addServer.button.updating') : t('mcpConfig.addServer.button.add')}
-                </Button>
-              </div>
-            </Space>
-          </Card>
-
-          <Divider style={{ margin: '16px 0' }} />
 
           {/* 服务器列表 */}
           <div>
@@ -433,6 +471,23 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
               <Title level={5} style={{ margin: 0 }}>
                 {t('mcpConfig.serverList.title')}
               </Title>
+              <Space>
+                <Button
+                  icon={<AppstoreOutlined />}
+                  onClick={() => setIsCatalogOpen(true)}
+                  disabled={updatingTools}
+                >
+                  {t('mcpConfig.catalog.browse')}
+                </Button>
+                <Button
+                  type="primary"
+                  icon={updatingTools ? <LoadingOutlined /> : <PlusOutlined />}
+                  onClick={() => openServerForm(null)}
+                  disabled={updatingTools}
+                >
+                  {updatingTools ? t('mcpConfig.addServer.button.updating') : t('mcpConfig.addServer.title')}
+                </Button>
+              </Space>
             </div>
             <Table
               columns={columns}
@@ -449,9 +504,26 @@ export default function McpConfigModal({ visible, onCancel }: McpConfigModalProp
         </div>
       </Modal>
 
+      <McpServerFormModal
+        open={isFormOpen}
+        server={editingServer}
+        existingServers={serverList}
+        saving={savingServer}
+        onCancel={() => setIsFormOpen(false)}
+        onSubmit={(config) => handleSaveServer(config, editingServer)}
+      />
+
+      <McpCatalogModal
+        open={isCatalogOpen}
+        installedServers={serverList}
+        installing={savingServer}
+        onCancel={() => setIsCatalogOpen(false)}
+        onInstall={(config) => handleSaveServer(config, null)}
+      />
+
       {/* 工具列表弹窗 */}
       <Modal
-        title={`${currentServerName} - ${t('mcpConfig.toolsList.title')}`}
+        title={`${currentServer?.service_name || ''} - ${t('mcpConfig.toolsList.title')}`}
         open={toolsModalVisible}
         onCancel={() => setToolsModalVisible(false)}
         width={1000}
@@ -0,0 +1,319 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Modal, Button, Input, InputNumber, Radio, Select, Typography } from 'antd'
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import {
+  DEFAULT_MCP_TIMEOUT,
+  getMcpTools,
+  McpServer,
+  McpServerConfig,
+  McpToolFilter,
+  McpTransport,
+} from '@/services/mcpService'
+
+const { Text } = Typography
+
+interface McpServerFormModalProps {
+  open: boolean
+  // Server being edited, null to add a new one
+  server: McpServer | null
+  existingServers: McpServer[]
+  saving: boolean
+  onCancel: () => void
+  onSubmit: (config: McpServerConfig) => void
+}
+
+// A header or environment variable, a null value is a stored secret left unchanged
+interface SecretPair {
+  key: string
+  value: string | null
+}
+
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9]+$/
+const MAX_SERVER_NAME_LENGTH = 20
+const MAX_TIMEOUT = 600
+
+const toPairs = (record?: Record<string, string | null>): SecretPair[] =>
+  Object.entries(record || {}).map(([key, value]) => ({ key, value }))
+
+const toRecord = (pairs: SecretPair[]): Record<string, string | null> =>
+  Object.fromEntries(pairs.filter(pair => pair.key.trim()).map(pair => [pair.key.trim(), pair.value]))
+
+const hasDuplicateKeys = (pairs: SecretPair[]) => {
+  const keys = pairs.map(pair => pair.key.trim()).filter(Boolean)
+  return new Set(keys).size !== keys.length
+}
+
+// Key / secret value rows, used for the request headers and the environment of stdio servers
+function SecretPairsInput({ pairs, onChange, keyPlaceholder, disabled }: {
+  pairs: SecretPair[]
+  onChange: (pairs: SecretPair[]) => void
+  keyPlaceholder: string
+  disabled?: boolean
+}) {
+  const { t } = useTranslation('common')
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      {pairs.map((pair, index) => (
+        <div key={index} style={{ display: 'flex', gap: 8 }}>
+          <Input
+            value={pair.key}
+            onChange={(e) => onChange(pairs.map((item, i) => i === index ? { ...item, key: e.target.value } : item))}
+            placeholder={keyPlaceholder}
+            style={{ flex: 1 }}
+            disabled={disabled}
+          />
+          <Input.Password
+            value={pair.value ?? ''}
+            onChange={(e) => onChange(pairs.map((item, i) => i === index ? { ...item, value: e.target.value } : item))}
+            placeholder={pair.value === null ? t('mcpConfig.form.secretKept') : t('mcpConfig.form.secretValue')}
+            style={{ flex: 2 }}
+            autoComplete="new-password"
+            disabled={disabled}
+          />
+          <Button
+            type="text"
+            icon={<DeleteOutlined />}
+            onClick={() => onChange(pairs.filter((_, i) => i !== index))}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+      <Button
+        size="small"
+        icon={<PlusOutlined />}
+        onClick={() => onChange([...pairs, { key: '', value: '' }])}
+        style={{ alignSelf: 'flex-start' }}
+        disabled={disabled}
+      >
+        {t('mcpConfig.form.addPair')}
+      </Button>
+    </div>
+  )
+}
+
+const FormRow = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div style={{ display: 'flex', gap: 16, marginBottom: 16 }}>
+    <Text style={{ width: 120, flexShrink: 0, paddingTop: 4 }}>{label}</Text>
+    <div style={{ flex: 1, minWidth: 0 }}>{children}</div>
+  </div>
+)
+
+/**
+ * Add or edit an MCP server: transport, connection, credentials, timeout and the tools it exposes
+ */
+export default function McpServerFormModal({ open, server, existingServers, saving, onCancel, onSubmit }: McpServerFormModalProps) {
+  const { t } = useTranslation('common')
+  const [name, setName] = useState('')
+  const [transport, setTransport] = useState<McpTransport>('sse')
+  const [url, setUrl] = useState('')
+  const [command, setCommand] = useState('')
+  const [args, setArgs] = useState<string[]>([])
+  const [env, setEnv] = useState<SecretPair[]>([])
+  const [headers, setHeaders] = useState<SecretPair[]>([])
+  const [bearerToken, setBearerToken] = useState<string | null>(null)
+  const [timeout, setTimeoutValue] = useState<number>(DEFAULT_MCP_TIMEOUT)
+  const [toolFilter, setToolFilter] = useState<McpToolFilter>({ mode: 'all', tools: [] })
+  const [toolOptions, setToolOptions] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setName(server?.service_name || '')
+    setTransport(server?.transport || 'sse')
+    setUrl(server?.mcp_url || '')
+    setCommand(server?.command || '')
+    setArgs(server?.args || [])
+    setEnv(toPairs(server?.env))
+    setHeaders(toPairs(server?.headers))
+    // null keeps the stored token, a new server has none to keep
+    setBearerToken(server?.has_bearer_token ? null : '')
+    setTimeoutValue(server?.timeout || DEFAULT_MCP_TIMEOUT)
+    setToolFilter(server?.tool_filter || { mode: 'all', tools: [] })
+    setToolOptions([])
+    setError(null)
+
+    // The tools of a reachable server are offered in the allowlist / denylist
+    if (server?.status) {
+      getMcpTools(server.service_name, server.mcp_url).then(result => {
+        if (result.success) {
+          setToolOptions(result.data.map((tool: { name: string }) => tool.name))
+        }
+      })
+    }
+  }, [open, server])
+
+  const isRemote = transport !== 'stdio'
+
+  const validate = (): string | null => {
+    const serviceName = name.trim()
+    if (!serviceName) return t('mcpConfig.form.error.nameRequired')
+    if (!SERVER_NAME_PATTERN.test(serviceName)) return t('mcpConfig.message.invalidServerName')
+    if (serviceName.length > MAX_SERVER_NAME_LENGTH) return t('mcpConfig.message.serverNameTooLong')
+
+    const others = existingServers.filter(item => item.service_name !== server?.service_name)
+    if (others.some(item => item.service_name === serviceName)) return t('mcpConfig.message.serverExists')
+
+    if (isRemote) {
+      if (!/^https?:\/\/\S+$/.test(url.trim())) return t('mcpConfig.form.error.invalidUrl')
+      if (others.some(item => item.mcp_url && item.mcp_url === url.trim())) return t('mcpConfig.message.serverExists')
+      if (hasDuplicateKeys(headers)) return t('mcpConfig.form.error.duplicateHeader')
+    } else {
+      if (!command.trim()) return t('mcpConfig.form.error.commandRequired')
+      if (hasDuplicateKeys(env)) return t('mcpConfig.form.error.duplicateEnv')
+    }
+
+    if (toolFilter.mode === 'allow' && toolFilter.tools.length === 0) return t('mcpConfig.form.error.emptyAllowlist')
+    return null
+  }
+
+  const handleOk = () => {
+    const validationError = validate()
+    setError(validationError)
+    if (validationError) return
+
+    onSubmit({
+      service_name: name.trim(),
+      transport,
+      mcp_url: isRemote ? url.trim() : '',
+      command: isRemote ? undefined : command.trim(),
+      args: isRemote ? undefined : args,
+      env: isRemote ? undefined : toRecord(env),
+      headers: isRemote ? toRecord(headers) : {},
+      bearer_token: isRemote ? bearerToken : '',
+      timeout,
+      tool_filter: toolFilter.mode === 'all' ? { mode: 'all', tools: [] } : toolFilter,
+    })
+  }
+
+  return (
+    <Modal
+      title={server ? t('mcpConfig.form.editTitle', { name: server.service_name }) : t('mcpConfig.addServer.title')}
+      open={open}
+      onCancel={onCancel}
+      onOk={handleOk}
+      okText={server ? t('mcpConfig.form.save') : t('mcpConfig.addServer.button.add')}
+      confirmLoading={saving}
+      width={720}
+      destroyOnClose
+    >
+      <FormRow label={t('mcpConfig.form.name')}>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('mcpConfig.addServer.namePlaceholder')}
+          maxLength={MAX_SERVER_NAME_LENGTH}
+          disabled={saving}
+        />
+      </FormRow>
+
+      <FormRow label={t('mcpConfig.form.transport')}>
+        <Radio.Group value={transport} onChange={(e) => setTransport(e.target.value)} disabled={saving}>
+          <Radio.Button value="sse">SSE</Radio.Button>
+          <Radio.Button value="streamable_http">Streamable HTTP</Radio.Button>
+          <Radio.Button value="stdio">stdio</Radio.Button>
+        </Radio.Group>
+      </FormRow>
+
+      {isRemote ? (
+        <>
+          <FormRow label={t('mcpConfig.form.url')}>
+            <Input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder={transport === 'sse' ? 'http://localhost:3001/sse' : 'http://localhost:3001/mcp'}
+              disabled={saving}
+            />
+          </FormRow>
+          <FormRow label={t('mcpConfig.form.bearerToken')}>
+            <Input.Password
+              value={bearerToken ?? ''}
+              onChange={(e) => setBearerToken(e.target.value)}
+              placeholder={bearerToken === null ? t('mcpConfig.form.secretKept') : t('mcpConfig.form.bearerTokenPlaceholder')}
+              autoComplete="new-password"
+              disabled={saving}
+            />
+          </FormRow>
+          <FormRow label={t('mcpConfig.form.headers')}>
+            <SecretPairsInput
+              pairs={headers}
+              onChange={setHeaders}
+              keyPlaceholder={t('mcpConfig.form.headerName')}
+              disabled={saving}
+            />
+          </FormRow>
+        </>
+      ) : (
+        <>
+          <FormRow label={t('mcpConfig.form.command')}>
+            <Input
+              value={command}
+              onChange={(e) => setCommand(e.target.value)}
+              placeholder="npx"
+              disabled={saving}
+            />
+          </FormRow>
+          <FormRow label={t('mcpConfig.form.args')}>
+            <Select
+              mode="tags"
+              value={args}
+              onChange={setArgs}
+              placeholder={t('mcpConfig.form.argsPlaceholder')}
+              open={false}
+              style={{ width: '100%' }}
+              disabled={saving}
+            />
+          </FormRow>
+          <FormRow label={t('mcpConfig.form.env')}>
+            <SecretPairsInput
+              pairs={env}
+              onChange={setEnv}
+              keyPlaceholder={t('mcpConfig.form.envName')}
+              disabled={saving}
+            />
+          </FormRow>
+        </>
+      )}
+
+      <FormRow label={t('mcpConfig.form.timeout')}>
+        <InputNumber
+          value={timeout}
+          onChange={(value) => setTimeoutValue(value || DEFAULT_MCP_TIMEOUT)}
+          min={1}
+          max={MAX_TIMEOUT}
+          precision={0}
+          addonAfter={t('mcpConfig.form.seconds')}
+          disabled={saving}
+        />
+      </FormRow>
+
+      <FormRow label={t('mcpConfig.form.toolFilterLabel')}>
+        <Radio.Group
+          value={toolFilter.mode}
+          onChange={(e) => setToolFilter({ ...toolFilter, mode: e.target.value })}
+          disabled={saving}
+        >
+          <Radio value="all">{t('mcpConfig.form.toolFilter.all')}</Radio>
+          <Radio value="allow">{t('mcpConfig.form.toolFilter.allow')}</Radio>
+          <Radio value="deny">{t('mcpConfig.form.toolFilter.deny')}</Radio>
+        </Radio.Group>
+        {toolFilter.mode !== 'all' && (
+          <Select
+            mode="tags"
+            value={toolFilter.tools}
+            onChange={(tools) => setToolFilter({ ...toolFilter, tools })}
+            options={toolOptions.map(tool => ({ label: tool, value: tool }))}
+            placeholder={t('mcpConfig.form.toolFilter.placeholder')}
+            style={{ width: '100%', marginTop: 8 }}
+            disabled={saving}
+          />
+        )}
+      </FormRow>
+
+      {error && <Text type="danger">{error}</Text>}
+    </Modal>
+  )
+}
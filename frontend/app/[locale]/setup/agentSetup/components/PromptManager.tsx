@@ -203,6 +203,8 @@ export interface PromptManagerProps {
   onExportAgent?: () => void
   onDeleteAgent?: () => void
   onDeleteSuccess?: () => void
+  onShowHistory?: () => void
+  onShowSchedules?: () => void
   getButtonTitle?: () => string
   
   // Agent being edited
@@ -239,6 +241,8 @@ export default function PromptManager({
   onExportAgent,
   onDeleteAgent,
   onDeleteSuccess,
+  onShowHistory,
+  onShowSchedules,
   getButtonTitle,
   editingAgent
 }: PromptManagerProps) {
@@ -419,6 +423,8 @@ export default function PromptManager({
             onExportAgent={onExportAgent}
             onDeleteAgent={onDeleteAgent}
             onDeleteSuccess={onDeleteSuccess}
+            onShowHistory={onShowHistory}
+            onShowSchedules={onShowSchedules}
             onSaveAgent={onSaveAgent}
             isCreatingNewAgent={isCreatingNewAgent}
             editingAgent={editingAgent}
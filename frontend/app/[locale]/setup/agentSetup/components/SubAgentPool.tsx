@@ -1,7 +1,7 @@
 "use client"
 
 import { App } from 'antd'
-import { UploadOutlined } from '@ant-design/icons'
+import { ApartmentOutlined, UploadOutlined } from '@ant-design/icons'
 import { useTranslation } from 'react-i18next'
 import { ScrollArea } from '@/components/ui/scrollArea'
 import { Agent } from '../ConstInterface'
@@ -10,6 +10,7 @@ interface SubAgentPoolProps {
   onEditAgent: (agent: Agent) => void;
   onCreateNewAgent: () => void;
   onImportAgent: () => void;
+  onShowOrchestration: () => void;
   onExitEditMode?: () => void; // 退出编辑模式的回调
   subAgentList?: Agent[];
   loadingAgents?: boolean;
@@ -26,6 +27,7 @@ export default function SubAgentPool({
   onEditAgent, 
   onCreateNewAgent, 
   onImportAgent,
+  onShowOrchestration,
   onExitEditMode,
   subAgentList = [],
   loadingAgents = false,
@@ -122,8 +124,16 @@ export default function SubAgentPool({
 
           {/* Agent列表区块 */}
           <div>
-            <div className="text-sm font-medium text-gray-600 mb-2 px-1">
-              {t('subAgentPool.section.agentList')} ({subAgentList.length})
+            <div className="flex items-center justify-between text-sm font-medium text-gray-600 mb-2 px-1">
+              <span>{t('subAgentPool.section.agentList')} ({subAgentList.length})</span>
+              <button
+                type="button"
+                className="flex items-center gap-1 text-xs font-normal text-blue-600 hover:text-blue-700"
+                onClick={onShowOrchestration}
+              >
+                <ApartmentOutlined />
+                {t('agentGraph.open')}
+              </button>
             </div>
             <div className="space-y-0">
               {subAgentList.map((agent) => {
@@ -1,10 +1,14 @@
 "use client"
 
 import { useState, useEffect } from 'react'
-import { Modal, Input, Switch, Select, InputNumber, Tag, App } from 'antd'
-import { Tool, ToolParam, OpenAIModel } from '../ConstInterface'
+import { Modal, Tag, App, Tabs, Select } from 'antd'
+import { ApprovalPolicy, Tool, ToolApprovalMode, ToolParam, OpenAIModel } from '../ConstInterface'
 import { updateToolConfig, searchToolConfig } from '@/services/agentConfigService'
 import { useTranslation } from 'react-i18next'
+import JsonSchemaField from './JsonSchemaField'
+import ToolPlayground from './ToolPlayground'
+import { formatSchemaIssue, missingRequiredFields, toolParamSchema, validateToolParams } from '../utils/toolParamSchema'
+import { defaultApprovalMode, withToolApprovalMode } from '../utils/approvalPolicy'
 
 interface ToolConfigModalProps {
   isOpen: boolean;
@@ -13,11 +17,24 @@ interface ToolConfigModalProps {
   tool: Tool | null;
   mainAgentId: number;
   selectedTools?: Tool[];
+  // Show the issues of the loaded values right away, used when enabling a tool failed validation
+  validateOnOpen?: boolean;
+  // Append a playground invocation to the few-shot prompt of the agent
+  onAddFewShot?: (example: string) => void;
+  // Approval policy of the agent, the mode of this tool is saved with its params
+  approvalPolicy?: ApprovalPolicy | null;
+  onApprovalPolicySave?: (policy: ApprovalPolicy) => Promise<boolean>;
 }
 
-export default function ToolConfigModal({ isOpen, onCancel, onSave, tool, mainAgentId, selectedTools = [] }: ToolConfigModalProps) {
+// Empty select value: the tool follows the agent default
+const INHERIT_APPROVAL = 'inherit';
+
+export default function ToolConfigModal({ isOpen, onCancel, onSave, tool, mainAgentId, selectedTools = [], validateOnOpen = false, onAddFewShot, approvalPolicy, onApprovalPolicySave }: ToolConfigModalProps) {
   const [currentParams, setCurrentParams] = useState<ToolParam[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [showIssues, setShowIssues] = useState(false);
+  const [activeTab, setActiveTab] = useState('params');
+  const [approvalMode, setApprovalMode] = useState<ToolApprovalMode | typeof INHERIT_APPROVAL>(INHERIT_APPROVAL);
   const { t } = useTranslation('common');
   const { message } = App.useApp();
 
@@ -73,6 +90,9 @@ export default function ToolConfigModal({ isOpen, onCancel, onSave, tool, mainAg
       }
     };
 
+    setShowIssues(isOpen && validateOnOpen);
+    setActiveTab('params');
+    setApprovalMode((tool && approvalPolicy?.tool_modes[tool.id]) || INHERIT_APPROVAL);
     if (isOpen && tool) {
       loadToolConfig();
     } else {
@@ -81,16 +101,22 @@ export default function ToolConfigModal({ isOpen, onCancel, onSave, tool, mainAg
     }
   }, [isOpen, tool, mainAgentId, t]);
 
-  // check required fields
-  const checkRequiredFields = () => {
+  const modelLabels = {
+    [OpenAIModel.MainModel]: t('toolConfig.model.main'),
+    [OpenAIModel.SubModel]: t('toolConfig.model.sub'),
+  };
+
+  // validate every parameter against its schema, issues are shown next to their fields
+  const checkParams = () => {
     if (!tool) return false;
-    
-    const missingRequiredFields = currentParams
-      .filter(param => param.required && (param.value === undefined || param.value === '' || param.value === null))
-      .map(param => param.name);
 
-    if (missingRequiredFields.length > 0) {
-      message.error(`${t('toolConfig.message.requiredFields')}${missingRequiredFields.join(', ')}`);
+    const issues = validateToolParams(currentParams);
+    setShowIssues(true);
+    if (issues.length > 0) {
+      const missing = missingRequiredFields(issues);
+      message.error(missing.length > 0
+        ? `${t('toolConfig.message.requiredFields')}${missing.join(', ')}`
+        : t('toolConfig.message.invalidFields'));
       return false;
     }
     return true;
@@ -102,15 +128,17 @@ export default function ToolConfigModal({ isOpen, onCancel, onSave, tool, mainAg
     setCurrentParams(newParams);
   };
 
+  const currentParamValues = currentParams.reduce((acc, param) => {
+    acc[param.name] = param.value;
+    return acc;
+  }, {} as Record<string, any>);
+
   const handleSave = async () => {
-    if (!tool || !checkRequiredFields()) return;
+    if (!tool || !checkParams()) return;
 
     try {
       // convert params to backend format
-      const params = currentParams.reduce((acc, param) => {
-        acc[param.name] = param.value;
-        return acc;
-      }, {} as Record<string, any>);
+      const params = currentParamValues;
 
       // decide enabled status based on whether the tool is in selectedTools
       const isEnabled = selectedTools.some(t => t.id === tool.id);
@@ -122,6 +150,12 @@ export default function ToolConfigModal({ isOpen, onCancel, onSave, tool, mainAg
         isEnabled
       );
 
+      const savedMode = approvalPolicy?.tool_modes[tool.id] || INHERIT_APPROVAL;
+      if (result.success && approvalPolicy && onApprovalPolicySave && approvalMode !== savedMode) {
+        const nextPolicy = withToolApprovalMode(approvalPolicy, tool.id, approvalMode === INHERIT_APPROVAL ? undefined : approvalMode);
+        if (!await onApprovalPolicySave(nextPolicy)) return;
+      }
+
       if (result.success) {
         message.success(t('toolConfig.message.saveSuccess'));
         onSave({
@@ -137,97 +171,12 @@ export default function ToolConfigModal({ isOpen, onCancel, onSave, tool, mainAg
     }
   };
 
-  const renderParamInput = (param: ToolParam, index: number) => {
-    switch (param.type) {
-      case 'OpenAIModel':
-        return (
-          <Select
-            value={param.value as string}
-            onChange={(value) => handleParamChange(index, value)}
-            placeholder={t('toolConfig.input.model.placeholder')}
-            style={{ width: '100%' }}
-            options={[
-              { label: t('toolConfig.model.main'), value: OpenAIModel.MainModel },
-              { label: t('toolConfig.model.sub'), value: OpenAIModel.SubModel }
-            ]}
-          />
-        );
-      case 'string':
-        const stringValue = param.value as string;
-        // if string length is greater than 15, use TextArea
-        if (stringValue && stringValue.length > 15) {
-          return (
-            <Input.TextArea
-              value={stringValue}
-              onChange={(e) => handleParamChange(index, e.target.value)}
-              placeholder={t('toolConfig.input.string.placeholder', { name: param.name })}
-              autoSize={{ minRows: 1, maxRows: 8 }}
-              style={{ resize: 'vertical' }}
-            />
-          );
-        }
-        return (
-          <Input
-            value={stringValue}
-            onChange={(e) => handleParamChange(index, e.target.value)}
-            placeholder={t('toolConfig.input.string.placeholder', { name: param.name })}
-          />
-        );
-      case 'number':
-        return (
-          <InputNumber
-            value={param.value as number}
-            onChange={(value) => handleParamChange(index, value)}
-            className="w-full"
-          />
-        );
-      case 'boolean':
-        return (
-          <Switch
-            checked={param.value as boolean}
-            onChange={(checked) => handleParamChange(index, checked)}
-          />
-        );
-      case 'array':
-        const arrayValue = Array.isArray(param.value) ? JSON.stringify(param.value, null, 2) : param.value as string;
-        return (
-          <Input.TextArea
-            value={arrayValue}
-            onChange={(e) => {
-              try {
-                const value = JSON.parse(e.target.value);
-                handleParamChange(index, value);
-              } catch {
-                handleParamChange(index, e.target.value);
-              }
-            }}
-            placeholder={t('toolConfig.input.array.placeholder')}
-            autoSize={{ minRows: 1, maxRows: 8 }}
-            style={{ resize: 'vertical' }}
-          />
-        );
-      case 'object':
-        const objectValue = typeof param.value === 'object' ? JSON.stringify(param.value, null, 2) : param.value as string;
-        return (
-          <Input.TextArea
-            value={objectValue}
-            onChange={(e) => {
-              try {
-                const value = JSON.parse(e.target.value);
-                handleParamChange(index, value);
-              } catch {
-                handleParamChange(index, e.target.value);
-              }
-            }}
-            placeholder={t('toolConfig.input.object.placeholder')}
-            autoSize={{ minRows: 1, maxRows: 8 }}
-            style={{ resize: 'vertical' }}
-          />
-        );
-      default:
-        return <Input value={param.value as string} onChange={(e) => handleParamChange(index, e.target.value)} />;
-    }
-  };
+  const issueMessages = showIssues
+    ? validateToolParams(currentParams).reduce((acc, issue) => {
+        acc[issue.path] = acc[issue.path] ?? formatSchemaIssue(issue, t);
+        return acc;
+      }, {} as Record<string, string>)
+    : {};
 
   if (!tool) return null;
 
@@ -244,38 +193,81 @@ export default function ToolConfigModal({ isOpen, onCancel, onSave, tool, mainAg
       open={isOpen}
       onCancel={onCancel}
       onOk={handleSave}
-      width={600}
+      width={720}
       confirmLoading={isLoading}
     >
       <div className="mb-4">
         <p className="text-sm text-gray-500 mb-4">{tool?.description}</p>
-        <div className="text-sm font-medium mb-2">{t('toolConfig.title.paramConfig')}</div>
-        <div style={{ maxHeight: '500px', overflow: 'auto' }}>
-          <div className="space-y-4 pr-2">
-            {currentParams.map((param, index) => (
-              <div key={param.name} className="border-b pb-4 mb-4 last:border-b-0 last:mb-0">
-                <div className="flex items-start gap-4">
-                  <div className="flex-[0.3] pt-1">
-                    {param.description ? (
-                      <div className="text-sm text-gray-600">
-                        {param.description}
-                        {param.required && <span className="text-red-500 ml-1">*</span>}
-                      </div>
-                    ) : (
-                      <div className="text-sm text-gray-600">
-                        {param.name}
-                        {param.required && <span className="text-red-500 ml-1">*</span>}
+        {approvalPolicy && (
+          <div className="flex items-center gap-4 mb-2">
+            <div className="text-sm text-gray-600">{t('toolConfig.approval.label')}</div>
+            <Select
+              value={approvalMode}
+              onChange={setApprovalMode}
+              style={{ width: 260 }}
+              options={[
+                {
+                  value: INHERIT_APPROVAL,
+                  label: defaultApprovalMode(approvalPolicy, tool) === 'ask'
+                    ? t('toolConfig.approval.inheritAsk')
+                    : t('toolConfig.approval.inheritAuto'),
+                },
+                { value: 'ask', label: t('toolConfig.approval.ask') },
+                { value: 'auto', label: t('toolConfig.approval.auto') },
+              ]}
+            />
+          </div>
+        )}
+        <Tabs
+          activeKey={activeTab}
+          onChange={setActiveTab}
+          items={[
+            {
+              key: 'params',
+              label: t('toolConfig.title.paramConfig'),
+              children: (
+                <div style={{ maxHeight: '500px', overflow: 'auto' }}>
+                  <div className="space-y-4 pr-2">
+                    {currentParams.map((param, index) => (
+                      <div key={param.name} className="border-b pb-4 mb-4 last:border-b-0 last:mb-0">
+                        <div className="flex items-start gap-4">
+                          <div className="flex-[0.3] pt-1">
+                            <div className="text-sm text-gray-600">
+                              {param.description || param.name}
+                              {param.required && <span className="text-red-500 ml-1">*</span>}
+                            </div>
+                          </div>
+                          <div className="flex-[0.7]">
+                            <JsonSchemaField
+                              schema={toolParamSchema(param)}
+                              value={param.value}
+                              onChange={(value) => handleParamChange(index, value)}
+                              path={param.name}
+                              issues={issueMessages}
+                              enumLabels={modelLabels}
+                            />
+                          </div>
+                        </div>
                       </div>
-                    )}
-                  </div>
-                  <div className="flex-[0.7]">
-                    {renderParamInput(param, index)}
+                    ))}
                   </div>
                 </div>
-              </div>
-            ))}
-          </div>
-        </div>
+              ),
+            },
+            {
+              key: 'playground',
+              label: t('toolPlayground.title'),
+              children: (
+                <ToolPlayground
+                  tool={tool}
+                  agentId={mainAgentId}
+                  params={currentParamValues}
+                  onAddFewShot={onAddFewShot}
+                />
+              ),
+            },
+          ]}
+        />
       </div>
     </Modal>
   );
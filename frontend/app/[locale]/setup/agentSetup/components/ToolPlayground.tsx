@@ -0,0 +1,221 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { App, Button, Empty, Input, Modal, Popconfirm, Tag } from 'antd'
+import { CaretRightOutlined, DeleteOutlined, ImportOutlined, SaveOutlined, SnippetsOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { Tool, ToolSample } from '../ConstInterface'
+import { deleteToolSample, fetchToolSamples, invokeTool, saveToolSample } from '@/services/agentConfigService'
+import { defaultValueFor, validateJsonSchema } from '@/lib/jsonSchema'
+import JsonSchemaField from './JsonSchemaField'
+import { formatSchemaIssue } from '../utils/toolParamSchema'
+import { buildFewShotExample, formatToolOutput, toolInputsSchema } from '../utils/toolPlayground'
+
+interface ToolPlaygroundProps {
+  tool: Tool
+  agentId: number
+  // Init params as currently entered in the configuration form, saved or not
+  params: Record<string, any>
+  // Append an example to the few-shot prompt of the agent being edited
+  onAddFewShot?: (example: string) => void
+}
+
+type PlaygroundRun = Omit<ToolSample, 'sample_id' | 'create_time'>
+
+const OutputBlock = ({ run }: { run: Pick<PlaygroundRun, 'output' | 'error'> }) => (
+  <pre className={`max-h-60 overflow-auto whitespace-pre-wrap break-words rounded p-2 text-xs ${
+    run.error ? 'bg-red-50 text-red-700' : 'bg-gray-50 text-gray-700'
+  }`}>
+    {run.error || formatToolOutput(run.output)}
+  </pre>
+)
+
+/**
+ * Calls one tool directly with form entered inputs, to tell a misbehaving tool from a misleading prompt
+ */
+export default function ToolPlayground({ tool, agentId, params, onAddFewShot }: ToolPlaygroundProps) {
+  const { t } = useTranslation('common')
+  const { message } = App.useApp()
+  const schema = toolInputsSchema(tool)
+  const [inputs, setInputs] = useState<Record<string, any>>(() => defaultValueFor(schema))
+  const [showIssues, setShowIssues] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [lastRun, setLastRun] = useState<PlaygroundRun | null>(null)
+  const [samples, setSamples] = useState<ToolSample[]>([])
+  const [fewShotSample, setFewShotSample] = useState<Pick<PlaygroundRun, 'inputs' | 'output'> | null>(null)
+  const [fewShotTask, setFewShotTask] = useState('')
+  const [fewShotThought, setFewShotThought] = useState('')
+
+  useEffect(() => {
+    setInputs(defaultValueFor(toolInputsSchema(tool)))
+    setLastRun(null)
+    setShowIssues(false)
+    fetchToolSamples(Number(tool.id), agentId).then(result => {
+      if (result.success) {
+        setSamples(result.data)
+      }
+    })
+  }, [tool.id, agentId])
+
+  const issues = validateJsonSchema(schema, inputs, '', true)
+  const issueMessages = showIssues
+    ? issues.reduce((acc, issue) => {
+        acc[issue.path] = acc[issue.path] ?? formatSchemaIssue(issue, t)
+        return acc
+      }, {} as Record<string, string>)
+    : {}
+
+  const handleRun = async () => {
+    setShowIssues(true)
+    if (issues.length > 0) return
+
+    setIsRunning(true)
+    const startedAt = performance.now()
+    const result = await invokeTool(Number(tool.id), agentId, params, inputs)
+    const duration = Math.round(performance.now() - startedAt)
+    setIsRunning(false)
+
+    setLastRun({
+      tool_id: Number(tool.id),
+      agent_id: agentId,
+      params,
+      inputs,
+      output: result.data?.output ?? null,
+      // A failed request is reported like an error of the tool, the latency still tells where it stopped
+      error: result.success ? result.data?.error : result.message,
+      duration,
+    })
+  }
+
+  const handleSaveSample = async () => {
+    if (!lastRun) return
+    const result = await saveToolSample(lastRun)
+    if (result.success && result.data) {
+      const sample = result.data
+      setSamples(prev => [sample, ...prev])
+      message.success(t('toolPlayground.message.sampleSaved'))
+    } else {
+      message.error(result.message)
+    }
+  }
+
+  const handleDeleteSample = async (sampleId: number) => {
+    const result = await deleteToolSample(sampleId)
+    if (result.success) {
+      setSamples(prev => prev.filter(sample => sample.sample_id !== sampleId))
+    } else {
+      message.error(result.message)
+    }
+  }
+
+  const openFewShot = (sample: Pick<PlaygroundRun, 'inputs' | 'output'>) => {
+    setFewShotSample(sample)
+    setFewShotTask('')
+    setFewShotThought(t('toolPlayground.fewShot.defaultThought', { tool: tool.name }))
+  }
+
+  const fewShotExample = fewShotSample
+    ? buildFewShotExample(tool.name, fewShotSample.inputs, fewShotSample.output, fewShotTask, fewShotThought)
+    : ''
+
+  const handleAddFewShot = () => {
+    onAddFewShot?.(fewShotExample)
+    setFewShotSample(null)
+    message.success(t('toolPlayground.message.fewShotAdded'))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="mb-2 text-sm font-medium">{t('toolPlayground.inputs')}</div>
+        {Object.keys(schema.properties || {}).length === 0 ? (
+          <div className="text-xs text-gray-400">{t('toolPlayground.noInputs')}</div>
+        ) : (
+          <JsonSchemaField
+            schema={schema}
+            value={inputs}
+            onChange={setInputs}
+            path=""
+            issues={issueMessages}
+          />
+        )}
+        <div className="mt-3 flex gap-2">
+          <Button type="primary" icon={<CaretRightOutlined />} loading={isRunning} onClick={handleRun}>
+            {t('toolPlayground.run')}
+          </Button>
+          <Button icon={<SaveOutlined />} disabled={!lastRun} onClick={handleSaveSample}>
+            {t('toolPlayground.saveSample')}
+          </Button>
+          {onAddFewShot && (
+            <Button icon={<SnippetsOutlined />} disabled={!lastRun || !!lastRun.error} onClick={() => lastRun && openFewShot(lastRun)}>
+              {t('toolPlayground.useAsFewShot')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {lastRun && (
+        <div>
+          <div className="mb-1 flex items-center gap-2 text-sm">
+            <span className="font-medium">{t('toolPlayground.output')}</span>
+            {lastRun.error
+              ? <Tag color="red">{t('toolPlayground.status.error')}</Tag>
+              : <Tag color="green">{t('toolPlayground.status.success')}</Tag>}
+            <span className="text-xs text-gray-500">{t('toolPlayground.latency', { ms: lastRun.duration })}</span>
+          </div>
+          <OutputBlock run={lastRun} />
+        </div>
+      )}
+
+      <div>
+        <div className="mb-2 text-sm font-medium">{t('toolPlayground.samples')}</div>
+        {samples.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('toolPlayground.noSamples')} />
+        ) : (
+          <div className="space-y-2">
+            {samples.map(sample => (
+              <div key={sample.sample_id} className="rounded border border-gray-200 p-2">
+                <div className="mb-1 flex items-center gap-2 text-xs text-gray-500">
+                  <span>{new Date(sample.create_time).toLocaleString()}</span>
+                  {sample.error && <Tag color="red" className="m-0">{t('toolPlayground.status.error')}</Tag>}
+                  <span>{t('toolPlayground.latency', { ms: sample.duration })}</span>
+                  <div className="flex-1" />
+                  <Button type="text" size="small" icon={<ImportOutlined />} title={t('toolPlayground.loadSample')} onClick={() => setInputs(sample.inputs)} />
+                  {onAddFewShot && !sample.error && (
+                    <Button type="text" size="small" icon={<SnippetsOutlined />} title={t('toolPlayground.useAsFewShot')} onClick={() => openFewShot(sample)} />
+                  )}
+                  <Popconfirm title={t('toolPlayground.deleteConfirm')} onConfirm={() => handleDeleteSample(sample.sample_id)}>
+                    <Button type="text" size="small" icon={<DeleteOutlined />} title={t('toolPlayground.deleteSample')} />
+                  </Popconfirm>
+                </div>
+                <div className="mb-1 truncate font-mono text-xs text-gray-600">{JSON.stringify(sample.inputs)}</div>
+                <OutputBlock run={sample} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Modal
+        open={!!fewShotSample}
+        title={t('toolPlayground.fewShot.title')}
+        onCancel={() => setFewShotSample(null)}
+        onOk={handleAddFewShot}
+        okText={t('toolPlayground.fewShot.add')}
+        okButtonProps={{ disabled: !fewShotTask.trim() }}
+        width={640}
+      >
+        <div className="space-y-2">
+          <Input value={fewShotTask} onChange={(e) => setFewShotTask(e.target.value)} placeholder={t('toolPlayground.fewShot.task')} />
+          <Input.TextArea
+            value={fewShotThought}
+            onChange={(e) => setFewShotThought(e.target.value)}
+            placeholder={t('toolPlayground.fewShot.thought')}
+            autoSize={{ minRows: 1, maxRows: 4 }}
+          />
+          <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-words rounded bg-gray-50 p-2 text-xs">{fewShotExample}</pre>
+        </div>
+      </Modal>
+    </div>
+  )
+}
@@ -1,17 +1,19 @@
 "use client"
 
 import { useState, useEffect, useMemo, useCallback, memo } from 'react'
-import { Button, App, Tabs } from 'antd'
-import { SettingOutlined, LoadingOutlined, ApiOutlined, ReloadOutlined } from '@ant-design/icons'
+import { Button, App, Tabs, Select } from 'antd'
+import { SettingOutlined, LoadingOutlined, ApiOutlined, ReloadOutlined, SafetyOutlined } from '@ant-design/icons'
 import { useTranslation } from 'react-i18next'
 
 import { Tooltip as CustomTooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip'
 import ToolConfigModal from './ToolConfigModal'
 import McpConfigModal from './McpConfigModal'
-import { Tool } from '../ConstInterface'
-import { fetchTools } from '@/services/agentConfigService'
+import { AgentApprovalDefault, ApprovalPolicy, Tool } from '../ConstInterface'
+import { fetchApprovalPolicy, fetchTools, saveApprovalPolicy } from '@/services/agentConfigService'
 import { updateToolList } from '@/services/mcpService'
 import { handleToolSelectCommon } from '../utils/agentUtils'
+import { missingRequiredFields, validateToolParams } from '../utils/toolParamSchema'
+import { toolApprovalMode } from '../utils/approvalPolicy'
 
 interface ToolPoolProps {
   selectedTools: Tool[];
@@ -23,6 +25,7 @@ interface ToolPoolProps {
   onToolsRefresh?: () => void;
   isEditingMode?: boolean; // 新增：控制是否处于编辑模式
   isGeneratingAgent?: boolean; // 新增：生成智能体状态
+  onAddFewShot?: (example: string) => void;
 }
 
 // 工具分组接口
@@ -44,7 +47,8 @@ function ToolPool({
   localIsGenerating = false,
   onToolsRefresh,
   isEditingMode = false, // 新增：默认不处于编辑模式
-  isGeneratingAgent = false // 新增：默认不在生成状态
+  isGeneratingAgent = false, // 新增：默认不在生成状态
+  onAddFewShot
 }: ToolPoolProps) {
   const { t } = useTranslation('common');
   const { message } = App.useApp();
@@ -55,6 +59,7 @@ function ToolPool({
   const [isMcpModalOpen, setIsMcpModalOpen] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [activeTabKey, setActiveTabKey] = useState<string>('');
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy | null>(null);
   
   // 使用 useMemo 缓存工具分组
   const toolGroups = useMemo(() => {
@@ -129,6 +134,33 @@ function ToolPool({
     }
   }, [toolGroups, activeTabKey]);
 
+  // Approval policy of the agent being edited, tool calls it marks wait for the user in chat
+  useEffect(() => {
+    const agentId = parseInt(mainAgentId || '0');
+    setApprovalPolicy(null);
+    if (!agentId) return;
+
+    let cancelled = false;
+    fetchApprovalPolicy(agentId).then(result => {
+      if (!cancelled && result.success) {
+        setApprovalPolicy(result.data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mainAgentId]);
+
+  const handleApprovalPolicySave = useCallback(async (policy: ApprovalPolicy) => {
+    const result = await saveApprovalPolicy(policy);
+    if (!result.success) {
+      message.error(result.message);
+      return false;
+    }
+    setApprovalPolicy(policy);
+    return true;
+  }, [message]);
+
   // Use useMemo to cache the selected tool ID set to improve lookup efficiency
   const selectedToolIds = useMemo(() => {
     return new Set(selectedTools.map(tool => tool.id));
@@ -182,12 +214,10 @@ function ToolPool({
   const handleToolSave = useCallback((updatedTool: Tool) => {
     if (pendingToolSelection) {
       const { tool, isSelected } = pendingToolSelection;
-      const missingRequiredFields = updatedTool.initParams
-        .filter(param => param.required && (param.value === undefined || param.value === '' || param.value === null))
-        .map(param => param.name);
+      const missing = missingRequiredFields(validateToolParams(updatedTool.initParams));
 
-      if (missingRequiredFields.length > 0) {
-        message.error(t('toolPool.error.requiredFields', { fields: missingRequiredFields.join(', ') }));
+      if (missing.length > 0) {
+        message.error(t('toolPool.error.requiredFields', { fields: missing.join(', ') }));
         return;
       }
 
@@ -326,6 +356,9 @@ function ToolPool({
         </div>
         {/* Settings button right - 移除了Tag标签 */}
         <div className="flex items-center gap-2 ml-2">
+          {toolApprovalMode(approvalPolicy, tool) === 'ask' && (
+            <SafetyOutlined className="text-amber-500" style={{ fontSize: '14px' }} title={t('toolPool.approval.asks')} />
+          )}
           <button 
             type="button"
             onClick={(e) => {
@@ -422,6 +455,21 @@ function ToolPool({
           >
             {t('toolManagement.mcp.button')}
           </Button>
+          {approvalPolicy && (
+            <Select<AgentApprovalDefault>
+              size="small"
+              value={approvalPolicy.default_mode}
+              onChange={(value) => handleApprovalPolicySave({ ...approvalPolicy, default_mode: value })}
+              disabled={!isEditingMode || localIsGenerating || isGeneratingAgent}
+              popupMatchSelectWidth={false}
+              title={t('toolPool.approval.title')}
+              options={[
+                { value: 'never', label: <><SafetyOutlined className="mr-1" />{t('toolPool.approval.never')}</> },
+                { value: 'mcp', label: <><SafetyOutlined className="mr-1" />{t('toolPool.approval.mcp')}</> },
+                { value: 'always', label: <><SafetyOutlined className="mr-1" />{t('toolPool.approval.always')}</> },
+              ]}
+            />
+          )}
           {loadingTools && <span className="text-sm text-gray-500">{t('toolPool.loading')}</span>}
         </div>
       </div>
@@ -463,6 +511,10 @@ function ToolPool({
         tool={currentTool}
         mainAgentId={parseInt(mainAgentId || '0')}
         selectedTools={selectedTools}
+        validateOnOpen={!!pendingToolSelection}
+        onAddFewShot={onAddFewShot}
+        approvalPolicy={approvalPolicy}
+        onApprovalPolicySave={handleApprovalPolicySave}
       />
 
       <McpConfigModal
@@ -0,0 +1,292 @@
+// Agent bundles: a zip with a manifest and one file per agent of a tree, together with the MCP servers,
+// knowledge bases and models the tree depends on, and the import of a bundle after its dependencies are mapped
+
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate"
+import { z } from "zod"
+import { addRelatedAgent, exportAgent, importAgent } from "@/services/agentConfigService"
+import { userConfigService } from "@/services/userConfigService"
+
+// Identifies bundles in their manifest, bump the version on incompatible changes
+export const AGENT_BUNDLE_FORMAT = "nexent.agent-bundle"
+export const AGENT_BUNDLE_VERSION = 1
+
+const MANIFEST_FILE = "manifest.json"
+
+export const AGENT_MODEL_SLOTS = ["main_model", "sub_model"] as const
+export type AgentModelSlot = typeof AGENT_MODEL_SLOTS[number]
+
+const KNOWLEDGE_BASE_TOOL_CLASSES = ["KnowledgeBaseSearchTool"]
+
+const bundleToolSchema = z.object({
+  class_name: z.string(),
+  name: z.string().nullish(),
+  source: z.string(),
+  params: z.record(z.any()),
+  usage: z.string().nullish(),
+}).passthrough()
+
+// One agent as exported by the backend
+const bundleAgentSchema = z.object({
+  agent_id: z.number().int(),
+  name: z.string(),
+  display_name: z.string().nullish(),
+  description: z.string(),
+  business_description: z.string(),
+  model_name: z.enum(AGENT_MODEL_SLOTS),
+  max_steps: z.number().int(),
+  provide_run_summary: z.boolean(),
+  duty_prompt: z.string().nullish(),
+  constraint_prompt: z.string().nullish(),
+  few_shots_prompt: z.string().nullish(),
+  enabled: z.boolean(),
+  tools: z.array(bundleToolSchema),
+  managed_agents: z.array(z.number().int()),
+}).passthrough()
+
+const bundleMcpServerSchema = z.object({
+  mcp_server_name: z.string(),
+  mcp_url: z.string(),
+})
+
+const manifestSchema = z.object({
+  format: z.literal(AGENT_BUNDLE_FORMAT),
+  version: z.number().int(),
+  exported_at: z.number(),
+  root_agent_id: z.number().int(),
+  agents: z.array(z.object({
+    agent_id: z.number().int(),
+    name: z.string(),
+    display_name: z.string().nullish(),
+    file: z.string(),
+  })),
+  mcp_servers: z.array(bundleMcpServerSchema),
+  // Knowledge bases selected for the knowledge base search tool when the bundle was made
+  knowledge_bases: z.array(z.string()),
+  // Display names of the models behind each model slot when the bundle was made
+  models: z.object({
+    main_model: z.string().nullish(),
+    sub_model: z.string().nullish(),
+  }),
+})
+
+export type AgentBundleAgent = z.infer<typeof bundleAgentSchema>
+export type AgentBundleMcpServer = z.infer<typeof bundleMcpServerSchema>
+export type AgentBundleManifest = z.infer<typeof manifestSchema>
+
+export interface AgentBundle {
+  manifest: AgentBundleManifest
+  agents: Record<number, AgentBundleAgent>
+}
+
+// What to do with each dependency of a bundle on import
+export type AgentBundleAgentAction =
+  | { type: "import"; name: string; display_name: string }
+  // Link the parent to an agent that already exists instead of importing this one
+  | { type: "existing"; agent_id: number }
+  | { type: "skip" }
+
+// Tools of a skipped server are dropped, the tools of a mapped server are matched by class name
+export type AgentBundleMcpAction = "add" | "existing" | "skip"
+
+export interface AgentBundleImportPlan {
+  agents: Record<number, AgentBundleAgentAction>
+  mcpServers: Record<string, AgentBundleMcpAction>
+  models: Record<AgentModelSlot, AgentModelSlot>
+  // Knowledge bases to add to the selected knowledge list
+  knowledgeBases: string[]
+}
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join(".") || "<root>"}: ${issue.message}`).join("; ")
+
+export const usesKnowledgeBase = (agent: AgentBundleAgent) =>
+  agent.tools.some(tool => KNOWLEDGE_BASE_TOOL_CLASSES.includes(tool.class_name))
+
+// Export the tree of an agent with its dependencies, the model names come from the current model configuration
+export const buildAgentBundle = async (
+  agentId: number,
+  models: AgentBundleManifest["models"]
+): Promise<{ name: string; content: Uint8Array }> => {
+  const result = await exportAgent(agentId)
+  if (!result.success) {
+    throw new Error(result.message)
+  }
+  const exported = typeof result.data === "string" ? JSON.parse(result.data) : result.data
+  const agents = Object.values(exported.agent_info || {}) as AgentBundleAgent[]
+
+  const knowledgeBases = agents.some(usesKnowledgeBase)
+    ? (await userConfigService.loadKnowledgeList())?.selectedKbNames || []
+    : []
+
+  const manifest: AgentBundleManifest = {
+    format: AGENT_BUNDLE_FORMAT,
+    version: AGENT_BUNDLE_VERSION,
+    exported_at: Date.now(),
+    root_agent_id: exported.agent_id,
+    agents: agents.map(agent => ({
+      agent_id: agent.agent_id,
+      name: agent.name,
+      display_name: agent.display_name,
+      file: `agents/${agent.agent_id}.json`,
+    })),
+    mcp_servers: exported.mcp_info || [],
+    knowledge_bases: knowledgeBases,
+    models,
+  }
+
+  const files: Record<string, Uint8Array> = {
+    [MANIFEST_FILE]: strToU8(JSON.stringify(manifest, null, 2)),
+  }
+  agents.forEach(agent => {
+    files[`agents/${agent.agent_id}.json`] = strToU8(JSON.stringify(agent, null, 2))
+  })
+
+  const root = agents.find(agent => agent.agent_id === exported.agent_id)
+  return { name: root?.name || String(agentId), content: zipSync(files) }
+}
+
+// Validate a bundle, throws with a readable reason when it cannot be imported
+export const parseAgentBundle = (content: Uint8Array): AgentBundle => {
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(content)
+  } catch (error) {
+    throw new Error((error as Error).message)
+  }
+
+  const readJson = (path: string): unknown => {
+    if (!files[path]) {
+      throw new Error(`${path}: missing from the bundle`)
+    }
+    try {
+      return JSON.parse(strFromU8(files[path]))
+    } catch (error) {
+      throw new Error(`${path}: ${(error as Error).message}`)
+    }
+  }
+
+  const manifestResult = manifestSchema.safeParse(readJson(MANIFEST_FILE))
+  if (!manifestResult.success) {
+    throw new Error(`${MANIFEST_FILE}: ${formatIssues(manifestResult.error)}`)
+  }
+  const manifest = manifestResult.data
+  if (manifest.version > AGENT_BUNDLE_VERSION) {
+    throw new Error(`unsupported version ${manifest.version}`)
+  }
+
+  const agents: Record<number, AgentBundleAgent> = {}
+  manifest.agents.forEach(entry => {
+    const agentResult = bundleAgentSchema.safeParse(readJson(entry.file))
+    if (!agentResult.success) {
+      throw new Error(`${entry.file}: ${formatIssues(agentResult.error)}`)
+    }
+    agents[entry.agent_id] = agentResult.data
+  })
+
+  if (!agents[manifest.root_agent_id]) {
+    throw new Error(`root agent ${manifest.root_agent_id} is not in the bundle`)
+  }
+  Object.values(agents).forEach(agent => {
+    const missing = agent.managed_agents.filter(id => !agents[id])
+    if (missing.length > 0) {
+      throw new Error(`${agent.name}: sub-agents ${missing.join(", ")} are not in the bundle`)
+    }
+  })
+
+  return { manifest, agents }
+}
+
+// The agents of the bundle that are imported with the plan: the root and every sub-agent reached through imported agents
+export const collectImportedAgents = (bundle: AgentBundle, plan: AgentBundleImportPlan): AgentBundleAgent[] => {
+  const reached: AgentBundleAgent[] = []
+  const visit = (agentId: number) => {
+    if (reached.some(agent => agent.agent_id === agentId) || plan.agents[agentId]?.type !== "import") return
+    const agent = bundle.agents[agentId]
+    reached.push(agent)
+    agent.managed_agents.forEach(visit)
+  }
+  visit(bundle.manifest.root_agent_id)
+  return reached
+}
+
+// The response of the import endpoint
+interface AgentImportResult {
+  agent_id: number
+  agent_id_mapping: Record<string, number>
+}
+
+// The payload of the import endpoint for a plan, and the links to existing agents it cannot express
+const buildImportData = (bundle: AgentBundle, plan: AgentBundleImportPlan) => {
+  const skippedServers = Object.keys(plan.mcpServers).filter(name => plan.mcpServers[name] === "skip")
+  const links: { parentId: number; childAgentId: number }[] = []
+
+  const agentInfo: Record<string, AgentBundleAgent> = {}
+  collectImportedAgents(bundle, plan).forEach(agent => {
+    const action = plan.agents[agent.agent_id] as Extract<AgentBundleAgentAction, { type: "import" }>
+    agent.managed_agents.forEach(childId => {
+      const childAction = plan.agents[childId]
+      if (childAction?.type === "existing") {
+        links.push({ parentId: agent.agent_id, childAgentId: childAction.agent_id })
+      }
+    })
+    agentInfo[String(agent.agent_id)] = {
+      ...agent,
+      name: action.name,
+      display_name: action.display_name,
+      model_name: plan.models[agent.model_name],
+      tools: agent.tools.filter(tool => !(tool.source === "mcp" && tool.usage && skippedServers.includes(tool.usage))),
+      managed_agents: agent.managed_agents.filter(childId => plan.agents[childId]?.type === "import"),
+    }
+  })
+
+  return {
+    data: {
+      agent_id: bundle.manifest.root_agent_id,
+      agent_info: agentInfo,
+      mcp_info: bundle.manifest.mcp_servers.filter(server => plan.mcpServers[server.mcp_server_name] === "add"),
+    },
+    links,
+  }
+}
+
+// Import a bundle with the choices of the import wizard, throws when a step fails
+export const importAgentBundle = async (bundle: AgentBundle, plan: AgentBundleImportPlan) => {
+  const { data, links } = buildImportData(bundle, plan)
+
+  const result = await importAgent(data)
+  if (!result.success) {
+    throw new Error(result.message)
+  }
+
+  // The import endpoint returns the new id of every imported agent, keyed by its id in the bundle
+  const { agent_id_mapping: importedIds } = result.data as AgentImportResult
+  for (const link of links) {
+    const parentId = importedIds[String(link.parentId)]
+    const linkResult = parentId !== undefined
+      ? await addRelatedAgent(parentId, link.childAgentId)
+      : { success: false, message: `${bundle.agents[link.parentId].name}: missing from the import response` }
+    if (!linkResult.success) {
+      throw new Error(linkResult.message)
+    }
+  }
+
+  if (plan.knowledgeBases.length > 0) {
+    const selected = (await userConfigService.loadKnowledgeList())?.selectedKbNames || []
+    const knowledgeList = Array.from(new Set([...selected, ...plan.knowledgeBases]))
+    if (!(await userConfigService.updateKnowledgeList(knowledgeList))) {
+      throw new Error("knowledge base selection could not be updated")
+    }
+  }
+}
+
+export const downloadAgentBundle = (name: string, content: Uint8Array) => {
+  const blob = new Blob([content], { type: "application/zip" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `${name}.agent.zip`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
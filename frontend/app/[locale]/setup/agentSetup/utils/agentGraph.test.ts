@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { AgentGraphNode, GRAPH_NODE_HEIGHT, GRAPH_NODE_WIDTH, layoutAgentGraph, wouldCreateCycle } from './agentGraph';
+
+const node = (id: number, children: number[] = []): AgentGraphNode => ({
+  id,
+  name: `agent_${id}`,
+  display_name: `Agent ${id}`,
+  model: '',
+  tools: [],
+  children,
+  is_available: true,
+});
+
+// 1 delegates to 2 and 3, 2 delegates to 4
+const tree = [node(1, [2, 3]), node(2, [4]), node(3), node(4)];
+
+describe('wouldCreateCycle', () => {
+  it('refuses linking an agent to itself', () => {
+    expect(wouldCreateCycle(tree, 3, 3)).toBe(true);
+  });
+
+  it('refuses linking an agent to one that already reaches it', () => {
+    expect(wouldCreateCycle(tree, 2, 1)).toBe(true);
+    expect(wouldCreateCycle(tree, 4, 1)).toBe(true);
+  });
+
+  it('accepts links that keep the graph acyclic', () => {
+    expect(wouldCreateCycle(tree, 3, 4)).toBe(false);
+    expect(wouldCreateCycle(tree, 1, 4)).toBe(false);
+    expect(wouldCreateCycle(tree, 4, 5)).toBe(false);
+  });
+
+  it('ends on cycles saved before they were checked', () => {
+    const cyclic = [node(1, [2]), node(2, [1]), node(3)];
+    expect(wouldCreateCycle(cyclic, 3, 1)).toBe(false);
+    expect(wouldCreateCycle(cyclic, 1, 3)).toBe(false);
+  });
+});
+
+describe('layoutAgentGraph', () => {
+  const cell = (column: number, row: number) => ({
+    x: 24 + column * (GRAPH_NODE_WIDTH + 48),
+    y: 24 + row * (GRAPH_NODE_HEIGHT + 72),
+  });
+
+  it('puts each agent one row below its deepest parent', () => {
+    const positions = layoutAgentGraph([...tree, node(5), node(6, [4])]);
+    expect(positions).toEqual({
+      1: cell(0, 0),
+      5: cell(1, 0),
+      6: cell(2, 0),
+      2: cell(0, 1),
+      3: cell(1, 1),
+      4: cell(0, 2),
+    });
+  });
+
+  it('ignores sub-agents missing from the graph', () => {
+    expect(layoutAgentGraph([node(1, [9])])).toEqual({ 1: cell(0, 0) });
+  });
+
+  it('places every agent of a saved cycle', () => {
+    const positions = layoutAgentGraph([node(1, [2]), node(2, [1])]);
+    expect(Object.keys(positions)).toEqual(['1', '2']);
+    expect(positions[1]).not.toEqual(positions[2]);
+  });
+});
@@ -0,0 +1,81 @@
+// Delegation graph of the agents of a tenant: cycle checks before linking agents, and a layered layout for the canvas
+
+export interface AgentGraphNode {
+  id: number
+  name: string
+  display_name: string
+  model: string
+  tools: string[]
+  // Sub-agents this agent delegates to
+  children: number[]
+  is_available: boolean
+  // Whether the details of the agent could not be read, its sub-agents are then unknown
+  load_failed?: boolean
+}
+
+export interface AgentGraphPosition {
+  x: number
+  y: number
+}
+
+export const GRAPH_NODE_WIDTH = 200
+export const GRAPH_NODE_HEIGHT = 96
+const GRAPH_GAP_X = 48
+const GRAPH_GAP_Y = 72
+const GRAPH_PADDING = 24
+
+// Whether child can already reach parent, in which case linking parent to child closes a cycle
+export const wouldCreateCycle = (nodes: AgentGraphNode[], parentId: number, childId: number): boolean => {
+  if (parentId === childId) return true
+  const childrenOf = new Map(nodes.map(node => [node.id, node.children]))
+  const visited = new Set<number>()
+  const stack = [childId]
+  while (stack.length > 0) {
+    const id = stack.pop()!
+    if (id === parentId) return true
+    if (visited.has(id)) continue
+    visited.add(id)
+    stack.push(...(childrenOf.get(id) || []))
+  }
+  return false
+}
+
+// Each agent goes one row below its deepest parent, agents nobody delegates to start at the top row
+export const layoutAgentGraph = (nodes: AgentGraphNode[]): Record<number, AgentGraphPosition> => {
+  const ids = new Set(nodes.map(node => node.id))
+  const parentsOf = new Map<number, number[]>(nodes.map(node => [node.id, []]))
+  nodes.forEach(node => {
+    node.children.filter(child => ids.has(child)).forEach(child => parentsOf.get(child)!.push(node.id))
+  })
+
+  const depth = new Map<number, number>()
+  const depthOf = (id: number, path: Set<number>): number => {
+    if (depth.has(id)) return depth.get(id)!
+    // Links saved before cycles were checked must not hang the layout
+    if (path.has(id)) return 0
+    path.add(id)
+    const parents = parentsOf.get(id) || []
+    const value = parents.length === 0 ? 0 : Math.max(...parents.map(parent => depthOf(parent, path) + 1))
+    path.delete(id)
+    depth.set(id, value)
+    return value
+  }
+  nodes.forEach(node => depthOf(node.id, new Set()))
+
+  const rows: number[][] = []
+  nodes.forEach(node => {
+    const row = depth.get(node.id) || 0
+    rows[row] = [...(rows[row] || []), node.id]
+  })
+
+  const positions: Record<number, AgentGraphPosition> = {}
+  rows.forEach((row, rowIndex) => {
+    row.forEach((id, columnIndex) => {
+      positions[id] = {
+        x: GRAPH_PADDING + columnIndex * (GRAPH_NODE_WIDTH + GRAPH_GAP_X),
+        y: GRAPH_PADDING + rowIndex * (GRAPH_NODE_HEIGHT + GRAPH_GAP_Y),
+      }
+    })
+  })
+  return positions
+}
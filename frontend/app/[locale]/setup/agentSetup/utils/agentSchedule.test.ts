@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { nextCronRuns, parseCron, renderQueryTemplate, templateFields } from './agentSchedule';
+
+const runs = (expression: string, timezone: string, from: string, count = 3) =>
+  nextCronRuns(parseCron(expression)!, timezone, new Date(from), count).map(run => run.toISOString());
+
+describe('parseCron', () => {
+  it('expands ranges, steps and lists', () => {
+    const cron = parseCron('10-40/10 */6 1,15 * 1-5')!;
+    expect([...cron.minutes]).toEqual([10, 20, 30, 40]);
+    expect([...cron.hours]).toEqual([0, 6, 12, 18]);
+    expect([...cron.days]).toEqual([1, 15]);
+    expect([...cron.weekdays]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats weekday 7 as Sunday', () => {
+    expect(parseCron('0 9 * * 7')!.weekdays.has(0)).toBe(true);
+  });
+
+  it('rejects malformed expressions', () => {
+    for (const expression of ['* * * *', '60 * * * *', '*/0 * * * *', '5-1 * * * *', '0 9 0 * *', '0 9 * * Mon']) {
+      expect(parseCron(expression)).toBeNull();
+    }
+  });
+
+  it('decides the day restrictions from the expanded fields', () => {
+    expect(parseCron('0 9 1-31 * */1')).toMatchObject({ anyDay: true, anyWeekday: true });
+    expect(parseCron('0 9 */2 * 0-6')).toMatchObject({ anyDay: false, anyWeekday: true });
+    expect(parseCron('0 9 * * 1-6')).toMatchObject({ anyDay: true, anyWeekday: false });
+  });
+});
+
+describe('nextCronRuns', () => {
+  // 2026-01-01 is a Thursday
+  const from = '2026-01-01T00:00:00Z';
+
+  it('matches either day field when both are restricted', () => {
+    expect(runs('0 9 1 * 1', 'UTC', from)).toEqual(
+      ['2026-01-01T09:00:00.000Z', '2026-01-05T09:00:00.000Z', '2026-01-12T09:00:00.000Z']);
+  });
+
+  it('ignores a day of month field covering every day', () => {
+    expect(runs('0 9 1-31 * 1', 'UTC', from)).toEqual(
+      ['2026-01-05T09:00:00.000Z', '2026-01-12T09:00:00.000Z', '2026-01-19T09:00:00.000Z']);
+  });
+
+  it('ignores a weekday field covering every day', () => {
+    expect(runs('0 9 1 * 0-6', 'UTC', from)).toEqual(
+      ['2026-01-01T09:00:00.000Z', '2026-02-01T09:00:00.000Z', '2026-03-01T09:00:00.000Z']);
+  });
+
+  it('evaluates the expression in the timezone', () => {
+    expect(runs('0 9 * * *', 'Asia/Shanghai', from, 2)).toEqual(
+      ['2026-01-01T01:00:00.000Z', '2026-01-02T01:00:00.000Z']);
+  });
+
+  it('starts after the given time', () => {
+    expect(runs('*/15 * * * *', 'UTC', '2026-01-01T00:15:00Z', 2)).toEqual(
+      ['2026-01-01T00:30:00.000Z', '2026-01-01T00:45:00.000Z']);
+  });
+
+  it('returns fewer runs when the date never comes', () => {
+    expect(runs('0 9 31 2 *', 'UTC', from)).toEqual([]);
+  });
+});
+
+describe('query templates', () => {
+  it('lists the fields a template uses once', () => {
+    expect(templateFields('{{ issue.title }} by {{user}}: {{issue.title}}')).toEqual(['issue.title', 'user']);
+  });
+
+  it('fills the fields from the payload', () => {
+    const payload = { issue: { title: 'Crash', labels: ['bug'] }, count: 0 };
+    expect(renderQueryTemplate('{{issue.title}} {{issue.labels}} {{count}} [{{missing.field}}]', payload))
+      .toBe('Crash ["bug"] 0 []');
+  });
+
+  it('prints values like the backend', () => {
+    // Same case as test_render_query_template_like_frontend of the backend
+    const payload = { issue: { title: 'Crash', labels: ['bug', 'ui'], meta: { owner: 'Zoë', points: 3.0 } },
+      count: 0, ratio: 2.5, draft: false };
+    expect(renderQueryTemplate('{{issue.labels}} {{issue.meta}} {{issue.labels.length}} {{issue.meta.points}} '
+      + '{{ratio}} {{draft}}', payload)).toBe('["bug","ui"] {"owner":"Zoë","points":3}  3 2.5 false');
+  });
+});
@@ -0,0 +1,147 @@
+// Cron expressions of scheduled runs and the query templates of webhook triggers, checked and previewed before
+// the schedule is saved. The backend evaluates both again when it runs the agent
+
+export interface CronExpression {
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  // 0 is Sunday
+  weekdays: Set<number>
+  // Whether the field matches every day, "1-31" or "*/1" as well as "*". With both restricted a day matches
+  // when either the day of month or the weekday does, as in crontab
+  anyDay: boolean
+  anyWeekday: boolean
+}
+
+export const CRON_PRESETS = [
+  { key: 'hourly', cron: '0 * * * *' },
+  { key: 'daily', cron: '0 9 * * *' },
+  { key: 'weekdays', cron: '0 9 * * 1-5' },
+  { key: 'weekly', cron: '0 9 * * 1' },
+  { key: 'monthly', cron: '0 9 1 * *' },
+]
+
+const FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]]
+
+// Skipping a non matching day costs two steps, this covers a February 29th over four years
+const MAX_SEARCH_STEPS = 20000
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+
+const ALL_WEEKDAYS = Object.values(WEEKDAYS)
+
+// "*", "5", "1-5", "*/15", "10-40/10" and comma separated lists of them
+const parseField = (text: string, [min, max]: [number, number]): Set<number> | null => {
+  const values = new Set<number>()
+  for (const part of text.split(',')) {
+    const match = /^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part)
+    if (!match) return null
+    const step = match[3] !== undefined ? Number(match[3]) : 1
+    const start = match[1] !== undefined ? Number(match[1]) : min
+    const end = match[2] !== undefined ? Number(match[2]) : match[1] !== undefined && match[3] === undefined ? start : max
+    if (step < 1 || start < min || end > max || start > end) return null
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+  return values
+}
+
+export const parseCron = (expression: string): CronExpression | null => {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) return null
+  const sets = fields.map((field, index) => parseField(field, FIELD_RANGES[index]))
+  if (sets.some(set => set === null)) return null
+  const [minutes, hours, days, months, weekdays] = sets as Set<number>[]
+  if (weekdays.has(7)) weekdays.add(0)
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: days.size === 31,
+    anyWeekday: ALL_WEEKDAYS.every(weekday => weekdays.has(weekday)),
+  }
+}
+
+export const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Wall clock time of an instant in the timezone
+const zonedClock = (format: Intl.DateTimeFormat, time: number) => {
+  const parts: Record<string, string> = {}
+  format.formatToParts(new Date(time)).forEach(part => { parts[part.type] = part.value })
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS[parts.weekday],
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+  }
+}
+
+const dayMatches = (cron: CronExpression, day: number, weekday: number) => {
+  if (cron.anyDay && cron.anyWeekday) return true
+  if (cron.anyDay) return cron.weekdays.has(weekday)
+  if (cron.anyWeekday) return cron.days.has(day)
+  return cron.days.has(day) || cron.weekdays.has(weekday)
+}
+
+// Next times the expression fires after `from`, fewer when none is found within a few years
+export const nextCronRuns = (cron: CronExpression, timezone: string, from: Date, count: number): Date[] => {
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+  })
+  const runs: Date[] = []
+  let time = (Math.floor(from.getTime() / 60000) + 1) * 60000
+
+  for (let step = 0; step < MAX_SEARCH_STEPS && runs.length < count; step++) {
+    const clock = zonedClock(format, time)
+    if (!cron.months.has(clock.month) || !dayMatches(cron, clock.day, clock.weekday)) {
+      // Up to 23:00 then to midnight, a single jump could pass midnight on a day with a DST change
+      time += (clock.hour < 23 ? (23 - clock.hour) * 60 - clock.minute : 60 - clock.minute) * 60000
+    } else if (!cron.hours.has(clock.hour)) {
+      time += (60 - clock.minute) * 60000
+    } else if (!cron.minutes.has(clock.minute)) {
+      time += 60000
+    } else {
+      runs.push(new Date(time))
+      time += 60000
+    }
+  }
+  return runs
+}
+
+const TEMPLATE_PLACEHOLDER = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g
+
+// Paths into the webhook payload a template uses, e.g. "issue.title"
+export const templateFields = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(TEMPLATE_PLACEHOLDER), match => match[1])))
+
+// Only the own fields of the payload and the items of its arrays, like render_query_template of the backend
+const payloadValue = (current: any, key: string): any => {
+  if (Array.isArray(current)) return /^\d+$/.test(key) ? current[Number(key)] : undefined
+  return current !== null && typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, key)
+    ? current[key]
+    : undefined
+}
+
+// Query a webhook call with this payload would send, missing values are left empty
+export const renderQueryTemplate = (template: string, payload: unknown): string =>
+  template.replace(TEMPLATE_PLACEHOLDER, (_, path: string) => {
+    const value = path.split('.').reduce<any>(payloadValue, payload)
+    if (value === undefined || value === null) return ''
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  })
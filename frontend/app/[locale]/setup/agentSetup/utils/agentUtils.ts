@@ -1,6 +1,66 @@
 import { TFunction } from 'i18next'
 import { Tool } from '../ConstInterface'
 import { updateToolConfig, searchToolConfig } from '@/services/agentConfigService'
+import { missingRequiredFields, validateToolParams } from './toolParamSchema'
+import { ChatMessageType, TaskMessageType } from '@/types/chat'
+
+// Flatten the steps of a debug answer into the messages TaskWindow shows
+export const toTaskMessages = (message: ChatMessageType): TaskMessageType[] => {
+  if (!message.steps || message.steps.length === 0) return [];
+
+  const taskMsgs: TaskMessageType[] = [];
+  message.steps.forEach(step => {
+    // Process step.contents
+    if (step.contents && step.contents.length > 0) {
+      step.contents.forEach(content => {
+        taskMsgs.push({
+          id: content.id,
+          role: "assistant",
+          content: content.content,
+          timestamp: new Date(),
+          type: content.type,
+          // Preserve subType so TaskWindow can style deep thinking text
+          subType: content.subType as any
+        } as any);
+      });
+    }
+
+    // Process step.thinking
+    if (step.thinking && step.thinking.content) {
+      taskMsgs.push({
+        id: `thinking-${step.id}`,
+        role: "assistant",
+        content: step.thinking.content,
+        timestamp: new Date(),
+        type: "model_output_thinking"
+      });
+    }
+
+    // Process step.code
+    if (step.code && step.code.content) {
+      taskMsgs.push({
+        id: `code-${step.id}`,
+        role: "assistant",
+        content: step.code.content,
+        timestamp: new Date(),
+        type: "model_output_code"
+      });
+    }
+
+    // Process step.output
+    if (step.output && step.output.content) {
+      taskMsgs.push({
+        id: `output-${step.id}`,
+        role: "assistant",
+        content: step.output.content,
+        timestamp: new Date(),
+        type: "tool"
+      });
+    }
+  });
+
+  return taskMsgs;
+};
 
 // 提取公共的 handleToolSelect 逻辑
 export const handleToolSelectCommon = async (
@@ -46,13 +106,15 @@ export const handleToolSelectCommon = async (
       }, {} as Record<string, any>);
     }
 
-    // step 2: if the tool is enabled, check required fields
+    // step 2: if the tool is enabled, validate its params and name what is missing
     if (isSelected && tool.initParams && tool.initParams.length > 0) {
-      const missingRequiredFields = tool.initParams
-        .filter(param => param && param.required && (params[param.name] === undefined || params[param.name] === '' || params[param.name] === null))
-        .map(param => param.name);
+      const issues = validateToolParams(tool.initParams.filter(param => param && param.name), params);
 
-      if (missingRequiredFields.length > 0) {
+      if (issues.length > 0) {
+        const missing = missingRequiredFields(issues);
+        message.warning(missing.length > 0
+          ? t('toolPool.error.requiredFields', { fields: missing.join(', ') })
+          : t('toolConfig.message.invalidFields'));
         return { shouldProceed: false, params };
       }
     }
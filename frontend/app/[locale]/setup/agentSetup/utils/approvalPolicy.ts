@@ -0,0 +1,31 @@
+// Which tool calls of an agent pause the run until the user approves them
+
+import { ApprovalPolicy, Tool, ToolApprovalMode } from '../ConstInterface'
+
+// MCP tools run on servers outside the platform, the "mcp" default asks before every call to one
+export const toolApprovalMode = (policy: ApprovalPolicy | null, tool: Tool): ToolApprovalMode => {
+  if (!policy) return 'auto'
+  return policy.tool_modes[tool.id] ?? defaultApprovalMode(policy, tool)
+}
+
+// Mode a tool gets from the agent default when it has none of its own
+export const defaultApprovalMode = (policy: ApprovalPolicy, tool: Tool): ToolApprovalMode => {
+  if (policy.default_mode === 'always') return 'ask'
+  if (policy.default_mode === 'mcp' && tool.source === 'mcp') return 'ask'
+  return 'auto'
+}
+
+// Without a mode the tool follows the agent default again
+export const withToolApprovalMode = (
+  policy: ApprovalPolicy,
+  toolId: string,
+  mode: ToolApprovalMode | undefined
+): ApprovalPolicy => {
+  const tool_modes = { ...policy.tool_modes }
+  if (mode) {
+    tool_modes[toolId] = mode
+  } else {
+    delete tool_modes[toolId]
+  }
+  return { ...policy, tool_modes }
+}
@@ -0,0 +1,131 @@
+// Scoring of evaluation cases against the answer of a debug run, and comparison of reports between agent versions
+
+import { ChatMessageType } from '@/types/chat'
+import {
+  EvaluationCase,
+  EvaluationCaseResult,
+  EvaluationCheck,
+  EvaluationJudgeVerdict,
+  EvaluationReport
+} from '@/types/evaluation'
+
+// What a run produced, as far as the checks of a case are concerned
+export interface EvaluationRunOutput {
+  answer: string
+  // Code executed by the run and tool announcements, where the called tools are named
+  toolText: string
+  // Title, file name and url of every reference of the answer
+  sources: string[]
+  error?: string
+  // Seconds
+  duration: number
+}
+
+export type EvaluationJudge = (testCase: EvaluationCase, answer: string) => Promise<EvaluationJudgeVerdict>
+
+export type CaseComparison = "regressed" | "fixed" | "passing" | "failing" | "new"
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase()
+
+const includesText = (text: string, fragment: string) => normalize(text).includes(normalize(fragment))
+
+export const extractRunOutput = (message: ChatMessageType | undefined, duration: number): EvaluationRunOutput => {
+  const toolText = (message?.trace || [])
+    .filter(span => span.kind === "execution" || span.kind === "tool")
+    .map(span => span.input || "")
+    .join("\n")
+  const sources = (message?.searchResults || []).flatMap(result =>
+    [result.title, result.filename, result.url].filter((value): value is string => !!value)
+  )
+  return {
+    answer: message?.finalAnswer?.trim() || message?.content || "",
+    toolText,
+    sources,
+    error: message?.error,
+    duration
+  }
+}
+
+const scoreAnswer = async (testCase: EvaluationCase, answer: string, judge: EvaluationJudge): Promise<EvaluationCheck> => {
+  const check = (passed: boolean, detail?: string): EvaluationCheck => ({ kind: "answer", target: "", passed, detail })
+
+  switch (testCase.scorer) {
+    case "exact":
+      return check(normalize(answer) === normalize(testCase.expected))
+
+    case "contains": {
+      const missing = testCase.expected
+        .split("\n")
+        .filter(fragment => fragment.trim() && !includesText(answer, fragment))
+      return check(missing.length === 0, missing.length > 0 ? missing.join(", ") : undefined)
+    }
+
+    case "regex": {
+      try {
+        return check(new RegExp(testCase.expected, "i").test(answer))
+      } catch (error) {
+        return check(false, (error as Error).message)
+      }
+    }
+
+    case "llm_judge": {
+      try {
+        const verdict = await judge(testCase, answer)
+        return check(verdict.passed, verdict.reason)
+      } catch (error) {
+        return check(false, (error as Error).message)
+      }
+    }
+  }
+}
+
+// A case passes when the run finished and every one of its checks passed
+export const scoreCase = async (
+  testCase: EvaluationCase,
+  output: EvaluationRunOutput,
+  judge: EvaluationJudge
+): Promise<EvaluationCaseResult> => {
+  const checks: EvaluationCheck[] = []
+
+  if (!output.error) {
+    if (testCase.expected.trim()) {
+      checks.push(await scoreAnswer(testCase, output.answer, judge))
+    }
+    testCase.required_tools.forEach(tool => {
+      checks.push({ kind: "tool", target: tool, passed: includesText(output.toolText, tool) })
+    })
+    testCase.required_citations.forEach(citation => {
+      checks.push({ kind: "citation", target: citation, passed: output.sources.some(source => includesText(source, citation)) })
+    })
+    testCase.forbidden_phrases.forEach(phrase => {
+      checks.push({ kind: "forbidden", target: phrase, passed: !includesText(output.answer, phrase) })
+    })
+  }
+
+  return {
+    case_id: testCase.id,
+    question: testCase.question,
+    passed: !output.error && checks.every(check => check.passed),
+    answer: output.answer,
+    checks,
+    duration: output.duration,
+    error: output.error
+  }
+}
+
+// The report a run is compared with: the latest earlier one made with another agent version
+export const findBaselineReport = (
+  reports: EvaluationReport[],
+  report: Pick<EvaluationReport, "create_time" | "version_no">
+): EvaluationReport | undefined => {
+  const earlier = reports.filter(item => item.create_time < report.create_time)
+  return earlier.find(item => report.version_no === null || item.version_no !== report.version_no) ?? earlier[0]
+}
+
+export const compareCase = (result: EvaluationCaseResult, baseline?: EvaluationReport): CaseComparison => {
+  const previous = baseline?.results.find(item => item.case_id === result.case_id)
+  if (!previous) return "new"
+  if (previous.passed && !result.passed) return "regressed"
+  if (!previous.passed && result.passed) return "fixed"
+  return result.passed ? "passing" : "failing"
+}
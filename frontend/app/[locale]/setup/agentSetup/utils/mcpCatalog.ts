@@ -0,0 +1,122 @@
+// Catalog of installable MCP servers, read from a registry file served with the frontend so admins can curate it
+// without network access, and the server configuration generated from the fields an entry asks for
+
+import { z } from "zod"
+import { JsonSchema } from "@/types/jsonSchema"
+import { McpServerConfig, DEFAULT_MCP_TIMEOUT } from "@/services/mcpService"
+
+export const MCP_CATALOG_PATH = "/mcp/registry.json"
+export const MCP_CATALOG_VERSION = 1
+
+// Text shown in the language of the user when the registry has it, e.g. { "en": "...", "zh": "..." }
+const localizedTextSchema = z.union([z.string(), z.record(z.string())])
+export type LocalizedText = z.infer<typeof localizedTextSchema>
+
+// Where the value of a config field goes: an environment variable or a header named like the field,
+// the bearer token, or the {{key}} placeholders of the URL and the arguments
+const catalogFieldSchema = z.object({
+  key: z.string().regex(/^[A-Za-z0-9_-]+$/),
+  label: localizedTextSchema,
+  description: localizedTextSchema.optional(),
+  target: z.enum(["env", "header", "bearer_token", "template"]),
+  required: z.boolean().default(false),
+  secret: z.boolean().default(false),
+  default: z.string().optional(),
+})
+
+const catalogServerSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: localizedTextSchema,
+  category: z.string().default("other"),
+  homepage: z.string().optional(),
+  // Suggested service name, letters and digits only like every MCP server name
+  service_name: z.string().regex(/^[a-zA-Z0-9]+$/),
+  transport: z.enum(["stdio", "sse", "streamable_http"]),
+  url: z.string().optional(),
+  command: z.string().optional(),
+  args: z.array(z.string()).default([]),
+  timeout: z.number().int().positive().optional(),
+  config: z.array(catalogFieldSchema).default([]),
+  // Preview of the tools the server provides, the server itself stays the reference once installed
+  tools: z.array(z.object({ name: z.string(), description: localizedTextSchema.optional() })).default([]),
+}).refine(server => server.transport === "stdio" ? !!server.command : !!server.url, {
+  message: "stdio servers need a command, remote servers an url",
+})
+
+const catalogSchema = z.object({
+  version: z.literal(MCP_CATALOG_VERSION),
+  servers: z.array(z.unknown()),
+})
+
+export type McpCatalogField = z.infer<typeof catalogFieldSchema>
+export type McpCatalogServer = z.infer<typeof catalogServerSchema>
+
+export const localize = (text: LocalizedText | undefined, language: string): string => {
+  if (text === undefined || typeof text === "string") return text || ""
+  return text[language] ?? text[language.split("-")[0]] ?? text.en ?? Object.values(text)[0] ?? ""
+}
+
+// Entries that don't match the schema are skipped with a warning, one bad entry shouldn't hide the catalog
+export const parseMcpCatalog = (data: unknown): McpCatalogServer[] => {
+  const catalog = catalogSchema.parse(data)
+  return catalog.servers.flatMap(entry => {
+    const result = catalogServerSchema.safeParse(entry)
+    if (!result.success) {
+      console.warn("Invalid MCP catalog entry", entry, result.error.issues)
+      return []
+    }
+    return [result.data]
+  })
+}
+
+export const loadMcpCatalog = async (): Promise<McpCatalogServer[]> => {
+  const response = await fetch(MCP_CATALOG_PATH, { cache: "no-cache" })
+  if (!response.ok) {
+    throw new Error(`MCP catalog not available: ${response.status}`)
+  }
+  return parseMcpCatalog(await response.json())
+}
+
+// Form of the config fields of an entry, rendered and validated like tool parameters
+export const catalogConfigSchema = (server: McpCatalogServer, language: string): JsonSchema => ({
+  type: "object",
+  properties: Object.fromEntries(server.config.map(field => [field.key, {
+    type: "string",
+    title: localize(field.label, language),
+    description: localize(field.description, language) || undefined,
+    format: field.secret ? "password" : undefined,
+    default: field.default,
+  }])),
+  required: server.config.filter(field => field.required).map(field => field.key),
+})
+
+// Values end up in URLs and command lines, only URL templates need escaping
+const fillTemplate = (template: string, values: Record<string, string>, encode = (value: string) => value) =>
+  template.replace(/\{\{\s*([A-Za-z0-9_-]+)\s*\}\}/g, (_, key: string) => encode(values[key] ?? ""))
+
+export const buildCatalogServerConfig = (
+  server: McpCatalogServer,
+  serviceName: string,
+  values: Record<string, string>
+): McpServerConfig => {
+  const fieldsFor = (target: McpCatalogField["target"]) =>
+    server.config.filter(field => field.target === target && values[field.key])
+  const bearerField = fieldsFor("bearer_token")[0]
+
+  const url = server.url ? fillTemplate(server.url, values, encodeURIComponent) : ""
+  const args = server.args.map(arg => fillTemplate(arg, values))
+
+  return {
+    service_name: serviceName,
+    transport: server.transport,
+    mcp_url: server.transport === "stdio" ? "" : url,
+    command: server.transport === "stdio" ? server.command : undefined,
+    args: server.transport === "stdio" ? args : undefined,
+    env: Object.fromEntries(fieldsFor("env").map(field => [field.key, values[field.key]])),
+    headers: Object.fromEntries(fieldsFor("header").map(field => [field.key, values[field.key]])),
+    bearer_token: bearerField ? values[bearerField.key] : "",
+    timeout: server.timeout ?? DEFAULT_MCP_TIMEOUT,
+    tool_filter: { mode: "all", tools: [] },
+  }
+}
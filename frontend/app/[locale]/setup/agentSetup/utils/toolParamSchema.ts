@@ -0,0 +1,46 @@
+// JSON Schema of tool parameters: the schema sent by the backend when there is one, otherwise derived from the coarse
+// parameter type, and validation of a whole parameter set before it is saved
+
+import { TFunction } from 'i18next'
+import { JsonSchema, JsonSchemaIssue } from '@/types/jsonSchema'
+import { validateJsonSchema } from '@/lib/jsonSchema'
+import { OpenAIModel, ToolParam } from '../ConstInterface'
+
+// Parameters named like credentials are masked even when their schema doesn't say so
+const SECRET_PARAM_PATTERN = /(api_?key|token|secret|password)/i
+
+export const toolParamSchema = (param: ToolParam): JsonSchema => {
+  const schema: JsonSchema = param.schema ?? (() => {
+    switch (param.type) {
+      case 'number':
+        return { type: 'number' }
+      case 'boolean':
+        return { type: 'boolean' }
+      case 'array':
+        return { type: 'array' }
+      case 'object':
+        return { type: 'object' }
+      case 'OpenAIModel':
+        return { type: 'string', enum: [OpenAIModel.MainModel, OpenAIModel.SubModel] }
+      default:
+        return { type: 'string' }
+    }
+  })()
+  return {
+    ...schema,
+    description: schema.description ?? param.description,
+    format: schema.format ?? (SECRET_PARAM_PATTERN.test(param.name) ? 'password' : undefined),
+  }
+}
+
+// Issues of every parameter, paths start with the parameter name
+export const validateToolParams = (params: ToolParam[], values?: Record<string, any>): JsonSchemaIssue[] =>
+  params.flatMap(param =>
+    validateJsonSchema(toolParamSchema(param), values ? values[param.name] : param.value, param.name, param.required)
+  )
+
+export const missingRequiredFields = (issues: JsonSchemaIssue[]) =>
+  issues.filter(issue => issue.kind === 'required').map(issue => issue.path)
+
+export const formatSchemaIssue = (issue: JsonSchemaIssue, t: TFunction) =>
+  t(`toolConfig.validation.${issue.kind}`, { path: issue.path, limit: issue.limit })
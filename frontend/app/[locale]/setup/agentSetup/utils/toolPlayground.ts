@@ -0,0 +1,73 @@
+// Inputs schema of a tool for the playground, and turning a playground invocation into a few-shot example
+
+import { JsonSchema, JsonSchemaType } from '@/types/jsonSchema'
+import { Tool } from '../ConstInterface'
+
+// Tool output quoted in a few-shot example is cut after this many characters
+const MAX_EXAMPLE_OUTPUT_LENGTH = 1000
+
+const INPUT_TYPES: JsonSchemaType[] = ['string', 'number', 'integer', 'boolean', 'array', 'object']
+
+// Tool inputs are declared the smolagents way, "any" and media types have no JSON Schema equivalent
+export const toolInputsSchema = (tool: Tool): JsonSchema => {
+  let inputs: Record<string, { type?: string; description?: string; nullable?: boolean }> = {}
+  try {
+    inputs = tool.inputs ? JSON.parse(tool.inputs) : {}
+  } catch (error) {
+    console.warn(`Invalid inputs of tool ${tool.name}`, error)
+  }
+
+  const properties: Record<string, JsonSchema> = {}
+  Object.entries(inputs).forEach(([name, input]) => {
+    const type = INPUT_TYPES.find(item => item === input.type)
+    properties[name] = {
+      type: type ?? (input.type === 'any' ? undefined : 'string'),
+      description: input.description,
+    }
+  })
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(inputs).filter(name => !inputs[name].nullable),
+  }
+}
+
+const toPythonLiteral = (value: any): string => {
+  if (value === null || value === undefined) return 'None'
+  if (typeof value === 'boolean') return value ? 'True' : 'False'
+  if (typeof value === 'number' || typeof value === 'string') return JSON.stringify(value)
+  if (Array.isArray(value)) return `[${value.map(toPythonLiteral).join(', ')}]`
+  return `{${Object.entries(value).map(([key, item]) => `${JSON.stringify(key)}: ${toPythonLiteral(item)}`).join(', ')}}`
+}
+
+export const formatToolOutput = (output: any): string =>
+  typeof output === 'string' ? output : JSON.stringify(output, null, 2)
+
+// An example in the Think / Code / Observe format of the agent prompts, calling the tool with the sample inputs
+export const buildFewShotExample = (
+  toolName: string,
+  inputs: Record<string, any>,
+  output: any,
+  task: string,
+  thought: string
+): string => {
+  const args = Object.entries(inputs)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `${name}=${toPythonLiteral(value)}`)
+    .join(', ')
+  const observation = formatToolOutput(output)
+  return [
+    `Task: "${task}"`,
+    '',
+    thought,
+    'Code:',
+    '```py',
+    `result = ${toolName}(${args})`,
+    'print(result)',
+    '```<end_code>',
+    '',
+    observation.length > MAX_EXAMPLE_OUTPUT_LENGTH
+      ? `${observation.slice(0, MAX_EXAMPLE_OUTPUT_LENGTH)}...`
+      : observation,
+  ].join('\n')
+}
@@ -25,6 +25,7 @@ import {
 // Import new components
 import KnowledgeBaseList from './knowledgeBase/KnowledgeBaseList'
 import DocumentList from './document/DocumentListLayout'
+import RetrievalTestPanel from './retrieval/RetrievalTestPanel'
 import { useConfirmModal } from './components/ConfirmModal'
 
 // EmptyState component defined directly in this file
@@ -127,6 +128,7 @@ function DataConfig({ isActive }: DataConfigProps) {
   const [newKbName, setNewKbName] = useState("");
   const [uploadFiles, setUploadFiles] = useState<File[]>([]);
   const [hasClickedUpload, setHasClickedUpload] = useState(false);
+  const [showRetrievalTest, setShowRetrievalTest] = useState(false);
 
   // 添加监听选中新知识库的事件
   useEffect(() => {
@@ -474,7 +476,7 @@ const getAuthHeaders = () => {
         knowledgeBasePollingService.setActiveKnowledgeBase(newKB.id);
         setHasClickedUpload(false);
 
-        await uploadDocuments(newKB.id, filesToUpload);
+        await uploadDocuments(newKB.id, filesToUpload, docState.uploadAttributes ?? undefined);
         setUploadFiles([]);
         
         knowledgeBasePollingService.handleNewKnowledgeBaseCreation(
@@ -504,7 +506,7 @@ const getAuthHeaders = () => {
     }
     
     try {
-      await uploadDocuments(kbId, filesToUpload);
+      await uploadDocuments(kbId, filesToUpload, docState.uploadAttributes ?? undefined);
       setUploadFiles([]);
       
       knowledgeBasePollingService.triggerKnowledgeBaseListUpdate(true);
@@ -623,6 +625,7 @@ const getAuthHeaders = () => {
             onDelete={handleDelete}
             onSync={handleSync}
             onCreateNew={handleCreateNew}
+            onTestRetrieval={() => setShowRetrievalTest(true)}
             isSelectable={isKnowledgeBaseSelectable}
             getModelDisplayName={(modelId) => modelId}
             containerHeight={SETUP_PAGE_CONTAINER.MAIN_CONTENT_HEIGHT}
@@ -693,6 +696,18 @@ const getAuthHeaders = () => {
           </div>
         </div>
       </div>
+
+      <RetrievalTestPanel
+        open={showRetrievalTest}
+        onClose={() => setShowRetrievalTest(false)}
+        knowledgeBases={kbState.knowledgeBases}
+        defaultIndexNames={
+          kbState.selectedIds.length > 0
+            ? kbState.selectedIds
+            : kbState.activeKnowledgeBase ? [kbState.activeKnowledgeBase.id] : []
+        }
+        isSelectable={isKnowledgeBaseSelectable}
+      />
     </>
   )
 }
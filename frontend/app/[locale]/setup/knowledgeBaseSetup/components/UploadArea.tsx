@@ -7,6 +7,7 @@ import {
   checkKnowledgeBaseName,
   fetchKnowledgeBaseInfo,
   validateFileType,
+  ACCEPTED_FILE_TYPES,
 } from './UploadService';
 
 interface UploadAreaProps {
@@ -201,7 +202,7 @@ const UploadArea = forwardRef<UploadAreaRef, UploadAreaProps>(({
     fileList,
     onChange: handleChange,
     customRequest: handleCustomRequest,
-    accept: '.pdf,.docx,.pptx,.xlsx,.md,.txt,.csv',
+    accept: ACCEPTED_FILE_TYPES,
     showUploadList: true,
     disabled: disabled,
     progress: {
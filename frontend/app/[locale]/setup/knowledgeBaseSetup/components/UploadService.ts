@@ -55,6 +55,9 @@ export const fetchKnowledgeBaseInfo = async (
   }
 };
 
+// 上传控件可选择的文件类型
+export const ACCEPTED_FILE_TYPES = '.pdf,.docx,.pptx,.xlsx,.md,.txt,.csv';
+
 // 文件类型验证
 export const validateFileType = (file: File, t: TFunction, message: any): boolean => {
   const validTypes = [
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react'
+import { Input, Modal, Select, Switch } from 'antd'
+import { useTranslation } from 'react-i18next'
+import { DocumentAttributes, DocumentMetadataField } from '@/types/knowledgeBase'
+
+interface DocumentAttributesModalProps {
+  open: boolean
+  title: string
+  fields: DocumentMetadataField[]
+  value: DocumentAttributes
+  onSave: (attributes: DocumentAttributes) => Promise<void> | void
+  onClose: () => void
+}
+
+// 与用户信息中的角色一致
+const ROLES = ['admin', 'user']
+
+// 编辑一个文档或新上传文档的元数据和可见范围
+const DocumentAttributesModal: React.FC<DocumentAttributesModalProps> = ({ open, title, fields, value, onSave, onClose }) => {
+  const { t } = useTranslation()
+  const [attributes, setAttributes] = useState<DocumentAttributes>(value)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setAttributes(value)
+  }, [open])
+
+  const setMetadata = (key: string, fieldValue: any) => {
+    const metadata = { ...attributes.metadata }
+    if (fieldValue === undefined || fieldValue === '' || (Array.isArray(fieldValue) && fieldValue.length === 0)) {
+      delete metadata[key]
+    } else {
+      metadata[key] = fieldValue
+    }
+    setAttributes({ ...attributes, metadata })
+  }
+
+  const { visibility } = attributes
+  const visibilityError = visibility.restricted && visibility.users.length === 0 && visibility.roles.length === 0
+
+  const handleOk = async () => {
+    setIsSaving(true)
+    try {
+      await onSave(attributes)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderInput = (field: DocumentMetadataField) => {
+    const fieldValue = attributes.metadata[field.key]
+    switch (field.type) {
+      case 'text':
+        return <Input value={fieldValue} onChange={(e) => setMetadata(field.key, e.target.value)} />
+      case 'select':
+        return (
+          <Select
+            className="w-full"
+            allowClear
+            value={fieldValue}
+            onChange={(selected) => setMetadata(field.key, selected)}
+            options={(field.options || []).map(option => ({ value: option, label: option }))}
+          />
+        )
+      case 'date':
+        return <Input type="date" value={fieldValue} onChange={(e) => setMetadata(field.key, e.target.value)} />
+      case 'tags':
+        return (
+          <Select
+            className="w-full"
+            mode="tags"
+            value={fieldValue || []}
+            onChange={(tags) => setMetadata(field.key, tags)}
+            tokenSeparators={[',']}
+          />
+        )
+    }
+  }
+
+  return (
+    <Modal
+      title={title}
+      open={open}
+      onCancel={onClose}
+      onOk={handleOk}
+      okText={t('common.save')}
+      cancelText={t('common.cancel')}
+      okButtonProps={{ loading: isSaving, disabled: visibilityError }}
+      destroyOnClose
+    >
+      <div className="flex flex-col gap-3">
+        {fields.map(field => (
+          <div key={field.key} className="flex items-center gap-3">
+            <span className="w-32 flex-shrink-0 truncate text-sm text-gray-600" title={field.key}>{field.label}</span>
+            <div className="min-w-0 flex-1">{renderInput(field)}</div>
+          </div>
+        ))}
+
+        <div className="mt-2 border-t border-gray-200 pt-3">
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <Switch
+              size="small"
+              checked={visibility.restricted}
+              onChange={(restricted) => setAttributes({ ...attributes, visibility: { ...visibility, restricted } })}
+            />
+            {t('document.attributes.restricted')}
+          </div>
+          <div className="mt-1 text-xs text-gray-400">
+            {visibility.restricted ? t('document.attributes.restrictedHint') : t('document.attributes.everyoneHint')}
+          </div>
+          {visibility.restricted && (
+            <div className="mt-2 flex flex-col gap-2">
+              <Select
+                mode="multiple"
+                className="w-full"
+                value={visibility.roles}
+                onChange={(roles) => setAttributes({ ...attributes, visibility: { ...visibility, roles } })}
+                placeholder={t('document.attributes.rolesPlaceholder')}
+                options={ROLES.map(role => ({ value: role, label: t(`document.attributes.role.${role}`) }))}
+              />
+              <Select
+                mode="tags"
+                className="w-full"
+                value={visibility.users}
+                onChange={(users) => setAttributes({ ...attributes, visibility: { ...visibility, users } })}
+                placeholder={t('document.attributes.usersPlaceholder')}
+                tokenSeparators={[',', ' ']}
+                open={false}
+              />
+              {visibilityError && <div className="text-xs text-red-500">{t('document.attributes.audienceRequired')}</div>}
+            </div>
+          )}
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export default DocumentAttributesModal
@@ -0,0 +1,338 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { App, Button, Drawer, Empty, Input, Popconfirm, Spin, Tag, Tooltip } from 'antd'
+import {
+  DeleteOutlined,
+  EditOutlined,
+  MergeCellsOutlined,
+  PlusOutlined,
+  ScissorOutlined,
+} from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { Document, DocumentChunk } from '@/types/knowledgeBase'
+import knowledgeBaseService from '@/services/knowledgeBaseService'
+import { HighlightedSnippet } from '@/components/ui/highlightedSnippet'
+
+interface DocumentChunkBrowserProps {
+  open: boolean
+  kbId: string
+  document: Document | null
+  onClose: () => void
+  // 分块数量变化后刷新文档列表
+  onChunksChange: () => void
+}
+
+// 正在编辑的分块，新增分块时id为空
+interface ChunkDraft {
+  id: string | null
+  position: number
+  content: string
+  metadata: string
+}
+
+const formatMetadata = (metadata: Record<string, any>) =>
+  Object.keys(metadata).length > 0 ? JSON.stringify(metadata, null, 2) : ''
+
+// 元数据必须是JSON对象，空白表示没有元数据
+const parseMetadata = (text: string): Record<string, any> | null => {
+  if (!text.trim()) return {}
+  try {
+    const parsed = JSON.parse(text)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+const matchesQuery = (chunk: DocumentChunk, terms: string[]) => {
+  const content = chunk.content.toLowerCase()
+  return terms.every(term => content.includes(term))
+}
+
+const DocumentChunkBrowser: React.FC<DocumentChunkBrowserProps> = ({ open, kbId, document, onClose, onChunksChange }) => {
+  const { t } = useTranslation()
+  const { message } = App.useApp()
+  const [chunks, setChunks] = useState<DocumentChunk[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [query, setQuery] = useState('')
+  const [draft, setDraft] = useState<ChunkDraft | null>(null)
+  // 正在切分的分块，切分位置取文本框中的光标位置
+  const [splittingId, setSplittingId] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const splitInputRef = useRef<any>(null)
+
+  const loadChunks = async () => {
+    if (!document) return
+    setIsLoading(true)
+    try {
+      setChunks(await knowledgeBaseService.getDocumentChunks(kbId, document.id))
+    } catch (error) {
+      message.error(t('document.chunks.loadFailed'))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open || !document) return
+    setQuery('')
+    setDraft(null)
+    setSplittingId(null)
+    loadChunks()
+  }, [open, kbId, document?.id])
+
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean)
+  const visibleChunks = useMemo(
+    () => terms.length > 0 ? chunks.filter(chunk => matchesQuery(chunk, terms)) : chunks,
+    [chunks, query]
+  )
+  const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.token_count, 0)
+  const draftMetadata = draft ? parseMetadata(draft.metadata) : null
+  // 新增的分块显示在它前一个分块下方，前一个分块不可见时显示在列表顶部
+  const newDraftAnchor = draft && draft.id === null
+    ? visibleChunks.find(chunk => chunk.position + 1 === draft.position)
+    : undefined
+
+  // 增删、合并和切分都会移动后续分块的位置，操作后重新加载整个列表
+  const runChange = async (chunkId: string | null, change: () => Promise<unknown>, successKey: string, failedKey: string) => {
+    setBusyId(chunkId ?? 'new')
+    try {
+      await change()
+      message.success(t(successKey))
+      setDraft(null)
+      setSplittingId(null)
+      await loadChunks()
+      onChunksChange()
+    } catch (error) {
+      message.error(t(failedKey))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleSaveDraft = () => {
+    if (!draft || !document || !draft.content.trim() || !draftMetadata) return
+    if (draft.id) {
+      const chunkId = draft.id
+      runChange(
+        chunkId,
+        () => knowledgeBaseService.updateChunk(kbId, chunkId, draft.content, draftMetadata),
+        'document.chunks.saveSuccess',
+        'document.chunks.saveFailed'
+      )
+    } else {
+      runChange(
+        null,
+        () => knowledgeBaseService.createChunk(kbId, document.id, draft.position, draft.content, draftMetadata),
+        'document.chunks.addSuccess',
+        'document.chunks.addFailed'
+      )
+    }
+  }
+
+  const handleSplit = (chunk: DocumentChunk) => {
+    const textarea: HTMLTextAreaElement | undefined = splitInputRef.current?.resizableTextArea?.textArea
+    const offset = textarea?.selectionStart ?? 0
+    if (offset <= 0 || offset >= chunk.content.length) {
+      message.warning(t('document.chunks.splitHint'))
+      return
+    }
+    runChange(
+      chunk.id,
+      () => knowledgeBaseService.splitChunk(kbId, chunk.id, offset),
+      'document.chunks.splitSuccess',
+      'document.chunks.splitFailed'
+    )
+  }
+
+  const renderDraftEditor = () => draft && (
+    <div className="flex flex-col gap-2">
+      <Input.TextArea
+        value={draft.content}
+        onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+        autoSize={{ minRows: 4, maxRows: 16 }}
+        placeholder={t('document.chunks.contentPlaceholder')}
+        autoFocus
+      />
+      <Input.TextArea
+        value={draft.metadata}
+        onChange={(e) => setDraft({ ...draft, metadata: e.target.value })}
+        autoSize={{ minRows: 1, maxRows: 6 }}
+        placeholder={t('document.chunks.metadataPlaceholder')}
+        status={draftMetadata ? undefined : 'error'}
+        className="font-mono text-xs"
+      />
+      {!draftMetadata && <div className="text-xs text-red-500">{t('document.chunks.invalidMetadata')}</div>}
+      <div className="flex justify-end gap-2">
+        <Button size="small" onClick={() => setDraft(null)}>{t('common.cancel')}</Button>
+        <Button
+          size="small"
+          type="primary"
+          onClick={handleSaveDraft}
+          loading={busyId === (draft.id ?? 'new')}
+          disabled={!draft.content.trim() || !draftMetadata}
+        >
+          {t('common.save')}
+        </Button>
+      </div>
+    </div>
+  )
+
+  const renderChunk = (chunk: DocumentChunk) => {
+    const index = chunks.findIndex(item => item.id === chunk.id)
+    const next = chunks[index + 1]
+    const isEditing = draft?.id === chunk.id
+    const isSplitting = splittingId === chunk.id
+    const disabled = busyId !== null || (draft !== null && !isEditing)
+
+    return (
+      <div key={chunk.id} className="mb-3 rounded-md border border-gray-200 p-3">
+        <div className="mb-2 flex items-center gap-2 text-xs text-gray-500">
+          <span className="font-medium text-gray-700">#{chunk.position + 1}</span>
+          {chunk.page !== null && <span>{t('document.chunks.page', { page: chunk.page })}</span>}
+          <span>{t('document.chunks.tokens', { count: chunk.token_count })}</span>
+          {chunk.edited && <Tag color="orange" className="m-0 text-[10px]">{t('document.chunks.edited')}</Tag>}
+          <div className="flex-1" />
+          <Tooltip title={t('document.chunks.edit')}>
+            <Button
+              type="text"
+              size="small"
+              icon={<EditOutlined />}
+              disabled={disabled || isEditing}
+              onClick={() => setDraft({ id: chunk.id, position: chunk.position, content: chunk.content, metadata: formatMetadata(chunk.metadata) })}
+            />
+          </Tooltip>
+          <Tooltip title={t('document.chunks.split')}>
+            <Button
+              type="text"
+              size="small"
+              icon={<ScissorOutlined />}
+              disabled={disabled || isEditing || chunk.content.length < 2}
+              onClick={() => setSplittingId(isSplitting ? null : chunk.id)}
+            />
+          </Tooltip>
+          <Tooltip title={t('document.chunks.mergeNext')}>
+            <Popconfirm
+              title={t('document.chunks.mergeConfirm', { from: chunk.position + 1, to: chunk.position + 2 })}
+              onConfirm={() => runChange(
+                chunk.id,
+                () => knowledgeBaseService.mergeChunks(kbId, [chunk.id, next.id]),
+                'document.chunks.mergeSuccess',
+                'document.chunks.mergeFailed'
+              )}
+              disabled={!next || disabled}
+            >
+              <Button type="text" size="small" icon={<MergeCellsOutlined />} disabled={!next || disabled} />
+            </Popconfirm>
+          </Tooltip>
+          <Tooltip title={t('document.chunks.addAfter')}>
+            <Button
+              type="text"
+              size="small"
+              icon={<PlusOutlined />}
+              disabled={disabled}
+              onClick={() => setDraft({ id: null, position: chunk.position + 1, content: '', metadata: formatMetadata(chunk.metadata) })}
+            />
+          </Tooltip>
+          <Popconfirm
+            title={t('document.chunks.deleteConfirm')}
+            onConfirm={() => runChange(
+              chunk.id,
+              () => knowledgeBaseService.deleteChunk(kbId, chunk.id),
+              'document.chunks.deleteSuccess',
+              'document.chunks.deleteFailed'
+            )}
+            disabled={disabled}
+          >
+            <Button type="text" size="small" danger icon={<DeleteOutlined />} disabled={disabled} loading={busyId === chunk.id} />
+          </Popconfirm>
+        </div>
+
+        {isEditing ? renderDraftEditor() : isSplitting ? (
+          <div className="flex flex-col gap-2">
+            <div className="text-xs text-gray-500">{t('document.chunks.splitHint')}</div>
+            <Input.TextArea
+              ref={splitInputRef}
+              value={chunk.content}
+              readOnly
+              autoSize={{ minRows: 4, maxRows: 16 }}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button size="small" onClick={() => setSplittingId(null)}>{t('common.cancel')}</Button>
+              <Button size="small" type="primary" onClick={() => handleSplit(chunk)} loading={busyId === chunk.id}>
+                {t('document.chunks.splitHere')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="whitespace-pre-wrap break-words text-sm text-gray-800">
+            <HighlightedSnippet snippet={chunk.content} query={query} />
+          </div>
+        )}
+
+        {!isEditing && Object.keys(chunk.metadata).length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {Object.entries(chunk.metadata).map(([key, value]) => (
+              <Tag key={key} className="m-0 text-[11px]">
+                {key}: {typeof value === 'object' ? JSON.stringify(value) : String(value)}
+              </Tag>
+            ))}
+          </div>
+        )}
+
+        {newDraftAnchor === chunk && (
+          <div className="mt-3 border-t border-dashed pt-3">{renderDraftEditor()}</div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <Drawer
+      title={document ? t('document.chunks.title', { name: document.name }) : ''}
+      open={open}
+      onClose={onClose}
+      width={820}
+      destroyOnClose
+    >
+      <div className="mb-3 flex items-center gap-3">
+        <Input.Search
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('document.chunks.searchPlaceholder')}
+          allowClear
+          className="flex-1"
+        />
+        <span className="whitespace-nowrap text-xs text-gray-500">
+          {terms.length > 0
+            ? t('document.chunks.matches', { count: visibleChunks.length, total: chunks.length })
+            : t('document.chunks.summary', { count: chunks.length, tokens: totalTokens })}
+        </span>
+        <Button
+          icon={<PlusOutlined />}
+          disabled={busyId !== null || draft !== null}
+          onClick={() => setDraft({ id: null, position: chunks.length, content: '', metadata: '' })}
+        >
+          {t('document.chunks.add')}
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8"><Spin /></div>
+      ) : (
+        <>
+          {draft && draft.id === null && !newDraftAnchor && (
+            <div className="mb-3 rounded-md border border-dashed border-gray-300 p-3">{renderDraftEditor()}</div>
+          )}
+          {visibleChunks.length === 0 && !draft ? (
+            <Empty description={terms.length > 0 ? t('document.chunks.noMatches') : t('document.chunks.empty')} />
+          ) : (
+            visibleChunks.map(renderChunk)
+          )}
+        </>
+      )}
+    </Drawer>
+  )
+}
+
+export default DocumentChunkBrowser
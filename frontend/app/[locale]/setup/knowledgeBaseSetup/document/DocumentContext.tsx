@@ -1,7 +1,7 @@
 "use client"
 
 import { createContext, useReducer, useContext, ReactNode, useCallback, useEffect } from "react"
-import { Document } from "@/types/knowledgeBase"
+import { Document, DocumentAttributes } from "@/types/knowledgeBase"
 import knowledgeBaseService from "@/services/knowledgeBaseService"
 import { useTranslation } from 'react-i18next';
 
@@ -10,6 +10,7 @@ interface DocumentState {
   documentsMap: Record<string, Document[]>;
   selectedIds: string[];
   uploadFiles: File[];
+  uploadAttributes: DocumentAttributes | null; // Metadata and visibility given to the next uploaded files
   isUploading: boolean;
   loadingKbIds: Set<string>;
   isLoadingDocuments: boolean;
@@ -23,6 +24,8 @@ type DocumentAction =
   | { type: 'SELECT_DOCUMENTS', payload: string[] }
   | { type: 'SELECT_ALL', payload: { kbId: string, selected: boolean } }
   | { type: 'SET_UPLOAD_FILES', payload: File[] }
+  | { type: 'SET_UPLOAD_ATTRIBUTES', payload: DocumentAttributes | null }
+  | { type: 'UPDATE_DOCUMENT', payload: { kbId: string, docId: string, changes: Partial<Document> } }
   | { type: 'SET_UPLOADING', payload: boolean }
   | { type: 'SET_LOADING_DOCUMENTS', payload: boolean }
   | { type: 'DELETE_DOCUMENT', payload: { kbId: string, docId: string } }
@@ -76,6 +79,20 @@ const documentReducer = (state: DocumentState, action: DocumentAction): Document
         ...state,
         uploadFiles: action.payload
       };
+    case 'SET_UPLOAD_ATTRIBUTES':
+      return {
+        ...state,
+        uploadAttributes: action.payload
+      };
+    case 'UPDATE_DOCUMENT':
+      const { kbId: updateKbId, docId: updateDocId, changes } = action.payload;
+      return {
+        ...state,
+        documentsMap: {
+          ...state.documentsMap,
+          [updateKbId]: state.documentsMap[updateKbId]?.map(doc => doc.id === updateDocId ? { ...doc, ...changes } : doc) || []
+        }
+      };
     case 'SET_UPLOADING':
       return {
         ...state,
@@ -134,13 +151,14 @@ export const DocumentContext = createContext<{
   state: DocumentState;
   dispatch: React.Dispatch<DocumentAction>;
   fetchDocuments: (kbId: string, forceRefresh?: boolean) => Promise<void>;
-  uploadDocuments: (kbId: string, files: File[]) => Promise<void>;
+  uploadDocuments: (kbId: string, files: File[], attributes?: DocumentAttributes) => Promise<void>;
   deleteDocument: (kbId: string, docId: string) => Promise<void>;
 }>({
   state: {
     documentsMap: {},
     selectedIds: [],
     uploadFiles: [],
+    uploadAttributes: null,
     isUploading: false,
     loadingKbIds: new Set<string>(),
     isLoadingDocuments: false,
@@ -166,6 +184,7 @@ export const DocumentProvider: React.FC<DocumentProviderProps> = ({ children })
     documentsMap: {},
     selectedIds: [],
     uploadFiles: [],
+    uploadAttributes: null,
     isUploading: false,
     loadingKbIds: new Set<string>(),
     isLoadingDocuments: false,
@@ -224,11 +243,11 @@ export const DocumentProvider: React.FC<DocumentProviderProps> = ({ children })
   }, [state.loadingKbIds, state.documentsMap, t]);
 
   // Upload documents to a knowledge base
-  const uploadDocuments = useCallback(async (kbId: string, files: File[]) => {
+  const uploadDocuments = useCallback(async (kbId: string, files: File[], attributes?: DocumentAttributes) => {
     dispatch({ type: 'SET_UPLOADING', payload: true });
     
     try {
-      await knowledgeBaseService.uploadDocuments(kbId, files);
+      await knowledgeBaseService.uploadDocuments(kbId, files, undefined, attributes);
       
       // Set loading state before fetching latest documents
       dispatch({ type: 'SET_LOADING_DOCUMENTS', payload: true });
@@ -1,14 +1,27 @@
 import React, { useState, useRef, forwardRef, useImperativeHandle } from 'react'
-import { Document } from '@/types/knowledgeBase'
+import {
+  Document,
+  DocumentAttributes,
+  DocumentMetadataField,
+  DEFAULT_DOCUMENT_VISIBILITY,
+  DEFAULT_METADATA_FIELDS,
+} from '@/types/knowledgeBase'
 import DocumentStatus from './DocumentStatus'
-import { InfoCircleFilled } from '@ant-design/icons'
+import DocumentChunkBrowser from './DocumentChunkBrowser'
+import DocumentAttributesModal from './DocumentAttributesModal'
+import MetadataFieldsModal from './MetadataFieldsModal'
+import { MetadataFilters, activeFilterCount, formatMetadataValue, matchesMetadataFilters } from './documentMetadata'
+import KnowledgeSourcesDrawer from '../source/KnowledgeSourcesDrawer'
+import IngestionProfileModal from '../knowledgeBase/IngestionProfileModal'
+import { InfoCircleFilled, LockOutlined, FilterOutlined } from '@ant-design/icons'
 import UploadArea from '../components/UploadArea'
 import { formatFileSize, formatDateTime, sortByStatusAndDate } from '@/lib/utils'
-import { Input, Button } from 'antd'
+import { Input, Button, Select, DatePicker, Tag, Tooltip } from 'antd'
 import { useKnowledgeBaseContext } from '../knowledgeBase/KnowledgeBaseContext'
 import { useDocumentContext } from './DocumentContext'
 import { App } from 'antd'
 import knowledgeBaseService from '@/services/knowledgeBaseService'
+import knowledgeBasePollingService from '@/services/knowledgeBasePollingService'
 import { useTranslation } from 'react-i18next'
 
 // UI layout configuration, internally manages height ratios of each section
@@ -19,11 +32,11 @@ export const UI_CONFIG = {
 
 // Column width constants configuration for unified management
 export const COLUMN_WIDTHS = {
-  NAME: '47%',     // Document name column width
+  NAME: '43%',     // Document name column width
   STATUS: '11%',   // Status column width
   SIZE: '11%',     // Size column width
   DATE: '20%',     // Date column width
-  ACTION: '11%'    // Action column width
+  ACTION: '15%'    // Action column width
 }
 
 // Document name display configuration
@@ -54,7 +67,8 @@ export const LAYOUT = {
   // Icons and buttons
   ICON_SIZE: 'text-lg',  // File icon size
   ICON_MARGIN: 'mr-2',   // File icon right margin
-  ACTION_TEXT: 'text-red-500 hover:text-red-700 font-medium text-xs' // Action button text style
+  ACTION_TEXT: 'text-red-500 hover:text-red-700 font-medium text-xs', // Action button text style
+  LINK_TEXT: 'text-blue-500 hover:text-blue-700 font-medium text-xs mr-3 disabled:text-gray-300' // Secondary action text style
 }
 
 interface DocumentListProps {
@@ -108,7 +122,19 @@ const DocumentListContainer = forwardRef<DocumentListRef, DocumentListProps>(({
 }, ref) => {
   const { message } = App.useApp();
   const uploadAreaRef = useRef<any>(null);
-  const { state: docState } = useDocumentContext();
+  const { state: docState, fetchDocuments, dispatch: docDispatch } = useDocumentContext();
+  // 正在浏览分块的文档
+  const [chunkDocument, setChunkDocument] = useState<Document | null>(null);
+  const [showSources, setShowSources] = useState(false);
+  const [showIngestionProfile, setShowIngestionProfile] = useState(false);
+  // 知识库的元数据字段和文档列表的筛选条件
+  const [metadataFields, setMetadataFields] = useState<DocumentMetadataField[]>(DEFAULT_METADATA_FIELDS);
+  const [metadataFilters, setMetadataFilters] = useState<MetadataFilters>({});
+  // 日期范围选择器不受控，清空筛选时通过key重置
+  const [filterResetKey, setFilterResetKey] = useState(0);
+  const [showMetadataFields, setShowMetadataFields] = useState(false);
+  // 正在编辑属性的文档，'upload'表示编辑新上传文件的属性
+  const [attributesTarget, setAttributesTarget] = useState<Document | 'upload' | null>(null);
   
   // 使用固定高度而不是百分比
   const titleBarHeight = UI_CONFIG.TITLE_BAR_HEIGHT;
@@ -119,6 +145,8 @@ const DocumentListContainer = forwardRef<DocumentListRef, DocumentListProps>(({
 
   // 按状态和日期排序的文档列表
   const sortedDocuments = sortByStatusAndDate(documents);
+  const filteredDocuments = sortedDocuments.filter(doc => matchesMetadataFilters(doc, metadataFields, metadataFilters));
+  const filterCount = activeFilterCount(metadataFilters);
 
   // 获取文件图标
   const getFileIcon = (type: string): string => {
@@ -164,6 +192,111 @@ const DocumentListContainer = forwardRef<DocumentListRef, DocumentListProps>(({
     setShowDetail(false);
   }, [knowledgeBaseName]);
 
+  // 切换知识库时加载其元数据字段并清空筛选条件
+  React.useEffect(() => {
+    setMetadataFilters({});
+    setMetadataFields(DEFAULT_METADATA_FIELDS);
+    if (isCreatingMode || !knowledgeBaseName) return;
+    knowledgeBaseService.getMetadataFields(knowledgeBaseName)
+      .then(setMetadataFields)
+      .catch(() => message.error(t('document.metadataFields.loadFailed')));
+  }, [knowledgeBaseName, isCreatingMode]);
+
+  const clearMetadataFilters = () => {
+    setMetadataFilters({});
+    setFilterResetKey(key => key + 1);
+  };
+
+  const handleSaveAttributes = async (attributes: DocumentAttributes) => {
+    if (attributesTarget === 'upload') {
+      docDispatch({ type: 'SET_UPLOAD_ATTRIBUTES', payload: attributes });
+      setAttributesTarget(null);
+      return;
+    }
+    if (!attributesTarget) return;
+    try {
+      await knowledgeBaseService.updateDocumentAttributes(knowledgeBaseName, attributesTarget.id, attributes);
+      docDispatch({
+        type: 'UPDATE_DOCUMENT',
+        payload: { kbId: knowledgeBaseName, docId: attributesTarget.id, changes: attributes }
+      });
+      message.success(t('document.attributes.saveSuccess'));
+      setAttributesTarget(null);
+    } catch (error) {
+      message.error(t('document.attributes.saveFailed'));
+    }
+  };
+
+  // 元数据筛选栏，每个字段一个筛选控件
+  const renderMetadataFilter = (field: DocumentMetadataField) => {
+    const setFilter = (value: MetadataFilters[string]) => setMetadataFilters(prev => ({ ...prev, [field.key]: value }));
+    switch (field.type) {
+      case 'text':
+        return (
+          <Input
+            key={field.key}
+            size="small"
+            className="w-32"
+            allowClear
+            placeholder={field.label}
+            value={metadataFilters[field.key] as string | undefined}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+        );
+      case 'select':
+      case 'tags':
+        return (
+          <Select
+            key={field.key}
+            size="small"
+            className="min-w-[128px]"
+            allowClear
+            mode={field.type === 'tags' ? 'multiple' : undefined}
+            maxTagCount="responsive"
+            placeholder={field.label}
+            value={metadataFilters[field.key]}
+            onChange={(value) => setFilter(value)}
+            options={(field.type === 'select'
+              ? field.options || []
+              : [...new Set(documents.flatMap(doc => Array.isArray(doc.metadata[field.key]) ? doc.metadata[field.key] : []))]
+            ).map(option => ({ value: option, label: option }))}
+          />
+        );
+      case 'date':
+        return (
+          <DatePicker.RangePicker
+            key={`${field.key}-${filterResetKey}`}
+            size="small"
+            className="w-60"
+            placeholder={[field.label, field.label]}
+            onChange={(_, dateStrings) => setFilter(dateStrings)}
+          />
+        );
+    }
+  };
+
+  // 文档名下方显示已填写的元数据
+  const renderDocumentMetadata = (doc: Document) => {
+    const values = metadataFields
+      .map(field => ({ field, text: formatMetadataValue(field, doc.metadata[field.key]) }))
+      .filter(({ text }) => text !== null);
+    if (values.length === 0 && !doc.visibility.restricted) return null;
+    return (
+      <div className="mt-1 flex flex-wrap items-center gap-1">
+        {doc.visibility.restricted && (
+          <Tooltip title={t('document.attributes.restrictedTo', {
+            audience: [...doc.visibility.roles.map(role => t(`document.attributes.role.${role}`)), ...doc.visibility.users].join(', ')
+          })}>
+            <LockOutlined className="text-xs text-orange-500" />
+          </Tooltip>
+        )}
+        {values.map(({ field, text }) => (
+          <Tag key={field.key} className="m-0 text-[11px] leading-4" title={field.label}>{text}</Tag>
+        ))}
+      </div>
+    );
+  };
+
   // Get summary when showing detailed content
   React.useEffect(() => {
     const fetchSummary = async () => {
@@ -280,7 +413,11 @@ const DocumentListContainer = forwardRef<DocumentListRef, DocumentListProps>(({
           </div>
           {/* 右侧：详细内容 */}
           {!isCreatingMode && (
-            <Button type="primary" onClick={() => setShowDetail(true)}>{t('document.button.details')}</Button>
+            <div className="flex items-center gap-2">
+              <Button onClick={() => setShowSources(true)}>{t('document.button.sources')}</Button>
+              <Button onClick={() => setShowIngestionProfile(true)}>{t('document.button.ingestionProfile')}</Button>
+              <Button type="primary" onClick={() => setShowDetail(true)}>{t('document.button.details')}</Button>
+            </div>
           )}
         </div>
       </div>
@@ -345,70 +482,102 @@ const DocumentListContainer = forwardRef<DocumentListRef, DocumentListProps>(({
               </div>
             </div>
           ) : sortedDocuments.length > 0 ? (
-            <div className="overflow-y-auto border border-gray-200 rounded-md h-full">
-              <table className="min-w-full bg-white">
-                <thead className={`${LAYOUT.TABLE_HEADER_BG} sticky top-0 z-10`}>
-                  <tr>
-                    <th className={`${LAYOUT.CELL_PADDING} text-left ${LAYOUT.HEADER_TEXT} w-[${COLUMN_WIDTHS.NAME}]`}>
-                      {t('document.table.header.name')}
-                    </th>
-                    <th className={`${LAYOUT.CELL_PADDING} text-left ${LAYOUT.HEADER_TEXT} w-[${COLUMN_WIDTHS.STATUS}]`}>
-                      {t('document.table.header.status')}
-                    </th>
-                    <th className={`${LAYOUT.CELL_PADDING} text-left ${LAYOUT.HEADER_TEXT} w-[${COLUMN_WIDTHS.SIZE}]`}>
-                      {t('document.table.header.size')}
-                    </th>
-                    <th className={`${LAYOUT.CELL_PADDING} text-left ${LAYOUT.HEADER_TEXT} w-[${COLUMN_WIDTHS.DATE}]`}>
-                      {t('document.table.header.date')}
-                    </th>
-                    <th className={`${LAYOUT.CELL_PADDING} text-left ${LAYOUT.HEADER_TEXT} w-[${COLUMN_WIDTHS.ACTION}]`}>
-                      {t('document.table.header.action')}
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className={LAYOUT.TABLE_ROW_DIVIDER}>
-                  {sortedDocuments.map((doc) => (
-                    <tr key={doc.id} className={LAYOUT.TABLE_ROW_HOVER}>
-                      <td className={LAYOUT.CELL_PADDING}>
-                        <div className="flex items-center">
-                          <span className={`${LAYOUT.ICON_MARGIN} ${LAYOUT.ICON_SIZE}`}>
-                            {getFileIcon(doc.type)}
-                          </span>
-                          <span
-                            className={`${LAYOUT.TEXT_SIZE} font-medium text-gray-800 truncate max-w-[${DOCUMENT_NAME_CONFIG.MAX_WIDTH}] whitespace-${DOCUMENT_NAME_CONFIG.WHITE_SPACE} overflow-${DOCUMENT_NAME_CONFIG.OVERFLOW} text-${DOCUMENT_NAME_CONFIG.TEXT_OVERFLOW}`}
-                            title={doc.name}
-                          >
-                            {doc.name}
-                          </span>
-                        </div>
-                      </td>
-                      <td className={LAYOUT.CELL_PADDING}>
-                        <div className="flex items-center">
-                          <DocumentStatus
-                            status={doc.status}
-                            showIcon={true}
-                          />
-                        </div>
-                      </td>
-                      <td className={`${LAYOUT.CELL_PADDING} ${LAYOUT.TEXT_SIZE} text-gray-600`}>
-                        {formatFileSize(doc.size)}
-                      </td>
-                      <td className={`${LAYOUT.CELL_PADDING} ${LAYOUT.TEXT_SIZE} text-gray-600`}>
-                        {formatDateTime(doc.create_time)}
-                      </td>
-                      <td className={LAYOUT.CELL_PADDING}>
-                        <button
-                          onClick={() => onDelete(doc.id)}
-                          className={LAYOUT.ACTION_TEXT}
-                          disabled={doc.status === "WAIT_FOR_PROCESSING" || doc.status === "PROCESSING" || doc.status === "WAIT_FOR_FORWARDING" || doc.status === "FORWARDING"}
-                        >
-                          {t('common.delete')}
-                        </button>
-                      </td>
+            <div className="flex flex-col h-full gap-2">
+              <div className="flex flex-wrap items-center gap-2 flex-shrink-0">
+                <FilterOutlined className="text-gray-400" />
+                {metadataFields.map(renderMetadataFilter)}
+                {filterCount > 0 && (
+                  <Button size="small" type="link" onClick={clearMetadataFilters}>
+                    {t('document.filter.clear', { count: filteredDocuments.length, total: sortedDocuments.length })}
+                  </Button>
+                )}
+                <div className="flex-1" />
+                <Button size="small" onClick={() => setShowMetadataFields(true)}>{t('document.button.metadataFields')}</Button>
+              </div>
+              <div className="overflow-y-auto border border-gray-200 rounded-md flex-1 min-h-0">
+                <table className="min-w-full bg-white">
+                  <thead className={`${LAYOUT.TABLE_HEADER_BG} sticky top-0 z-10`}>
+                    <tr>
+                      <th className={`${LAYOUT.CELL_PADDING} text-left ${LAYOUT.HEADER_TEXT} w-[${COLUMN_WIDTHS.NAME}]`}>
+                        {t('document.table.header.name')}
+                      </th>
+                      <th className={`${LAYOUT.CELL_PADDING} text-left ${LAYOUT.HEADER_TEXT} w-[${COLUMN_WIDTHS.STATUS}]`}>
+                        {t('document.table.header.status')}
+                      </th>
+                      <th className={`${LAYOUT.CELL_PADDING} text-left ${LAYOUT.HEADER_TEXT} w-[${COLUMN_WIDTHS.SIZE}]`}>
+                        {t('document.table.header.size')}
+                      </th>
+                      <th className={`${LAYOUT.CELL_PADDING} text-left ${LAYOUT.HEADER_TEXT} w-[${COLUMN_WIDTHS.DATE}]`}>
+                        {t('document.table.header.date')}
+                      </th>
+                      <th className={`${LAYOUT.CELL_PADDING} text-left ${LAYOUT.HEADER_TEXT} w-[${COLUMN_WIDTHS.ACTION}]`}>
+                        {t('document.table.header.action')}
+                      </th>
                     </tr>
-                  ))}
-                </tbody>
-              </table>
+                  </thead>
+                  <tbody className={LAYOUT.TABLE_ROW_DIVIDER}>
+                    {filteredDocuments.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="py-6 text-center text-xs text-gray-500">{t('document.filter.noMatches')}</td>
+                      </tr>
+                    )}
+                    {filteredDocuments.map((doc) => (
+                      <tr key={doc.id} className={LAYOUT.TABLE_ROW_HOVER}>
+                        <td className={LAYOUT.CELL_PADDING}>
+                          <div className="flex items-center">
+                            <span className={`${LAYOUT.ICON_MARGIN} ${LAYOUT.ICON_SIZE}`}>
+                              {getFileIcon(doc.type)}
+                            </span>
+                            <span
+                              className={`${LAYOUT.TEXT_SIZE} font-medium text-gray-800 truncate max-w-[${DOCUMENT_NAME_CONFIG.MAX_WIDTH}] whitespace-${DOCUMENT_NAME_CONFIG.WHITE_SPACE} overflow-${DOCUMENT_NAME_CONFIG.OVERFLOW} text-${DOCUMENT_NAME_CONFIG.TEXT_OVERFLOW}`}
+                              title={doc.name}
+                            >
+                              {doc.name}
+                            </span>
+                          </div>
+                          {renderDocumentMetadata(doc)}
+                        </td>
+                        <td className={LAYOUT.CELL_PADDING}>
+                          <div className="flex items-center">
+                            <DocumentStatus
+                              status={doc.status}
+                              showIcon={true}
+                            />
+                          </div>
+                        </td>
+                        <td className={`${LAYOUT.CELL_PADDING} ${LAYOUT.TEXT_SIZE} text-gray-600`}>
+                          {formatFileSize(doc.size)}
+                        </td>
+                        <td className={`${LAYOUT.CELL_PADDING} ${LAYOUT.TEXT_SIZE} text-gray-600`}>
+                          {formatDateTime(doc.create_time)}
+                        </td>
+                        <td className={LAYOUT.CELL_PADDING}>
+                          <button
+                            onClick={() => setChunkDocument(doc)}
+                            className={LAYOUT.LINK_TEXT}
+                            disabled={doc.status !== "COMPLETED"}
+                          >
+                            {t('document.button.chunks')}
+                          </button>
+                          <button
+                            onClick={() => setAttributesTarget(doc)}
+                            className={LAYOUT.LINK_TEXT}
+                          >
+                            {t('document.button.attributes')}
+                          </button>
+                          <button
+                            onClick={() => onDelete(doc.id)}
+                            className={LAYOUT.ACTION_TEXT}
+                            disabled={doc.status === "WAIT_FOR_PROCESSING" || doc.status === "PROCESSING" || doc.status === "WAIT_FOR_FORWARDING" || doc.status === "FORWARDING"}
+                          >
+                            {t('common.delete')}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
             </div>
           ) : (
             <div className="text-center py-2 text-gray-500 text-xs border border-gray-200 rounded-md h-full">
@@ -418,6 +587,27 @@ const DocumentListContainer = forwardRef<DocumentListRef, DocumentListProps>(({
         )}
       </div>
 
+      {/* Attributes given to the files uploaded next */}
+      {!showDetail && (
+        <div className="px-3 py-1.5 border-t border-gray-200 flex items-center gap-2 text-xs text-gray-500 flex-shrink-0">
+          <span>{t('document.attributes.uploadPrefix')}</span>
+          {docState.uploadAttributes && (Object.keys(docState.uploadAttributes.metadata).length > 0 || docState.uploadAttributes.visibility.restricted) ? (
+            <>
+              {docState.uploadAttributes.visibility.restricted && <LockOutlined className="text-orange-500" />}
+              {metadataFields.map(field => {
+                const text = formatMetadataValue(field, docState.uploadAttributes?.metadata[field.key]);
+                return text && <Tag key={field.key} className="m-0 text-[11px] leading-4" title={field.label}>{text}</Tag>;
+              })}
+            </>
+          ) : (
+            <span className="text-gray-400">{t('document.attributes.uploadNone')}</span>
+          )}
+          <button className={LAYOUT.LINK_TEXT} onClick={() => setAttributesTarget('upload')}>
+            {t('document.attributes.uploadEdit')}
+          </button>
+        </div>
+      )}
+
       {/* Upload area */}
       {!showDetail && (
         <UploadArea
@@ -438,6 +628,60 @@ const DocumentListContainer = forwardRef<DocumentListRef, DocumentListProps>(({
           modelMismatch={modelMismatch}
         />
       )}
+
+      <DocumentChunkBrowser
+        open={chunkDocument !== null}
+        kbId={knowledgeBaseName}
+        document={chunkDocument}
+        onClose={() => setChunkDocument(null)}
+        onChunksChange={() => fetchDocuments(knowledgeBaseName, true)}
+      />
+
+      <KnowledgeSourcesDrawer
+        open={showSources}
+        kbId={knowledgeBaseName}
+        onClose={() => setShowSources(false)}
+        onSynced={() => fetchDocuments(knowledgeBaseName, true)}
+      />
+
+      <DocumentAttributesModal
+        open={attributesTarget !== null}
+        title={attributesTarget === 'upload'
+          ? t('document.attributes.uploadTitle')
+          : t('document.attributes.title', { name: attributesTarget?.name })}
+        fields={metadataFields}
+        value={attributesTarget === 'upload'
+          ? docState.uploadAttributes ?? { metadata: {}, visibility: DEFAULT_DOCUMENT_VISIBILITY }
+          : { metadata: attributesTarget?.metadata ?? {}, visibility: attributesTarget?.visibility ?? DEFAULT_DOCUMENT_VISIBILITY }}
+        onSave={handleSaveAttributes}
+        onClose={() => setAttributesTarget(null)}
+      />
+
+      <MetadataFieldsModal
+        open={showMetadataFields}
+        kbId={knowledgeBaseName}
+        fields={metadataFields}
+        onClose={() => setShowMetadataFields(false)}
+        onSaved={(fields) => {
+          setMetadataFields(fields);
+          clearMetadataFilters();
+          setShowMetadataFields(false);
+        }}
+      />
+
+      <IngestionProfileModal
+        open={showIngestionProfile}
+        kbId={knowledgeBaseName}
+        documentCount={documents.length}
+        onClose={() => setShowIngestionProfile(false)}
+        onReprocess={() => {
+          fetchDocuments(knowledgeBaseName, true);
+          knowledgeBasePollingService.startDocumentStatusPolling(
+            knowledgeBaseName,
+            (polledDocuments) => knowledgeBasePollingService.triggerDocumentsUpdate(knowledgeBaseName, polledDocuments)
+          );
+        }}
+      />
     </div>
   )
 });
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react'
+import { App, Button, Input, Modal, Select } from 'antd'
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { DocumentMetadataField, DocumentMetadataFieldType } from '@/types/knowledgeBase'
+import knowledgeBaseService from '@/services/knowledgeBaseService'
+
+interface MetadataFieldsModalProps {
+  open: boolean
+  kbId: string
+  fields: DocumentMetadataField[]
+  onClose: () => void
+  onSaved: (fields: DocumentMetadataField[]) => void
+}
+
+const FIELD_TYPES: DocumentMetadataFieldType[] = ['text', 'select', 'date', 'tags']
+
+// 字段键会作为智能体检索时的筛选条件名称
+const FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]*$/
+
+// 返回第一个错误的翻译键，字段都有效时返回null
+const validateFields = (fields: DocumentMetadataField[]): string | null => {
+  const keys = new Set<string>()
+  for (const field of fields) {
+    if (!FIELD_KEY_PATTERN.test(field.key)) return 'document.metadataFields.error.invalidKey'
+    if (keys.has(field.key)) return 'document.metadataFields.error.duplicateKey'
+    if (!field.label.trim()) return 'document.metadataFields.error.labelRequired'
+    if (field.type === 'select' && !field.options?.length) return 'document.metadataFields.error.optionsRequired'
+    keys.add(field.key)
+  }
+  return null
+}
+
+// 管理知识库的文档元数据字段
+const MetadataFieldsModal: React.FC<MetadataFieldsModalProps> = ({ open, kbId, fields, onClose, onSaved }) => {
+  const { t } = useTranslation()
+  const { message } = App.useApp()
+  const [draft, setDraft] = useState<DocumentMetadataField[]>(fields)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setDraft(fields)
+  }, [open])
+
+  const updateField = (index: number, partial: Partial<DocumentMetadataField>) =>
+    setDraft(draft.map((field, i) => i === index ? { ...field, ...partial } : field))
+
+  const error = validateFields(draft)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await knowledgeBaseService.saveMetadataFields(kbId, draft)
+      message.success(t('document.metadataFields.saveSuccess'))
+      onSaved(draft)
+    } catch (error) {
+      message.error(t('document.metadataFields.saveFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Modal
+      title={t('document.metadataFields.title')}
+      open={open}
+      onCancel={onClose}
+      onOk={handleSave}
+      okText={t('common.save')}
+      cancelText={t('common.cancel')}
+      okButtonProps={{ loading: isSaving, disabled: !!error }}
+      width={760}
+      destroyOnClose
+    >
+      <div className="mb-3 text-xs text-gray-500">{t('document.metadataFields.hint')}</div>
+      <div className="flex flex-col gap-2">
+        {draft.map((field, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <Input
+              className="w-36 font-mono"
+              value={field.key}
+              onChange={(e) => updateField(index, { key: e.target.value.trim() })}
+              placeholder={t('document.metadataFields.keyPlaceholder')}
+            />
+            <Input
+              className="w-36"
+              value={field.label}
+              onChange={(e) => updateField(index, { label: e.target.value })}
+              placeholder={t('document.metadataFields.labelPlaceholder')}
+            />
+            <Select
+              className="w-28"
+              value={field.type}
+              onChange={(type) => updateField(index, { type, options: type === 'select' ? field.options || [] : undefined })}
+              options={FIELD_TYPES.map(type => ({ value: type, label: t(`document.metadataFields.type.${type}`) }))}
+            />
+            {field.type === 'select' ? (
+              <Select
+                className="min-w-0 flex-1"
+                mode="tags"
+                value={field.options || []}
+                onChange={(options) => updateField(index, { options })}
+                placeholder={t('document.metadataFields.optionsPlaceholder')}
+                tokenSeparators={[',']}
+                open={false}
+              />
+            ) : (
+              <div className="flex-1" />
+            )}
+            <Button
+              type="text"
+              danger
+              icon={<DeleteOutlined />}
+              onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+            />
+          </div>
+        ))}
+      </div>
+      <Button
+        className="mt-3"
+        type="dashed"
+        icon={<PlusOutlined />}
+        onClick={() => setDraft([...draft, { key: '', label: '', type: 'text' }])}
+      >
+        {t('document.metadataFields.add')}
+      </Button>
+      {error && <div className="mt-2 text-xs text-red-500">{t(error)}</div>}
+    </Modal>
+  )
+}
+
+export default MetadataFieldsModal
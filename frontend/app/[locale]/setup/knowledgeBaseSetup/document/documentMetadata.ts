@@ -0,0 +1,41 @@
+import { Document, DocumentMetadataField } from '@/types/knowledgeBase'
+
+// 文档列表的元数据筛选条件：text为包含的文本，select为选中的值，tags为必须全部包含的标签，date为起止日期
+export type MetadataFilterValue = string | string[] | [string, string]
+
+export type MetadataFilters = Record<string, MetadataFilterValue>
+
+const isEmptyFilter = (value: MetadataFilterValue | undefined) =>
+  value === undefined || value === '' || (Array.isArray(value) && value.every(item => !item))
+
+export const activeFilterCount = (filters: MetadataFilters) =>
+  Object.values(filters).filter(value => !isEmptyFilter(value)).length
+
+const matchesField = (field: DocumentMetadataField, value: any, filter: MetadataFilterValue) => {
+  switch (field.type) {
+    case 'text':
+      return typeof value === 'string' && value.toLowerCase().includes(String(filter).toLowerCase())
+    case 'select':
+      return value === filter
+    case 'tags':
+      return Array.isArray(value) && (filter as string[]).every(tag => value.includes(tag))
+    case 'date': {
+      // YYYY-MM-DD格式的日期可以直接按字符串比较
+      const [from, to] = filter as [string, string]
+      return typeof value === 'string' && (!from || value >= from) && (!to || value <= to)
+    }
+  }
+}
+
+export const matchesMetadataFilters = (doc: Document, fields: DocumentMetadataField[], filters: MetadataFilters) =>
+  fields.every(field => {
+    const filter = filters[field.key]
+    return isEmptyFilter(filter) || matchesField(field, doc.metadata[field.key], filter)
+  })
+
+// 列表中显示的元数据值，未填写时返回null
+export const formatMetadataValue = (field: DocumentMetadataField, value: any): string | null => {
+  if (value === undefined || value === null || value === '') return null
+  if (field.type === 'tags') return Array.isArray(value) && value.length > 0 ? value.join(', ') : null
+  return String(value)
+}
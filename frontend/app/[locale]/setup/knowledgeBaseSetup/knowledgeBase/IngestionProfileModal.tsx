@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react'
+import { App, Button, Checkbox, Empty, InputNumber, Modal, Radio, Select, Spin, Switch, Upload } from 'antd'
+import { EyeOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import {
+  ChunkingPreview,
+  ChunkSplitMode,
+  DEFAULT_INGESTION_PROFILE,
+  IngestionProfile,
+  TableExtractionMode,
+} from '@/types/knowledgeBase'
+import knowledgeBaseService from '@/services/knowledgeBaseService'
+import { ACCEPTED_FILE_TYPES, validateFileType } from '../components/UploadService'
+
+interface IngestionProfileModalProps {
+  open: boolean
+  kbId: string
+  // 已有文档数，有文档时才可选择重新处理
+  documentCount: number
+  onClose: () => void
+  // 开始重新处理后刷新文档状态
+  onReprocess: () => void
+}
+
+const SPLIT_MODES: ChunkSplitMode[] = ['heading', 'page', 'sentence']
+
+const TABLE_MODES: TableExtractionMode[] = ['markdown', 'text', 'skip']
+
+const LANGUAGES = ['auto', 'zh', 'en']
+
+const MIN_CHUNK_SIZE = 64
+const MAX_CHUNK_SIZE = 8192
+
+// 预览只显示前面的分块，总数和token数仍按整个文件计算
+const PREVIEW_CHUNK_LIMIT = 50
+
+const IngestionProfileModal: React.FC<IngestionProfileModalProps> = ({ open, kbId, documentCount, onClose, onReprocess }) => {
+  const { t } = useTranslation()
+  const { message } = App.useApp()
+  const [profile, setProfile] = useState<IngestionProfile>(DEFAULT_INGESTION_PROFILE)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [reprocess, setReprocess] = useState(false)
+  const [sampleFile, setSampleFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ChunkingPreview | null>(null)
+  const [isPreviewing, setIsPreviewing] = useState(false)
+
+  useEffect(() => {
+    if (!open || !kbId) return
+    setReprocess(false)
+    setPreview(null)
+    setIsLoading(true)
+    knowledgeBaseService.getIngestionProfile(kbId)
+      .then(setProfile)
+      .catch(() => message.error(t('knowledgeBase.ingestion.loadFailed')))
+      .finally(() => setIsLoading(false))
+  }, [open, kbId])
+
+  const updateProfile = (partial: Partial<IngestionProfile>) => {
+    setProfile(prev => ({ ...prev, ...partial }))
+    // 预览对应修改前的配置，修改后需要重新预览
+    setPreview(null)
+  }
+
+  const overlapError = profile.chunk_overlap >= profile.chunk_size
+
+  const handlePreview = async (file: File) => {
+    setSampleFile(file)
+    setIsPreviewing(true)
+    try {
+      setPreview(await knowledgeBaseService.previewChunking(kbId, file, profile))
+    } catch (error) {
+      message.error(t('knowledgeBase.ingestion.previewFailed'))
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await knowledgeBaseService.saveIngestionProfile(kbId, profile)
+      if (reprocess) {
+        await knowledgeBaseService.reprocessDocuments(kbId)
+        message.success(t('knowledgeBase.ingestion.reprocessStarted', { count: documentCount }))
+        onReprocess()
+      } else {
+        message.success(t('knowledgeBase.ingestion.saveSuccess'))
+      }
+      onClose()
+    } catch (error) {
+      message.error(t('knowledgeBase.ingestion.saveFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderField = (label: string, field: React.ReactNode) => (
+    <div className="flex items-center gap-3">
+      <span className="w-28 flex-shrink-0 text-sm text-gray-600">{label}</span>
+      {field}
+    </div>
+  )
+
+  return (
+    <Modal
+      title={t('knowledgeBase.ingestion.title', { name: kbId })}
+      open={open}
+      onCancel={onClose}
+      width={960}
+      destroyOnClose
+      footer={
+        <div className="flex items-center justify-between">
+          <Checkbox checked={reprocess} disabled={documentCount === 0} onChange={(e) => setReprocess(e.target.checked)}>
+            {t('knowledgeBase.ingestion.reprocess', { count: documentCount })}
+          </Checkbox>
+          <div className="flex gap-2">
+            <Button onClick={onClose}>{t('common.cancel')}</Button>
+            <Button type="primary" loading={isSaving} disabled={isLoading || overlapError} onClick={handleSave}>
+              {t('common.save')}
+            </Button>
+          </div>
+        </div>
+      }
+    >
+      {isLoading ? (
+        <div className="flex justify-center py-8"><Spin /></div>
+      ) : (
+        <div className="flex gap-6">
+          <div className="flex w-[380px] flex-shrink-0 flex-col gap-4">
+            {renderField(t('knowledgeBase.ingestion.chunkSize'), (
+              <InputNumber
+                min={MIN_CHUNK_SIZE}
+                max={MAX_CHUNK_SIZE}
+                step={64}
+                value={profile.chunk_size}
+                onChange={(value) => updateProfile({ chunk_size: value ?? DEFAULT_INGESTION_PROFILE.chunk_size })}
+                addonAfter="tokens"
+              />
+            ))}
+            {renderField(t('knowledgeBase.ingestion.chunkOverlap'), (
+              <InputNumber
+                min={0}
+                max={MAX_CHUNK_SIZE}
+                step={16}
+                value={profile.chunk_overlap}
+                status={overlapError ? 'error' : undefined}
+                onChange={(value) => updateProfile({ chunk_overlap: value ?? 0 })}
+                addonAfter="tokens"
+              />
+            ))}
+            {overlapError && <div className="-mt-2 ml-[124px] text-xs text-red-500">{t('knowledgeBase.ingestion.overlapTooLarge')}</div>}
+            {renderField(t('knowledgeBase.ingestion.splitBy'), (
+              <Radio.Group
+                value={profile.split_by}
+                onChange={(e) => updateProfile({ split_by: e.target.value })}
+                optionType="button"
+                size="small"
+              >
+                {SPLIT_MODES.map(mode => (
+                  <Radio.Button key={mode} value={mode}>{t(`knowledgeBase.ingestion.splitMode.${mode}`)}</Radio.Button>
+                ))}
+              </Radio.Group>
+            ))}
+            {renderField(t('knowledgeBase.ingestion.ocr'), (
+              <Switch checked={profile.ocr} onChange={(ocr) => updateProfile({ ocr })} />
+            ))}
+            {renderField(t('knowledgeBase.ingestion.tables'), (
+              <Select
+                className="w-40"
+                value={profile.table_mode}
+                onChange={(tableMode) => updateProfile({ table_mode: tableMode })}
+                options={TABLE_MODES.map(mode => ({ value: mode, label: t(`knowledgeBase.ingestion.tableMode.${mode}`) }))}
+              />
+            ))}
+            {renderField(t('knowledgeBase.ingestion.language'), (
+              <Select
+                className="w-40"
+                value={profile.language}
+                onChange={(language) => updateProfile({ language })}
+                options={LANGUAGES.map(language => ({ value: language, label: t(`knowledgeBase.ingestion.languageOption.${language}`) }))}
+              />
+            ))}
+            <div className="text-xs text-gray-400">{t('knowledgeBase.ingestion.hint')}</div>
+          </div>
+
+          <div className="flex min-w-0 flex-1 flex-col">
+            <div className="mb-2 flex items-center gap-2">
+              <Upload
+                accept={ACCEPTED_FILE_TYPES}
+                showUploadList={false}
+                beforeUpload={(file) => {
+                  if (validateFileType(file, t, message)) handlePreview(file)
+                  return false
+                }}
+              >
+                <Button icon={<EyeOutlined />} loading={isPreviewing} disabled={overlapError}>
+                  {t('knowledgeBase.ingestion.preview')}
+                </Button>
+              </Upload>
+              {sampleFile && !preview && !isPreviewing && (
+                <Button type="link" size="small" disabled={overlapError} onClick={() => handlePreview(sampleFile)}>
+                  {t('knowledgeBase.ingestion.previewAgain', { name: sampleFile.name })}
+                </Button>
+              )}
+              {preview && (
+                <span className="truncate text-xs text-gray-500">
+                  {t('knowledgeBase.ingestion.previewSummary', {
+                    name: sampleFile?.name,
+                    count: preview.chunks.length,
+                    tokens: preview.total_tokens,
+                  })}
+                </span>
+              )}
+            </div>
+            <div className="h-[420px] overflow-y-auto rounded-md border border-gray-200 p-2">
+              {isPreviewing ? (
+                <div className="flex justify-center py-8"><Spin /></div>
+              ) : !preview ? (
+                <Empty description={t('knowledgeBase.ingestion.previewHint')} />
+              ) : (
+                preview.chunks.slice(0, PREVIEW_CHUNK_LIMIT).map((chunk, index) => (
+                  <div key={index} className="mb-2 rounded border border-gray-100 bg-gray-50 p-2">
+                    <div className="mb-1 flex gap-2 text-xs text-gray-500">
+                      <span className="font-medium text-gray-700">#{index + 1}</span>
+                      {chunk.page !== null && <span>{t('document.chunks.page', { page: chunk.page })}</span>}
+                      <span>{t('document.chunks.tokens', { count: chunk.token_count })}</span>
+                    </div>
+                    <div className="line-clamp-6 whitespace-pre-wrap break-words text-xs text-gray-800">{chunk.content}</div>
+                  </div>
+                ))
+              )}
+              {preview && preview.chunks.length > PREVIEW_CHUNK_LIMIT && (
+                <div className="py-2 text-center text-xs text-gray-400">
+                  {t('knowledgeBase.ingestion.previewTruncated', { count: preview.chunks.length - PREVIEW_CHUNK_LIMIT })}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
+
+export default IngestionProfileModal
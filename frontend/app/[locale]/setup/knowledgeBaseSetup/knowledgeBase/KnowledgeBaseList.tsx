@@ -1,6 +1,6 @@
 import React from 'react'
 import { Button, Checkbox, ConfigProvider } from 'antd'
-import { SyncOutlined, PlusOutlined } from '@ant-design/icons'
+import { SyncOutlined, PlusOutlined, SearchOutlined } from '@ant-design/icons'
 import { KnowledgeBase } from '@/types/knowledgeBase'
 import { useTranslation } from 'react-i18next'
 
@@ -46,6 +46,7 @@ interface KnowledgeBaseListProps {
   onDelete: (id: string) => void
   onSync: () => void
   onCreateNew: () => void
+  onTestRetrieval: () => void // 打开检索测试面板
   isSelectable: (kb: KnowledgeBase) => boolean
   getModelDisplayName: (modelId: string) => string
   containerHeight?: string // 容器总高度，与DocumentList保持一致
@@ -63,6 +64,7 @@ const KnowledgeBaseList: React.FC<KnowledgeBaseListProps> = ({
   onDelete,
   onSync,
   onCreateNew,
+  onTestRetrieval,
   isSelectable,
   getModelDisplayName,
   containerHeight = '70vh', // 默认与DocumentList一致的容器高度
@@ -136,6 +138,12 @@ const KnowledgeBaseList: React.FC<KnowledgeBaseListProps> = ({
               </span>
               <span>{t('knowledgeBase.button.sync')}</span>
             </Button>
+            <Button
+              onClick={onTestRetrieval}
+              icon={<SearchOutlined />}
+              title={t('knowledgeBase.button.testRetrieval')}
+              disabled={knowledgeBases.length === 0}
+            />
           </div>
         </div>
       </div>
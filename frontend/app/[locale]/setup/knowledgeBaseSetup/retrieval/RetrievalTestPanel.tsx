@@ -0,0 +1,360 @@
+import React, { useEffect, useState } from 'react'
+import { App, Button, Drawer, Empty, Input, InputNumber, Popconfirm, Radio, Select, Spin, Tag, Tooltip } from 'antd'
+import { DeleteOutlined, PlayCircleOutlined, SaveOutlined, SearchOutlined } from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import { KnowledgeBase, RetrievalHit, RetrievalSearchMode, RetrievalTestParams, SavedRetrievalQuery } from '@/types/knowledgeBase'
+import knowledgeBaseService from '@/services/knowledgeBaseService'
+import { useConfig } from '@/hooks/useConfig'
+import { HighlightedSnippet } from '@/components/ui/highlightedSnippet'
+
+interface RetrievalTestPanelProps {
+  open: boolean
+  onClose: () => void
+  knowledgeBases: KnowledgeBase[]
+  // 打开时默认检索的知识库
+  defaultIndexNames: string[]
+  // 嵌入模型与当前模型不一致的知识库无法进行语义检索
+  isSelectable: (kb: KnowledgeBase) => boolean
+}
+
+const SEARCH_MODES: RetrievalSearchMode[] = ['keyword', 'semantic', 'hybrid']
+
+const DEFAULT_TOP_K = 5
+
+const formatScore = (value: unknown) => typeof value === 'number' ? value.toFixed(4) : String(value)
+
+// 元数据筛选条件以 key=value 的标签形式编辑
+const toFilterTags = (filters: Record<string, string>) => Object.entries(filters).map(([key, value]) => `${key}=${value}`)
+
+const fromFilterTags = (tags: string[]) => {
+  const filters: Record<string, string> = {}
+  tags.forEach(tag => {
+    const separator = tag.indexOf('=')
+    if (separator > 0) filters[tag.slice(0, separator).trim()] = tag.slice(separator + 1).trim()
+  })
+  return filters
+}
+
+const sameParams = (a: RetrievalTestParams, b: RetrievalTestParams) =>
+  a.query === b.query
+  && a.search_mode === b.search_mode
+  && a.rerank_model === b.rerank_model
+  && a.top_k === b.top_k
+  && [...a.index_names].sort().join('\n') === [...b.index_names].sort().join('\n')
+  && toFilterTags(a.metadata_filters).sort().join('\n') === toFilterTags(b.metadata_filters).sort().join('\n')
+
+// 与保存时的结果对比：每个分块之前的排名，以及不再被检索到的分块
+const compareWithBaseline = (results: RetrievalHit[], baseline: RetrievalHit[]) => {
+  const previousRanks = new Map(baseline.map((hit, index) => [hit.chunk_id, index]))
+  const currentIds = new Set(results.map(hit => hit.chunk_id))
+  return {
+    previousRanks,
+    dropped: baseline.filter(hit => !currentIds.has(hit.chunk_id)),
+  }
+}
+
+const RetrievalTestPanel: React.FC<RetrievalTestPanelProps> = ({ open, onClose, knowledgeBases, defaultIndexNames, isSelectable }) => {
+  const { t } = useTranslation()
+  const { message } = App.useApp()
+  const { modelConfig } = useConfig()
+  const rerankModel = modelConfig.rerank.displayName
+
+  const [params, setParams] = useState<RetrievalTestParams>({
+    query: '',
+    index_names: [],
+    search_mode: 'hybrid',
+    rerank_model: null,
+    top_k: DEFAULT_TOP_K,
+    metadata_filters: {},
+  })
+  const [results, setResults] = useState<RetrievalHit[] | null>(null)
+  // 运行结果对应的参数，表单修改后仍按运行时的参数保存
+  const [resultParams, setResultParams] = useState<RetrievalTestParams | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [savedQueries, setSavedQueries] = useState<SavedRetrievalQuery[]>([])
+  const [isLoadingQueries, setIsLoadingQueries] = useState(false)
+  // 从保存的查询载入时作为对比基准
+  const [baseline, setBaseline] = useState<SavedRetrievalQuery | null>(null)
+
+  const loadSavedQueries = async () => {
+    setIsLoadingQueries(true)
+    try {
+      setSavedQueries(await knowledgeBaseService.getSavedRetrievalQueries())
+    } catch (error) {
+      message.error(t('knowledgeBase.retrieval.loadQueriesFailed'))
+    } finally {
+      setIsLoadingQueries(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setParams(prev => ({
+      ...prev,
+      index_names: defaultIndexNames,
+      rerank_model: prev.rerank_model && prev.rerank_model === rerankModel ? prev.rerank_model : null,
+    }))
+    loadSavedQueries()
+  }, [open])
+
+  const run = async (runParams: RetrievalTestParams) => {
+    if (!runParams.query.trim() || runParams.index_names.length === 0) return
+    setIsRunning(true)
+    try {
+      setResults(await knowledgeBaseService.testRetrieval(runParams))
+      setResultParams(runParams)
+    } catch (error) {
+      message.error(t('knowledgeBase.retrieval.runFailed'))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleRunSaved = (saved: SavedRetrievalQuery) => {
+    setParams(saved.params)
+    setBaseline(saved)
+    run(saved.params)
+  }
+
+  // 对比基准只在参数与保存时一致的运行结果上显示
+  const activeBaseline = baseline && resultParams && sameParams(baseline.params, resultParams) ? baseline : null
+  const comparison = activeBaseline && results ? compareWithBaseline(results, activeBaseline.results) : null
+
+  const handleSave = async () => {
+    if (!results || !resultParams) return
+    setIsSaving(true)
+    try {
+      const saved = await knowledgeBaseService.saveRetrievalQuery(resultParams, results, activeBaseline?.query_id)
+      setBaseline(saved)
+      message.success(t(activeBaseline ? 'knowledgeBase.retrieval.baselineUpdated' : 'knowledgeBase.retrieval.saveSuccess'))
+      loadSavedQueries()
+    } catch (error) {
+      message.error(t('knowledgeBase.retrieval.saveFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeleteSaved = async (queryId: number) => {
+    try {
+      await knowledgeBaseService.deleteRetrievalQuery(queryId)
+      if (baseline?.query_id === queryId) setBaseline(null)
+      setSavedQueries(prev => prev.filter(query => query.query_id !== queryId))
+    } catch (error) {
+      message.error(t('knowledgeBase.retrieval.deleteFailed'))
+    }
+  }
+
+  const kbName = (indexName: string) => knowledgeBases.find(kb => kb.id === indexName)?.name ?? indexName
+
+  const renderRankChange = (hit: RetrievalHit, index: number) => {
+    if (!comparison) return null
+    const previous = comparison.previousRanks.get(hit.chunk_id)
+    if (previous === undefined) return <Tag color="green" className="m-0">{t('knowledgeBase.retrieval.new')}</Tag>
+    if (previous === index) return <Tag className="m-0">{t('knowledgeBase.retrieval.unchanged')}</Tag>
+    return previous > index
+      ? <Tag color="blue" className="m-0">↑{previous - index}</Tag>
+      : <Tag color="orange" className="m-0">↓{index - previous}</Tag>
+  }
+
+  const renderHit = (hit: RetrievalHit, index: number, dropped = false) => (
+    <div
+      key={`${hit.index_name}-${hit.chunk_id}`}
+      className={`mb-3 rounded-md border p-3 ${dropped ? 'border-dashed border-gray-300 opacity-70' : 'border-gray-200'}`}
+    >
+      <div className="mb-2 flex items-center gap-2 text-xs text-gray-500">
+        {!dropped && <span className="font-medium text-gray-700">#{index + 1}</span>}
+        <span className="truncate font-medium text-gray-800" title={hit.filename || hit.title}>{hit.title || hit.filename}</span>
+        <Tag className="m-0 text-[11px]">{kbName(hit.index_name)}</Tag>
+        {!dropped && renderRankChange(hit, index)}
+        <div className="flex-1" />
+        {hit.score !== null && (
+          <span className="whitespace-nowrap font-mono text-gray-700">
+            {t('knowledgeBase.retrieval.score')}: {formatScore(hit.score)}
+          </span>
+        )}
+      </div>
+      {Object.keys(hit.score_details).length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-1">
+          {Object.entries(hit.score_details).map(([key, value]) => (
+            <Tag key={key} color="geekblue" className="m-0 font-mono text-[11px]">
+              {key}: {typeof value === 'object' && value !== null ? JSON.stringify(value) : formatScore(value)}
+            </Tag>
+          ))}
+        </div>
+      )}
+      <div className="line-clamp-6 whitespace-pre-wrap break-words text-sm text-gray-800">
+        <HighlightedSnippet snippet={hit.text} query={resultParams?.query ?? ''} />
+      </div>
+    </div>
+  )
+
+  return (
+    <Drawer title={t('knowledgeBase.retrieval.title')} open={open} onClose={onClose} width={1040} destroyOnClose>
+      <div className="flex h-full gap-4">
+        <div className="flex w-[340px] flex-shrink-0 flex-col gap-3 overflow-y-auto">
+          <Input.TextArea
+            value={params.query}
+            onChange={(e) => setParams({ ...params, query: e.target.value })}
+            placeholder={t('knowledgeBase.retrieval.queryPlaceholder')}
+            autoSize={{ minRows: 3, maxRows: 8 }}
+          />
+          <div>
+            <div className="mb-1 text-xs text-gray-500">{t('knowledgeBase.retrieval.knowledgeBases')}</div>
+            <Select
+              mode="multiple"
+              className="w-full"
+              value={params.index_names}
+              onChange={(indexNames) => setParams({ ...params, index_names: indexNames })}
+              placeholder={t('knowledgeBase.retrieval.knowledgeBasesPlaceholder')}
+              options={knowledgeBases.map(kb => ({
+                value: kb.id,
+                label: kb.name,
+                // 关键词检索不使用嵌入模型
+                disabled: params.search_mode !== 'keyword' && !isSelectable(kb),
+              }))}
+            />
+          </div>
+          <div>
+            <div className="mb-1 text-xs text-gray-500">{t('knowledgeBase.retrieval.searchMode')}</div>
+            <Radio.Group
+              value={params.search_mode}
+              onChange={(e) => setParams({ ...params, search_mode: e.target.value })}
+              optionType="button"
+              buttonStyle="solid"
+              size="small"
+            >
+              {SEARCH_MODES.map(mode => (
+                <Radio.Button key={mode} value={mode}>{t(`knowledgeBase.retrieval.mode.${mode}`)}</Radio.Button>
+              ))}
+            </Radio.Group>
+          </div>
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <div className="mb-1 text-xs text-gray-500">{t('knowledgeBase.retrieval.rerank')}</div>
+              <Select
+                className="w-full"
+                value={params.rerank_model ?? ''}
+                onChange={(value) => setParams({ ...params, rerank_model: value || null })}
+                options={[
+                  { value: '', label: t('knowledgeBase.retrieval.noRerank') },
+                  ...(rerankModel ? [{ value: rerankModel, label: rerankModel }] : []),
+                ]}
+              />
+              {!rerankModel && <div className="mt-1 text-xs text-gray-400">{t('knowledgeBase.retrieval.noRerankModel')}</div>}
+            </div>
+            <div className="w-20">
+              <div className="mb-1 text-xs text-gray-500">{t('knowledgeBase.retrieval.topK')}</div>
+              <InputNumber
+                className="w-full"
+                min={1}
+                max={50}
+                value={params.top_k}
+                onChange={(value) => setParams({ ...params, top_k: value ?? DEFAULT_TOP_K })}
+              />
+            </div>
+          </div>
+          <div>
+            <div className="mb-1 text-xs text-gray-500">{t('knowledgeBase.retrieval.metadataFilters')}</div>
+            <Select
+              mode="tags"
+              className="w-full"
+              value={toFilterTags(params.metadata_filters)}
+              onChange={(tags) => setParams({ ...params, metadata_filters: fromFilterTags(tags) })}
+              placeholder={t('knowledgeBase.retrieval.metadataFiltersPlaceholder')}
+              tokenSeparators={[',']}
+              open={false}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="primary"
+              icon={<SearchOutlined />}
+              loading={isRunning}
+              disabled={!params.query.trim() || params.index_names.length === 0}
+              onClick={() => run(params)}
+            >
+              {t('knowledgeBase.retrieval.run')}
+            </Button>
+            <Button icon={<SaveOutlined />} loading={isSaving} disabled={!results || isRunning} onClick={handleSave}>
+              {activeBaseline ? t('knowledgeBase.retrieval.updateBaseline') : t('knowledgeBase.retrieval.save')}
+            </Button>
+          </div>
+
+          <div className="mt-2 border-t border-gray-200 pt-3">
+            <div className="mb-2 text-sm font-medium text-gray-700">{t('knowledgeBase.retrieval.savedQueries')}</div>
+            {isLoadingQueries ? (
+              <div className="flex justify-center py-4"><Spin size="small" /></div>
+            ) : savedQueries.length === 0 ? (
+              <div className="text-xs text-gray-400">{t('knowledgeBase.retrieval.noSavedQueries')}</div>
+            ) : (
+              savedQueries.map(saved => (
+                <div
+                  key={saved.query_id}
+                  className={`mb-2 flex items-start gap-2 rounded-md border p-2 ${baseline?.query_id === saved.query_id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm text-gray-800" title={saved.params.query}>{saved.params.query}</div>
+                    <div className="truncate text-xs text-gray-500">
+                      {t(`knowledgeBase.retrieval.mode.${saved.params.search_mode}`)} · {saved.params.index_names.map(kbName).join(', ')}
+                    </div>
+                    {Object.keys(saved.params.metadata_filters).length > 0 && (
+                      <div className="truncate font-mono text-[11px] text-gray-500">
+                        {toFilterTags(saved.params.metadata_filters).join(', ')}
+                      </div>
+                    )}
+                    <div className="text-[11px] text-gray-400">{new Date(saved.update_time).toLocaleString()}</div>
+                  </div>
+                  <Tooltip title={t('knowledgeBase.retrieval.rerunCompare')}>
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<PlayCircleOutlined />}
+                      disabled={isRunning}
+                      onClick={() => handleRunSaved(saved)}
+                    />
+                  </Tooltip>
+                  <Popconfirm title={t('knowledgeBase.retrieval.deleteConfirm')} onConfirm={() => handleDeleteSaved(saved.query_id)}>
+                    <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+                  </Popconfirm>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="min-w-0 flex-1 overflow-y-auto">
+          {isRunning ? (
+            <div className="flex justify-center py-8"><Spin /></div>
+          ) : results === null ? (
+            <Empty description={t('knowledgeBase.retrieval.hint')} />
+          ) : (
+            <>
+              {activeBaseline && (
+                <div className="mb-3 rounded-md bg-blue-50 px-3 py-2 text-xs text-blue-700">
+                  {t('knowledgeBase.retrieval.comparing', { time: new Date(activeBaseline.update_time).toLocaleString() })}
+                </div>
+              )}
+              {results.length === 0 ? (
+                <Empty description={t('knowledgeBase.retrieval.noResults')} />
+              ) : (
+                results.map((hit, index) => renderHit(hit, index))
+              )}
+              {comparison && comparison.dropped.length > 0 && (
+                <>
+                  <div className="mb-2 mt-4 text-sm font-medium text-gray-700">
+                    {t('knowledgeBase.retrieval.dropped', { count: comparison.dropped.length })}
+                  </div>
+                  {comparison.dropped.map((hit, index) => renderHit(hit, index, true))}
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </Drawer>
+  )
+}
+
+export default RetrievalTestPanel
@@ -0,0 +1,396 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { App, Button, Drawer, Empty, Input, Popconfirm, Radio, Select, Spin, Switch, Tag, Tooltip } from 'antd'
+import {
+  ApartmentOutlined,
+  CloudServerOutlined,
+  DeleteOutlined,
+  EditOutlined,
+  FolderOutlined,
+  LinkOutlined,
+  PlusOutlined,
+  SyncOutlined,
+} from '@ant-design/icons'
+import { useTranslation } from 'react-i18next'
+import {
+  KnowledgeSource,
+  KnowledgeSourceDraft,
+  KnowledgeSourceType,
+  SourceSyncInterval,
+  SourceSyncRun,
+} from '@/types/knowledgeBase'
+import knowledgeBaseService from '@/services/knowledgeBaseService'
+
+interface KnowledgeSourcesDrawerProps {
+  open: boolean
+  kbId: string
+  onClose: () => void
+  // 同步结束后刷新文档列表
+  onSynced: () => void
+}
+
+const SOURCE_TYPES: KnowledgeSourceType[] = ['urls', 'sitemap', 'folder', 'bucket']
+
+const SYNC_INTERVALS: SourceSyncInterval[] = ['manual', 'hourly', 'daily', 'weekly']
+
+const SOURCE_ICONS: Record<KnowledgeSourceType, React.ReactNode> = {
+  urls: <LinkOutlined />,
+  sitemap: <ApartmentOutlined />,
+  folder: <FolderOutlined />,
+  bucket: <CloudServerOutlined />,
+}
+
+// 同步在后台进行，有数据源正在同步时按此间隔刷新
+const SYNC_POLL_INTERVAL = 5000
+
+const emptyDraft = (): KnowledgeSourceDraft => ({
+  name: '',
+  type: 'urls',
+  config: { urls: [] },
+  sync_interval: 'manual',
+})
+
+const isHttpUrl = (text: string) => {
+  try {
+    const url = new URL(text)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// 返回第一个错误的翻译键，草稿有效时返回null
+const validateDraft = (draft: KnowledgeSourceDraft): string | null => {
+  if (!draft.name.trim()) return 'document.source.error.nameRequired'
+  const { config } = draft
+  switch (draft.type) {
+    case 'urls':
+      if (!config.urls?.length) return 'document.source.error.urlsRequired'
+      return config.urls.every(isHttpUrl) ? null : 'document.source.error.invalidUrl'
+    case 'sitemap':
+      return config.sitemap_url && isHttpUrl(config.sitemap_url) ? null : 'document.source.error.invalidUrl'
+    case 'folder':
+      return config.path?.trim() ? null : 'document.source.error.pathRequired'
+    case 'bucket':
+      return config.bucket?.trim() ? null : 'document.source.error.bucketRequired'
+  }
+}
+
+const KnowledgeSourcesDrawer: React.FC<KnowledgeSourcesDrawerProps> = ({ open, kbId, onClose, onSynced }) => {
+  const { t } = useTranslation()
+  const { message } = App.useApp()
+  const [sources, setSources] = useState<KnowledgeSource[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [draft, setDraft] = useState<KnowledgeSourceDraft | null>(null)
+  // 网址列表按行编辑，保存时再拆分
+  const [urlsText, setUrlsText] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const wasSyncingRef = useRef(false)
+
+  const loadSources = async (showLoading = true) => {
+    if (showLoading) setIsLoading(true)
+    try {
+      setSources(await knowledgeBaseService.getSources(kbId))
+    } catch (error) {
+      message.error(t('document.source.loadFailed'))
+    } finally {
+      if (showLoading) setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!open || !kbId) return
+    setDraft(null)
+    loadSources()
+  }, [open, kbId])
+
+  const isSyncing = sources.some(source => source.last_sync?.status === 'running')
+
+  useEffect(() => {
+    if (wasSyncingRef.current && !isSyncing) onSynced()
+    wasSyncingRef.current = isSyncing
+    if (!open || !isSyncing) return
+    const timer = setInterval(() => loadSources(false), SYNC_POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [open, isSyncing])
+
+  const editDraft = (next: KnowledgeSourceDraft) => {
+    setDraft(next)
+    setUrlsText((next.config.urls || []).join('\n'))
+  }
+
+  const draftToSave = draft && draft.type === 'urls'
+    ? { ...draft, config: { urls: urlsText.split('\n').map(line => line.trim()).filter(Boolean) } }
+    : draft
+  const draftError = draftToSave ? validateDraft(draftToSave) : null
+
+  const handleSave = async () => {
+    if (!draftToSave || draftError) return
+    setIsSaving(true)
+    try {
+      const saved = await knowledgeBaseService.saveSource(kbId, draftToSave)
+      setSources(prev => draftToSave.source_id !== undefined
+        ? prev.map(source => source.source_id === saved.source_id ? saved : source)
+        : [...prev, saved])
+      setDraft(null)
+      message.success(t('document.source.saveSuccess'))
+    } catch (error) {
+      message.error(t('document.source.saveFailed'))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSync = async (source: KnowledgeSource) => {
+    try {
+      const run = await knowledgeBaseService.syncSource(kbId, source.source_id)
+      setSources(prev => prev.map(item => item.source_id === source.source_id ? { ...item, last_sync: run } : item))
+    } catch (error) {
+      message.error(t('document.source.syncFailed'))
+    }
+  }
+
+  const handleDelete = async (source: KnowledgeSource) => {
+    try {
+      await knowledgeBaseService.deleteSource(kbId, source.source_id)
+      setSources(prev => prev.filter(item => item.source_id !== source.source_id))
+      message.success(t('document.source.deleteSuccess'))
+      onSynced()
+    } catch (error) {
+      message.error(t('document.source.deleteFailed'))
+    }
+  }
+
+  const describeTarget = (source: KnowledgeSource) => {
+    const { config } = source
+    switch (source.type) {
+      case 'urls':
+        return t('document.source.urlCount', { count: config.urls?.length ?? 0 })
+      case 'sitemap':
+        return config.sitemap_url
+      case 'folder':
+        return config.path
+      case 'bucket':
+        return config.prefix ? `${config.bucket}/${config.prefix}` : config.bucket
+    }
+  }
+
+  const renderSyncResult = (run: SourceSyncRun) => {
+    if (run.status === 'running') {
+      return <Tag icon={<SyncOutlined spin />} color="processing" className="m-0">{t('document.source.syncing')}</Tag>
+    }
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        {run.status === 'failed' ? (
+          <Tooltip title={run.error}>
+            <Tag color="error" className="m-0">{t('document.source.syncFailedStatus')}</Tag>
+          </Tooltip>
+        ) : (
+          <Tag color="success" className="m-0">{t('document.source.syncSucceeded')}</Tag>
+        )}
+        <span className="text-xs text-gray-500">
+          {t('document.source.result', {
+            added: run.added,
+            updated: run.updated,
+            removed: run.removed,
+            unchanged: run.unchanged,
+          })}
+        </span>
+        {run.failed > 0 && <span className="text-xs text-red-500">{t('document.source.resultFailed', { count: run.failed })}</span>}
+        <span className="text-[11px] text-gray-400">{new Date(run.end_time ?? run.start_time).toLocaleString()}</span>
+      </div>
+    )
+  }
+
+  const renderConfigFields = (current: KnowledgeSourceDraft) => {
+    const setConfig = (config: KnowledgeSourceDraft['config']) => setDraft({ ...current, config: { ...current.config, ...config } })
+    switch (current.type) {
+      case 'urls':
+        return (
+          <Input.TextArea
+            value={urlsText}
+            onChange={(e) => setUrlsText(e.target.value)}
+            placeholder={t('document.source.urlsPlaceholder')}
+            autoSize={{ minRows: 3, maxRows: 10 }}
+            className="font-mono text-xs"
+          />
+        )
+      case 'sitemap':
+        return (
+          <>
+            <Input
+              value={current.config.sitemap_url}
+              onChange={(e) => setConfig({ sitemap_url: e.target.value.trim() })}
+              placeholder={t('document.source.sitemapPlaceholder')}
+            />
+            <Input
+              value={current.config.include_pattern}
+              onChange={(e) => setConfig({ include_pattern: e.target.value })}
+              placeholder={t('document.source.includePatternPlaceholder')}
+            />
+          </>
+        )
+      case 'folder':
+        return (
+          <>
+            <Input
+              value={current.config.path}
+              onChange={(e) => setConfig({ path: e.target.value })}
+              placeholder={t('document.source.pathPlaceholder')}
+              className="font-mono"
+            />
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Switch size="small" checked={current.config.recursive ?? true} onChange={(recursive) => setConfig({ recursive })} />
+              {t('document.source.recursive')}
+            </div>
+          </>
+        )
+      case 'bucket':
+        return (
+          <div className="flex gap-2">
+            <Input
+              value={current.config.bucket}
+              onChange={(e) => setConfig({ bucket: e.target.value.trim() })}
+              placeholder={t('document.source.bucketPlaceholder')}
+              className="w-1/3"
+            />
+            <Input
+              value={current.config.prefix}
+              onChange={(e) => setConfig({ prefix: e.target.value.trim() })}
+              placeholder={t('document.source.prefixPlaceholder')}
+              className="flex-1 font-mono"
+            />
+          </div>
+        )
+    }
+  }
+
+  const renderEditor = (current: KnowledgeSourceDraft) => (
+    <div className="mb-3 flex flex-col gap-2 rounded-md border border-dashed border-gray-300 p-3">
+      <Input
+        value={current.name}
+        onChange={(e) => setDraft({ ...current, name: e.target.value })}
+        placeholder={t('document.source.namePlaceholder')}
+        autoFocus
+      />
+      <Radio.Group
+        value={current.type}
+        // 已创建的数据源不能更换类型，否则已同步的文档无法对应
+        disabled={current.source_id !== undefined}
+        onChange={(e) => editDraft({ ...current, type: e.target.value, config: {} })}
+        optionType="button"
+        size="small"
+      >
+        {SOURCE_TYPES.map(type => (
+          <Radio.Button key={type} value={type}>{t(`document.source.type.${type}`)}</Radio.Button>
+        ))}
+      </Radio.Group>
+      {renderConfigFields(current)}
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <span>{t('document.source.syncInterval')}</span>
+        <Select
+          size="small"
+          className="w-32"
+          value={current.sync_interval}
+          onChange={(syncInterval) => setDraft({ ...current, sync_interval: syncInterval })}
+          options={SYNC_INTERVALS.map(interval => ({ value: interval, label: t(`document.source.interval.${interval}`) }))}
+        />
+      </div>
+      {draftError && <div className="text-xs text-red-500">{t(draftError)}</div>}
+      <div className="flex justify-end gap-2">
+        <Button size="small" onClick={() => setDraft(null)}>{t('common.cancel')}</Button>
+        <Button size="small" type="primary" onClick={handleSave} loading={isSaving} disabled={!!draftError}>
+          {t('common.save')}
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <Drawer
+      title={t('document.source.title', { name: kbId })}
+      open={open}
+      onClose={onClose}
+      width={720}
+      destroyOnClose
+      extra={
+        <Button icon={<PlusOutlined />} disabled={draft !== null} onClick={() => editDraft(emptyDraft())}>
+          {t('document.source.add')}
+        </Button>
+      }
+    >
+      <div className="mb-3 text-xs text-gray-500">{t('document.source.hint')}</div>
+      {draft && draft.source_id === undefined && renderEditor(draft)}
+      {isLoading ? (
+        <div className="flex justify-center py-8"><Spin /></div>
+      ) : sources.length === 0 && !draft ? (
+        <Empty description={t('document.source.empty')} />
+      ) : (
+        sources.map(source => draft?.source_id === source.source_id ? (
+          <React.Fragment key={source.source_id}>{renderEditor(draft)}</React.Fragment>
+        ) : (
+          <div key={source.source_id} className="mb-3 rounded-md border border-gray-200 p-3">
+            <div className="flex items-center gap-2">
+              <span className="text-gray-500">{SOURCE_ICONS[source.type]}</span>
+              <span className="font-medium text-gray-800">{source.name}</span>
+              <Tag className="m-0 text-[11px]">{t(`document.source.interval.${source.sync_interval}`)}</Tag>
+              <span className="text-xs text-gray-500">{t('document.source.documentCount', { count: source.document_count })}</span>
+              <div className="flex-1" />
+              <Tooltip title={t('document.source.syncNow')}>
+                <Button
+                  type="text"
+                  size="small"
+                  icon={<SyncOutlined />}
+                  disabled={source.last_sync?.status === 'running'}
+                  onClick={() => handleSync(source)}
+                />
+              </Tooltip>
+              <Tooltip title={t('document.source.edit')}>
+                <Button
+                  type="text"
+                  size="small"
+                  icon={<EditOutlined />}
+                  disabled={draft !== null}
+                  onClick={() => editDraft({
+                    source_id: source.source_id,
+                    name: source.name,
+                    type: source.type,
+                    config: source.config,
+                    sync_interval: source.sync_interval,
+                  })}
+                />
+              </Tooltip>
+              <Popconfirm
+                title={t('document.source.deleteConfirm', { count: source.document_count })}
+                onConfirm={() => handleDelete(source)}
+                disabled={source.last_sync?.status === 'running'}
+              >
+                <Button
+                  type="text"
+                  size="small"
+                  danger
+                  icon={<DeleteOutlined />}
+                  disabled={source.last_sync?.status === 'running'}
+                />
+              </Popconfirm>
+            </div>
+            <div className="mt-1 truncate font-mono text-xs text-gray-500" title={describeTarget(source)}>
+              {describeTarget(source)}
+            </div>
+            <div className="mt-2 flex items-center justify-between gap-2">
+              {source.last_sync ? renderSyncResult(source.last_sync) : (
+                <span className="text-xs text-gray-400">{t('document.source.neverSynced')}</span>
+              )}
+              {source.next_sync_time && source.sync_interval !== 'manual' && (
+                <span className="whitespace-nowrap text-[11px] text-gray-400">
+                  {t('document.source.nextSync', { time: new Date(source.next_sync_time).toLocaleString() })}
+                </span>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+    </Drawer>
+  )
+}
+
+export default KnowledgeSourcesDrawer
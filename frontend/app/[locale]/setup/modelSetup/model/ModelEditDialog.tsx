@@ -3,6 +3,7 @@ import { useState, useEffect } from 'react'
 import { ModelOption, ModelType } from '@/types/config'
 import { modelService } from '@/services/modelService'
 import { useConfig } from '@/hooks/useConfig'
+import { invalidateModelPrices } from '@/hooks/useModelPrices'
 import { useTranslation } from 'react-i18next'
 
 const { Option } = Select
@@ -25,7 +26,9 @@ export const ModelEditDialog = ({ isOpen, model, onClose, onSuccess }: ModelEdit
     url: "",
     apiKey: "",
     maxTokens: "4096",
-    vectorDimension: "1024"
+    vectorDimension: "1024",
+    inputPrice: "",
+    outputPrice: ""
   })
   const [loading, setLoading] = useState(false)
 
@@ -38,7 +41,9 @@ export const ModelEditDialog = ({ isOpen, model, onClose, onSuccess }: ModelEdit
         url: model.apiUrl || "",
         apiKey: model.apiKey || "",
         maxTokens: model.maxTokens?.toString() || "4096",
-        vectorDimension: model.maxTokens?.toString() || "1024"
+        vectorDimension: model.maxTokens?.toString() || "1024",
+        inputPrice: model.inputPrice?.toString() ?? "",
+        outputPrice: model.outputPrice?.toString() ?? ""
       })
     }
   }, [model])
@@ -48,9 +53,18 @@ export const ModelEditDialog = ({ isOpen, model, onClose, onSuccess }: ModelEdit
   }
 
   const isEmbeddingModel = form.type === "embedding" || form.type === "multi_embedding"
+  // Only the models agents generate with are priced
+  const isPricedModel = form.type === "llm" || form.type === "vlm"
+
+  // Empty clears the price
+  const parsePrice = (value: string): number | null => value.trim() === "" ? null : Number(value)
+  const isPriceValid = (value: string) => {
+    const price = parsePrice(value)
+    return price === null || (Number.isFinite(price) && price >= 0)
+  }
 
   const isFormValid = () => {
-    return form.name.trim() !== "" && form.url.trim() !== ""
+    return form.name.trim() !== "" && form.url.trim() !== "" && isPriceValid(form.inputPrice) && isPriceValid(form.outputPrice)
   }
 
   const handleSave = async () => {
@@ -69,8 +83,10 @@ export const ModelEditDialog = ({ isOpen, model, onClose, onSuccess }: ModelEdit
         url: form.url,
         apiKey: form.apiKey.trim() === "" ? "sk-no-api-key" : form.apiKey,
         maxTokens: maxTokensValue,
-        source: model.source
+        source: model.source,
+        ...(isPricedModel ? { inputPrice: parsePrice(form.inputPrice), outputPrice: parsePrice(form.outputPrice) } : {})
       })
+      invalidateModelPrices()
 
       // 更新本地配置（仅当当前编辑模型在配置中被选中时）
       const modelConfigKeyMap: Record<ModelType, string> = {
@@ -170,6 +186,30 @@ export const ModelEditDialog = ({ isOpen, model, onClose, onSuccess }: ModelEdit
           </div>
         )}
 
+        {/* Prices */}
+        {isPricedModel && (
+          <div>
+            <label className="block mb-1 text-sm font-medium text-gray-700">
+              {t('model.dialog.label.price')}
+            </label>
+            <div className="flex gap-2">
+              <Input
+                value={form.inputPrice}
+                onChange={(e) => handleFormChange('inputPrice', e.target.value)}
+                placeholder={t('model.dialog.placeholder.inputPrice')}
+                status={isPriceValid(form.inputPrice) ? undefined : 'error'}
+              />
+              <Input
+                value={form.outputPrice}
+                onChange={(e) => handleFormChange('outputPrice', e.target.value)}
+                placeholder={t('model.dialog.placeholder.outputPrice')}
+                status={isPriceValid(form.outputPrice) ? undefined : 'error'}
+              />
+            </div>
+            <div className="mt-1 text-xs text-gray-500">{t('model.dialog.hint.price')}</div>
+          </div>
+        )}
+
         <div className="flex justify-end space-x-3">
           <Button onClick={onClose}>{t('common.button.cancel')}</Button>
           <Button type="primary" onClick={handleSave} loading={loading} disabled={!isFormValid()}>
@@ -0,0 +1,23 @@
+"use client"
+
+import { useEffect } from "react"
+import { useParams } from "next/navigation"
+import { SharedConversationView } from "@/app/share/internal/sharedConversationView"
+import { useConfig } from "@/hooks/useConfig"
+
+export default function SharePage() {
+  const { token } = useParams<{ token: string }>()
+  const { appConfig } = useConfig()
+
+  useEffect(() => {
+    if (appConfig.appName) {
+      document.title = `${appConfig.appName}`
+    }
+  }, [appConfig.appName])
+
+  return (
+    <div className="flex h-screen flex-col">
+      <SharedConversationView token={decodeURIComponent(token)} />
+    </div>
+  )
+}
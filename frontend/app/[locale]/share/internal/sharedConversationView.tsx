@@ -0,0 +1,122 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { Tag } from "antd"
+import { Eye } from "lucide-react"
+import { ChatStreamMain } from "@/app/chat/streaming/chatStreamMain"
+import { ChatRightPanel } from "@/app/chat/layout/chatRightPanel"
+import { toSharedMessages } from "@/app/chat/internal/conversationShare"
+import { conversationService } from "@/services/conversationService"
+import { ApiError } from "@/services/api"
+import { STATUS_CODES } from "@/types/auth"
+import { ChatMessageType, SharedConversationDetail } from "@/types/chat"
+
+const noop = () => {}
+
+// Read-only rendering of a shared conversation snapshot: answers, agent steps and sources
+export function SharedConversationView({ token }: { token: string }) {
+  const { t } = useTranslation()
+  const [detail, setDetail] = useState<SharedConversationDetail | null>(null)
+  const [messages, setMessages] = useState<ChatMessageType[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [selectedMessageId, setSelectedMessageId] = useState<string | undefined>()
+  const [showRightPanel, setShowRightPanel] = useState(false)
+
+  const loadSnapshot = async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const snapshot = await conversationService.getShared(token)
+      setDetail(snapshot)
+      setMessages(toSharedMessages(snapshot, t))
+    } catch (err) {
+      console.error(t("sharedConversation.loadFailed"), err)
+      if (err instanceof ApiError && err.code === STATUS_CODES.TOKEN_EXPIRED) {
+        // Tenant-only link opened without a session, the login modal is already shown
+        setError(t("sharedConversation.loginRequired"))
+      } else if (err instanceof ApiError && (err.code === 403 || err.code === 404)) {
+        setError(t("sharedConversation.unavailable"))
+      } else {
+        setError(t("sharedConversation.loadFailed"))
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadSnapshot()
+
+    // Retry once the viewer signed in from the login modal
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === "session") {
+        loadSnapshot()
+      }
+    }
+    window.addEventListener("storage", handleStorage)
+    return () => window.removeEventListener("storage", handleStorage)
+  }, [token])
+
+  const handleMessageSelect = (messageId: string) => {
+    if (messageId !== selectedMessageId) {
+      setSelectedMessageId(messageId)
+      setShowRightPanel(true)
+    } else {
+      setShowRightPanel(!showRightPanel)
+    }
+  }
+
+  return (
+    <div className="flex flex-1 flex-col overflow-hidden">
+      <header className="border-b border-slate-100 bg-background px-4 py-3">
+        <div className="max-w-3xl mx-auto flex items-center gap-3">
+          <h1 className="flex-1 truncate text-xl font-bold">{detail?.title || t("sharedConversation.title")}</h1>
+          {detail && (
+            <>
+              {detail.redact_tool_inputs && <Tag>{t("sharedConversation.redactedBadge")}</Tag>}
+              <span className="flex items-center gap-1 text-xs text-gray-500 whitespace-nowrap">
+                <Eye className="h-4 w-4" />
+                {t("sharedConversation.readOnly", { date: new Date(detail.create_time).toLocaleString() })}
+              </span>
+            </>
+          )}
+        </div>
+      </header>
+
+      {isLoading || error ? (
+        <div className="flex flex-1 items-center justify-center">
+          <div className={`text-sm ${error ? "text-red-500" : "text-gray-500"}`}>
+            {error || t("chatStreamMain.loadingConversation")}
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-1 overflow-hidden">
+          <div className="flex-1 flex flex-col">
+            <ChatStreamMain
+              messages={messages}
+              input=""
+              isLoading={false}
+              onInputChange={noop}
+              onSend={noop}
+              onStop={noop}
+              onKeyDown={noop}
+              onSelectMessage={handleMessageSelect}
+              selectedMessageId={selectedMessageId}
+              readOnly
+            />
+          </div>
+          <ChatRightPanel
+            messages={messages}
+            onImageError={(imageUrl) => console.error(t("chatInterface.imageLoadFailed"), imageUrl)}
+            maxInitialImages={14}
+            isVisible={showRightPanel}
+            toggleRightPanel={() => setShowRightPanel(!showRightPanel)}
+            selectedMessageId={selectedMessageId}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+interface HighlightedSnippetProps {
+  snippet: string
+  query: string
+}
+
+// Wrap every occurrence of the query terms in <mark>
+export const HighlightedSnippet = ({ snippet, query }: HighlightedSnippetProps) => {
+  const terms = query.trim().split(/\s+/).filter(Boolean).map(escapeRegExp)
+  if (terms.length === 0) {
+    return <>{snippet}</>
+  }
+
+  // With a capturing group, split puts the matches at the odd indexes
+  const parts = snippet.split(new RegExp(`(${terms.join("|")})`, "gi"))
+  return (
+    <>
+      {parts.map((part, index) => index % 2 === 1
+        ? <mark key={index} className="bg-yellow-200 text-inherit rounded-sm px-0.5">{part}</mark>
+        : <span key={index}>{part}</span>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,204 @@
+import { useRef, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { conversationService } from "@/services/conversationService"
+import { handleStreamResponse } from "@/app/chat/streaming/chatStreamHandler"
+import { ChatMessageType } from "@/types/chat"
+
+export interface AgentDebugRun {
+  messages: ChatMessageType[]
+  isStreaming: boolean
+}
+
+// Counter for generating unique step IDs
+const stepIdCounter = { current: 0 }
+
+// Debug runs are not saved and have no conversation. Each one gets its own negative id, so runs streaming at
+// the same time (lanes, tabs or other users) don't replace each other in the backend's registry of running agents.
+const createDebugConversationId = () =>
+  -((Date.now() % 1e9) * 1e6 + Math.floor(Math.random() * 1e6) + 1)
+
+// Debug runs keyed by lane, several of them can stream at the same time (e.g. to compare agents)
+export function useAgentDebugRuns() {
+  const { t } = useTranslation()
+  const [runs, setRuns] = useState<Record<string, AgentDebugRun>>({})
+  const timeoutRefs = useRef<Record<string, NodeJS.Timeout>>({})
+  const abortControllerRefs = useRef<Record<string, AbortController>>({})
+  const conversationIdRefs = useRef<Record<string, number>>({})
+  // Messages of every run as soon as they change, so a finished run can hand its answer to the caller
+  const latestMessagesRef = useRef<Record<string, ChatMessageType[]>>({})
+
+  const setRunMessages = (key: string): React.Dispatch<React.SetStateAction<ChatMessageType[]>> => (update) => {
+    const messages = typeof update === "function" ? update(latestMessagesRef.current[key] || []) : update
+    latestMessagesRef.current[key] = messages
+    setRuns(prev => ({ ...prev, [key]: { isStreaming: prev[key]?.isStreaming ?? false, messages } }))
+  }
+
+  const setRunStreaming = (key: string, isStreaming: boolean) => {
+    setRuns(prev => ({ ...prev, [key]: { messages: prev[key]?.messages || [], isStreaming } }))
+  }
+
+  const clearRunTimeout = (key: string) => {
+    if (timeoutRefs.current[key]) {
+      clearTimeout(timeoutRefs.current[key])
+      delete timeoutRefs.current[key]
+    }
+  }
+
+  // Reset timeout timer
+  const resetTimeout = (key: string) => {
+    clearRunTimeout(key)
+    timeoutRefs.current[key] = setTimeout(() => {
+      setRunStreaming(key, false)
+    }, 30000) // 30 seconds timeout
+  }
+
+  // Mark the answer of a run as stopped, clearing its thinking state
+  const markStopped = (key: string) => {
+    setRunMessages(key)(prev => {
+      const newMessages = [...prev]
+      const lastMsg = newMessages[newMessages.length - 1]
+      if (lastMsg && lastMsg.role === "assistant") {
+        lastMsg.isComplete = true
+        lastMsg.thinking = undefined // Explicitly clear thinking state
+        lastMsg.content = t('agent.debug.stopped')
+      }
+      return newMessages
+    })
+  }
+
+  // Cancel the stream of a lane and stop its agent run on the backend
+  const stopRun = async (key: string) => {
+    try {
+      abortControllerRefs.current[key]?.abort(t('agent.debug.userStop'))
+    } catch (error) {
+      console.error(t('agent.debug.cancelError'), error)
+    }
+    const conversationId = conversationIdRefs.current[key]
+    delete abortControllerRefs.current[key]
+    delete conversationIdRefs.current[key]
+    clearRunTimeout(key)
+    setRunStreaming(key, false)
+
+    if (conversationId === undefined) return
+    try {
+      await conversationService.stop(conversationId)
+    } catch (error) {
+      console.error(t('agent.debug.stopError'), error)
+      // This is expected if the run already finished
+    }
+  }
+
+  // Stop every run immediately
+  const stopAll = async () => {
+    const keys = Object.keys(abortControllerRefs.current)
+    await Promise.all(keys.map(stopRun))
+    keys.forEach(markStopped)
+  }
+
+  // Ask a question to an agent, replacing the previous run of the lane. Without a version the current configuration runs.
+  // Resolves with the answer once the run is over.
+  const startRun = async (key: string, question: string, agentId?: number, versionNo?: number): Promise<ChatMessageType | undefined> => {
+    if (abortControllerRefs.current[key]) {
+      await stopRun(key)
+    }
+    const abortController = new AbortController()
+    const conversationId = createDebugConversationId()
+    abortControllerRefs.current[key] = abortController
+    conversationIdRefs.current[key] = conversationId
+
+    const userMessage: ChatMessageType = {
+      id: `${key}-${Date.now()}`,
+      role: "user",
+      content: question,
+      timestamp: new Date()
+    }
+    const assistantMessage: ChatMessageType = {
+      id: `${key}-${Date.now() + 1}`,
+      role: "assistant",
+      content: "",
+      timestamp: new Date(),
+      isComplete: false
+    }
+    latestMessagesRef.current[key] = [userMessage, assistantMessage]
+    setRuns(prev => ({ ...prev, [key]: { messages: [userMessage, assistantMessage], isStreaming: true } }))
+
+    try {
+      // Ensure agent_id is a number
+      let agentIdValue = undefined
+      if (agentId !== undefined && agentId !== null) {
+        agentIdValue = Number(agentId)
+        if (isNaN(agentIdValue)) {
+          agentIdValue = undefined
+        }
+      }
+
+      const reader = await conversationService.runAgent({
+        query: question,
+        conversation_id: conversationId,
+        is_set: true,
+        history: [],
+        is_debug: true,
+        agent_id: agentIdValue,
+        agent_version_no: versionNo
+      }, abortController.signal)
+
+      if (!reader) throw new Error(t('agent.debug.nullResponse'))
+
+      await handleStreamResponse(
+        reader,
+        setRunMessages(key),
+        () => resetTimeout(key),
+        stepIdCounter,
+        () => {}, // setIsSwitchedConversation - Debug mode does not need
+        false, // isNewConversation - Debug mode does not need
+        () => {}, // setConversationTitle - Debug mode does not need
+        async () => {}, // fetchConversationList - Debug mode does not need
+        conversationId, // currentConversationId
+        conversationService,
+        true, // isDebug: true for debug mode
+        t
+      )
+    } catch (error) {
+      // If user actively canceled, don't show error message
+      const err = error as Error
+      if (err.name === 'AbortError') {
+        markStopped(key)
+      } else {
+        console.error(t('agent.debug.streamError'), error)
+        const errorMessage = error instanceof Error ? error.message : t('agent.debug.processError')
+
+        setRunMessages(key)(prev => {
+          const newMessages = [...prev]
+          const lastMsg = newMessages[newMessages.length - 1]
+          if (lastMsg && lastMsg.role === "assistant") {
+            lastMsg.content = errorMessage
+            lastMsg.isComplete = true
+            lastMsg.error = errorMessage
+          }
+          return newMessages
+        })
+      }
+    } finally {
+      // A newer run of the lane owns the state from now on
+      if (abortControllerRefs.current[key] === abortController) {
+        delete abortControllerRefs.current[key]
+        delete conversationIdRefs.current[key]
+        clearRunTimeout(key)
+        setRunStreaming(key, false)
+      }
+    }
+
+    return latestMessagesRef.current[key]?.find(message => message.role === "assistant")
+  }
+
+  const isAnyStreaming = Object.values(runs).some(run => run.isStreaming)
+
+  return {
+    runs,
+    isAnyStreaming,
+    startRun,
+    stopAll,
+  }
+}
+
+export type AgentDebugRuns = ReturnType<typeof useAgentDebugRuns>
@@ -0,0 +1,235 @@
+import { useEffect, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { App } from "antd"
+import { conversationService } from "@/services/conversationService"
+import { ConversationListItem } from "@/types/chat"
+import { ConversationFolder, ConversationTag } from "@/types/conversation"
+
+// Section of the sidebar a conversation is shown in. Pinned wins over the folder, which is kept for unpinning.
+export interface ConversationPlacement {
+  pinned: boolean
+  folderId: number | null
+}
+
+export const UNFILED_PLACEMENT: ConversationPlacement = { pinned: false, folderId: null }
+
+export const placementOf = (dialog: ConversationListItem): ConversationPlacement => ({
+  pinned: !!dialog.pinned,
+  folderId: dialog.pinned ? null : dialog.folder_id ?? null,
+})
+
+const samePlacement = (a: ConversationPlacement, b: ConversationPlacement) =>
+  a.pinned === b.pinned && a.folderId === b.folderId
+
+// Persisted order first, conversations never reordered go last, newest first
+export const sortByOrder = <T extends ConversationListItem>(dialogs: T[]): T[] =>
+  [...dialogs].sort((a, b) =>
+    (a.sort_order ?? Number.MAX_SAFE_INTEGER) - (b.sort_order ?? Number.MAX_SAFE_INTEGER) ||
+    b.create_time - a.create_time
+  )
+
+// Insert an id before another one, or at the end when there is none
+const insertBefore = (ids: number[], id: number, beforeId?: number): number[] => {
+  const rest = ids.filter(item => item !== id)
+  const index = beforeId === undefined ? -1 : rest.indexOf(beforeId)
+  return index < 0 ? [...rest, id] : [...rest.slice(0, index), id, ...rest.slice(index)]
+}
+
+interface UseConversationOrganizerOptions {
+  conversationList: ConversationListItem[]
+  setConversationList: React.Dispatch<React.SetStateAction<ConversationListItem[]>>
+  // Reload the list from the server, used to roll back optimistic updates that failed
+  refreshConversationList: () => Promise<unknown>
+}
+
+// Folders, tags, pinning and ordering of the sidebar. Changes are applied locally first and then persisted.
+export function useConversationOrganizer({
+  conversationList,
+  setConversationList,
+  refreshConversationList,
+}: UseConversationOrganizerOptions) {
+  const { t } = useTranslation()
+  const { message } = App.useApp()
+  const [folders, setFolders] = useState<ConversationFolder[]>([])
+  const [tags, setTags] = useState<ConversationTag[]>([])
+
+  const loadFolders = async () => {
+    try {
+      const result = await conversationService.getFolders()
+      setFolders([...result].sort((a, b) => a.sort_order - b.sort_order))
+    } catch (error) {
+      console.error(t("conversationOrganizer.loadFailed"), error)
+    }
+  }
+
+  const loadTags = async () => {
+    try {
+      setTags(await conversationService.getTags())
+    } catch (error) {
+      console.error(t("conversationOrganizer.loadFailed"), error)
+    }
+  }
+
+  useEffect(() => {
+    loadFolders()
+    loadTags()
+  }, [])
+
+  // Report a failed change and reload what the server really has
+  const rollback = (error: unknown, reload: () => Promise<unknown>) => {
+    console.error(t("conversationOrganizer.saveFailed"), error)
+    message.error(t("conversationOrganizer.saveFailed"))
+    reload()
+  }
+
+  const applyOrder = (orderedIds: number[]) => {
+    setConversationList(prev => prev.map(dialog => {
+      const index = orderedIds.indexOf(dialog.conversation_id)
+      return index < 0 ? dialog : { ...dialog, sort_order: index }
+    }))
+  }
+
+  // Move a conversation into a section, before another conversation of that section or at its end
+  const moveConversation = async (conversationId: number, target: ConversationPlacement, beforeId?: number) => {
+    const dialog = conversationList.find(item => item.conversation_id === conversationId)
+    if (!dialog || beforeId === conversationId) return
+
+    const placementChanged = !samePlacement(placementOf(dialog), target)
+    // The unfiled conversations are grouped by date, they have no order of their own
+    const orderedIds = samePlacement(target, UNFILED_PLACEMENT)
+      ? []
+      : insertBefore(
+          sortByOrder(conversationList.filter(item => samePlacement(placementOf(item), target))).map(item => item.conversation_id),
+          conversationId,
+          beforeId
+        )
+    const organizeParams = target.pinned ? { pinned: true } : { pinned: false, folder_id: target.folderId }
+
+    setConversationList(prev => prev.map(item => item.conversation_id === conversationId
+      ? { ...item, pinned: organizeParams.pinned, folder_id: target.pinned ? item.folder_id : target.folderId }
+      : item
+    ))
+    applyOrder(orderedIds)
+
+    try {
+      if (placementChanged) {
+        await conversationService.organize(conversationId, organizeParams)
+      }
+      if (orderedIds.length > 0) {
+        await conversationService.reorder(orderedIds)
+      }
+    } catch (error) {
+      rollback(error, refreshConversationList)
+    }
+  }
+
+  const togglePin = (dialog: ConversationListItem) =>
+    moveConversation(
+      dialog.conversation_id,
+      dialog.pinned ? { pinned: false, folderId: dialog.folder_id ?? null } : { pinned: true, folderId: null }
+    )
+
+  // Move conversations into a folder (null: out of any folder), they also leave the pinned list
+  const moveToFolder = async (conversationIds: number[], folderId: number | null) => {
+    setConversationList(prev => prev.map(item => conversationIds.includes(item.conversation_id)
+      ? { ...item, pinned: false, folder_id: folderId }
+      : item
+    ))
+    try {
+      await conversationService.batchMove(conversationIds, folderId)
+    } catch (error) {
+      rollback(error, refreshConversationList)
+    }
+  }
+
+  const setConversationTags = async (conversationId: number, tagIds: number[]) => {
+    setConversationList(prev => prev.map(item => item.conversation_id === conversationId
+      ? { ...item, tag_ids: tagIds }
+      : item
+    ))
+    try {
+      await conversationService.organize(conversationId, { tag_ids: tagIds })
+    } catch (error) {
+      rollback(error, refreshConversationList)
+    }
+  }
+
+  const createFolder = async (name: string) => {
+    try {
+      const folder = await conversationService.createFolder(name)
+      setFolders(prev => [...prev, folder])
+    } catch (error) {
+      rollback(error, loadFolders)
+    }
+  }
+
+  const renameFolder = async (folderId: number, name: string) => {
+    setFolders(prev => prev.map(folder => folder.folder_id === folderId ? { ...folder, name } : folder))
+    try {
+      await conversationService.renameFolder(folderId, name)
+    } catch (error) {
+      rollback(error, loadFolders)
+    }
+  }
+
+  // The conversations of a deleted folder are kept and become unfiled
+  const deleteFolder = async (folderId: number) => {
+    setFolders(prev => prev.filter(folder => folder.folder_id !== folderId))
+    setConversationList(prev => prev.map(item => item.folder_id === folderId ? { ...item, folder_id: null } : item))
+    try {
+      await conversationService.deleteFolder(folderId)
+    } catch (error) {
+      rollback(error, () => Promise.all([loadFolders(), refreshConversationList()]))
+    }
+  }
+
+  const moveFolder = async (folderId: number, beforeId?: number) => {
+    if (folderId === beforeId) return
+    const orderedIds = insertBefore(folders.map(folder => folder.folder_id), folderId, beforeId)
+    setFolders(orderedIds.map((id, index) => ({ ...folders.find(folder => folder.folder_id === id)!, sort_order: index })))
+    try {
+      await conversationService.reorderFolders(orderedIds)
+    } catch (error) {
+      rollback(error, loadFolders)
+    }
+  }
+
+  const createTag = async (name: string, color: string) => {
+    try {
+      const tag = await conversationService.createTag(name, color)
+      setTags(prev => [...prev, tag])
+    } catch (error) {
+      rollback(error, loadTags)
+    }
+  }
+
+  const deleteTag = async (tagId: number) => {
+    setTags(prev => prev.filter(tag => tag.tag_id !== tagId))
+    setConversationList(prev => prev.map(item => item.tag_ids?.includes(tagId)
+      ? { ...item, tag_ids: item.tag_ids.filter(id => id !== tagId) }
+      : item
+    ))
+    try {
+      await conversationService.deleteTag(tagId)
+    } catch (error) {
+      rollback(error, () => Promise.all([loadTags(), refreshConversationList()]))
+    }
+  }
+
+  return {
+    folders,
+    tags,
+    moveConversation,
+    togglePin,
+    moveToFolder,
+    setConversationTags,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    moveFolder,
+    createTag,
+    deleteTag,
+  }
+}
+
+export type ConversationOrganizer = ReturnType<typeof useConversationOrganizer>
@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react"
+import { modelService } from "@/services/modelService"
+import { ModelOption } from "@/types/config"
+
+// Shared by every run summary of the page so the model list is fetched once
+let modelListRequest: Promise<ModelOption[]> | null = null
+
+// Refetch on next use, called after the prices of a model were edited
+export const invalidateModelPrices = () => {
+  modelListRequest = null
+}
+
+// Models with their configured prices, used to estimate the cost of agent runs
+export function useModelPrices() {
+  const [models, setModels] = useState<ModelOption[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    if (!modelListRequest) {
+      modelListRequest = modelService.getCustomModels()
+    }
+    modelListRequest.then(result => {
+      if (!cancelled) setModels(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return models
+}
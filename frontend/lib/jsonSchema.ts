@@ -0,0 +1,125 @@
+// Validation of values against the JSON Schema subset in types/jsonSchema, shared by the schema driven forms
+
+import { JsonSchema, JsonSchemaIssue, JsonSchemaType } from "@/types/jsonSchema"
+
+export const isEmptyValue = (value: unknown) => value === undefined || value === null || value === ""
+
+// A union with null only makes the value optional, the other member describes it
+export const resolveSchema = (schema: JsonSchema): { schema: JsonSchema; nullable: boolean } => {
+  const union = schema.anyOf || schema.oneOf
+  if (union) {
+    const members = union.filter(member => member.type !== "null")
+    if (members.length === 1) {
+      const member = {
+        ...members[0],
+        description: schema.description ?? members[0].description,
+        default: schema.default ?? members[0].default,
+      }
+      return { schema: member, nullable: members.length < union.length }
+    }
+  }
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter(type => type !== "null")
+    return { schema: { ...schema, type: types[0] }, nullable: types.length < schema.type.length }
+  }
+  return { schema, nullable: false }
+}
+
+export const schemaType = (schema: JsonSchema): JsonSchemaType | undefined => {
+  const resolved = resolveSchema(schema).schema
+  if (typeof resolved.type === "string") return resolved.type
+  if (resolved.properties) return "object"
+  if (resolved.items) return "array"
+  if (resolved.enum?.length) return typeof resolved.enum[0] === "number" ? "number" : "string"
+  return undefined
+}
+
+export const isSecretSchema = (schema: JsonSchema) => schema.format === "password" || schema.writeOnly === true
+
+const matchesType = (type: JsonSchemaType, value: unknown) => {
+  switch (type) {
+    case "string": return typeof value === "string"
+    case "number": return typeof value === "number" && !Number.isNaN(value)
+    case "integer": return typeof value === "number" && Number.isInteger(value)
+    case "boolean": return typeof value === "boolean"
+    case "array": return Array.isArray(value)
+    case "object": return typeof value === "object" && value !== null && !Array.isArray(value)
+    case "null": return value === null
+  }
+}
+
+const joinPath = (path: string, key: string | number) => path ? `${path}.${key}` : String(key)
+
+// Every violation of a value, empty values only violate the schema when they are required
+export const validateJsonSchema = (
+  rawSchema: JsonSchema,
+  value: unknown,
+  path = "",
+  required = false
+): JsonSchemaIssue[] => {
+  const { schema } = resolveSchema(rawSchema)
+  if (isEmptyValue(value)) {
+    return required ? [{ path, kind: "required" }] : []
+  }
+
+  const type = schemaType(schema)
+  if (type && !matchesType(type, value)) {
+    return [{ path, kind: "type", limit: type }]
+  }
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    return [{ path, kind: "enum" }]
+  }
+
+  const issues: JsonSchemaIssue[] = []
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) issues.push({ path, kind: "minimum", limit: schema.minimum })
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) issues.push({ path, kind: "minimum", limit: schema.exclusiveMinimum })
+    if (schema.maximum !== undefined && value > schema.maximum) issues.push({ path, kind: "maximum", limit: schema.maximum })
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) issues.push({ path, kind: "maximum", limit: schema.exclusiveMaximum })
+  }
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) issues.push({ path, kind: "minLength", limit: schema.minLength })
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) issues.push({ path, kind: "maxLength", limit: schema.maxLength })
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) issues.push({ path, kind: "pattern", limit: schema.pattern })
+      } catch (error) {
+        // A pattern the browser can't compile is not the user's fault
+      }
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) issues.push({ path, kind: "minItems", limit: schema.minItems })
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) issues.push({ path, kind: "maxItems", limit: schema.maxItems })
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(...validateJsonSchema(schema.items!, item, joinPath(path, index), true))
+      })
+    }
+  }
+  if (type === "object" && schema.properties) {
+    const object = value as Record<string, unknown>
+    Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+      issues.push(...validateJsonSchema(propertySchema, object[key], joinPath(path, key), !!schema.required?.includes(key)))
+    })
+  }
+  return issues
+}
+
+// Initial value of a new array item or object property
+export const defaultValueFor = (rawSchema: JsonSchema): any => {
+  const { schema } = resolveSchema(rawSchema)
+  if (schema.default !== undefined) return schema.default
+  switch (schemaType(schema)) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, propertySchema]) => [key, defaultValueFor(propertySchema)])
+      )
+    case "array":
+      return []
+    case "boolean":
+      return false
+    default:
+      return undefined
+  }
+}
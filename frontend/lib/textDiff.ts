@@ -0,0 +1,91 @@
+// Word and line diffs of two texts, based on the longest common subsequence of their tokens
+
+export interface DiffPart {
+  type: "equal" | "insert" | "delete"
+  text: string
+}
+
+// Above this many table cells (~16 MB) the comparison falls back to coarser tokens
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Whitespace is kept as its own token so the parts join back into the compared texts
+const tokenizeWords = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const tokenizeLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+const pushPart = (parts: DiffPart[], type: DiffPart["type"], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+// Returns null when the texts are too long for a table of the given tokens
+const diffTokens = (before: string[], after: string[]): DiffPart[] | null => {
+  // The common prefix and suffix need no table
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    return null;
+  }
+
+  // lengths[i * width + j]: LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  if (prefix > 0) {
+    pushPart(parts, "equal", before.slice(0, prefix).join(""));
+  }
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      pushPart(parts, "equal", a[i]);
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+      pushPart(parts, "insert", b[j]);
+      j++;
+    } else {
+      pushPart(parts, "delete", a[i]);
+      i++;
+    }
+  }
+  if (suffix > 0) {
+    pushPart(parts, "equal", before.slice(before.length - suffix).join(""));
+  }
+  return parts;
+};
+
+// Texts too long even for a line table are shown as replaced as a whole
+export const diffLines = (before: string, after: string): DiffPart[] =>
+  diffTokens(tokenizeLines(before), tokenizeLines(after)) ?? [
+    ...(before ? [{ type: "delete" as const, text: before }] : []),
+    ...(after ? [{ type: "insert" as const, text: after }] : []),
+  ];
+
+export const diffWords = (before: string, after: string): DiffPart[] =>
+  diffTokens(tokenizeWords(before), tokenizeWords(after)) ?? diffLines(before, after);
@@ -1,6 +1,7 @@
 import { convertParamType } from '@/types/agentAndToolConst';
 import { API_ENDPOINTS } from './api';
 import { getAuthHeaders } from '@/lib/auth';
+import type { AgentVersion, AgentVersionDetail, ApprovalPolicy, ToolInvocationResult, ToolSample } from '@/app/setup/agentSetup/ConstInterface';
 
 /**
  * get tool list from backend
@@ -25,13 +26,15 @@ export const fetchTools = async () => {
       is_available: tool.is_available,
       create_time: tool.create_time,
       usage: tool.usage, // 新增：处理usage字段
+      inputs: tool.inputs,
       initParams: tool.params.map((param: any) => {
         return {
           name: param.name,
           type: convertParamType(param.type),
           required: !param.optional,
           value: param.default,
-          description: param.description
+          description: param.description,
+          schema: param.schema
         };
       })
     }));
@@ -219,6 +222,148 @@ export const searchToolConfig = async (toolId: number, agentId: number) => {
   }
 };
 
+/**
+ * invoke a single tool directly, outside an agent run
+ * @param toolId tool id
+ * @param agentId agent whose tool configuration is used for missing params
+ * @param params init params entered in the tool configuration form
+ * @param inputs call inputs of the tool
+ * @returns tool output, or the error the tool raised
+ */
+export const invokeTool = async (
+  toolId: number,
+  agentId: number,
+  params: Record<string, any>,
+  inputs: Record<string, any>
+) => {
+  try {
+    const response = await fetch(API_ENDPOINTS.tool.invoke, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({
+        tool_id: toolId,
+        agent_id: agentId,
+        params,
+        inputs
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+
+    const data: ToolInvocationResult = await response.json();
+    return {
+      success: true,
+      data,
+      message: ''
+    };
+  } catch (error) {
+    console.error('调用工具失败:', error);
+    return {
+      success: false,
+      data: null,
+      message: '调用工具失败，请稍后重试'
+    };
+  }
+};
+
+/**
+ * fetch the saved playground invocations of a tool
+ * @param toolId tool id
+ * @param agentId agent id
+ * @returns samples, newest first
+ */
+export const fetchToolSamples = async (toolId: number, agentId: number) => {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.tool.samples}?tool_id=${toolId}&agent_id=${agentId}`, {
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+
+    const data: ToolSample[] = await response.json();
+    return {
+      success: true,
+      data,
+      message: ''
+    };
+  } catch (error) {
+    console.error('获取工具样例失败:', error);
+    return {
+      success: false,
+      data: [] as ToolSample[],
+      message: '获取工具样例失败，请稍后重试'
+    };
+  }
+};
+
+/**
+ * save a playground invocation as a sample
+ * @param sample invocation to save
+ * @returns saved sample with its id
+ */
+export const saveToolSample = async (sample: Omit<ToolSample, 'sample_id' | 'create_time'>) => {
+  try {
+    const response = await fetch(API_ENDPOINTS.tool.sample, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(sample),
+    });
+
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+
+    const data: ToolSample = await response.json();
+    return {
+      success: true,
+      data,
+      message: ''
+    };
+  } catch (error) {
+    console.error('保存工具样例失败:', error);
+    return {
+      success: false,
+      data: null,
+      message: '保存工具样例失败，请稍后重试'
+    };
+  }
+};
+
+/**
+ * delete a saved tool sample
+ * @param sampleId sample id
+ * @returns delete result
+ */
+export const deleteToolSample = async (sampleId: number) => {
+  try {
+    const response = await fetch(API_ENDPOINTS.tool.deleteSample(sampleId), {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+
+    return {
+      success: true,
+      data: null,
+      message: ''
+    };
+  } catch (error) {
+    console.error('删除工具样例失败:', error);
+    return {
+      success: false,
+      data: null,
+      message: '删除工具样例失败，请稍后重试'
+    };
+  }
+};
+
 /**
  * 更新 Agent 信息
  * @param agentId agent id
@@ -227,7 +372,7 @@ export const searchToolConfig = async (toolId: number, agentId: number) => {
  * @param modelName 模型名称
  * @param maxSteps 最大步骤数
  * @param provideRunSummary 是否提供运行摘要
- * @returns 更新结果
+ * @returns 更新结果，每次保存后端都会生成一个新版本（data.version_no）
  */
 export const updateAgent = async (
   agentId: number,
@@ -391,6 +536,44 @@ export const importAgent = async (agentInfo: any) => {
   }
 };
 
+// convert backend agent detail to frontend format, shared by the current agent and its versions
+const formatAgentDetail = (data: any) => ({
+  id: data.agent_id,
+  name: data.name,
+  display_name: data.display_name,
+  description: data.description,
+  model: data.model_name,
+  max_step: data.max_steps,
+  duty_prompt: data.duty_prompt,
+  constraint_prompt: data.constraint_prompt,
+  few_shots_prompt: data.few_shots_prompt,
+  business_description: data.business_description,
+  provide_run_summary: data.provide_run_summary,
+  enabled: data.enabled,
+  is_available: data.is_available,
+  sub_agent_id_list: data.sub_agent_id_list || [], // 添加sub_agent_id_list
+  tools: data.tools ? data.tools.map((tool: any) => {
+    const params = typeof tool.params === 'string' ? JSON.parse(tool.params) : tool.params;
+    return {
+      id: String(tool.tool_id),
+      name: tool.name,
+      description: tool.description,
+      source: tool.source,
+      is_available: tool.is_available,
+      usage: tool.usage, // 新增：处理usage字段
+      inputs: tool.inputs,
+      initParams: Array.isArray(params) ? params.map((param: any) => ({
+        name: param.name,
+        type: convertParamType(param.type),
+        required: !param.optional,
+        value: param.default,
+        description: param.description,
+        schema: param.schema
+      })) : []
+    };
+  }) : []
+});
+
 /**
  * search agent info by agent id
  * @param agentId agent id
@@ -409,42 +592,7 @@ export const searchAgentInfo = async (agentId: number) => {
     }
 
     const data = await response.json();
-    
-    // convert backend data to frontend format
-    const formattedAgent = {
-      id: data.agent_id,
-      name: data.name,
-      display_name: data.display_name,
-      description: data.description,
-      model: data.model_name,
-      max_step: data.max_steps,
-      duty_prompt: data.duty_prompt,
-      constraint_prompt: data.constraint_prompt,
-      few_shots_prompt: data.few_shots_prompt,
-      business_description: data.business_description,
-      provide_run_summary: data.provide_run_summary,
-      enabled: data.enabled,
-      is_available: data.is_available,
-      sub_agent_id_list: data.sub_agent_id_list || [], // 添加sub_agent_id_list
-      tools: data.tools ? data.tools.map((tool: any) => {
-        const params = typeof tool.params === 'string' ? JSON.parse(tool.params) : tool.params;
-        return {
-          id: String(tool.tool_id),
-          name: tool.name,
-          description: tool.description,
-          source: tool.source,
-          is_available: tool.is_available,
-          usage: tool.usage, // 新增：处理usage字段
-          initParams: Array.isArray(params) ? params.map((param: any) => ({
-            name: param.name,
-            type: convertParamType(param.type),
-            required: !param.optional,
-            value: param.default,
-            description: param.description
-          })) : []
-        };
-      }) : []
-    };
+    const formattedAgent = formatAgentDetail(data);
 
     return {
       success: true,
@@ -461,6 +609,182 @@ export const searchAgentInfo = async (agentId: number) => {
   }
 };
 
+/**
+ * fetch the saved versions of an agent, newest first
+ * @param agentId agent id
+ * @returns versions with number, author and creation time
+ */
+export const fetchAgentVersions = async (agentId: number) => {
+  try {
+    const response = await fetch(API_ENDPOINTS.agent.versions(agentId), {
+      headers: getAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+    const data = await response.json();
+
+    const versions: AgentVersion[] = data.map((version: any) => ({
+      version_no: version.version_no,
+      author: version.author || '',
+      create_time: version.create_time,
+      rollback_from: version.rollback_from ?? null
+    }));
+
+    return {
+      success: true,
+      data: versions,
+      message: ''
+    };
+  } catch (error) {
+    console.error('获取 Agent 版本列表失败:', error);
+    return {
+      success: false,
+      data: [] as AgentVersion[],
+      message: '获取 Agent 版本列表失败，请稍后重试'
+    };
+  }
+};
+
+/**
+ * fetch one version of an agent with the configuration saved in it
+ * @param agentId agent id
+ * @param versionNo version number
+ * @returns version with its agent snapshot
+ */
+export const fetchAgentVersion = async (agentId: number, versionNo: number) => {
+  try {
+    const response = await fetch(API_ENDPOINTS.agent.version(agentId, versionNo), {
+      headers: getAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+    const data = await response.json();
+
+    const version: AgentVersionDetail = {
+      version_no: data.version_no,
+      author: data.author || '',
+      create_time: data.create_time,
+      rollback_from: data.rollback_from ?? null,
+      snapshot: formatAgentDetail(data.snapshot)
+    };
+
+    return {
+      success: true,
+      data: version,
+      message: ''
+    };
+  } catch (error) {
+    console.error('获取 Agent 版本详情失败:', error);
+    return {
+      success: false,
+      data: null,
+      message: '获取 Agent 版本详情失败，请稍后重试'
+    };
+  }
+};
+
+/**
+ * restore an earlier version of an agent, saved as a new version so the history stays intact
+ * @param agentId agent id
+ * @param versionNo version to restore
+ * @returns the version created by the rollback
+ */
+export const rollbackAgentVersion = async (agentId: number, versionNo: number) => {
+  try {
+    const response = await fetch(API_ENDPOINTS.agent.rollback, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ agent_id: agentId, version_no: versionNo }),
+    });
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+    const data = await response.json();
+
+    return {
+      success: true,
+      data: data as AgentVersion,
+      message: 'Agent 回滚成功'
+    };
+  } catch (error) {
+    console.error('回滚 Agent 版本失败:', error);
+    return {
+      success: false,
+      data: null,
+      message: '回滚 Agent 版本失败，请稍后重试'
+    };
+  }
+};
+
+/**
+ * fetch which tool calls of an agent wait for the user's approval
+ * @param agentId agent id
+ * @returns approval policy, nothing asks for approval when the agent has none yet
+ */
+export const fetchApprovalPolicy = async (agentId: number) => {
+  try {
+    const response = await fetch(API_ENDPOINTS.agent.approvalPolicy(agentId), {
+      headers: getAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+    const data = await response.json();
+
+    const policy: ApprovalPolicy = {
+      agent_id: agentId,
+      default_mode: data?.default_mode || 'never',
+      tool_modes: data?.tool_modes || {}
+    };
+
+    return {
+      success: true,
+      data: policy,
+      message: ''
+    };
+  } catch (error) {
+    console.error('获取工具审批策略失败:', error);
+    return {
+      success: false,
+      data: null,
+      message: '获取工具审批策略失败，请稍后重试'
+    };
+  }
+};
+
+/**
+ * save the approval policy of an agent
+ * @param policy policy with the agent default and the per tool modes
+ * @returns save result
+ */
+export const saveApprovalPolicy = async (policy: ApprovalPolicy) => {
+  try {
+    const response = await fetch(API_ENDPOINTS.agent.saveApprovalPolicy, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(policy),
+    });
+    if (!response.ok) {
+      throw new Error(`请求失败: ${response.status}`);
+    }
+
+    return {
+      success: true,
+      data: policy,
+      message: '工具审批策略保存成功'
+    };
+  } catch (error) {
+    console.error('保存工具审批策略失败:', error);
+    return {
+      success: false,
+      data: null,
+      message: '保存工具审批策略失败，请稍后重试'
+    };
+  }
+};
+
 /**
  * fetch all available agents for chat
  * @returns list of available agents with agent_id, name, description, is_available
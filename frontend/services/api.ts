@@ -16,6 +16,7 @@ export const API_ENDPOINTS = {
     list: `${API_BASE_URL}/conversation/list`,
     create: `${API_BASE_URL}/conversation/create`,
     save: `${API_BASE_URL}/conversation/save`,
+    import: `${API_BASE_URL}/conversation/import`,
     rename: `${API_BASE_URL}/conversation/rename`,
     detail: (id: number) => `${API_BASE_URL}/conversation/${id}`,
     delete: (id: number) => `${API_BASE_URL}/conversation/${id}`,
@@ -23,6 +24,20 @@ export const API_ENDPOINTS = {
     sources: `${API_BASE_URL}/conversation/sources`,
     opinion: `${API_BASE_URL}/conversation/message/update_opinion`,
     messageId: `${API_BASE_URL}/conversation/message/id`,
+    search: `${API_BASE_URL}/conversation/search`,
+    organize: `${API_BASE_URL}/conversation/organize`,
+    reorder: `${API_BASE_URL}/conversation/reorder`,
+    batchDelete: `${API_BASE_URL}/conversation/batch_delete`,
+    batchMove: `${API_BASE_URL}/conversation/batch_move`,
+    folders: `${API_BASE_URL}/conversation/folder`,
+    folder: (id: number) => `${API_BASE_URL}/conversation/folder/${id}`,
+    folderReorder: `${API_BASE_URL}/conversation/folder/reorder`,
+    tags: `${API_BASE_URL}/conversation/tag`,
+    tag: (id: number) => `${API_BASE_URL}/conversation/tag/${id}`,
+    shareCreate: `${API_BASE_URL}/conversation/share`,
+    shareList: (conversationId: number) => `${API_BASE_URL}/conversation/share/list/${conversationId}`,
+    share: (token: string) => `${API_BASE_URL}/conversation/share/${encodeURIComponent(token)}`,
+    agentPin: `${API_BASE_URL}/conversation/agent_pin`,
   },
   agent: {
     run: `${API_BASE_URL}/agent/run`,
@@ -31,17 +46,47 @@ export const API_ENDPOINTS = {
     delete: `${API_BASE_URL}/agent`,
     getCreatingSubAgentId: `${API_BASE_URL}/agent/get_creating_sub_agent_id`,
     stop: (conversationId: number) => `${API_BASE_URL}/agent/stop/${conversationId}`,
+    resume: (conversationId: number, afterSeq: number) => `${API_BASE_URL}/agent/stream/${conversationId}?after_seq=${afterSeq}`,
     export: `${API_BASE_URL}/agent/export`,
     import: `${API_BASE_URL}/agent/import`,
     searchInfo: `${API_BASE_URL}/agent/search_info`,
     relatedAgent: `${API_BASE_URL}/agent/related_agent`,
     deleteRelatedAgent: `${API_BASE_URL}/agent/delete_related_agent`,
+    versions: (agentId: number) => `${API_BASE_URL}/agent/${agentId}/versions`,
+    version: (agentId: number, versionNo: number) => `${API_BASE_URL}/agent/${agentId}/versions/${versionNo}`,
+    rollback: `${API_BASE_URL}/agent/rollback`,
+    approvalPolicy: (agentId: number) => `${API_BASE_URL}/agent/${agentId}/approval_policy`,
+    saveApprovalPolicy: `${API_BASE_URL}/agent/approval_policy`,
+    approval: `${API_BASE_URL}/agent/approval`,
+  },
+  evaluation: {
+    suites: (agentId: number) => `${API_BASE_URL}/evaluation/suite?agent_id=${agentId}`,
+    suite: `${API_BASE_URL}/evaluation/suite`,
+    deleteSuite: (suiteId: number) => `${API_BASE_URL}/evaluation/suite/${suiteId}`,
+    reports: (suiteId: number) => `${API_BASE_URL}/evaluation/report?suite_id=${suiteId}`,
+    report: `${API_BASE_URL}/evaluation/report`,
+    judge: `${API_BASE_URL}/evaluation/judge`,
+  },
+  schedule: {
+    list: (agentId: number) => `${API_BASE_URL}/schedule?agent_id=${agentId}`,
+    save: `${API_BASE_URL}/schedule`,
+    delete: (scheduleId: number) => `${API_BASE_URL}/schedule/${scheduleId}`,
+    enabled: (scheduleId: number) => `${API_BASE_URL}/schedule/${scheduleId}/enabled`,
+    run: (scheduleId: number) => `${API_BASE_URL}/schedule/${scheduleId}/run`,
+    rotateWebhook: (scheduleId: number) => `${API_BASE_URL}/schedule/${scheduleId}/webhook/rotate`,
+    runs: (scheduleId: number) => `${API_BASE_URL}/schedule/${scheduleId}/runs`,
+    inbox: `${API_BASE_URL}/schedule/inbox`,
+    inboxRead: `${API_BASE_URL}/schedule/inbox/read`,
   },
   tool: {
     list: `${API_BASE_URL}/tool/list`,
     update: `${API_BASE_URL}/tool/update`,
     search: `${API_BASE_URL}/tool/search`,
     updateTool: `${API_BASE_URL}/tool/scan_tool`,
+    invoke: `${API_BASE_URL}/tool/invoke`,
+    samples: `${API_BASE_URL}/tool/samples`,
+    sample: `${API_BASE_URL}/tool/sample`,
+    deleteSample: (sampleId: number) => `${API_BASE_URL}/tool/sample/${sampleId}`,
   },
   prompt: {
     generate: `${API_BASE_URL}/prompt/generate`,
@@ -94,6 +139,21 @@ export const API_ENDPOINTS = {
     summary: (indexName: string) => `${API_BASE_URL}/summary/${indexName}/auto_summary`,
     changeSummary: (indexName: string) => `${API_BASE_URL}/summary/${indexName}/summary`,
     getSummary: (indexName: string) => `${API_BASE_URL}/summary/${indexName}/summary`,
+    chunks: (indexName: string) => `${API_BASE_URL}/indices/${indexName}/chunks`,
+    chunk: (indexName: string, chunkId: string) => `${API_BASE_URL}/indices/${indexName}/chunks/${encodeURIComponent(chunkId)}`,
+    mergeChunks: (indexName: string) => `${API_BASE_URL}/indices/${indexName}/chunks/merge`,
+    splitChunk: (indexName: string, chunkId: string) => `${API_BASE_URL}/indices/${indexName}/chunks/${encodeURIComponent(chunkId)}/split`,
+    retrievalTest: `${API_BASE_URL}/indices/retrieval_test`,
+    retrievalQueries: `${API_BASE_URL}/indices/retrieval_test/queries`,
+    retrievalQuery: (queryId: number) => `${API_BASE_URL}/indices/retrieval_test/queries/${queryId}`,
+    sources: (indexName: string) => `${API_BASE_URL}/indices/${indexName}/sources`,
+    source: (indexName: string, sourceId: number) => `${API_BASE_URL}/indices/${indexName}/sources/${sourceId}`,
+    syncSource: (indexName: string, sourceId: number) => `${API_BASE_URL}/indices/${indexName}/sources/${sourceId}/sync`,
+    ingestionProfile: (indexName: string) => `${API_BASE_URL}/indices/${indexName}/ingestion_profile`,
+    previewChunking: (indexName: string) => `${API_BASE_URL}/indices/${indexName}/ingestion_profile/preview`,
+    reprocess: (indexName: string) => `${API_BASE_URL}/indices/${indexName}/reprocess`,
+    metadataFields: (indexName: string) => `${API_BASE_URL}/indices/${indexName}/metadata_fields`,
+    documentAttributes: (indexName: string) => `${API_BASE_URL}/indices/${indexName}/files/attributes`,
     
     // File upload service
     upload: `${API_BASE_URL}/file/upload`,
@@ -111,9 +171,11 @@ export const API_ENDPOINTS = {
   mcp: {
     tools: `${API_BASE_URL}/mcp/tools`,
     add: `${API_BASE_URL}/mcp/add`,
+    update: `${API_BASE_URL}/mcp/update`,
     delete: `${API_BASE_URL}/mcp`,
     list: `${API_BASE_URL}/mcp/list`,
     healthcheck: `${API_BASE_URL}/mcp/healthcheck`,
+    usage: `${API_BASE_URL}/mcp/usage`,
   },
   memory: {
     // ---------------- Memory configuration ----------------
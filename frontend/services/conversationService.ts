@@ -1,10 +1,21 @@
 import { API_ENDPOINTS, ApiError } from './api';
+import { STATUS_CODES } from '@/types/auth';
 import type { 
   ConversationListResponse, 
   ConversationListItem,
-  ApiConversationResponse
+  ApiConversationResponse,
+  ConversationSearchParams,
+  ConversationSearchHit,
+  ConversationSearchResponse,
+  ConversationFolder,
+  ConversationTag,
+  ConversationOrganizeParams,
+  ConversationShare,
+  CreateConversationShareParams
 } from '@/types/conversation';
+import type { ConversationAgentPin, SharedConversationDetail, ToolApprovalStatus } from '@/types/chat';
 import { getAuthHeaders, fetchWithAuth } from '@/lib/auth';
+import { STREAM_PROTOCOL_VERSION } from '@/app/chat/streaming/streamProtocol';
 // @ts-ignore
 const fetch = fetchWithAuth;
 
@@ -38,6 +49,24 @@ export const conversationService = {
     throw new ApiError(data.code, data.message);
   },
 
+  // Full-text search over the messages of all conversations
+  async search(params: ConversationSearchParams, signal?: AbortSignal): Promise<ConversationSearchHit[]> {
+    const response = await fetch(API_ENDPOINTS.conversation.search, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(params),
+      signal,
+    });
+
+    const data = await response.json() as ConversationSearchResponse;
+
+    if (data.code === 0) {
+      return data.data || [];
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
   // Create new conversation
   async create(title?: string) {
     const response = await fetch(API_ENDPOINTS.conversation.create, {
@@ -57,6 +86,23 @@ export const conversationService = {
     throw new ApiError(data.code, data.message);
   },
 
+  // Recreate a conversation from its JSON export, resolves to the new conversation
+  async importConversation(file: { title: string; messages: unknown[] }): Promise<{ conversation_id: number }> {
+    const response = await fetch(API_ENDPOINTS.conversation.import, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ title: file.title, messages: file.messages }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
   // Rename conversation
   async rename(conversationId: number, name: string) {
     const response = await fetch(API_ENDPOINTS.conversation.rename, {
@@ -127,6 +173,292 @@ export const conversationService = {
     throw new ApiError(data.code, data.message);
   },
 
+  // Delete several conversations at once
+  async batchDelete(conversationIds: number[]) {
+    const response = await fetch(API_ENDPOINTS.conversation.batchDelete, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ conversation_ids: conversationIds }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Move several conversations into a folder (null: out of any folder), moved conversations are unpinned
+  async batchMove(conversationIds: number[], folderId: number | null) {
+    const response = await fetch(API_ENDPOINTS.conversation.batchMove, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ conversation_ids: conversationIds, folder_id: folderId }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Pin, file or tag a conversation
+  async organize(conversationId: number, params: ConversationOrganizeParams) {
+    const response = await fetch(API_ENDPOINTS.conversation.organize, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ conversation_id: conversationId, ...params }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Pin a conversation to one version of its agent, or let it follow the latest version again
+  async pinAgentVersion(conversationId: number, pin: ConversationAgentPin | null) {
+    const response = await fetch(API_ENDPOINTS.conversation.agentPin, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({
+        conversation_id: conversationId,
+        agent_id: pin?.agent_id ?? null,
+        version_no: pin?.version_no ?? null,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Persist the order of the conversations of one pinned list or folder
+  async reorder(conversationIds: number[]) {
+    const response = await fetch(API_ENDPOINTS.conversation.reorder, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ conversation_ids: conversationIds }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Get the folders of the current user, ordered by sort_order
+  async getFolders(): Promise<ConversationFolder[]> {
+    const response = await fetch(API_ENDPOINTS.conversation.folders, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data || [];
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Create folder, resolves to the new folder
+  async createFolder(name: string): Promise<ConversationFolder> {
+    const response = await fetch(API_ENDPOINTS.conversation.folders, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ name }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Rename folder
+  async renameFolder(folderId: number, name: string) {
+    const response = await fetch(API_ENDPOINTS.conversation.folders, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ folder_id: folderId, name }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Delete folder, its conversations are kept and leave the folder
+  async deleteFolder(folderId: number) {
+    const response = await fetch(API_ENDPOINTS.conversation.folder(folderId), {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Persist the order of the folders
+  async reorderFolders(folderIds: number[]) {
+    const response = await fetch(API_ENDPOINTS.conversation.folderReorder, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ folder_ids: folderIds }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Get the tags of the current user
+  async getTags(): Promise<ConversationTag[]> {
+    const response = await fetch(API_ENDPOINTS.conversation.tags, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data || [];
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Create tag, resolves to the new tag
+  async createTag(name: string, color: string): Promise<ConversationTag> {
+    const response = await fetch(API_ENDPOINTS.conversation.tags, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ name, color }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Delete tag, it is removed from every conversation
+  async deleteTag(tagId: number) {
+    const response = await fetch(API_ENDPOINTS.conversation.tag(tagId), {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Create a read-only share link holding a snapshot of the conversation
+  async createShare(params: CreateConversationShareParams): Promise<ConversationShare> {
+    const response = await fetch(API_ENDPOINTS.conversation.shareCreate, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Active share links of a conversation, revoked links are not returned
+  async listShares(conversationId: number): Promise<ConversationShare[]> {
+    const response = await fetch(API_ENDPOINTS.conversation.shareList(conversationId), {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data || [];
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Revoke a share link, its snapshot is deleted
+  async revokeShare(token: string) {
+    const response = await fetch(API_ENDPOINTS.conversation.share(token), {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Open a share link. Public links need no session, tenant links answer 401 without one.
+  async getShared(token: string): Promise<SharedConversationDetail> {
+    const response = await fetch(API_ENDPOINTS.conversation.share(token), {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
   // Stop conversation agent
   async stop(conversationId: number) {
     const response = await fetch(API_ENDPOINTS.agent.stop(conversationId), {
@@ -143,6 +475,34 @@ export const conversationService = {
     throw new ApiError(data.code || -1, data.message || data.detail || '停止失败');
   },
 
+  // Answer an approval request of a paused run, the run goes on in the stream it was paused in.
+  // Arguments are only sent when the user edited them.
+  async decideApproval(
+    conversationId: number,
+    approvalId: string,
+    decision: Exclude<ToolApprovalStatus, 'pending'>,
+    args?: Record<string, any>
+  ) {
+    const response = await fetch(API_ENDPOINTS.agent.approval, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({
+        conversation_id: conversationId,
+        approval_id: approvalId,
+        decision,
+        arguments: args ?? null,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
   // STT related functionality
   stt: {
     // Create WebSocket connection
@@ -743,7 +1103,12 @@ export const conversationService = {
       description?: string; // Add file description field
     }>; // Update to complete attachment information object array
     agent_id?: number; // Add agent_id parameter
+    // Runs a saved version of the agent instead of its current configuration
+    agent_version_no?: number;
     is_debug?: boolean; // Add debug mode parameter
+    // Message the new turn follows. A user message is reused as the query of the run, so only a new
+    // assistant answer is saved next to the existing ones (edit and regenerate).
+    parent_message_id?: number;
   }, signal?: AbortSignal) {
     try {
       // Construct request parameters
@@ -754,6 +1119,8 @@ export const conversationService = {
         history: params.history,
         minio_files: params.minio_files || null,
         is_debug: params.is_debug || false,
+        // Handshake: announce the stream protocol this client understands
+        protocol_version: STREAM_PROTOCOL_VERSION,
       };
       
       // Only include agent_id if it has a value
@@ -761,6 +1128,14 @@ export const conversationService = {
         requestParams.agent_id = params.agent_id;
       }
 
+      if (params.agent_version_no !== undefined) {
+        requestParams.agent_version_no = params.agent_version_no;
+      }
+
+      if (params.parent_message_id !== undefined) {
+        requestParams.parent_message_id = params.parent_message_id;
+      }
+
       const response = await fetch(API_ENDPOINTS.agent.run, {
         method: 'POST',
         headers: getAuthHeaders(),
@@ -784,6 +1159,37 @@ export const conversationService = {
     }
   },
 
+  // Reconnect to the run in progress for a conversation, replaying the events after `afterSeq`.
+  // Returns null when the conversation has no run in progress anymore: the run finished and its
+  // answer is in the history.
+  async resumeAgent(
+    conversationId: number,
+    afterSeq: number,
+    signal?: AbortSignal
+  ): Promise<ReadableStreamDefaultReader<Uint8Array> | null> {
+    const response = await fetch(API_ENDPOINTS.agent.resume(conversationId, afterSeq), {
+      method: 'GET',
+      headers: getAuthHeaders(),
+      signal,
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      // Server errors are reported like a dropped connection so that the caller retries
+      const errorText = await response.text();
+      throw new ApiError(response.status >= 500 ? STATUS_CODES.SERVER_ERROR : response.status, errorText);
+    }
+
+    if (!response.body) {
+      throw new Error("Response body is null");
+    }
+
+    return response.body.getReader();
+  },
+
   // Get message source (image and search)
   async getSources(params: {
     conversation_id?: number;
@@ -830,12 +1236,14 @@ export const conversationService = {
     throw new ApiError(data.code, data.message);
   },
 
-  // Save message
+  // Save message, resolves to the id of the saved message
   async saveMessage(params: {
     conversation_id: number;
     message_idx: string;
     role: "user" | "assistant";
     message: any[];
+    // Message the saved one follows, siblings sharing a parent are branches of the conversation
+    parent_message_id?: number | null;
     minio_files?: Array<{
       object_name: string;
       name: string;
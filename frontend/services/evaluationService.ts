@@ -0,0 +1,112 @@
+import { API_ENDPOINTS, ApiError } from './api';
+import type {
+  EvaluationJudgeParams,
+  EvaluationJudgeVerdict,
+  EvaluationReport,
+  EvaluationSuite
+} from '@/types/evaluation';
+import { getAuthHeaders, fetchWithAuth } from '@/lib/auth';
+
+// @ts-ignore
+const fetch = fetchWithAuth;
+
+export const evaluationService = {
+  // Get the evaluation suites of an agent
+  async listSuites(agentId: number): Promise<EvaluationSuite[]> {
+    const response = await fetch(API_ENDPOINTS.evaluation.suites(agentId), {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data || [];
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Create a suite, or replace its name and cases when it has an id
+  async saveSuite(suite: Omit<EvaluationSuite, 'suite_id'> & { suite_id?: number }): Promise<EvaluationSuite> {
+    const response = await fetch(API_ENDPOINTS.evaluation.suite, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(suite),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Delete a suite together with its reports
+  async deleteSuite(suiteId: number) {
+    const response = await fetch(API_ENDPOINTS.evaluation.deleteSuite(suiteId), {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Get the reports of a suite, newest first
+  async listReports(suiteId: number): Promise<EvaluationReport[]> {
+    const response = await fetch(API_ENDPOINTS.evaluation.reports(suiteId), {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data || [];
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Keep the report of a run, later runs are compared with it
+  async saveReport(report: Omit<EvaluationReport, 'report_id' | 'create_time'>): Promise<EvaluationReport> {
+    const response = await fetch(API_ENDPOINTS.evaluation.report, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(report),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Ask a model whether an answer satisfies the expectation of a case
+  async judge(params: EvaluationJudgeParams): Promise<EvaluationJudgeVerdict> {
+    const response = await fetch(API_ENDPOINTS.evaluation.judge, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(params),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+};
@@ -1,6 +1,24 @@
 // Unified encapsulation of knowledge base related API calls
 
-import { Document, KnowledgeBase, KnowledgeBaseCreateParams } from '@/types/knowledgeBase';
+import {
+  ChunkingPreview,
+  DEFAULT_DOCUMENT_VISIBILITY,
+  DEFAULT_INGESTION_PROFILE,
+  DEFAULT_METADATA_FIELDS,
+  Document,
+  DocumentAttributes,
+  DocumentChunk,
+  DocumentMetadataField,
+  IngestionProfile,
+  KnowledgeBase,
+  KnowledgeBaseCreateParams,
+  KnowledgeSource,
+  KnowledgeSourceDraft,
+  RetrievalHit,
+  RetrievalTestParams,
+  SavedRetrievalQuery,
+  SourceSyncRun,
+} from '@/types/knowledgeBase';
 import { API_ENDPOINTS } from './api';
 import { getAuthHeaders, fetchWithAuth } from '@/lib/auth';
 // @ts-ignore
@@ -246,7 +264,9 @@ class KnowledgeBaseService {
         chunk_num: file.chunk_count || 0,
         token_num: 0,
         status: file.status || "UNKNOWN",
-        latest_task_id: file.latest_task_id || ""
+        latest_task_id: file.latest_task_id || "",
+        metadata: file.metadata || {},
+        visibility: { ...DEFAULT_DOCUMENT_VISIBILITY, ...file.visibility }
       }));
     } catch (error) {
       console.error("Failed to get all files:", error);
@@ -281,7 +301,7 @@ class KnowledgeBaseService {
   }
 
   // Upload documents to a knowledge base
-  async uploadDocuments(kbId: string, files: File[], chunkingStrategy?: string): Promise<void> {
+  async uploadDocuments(kbId: string, files: File[], chunkingStrategy?: string, attributes?: DocumentAttributes): Promise<void> {
     try {
       // Create FormData object
       const formData = new FormData();
@@ -299,6 +319,12 @@ class KnowledgeBaseService {
         formData.append("chunking_strategy", chunkingStrategy);
       }
 
+      // Metadata and visibility apply to every uploaded file
+      if (attributes) {
+        formData.append("metadata", JSON.stringify(attributes.metadata));
+        formData.append("visibility", JSON.stringify(attributes.visibility));
+      }
+
 
       // 1. Upload files
       const uploadResponse = await fetch(API_ENDPOINTS.knowledgeBase.upload, {
@@ -336,6 +362,8 @@ class KnowledgeBaseService {
           index_name: kbId,
           files: filesToProcess,
           chunking_strategy: chunkingStrategy,
+          metadata: attributes?.metadata,
+          visibility: attributes?.visibility,
           destination: "minio"
         }),
       });
@@ -384,6 +412,481 @@ class KnowledgeBaseService {
     }
   }
 
+  // Get the chunks of a document in the order they appear in it
+  async getDocumentChunks(kbId: string, docId: string): Promise<DocumentChunk[]> {
+    try {
+      const response = await fetch(
+        `${API_ENDPOINTS.knowledgeBase.chunks(kbId)}?path_or_url=${encodeURIComponent(docId)}`,
+        {
+          headers: getAuthHeaders()
+        }
+      );
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to get chunks");
+      }
+
+      return (result.chunks || []).map(this.toDocumentChunk);
+    } catch (error) {
+      console.error("Failed to get document chunks:", error);
+      throw error;
+    }
+  }
+
+  // Replace the content and metadata of a chunk, it is embedded again
+  async updateChunk(kbId: string, chunkId: string, content: string, metadata: Record<string, any>): Promise<DocumentChunk> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.chunk(kbId, chunkId), {
+        method: "PUT",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ content, metadata }),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to update chunk");
+      }
+
+      return this.toDocumentChunk(result.chunk);
+    } catch (error) {
+      console.error("Failed to update chunk:", error);
+      throw error;
+    }
+  }
+
+  // Delete a chunk, the following chunks move up one position
+  async deleteChunk(kbId: string, chunkId: string): Promise<void> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.chunk(kbId, chunkId), {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to delete chunk");
+      }
+    } catch (error) {
+      console.error("Failed to delete chunk:", error);
+      throw error;
+    }
+  }
+
+  // Add a chunk to a document at a position, the chunks from that position move down
+  async createChunk(
+    kbId: string,
+    docId: string,
+    position: number,
+    content: string,
+    metadata: Record<string, any>
+  ): Promise<DocumentChunk> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.chunks(kbId), {
+        method: "POST",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ path_or_url: docId, position, content, metadata }),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to create chunk");
+      }
+
+      return this.toDocumentChunk(result.chunk);
+    } catch (error) {
+      console.error("Failed to create chunk:", error);
+      throw error;
+    }
+  }
+
+  // Merge adjacent chunks into the first one, their contents are joined in order
+  async mergeChunks(kbId: string, chunkIds: string[]): Promise<DocumentChunk> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.mergeChunks(kbId), {
+        method: "POST",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ chunk_ids: chunkIds }),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to merge chunks");
+      }
+
+      return this.toDocumentChunk(result.chunk);
+    } catch (error) {
+      console.error("Failed to merge chunks:", error);
+      throw error;
+    }
+  }
+
+  // Split a chunk in two at a character offset of its content
+  async splitChunk(kbId: string, chunkId: string, offset: number): Promise<DocumentChunk[]> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.splitChunk(kbId, chunkId), {
+        method: "POST",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ offset }),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to split chunk");
+      }
+
+      return (result.chunks || []).map(this.toDocumentChunk);
+    } catch (error) {
+      console.error("Failed to split chunk:", error);
+      throw error;
+    }
+  }
+
+  private toDocumentChunk(chunk: any): DocumentChunk {
+    return {
+      id: chunk.id,
+      content: chunk.content || "",
+      position: chunk.position ?? 0,
+      page: chunk.page ?? null,
+      token_count: chunk.token_count || 0,
+      metadata: chunk.metadata || {},
+      edited: !!chunk.edited,
+    };
+  }
+
+  // Run a query against knowledge bases the way an agent's search tool would, without generating an answer
+  async testRetrieval(params: RetrievalTestParams): Promise<RetrievalHit[]> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.retrievalTest, {
+        method: "POST",
+        headers: getAuthHeaders(),
+        body: JSON.stringify(params),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to test retrieval");
+      }
+
+      return (result.results || []).map(this.toRetrievalHit);
+    } catch (error) {
+      console.error("Failed to test retrieval:", error);
+      throw error;
+    }
+  }
+
+  // Get saved retrieval test queries with the results they had when saved
+  async getSavedRetrievalQueries(): Promise<SavedRetrievalQuery[]> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.retrievalQueries, {
+        headers: getAuthHeaders()
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to get saved queries");
+      }
+
+      return (result.queries || []).map((query: any) => this.toSavedRetrievalQuery(query));
+    } catch (error) {
+      console.error("Failed to get saved retrieval queries:", error);
+      throw error;
+    }
+  }
+
+  // Save a query with its results, an existing query gets the new results as its baseline
+  async saveRetrievalQuery(params: RetrievalTestParams, results: RetrievalHit[], queryId?: number): Promise<SavedRetrievalQuery> {
+    try {
+      const response = await fetch(
+        queryId !== undefined ? API_ENDPOINTS.knowledgeBase.retrievalQuery(queryId) : API_ENDPOINTS.knowledgeBase.retrievalQueries,
+        {
+          method: queryId !== undefined ? "PUT" : "POST",
+          headers: getAuthHeaders(),
+          body: JSON.stringify({ params, results }),
+        }
+      );
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to save query");
+      }
+
+      return this.toSavedRetrievalQuery(result.query);
+    } catch (error) {
+      console.error("Failed to save retrieval query:", error);
+      throw error;
+    }
+  }
+
+  // Delete a saved retrieval test query
+  async deleteRetrievalQuery(queryId: number): Promise<void> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.retrievalQuery(queryId), {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to delete query");
+      }
+    } catch (error) {
+      console.error("Failed to delete retrieval query:", error);
+      throw error;
+    }
+  }
+
+  private toRetrievalHit(hit: any): RetrievalHit {
+    return {
+      chunk_id: hit.chunk_id,
+      index_name: hit.index_name || "",
+      title: hit.title || "",
+      filename: hit.filename ?? null,
+      text: hit.text || "",
+      score: typeof hit.score === "number" ? hit.score : null,
+      score_details: hit.score_details || {},
+    };
+  }
+
+  private toSavedRetrievalQuery(query: any): SavedRetrievalQuery {
+    return {
+      query_id: query.query_id,
+      params: { ...query.params, metadata_filters: query.params?.metadata_filters || {} },
+      results: (query.results || []).map(this.toRetrievalHit),
+      update_time: query.update_time,
+    };
+  }
+
+  // Get the external sources documents of a knowledge base are synced from
+  async getSources(kbId: string): Promise<KnowledgeSource[]> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.sources(kbId), {
+        headers: getAuthHeaders()
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to get sources");
+      }
+
+      return result.sources || [];
+    } catch (error) {
+      console.error("Failed to get knowledge base sources:", error);
+      throw error;
+    }
+  }
+
+  // Create a source, or update the one with the draft's source_id
+  async saveSource(kbId: string, draft: KnowledgeSourceDraft): Promise<KnowledgeSource> {
+    try {
+      const response = await fetch(
+        draft.source_id !== undefined
+          ? API_ENDPOINTS.knowledgeBase.source(kbId, draft.source_id)
+          : API_ENDPOINTS.knowledgeBase.sources(kbId),
+        {
+          method: draft.source_id !== undefined ? "PUT" : "POST",
+          headers: getAuthHeaders(),
+          body: JSON.stringify(draft),
+        }
+      );
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to save source");
+      }
+
+      return result.source;
+    } catch (error) {
+      console.error("Failed to save knowledge base source:", error);
+      throw error;
+    }
+  }
+
+  // Delete a source together with the documents synced from it
+  async deleteSource(kbId: string, sourceId: number): Promise<void> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.source(kbId, sourceId), {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to delete source");
+      }
+    } catch (error) {
+      console.error("Failed to delete knowledge base source:", error);
+      throw error;
+    }
+  }
+
+  // Start syncing a source now, the run continues in the background
+  async syncSource(kbId: string, sourceId: number): Promise<SourceSyncRun> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.syncSource(kbId, sourceId), {
+        method: "POST",
+        headers: getAuthHeaders(),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to sync source");
+      }
+
+      return result.run;
+    } catch (error) {
+      console.error("Failed to sync knowledge base source:", error);
+      throw error;
+    }
+  }
+
+  // Get the parsing and chunking profile of a knowledge base, knowledge bases without one use the defaults
+  async getIngestionProfile(kbId: string): Promise<IngestionProfile> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.ingestionProfile(kbId), {
+        headers: getAuthHeaders()
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to get ingestion profile");
+      }
+
+      return { ...DEFAULT_INGESTION_PROFILE, ...result.profile };
+    } catch (error) {
+      console.error("Failed to get ingestion profile:", error);
+      throw error;
+    }
+  }
+
+  // Save the profile, it applies to documents uploaded or synced afterwards
+  async saveIngestionProfile(kbId: string, profile: IngestionProfile): Promise<void> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.ingestionProfile(kbId), {
+        method: "PUT",
+        headers: getAuthHeaders(),
+        body: JSON.stringify(profile),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to save ingestion profile");
+      }
+    } catch (error) {
+      console.error("Failed to save ingestion profile:", error);
+      throw error;
+    }
+  }
+
+  // Split a sample file with a profile without adding it to the knowledge base
+  async previewChunking(kbId: string, file: File, profile: IngestionProfile): Promise<ChunkingPreview> {
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("profile", JSON.stringify(profile));
+
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.previewChunking(kbId), {
+        method: "POST",
+        headers: {
+          'User-Agent': 'AgentFrontEnd/1.0'
+        },
+        body: formData,
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to preview chunking");
+      }
+
+      return {
+        chunks: (result.chunks || []).map((chunk: any) => ({
+          content: chunk.content || "",
+          page: chunk.page ?? null,
+          token_count: chunk.token_count || 0,
+        })),
+        total_tokens: result.total_tokens || 0,
+      };
+    } catch (error) {
+      console.error("Failed to preview chunking:", error);
+      throw error;
+    }
+  }
+
+  // Parse and chunk all documents of a knowledge base again with its current profile
+  async reprocessDocuments(kbId: string): Promise<void> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.reprocess(kbId), {
+        method: "POST",
+        headers: getAuthHeaders(),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to reprocess documents");
+      }
+    } catch (error) {
+      console.error("Failed to reprocess documents:", error);
+      throw error;
+    }
+  }
+
+  // Get the metadata fields documents of a knowledge base can have
+  async getMetadataFields(kbId: string): Promise<DocumentMetadataField[]> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.metadataFields(kbId), {
+        headers: getAuthHeaders()
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to get metadata fields");
+      }
+
+      return result.fields || DEFAULT_METADATA_FIELDS;
+    } catch (error) {
+      console.error("Failed to get metadata fields:", error);
+      throw error;
+    }
+  }
+
+  // Replace the metadata fields, values of removed fields are kept on the documents but no longer shown
+  async saveMetadataFields(kbId: string, fields: DocumentMetadataField[]): Promise<void> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.metadataFields(kbId), {
+        method: "PUT",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ fields }),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to save metadata fields");
+      }
+    } catch (error) {
+      console.error("Failed to save metadata fields:", error);
+      throw error;
+    }
+  }
+
+  // Update the metadata and visibility of a document, its chunks are updated without embedding them again
+  async updateDocumentAttributes(kbId: string, docId: string, attributes: DocumentAttributes): Promise<void> {
+    try {
+      const response = await fetch(API_ENDPOINTS.knowledgeBase.documentAttributes(kbId), {
+        method: "PUT",
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ path_or_url: docId, ...attributes }),
+      });
+
+      const result = await response.json();
+      if (result.status !== "success") {
+        throw new Error(result.message || "Failed to update document");
+      }
+    } catch (error) {
+      console.error("Failed to update document attributes:", error);
+      throw error;
+    }
+  }
+
   // Summary index content
   async summaryIndex(indexName: string, batchSize: number = 1000, onProgress?: (text: string) => void): Promise<string> {
     try {
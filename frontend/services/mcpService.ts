@@ -18,15 +18,95 @@ const getAuthHeaders = () => {
   };
 };
 
-// MCP服务器接口定义
-export interface McpServer {
+// MCP传输方式：本地进程（stdio）、SSE 或 Streamable HTTP
+export type McpTransport = 'stdio' | 'sse' | 'streamable_http';
+
+// 工具过滤：全部暴露、仅暴露白名单、或隐藏黑名单中的工具
+export interface McpToolFilter {
+  mode: 'all' | 'allow' | 'deny';
+  tools: string[];
+}
+
+// 最近一次连接失败的记录，由后端在健康检查和工具调用时记录
+export interface McpConnectionError {
+  time: string;
+  message: string;
+}
+
+// 新增或编辑服务器时提交的配置。密钥（请求头的值、Bearer Token、环境变量的值）不会从后端返回：
+// 值为 null 表示保留已保存的密钥，未提交的请求头和环境变量会被删除，空的 Token 表示不使用 Token
+export interface McpServerConfig {
   service_name: string;
+  transport: McpTransport;
+  // 服务器地址，仅用于 sse 和 streamable_http
   mcp_url: string;
+  // 由后端启动的命令行，仅用于 stdio
+  command?: string;
+  args?: string[];
+  env?: Record<string, string | null>;
+  headers: Record<string, string | null>;
+  bearer_token: string | null;
+  // 超时时间（秒）
+  timeout: number;
+  tool_filter: McpToolFilter;
+}
+
+// MCP服务器接口定义
+export interface McpServer extends McpServerConfig {
   status: boolean;
+  has_bearer_token: boolean;
+  recent_errors: McpConnectionError[];
   remote_mcp_server_name?: string;
   remote_mcp_server?: string;
 }
 
+export const DEFAULT_MCP_TIMEOUT = 30;
+
+// 工具是否按过滤规则暴露给智能体
+export const isMcpToolExposed = (filter: McpToolFilter, toolName: string) => {
+  if (filter.mode === 'allow') return filter.tools.includes(toolName);
+  if (filter.mode === 'deny') return !filter.tools.includes(toolName);
+  return true;
+};
+
+const toConnectionErrors = (errors: any): McpConnectionError[] =>
+  Array.isArray(errors)
+    ? errors.map((error: any) => ({ time: error.time || '', message: error.message || String(error) }))
+    : [];
+
+// 转换后端字段名称为前端期望的格式，旧版本后端只返回名称、地址和状态
+const formatMcpServer = (server: any): McpServer => {
+  // 已保存的密钥只返回名称
+  const maskSecrets = (names: any): Record<string, null> =>
+    Object.fromEntries((Array.isArray(names) ? names : Object.keys(names || {})).map((name: string) => [name, null]));
+
+  return {
+    service_name: server.remote_mcp_server_name,
+    mcp_url: server.remote_mcp_server || '',
+    status: server.status || false,
+    transport: server.transport || 'sse',
+    command: server.command || undefined,
+    args: server.args || [],
+    env: maskSecrets(server.env_keys),
+    headers: maskSecrets(server.header_keys),
+    bearer_token: null,
+    has_bearer_token: !!server.has_bearer_token,
+    timeout: server.timeout || DEFAULT_MCP_TIMEOUT,
+    tool_filter: {
+      mode: server.tool_filter?.mode || 'all',
+      tools: server.tool_filter?.tools || [],
+    },
+    recent_errors: toConnectionErrors(server.recent_errors),
+  };
+};
+
+// 使用某个MCP服务器工具的智能体
+export interface McpServerUsage {
+  agent_id: number;
+  name: string;
+  display_name: string;
+}
+
 // MCP工具接口定义
 export interface McpTool {
   name: string;
@@ -47,14 +127,7 @@ export const getMcpServerList = async () => {
     
     if (response.ok && data.status === 'success') {
       
-      // 转换后端字段名称为前端期望的格式
-      const formattedData = (data.remote_mcp_server_list || []).map((server: any) => {
-        return {
-          service_name: server.remote_mcp_server_name,
-          mcp_url: server.remote_mcp_server,
-          status: server.status || false 
-        };
-      });
+      const formattedData: McpServer[] = (data.remote_mcp_server_list || []).map(formatMcpServer);
       
       return {
         success: true,
@@ -101,15 +174,13 @@ export const getMcpServerList = async () => {
 /**
  * 添加MCP服务器
  */
-export const addMcpServer = async (mcpUrl: string, serviceName: string) => {
+export const addMcpServer = async (config: McpServerConfig) => {
   try {
-    const response = await fetch(
-      `${API_ENDPOINTS.mcp.add}?mcp_url=${encodeURIComponent(mcpUrl)}&service_name=${encodeURIComponent(serviceName)}`,
-      {
-        method: 'POST',
-        headers: getAuthHeaders(),
-      }
-    );
+    const response = await fetch(API_ENDPOINTS.mcp.add, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(config),
+    });
 
     const data = await response.json();
     
@@ -147,6 +218,51 @@ export const addMcpServer = async (mcpUrl: string, serviceName: string) => {
   }
 };
 
+/**
+ * 编辑MCP服务器，服务器可以改名
+ */
+export const updateMcpServer = async (originalServiceName: string, config: McpServerConfig) => {
+  try {
+    const response = await fetch(API_ENDPOINTS.mcp.update, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ original_service_name: originalServiceName, ...config }),
+    });
+
+    const data = await response.json();
+
+    if (response.ok && data.status === 'success') {
+      return {
+        success: true,
+        data: data,
+        message: data.message || t('mcpService.message.updateServerSuccess')
+      };
+    }
+
+    let errorMessage = data.message || t('mcpService.message.updateServerFailed');
+    if (response.status === 409) {
+      errorMessage = t('mcpService.message.nameAlreadyUsed');
+    } else if (response.status === 404) {
+      errorMessage = t('mcpService.message.serverNotFound');
+    } else if (response.status === 503) {
+      errorMessage = t('mcpService.message.cannotConnectToServer');
+    }
+
+    return {
+      success: false,
+      data: null,
+      message: errorMessage
+    };
+  } catch (error) {
+    console.error(t('mcpService.debug.updateServerFailed'), error);
+    return {
+      success: false,
+      data: null,
+      message: t('mcpService.message.networkError')
+    };
+  }
+};
+
 /**
  * 删除MCP服务器
  */
@@ -315,7 +431,7 @@ export const updateToolList = async () => {
 };
 
 /**
- * checkMcpServerHealth
+ * checkMcpServerHealth，无论成功与否都会返回该服务器最近的连接错误
  */
 export const checkMcpServerHealth = async (mcpUrl: string, serviceName: string) => {
   try {
@@ -328,16 +444,20 @@ export const checkMcpServerHealth = async (mcpUrl: string, serviceName: string)
 
     const data = await response.json();
     
+    const recentErrors = toConnectionErrors(data.recent_errors);
+
     if (response.ok && data.status === 'success') {
       return {
         success: true,
         data: data,
+        recentErrors,
         message: data.message || t('mcpService.message.healthCheckSuccess')
       };
     } else {
       return {
         success: false,
         data: null,
+        recentErrors,
         message: data.message || t('mcpService.message.healthCheckFailed')
       };
     }
@@ -346,7 +466,50 @@ export const checkMcpServerHealth = async (mcpUrl: string, serviceName: string)
     return {
       success: false,
       data: null,
+      recentErrors: [] as McpConnectionError[],
       message: t('mcpService.message.networkError')
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * 获取使用该MCP服务器工具的智能体，删除服务器前提示用户
+ */
+export const getMcpServerUsage = async (serviceName: string) => {
+  try {
+    const response = await fetch(
+      `${API_ENDPOINTS.mcp.usage}?service_name=${encodeURIComponent(serviceName)}`,
+      {
+        headers: getAuthHeaders(),
+      }
+    );
+
+    const data = await response.json();
+
+    if (response.ok && data.status === 'success') {
+      const agents: McpServerUsage[] = (data.agents || []).map((agent: any) => ({
+        agent_id: agent.agent_id,
+        name: agent.name || '',
+        display_name: agent.display_name || agent.name || '',
+      }));
+      return {
+        success: true,
+        data: agents,
+        message: ''
+      };
+    } else {
+      return {
+        success: false,
+        data: [] as McpServerUsage[],
+        message: data.message || t('mcpService.message.getUsageFailed')
+      };
+    }
+  } catch (error) {
+    console.error(t('mcpService.debug.getUsageFailed'), error);
+    return {
+      success: false,
+      data: [] as McpServerUsage[],
+      message: t('mcpService.message.networkError')
+    };
+  }
+};
@@ -95,7 +95,9 @@ export const modelService = {
           apiKey: model.api_key,
           apiUrl: model.base_url,
           displayName: model.display_name || model.model_name,
-          connect_status: model.connect_status as ModelConnectStatus || "not_detected"
+          connect_status: model.connect_status as ModelConnectStatus || "not_detected",
+          inputPrice: model.input_price ?? undefined,
+          outputPrice: model.output_price ?? undefined
         }))
       }
       // If API call was not successful, return empty array
@@ -237,7 +239,10 @@ export const modelService = {
     url: string,
     apiKey: string,
     maxTokens?: number,
-    source?: ModelSource
+    source?: ModelSource,
+    // Prices per million tokens, left out they are kept and null clears them
+    inputPrice?: number | null,
+    outputPrice?: number | null
   }): Promise<ApiResponse> => {
     try {
       const response = await fetch(API_ENDPOINTS.model.updateSingleModel, {
@@ -249,7 +254,9 @@ export const modelService = {
           base_url: model.url,
           api_key: model.apiKey,
           max_tokens: model.maxTokens || 0,
-          model_factory: model.source || "OpenAI-API-Compatible"
+          model_factory: model.source || "OpenAI-API-Compatible",
+          input_price: model.inputPrice,
+          output_price: model.outputPrice
         })
       })
       const result: ApiResponse = await response.json() 
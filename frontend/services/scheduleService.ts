@@ -0,0 +1,162 @@
+import { API_ENDPOINTS, ApiError } from './api';
+import type { AgentSchedule, AgentScheduleDraft, InboxItem, ScheduleRun } from '@/types/schedule';
+import { getAuthHeaders, fetchWithAuth } from '@/lib/auth';
+
+// @ts-ignore
+const fetch = fetchWithAuth;
+
+// The backend only knows the path of a webhook, its callers need the full URL
+const withWebhookUrl = (schedule: AgentSchedule): AgentSchedule =>
+  schedule.webhook_url
+    ? { ...schedule, webhook_url: new URL(schedule.webhook_url, window.location.origin).toString() }
+    : schedule;
+
+export const scheduleService = {
+  // Get the schedules and webhook triggers of an agent
+  async list(agentId: number): Promise<AgentSchedule[]> {
+    const response = await fetch(API_ENDPOINTS.schedule.list(agentId), {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return (data.data || []).map(withWebhookUrl);
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Create a schedule, or replace it when it has an id. A new webhook schedule gets its URL in the response
+  async save(schedule: AgentScheduleDraft): Promise<AgentSchedule> {
+    const response = await fetch(API_ENDPOINTS.schedule.save, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(schedule),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return withWebhookUrl(data.data);
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Delete a schedule, its runs stay in the conversation they were delivered to
+  async delete(scheduleId: number) {
+    const response = await fetch(API_ENDPOINTS.schedule.delete(scheduleId), {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Pause or resume a schedule, a paused webhook answers its calls with an error
+  async setEnabled(scheduleId: number, enabled: boolean): Promise<AgentSchedule> {
+    const response = await fetch(API_ENDPOINTS.schedule.enabled(scheduleId), {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ enabled }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return withWebhookUrl(data.data);
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Start a run right away, webhook templates are filled from the sample payload
+  async runNow(scheduleId: number, payload?: Record<string, any>): Promise<ScheduleRun> {
+    const response = await fetch(API_ENDPOINTS.schedule.run(scheduleId), {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ payload: payload ?? null }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Replace the secret of the webhook URL, callers of the old URL are rejected from now on
+  async rotateWebhook(scheduleId: number): Promise<AgentSchedule> {
+    const response = await fetch(API_ENDPOINTS.schedule.rotateWebhook(scheduleId), {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return withWebhookUrl(data.data);
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Get the runs of a schedule, newest first
+  async listRuns(scheduleId: number): Promise<ScheduleRun[]> {
+    const response = await fetch(API_ENDPOINTS.schedule.runs(scheduleId), {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data || [];
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Get the results delivered to the inbox of the current user, newest first
+  async listInbox(): Promise<InboxItem[]> {
+    const response = await fetch(API_ENDPOINTS.schedule.inbox, {
+      method: 'GET',
+      headers: getAuthHeaders(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return data.data || [];
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+
+  // Mark inbox items as read, every item when no id is given
+  async markInboxRead(itemIds?: number[]) {
+    const response = await fetch(API_ENDPOINTS.schedule.inboxRead, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ item_ids: itemIds ?? null }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === 0) {
+      return true;
+    }
+
+    throw new ApiError(data.code, data.message);
+  },
+};
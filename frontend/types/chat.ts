@@ -6,7 +6,7 @@ export interface StepSection {
 
 export interface StepContent {
   id: string
-  type: "model_output" | "parsing" | "execution" | "error" | "agent_new_run" | "executing" | "generating_code" | "search_content" | "card" | "search_content_placeholder" | "virtual"
+  type: "model_output" | "parsing" | "execution" | "error" | "agent_new_run" | "executing" | "generating_code" | "search_content" | "card" | "search_content_placeholder" | "virtual" | "approval"
   content: string
   expanded: boolean
   timestamp: number
@@ -19,12 +19,23 @@ export interface StepContent {
   }
 }
 
+// Structured metrics of a step, durations are in seconds
+export interface StepMetrics {
+  inputTokens?: number
+  outputTokens?: number
+  model?: string
+  duration?: number
+  toolDuration?: number
+}
+
 export interface AgentStep {
   id: string
   title: string
   content: string
   expanded: boolean
+  // Raw token_count payload as sent by the server
   metrics: string
+  stepMetrics?: StepMetrics
   // Support for both formats
   thinking: StepSection
   code: StepSection
@@ -34,6 +45,44 @@ export interface AgentStep {
   parsingContent?: string
 }
 
+// Trace of an agent run: nested spans for the agents, their steps, model calls, code executions and tool calls
+export type TraceSpanKind = "agent" | "step" | "model" | "execution" | "tool"
+
+export type TraceSpanStatus = "running" | "success" | "error"
+
+export interface TraceSpan {
+  id: string
+  // null for the agent that answers the user
+  parentId: string | null
+  kind: TraceSpanKind
+  name: string
+  status: TraceSpanStatus
+  // Milliseconds, receive times of the events opening and closing the span
+  startTime: number
+  endTime?: number
+  input?: string
+  output?: string
+}
+
+// Tool call paused by the approval policy of the agent until the user decides
+export type ToolApprovalStatus = "pending" | "approved" | "denied"
+
+export interface ToolApproval {
+  id: string
+  toolName: string
+  agentName?: string
+  // Arguments proposed by the agent, replaced by the ones the tool runs with once decided
+  arguments: Record<string, any>
+  status: ToolApprovalStatus
+  // Whether the user changed the arguments before approving
+  edited?: boolean
+  // Whether the call was denied because nobody decided in time
+  timedOut?: boolean
+  // Milliseconds, receive times of the request and of the decision
+  requestedAt: number
+  decidedAt?: number
+}
+
 // Search result type
 export interface SearchResult {
   title: string
@@ -86,6 +135,10 @@ export interface ChatMessageType {
   id: string
   role: "user" | "assistant" | "system"
   message_id?: number
+  // Server id of the message this one follows, null for the first message of a conversation
+  parent_message_id?: number | null
+  // Client id of the message this one follows in the conversation tree, null for the first message
+  parentId?: string | null
   content: string
   opinion_flag?: string
   timestamp: Date
@@ -105,6 +158,8 @@ export interface ChatMessageType {
   referenceId?: string
   reference?: any
   steps?: AgentStep[]
+  trace?: TraceSpan[]
+  approvals?: ToolApproval[]
   finalAnswer?: string
   error?: string
   agentRun?: string
@@ -144,6 +199,8 @@ export interface ApiMessage {
   role: "user" | "assistant"
   message: ApiMessageItem[]
   message_id: number
+  // Missing for messages saved before conversations could branch
+  parent_message_id?: number | null
   opinion_flag?: string
   picture?: string[]
   search?: SearchResultItem[]
@@ -158,11 +215,33 @@ export interface ApiConversationDetail {
   message: ApiMessage[]
 }
 
+// Snapshot served to the viewers of a share link, the messages are frozen at share time
+export interface SharedConversationDetail {
+  title: string
+  create_time: number
+  visibility: "public" | "tenant"
+  redact_tool_inputs: boolean
+  message: ApiMessage[]
+}
+
 export interface ConversationListItem {
   conversation_id: number
   conversation_title: string
   create_time: number
   update_time: number
+  // Organization of the sidebar, missing on servers without folders
+  pinned?: boolean
+  folder_id?: number | null
+  tag_ids?: number[]
+  // Position within its pinned list or folder, persisted so the order syncs across devices
+  sort_order?: number
+  // Agent version the conversation is pinned to, missing when it follows the latest version
+  agent_pin?: ConversationAgentPin | null
+}
+
+export interface ConversationAgentPin {
+  agent_id: number
+  version_no: number
 }
 
 // Task message type
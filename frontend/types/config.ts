@@ -101,6 +101,9 @@ export interface ModelOption {
   apiUrl: string
   displayName: string
   connect_status?: ModelConnectStatus
+  // Optional prices per million tokens, used to estimate the cost of agent runs
+  inputPrice?: number
+  outputPrice?: number
 }
 
 // 应用配置接口
@@ -3,6 +3,11 @@ export interface ConversationListItem {
   conversation_title: string;
   create_time: number;
   update_time: number;
+  pinned?: boolean;
+  folder_id?: number | null;
+  tag_ids?: number[];
+  sort_order?: number;
+  agent_pin?: { agent_id: number; version_no: number } | null;
 }
 
 export interface ConversationListResponse {
@@ -11,6 +16,75 @@ export interface ConversationListResponse {
   message: string;
 }
 
+// User-defined folder grouping conversations in the sidebar
+export interface ConversationFolder {
+  folder_id: number;
+  name: string;
+  sort_order: number;
+}
+
+export interface ConversationTag {
+  tag_id: number;
+  name: string;
+  // Hex color such as "#1677ff"
+  color: string;
+}
+
+// Organization fields of a conversation that can be changed, omitted fields are left as they are
+export interface ConversationOrganizeParams {
+  pinned?: boolean;
+  folder_id?: number | null;
+  tag_ids?: number[];
+}
+
+// Who can open a share link: anyone, or only signed-in users of the owner's tenant
+export type ConversationShareVisibility = "public" | "tenant";
+
+// Read-only snapshot link of a conversation
+export interface ConversationShare {
+  token: string;
+  conversation_id: number;
+  visibility: ConversationShareVisibility;
+  // Tool call arguments and generated code were replaced in the snapshot
+  redact_tool_inputs: boolean;
+  create_time: number;
+}
+
+export interface CreateConversationShareParams {
+  conversation_id: number;
+  visibility: ConversationShareVisibility;
+  redact_tool_inputs: boolean;
+}
+
+// Filters of the full-text search over conversation history, times are millisecond timestamps
+export interface ConversationSearchParams {
+  query: string;
+  include_steps?: boolean;
+  agent_id?: number;
+  start_time?: number;
+  end_time?: number;
+  has_attachments?: boolean;
+  limit?: number;
+}
+
+// One matching message, the snippet is plain text cut around the first match
+export interface ConversationSearchHit {
+  conversation_id: number;
+  conversation_title: string;
+  message_id: number;
+  role: "user" | "assistant";
+  // Which part of the message matched: the user query, the final answer or an agent step
+  match_type: "user" | "final_answer" | "step";
+  snippet: string;
+  create_time: number;
+}
+
+export interface ConversationSearchResponse {
+  code: number;
+  data: ConversationSearchHit[];
+  message: string;
+}
+
 export interface ApiMessageItem {
   type: string;
   content: string;
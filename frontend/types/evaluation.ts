@@ -0,0 +1,68 @@
+// Evaluation suites: golden questions run in batch against an agent and scored automatically
+
+export type EvaluationScorer = "exact" | "contains" | "regex" | "llm_judge"
+
+export interface EvaluationCase {
+  id: string
+  question: string
+  // Expected answer for exact, one required fragment per line for contains, a pattern for regex,
+  // a description of a good answer for the LLM judge
+  expected: string
+  scorer: EvaluationScorer
+  required_tools: string[]
+  // Sources the answer must be based on, matched against the title, file name or url of its references
+  required_citations: string[]
+  forbidden_phrases: string[]
+}
+
+export interface EvaluationSuite {
+  suite_id: number
+  agent_id: number
+  name: string
+  cases: EvaluationCase[]
+  update_time?: number
+}
+
+export type EvaluationCheckKind = "answer" | "tool" | "citation" | "forbidden"
+
+export interface EvaluationCheck {
+  kind: EvaluationCheckKind
+  // Tool, citation or phrase checked, empty for the answer
+  target: string
+  passed: boolean
+  detail?: string
+}
+
+export interface EvaluationCaseResult {
+  case_id: string
+  question: string
+  passed: boolean
+  answer: string
+  checks: EvaluationCheck[]
+  // Seconds
+  duration: number
+  error?: string
+}
+
+export interface EvaluationReport {
+  report_id: number
+  suite_id: number
+  agent_id: number
+  // Agent version the suite ran against, null on servers without versions
+  version_no: number | null
+  create_time: number
+  results: EvaluationCaseResult[]
+}
+
+export interface EvaluationJudgeParams {
+  question: string
+  expected: string
+  answer: string
+  // Display name of the model that judges, the secondary LLM of the model configuration
+  model_display_name: string
+}
+
+export interface EvaluationJudgeVerdict {
+  passed: boolean
+  reason: string
+}
@@ -0,0 +1,49 @@
+// The subset of JSON Schema used to describe tool parameters, as produced by MCP servers and pydantic
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "array" | "object" | "null"
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[]
+  title?: string
+  description?: string
+  default?: any
+  enum?: any[]
+  const?: any
+  // Optional values are described by pydantic as a union with null
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minItems?: number
+  maxItems?: number
+  // "password" marks a secret, rendered masked
+  format?: string
+  writeOnly?: boolean
+}
+
+export type JsonSchemaIssueKind =
+  | "required"
+  | "type"
+  | "enum"
+  | "minimum"
+  | "maximum"
+  | "minLength"
+  | "maxLength"
+  | "pattern"
+  | "minItems"
+  | "maxItems"
+
+// One violation, path is the dotted location of the value, e.g. "headers.0.name"
+export interface JsonSchemaIssue {
+  path: string
+  kind: JsonSchemaIssueKind
+  limit?: number | string
+}
@@ -43,4 +43,177 @@ export interface Document {
   status: string
   selected?: boolean // 用于UI选择状态
   latest_task_id: string //用于标记对应的最新celery任务
+  metadata: Record<string, any> // 按知识库元数据字段填写的值
+  visibility: DocumentVisibility // 哪些用户和角色可以检索到该文档
+}
+
+// 文档分块，即实际被索引、被检索到的内容
+export interface DocumentChunk {
+  id: string
+  content: string
+  // 在文档中的顺序，从0开始
+  position: number
+  // 所在页码，无分页的文档为null
+  page: number | null
+  token_count: number
+  metadata: Record<string, any>
+  // 手动编辑或添加过的分块，重新解析文档时会被覆盖
+  edited: boolean
+}
+
+// 检索测试的搜索方式：关键词、向量语义或两者混合
+export type RetrievalSearchMode = "keyword" | "semantic" | "hybrid"
+
+// 检索测试的参数，与智能体检索知识库时使用的参数一致
+export interface RetrievalTestParams {
+  query: string
+  index_names: string[]
+  search_mode: RetrievalSearchMode
+  // 重排模型的显示名称，为null时不重排
+  rerank_model: string | null
+  top_k: number
+  // 元数据筛选条件，只检索元数据匹配的文档，与智能体检索时传入的条件相同
+  metadata_filters: Record<string, string>
+}
+
+// 检索到的分块，字段与对话中的SearchResultItem对应
+export interface RetrievalHit {
+  chunk_id: string
+  index_name: string
+  title: string
+  filename: string | null
+  text: string
+  score: number | null
+  // 各阶段的得分，如关键词得分、向量得分和重排得分
+  score_details: Record<string, any>
+}
+
+// 保存的检索测试，重新索引后再次运行并与保存时的结果对比
+export interface SavedRetrievalQuery {
+  query_id: number
+  params: RetrievalTestParams
+  results: RetrievalHit[]
+  update_time: string
+}
+
+// 知识库的外部数据源：网址列表、站点地图、服务器目录或MinIO存储桶前缀
+export type KnowledgeSourceType = "urls" | "sitemap" | "folder" | "bucket"
+
+// 数据源的自动同步间隔，manual表示只手动同步
+export type SourceSyncInterval = "manual" | "hourly" | "daily" | "weekly"
+
+export interface KnowledgeSourceConfig {
+  // urls类型：逐个抓取的网址
+  urls?: string[]
+  // sitemap类型：站点地图地址，以及只抓取匹配的网址
+  sitemap_url?: string
+  include_pattern?: string
+  // folder类型：服务器上的目录
+  path?: string
+  recursive?: boolean
+  // bucket类型：存储桶及对象前缀
+  bucket?: string
+  prefix?: string
+}
+
+export interface KnowledgeSource {
+  source_id: number
+  name: string
+  type: KnowledgeSourceType
+  config: KnowledgeSourceConfig
+  sync_interval: SourceSyncInterval
+  // 该数据源当前在知识库中的文档数
+  document_count: number
+  last_sync: SourceSyncRun | null
+  next_sync_time: number | null
+}
+
+export type KnowledgeSourceDraft = Pick<KnowledgeSource, "name" | "type" | "config" | "sync_interval"> & {
+  source_id?: number
+}
+
+// 一次同步的结果，按内容哈希判断文档是否变化，只有新增和修改的文档会重新处理
+export interface SourceSyncRun {
+  run_id: number
+  status: "running" | "success" | "failed"
+  start_time: number
+  end_time: number | null
+  added: number
+  updated: number
+  // 数据源中已不存在、从知识库中删除的文档
+  removed: number
+  unchanged: number
+  failed: number
+  error?: string
+}
+
+// 分块的切分依据
+export type ChunkSplitMode = "heading" | "page" | "sentence"
+
+// 表格的提取方式：转为Markdown表格、转为纯文本或忽略
+export type TableExtractionMode = "markdown" | "text" | "skip"
+
+// 知识库的解析与分块配置，上传和同步的文档都按此处理
+export interface IngestionProfile {
+  // 分块大小和相邻分块的重叠，单位为token
+  chunk_size: number
+  chunk_overlap: number
+  split_by: ChunkSplitMode
+  ocr: boolean
+  table_mode: TableExtractionMode
+  // 文档语言，auto为自动识别
+  language: string
+}
+
+export const DEFAULT_INGESTION_PROFILE: IngestionProfile = {
+  chunk_size: 512,
+  chunk_overlap: 64,
+  split_by: "heading",
+  ocr: false,
+  table_mode: "markdown",
+  language: "auto",
+}
+
+// 按配置切分示例文件的结果，不会写入知识库
+export interface ChunkingPreview {
+  chunks: Pick<DocumentChunk, "content" | "page" | "token_count">[]
+  total_tokens: number
+}
+
+// 文档元数据字段的类型，tags为多个标签，date为YYYY-MM-DD格式的日期
+export type DocumentMetadataFieldType = "text" | "select" | "date" | "tags"
+
+// 知识库自定义的文档元数据字段，可在文档列表中筛选，也可作为智能体的检索条件
+export interface DocumentMetadataField {
+  key: string
+  label: string
+  type: DocumentMetadataFieldType
+  // select类型的可选值
+  options?: string[]
+}
+
+export const DEFAULT_METADATA_FIELDS: DocumentMetadataField[] = [
+  { key: "department", label: "Department", type: "text" },
+  { key: "confidentiality", label: "Confidentiality", type: "select", options: ["public", "internal", "confidential", "secret"] },
+  { key: "effective_date", label: "Effective date", type: "date" },
+  { key: "tags", label: "Tags", type: "tags" },
+]
+
+// 文档的可见范围，restricted为false时所有能使用该知识库的用户都可以检索到
+export interface DocumentVisibility {
+  restricted: boolean
+  users: string[]
+  roles: string[]
+}
+
+// 上传时设置或之后编辑的文档属性
+export interface DocumentAttributes {
+  metadata: Record<string, any>
+  visibility: DocumentVisibility
+}
+
+export const DEFAULT_DOCUMENT_VISIBILITY: DocumentVisibility = {
+  restricted: false,
+  users: [],
+  roles: [],
 }
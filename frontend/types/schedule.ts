@@ -0,0 +1,61 @@
+// Agent runs started without a user: on a cron schedule or from a webhook, with their history and the inbox
+// their results can be delivered to
+
+export type ScheduleTrigger = "cron" | "webhook"
+
+// Results are appended to a conversation of the schedule, or posted to the inbox of its owner
+export type ScheduleDelivery = "conversation" | "inbox"
+
+export type ScheduleRunStatus = "running" | "success" | "failed"
+
+export interface AgentSchedule {
+  schedule_id: number
+  agent_id: number
+  name: string
+  trigger: ScheduleTrigger
+  // Five field cron expression, evaluated in the timezone. Unused by webhook schedules
+  cron: string
+  // IANA name, e.g. "Asia/Shanghai"
+  timezone: string
+  // Question sent to the agent, {{path}} placeholders are filled from the JSON body of the webhook call
+  query_template: string
+  delivery: ScheduleDelivery
+  // Conversation the runs are appended to, created by the first run
+  conversation_id: number | null
+  enabled: boolean
+  // URL to POST to, with its secret token. Only webhook schedules have one
+  webhook_url?: string
+  next_run_time?: number | null
+  last_run?: ScheduleRun | null
+}
+
+export type AgentScheduleDraft = Omit<AgentSchedule, "schedule_id" | "conversation_id" | "webhook_url" | "next_run_time" | "last_run"> & {
+  schedule_id?: number
+}
+
+export interface ScheduleRun {
+  run_id: number
+  schedule_id: number
+  status: ScheduleRunStatus
+  triggered_by: ScheduleTrigger | "manual"
+  // Query after the template was filled
+  query: string
+  start_time: number
+  end_time?: number | null
+  // Answer of the run in the conversation it was saved to, the trace is read from there
+  conversation_id: number | null
+  message_id: number | null
+  error?: string
+}
+
+export interface InboxItem {
+  item_id: number
+  schedule_id: number
+  schedule_name: string
+  agent_name: string
+  run: ScheduleRun
+  // Beginning of the answer, or the error of a failed run
+  summary: string
+  read: boolean
+  create_time: number
+}
@@ -0,0 +1,16 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Same aliases as tsconfig.json, the more specific one first
+    alias: [
+      { find: /^@\/app\//, replacement: `${path.resolve(__dirname, 'app/[locale]')}/` },
+      { find: /^@\//, replacement: `${path.resolve(__dirname)}/` },
+    ],
+  },
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**'],
+  },
+});
@@ -27,6 +27,7 @@ class ToolConfig(BaseModel):
     source: str = Field(description="Tool source, can be local or mcp")
     usage: Optional[str] = Field(description="MCP server name", default=None)
     metadata: Optional[Dict[str, Any]] = Field(description="Metadata", default=None)
+    require_approval: bool = Field(description="Whether calls wait for the user's approval", default=False)
 
 class AgentConfig(BaseModel):
     name: str = Field(description="Agent name")
@@ -49,9 +50,12 @@ class AgentRunInfo(BaseModel):
     model_config_list: List[ModelConfig] = Field(description="List of model configurations")
     observer: MessageObserver = Field(description="Return data")
     agent_config: AgentConfig = Field(description="Detailed Agent configuration")
-    mcp_host: Optional[List[str]] = Field(description="MCP server address", default=None)
+    mcp_host: Optional[List[Any]] = Field(description="MCP server addresses, or the server parameters of ToolCollection.from_mcp",
+                                          default=None)
     history: Optional[List[AgentHistory]] = Field(description="Historical conversation information", default=None)
     stop_event: Event = Field(description="Stop event control")
+    approval_gate: Optional[Any] = Field(description="ApprovalGate pausing the tool calls that wait for approval",
+                                         default=None)
 
     class Config:
         arbitrary_types_allowed = True
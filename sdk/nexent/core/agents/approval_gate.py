@@ -0,0 +1,115 @@
+import json
+import threading
+import time
+import uuid
+from typing import Any, Dict, Optional
+
+from smolagents.tools import Tool
+
+from ..utils.observer import MessageObserver, ProcessType
+
+
+class ApprovalGate:
+    """
+    Pauses the calls of tools that need the user's approval until the user decides.
+
+    The agent runs in its own thread and waits here, the decision arrives from another thread through
+    `decide`. A request is announced with an `approval_request` message and its outcome with an
+    `approval_result` message, so that every client following the run sees both. A request nobody answers
+    within `timeout` seconds is denied, runs nobody follows such as scheduled runs go on without the call.
+    """
+
+    # Seconds between two checks of the stop event while waiting for a decision
+    POLL_INTERVAL = 0.5
+
+    def __init__(self, observer: MessageObserver, stop_event: threading.Event, timeout: Optional[float] = None):
+        self.observer = observer
+        self.stop_event = stop_event
+        self.timeout = timeout
+        self._pending: Dict[str, Dict[str, Any]] = {}
+        self._lock = threading.Lock()
+
+    def request(self, agent_name: str, tool_name: str, arguments: Dict[str, Any]) -> Optional[Dict[str, Any]]:
+        """
+        Ask the user to approve a tool call and wait for the decision
+
+        Returns:
+            The arguments to call the tool with, None when the call was denied, timed out or the run was stopped
+        """
+        approval_id = uuid.uuid4().hex
+        deadline = None if self.timeout is None else time.monotonic() + self.timeout
+        timed_out = False
+        pending = {"decided": threading.Event(), "decision": "denied", "arguments": None}
+        with self._lock:
+            self._pending[approval_id] = pending
+        self.observer.add_message(agent_name, ProcessType.APPROVAL_REQUEST, json.dumps(
+            {"approval_id": approval_id, "tool_name": tool_name, "arguments": arguments}, ensure_ascii=False))
+
+        while not pending["decided"].wait(self.POLL_INTERVAL):
+            if self.stop_event.is_set():
+                with self._lock:
+                    self._pending.pop(approval_id, None)
+                return None
+            if deadline is not None and time.monotonic() >= deadline:
+                # A decision arriving meanwhile has already taken the request, it is waited for instead
+                with self._lock:
+                    timed_out = self._pending.pop(approval_id, None) is not None
+                if timed_out:
+                    break
+
+        approved = pending["decision"] == "approved"
+        final_arguments = (pending["arguments"] if pending["arguments"] is not None else arguments) \
+            if approved else None
+        self.observer.add_message(agent_name, ProcessType.APPROVAL_RESULT, json.dumps({
+            "approval_id": approval_id,
+            "decision": pending["decision"],
+            "arguments": final_arguments,
+            "edited": approved and pending["arguments"] is not None and pending["arguments"] != arguments,
+            "timed_out": timed_out
+        }, ensure_ascii=False))
+        return final_arguments
+
+    def decide(self, approval_id: str, decision: str, arguments: Optional[Dict[str, Any]] = None) -> bool:
+        """
+        Answer a pending request, `arguments` replace the proposed ones when the user edited them
+
+        Returns:
+            Whether the request was pending
+        """
+        if decision not in ("approved", "denied"):
+            raise ValueError(f"Invalid approval decision: {decision}")
+        with self._lock:
+            pending = self._pending.pop(approval_id, None)
+        if pending is None:
+            return False
+        pending["decision"] = decision
+        pending["arguments"] = arguments
+        pending["decided"].set()
+        return True
+
+
+class ApprovalRequiredTool(Tool):
+    """
+    Wraps a tool whose calls wait for the user's approval, a denied call returns a notice the agent can observe
+    """
+    skip_forward_signature_validation = True
+
+    DENIED_TEMPLATES = {"zh": "用户拒绝了工具 {0} 的本次调用。", "en": "The user denied this call of tool {0}."}
+
+    def __init__(self, tool: Tool, gate: ApprovalGate, agent_name: str):
+        self.name = tool.name
+        self.description = tool.description
+        self.inputs = tool.inputs
+        self.output_type = tool.output_type
+        self.tool = tool
+        self.gate = gate
+        self.agent_name = agent_name
+        super().__init__()
+
+    def forward(self, *args, **kwargs):
+        arguments = {**dict(zip(self.inputs.keys(), args)), **kwargs}
+        approved_arguments = self.gate.request(self.agent_name, self.name, arguments)
+        if approved_arguments is None:
+            template = self.DENIED_TEMPLATES.get(self.gate.observer.lang, self.DENIED_TEMPLATES["en"])
+            return template.format(self.name)
+        return self.tool(**approved_arguments)
@@ -8,6 +8,7 @@ from ..models.openai_llm import OpenAIModel
 from ..tools import *  # Used for tool creation, do not delete!!!
 from ..utils.observer import MessageObserver, ProcessType
 from .agent_model import AgentConfig, AgentHistory, ModelConfig, ToolConfig
+from .approval_gate import ApprovalGate, ApprovalRequiredTool
 from .core_agent import CoreAgent, convert_code_format
 
 
@@ -15,7 +16,8 @@ class NexentAgent:
     def __init__(self, observer: MessageObserver,
                  model_config_list: List[ModelConfig],
                  stop_event: Event,
-                 mcp_tool_collection=None):
+                 mcp_tool_collection=None,
+                 approval_gate: ApprovalGate = None):
         """
         init the agent create factory
 
@@ -23,6 +25,7 @@ class NexentAgent:
             mcp_tool_collection:
             observer:
             model_config_list:
+            approval_gate: pauses the calls of the tools requiring approval, they run unchecked without it
         """
         if not isinstance(observer, MessageObserver):
             raise TypeError("Create Observer Object with MessageObserver")
@@ -31,6 +34,7 @@ class NexentAgent:
         self.model_config_list = model_config_list
         self.stop_event = stop_event
         self.mcp_tool_collection = mcp_tool_collection
+        self.approval_gate = approval_gate
 
         self.agent = None
 
@@ -68,6 +72,7 @@ class NexentAgent:
                                        observer=self.observer,
                                        es_core=tool_config.metadata.get("es_core", []),
                                        embedding_model=tool_config.metadata.get("embedding_model", []),
+                                       audience=tool_config.metadata.get("audience"),
                                        **params)
             else:
                 tools_obj = tool_class(**params)
@@ -110,6 +115,12 @@ class NexentAgent:
         except Exception as e:
             raise ValueError(f"Error in creating tool: {e}")
 
+    def gate_tool(self, tool_obj, tool_config: ToolConfig, agent_name: str):
+        """make the calls of the tool wait for the user's approval when its config requires it"""
+        if tool_config.require_approval and self.approval_gate is not None:
+            return ApprovalRequiredTool(tool_obj, self.approval_gate, agent_name)
+        return tool_obj
+
     def create_single_agent(self, agent_config: AgentConfig):
         if not isinstance(agent_config, AgentConfig):
             raise TypeError("agent_config must be a AgentConfig object")
@@ -119,7 +130,8 @@ class NexentAgent:
             prompt_templates = agent_config.prompt_templates
 
             try:
-                tool_list = [self.create_tool(tool_config) for tool_config in agent_config.tools]
+                tool_list = [self.gate_tool(self.create_tool(tool_config), tool_config, agent_config.name)
+                             for tool_config in agent_config.tools]
             except Exception as e:
                 raise ValueError(f"Error in creating tool: {e}")
 
@@ -181,9 +193,9 @@ class NexentAgent:
                 # Add content to observer
                 if not isinstance(step_log, ActionStep):
                     continue
-                # Keep duration
+                # Keep duration and token usage of the step
                 if hasattr(step_log, "duration"):
-                    observer.add_message("", ProcessType.TOKEN_COUNT, str(round(float(step_log.duration), 2)))
+                    observer.add_message("", ProcessType.TOKEN_COUNT, self._step_metrics(step_log))
 
                 if hasattr(step_log, "error") and step_log.error is not None:
                     observer.add_message("", ProcessType.ERROR, str(step_log.error))
@@ -207,6 +219,16 @@ class NexentAgent:
                                  content=f"Error in interaction: {str(e)}")
             raise ValueError(f"Error in interaction: {str(e)}")
 
+    def _step_metrics(self, step_log: ActionStep) -> dict:
+        """duration of the step and token usage of its model call, the model keeps the counts of its last call"""
+        model = self.agent.model
+        return {
+            "duration": round(float(step_log.duration), 2),
+            "input_tokens": getattr(model, "last_input_token_count", None),
+            "output_tokens": getattr(model, "last_output_token_count", None),
+            "model": getattr(model, "model_id", None)
+        }
+
     def set_agent(self, agent: CoreAgent):
         if not isinstance(agent, CoreAgent):
             raise TypeError(f"agent must be a CoreAgent object, not {type(agent)}")
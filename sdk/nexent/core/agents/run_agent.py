@@ -21,7 +21,8 @@ def agent_run_thread(agent_run_info: AgentRunInfo, memory_context: MemoryContext
             nexent = NexentAgent(
                 observer=agent_run_info.observer,
                 model_config_list=agent_run_info.model_config_list,
-                stop_event=agent_run_info.stop_event
+                stop_event=agent_run_info.stop_event,
+                approval_gate=agent_run_info.approval_gate
             )
             agent = nexent.create_single_agent(agent_run_info.agent_config)
             nexent.set_agent(agent)
@@ -29,14 +30,15 @@ def agent_run_thread(agent_run_info: AgentRunInfo, memory_context: MemoryContext
             nexent.agent_run_with_observer(query=agent_run_info.query, reset=False)
         else:
             agent_run_info.observer.add_message("", ProcessType.AGENT_NEW_RUN, "<MCP_START>")
-            mcp_client_list = [{"url": mcp_url} for mcp_url in mcp_host]
+            mcp_client_list = [{"url": mcp_url} if isinstance(mcp_url, str) else mcp_url for mcp_url in mcp_host]
 
             with ToolCollection.from_mcp(mcp_client_list, trust_remote_code=True) as tool_collection:
                 nexent = NexentAgent(
                     observer=agent_run_info.observer,
                     model_config_list=agent_run_info.model_config_list,
                     stop_event=agent_run_info.stop_event,
-                    mcp_tool_collection=tool_collection
+                    mcp_tool_collection=tool_collection,
+                    approval_gate=agent_run_info.approval_gate
                 )
                 agent = nexent.create_single_agent(agent_run_info.agent_config)
                 nexent.set_agent(agent)
@@ -57,7 +57,7 @@ class OpenAIModel(OpenAIServerModel):
 
             if chunk_list[-1].usage is not None:
                 self.last_input_token_count = chunk_list[-1].usage.prompt_tokens
-                self.last_output_token_count = chunk_list[-1].usage.total_tokens
+                self.last_output_token_count = chunk_list[-1].usage.completion_tokens
             else:
                 self.last_input_token_count = 0
                 self.last_output_token_count = 0
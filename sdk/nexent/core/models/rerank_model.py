@@ -0,0 +1,52 @@
+import logging
+from typing import List, Dict, Any, Optional
+
+import requests
+
+logger = logging.getLogger("rerank_model")
+
+
+class OpenAICompatibleRerank:
+    def __init__(self, model_name: str, base_url: str, api_key: str):
+        """
+        Initialize the rerank model.
+
+        Args:
+            model_name: Name of the rerank model
+            base_url: URL of the rerank API, e.g. https://api.jina.ai/v1/rerank
+            api_key: API key for the rerank API
+        """
+        self.api_key = api_key
+        self.api_url = base_url
+        self.model = model_name
+
+        self.headers = {"Content-Type": "application/json", "Authorization": f"Bearer {self.api_key}"}
+
+    def rerank(self, query: str, documents: List[str], top_n: Optional[int] = None,
+               timeout: Optional[float] = None) -> List[Dict[str, Any]]:
+        """
+        Score the relevance of documents to a query.
+
+        Args:
+            query: The query the documents are scored against
+            documents: Texts of the documents
+            top_n: Number of documents to return, all of them when None
+            timeout: Request timeout in seconds
+
+        Returns:
+            List of {"index", "relevance_score"} sorted by relevance, index is the position of the document in the input
+        """
+        if not documents:
+            return []
+
+        data = {"model": self.model, "query": query, "documents": documents}
+        if top_n is not None:
+            data["top_n"] = top_n
+
+        response = requests.post(self.api_url, headers=self.headers, json=data, timeout=timeout)
+        response.raise_for_status()
+
+        results = [{"index": item["index"], "relevance_score": item["relevance_score"]}
+                   for item in response.json().get("results", [])]
+        results.sort(key=lambda item: item["relevance_score"], reverse=True)
+        return results
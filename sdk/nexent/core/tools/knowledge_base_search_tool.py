@@ -1,6 +1,6 @@
 import json
 import logging
-from typing import List
+from typing import Dict, List
 
 import requests
 from smolagents.tools import Tool
@@ -9,6 +9,7 @@ from ..utils.observer import MessageObserver, ProcessType
 from ..utils.tools_common_message import SearchResultTextMessage, ToolSign
 from pydantic import Field
 from ...vector_database.elasticsearch_core import ElasticSearchCore
+from ...vector_database.utils import build_document_filters
 from ..models.embedding_model import BaseEmbedding
 
 # Get logger instance
@@ -26,7 +27,8 @@ class KnowledgeBaseSearchTool(Tool):
     inputs = {"query": {"type": "string", "description": "The search query to perform."},
               "search_mode": {"type": "string", "description": "the search mode, optional values: hybrid, combining accurate matching and semantic search results across multiple indices.; accurate, Search for documents using fuzzy text matching across multiple indices; semantic, Search for similar documents using vector similarity across multiple indices.",
                               "default": "hybrid", "nullable": True},
-              "index_names": {"type": "array", "description": "The list of knowledge base index names to search. If not provided, will search all available knowledge bases.", "nullable": True}}
+              "index_names": {"type": "array", "description": "The list of knowledge base index names to search. If not provided, will search all available knowledge bases.", "nullable": True},
+              "metadata_filters": {"type": "object", "description": "Only search the documents whose metadata fields have these values, e.g. {\"department\": \"finance\"}. Use the metadata fields listed for the knowledge bases, a tags field matches one of its tags.", "nullable": True}}
     output_type = "string"
 
     tool_sign = ToolSign.KNOWLEDGE_BASE.value  # Used to distinguish different index sources for summaries
@@ -35,13 +37,16 @@ class KnowledgeBaseSearchTool(Tool):
                        index_names: List[str] = Field(description="The list of index names to search", default=None, exclude=True) ,
                        observer: MessageObserver = Field(description="Message observer", default=None, exclude=True),
                        embedding_model: BaseEmbedding = Field(description="The embedding model to use", default=None, exclude=True),
-                       es_core: ElasticSearchCore = Field(description="Elasticsearch client", default=None, exclude=True)
+                       es_core: ElasticSearchCore = Field(description="Elasticsearch client", default=None, exclude=True),
+                       audience: Dict[str, List[str]] = Field(description="users and roles of the user the agent runs for, only the documents visible to them are found", default=None, exclude=True)
                        ):
         """Initialize the KBSearchTool.
         
         Args:
             top_k (int, optional): Number of results to return. Defaults to 5.
             observer (MessageObserver, optional): Message observer instance. Defaults to None.
+            audience (Dict[str, List[str]], optional): users and roles restricted documents are checked against.
+                Visibility is not checked when None.
         
         Raises:
             ValueError: If language is not supported
@@ -52,12 +57,14 @@ class KnowledgeBaseSearchTool(Tool):
         self.es_core = es_core
         self.index_names = [] if index_names is None else index_names
         self.embedding_model = embedding_model
+        self.audience = audience
 
         self.record_ops = 1  # To record serial number
         self.running_prompt_zh = "知识库检索中..."
         self.running_prompt_en = "Searching the knowledge base..."
 
-    def forward(self, query: str, search_mode: str= "hybrid", index_names: List[str] = None) -> str:
+    def forward(self, query: str, search_mode: str= "hybrid", index_names: List[str] = None,
+                metadata_filters: Dict[str, str] = None) -> str:
         # Send tool run message
         running_prompt = self.running_prompt_zh if self.observer.lang == "zh" else self.running_prompt_en
         self.observer.add_message("", ProcessType.TOOL, running_prompt)
@@ -68,17 +75,19 @@ class KnowledgeBaseSearchTool(Tool):
         search_index_names = index_names if index_names is not None else self.index_names
         
         # Log the index_names being used for this search
-        logger.info(f"KnowledgeBaseSearchTool called with query: '{query}', search_mode: '{search_mode}', index_names: {search_index_names}")
+        logger.info(f"KnowledgeBaseSearchTool called with query: '{query}', search_mode: '{search_mode}', index_names: {search_index_names}, metadata_filters: {metadata_filters}")
         
         if len(search_index_names) == 0:
             return json.dumps("No knowledge base selected. No relevant information found.", ensure_ascii=False)
 
+        # Restricted documents the user may not see are never searched, whatever the filters the model chose
+        filters = build_document_filters(metadata_filters, self.audience)
         if search_mode=="hybrid":
-            kb_search_data = self.es_search_hybrid(query=query, index_names=search_index_names)
+            kb_search_data = self.es_search_hybrid(query=query, index_names=search_index_names, filters=filters)
         elif search_mode=="accurate":
-            kb_search_data = self.es_search_accurate(query=query, index_names=search_index_names)
+            kb_search_data = self.es_search_accurate(query=query, index_names=search_index_names, filters=filters)
         elif search_mode=="semantic":
-            kb_search_data = self.es_search_semantic(query=query, index_names=search_index_names)
+            kb_search_data = self.es_search_semantic(query=query, index_names=search_index_names, filters=filters)
         else:
             raise Exception(f"Invalid search mode: {search_mode}, only support: hybrid, accurate, semantic")
 
@@ -115,12 +124,13 @@ class KnowledgeBaseSearchTool(Tool):
         return json.dumps(search_results_return, ensure_ascii=False)
 
 
-    def es_search_hybrid(self, query, index_names):
+    def es_search_hybrid(self, query, index_names, filters=None):
         try:
             results = self.es_core.hybrid_search(index_names=index_names,
                                                    query_text=query,
                                                    embedding_model=self.embedding_model,
-                                                   top_k=self.top_k)
+                                                   top_k=self.top_k,
+                                                   filters=filters)
 
             # Format results
             formatted_results = []
@@ -137,11 +147,12 @@ class KnowledgeBaseSearchTool(Tool):
         except Exception as e:
             raise Exception(f"Error during semantic search: {str(e)}")
 
-    def es_search_accurate(self, query, index_names):
+    def es_search_accurate(self, query, index_names, filters=None):
         try:
             results = self.es_core.accurate_search(index_names=index_names,
                                                    query_text=query,
-                                                   top_k=self.top_k)
+                                                   top_k=self.top_k,
+                                                   filters=filters)
 
             # Format results
             formatted_results = []
@@ -158,12 +169,13 @@ class KnowledgeBaseSearchTool(Tool):
         except Exception as e:
             raise Exception(detail=f"Error during accurate search: {str(e)}")
 
-    def es_search_semantic(self, query, index_names):
+    def es_search_semantic(self, query, index_names, filters=None):
         try:
             results = self.es_core.semantic_search(index_names=index_names,
                                                    query_text=query,
                                                    embedding_model=self.embedding_model,
-                                                   top_k=self.top_k)
+                                                   top_k=self.top_k,
+                                                   filters=filters)
 
             # Format results
             formatted_results = []
@@ -26,6 +26,9 @@ class ProcessType(Enum):
     CARD = "card"  # content that needs to be rendered by the front end using cards
     TOOL = "tool"  # tool name
 
+    APPROVAL_REQUEST = "approval_request"  # tool call waiting for the user's approval
+    APPROVAL_RESULT = "approval_result"  # decision of the user on a tool call
+
 
 # message transformer base class
 class MessageTransformer:
@@ -91,15 +94,18 @@ class FinalAnswerTransformer(MessageTransformer):
 
 
 class TokenCountTransformer(MessageTransformer):
-    TEMPLATES = {"zh": "步骤耗时：{0}", "en": "Duration:{0}"}
-
     def transform(self, **kwargs: Any) -> str:
-        """convert the message of token count"""
+        """
+        convert the metrics of a step to a JSON object with duration (seconds), input_tokens, output_tokens and model,
+        a bare number is taken as the duration
+        """
         content = kwargs.get("content", "")
-        lang = kwargs.get("lang", "en")
-
-        template = self.TEMPLATES.get(lang, self.TEMPLATES["en"])
-        return f"""<span style="color: #bbbbc2; font-size: 12px;">{template.format(content)}</span> """
+        if isinstance(content, dict):
+            return json.dumps(content, ensure_ascii=False)
+        try:
+            return json.dumps({"duration": float(content)})
+        except (TypeError, ValueError):
+            return str(content)
 
 
 class ErrorTransformer(MessageTransformer):
@@ -161,7 +167,9 @@ class MessageObserver:
             ProcessType.PICTURE_WEB: default_transformer,
             ProcessType.AGENT_FINISH: default_transformer,
             ProcessType.CARD: default_transformer,
-            ProcessType.TOOL: default_transformer
+            ProcessType.TOOL: default_transformer,
+            ProcessType.APPROVAL_REQUEST: default_transformer,
+            ProcessType.APPROVAL_RESULT: default_transformer
         }
 
     def add_model_new_token(self, new_token):
@@ -1,5 +1,6 @@
 from .base import FileProcessor
 import io
+from html.parser import HTMLParser
 from typing import List, Dict, Optional
 import os
 
@@ -17,7 +18,15 @@ class UnstructuredProcessor(FileProcessor):
             "new_after_n_chars": 1200,
             "strategy": "fast",
             "skip_infer_table_types": [],
-            "task_id": ""
+            "task_id": "",
+            # Characters repeated from the end of the previous chunk
+            "overlap": 0,
+            # Whether a chunk may span a page break, by_title only
+            "multipage_sections": True,
+            # Document languages for OCR and parsing, detected when None
+            "languages": None,
+            # How tables are kept: "text", "markdown" or "skip"
+            "table_mode": "text"
         }
     
     def process_file(self, file_data: bytes, chunking_strategy: str, 
@@ -72,11 +81,13 @@ class UnstructuredProcessor(FileProcessor):
         
         # Prepare partition parameters
         partition_kwargs = self._prepare_partition_kwargs(
-            file_data, chunking_strategy, processed_params
+            file_data, processed_params
         )
         
-        # Execute file partitioning
+        # Execute file partitioning, tables are converted before they are chunked
         elements = partition(**partition_kwargs)
+        elements = self._convert_tables(elements, processed_params["table_mode"])
+        elements = self._chunk_elements(elements, chunking_strategy, processed_params)
         
         # Process results
         return self._process_elements(
@@ -99,14 +110,12 @@ class UnstructuredProcessor(FileProcessor):
     
     def _prepare_partition_kwargs(self,
                                  file_data: bytes,
-                                 chunking_strategy: str,
                                  params: Dict) -> Dict:
         """
         Prepare parameters required for unstructured.partition.
         
         Args:
             file_data: File byte data
-            chunking_strategy: Chunking strategy
             params: Processing parameters
             
         Returns:
@@ -114,18 +123,67 @@ class UnstructuredProcessor(FileProcessor):
         """
         # Base parameters
         partition_kwargs = {
-            "max_characters": params["max_characters"],
-            "new_after_n_chars": params["new_after_n_chars"],
             "strategy": params["strategy"],
-            "skip_infer_table_types": params["skip_infer_table_types"],
-            "chunking_strategy": chunking_strategy if chunking_strategy != "none" else None
+            "skip_infer_table_types": params["skip_infer_table_types"]
         }
+        if params["languages"]:
+            partition_kwargs["languages"] = params["languages"]
+        # The table structure is only needed to write tables as markdown
+        if params["table_mode"] == "markdown":
+            partition_kwargs["infer_table_structure"] = True
         
         # Set file input source
         partition_kwargs["file"] = io.BytesIO(file_data)
         
         return partition_kwargs
     
+    def _convert_tables(self, elements: List, table_mode: str) -> List:
+        """
+        Drop the tables or write them as markdown, depending on the table mode.
+        
+        Args:
+            elements: List of elements after unstructured partitioning
+            table_mode: "text", "markdown" or "skip"
+            
+        Returns:
+            List of elements
+        """
+        if table_mode == "skip":
+            return [el for el in elements if getattr(el, 'category', None) != "Table"]
+        if table_mode == "markdown":
+            for element in elements:
+                html = getattr(getattr(element, 'metadata', None), 'text_as_html', None)
+                if getattr(element, 'category', None) == "Table" and html:
+                    element.text = _html_table_to_markdown(html) or element.text
+        return elements
+    
+    def _chunk_elements(self, elements: List, chunking_strategy: str, params: Dict) -> List:
+        """
+        Chunk the partitioned elements.
+        
+        Args:
+            elements: List of elements after unstructured partitioning
+            chunking_strategy: Chunking strategy ("basic", "by_title", "none")
+            params: Processing parameters
+            
+        Returns:
+            List of chunks, or the elements themselves for "none"
+        """
+        if chunking_strategy == "none":
+            return elements
+        
+        chunk_kwargs = {
+            "max_characters": params["max_characters"],
+            "new_after_n_chars": params["new_after_n_chars"],
+            "overlap": params["overlap"]
+        }
+        if chunking_strategy == "by_title":
+            from unstructured.chunking.title import chunk_by_title
+            return chunk_by_title(elements, multipage_sections=params["multipage_sections"], **chunk_kwargs)
+        
+        from unstructured.chunking.basic import chunk_elements
+        return chunk_elements(elements, **chunk_kwargs)
+    
     def _process_elements(self, elements: List, chunking_strategy: str,
                          filename: Optional[str]) -> List[Dict]:
         """
@@ -265,4 +323,52 @@ class UnstructuredProcessor(FileProcessor):
             "is_supported": self.validate_file_format(filename),
             "created_time": stat.st_ctime,
             "modified_time": stat.st_mtime
-        }
\ No newline at end of file
+        }
+
+
+class _TableParser(HTMLParser):
+    """Collect the cell texts of each row of an HTML table"""
+
+    def __init__(self):
+        super().__init__()
+        self.rows = []
+        self._cell = None
+
+    def handle_starttag(self, tag, attrs):
+        if tag == "tr":
+            self.rows.append([])
+        elif tag in ("td", "th"):
+            self._cell = []
+
+    def handle_endtag(self, tag):
+        if tag in ("td", "th") and self._cell is not None:
+            if not self.rows:
+                self.rows.append([])
+            self.rows[-1].append(" ".join("".join(self._cell).split()).replace("|", "\\|"))
+            self._cell = None
+
+    def handle_data(self, data):
+        if self._cell is not None:
+            self._cell.append(data)
+
+
+def _html_table_to_markdown(html: str) -> str:
+    """
+    Write an HTML table as a markdown table, the first row being the header.
+    
+    Args:
+        html: HTML of the table
+        
+    Returns:
+        Markdown table, empty when the table has no cells
+    """
+    parser = _TableParser()
+    parser.feed(html)
+    rows = [row for row in parser.rows if row]
+    if not rows:
+        return ""
+    width = max(len(row) for row in rows)
+    rows = [row + [""] * (width - len(row)) for row in rows]
+    lines = ["| " + " | ".join(rows[0]) + " |", "|" + " --- |" * width]
+    lines.extend("| " + " | ".join(row) + " |" for row in rows[1:])
+    return "\n".join(lines)
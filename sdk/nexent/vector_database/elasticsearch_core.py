@@ -13,6 +13,18 @@ from ..core.nlp.tokenizer import calculate_term_weights
 
 logger = logging.getLogger("elasticsearch_core")
 
+# Metadata and visibility of the document a chunk belongs to, the searches can be filtered by them
+DOCUMENT_ATTRIBUTE_MAPPING = {
+    "doc_metadata": {"type": "flattened"},
+    "visibility": {
+        "properties": {
+            "restricted": {"type": "boolean"},
+            "users": {"type": "keyword"},
+            "roles": {"type": "keyword"},
+        }
+    },
+}
+
 @dataclass
 class BulkOperation:
     """Bulk operation status tracking"""
@@ -137,6 +149,11 @@ class ElasticSearchCore:
                     "embedding_model_name": {"type": "keyword"},
                     "file_size": {"type": "long"},
                     "create_time": {"type": "date"},
+                    "position": {"type": "integer"},
+                    "page": {"type": "integer"},
+                    "edited": {"type": "boolean"},
+                    "chunk_metadata": {"type": "object", "enabled": False},
+                    **DOCUMENT_ATTRIBUTE_MAPPING,
                     "embedding": {
                         "type": "dense_vector",
                         "dims": actual_embedding_dim,
@@ -559,10 +576,134 @@ class ElasticSearchCore:
         except Exception as e:
             logger.error(f"Error deleting documents: {str(e)}")
             return 0
-    
+
+    # ---- CHUNK OPERATIONS ----
+
+    def get_document_chunks(self, index_name: str, path_or_url: str, max_chunks: int = 10000) -> List[Dict[str, Any]]:
+        """
+        Get the chunks of a document in the order they appear in it
+
+        Args:
+            index_name: Name of the index
+            path_or_url: The URL or path of the document
+            max_chunks: Maximum number of chunks to return
+
+        Returns:
+            List of chunk sources without embedding, with the Elasticsearch document id in chunk_id.
+            Chunks indexed without a position come last, in creation order
+        """
+        response = self.client.search(
+            index=index_name,
+            body={
+                "query": {"term": {"path_or_url": path_or_url}},
+                "size": max_chunks,
+                "sort": [
+                    {"position": {"order": "asc", "missing": "_last", "unmapped_type": "integer"}},
+                    {"create_time": {"order": "asc", "unmapped_type": "date"}}
+                ],
+                "_source": {"excludes": ["embedding"]}
+            }
+        )
+        return [{**hit["_source"], "chunk_id": hit["_id"]} for hit in response["hits"]["hits"]]
+
+    def get_chunk(self, index_name: str, chunk_id: str) -> Optional[Dict[str, Any]]:
+        """
+        Get a chunk by its Elasticsearch document id, None if it doesn't exist
+        """
+        try:
+            response = self.client.get(index=index_name, id=chunk_id, source_excludes=["embedding"])
+        except exceptions.NotFoundError:
+            return None
+        return {**response["_source"], "chunk_id": response["_id"]}
+
+    def save_chunk(self, index_name: str, chunk: Dict[str, Any], embedding_model: BaseEmbedding,
+                   chunk_id: Optional[str] = None) -> str:
+        """
+        Embed the content of a chunk and store it, replacing the chunk with chunk_id when given
+
+        Args:
+            index_name: Name of the index
+            chunk: Chunk source without embedding
+            embedding_model: Model used to generate the embedding of the content
+            chunk_id: Elasticsearch document id of the chunk to replace, a new chunk is added when None
+
+        Returns:
+            str: Elasticsearch document id of the chunk
+        """
+        document = self._preprocess_documents([chunk], "content")[0]
+        document["embedding"] = embedding_model.get_embeddings([document["content"]])[0]
+        if not document.get("embedding_model_name"):
+            document["embedding_model_name"] = getattr(embedding_model, 'embedding_model_name', 'unknown')
+        response = self.client.index(index=index_name, id=chunk_id, document=document, refresh='wait_for')
+        return response["_id"]
+
+    def update_chunk_positions(self, index_name: str, positions: Dict[str, int]) -> None:
+        """
+        Set the position of chunks without embedding them again
+
+        Args:
+            index_name: Name of the index
+            positions: New position of each chunk, keyed by Elasticsearch document id
+        """
+        if not positions:
+            return
+        operations = []
+        for chunk_id, position in positions.items():
+            operations.append({"update": {"_index": index_name, "_id": chunk_id}})
+            operations.append({"doc": {"position": position}})
+        response = self.client.bulk(index=index_name, operations=operations, refresh='wait_for')
+        if response.get('errors'):
+            errors = [item['update']['error'] for item in response['items'] if 'error' in item.get('update', {})]
+            raise ValueError(f"Failed to update chunk positions: {errors}")
+
+    def delete_chunks(self, index_name: str, chunk_ids: List[str]) -> int:
+        """
+        Delete chunks by their Elasticsearch document ids
+
+        Returns:
+            int: Number of chunks deleted
+        """
+        if not chunk_ids:
+            return 0
+        result = self.client.delete_by_query(
+            index=index_name,
+            body={"query": {"ids": {"values": chunk_ids}}},
+            refresh=True
+        )
+        return result['deleted']
+
+    def ensure_document_attribute_mapping(self, index_name: str) -> None:
+        """
+        Map the document metadata and visibility fields of an index created before they existed
+        """
+        self.client.indices.put_mapping(index=index_name, properties=DOCUMENT_ATTRIBUTE_MAPPING)
+
+    def update_document_attributes(self, index_name: str, path_or_url: str, metadata: Dict[str, Any],
+                                   visibility: Dict[str, Any]) -> int:
+        """
+        Set the metadata and visibility on all chunks of a document without embedding them again
+
+        Returns:
+            int: Number of chunks updated
+        """
+        self.ensure_document_attribute_mapping(index_name)
+        result = self.client.update_by_query(
+            index=index_name,
+            body={
+                "query": {"term": {"path_or_url": path_or_url}},
+                "script": {
+                    "source": "ctx._source.doc_metadata = params.metadata; ctx._source.visibility = params.visibility",
+                    "params": {"metadata": metadata, "visibility": visibility}
+                }
+            },
+            refresh=True
+        )
+        return result['updated']
+
     # ---- SEARCH OPERATIONS ----
     
-    def accurate_search(self, index_names: List[str], query_text: str, top_k: int = 5) -> List[Dict[str, Any]]:
+    def accurate_search(self, index_names: List[str], query_text: str, top_k: int = 5,
+                        filters: Optional[List[Dict[str, Any]]] = None) -> List[Dict[str, Any]]:
         """
         Search for documents using fuzzy text matching across multiple indices.
 
@@ -570,6 +711,7 @@ class ElasticSearchCore:
             index_names: Name of the index to search in
             query_text: The text query to search for
             top_k: Number of results to return
+            filters: Filter clauses the chunks must match, see build_document_filters
             
         Returns:
             List of search results with scores and document content
@@ -580,7 +722,10 @@ class ElasticSearchCore:
         weights = calculate_term_weights(query_text)
 
         # Prepare the search query using match query for fuzzy matching
-        search_query = build_weighted_query(query_text, weights) | {
+        search_query = build_weighted_query(query_text, weights)
+        if filters:
+            search_query["query"] = {"bool": {"must": search_query["query"], "filter": filters}}
+        search_query |= {
             "size": top_k,
             "_source": {
                 "excludes": ["embedding"]
@@ -605,7 +750,8 @@ class ElasticSearchCore:
             })
         return results
 
-    def semantic_search(self, index_names: List[str], query_text: str, embedding_model: BaseEmbedding, top_k: int = 5) -> List[Dict[str, Any]]:
+    def semantic_search(self, index_names: List[str], query_text: str, embedding_model: BaseEmbedding, top_k: int = 5,
+                        filters: Optional[List[Dict[str, Any]]] = None) -> List[Dict[str, Any]]:
         """
         Search for similar documents using vector similarity across multiple indices.
         
@@ -614,6 +760,7 @@ class ElasticSearchCore:
             query_text: The text query to search for
             embedding_model: The embedding model to use
             top_k: Number of results to return
+            filters: Filter clauses the chunks must match, see build_document_filters
             
         Returns:
             List of search results with scores and document content
@@ -631,6 +778,8 @@ class ElasticSearchCore:
                 "query_vector": query_embedding,
                 "k": top_k,
                 "num_candidates": top_k * 2,
+                # Applied while the neighbours are searched, so top_k chunks are found when enough match
+                **({"filter": filters} if filters else {}),
             },
             "size": top_k,
             "_source": {
@@ -647,7 +796,8 @@ class ElasticSearchCore:
         query_text: str,
         embedding_model: BaseEmbedding,
         top_k: int = 5,
-        weight_accurate: float = 0.3
+        weight_accurate: float = 0.3,
+        filters: Optional[List[Dict[str, Any]]] = None
     ) -> List[Dict[str, Any]]:
         """
         Hybrid search method, combining accurate matching and semantic search results across multiple indices.
@@ -658,13 +808,15 @@ class ElasticSearchCore:
             embedding_model: The embedding model to use
             top_k: Number of results to return
             weight_accurate: The weight of the accurate matching score (0-1), the semantic search weight is 1-weight_accurate
+            filters: Filter clauses the chunks must match, see build_document_filters
 
         Returns:
             List of search results sorted by combined score
         """
         # Get results from both searches
-        accurate_results = self.accurate_search(index_names, query_text, top_k=top_k)
-        semantic_results = self.semantic_search(index_names, query_text, embedding_model=embedding_model, top_k=top_k)
+        accurate_results = self.accurate_search(index_names, query_text, top_k=top_k, filters=filters)
+        semantic_results = self.semantic_search(index_names, query_text, embedding_model=embedding_model, top_k=top_k,
+                                                filters=filters)
 
         # Create a mapping from document ID to results
         combined_results = {}
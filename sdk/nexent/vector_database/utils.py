@@ -84,4 +84,47 @@ def build_weighted_query(text, term_weights, field_weights=None, boost_factor=2.
         }
     }
 
-    return query_body
\ No newline at end of file
+    return query_body
+
+def build_document_filters(metadata_filters=None, audience=None):
+    """
+    Build the Elasticsearch filter clauses limiting a search to some documents
+
+    Parameters:
+        metadata_filters (dict): Value each metadata field of the documents must have {key: value}, a tags field
+            matches when one of its tags is the value
+        audience (dict): users (ids and emails) and roles of the user searching, a restricted document is only
+            found by the users and roles it is visible to. Visibility is not checked when None
+
+    Returns:
+        list: Filter clauses, empty when the search is not limited
+    """
+    filters = [{"term": {f"doc_metadata.{key}": value}}
+               for key, value in (metadata_filters or {}).items() if value not in (None, "")]
+    if audience is not None:
+        visible = [{"bool": {"must_not": {"term": {"visibility.restricted": True}}}}]
+        if audience.get("users"):
+            visible.append({"terms": {"visibility.users": audience["users"]}})
+        if audience.get("roles"):
+            visible.append({"terms": {"visibility.roles": audience["roles"]}})
+        filters.append({"bool": {"should": visible, "minimum_should_match": 1}})
+    return filters
+
+
+def is_document_visible(visibility=None, audience=None):
+    """
+    Whether a document is visible to a user, the check of the filter built by build_document_filters for a
+    document already fetched
+
+    Parameters:
+        visibility (dict): visibility of the document {restricted, users, roles}, None for a document visible to
+            everyone
+        audience (dict): users (ids and emails) and roles of the user. Visibility is not checked when None
+
+    Returns:
+        bool: True when the user may read the document
+    """
+    if audience is None or not (visibility or {}).get("restricted"):
+        return True
+    return bool(set(visibility.get("users") or []) & set(audience.get("users") or [])
+                or set(visibility.get("roles") or []) & set(audience.get("roles") or []))
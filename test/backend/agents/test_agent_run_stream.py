@@ -0,0 +1,71 @@
+import asyncio
+import json
+
+import pytest
+from backend.agents.agent_run_stream import AgentRunStream
+
+
+async def collect(run_stream, after_seq=0):
+    return [json.loads(event) async for event in run_stream.subscribe(after_seq)]
+
+
+class TestAgentRunStream:
+    @pytest.mark.asyncio
+    async def test_publish_numbers_events(self):
+        """Test that events get consecutive sequence ids starting at 1"""
+        run_stream = AgentRunStream(user_id="user")
+
+        assert await run_stream.publish({"type": "final_answer", "content": "a"}) == 1
+        assert await run_stream.publish({"type": "final_answer", "content": "b"}) == 2
+        assert run_stream.last_seq == 2
+        assert json.loads(run_stream.events[1]) == {"type": "final_answer", "content": "b", "seq": 2}
+
+    @pytest.mark.asyncio
+    async def test_publish_keeps_non_ascii_content(self):
+        """Test that content is stored as is rather than escaped"""
+        run_stream = AgentRunStream()
+        await run_stream.publish({"type": "final_answer", "content": "你好"})
+        assert "你好" in run_stream.events[0]
+
+    @pytest.mark.asyncio
+    async def test_subscribe_replays_after_seq(self):
+        """Test that a subscriber only receives the events after the given sequence id"""
+        run_stream = AgentRunStream()
+        for content in ["a", "b", "c"]:
+            await run_stream.publish({"type": "final_answer", "content": content})
+        await run_stream.close()
+
+        assert [event["content"] for event in await collect(run_stream)] == ["a", "b", "c"]
+        assert [event["content"] for event in await collect(run_stream, after_seq=2)] == ["c"]
+        assert await collect(run_stream, after_seq=3) == []
+
+    @pytest.mark.asyncio
+    async def test_subscribe_waits_for_new_events(self):
+        """Test that a live subscriber receives events published after it subscribed and stops on close"""
+        run_stream = AgentRunStream()
+        await run_stream.publish({"type": "final_answer", "content": "a"})
+        subscriber = asyncio.create_task(collect(run_stream))
+
+        await asyncio.sleep(0)
+        await run_stream.publish({"type": "final_answer", "content": "b"})
+        await run_stream.publish({"type": "stream_end", "content": ""})
+        await run_stream.close()
+
+        events = await asyncio.wait_for(subscriber, timeout=1)
+        assert [event["seq"] for event in events] == [1, 2, 3]
+        assert events[-1]["type"] == "stream_end"
+
+    @pytest.mark.asyncio
+    async def test_concurrent_subscribers(self):
+        """Test that a reconnecting client and the original connection both receive every event"""
+        run_stream = AgentRunStream()
+        first = asyncio.create_task(collect(run_stream))
+        await run_stream.publish({"type": "final_answer", "content": "a"})
+        second = asyncio.create_task(collect(run_stream, after_seq=1))
+        await asyncio.sleep(0)
+        await run_stream.publish({"type": "final_answer", "content": "b"})
+        await run_stream.close()
+
+        first_events, second_events = await asyncio.wait_for(asyncio.gather(first, second), timeout=1)
+        assert [event["content"] for event in first_events] == ["a", "b"]
+        assert [event["content"] for event in second_events] == ["b"]
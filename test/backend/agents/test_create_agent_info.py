@@ -7,6 +7,7 @@ from typing import List, Tuple, Any
 # Mock external dependencies before imports
 sys.modules['nexent.core.utils.observer'] = MagicMock()
 sys.modules['nexent.core.agents.agent_model'] = MagicMock()
+sys.modules['nexent.core.agents.approval_gate'] = MagicMock()
 sys.modules['smolagents.agents'] = MagicMock()
 sys.modules['smolagents.utils'] = MagicMock()
 sys.modules['services.remote_mcp_service'] = MagicMock()
@@ -14,6 +15,7 @@ sys.modules['utils.auth_utils'] = MagicMock()
 sys.modules['database.agent_db'] = MagicMock()
 sys.modules['services.elasticsearch_service'] = MagicMock()
 sys.modules['services.tenant_config_service'] = MagicMock()
+sys.modules['services.document_attribute_service'] = MagicMock()
 sys.modules['utils.prompt_template_utils'] = MagicMock()
 sys.modules['utils.config_utils'] = MagicMock()
 sys.modules['utils.langchain_utils'] = MagicMock()
@@ -41,12 +43,14 @@ sys.modules['smolagents.utils'].BASE_BUILTIN_MODULES = ["os", "sys", "json"]
 from backend.agents.create_agent_info import (
     discover_langchain_tools,
     create_tool_config_list,
+    tool_requires_approval,
     create_agent_config,
     create_model_config_list,
     filter_mcp_servers_and_tools,
     create_agent_run_info,
     join_minio_file_description_to_query,
-    prepare_prompt_templates
+    prepare_prompt_templates,
+    TOOL_APPROVAL_TIMEOUT
 )
 
 
@@ -189,6 +193,31 @@ class TestCreateToolConfigList:
                 usage=None
             )
 
+    @pytest.mark.asyncio
+    async def test_create_tool_config_list_from_version_snapshot(self):
+        """测试使用版本快照中的工具，不查询当前配置"""
+        with patch('backend.agents.create_agent_info.discover_langchain_tools') as mock_discover, \
+             patch('backend.agents.create_agent_info.search_tools_for_sub_agent') as mock_search_tools:
+
+            mock_discover.return_value = []
+            snapshot_tools = [
+                {
+                    "class_name": "TestTool",
+                    "name": "test_tool",
+                    "description": "A test tool",
+                    "inputs": "string",
+                    "output_type": "string",
+                    "params": [{"name": "param1", "default": "saved"}],
+                    "source": "local",
+                    "usage": None
+                }
+            ]
+
+            result = await create_tool_config_list("agent_1", "tenant_1", "user_1", snapshot_tools)
+
+            assert len(result) == 1
+            mock_search_tools.assert_not_called()
+
     @pytest.mark.asyncio
     async def test_create_tool_config_list_with_knowledge_base_tool(self):
         """测试包含知识库搜索工具的情况"""
@@ -196,7 +225,8 @@ class TestCreateToolConfigList:
              patch('backend.agents.create_agent_info.search_tools_for_sub_agent') as mock_search_tools, \
              patch('backend.agents.create_agent_info.get_selected_knowledge_list') as mock_knowledge, \
              patch('backend.agents.create_agent_info.elastic_core') as mock_elastic, \
-             patch('backend.agents.create_agent_info.get_embedding_model') as mock_embedding:
+             patch('backend.agents.create_agent_info.get_embedding_model') as mock_embedding, \
+             patch('backend.agents.create_agent_info.get_document_audience') as mock_audience:
             
             mock_discover.return_value = []
             mock_search_tools.return_value = [
@@ -217,14 +247,55 @@ class TestCreateToolConfigList:
             ]
             mock_elastic.return_value = "mock_elastic_core"
             mock_embedding.return_value = "mock_embedding_model"
+            mock_audience.return_value = {"users": ["user_1", "user@example.com"], "roles": ["user"]}
             
-            result = await create_tool_config_list("agent_1", "tenant_1", "user_1")
+            result = await create_tool_config_list("agent_1", "tenant_1", "user_1", authorization="Bearer token")
             
             assert len(result) == 1
             # 验证ToolConfig被正确调用，包含知识库元数据
             # 检查最后一次调用是否是KnowledgeBaseSearchTool
             last_call = mock_tool_config.call_args_list[-1]
             assert last_call[1]['class_name'] == "KnowledgeBaseSearchTool"
+            # 只能检索到对当前用户可见的文档
+            mock_audience.assert_called_once_with("Bearer token", "user_1")
+            assert result[0].metadata["audience"] == mock_audience.return_value
+
+    @pytest.mark.asyncio
+    async def test_create_tool_config_list_with_approval_policy(self):
+        """测试按审批策略标记需要用户审批的工具"""
+        with patch('backend.agents.create_agent_info.discover_langchain_tools') as mock_discover, \
+             patch('backend.agents.create_agent_info.ToolConfig', side_effect=lambda **kwargs: Mock()):
+            mock_discover.return_value = []
+            tools = [
+                {"tool_id": 1, "class_name": "TestTool", "params": [], "source": "local", "usage": None},
+                {"tool_id": 2, "class_name": "McpTool", "params": [], "source": "mcp", "usage": "server"}
+            ]
+
+            result = await create_tool_config_list("agent_1", "tenant_1", "user_1", tools,
+                                                   {"default_mode": "mcp", "tool_modes": {}})
+
+            assert [tool_config.require_approval for tool_config in result] == [False, True]
+
+
+class TestToolRequiresApproval:
+    """测试tool_requires_approval函数"""
+
+    def test_default_modes(self):
+        local_tool = {"tool_id": 1, "source": "local"}
+        mcp_tool = {"tool_id": 2, "source": "mcp"}
+
+        assert tool_requires_approval(local_tool) is False
+        assert tool_requires_approval(mcp_tool, {"default_mode": "never"}) is False
+        assert tool_requires_approval(local_tool, {"default_mode": "mcp"}) is False
+        assert tool_requires_approval(mcp_tool, {"default_mode": "mcp"}) is True
+        assert tool_requires_approval(local_tool, {"default_mode": "always"}) is True
+
+    def test_tool_mode_overrides_default_mode(self):
+        policy = {"default_mode": "always", "tool_modes": {"1": "auto", "2": "ask"}}
+
+        assert tool_requires_approval({"tool_id": 1, "source": "local"}, policy) is False
+        assert tool_requires_approval({"tool_id": 2, "source": "local"}, {**policy, "default_mode": "never"}) is True
+        assert tool_requires_approval({"tool_id": 3, "source": "local"}, policy) is True
 
 
 class TestCreateAgentConfig:
@@ -453,7 +524,7 @@ class TestFilterMcpServersAndTools:
         
         mcp_info_dict = {
             "test_server": {
-                "remote_mcp_server": "http://test.server"
+                "url": "http://test.server"
             }
         }
         
@@ -461,7 +532,7 @@ class TestFilterMcpServersAndTools:
         result = filter_mcp_servers_and_tools(mock_agent_config, mcp_info_dict)
         
         # 验证结果
-        assert result == ["http://test.server"]
+        assert result == [{"url": "http://test.server"}]
 
     def test_filter_mcp_servers_no_mcp_tools(self):
         """测试不包含MCP工具时的过滤逻辑"""
@@ -501,19 +572,19 @@ class TestFilterMcpServersAndTools:
         
         mcp_info_dict = {
             "main_server": {
-                "remote_mcp_server": "http://main.server"
+                "url": "http://main.server"
             },
             "sub_server": {
-                "remote_mcp_server": "http://sub.server"
+                "url": "http://sub.server"
             }
         }
         
         result = filter_mcp_servers_and_tools(mock_agent_config, mcp_info_dict)
         
-        # 应该包含两个服务器的URL
+        # 应该包含两个服务器的连接参数
         assert len(result) == 2
-        assert "http://main.server" in result
-        assert "http://sub.server" in result
+        assert {"url": "http://main.server"} in result
+        assert {"url": "http://sub.server"} in result
 
     def test_filter_mcp_servers_unknown_server(self):
         """测试未知MCP服务器的情况"""
@@ -527,7 +598,7 @@ class TestFilterMcpServersAndTools:
         
         mcp_info_dict = {
             "different_server": {
-                "remote_mcp_server": "http://different.server"
+                "url": "http://different.server"
             }
         }
         
@@ -536,6 +607,18 @@ class TestFilterMcpServersAndTools:
         # 未知服务器不应该被包含
         assert result == []
 
+    def test_filter_mcp_servers_used_twice(self):
+        """测试多个工具使用同一服务器时只连接一次"""
+        mock_tools = [Mock(source="mcp", usage="test_server"), Mock(source="mcp", usage="test_server")]
+
+        mock_agent_config = Mock()
+        mock_agent_config.tools = mock_tools
+        mock_agent_config.managed_agents = []
+
+        result = filter_mcp_servers_and_tools(mock_agent_config, {"test_server": {"url": "http://test.server"}})
+
+        assert result == [{"url": "http://test.server"}]
+
 
 class TestCreateAgentRunInfo:
     """测试create_agent_run_info函数"""
@@ -546,28 +629,22 @@ class TestCreateAgentRunInfo:
         with patch('backend.agents.create_agent_info.get_current_user_id') as mock_get_user, \
              patch('backend.agents.create_agent_info.join_minio_file_description_to_query') as mock_join_query, \
              patch('backend.agents.create_agent_info.create_model_config_list') as mock_create_models, \
-             patch('backend.agents.create_agent_info.get_remote_mcp_server_list', new_callable=AsyncMock) as mock_get_mcp, \
+             patch('backend.agents.create_agent_info.get_mcp_server_parameters', new_callable=AsyncMock) as mock_get_mcp, \
              patch('backend.agents.create_agent_info.create_agent_config') as mock_create_agent, \
-             patch('backend.agents.create_agent_info.config_manager') as mock_config, \
              patch('backend.agents.create_agent_info.filter_mcp_servers_and_tools') as mock_filter, \
-             patch('backend.agents.create_agent_info.urljoin') as mock_urljoin, \
+             patch('backend.agents.create_agent_info.ApprovalGate') as mock_approval_gate, \
              patch('backend.agents.create_agent_info.threading') as mock_threading:
             
             # 设置mock返回值
             mock_get_user.return_value = ("user_1", "tenant_1")
             mock_join_query.return_value = "processed_query"
             mock_create_models.return_value = ["model_config"]
-            mock_get_mcp.return_value = [
-                {
-                    "remote_mcp_server_name": "test_server",
-                    "remote_mcp_server": "http://test.server",
-                    "status": True
-                }
-            ]
+            mock_get_mcp.return_value = {
+                "test_server": {"url": "http://test.server", "headers": {}, "timeout": 30},
+                "nexent": {"url": "http://nexent.mcp/sse"}
+            }
             mock_create_agent.return_value = "agent_config"
-            mock_config.get_config.return_value = "http://nexent.mcp"
-            mock_urljoin.return_value = "http://nexent.mcp/sse"
-            mock_filter.return_value = ["http://test.server"]
+            mock_filter.return_value = [{"url": "http://test.server", "headers": {}, "timeout": 30}]
             mock_threading.Event.return_value = "stop_event"
             
             result = await create_agent_run_info(
@@ -585,10 +662,13 @@ class TestCreateAgentRunInfo:
                 model_config_list=["model_config"],
                 observer=mock_message_observer.return_value,
                 agent_config="agent_config",
-                mcp_host=["http://test.server"],
+                mcp_host=[{"url": "http://test.server", "headers": {}, "timeout": 30}],
                 history=[],
-                stop_event="stop_event"
+                stop_event="stop_event",
+                approval_gate=mock_approval_gate.return_value
             )
+            mock_approval_gate.assert_called_once_with(mock_message_observer.return_value, "stop_event",
+                                                       TOOL_APPROVAL_TIMEOUT)
             
             # 验证其他函数被正确调用
             mock_get_user.assert_called_once_with("Bearer token")
@@ -599,21 +679,12 @@ class TestCreateAgentRunInfo:
                 tenant_id="tenant_1", 
                 user_id="user_1",
                 language="zh",
-                last_user_query="processed_query"
+                last_user_query="processed_query",
+                version_no=None,
+                authorization="Bearer token"
             )
             mock_get_mcp.assert_called_once_with(tenant_id="tenant_1")
-            mock_filter.assert_called_once_with("agent_config", {
-                "test_server": {
-                    "remote_mcp_server_name": "test_server",
-                    "remote_mcp_server": "http://test.server",
-                    "status": True
-                },
-                "nexent": {
-                    "remote_mcp_server_name": "nexent",
-                    "remote_mcp_server": "http://nexent.mcp/sse",
-                    "status": True
-                }
-            })
+            mock_filter.assert_called_once_with("agent_config", mock_get_mcp.return_value)
 
 
 class TestJoinMinioFileDescriptionToQuery:
@@ -3,7 +3,7 @@ import sys
 from unittest.mock import MagicMock
 
 import pytest
-from fastapi import FastAPI
+from fastapi import FastAPI, HTTPException
 from fastapi.responses import StreamingResponse
 from fastapi.testclient import TestClient
 
@@ -80,6 +80,33 @@ async def test_agent_run_api(mocker, mock_auth_header):
     assert "data: chunk2" in content
 
 
+def test_agent_stream_resume_api(mocker, mock_auth_header, mock_conversation_id):
+    """Test agent_stream_resume_api endpoint."""
+    mock_resume = mocker.patch("apps.agent_app.resume_agent_stream")
+
+    async def mock_stream():
+        yield b'data: {"type": "final_answer", "content": "b", "seq": 5}\n\n'
+
+    mock_resume.return_value = StreamingResponse(mock_stream(), media_type="text/event-stream")
+
+    response = client.get(f"/agent/stream/{mock_conversation_id}?after_seq=4", headers=mock_auth_header)
+
+    assert response.status_code == 200
+    mock_resume.assert_called_once_with(mock_conversation_id, 4, "Bearer test_token")
+    assert '"seq": 5' in response.content.decode()
+
+
+def test_agent_stream_resume_api_not_found(mocker, mock_auth_header, mock_conversation_id):
+    """Test agent_stream_resume_api when the run already finished."""
+    mock_resume = mocker.patch("apps.agent_app.resume_agent_stream")
+    mock_resume.side_effect = HTTPException(status_code=404, detail="no running agent found")
+
+    response = client.get(f"/agent/stream/{mock_conversation_id}", headers=mock_auth_header)
+
+    assert response.status_code == 404
+    mock_resume.assert_called_once_with(mock_conversation_id, 0, "Bearer test_token")
+
+
 def test_agent_stop_api_success(mocker, mock_conversation_id):
     """Test agent_stop_api success case."""
     mock_stop_tasks = mocker.patch("apps.agent_app.stop_agent_tasks")
@@ -183,7 +210,8 @@ def test_get_creating_sub_agent_info_api_exception(mocker, mock_auth_header):
 def test_update_agent_info_api_success(mocker, mock_auth_header):
     # Setup mocks using pytest-mock
     mock_update_agent = mocker.patch("apps.agent_app.update_agent_info_impl")
-    mock_update_agent.return_value = None
+    mock_update_agent.return_value = {"agent_id": 123, "version_no": 2, "author": "user", "create_time": None,
+                                      "rollback_from": None}
     
     # Test the endpoint
     response = client.post(
@@ -195,7 +223,83 @@ def test_update_agent_info_api_success(mocker, mock_auth_header):
     # Assertions
     assert response.status_code == 200
     mock_update_agent.assert_called_once()
-    assert response.json() == {}
+    assert response.json()["version_no"] == 2
+
+
+def test_list_agent_versions_api(mocker, mock_auth_header):
+    mocker.patch("apps.agent_app.get_current_user_id", return_value=("user", "tenant"))
+    mock_list_versions = mocker.patch("apps.agent_app.list_agent_versions_impl")
+    mock_list_versions.return_value = [{"agent_id": 123, "version_no": 2}, {"agent_id": 123, "version_no": 1}]
+
+    response = client.get("/agent/123/versions", headers=mock_auth_header)
+
+    assert response.status_code == 200
+    mock_list_versions.assert_called_once_with(123, "tenant")
+    assert [version["version_no"] for version in response.json()] == [2, 1]
+
+
+def test_get_agent_version_api_not_found(mocker, mock_auth_header):
+    mocker.patch("apps.agent_app.get_current_user_id", return_value=("user", "tenant"))
+    mocker.patch("apps.agent_app.get_agent_version_impl",
+                 side_effect=HTTPException(status_code=404, detail="Version 9 of agent 123 does not exist"))
+
+    response = client.get("/agent/123/versions/9", headers=mock_auth_header)
+
+    assert response.status_code == 404
+
+
+def test_rollback_agent_version_api(mocker, mock_auth_header):
+    mock_rollback = mocker.patch("apps.agent_app.rollback_agent_version_impl")
+    mock_rollback.return_value = {"agent_id": 123, "version_no": 3, "rollback_from": 1}
+
+    response = client.post("/agent/rollback", json={"agent_id": 123, "version_no": 1}, headers=mock_auth_header)
+
+    assert response.status_code == 200
+    mock_rollback.assert_called_once_with(123, 1, "Bearer test_token")
+    assert response.json()["rollback_from"] == 1
+
+
+def test_save_approval_policy_api(mocker, mock_auth_header):
+    mocker.patch("apps.agent_app.get_current_user_id", return_value=("user", "tenant"))
+    mock_save_policy = mocker.patch("apps.agent_app.save_approval_policy_impl")
+    mock_save_policy.return_value = {"agent_id": 123, "default_mode": "mcp", "tool_modes": {"7": "ask"}}
+
+    response = client.post("/agent/approval_policy",
+                           json={"agent_id": 123, "default_mode": "mcp", "tool_modes": {"7": "ask"}},
+                           headers=mock_auth_header)
+
+    assert response.status_code == 200
+    request, tenant_id, user_id = mock_save_policy.call_args[0]
+    assert (request.tool_modes, tenant_id, user_id) == ({"7": "ask"}, "tenant", "user")
+
+    response = client.post("/agent/approval_policy", json={"agent_id": 123, "default_mode": "sometimes"},
+                           headers=mock_auth_header)
+    assert response.status_code == 422
+
+
+def test_tool_approval_api(mocker, mock_auth_header):
+    mocker.patch("apps.agent_app.get_current_user_id", return_value=("user", "tenant"))
+    mock_decide = mocker.patch("apps.agent_app.decide_tool_approval_impl")
+
+    response = client.post("/agent/approval", json={"conversation_id": 5, "approval_id": "a1",
+                                                    "decision": "approved", "arguments": {"query": "Q3"}},
+                           headers=mock_auth_header)
+
+    assert response.status_code == 200
+    assert response.json()["code"] == 0
+    request, user_id = mock_decide.call_args[0]
+    assert (request.approval_id, request.arguments, user_id) == ("a1", {"query": "Q3"}, "user")
+
+
+def test_tool_approval_api_not_waiting(mocker, mock_auth_header):
+    mocker.patch("apps.agent_app.get_current_user_id", return_value=("user", "tenant"))
+    mocker.patch("apps.agent_app.decide_tool_approval_impl",
+                 side_effect=HTTPException(status_code=404, detail="approval a1 is not waiting for a decision"))
+
+    response = client.post("/agent/approval", json={"conversation_id": 5, "approval_id": "a1", "decision": "denied"},
+                           headers=mock_auth_header)
+
+    assert response.status_code == 404
 
 
 def test_update_agent_info_api_exception(mocker, mock_auth_header):
@@ -293,7 +397,7 @@ async def test_export_agent_api_exception(mocker, mock_auth_header):
 def test_import_agent_api_success(mocker, mock_auth_header):
     # Setup mocks using pytest-mock
     mock_import_agent = mocker.patch("apps.agent_app.import_agent_impl", new_callable=mocker.AsyncMock)
-    mock_import_agent.return_value = None
+    mock_import_agent.return_value = {"agent_id": 456, "agent_id_mapping": {"123": 456}}
     
     # Test the endpoint - following the ExportAndImportDataFormat structure
     response = client.post(
@@ -330,7 +434,7 @@ def test_import_agent_api_success(mocker, mock_auth_header):
     args, kwargs = mock_import_agent.call_args
     # The function signature is import_agent_impl(request.agent_info, authorization)
     assert args[1] == mock_auth_header["Authorization"]
-    assert response.json() == {}
+    assert response.json() == {"agent_id": 456, "agent_id_mapping": {"123": 456}}
 
 
 def test_import_agent_api_exception(mocker, mock_auth_header):
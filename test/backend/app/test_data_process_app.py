@@ -135,7 +135,8 @@ class TestDataProcessApp(unittest.TestCase):
                 chunking_strategy=request.get("chunking_strategy"),
                 index_name=request.get("index_name"),
                 original_filename=request.get("original_filename"),
-                authorization=authorization
+                authorization=authorization,
+                **(request.get("additional_params") or {})
             )
             return {"task_id": task_result.id}
 
@@ -331,7 +332,8 @@ class TestDataProcessApp(unittest.TestCase):
             chunking_strategy="basic",
             index_name=self.index_name,
             original_filename="test-file.pdf",
-            authorization="Bearer test-token"
+            authorization="Bearer test-token",
+            param1="value1"
         )
 
     def test_create_task_without_authorization(self):
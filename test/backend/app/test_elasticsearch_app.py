@@ -34,6 +34,65 @@ class IndexingResponse(BaseModel):
     total_indexed: int
     total_submitted: int
 
+class ChunkUpdateRequest(BaseModel):
+    content: str
+    metadata: Dict[str, Any] = {}
+
+class ChunkCreateRequest(ChunkUpdateRequest):
+    path_or_url: str
+    position: int
+
+class ChunkMergeRequest(BaseModel):
+    chunk_ids: List[str]
+
+class ChunkSplitRequest(BaseModel):
+    offset: int
+
+class RetrievalTestRequest(BaseModel):
+    query: str
+    index_names: List[str]
+    search_mode: str = "hybrid"
+    rerank_model: Optional[str] = None
+    top_k: int = 5
+    metadata_filters: Dict[str, str] = {}
+
+class RetrievalQuerySaveRequest(BaseModel):
+    params: RetrievalTestRequest
+    results: List[Dict[str, Any]] = []
+
+class KnowledgeSourceRequest(BaseModel):
+    name: str
+    type: str
+    config: Dict[str, Any] = {}
+    sync_interval: str = "manual"
+
+class IngestionProfile(BaseModel):
+    chunk_size: int = 512
+    chunk_overlap: int = 64
+    split_by: str = "heading"
+    ocr: bool = False
+    table_mode: str = "markdown"
+    language: str = "auto"
+
+class DocumentMetadataField(BaseModel):
+    key: str
+    label: str
+    type: str
+    options: Optional[List[str]] = None
+
+class MetadataFieldsRequest(BaseModel):
+    fields: List[DocumentMetadataField]
+
+class DocumentVisibility(BaseModel):
+    restricted: bool = False
+    users: List[str] = []
+    roles: List[str] = []
+
+class DocumentAttributesRequest(BaseModel):
+    path_or_url: str
+    metadata: Dict[str, Union[str, List[str]]] = {}
+    visibility: DocumentVisibility = DocumentVisibility()
+
 # Module-level mocks for AWS connections
 # Apply these patches before importing any modules to prevent actual AWS connections
 patch('botocore.client.BaseClient._make_api_call', return_value={}).start()
@@ -49,6 +108,16 @@ consts_model_mock = MagicMock()
 consts_model_mock.SearchRequest = SearchRequest
 consts_model_mock.HybridSearchRequest = HybridSearchRequest
 consts_model_mock.IndexingResponse = IndexingResponse
+consts_model_mock.ChunkUpdateRequest = ChunkUpdateRequest
+consts_model_mock.ChunkCreateRequest = ChunkCreateRequest
+consts_model_mock.ChunkMergeRequest = ChunkMergeRequest
+consts_model_mock.ChunkSplitRequest = ChunkSplitRequest
+consts_model_mock.RetrievalTestRequest = RetrievalTestRequest
+consts_model_mock.RetrievalQuerySaveRequest = RetrievalQuerySaveRequest
+consts_model_mock.KnowledgeSourceRequest = KnowledgeSourceRequest
+consts_model_mock.IngestionProfile = IngestionProfile
+consts_model_mock.MetadataFieldsRequest = MetadataFieldsRequest
+consts_model_mock.DocumentAttributesRequest = DocumentAttributesRequest
 
 # Patch the module import
 sys.modules['consts.model'] = consts_model_mock
@@ -388,6 +457,298 @@ async def test_get_index_files_success(es_core_mock):
             # Just verify the mock was called with right parameters
             assert mock_list_files.called
 
+@pytest.mark.asyncio
+async def test_get_document_chunks_success(es_core_mock, auth_data):
+    """
+    Test listing the chunks of a document.
+    Verifies that the document path and the audience of the user are passed to the service.
+    """
+    audience = {"users": [auth_data["user_id"]], "roles": ["user"]}
+    with patch("backend.apps.elasticsearch_app.get_es_core", return_value=es_core_mock), \
+         patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.get_document_audience", return_value=audience), \
+         patch("backend.apps.elasticsearch_app.ElasticSearchService.list_chunks") as mock_list_chunks:
+
+        expected_response = {"status": "success", "chunks": [{"id": "c1", "content": "text", "position": 0}]}
+        mock_list_chunks.return_value = expected_response
+
+        response = client.get("/indices/test_index/chunks", params={"path_or_url": "docs/a.pdf"},
+                              headers=auth_data["auth_header"])
+
+        assert response.status_code == 200
+        assert response.json() == expected_response
+        mock_list_chunks.assert_called_once_with("test_index", "docs/a.pdf", ANY, audience)
+
+@pytest.mark.asyncio
+async def test_get_document_chunks_of_hidden_document(es_core_mock, auth_data):
+    """
+    Test listing the chunks of a restricted document the user is not in the audience of.
+    Verifies that the document is not found.
+    """
+    with patch("backend.apps.elasticsearch_app.get_es_core", return_value=es_core_mock), \
+         patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.get_document_audience", return_value={"users": [auth_data["user_id"]], "roles": ["user"]}), \
+         patch("backend.apps.elasticsearch_app.ElasticSearchService.list_chunks") as mock_list_chunks:
+
+        mock_list_chunks.side_effect = HTTPException(status_code=404, detail="Document docs/a.pdf not found")
+
+        response = client.get("/indices/test_index/chunks", params={"path_or_url": "docs/a.pdf"},
+                              headers=auth_data["auth_header"])
+
+        assert response.status_code == 404
+
+@pytest.mark.asyncio
+async def test_update_chunk_success(es_core_mock, auth_data):
+    """
+    Test updating a chunk.
+    Verifies that the chunk is embedded with the embedding model of the tenant.
+    """
+    embedding_model = MagicMock()
+    audience = {"users": [auth_data["user_id"]], "roles": ["admin"]}
+    with patch("backend.apps.elasticsearch_app.get_es_core", return_value=es_core_mock), \
+         patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.get_document_audience", return_value=audience), \
+         patch("backend.apps.elasticsearch_app.get_embedding_model", return_value=embedding_model) as mock_get_model, \
+         patch("backend.apps.elasticsearch_app.ElasticSearchService.update_chunk") as mock_update:
+
+        mock_update.return_value = {"status": "success", "chunk": {"id": "c1"}}
+
+        response = client.put("/indices/test_index/chunks/c1", json={"content": "new", "metadata": {"k": "v"}},
+                              headers=auth_data["auth_header"])
+
+        assert response.status_code == 200
+        mock_get_model.assert_called_once_with(auth_data["tenant_id"])
+        mock_update.assert_called_once_with("test_index", "c1", "new", {"k": "v"}, embedding_model, ANY, audience)
+
+@pytest.mark.asyncio
+async def test_split_chunk_keeps_client_errors(es_core_mock, auth_data):
+    """
+    Test splitting a chunk at an invalid offset.
+    Verifies that errors raised by the service keep their status code.
+    """
+    with patch("backend.apps.elasticsearch_app.get_es_core", return_value=es_core_mock), \
+         patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.get_embedding_model", return_value=MagicMock()), \
+         patch("backend.apps.elasticsearch_app.ElasticSearchService.split_chunk") as mock_split:
+
+        mock_split.side_effect = HTTPException(status_code=400, detail="bad offset")
+
+        response = client.post("/indices/test_index/chunks/c1/split", json={"offset": 99},
+                               headers=auth_data["auth_header"])
+
+        assert response.status_code == 400
+        assert response.json() == {"detail": "bad offset"}
+
+@pytest.mark.asyncio
+async def test_merge_chunks_error(es_core_mock, auth_data):
+    """
+    Test merging chunks with an unexpected error.
+    """
+    with patch("backend.apps.elasticsearch_app.get_es_core", return_value=es_core_mock), \
+         patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.get_embedding_model", return_value=MagicMock()), \
+         patch("backend.apps.elasticsearch_app.ElasticSearchService.merge_chunks") as mock_merge:
+
+        mock_merge.side_effect = Exception("ES down")
+
+        response = client.post("/indices/test_index/chunks/merge", json={"chunk_ids": ["c1", "c2"]},
+                               headers=auth_data["auth_header"])
+
+        assert response.status_code == 500
+        assert response.json() == {"detail": "Error merging chunks: ES down"}
+
+@pytest.mark.asyncio
+async def test_run_retrieval_test_success(es_core_mock, auth_data):
+    """
+    Test running a retrieval test.
+    Verifies that the route is not taken for the creation of an index named retrieval_test.
+    """
+    with patch("backend.apps.elasticsearch_app.get_es_core", return_value=es_core_mock), \
+         patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.get_document_audience") as mock_audience, \
+         patch("backend.apps.elasticsearch_app.ElasticSearchService.create_index") as mock_create, \
+         patch("backend.apps.elasticsearch_app.run_retrieval_test_service") as mock_run:
+
+        hits = [{"chunk_id": "k1", "index_name": "kb", "text": "text", "score": 0.9, "score_details": {}}]
+        mock_run.return_value = hits
+
+        response = client.post("/indices/retrieval_test", json={"query": "q", "index_names": ["kb"]},
+                               headers=auth_data["auth_header"])
+
+        assert response.status_code == 200
+        assert response.json() == {"status": "success", "results": hits}
+        assert mock_run.call_args[0][1] == auth_data["tenant_id"]
+        # Only the documents visible to the user are searched
+        assert mock_run.call_args[0][3] == mock_audience.return_value
+        mock_audience.assert_called_once_with(auth_data["auth_header"]["Authorization"], auth_data["user_id"])
+        mock_create.assert_not_called()
+
+@pytest.mark.asyncio
+async def test_update_retrieval_query_not_found(auth_data):
+    """
+    Test replacing a saved query that doesn't exist.
+    """
+    with patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.save_query_service") as mock_save:
+
+        mock_save.side_effect = HTTPException(status_code=404, detail="Saved query 3 does not exist")
+
+        response = client.put("/indices/retrieval_test/queries/3",
+                              json={"params": {"query": "q", "index_names": ["kb"]}, "results": []},
+                              headers=auth_data["auth_header"])
+
+        assert response.status_code == 404
+        assert mock_save.call_args[0][1:] == (auth_data["user_id"], auth_data["tenant_id"], 3)
+
+@pytest.mark.asyncio
+async def test_create_source_success(auth_data):
+    """
+    Test adding a source to a knowledge base.
+    """
+    with patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.create_source_service") as mock_create:
+
+        source = {"source_id": 1, "name": "Docs", "type": "sitemap", "config": {"sitemap_url": "https://example.com/sitemap.xml"},
+                  "sync_interval": "daily", "document_count": 0, "last_sync": None, "next_sync_time": 1700000000000}
+        mock_create.return_value = source
+
+        response = client.post(f"/indices/{auth_data['index_name']}/sources",
+                               json={"name": "Docs", "type": "sitemap", "config": source["config"], "sync_interval": "daily"},
+                               headers=auth_data["auth_header"])
+
+        assert response.status_code == 200
+        assert response.json() == {"status": "success", "source": source}
+        assert mock_create.call_args[0][0] == auth_data["index_name"]
+        assert mock_create.call_args[0][2:] == (auth_data["tenant_id"], auth_data["user_id"])
+
+@pytest.mark.asyncio
+async def test_sync_source_already_syncing(auth_data):
+    """
+    Test syncing a source while it syncs.
+    """
+    with patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.sync_source_service") as mock_sync:
+
+        mock_sync.side_effect = HTTPException(status_code=409, detail="Source 1 is already syncing")
+
+        response = client.post(f"/indices/{auth_data['index_name']}/sources/1/sync", headers=auth_data["auth_header"])
+
+        assert response.status_code == 409
+        mock_sync.assert_called_once_with(auth_data["index_name"], 1, auth_data["tenant_id"])
+
+@pytest.mark.asyncio
+async def test_save_ingestion_profile_success(auth_data):
+    """
+    Test saving the ingestion profile of a knowledge base.
+    """
+    with patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.save_ingestion_profile_service") as mock_save:
+
+        profile = {"chunk_size": 256, "chunk_overlap": 32, "split_by": "page", "ocr": True,
+                   "table_mode": "skip", "language": "en"}
+        response = client.put(f"/indices/{auth_data['index_name']}/ingestion_profile", json=profile,
+                              headers=auth_data["auth_header"])
+
+        assert response.status_code == 200
+        assert response.json() == {"status": "success"}
+        index_name, saved, tenant_id, user_id = mock_save.call_args[0]
+        assert (index_name, tenant_id, user_id) == (auth_data["index_name"], auth_data["tenant_id"], auth_data["user_id"])
+        assert saved.model_dump() == profile
+
+@pytest.mark.asyncio
+async def test_preview_chunking_success(auth_data):
+    """
+    Test previewing the chunks of a sample file, without authentication like uploads.
+    """
+    with patch("backend.apps.elasticsearch_app.preview_chunking_service") as mock_preview:
+
+        mock_preview.return_value = {"chunks": [{"content": "Intro", "page": 1, "token_count": 1}], "total_tokens": 1}
+        profile = '{"chunk_size": 256}'
+
+        response = client.post(f"/indices/{auth_data['index_name']}/ingestion_profile/preview",
+                               files={"file": ("doc.pdf", b"content", "application/pdf")},
+                               data={"profile": profile})
+
+        assert response.status_code == 200
+        assert response.json() == {"status": "success", **mock_preview.return_value}
+        mock_preview.assert_called_once_with(auth_data["index_name"], "doc.pdf", b"content", profile)
+
+@pytest.mark.asyncio
+async def test_reprocess_documents_success(auth_data):
+    """
+    Test reprocessing the documents of a knowledge base.
+    """
+    with patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.reprocess_service", new_callable=AsyncMock) as mock_reprocess:
+
+        mock_reprocess.return_value = {"documents": 3, "sources": 1}
+
+        response = client.post(f"/indices/{auth_data['index_name']}/reprocess", headers=auth_data["auth_header"])
+
+        assert response.status_code == 200
+        assert response.json() == {"status": "success", "documents": 3, "sources": 1}
+        assert mock_reprocess.call_args[0][:3] == (auth_data["index_name"], auth_data["tenant_id"],
+                                                   auth_data["auth_header"]["Authorization"])
+
+@pytest.mark.asyncio
+async def test_get_metadata_fields_success(auth_data):
+    """
+    Test getting the metadata fields of a knowledge base.
+    """
+    with patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.get_metadata_fields_service") as mock_get:
+
+        mock_get.return_value = [{"key": "department", "label": "Department", "type": "text", "options": None}]
+
+        response = client.get(f"/indices/{auth_data['index_name']}/metadata_fields", headers=auth_data["auth_header"])
+
+        assert response.status_code == 200
+        assert response.json() == {"status": "success", "fields": mock_get.return_value}
+        mock_get.assert_called_once_with(auth_data["index_name"], auth_data["tenant_id"])
+
+@pytest.mark.asyncio
+async def test_update_document_attributes_success(es_core_mock, auth_data):
+    """
+    Test updating the metadata and visibility of a document.
+    """
+    with patch("backend.apps.elasticsearch_app.get_es_core", return_value=es_core_mock), \
+         patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.get_document_audience") as mock_audience, \
+         patch("backend.apps.elasticsearch_app.update_document_attributes_service") as mock_update:
+
+        mock_audience.return_value = {"users": [auth_data["user_id"]], "roles": ["admin"]}
+        mock_update.return_value = {"updated_chunks": 4}
+        body = {"path_or_url": "minio/doc.pdf", "metadata": {"department": "finance", "tags": ["q3"]},
+                "visibility": {"restricted": True, "users": [], "roles": ["admin"]}}
+
+        response = client.put(f"/indices/{auth_data['index_name']}/files/attributes", json=body,
+                              headers=auth_data["auth_header"])
+
+        assert response.status_code == 200
+        assert response.json() == {"status": "success", "updated_chunks": 4}
+        index_name, request, tenant_id, user_id = mock_update.call_args[0][:4]
+        assert (index_name, tenant_id, user_id) == (auth_data["index_name"], auth_data["tenant_id"], auth_data["user_id"])
+        assert request.model_dump() == body
+        assert mock_update.call_args[0][-1] == mock_audience.return_value
+
+@pytest.mark.asyncio
+async def test_update_document_attributes_invalid_value(es_core_mock, auth_data):
+    """
+    Test that a value the metadata field does not accept is refused.
+    """
+    with patch("backend.apps.elasticsearch_app.get_es_core", return_value=es_core_mock), \
+         patch("backend.apps.elasticsearch_app.get_current_user_id", return_value=(auth_data["user_id"], auth_data["tenant_id"])), \
+         patch("backend.apps.elasticsearch_app.update_document_attributes_service") as mock_update:
+
+        mock_update.side_effect = HTTPException(status_code=400, detail="top is not an option of metadata field confidentiality")
+
+        response = client.put(f"/indices/{auth_data['index_name']}/files/attributes",
+                              json={"path_or_url": "minio/doc.pdf", "metadata": {"confidentiality": "top"}},
+                              headers=auth_data["auth_header"])
+
+        assert response.status_code == 400
+        assert response.json() == {"detail": "top is not an option of metadata field confidentiality"}
+
 @pytest.mark.asyncio
 async def test_health_check_success(es_core_mock):
     """
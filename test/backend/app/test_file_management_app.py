@@ -49,7 +49,8 @@ def setup_patches():
               MagicMock(side_effect=lambda query, image_input, tenant_id, language='zh': 'mocked image text')),
         patch('backend.utils.attachment_utils.convert_long_text_to_text', 
               MagicMock(side_effect=lambda query, file_context, tenant_id, language='zh': 'mocked text content')),
-        patch('httpx.AsyncClient', MagicMock())
+        patch('httpx.AsyncClient', MagicMock()),
+        patch('backend.apps.file_management_app.get_knowledge_record', MagicMock(return_value={}))
     ]
     
     # Start all patches
@@ -209,6 +210,113 @@ async def test_process_files_none_result(mock_files):
         assert "error" in response.json()
         assert response.json()["error"] == "Data process service failed"
 
+@pytest.mark.asyncio
+async def test_process_files_with_ingestion_profile(mock_files):
+    profile = {"chunk_size": 256, "chunk_overlap": 32, "split_by": "page", "ocr": True,
+               "table_mode": "skip", "language": "en"}
+    with patch("backend.apps.file_management_app.trigger_data_process") as mock_trigger, \
+            patch("backend.apps.file_management_app.get_knowledge_record",
+                  return_value={"index_name": "test_index", "ingestion_profile": profile}):
+        mock_trigger.return_value = {"task_id": "task_123", "status": "processing"}
+
+        with TestClient(app) as client:
+            response = client.post(
+                "/file/process",
+                json={
+                    "files": [
+                        {"path_or_url": "/test/path/test.pdf", "filename": "test.pdf"}
+                    ],
+                    "chunking_strategy": "basic",
+                    "index_name": "test_index",
+                    "destination": "minio"
+                },
+                headers={"authorization": "Bearer test_token"}
+            )
+
+        assert response.status_code == 201
+        # The profile of the knowledge base replaces the chunking strategy of the request
+        process_params = mock_trigger.call_args.args[1]
+        assert process_params.chunking_strategy == "by_title"
+        assert process_params.additional_params["max_characters"] == 1024
+        assert process_params.additional_params["overlap"] == 128
+        assert process_params.additional_params["multipage_sections"] is False
+        assert process_params.additional_params["strategy"] == "hi_res"
+        assert process_params.additional_params["languages"] == ["eng"]
+        assert process_params.additional_params["table_mode"] == "skip"
+
+@pytest.mark.asyncio
+async def test_process_files_with_attributes(mock_files):
+    with patch("backend.apps.file_management_app.trigger_data_process") as mock_trigger, \
+            patch("backend.apps.file_management_app.get_current_user_id", return_value=("test_user", "test_tenant")), \
+            patch("backend.apps.file_management_app.save_upload_attributes_service") as mock_save:
+        mock_trigger.return_value = {"task_id": "task_123", "status": "processing"}
+
+        with TestClient(app) as client:
+            response = client.post(
+                "/file/process",
+                json={
+                    "files": [
+                        {"path_or_url": "/test/path/a.pdf", "filename": "a.pdf"},
+                        {"path_or_url": "/test/path/b.pdf", "filename": "b.pdf"}
+                    ],
+                    "index_name": "test_index",
+                    "destination": "minio",
+                    "metadata": {"department": "finance", "tags": ["q3"]},
+                    "visibility": {"restricted": True, "users": ["cfo@example.com"], "roles": []}
+                },
+                headers={"authorization": "Bearer test_token"}
+            )
+
+        assert response.status_code == 201
+        # The attributes are recorded for every file before it is processed
+        index_name, paths, attributes, tenant_id, user_id = mock_save.call_args.args
+        assert (index_name, paths, tenant_id, user_id) == ("test_index", ["/test/path/a.pdf", "/test/path/b.pdf"],
+                                                           "test_tenant", "test_user")
+        assert attributes.metadata == {"department": "finance", "tags": ["q3"]}
+        assert attributes.visibility.users == ["cfo@example.com"]
+
+@pytest.mark.asyncio
+async def test_process_files_with_invalid_visibility(mock_files):
+    with patch("backend.apps.file_management_app.trigger_data_process") as mock_trigger, \
+            patch("backend.apps.file_management_app.save_upload_attributes_service") as mock_save:
+
+        with TestClient(app) as client:
+            response = client.post(
+                "/file/process",
+                json={
+                    "files": [{"path_or_url": "/test/path/a.pdf", "filename": "a.pdf"}],
+                    "index_name": "test_index",
+                    "destination": "minio",
+                    "visibility": {"restricted": True, "users": [], "roles": []}
+                },
+                headers={"authorization": "Bearer test_token"}
+            )
+
+        # A restricted document nobody can retrieve is refused
+        assert response.status_code == 400
+        assert "restricted" in response.json()["error"]
+        mock_save.assert_not_called()
+        mock_trigger.assert_not_called()
+
+@pytest.mark.asyncio
+async def test_upload_files_with_invalid_attributes(mock_files):
+    with patch("backend.apps.file_management_app.save_upload_file") as mock_save:
+        with TestClient(app) as client:
+            response = client.post(
+                "/file/upload",
+                files=[("file", ("test1.txt", BytesIO(b"test1 content"), "text/plain"))],
+                data={
+                    "destination": "local",
+                    "metadata": "{not json",
+                    "visibility": '{"restricted": false}'
+                }
+            )
+
+        # Nothing is stored when the attributes can't be read
+        assert response.status_code == 400
+        assert "Invalid document attributes" in response.json()["error"]
+        mock_save.assert_not_called()
+
 @pytest.mark.asyncio
 async def test_upload_files_no_files(mock_files):
     # Create a new test app with a mocked endpoint
@@ -1,6 +1,9 @@
+import json
 import pytest
 import sys
+from concurrent.futures import Future
 from unittest.mock import patch, MagicMock, mock_open, call, Mock, AsyncMock
+from fastapi import HTTPException
 from fastapi.responses import StreamingResponse
 
 # Mock boto3 before importing the module under test
@@ -32,6 +35,7 @@ sys.modules['consts'] = MagicMock()
 sys.modules['consts.model'] = MagicMock()
 sys.modules['database'] = MagicMock()
 sys.modules['database.agent_db'] = MagicMock()
+sys.modules['database.conversation_db'] = MagicMock()
 sys.modules['database.remote_mcp_db'] = MagicMock()
 sys.modules['services'] = MagicMock()
 sys.modules['services.remote_mcp_service'] = MagicMock()
@@ -43,6 +47,7 @@ sys.modules['utils.auth_utils'] = MagicMock()
 sys.modules['utils.memory_utils'] = MagicMock()
 sys.modules['utils.thread_utils'] = MagicMock()
 sys.modules['agents.agent_run_manager'] = MagicMock()
+sys.modules['agents.agent_run_stream'] = MagicMock()
 sys.modules['agents.preprocess_manager'] = MagicMock()
 sys.modules['nexent.core.agents.run_agent'] = MagicMock()
 
@@ -102,9 +107,21 @@ from backend.services.agent_service import (
     get_agent_id_by_name,
     prepare_agent_run,
     save_messages,
-    generate_stream
+    produce_agent_stream,
+    generate_stream,
+    resume_agent_stream,
+    build_agent_snapshot,
+    get_agent_version_impl,
+    rollback_agent_version_impl,
+    get_approval_policy_impl,
+    save_approval_policy_impl,
+    decide_tool_approval_impl
 )
-from backend.consts.model import AgentInfoRequest, ExportAndImportAgentInfo, ExportAndImportDataFormat, MCPInfo, AgentRequest
+from backend.agents.agent_run_stream import AgentRunStream
+from backend.consts.model import AgentInfoRequest, ExportAndImportAgentInfo, ExportAndImportDataFormat, MCPInfo, AgentRequest, \
+    ApprovalPolicyRequest, ToolApprovalRequest
+
+HANDSHAKE_EVENT = {"type": "protocol_version", "content": "1.2", "seq": 1}
 
 
 # Setup and teardown for each test
@@ -296,16 +313,19 @@ def test_get_creating_sub_agent_info_impl_success(mock_get_current_user_info, mo
     assert result == expected_result
 
 
+@patch('backend.services.agent_service.save_agent_version')
 @patch('backend.services.agent_service.update_agent')
 @patch('backend.services.agent_service.get_current_user_info')
-def test_update_agent_info_impl_success(mock_get_current_user_info, mock_update_agent):
+def test_update_agent_info_impl_success(mock_get_current_user_info, mock_update_agent, mock_save_version):
     """
     Test successful update of agent information.
     
     This test verifies that:
     1. The function correctly gets the current user and tenant IDs
     2. It calls the update_agent function with the correct parameters
+    3. It saves the updated agent as a new version and returns it
     """
+    mock_save_version.return_value = {"agent_id": 123, "version_no": 4}
     # Setup
     mock_get_current_user_info.return_value = ("test_user", "test_tenant", "en")
     request = AgentInfoRequest(
@@ -316,10 +336,160 @@ def test_update_agent_info_impl_success(mock_get_current_user_info, mock_update_
     )
     
     # Execute
-    update_agent_info_impl(request, authorization="Bearer token")
+    result = update_agent_info_impl(request, authorization="Bearer token")
     
     # Assert
     mock_update_agent.assert_called_once_with(123, request, "test_tenant", "test_user")
+    mock_save_version.assert_called_once_with(123, "test_tenant", "test_user")
+    assert result == {"agent_id": 123, "version_no": 4}
+
+
+@patch('backend.services.agent_service.query_sub_agents_id_list')
+@patch('backend.services.agent_service.search_tools_for_sub_agent')
+@patch('backend.services.agent_service.search_agent_info_by_agent_id')
+def test_build_agent_snapshot(mock_search_agent_info, mock_search_tools, mock_query_sub_agents):
+    """
+    Test that a version keeps the configuration of the agent without its audit fields.
+    """
+    mock_search_agent_info.return_value = {
+        "agent_id": 123, "name": "agent", "display_name": "Agent", "description": "desc",
+        "business_description": "business", "model_name": "main_model", "max_steps": 5,
+        "provide_run_summary": False, "duty_prompt": "duty", "constraint_prompt": None,
+        "few_shots_prompt": "shots", "enabled": True, "create_time": "2025-01-01", "updated_by": "user"
+    }
+    mock_search_tools.return_value = [{
+        "tool_id": 7, "name": "search", "description": "Search", "source": "local", "class_name": "SearchTool",
+        "is_available": True, "usage": None, "inputs": "{}", "output_type": "string",
+        "params": [{"name": "top_k", "default": 3}], "tool_instance_id": 70, "create_time": "2025-01-01"
+    }]
+    mock_query_sub_agents.return_value = [456]
+
+    snapshot = build_agent_snapshot(123, "test_tenant")
+
+    assert snapshot["duty_prompt"] == "duty"
+    assert snapshot["constraint_prompt"] is None
+    assert "create_time" not in snapshot and "enabled" not in snapshot
+    assert snapshot["tools"] == [{
+        "tool_id": 7, "name": "search", "description": "Search", "source": "local", "class_name": "SearchTool",
+        "is_available": True, "usage": None, "inputs": "{}", "output_type": "string",
+        "params": [{"name": "top_k", "default": 3}]
+    }]
+    assert snapshot["sub_agent_id_list"] == [456]
+
+
+@patch('backend.services.agent_service.search_agent_version')
+def test_get_agent_version_impl_not_found(mock_search_version):
+    """
+    Test that a missing version is reported as 404.
+    """
+    mock_search_version.side_effect = ValueError("agent version not found")
+
+    with pytest.raises(HTTPException) as context:
+        get_agent_version_impl(123, 9, "test_tenant")
+
+    assert context.value.status_code == 404
+
+
+@patch('backend.services.agent_service.search_agent_info_by_agent_id')
+def test_get_approval_policy_impl(mock_search_agent_info):
+    """
+    Test that an agent without a policy asks for nothing and an unknown agent is reported as 404.
+    """
+    mock_search_agent_info.return_value = {"agent_id": 123, "approval_policy": None}
+    assert get_approval_policy_impl(123, "test_tenant") == {"agent_id": 123, "default_mode": "never", "tool_modes": {}}
+
+    mock_search_agent_info.return_value = {"agent_id": 123,
+                                           "approval_policy": {"default_mode": "mcp", "tool_modes": {"7": "auto"}}}
+    assert get_approval_policy_impl(123, "test_tenant")["tool_modes"] == {"7": "auto"}
+
+    mock_search_agent_info.side_effect = ValueError("agent not found")
+    with pytest.raises(HTTPException) as context:
+        get_approval_policy_impl(123, "test_tenant")
+    assert context.value.status_code == 404
+
+
+@patch('backend.services.agent_service.update_approval_policy')
+def test_save_approval_policy_impl(mock_update_policy):
+    """
+    Test that the policy is saved without the agent id and a missing agent is reported as 404.
+    """
+    mock_update_policy.return_value = True
+    request = ApprovalPolicyRequest(agent_id=123, default_mode="always", tool_modes={"7": "auto"})
+
+    result = save_approval_policy_impl(request, "test_tenant", "test_user")
+
+    mock_update_policy.assert_called_once_with(123, {"default_mode": "always", "tool_modes": {"7": "auto"}},
+                                               "test_tenant", "test_user")
+    assert result["agent_id"] == 123
+
+    mock_update_policy.return_value = False
+    with pytest.raises(HTTPException) as context:
+        save_approval_policy_impl(request, "test_tenant", "test_user")
+    assert context.value.status_code == 404
+
+
+@patch('backend.services.agent_service.agent_run_manager')
+def test_decide_tool_approval_impl(mock_agent_run_manager):
+    """
+    Test that a decision reaches the gate of the run, and runs of other users or finished calls give 404.
+    """
+    agent_run_info = MagicMock()
+    mock_agent_run_manager.get_agent_run_info.return_value = agent_run_info
+    mock_agent_run_manager.get_agent_run_stream.return_value = AgentRunStream(user_id="test_user")
+    request = ToolApprovalRequest(conversation_id=5, approval_id="a1", decision="approved", arguments={"q": "Q3"})
+
+    decide_tool_approval_impl(request, "test_user")
+    agent_run_info.approval_gate.decide.assert_called_once_with("a1", "approved", {"q": "Q3"})
+
+    with pytest.raises(HTTPException) as context:
+        decide_tool_approval_impl(request, "other_user")
+    assert context.value.status_code == 404
+
+    agent_run_info.approval_gate.decide.return_value = False
+    with pytest.raises(HTTPException) as context:
+        decide_tool_approval_impl(request, "test_user")
+    assert context.value.status_code == 404
+
+
+@patch('backend.services.agent_service.AgentInfoRequest', AgentInfoRequest)
+@patch('backend.services.agent_service.save_agent_version')
+@patch('backend.services.agent_service.insert_related_agent')
+@patch('backend.services.agent_service.delete_all_related_agent')
+@patch('backend.services.agent_service.restore_agent_tool_instances')
+@patch('backend.services.agent_service.update_agent')
+@patch('backend.services.agent_service.search_agent_version')
+@patch('backend.services.agent_service.get_current_user_info')
+def test_rollback_agent_version_impl(mock_get_current_user_info, mock_search_version, mock_update_agent,
+                                     mock_restore_tools, mock_delete_related, mock_insert_related,
+                                     mock_save_version):
+    """
+    Test that a rollback restores the fields, tools and sub agents of the version and saves a new version.
+    """
+    mock_get_current_user_info.return_value = ("test_user", "test_tenant", "en")
+    mock_search_version.return_value = {
+        "version_no": 2,
+        "snapshot": {
+            "agent_id": 123, "name": "agent", "model_name": "main_model", "max_steps": 5,
+            "duty_prompt": "old duty", "constraint_prompt": None, "few_shots_prompt": "",
+            "tools": [{"tool_id": 7, "params": [{"name": "top_k", "default": 3}]}],
+            "sub_agent_id_list": [456]
+        }
+    }
+    mock_save_version.return_value = {"agent_id": 123, "version_no": 5, "rollback_from": 2}
+
+    result = rollback_agent_version_impl(123, 2, authorization="Bearer token")
+
+    mock_search_version.assert_called_once_with(123, 2, "test_tenant")
+    restored = mock_update_agent.call_args[0][1]
+    assert restored.duty_prompt == "old duty"
+    # Empty prompts are restored as empty strings, None values are skipped by update_agent
+    assert restored.constraint_prompt == ""
+    assert restored.max_steps == 5
+    mock_restore_tools.assert_called_once_with(123, {7: {"top_k": 3}}, "test_tenant", "test_user")
+    mock_delete_related.assert_called_once_with(123, "test_tenant")
+    mock_insert_related.assert_called_once_with(parent_agent_id=123, child_agent_id=456, tenant_id="test_tenant")
+    mock_save_version.assert_called_once_with(123, "test_tenant", "test_user", rollback_from=2)
+    assert result["version_no"] == 5
 
 
 @patch('backend.services.agent_service.delete_all_related_agent')
@@ -1411,9 +1581,10 @@ async def test_import_agent_impl_success_with_mcp(mock_get_current_user_info, mo
     mock_import_agent.return_value = 456  # New agent ID
     
     # Execute
-    await import_agent_impl(export_data, authorization="Bearer token")
+    result = await import_agent_impl(export_data, authorization="Bearer token")
     
     # Assert
+    assert result == {"agent_id": 456, "agent_id_mapping": {"123": 456}}
     mock_get_current_user_info.assert_called_once_with("Bearer token")
     mock_check_mcp_exists.assert_called_once_with(mcp_name="test_mcp_server", tenant_id="test_tenant")
     mock_add_mcp_server.assert_called_once_with(
@@ -1750,35 +1921,63 @@ def mock_http_request():
 
 
 @pytest.mark.asyncio
+@patch('backend.services.agent_service.AgentRunStream', AgentRunStream)
+@patch('backend.services.agent_service.get_conversation')
 @patch('backend.services.agent_service.build_memory_context')
 @patch('backend.services.agent_service.create_agent_run_info', new_callable=AsyncMock)
 @patch('backend.services.agent_service.agent_run_manager')
 @patch('backend.services.agent_service.get_current_user_info')
-async def test_prepare_agent_run(mock_get_user_info, mock_agent_run_manager, mock_create_run_info, mock_build_memory_context, mock_agent_request, mock_http_request):
+async def test_prepare_agent_run(mock_get_user_info, mock_agent_run_manager, mock_create_run_info, mock_build_memory_context, mock_get_conversation, mock_agent_request, mock_http_request):
     """Test prepare_agent_run function."""
     # Setup
     mock_get_user_info.return_value = ("test_user", "test_tenant", "en")
+    mock_get_conversation.return_value = {"conversation_id": 123, "pinned_agent_id": None, "pinned_version_no": None}
     mock_run_info = MagicMock()
     mock_create_run_info.return_value = mock_run_info
     mock_memory_context = MagicMock()
     mock_build_memory_context.return_value = mock_memory_context
 
     # Execute
-    agent_run_info, memory_context = await prepare_agent_run(mock_agent_request, mock_http_request, "Bearer token")
+    agent_run_info, memory_context, run_stream = await prepare_agent_run(mock_agent_request, mock_http_request, "Bearer token")
 
     # Assert
     assert agent_run_info == mock_run_info
     assert memory_context == mock_memory_context
+    assert isinstance(run_stream, AgentRunStream)
+    assert run_stream.user_id == "test_user"
     mock_get_user_info.assert_called_once_with("Bearer token", mock_http_request)
     mock_build_memory_context.assert_called_once_with("test_user", "test_tenant", 1)
     mock_create_run_info.assert_called_once()
-    mock_agent_run_manager.register_agent_run.assert_called_once_with(123, mock_run_info)
+    mock_agent_run_manager.register_agent_run.assert_called_once_with(123, mock_run_info, run_stream)
+    assert mock_create_run_info.call_args.kwargs["version_no"] is None
+
+
+@pytest.mark.asyncio
+@patch('backend.services.agent_service.AgentRunStream', AgentRunStream)
+@patch('backend.services.agent_service.get_conversation')
+@patch('backend.services.agent_service.build_memory_context')
+@patch('backend.services.agent_service.create_agent_run_info', new_callable=AsyncMock)
+@patch('backend.services.agent_service.agent_run_manager')
+@patch('backend.services.agent_service.get_current_user_info')
+async def test_prepare_agent_run_pinned_conversation(mock_get_user_info, mock_agent_run_manager, mock_create_run_info,
+                                                     mock_build_memory_context, mock_get_conversation,
+                                                     mock_agent_request, mock_http_request):
+    """Test that a conversation pinned to an agent version runs that version."""
+    mock_get_user_info.return_value = ("test_user", "test_tenant", "en")
+    mock_get_conversation.return_value = {"conversation_id": 123, "pinned_agent_id": 2, "pinned_version_no": 3}
+
+    await prepare_agent_run(mock_agent_request, mock_http_request, "Bearer token")
+
+    mock_get_conversation.assert_called_once_with(123, "test_user")
+    mock_build_memory_context.assert_called_once_with("test_user", "test_tenant", 2)
+    assert mock_create_run_info.call_args.kwargs["agent_id"] == 2
+    assert mock_create_run_info.call_args.kwargs["version_no"] == 3
 
 @patch('backend.services.agent_service.submit')
 def test_save_messages(mock_submit, mock_agent_request):
     """Test save_messages function."""
     # Test user message saving
-    save_messages(mock_agent_request, "user", authorization="Bearer token")
+    assert save_messages(mock_agent_request, "user", authorization="Bearer token") == mock_submit.return_value
     mock_submit.assert_called_once()
 
     # Test assistant message saving
@@ -1789,28 +1988,51 @@ def test_save_messages(mock_submit, mock_agent_request):
     save_messages(mock_agent_request, "invalid", messages=["test message"], authorization="Bearer token")
     assert mock_submit.call_count == 2
 
+
+def _done_future(result=None):
+    future = Future()
+    future.set_result(result)
+    return future
+
+
+async def _collect(run_stream, after_seq=0):
+    return [json.loads(event) async for event in run_stream.subscribe(after_seq)]
+
+
 @pytest.mark.asyncio
 @patch('backend.services.agent_service.agent_run')
 @patch('backend.services.agent_service.save_messages')
 @patch('backend.services.agent_service.agent_run_manager')
-async def test_generate_stream(mock_agent_run_manager, mock_save_messages, mock_agent_run, mock_agent_request):
-    """Test generate_stream function."""
+async def test_produce_agent_stream(mock_agent_run_manager, mock_save_messages, mock_agent_run, mock_agent_request):
+    """Test produce_agent_stream function."""
     # Setup
     mock_run_info = MagicMock()
     mock_memory_context = MagicMock()
-    
+    mock_save_messages.return_value = _done_future()
+
+    chunk1 = '{"type": "step_count", "content": "Step 1"}'
+    chunk2 = '{"type": "final_answer", "content": "done"}'
+
     async def mock_streamer():
-        yield "chunk1"
-        yield "chunk2"
-    
+        yield chunk1
+        yield chunk2
+
     mock_agent_run.return_value = mock_streamer()
+    run_stream = AgentRunStream(user_id="test_user")
 
-    # Execute and collect results
-    streamed_chunks = [chunk async for chunk in generate_stream(mock_run_info, mock_memory_context, mock_agent_request, "Bearer token")]
-    
-    # Assert
-    assert streamed_chunks == ["data: chunk1\n\n", "data: chunk2\n\n"]
-    mock_save_messages.assert_called_once_with(mock_agent_request, target="assistant", messages=["chunk1", "chunk2"], authorization="Bearer token")
+    # Execute
+    await produce_agent_stream(mock_run_info, mock_memory_context, mock_agent_request, "Bearer token", run_stream)
+
+    # Assert: handshake, chunks and end of stream, numbered in order
+    events = await _collect(run_stream)
+    assert events == [
+        HANDSHAKE_EVENT,
+        {"type": "step_count", "content": "Step 1", "seq": 2},
+        {"type": "final_answer", "content": "done", "seq": 3},
+        {"type": "stream_end", "content": "", "seq": 4},
+    ]
+    assert run_stream.finished
+    mock_save_messages.assert_called_once_with(mock_agent_request, target="assistant", messages=[chunk1, chunk2], authorization="Bearer token", parent_message_id=None)
     mock_agent_run_manager.unregister_agent_run.assert_called_once_with(123)
 
     # Test debug mode: provide fresh generator
@@ -1819,46 +2041,146 @@ async def test_generate_stream(mock_agent_run_manager, mock_save_messages, mock_
     mock_agent_run_manager.unregister_agent_run.reset_mock()
 
     async def mock_streamer2():
-        yield "chunk1"
-        yield "chunk2"
+        yield chunk1
     mock_agent_run.return_value = mock_streamer2()
+    run_stream = AgentRunStream(user_id="test_user")
 
-    streamed_chunks = [chunk async for chunk in generate_stream(mock_run_info, mock_memory_context, mock_agent_request, "Bearer token")]
+    await produce_agent_stream(mock_run_info, mock_memory_context, mock_agent_request, "Bearer token", run_stream)
 
-    assert streamed_chunks == ["data: chunk1\n\n", "data: chunk2\n\n"]
+    assert [event["type"] for event in await _collect(run_stream)] == ["protocol_version", "step_count", "stream_end"]
     mock_save_messages.assert_not_called()
     mock_agent_run_manager.unregister_agent_run.assert_called_once_with(123)
 
 
 @pytest.mark.asyncio
+@patch('backend.services.agent_service.agent_run')
+@patch('backend.services.agent_service.save_messages')
+@patch('backend.services.agent_service.agent_run_manager')
+async def test_produce_agent_stream_message_saved(mock_agent_run_manager, mock_save_messages, mock_agent_run, mock_agent_request):
+    """Test produce_agent_stream announces the ids of the saved messages and saves the answer under the query."""
+    mock_save_messages.return_value = _done_future(8)
+
+    async def mock_streamer():
+        yield '{"type": "final_answer", "content": "done"}'
+
+    mock_agent_run.return_value = mock_streamer()
+    run_stream = AgentRunStream(user_id="test_user")
+
+    await produce_agent_stream(MagicMock(), MagicMock(), mock_agent_request, "Bearer token", run_stream,
+                               user_saved=_done_future(7))
+
+    events = await _collect(run_stream)
+    assert [event["type"] for event in events] == ["protocol_version", "message_saved", "final_answer", "message_saved", "stream_end"]
+    assert json.loads(events[1]["content"]) == {"role": "user", "message_id": 7}
+    assert json.loads(events[3]["content"]) == {"role": "assistant", "message_id": 8}
+    assert mock_save_messages.call_args.kwargs["parent_message_id"] == 7
+
+
+@pytest.mark.asyncio
+@patch('backend.services.agent_service.agent_run')
+@patch('backend.services.agent_service.save_messages')
+@patch('backend.services.agent_service.agent_run_manager')
+async def test_produce_agent_stream_error(mock_agent_run_manager, mock_save_messages, mock_agent_run, mock_agent_request):
+    """Test produce_agent_stream publishes an error event and still ends the stream when the agent fails."""
+    mock_save_messages.return_value = _done_future()
+
+    async def mock_streamer():
+        yield '{"type": "step_count", "content": "Step 1"}'
+        raise Exception("model unavailable")
+
+    mock_agent_run.return_value = mock_streamer()
+    run_stream = AgentRunStream(user_id="test_user")
+
+    await produce_agent_stream(MagicMock(), MagicMock(), mock_agent_request, "Bearer token", run_stream)
+
+    events = await _collect(run_stream)
+    assert [event["type"] for event in events] == ["protocol_version", "step_count", "error", "stream_end"]
+    assert "model unavailable" in events[2]["content"]
+    mock_save_messages.assert_called_once()
+    mock_agent_run_manager.unregister_agent_run.assert_called_once_with(123)
+
+
+@pytest.mark.asyncio
+async def test_generate_stream():
+    """Test generate_stream function."""
+    run_stream = AgentRunStream(user_id="test_user")
+    await run_stream.publish({"type": "final_answer", "content": "a"})
+    await run_stream.publish({"type": "final_answer", "content": "b"})
+    await run_stream.close()
+
+    streamed_chunks = [chunk async for chunk in generate_stream(run_stream)]
+    assert streamed_chunks == [
+        'data: {"type": "final_answer", "content": "a", "seq": 1}\n\n',
+        'data: {"type": "final_answer", "content": "b", "seq": 2}\n\n',
+    ]
+
+    # Replay only the events after the last received sequence id
+    streamed_chunks = [chunk async for chunk in generate_stream(run_stream, after_seq=1)]
+    assert streamed_chunks == ['data: {"type": "final_answer", "content": "b", "seq": 2}\n\n']
+
+
+@pytest.mark.asyncio
+@patch('backend.services.agent_service.produce_agent_stream', new_callable=AsyncMock)
 @patch('backend.services.agent_service.prepare_agent_run', new_callable=AsyncMock)
 @patch('backend.services.agent_service.save_messages')
 @patch('backend.services.agent_service.generate_stream')
-async def test_run_agent_stream(mock_generate_stream, mock_save_messages, mock_prepare_agent_run, mock_agent_request, mock_http_request):
+async def test_run_agent_stream(mock_generate_stream, mock_save_messages, mock_prepare_agent_run, mock_produce_agent_stream, mock_agent_request, mock_http_request):
     """Test run_agent_stream function."""
     # Setup
     mock_run_info = MagicMock()
     mock_memory_context = MagicMock()
-    mock_prepare_agent_run.return_value = (mock_run_info, mock_memory_context)
+    run_stream = AgentRunStream(user_id="test_user")
+    mock_prepare_agent_run.return_value = (mock_run_info, mock_memory_context, run_stream)
     
     # Execute
     response = await run_agent_stream(mock_agent_request, mock_http_request, "Bearer token")
+    await run_stream.task
 
     # Assert
     assert isinstance(response, StreamingResponse)
     mock_prepare_agent_run.assert_called_once_with(agent_request=mock_agent_request, http_request=mock_http_request, authorization="Bearer token")
     mock_save_messages.assert_called_once_with(mock_agent_request, target="user", authorization="Bearer token")
-    mock_generate_stream.assert_called_once_with(mock_run_info, mock_memory_context, mock_agent_request, "Bearer token")
+    mock_produce_agent_stream.assert_called_once_with(mock_run_info, mock_memory_context, mock_agent_request, "Bearer token", run_stream, mock_save_messages.return_value)
+    mock_generate_stream.assert_called_once_with(run_stream, 0)
 
     # Test debug mode
     mock_agent_request.is_debug = True
     mock_save_messages.reset_mock()
     
     await run_agent_stream(mock_agent_request, mock_http_request, "Bearer token")
+    await run_stream.task
     
     mock_save_messages.assert_not_called()
 
 
+@patch('backend.services.agent_service.generate_stream')
+@patch('backend.services.agent_service.agent_run_manager')
+@patch('backend.services.agent_service.get_current_user_id')
+def test_resume_agent_stream(mock_get_user_id, mock_agent_run_manager, mock_generate_stream):
+    """Test resume_agent_stream function."""
+    mock_get_user_id.return_value = ("test_user", "test_tenant")
+    run_stream = AgentRunStream(user_id="test_user")
+    mock_agent_run_manager.get_agent_run_stream.return_value = run_stream
+
+    response = resume_agent_stream(123, 5, "Bearer token")
+
+    assert isinstance(response, StreamingResponse)
+    mock_agent_run_manager.get_agent_run_stream.assert_called_once_with(123)
+    mock_generate_stream.assert_called_once_with(run_stream, 5)
+
+    # A finished run is no longer registered, its answer is in the history
+    mock_agent_run_manager.get_agent_run_stream.return_value = None
+    with pytest.raises(HTTPException) as excinfo:
+        resume_agent_stream(123, 5, "Bearer token")
+    assert excinfo.value.status_code == 404
+
+    # Runs of other users are not exposed
+    mock_agent_run_manager.get_agent_run_stream.return_value = AgentRunStream(user_id="other_user")
+    with pytest.raises(HTTPException) as excinfo:
+        resume_agent_stream(123, 5, "Bearer token")
+    assert excinfo.value.status_code == 404
+
+
 @patch('backend.services.agent_service.agent_run_manager')
 @patch('backend.services.agent_service.preprocess_manager')
 def test_stop_agent_tasks(mock_preprocess_manager, mock_agent_run_manager):
@@ -25,9 +25,23 @@ with patch('backend.database.client.MinioClient', return_value=minio_client_mock
         get_conversation_history_service,
         get_sources_service,
         generate_conversation_title_service,
-        update_message_opinion_service
+        update_message_opinion_service,
+        import_conversation_service,
+        search_conversations_service,
+        build_search_snippet,
+        organize_conversation_service,
+        pin_agent_version_service,
+        batch_delete_conversations_service,
+        batch_move_conversations_service,
+        create_tag_service,
+        rename_folder_service,
+        create_share_service,
+        get_shared_conversation_service,
+        redact_tool_inputs
     )
-from backend.consts.model import MessageRequest, AgentRequest, MessageUnit
+from backend.consts.model import MessageRequest, AgentRequest, MessageUnit, ConversationImportRequest, \
+    ConversationSearchRequest, ConversationOrganizeRequest, ConversationShareRequest, ConversationAgentPinRequest
+from fastapi import HTTPException
 
 
 class TestConversationManagementService(unittest.TestCase):
@@ -41,14 +55,17 @@ class TestConversationManagementService(unittest.TestCase):
         # Reset all mocks before each test
         minio_client_mock.reset_mock()
 
+    @patch('backend.services.conversation_management_service.get_latest_message_id')
     @patch('backend.services.conversation_management_service.create_conversation_message')
     @patch('backend.services.conversation_management_service.create_source_search')
     @patch('backend.services.conversation_management_service.create_source_image')
     @patch('backend.services.conversation_management_service.create_message_units')
     def test_save_message_with_string_content(self, mock_create_message_units, mock_create_source_image,
-                                             mock_create_source_search, mock_create_conversation_message):
+                                             mock_create_source_search, mock_create_conversation_message,
+                                             mock_get_latest_message_id):
         # Setup
         mock_create_conversation_message.return_value = 123  # message_id
+        mock_get_latest_message_id.return_value = 122
 
         # Create message request with string content
         message_request = MessageRequest(
@@ -65,7 +82,7 @@ class TestConversationManagementService(unittest.TestCase):
         # Assert
         self.assertEqual(result.code, 0)
         self.assertEqual(result.message, "success")
-        self.assertTrue(result.data)
+        self.assertEqual(result.data, 123)
 
         # Check if create_conversation_message was called with correct params
         mock_create_conversation_message.assert_called_once()
@@ -74,17 +91,21 @@ class TestConversationManagementService(unittest.TestCase):
         self.assertEqual(call_args['message_idx'], 1)
         self.assertEqual(call_args['role'], "user")
         self.assertEqual(call_args['content'], "Hello, this is a test message")
+        # Without a parent the message follows the latest message of the conversation
+        mock_get_latest_message_id.assert_called_once_with(456)
+        self.assertEqual(call_args['parent_message_id'], 122)
 
         # Check that other methods were not called
         mock_create_message_units.assert_not_called()
         mock_create_source_image.assert_not_called()
         mock_create_source_search.assert_not_called()
 
+    @patch('backend.services.conversation_management_service.get_latest_message_id')
     @patch('backend.services.conversation_management_service.create_conversation_message')
     @patch('backend.services.conversation_management_service.create_source_search')
     @patch('backend.services.conversation_management_service.create_message_units')
     def test_save_message_with_search_content(self, mock_create_message_units, mock_create_source_search,
-                                             mock_create_conversation_message):
+                                             mock_create_conversation_message, mock_get_latest_message_id):
         # Setup
         mock_create_conversation_message.return_value = 123  # message_id
 
@@ -139,6 +160,32 @@ class TestConversationManagementService(unittest.TestCase):
         self.assertEqual(len(units), 1)
         self.assertEqual(units[0]['type'], 'search_content_placeholder')
 
+    @patch('backend.services.conversation_management_service.get_latest_message_id')
+    @patch('backend.services.conversation_management_service.create_conversation_message')
+    def test_save_message_with_explicit_parent(self, mock_create_conversation_message, mock_get_latest_message_id):
+        # Setup: a branch is saved under the given parent, None makes it a first message
+        mock_create_conversation_message.return_value = 124
+
+        for parent_message_id in [7, None]:
+            mock_create_conversation_message.reset_mock()
+            message_request = MessageRequest(
+                conversation_id=456,
+                message_idx=0,
+                role="user",
+                message=[MessageUnit(type="string", content="Edited question")],
+                parent_message_id=parent_message_id
+            )
+
+            # Execute
+            result = save_message(message_request)
+
+            # Assert
+            self.assertEqual(result.data, 124)
+            call_args = mock_create_conversation_message.call_args[0][0]
+            self.assertEqual(call_args['parent_message_id'], parent_message_id)
+
+        mock_get_latest_message_id.assert_not_called()
+
     @patch('backend.services.conversation_management_service.save_message')
     def test_save_conversation_user(self, mock_save_message):
         # Setup
@@ -152,10 +199,13 @@ class TestConversationManagementService(unittest.TestCase):
             ]
         )
 
+        mock_save_message.return_value.data = 5
+
         # Execute
-        save_conversation_user(agent_request)
+        result = save_conversation_user(agent_request)
 
         # Assert
+        self.assertEqual(result, 5)
         mock_save_message.assert_called_once()
         request_arg = mock_save_message.call_args[0][0]
         self.assertEqual(request_arg.conversation_id, 123)
@@ -163,12 +213,31 @@ class TestConversationManagementService(unittest.TestCase):
         self.assertEqual(request_arg.role, "user")
         self.assertEqual(request_arg.message[0].type, "string")
         self.assertEqual(request_arg.message[0].content, "What is machine learning?")
+        self.assertNotIn('parent_message_id', request_arg.model_fields_set)
+
+    @patch('backend.services.conversation_management_service.get_message')
+    @patch('backend.services.conversation_management_service.save_message')
+    def test_save_conversation_user_with_parent(self, mock_save_message, mock_get_message):
+        agent_request = AgentRequest(conversation_id=123, query="Next question", history=[], parent_message_id=4)
+
+        # Following an assistant answer: the query is saved under it
+        mock_get_message.return_value = {"message_id": 4, "message_role": "assistant"}
+        mock_save_message.return_value.data = 5
+        self.assertEqual(save_conversation_user(agent_request), 5)
+        self.assertEqual(mock_save_message.call_args[0][0].parent_message_id, 4)
+
+        # Following a user message (edit, regenerate): that message is the query, nothing is saved
+        mock_save_message.reset_mock()
+        mock_get_message.return_value = {"message_id": 4, "message_role": "user"}
+        self.assertEqual(save_conversation_user(agent_request), 4)
+        mock_save_message.assert_not_called()
 
     @patch('backend.services.conversation_management_service.save_message')
     def test_save_conversation_assistant(self, mock_save_message):
         # Setup
         agent_request = AgentRequest(
             conversation_id=123,
+            agent_id=4,
             query="What is machine learning?",
             minio_files=[],
             history=[
@@ -182,20 +251,340 @@ class TestConversationManagementService(unittest.TestCase):
             json.dumps({"type": "model_output_thinking", "content": "a field of AI"})
         ]
 
+        mock_save_message.return_value.data = 6
+
         # Execute
-        save_conversation_assistant(agent_request, messages)
+        result = save_conversation_assistant(agent_request, messages, parent_message_id=5)
 
         # Assert
+        self.assertEqual(result, 6)
         mock_save_message.assert_called_once()
         request_arg = mock_save_message.call_args[0][0]
         self.assertEqual(request_arg.conversation_id, 123)
         self.assertEqual(request_arg.message_idx, 3)  # Based on 1 user message in history + current
         self.assertEqual(request_arg.role, "assistant")
+        self.assertEqual(request_arg.parent_message_id, 5)
+        self.assertEqual(request_arg.agent_id, 4)
         # Check that consecutive model_output_thinking messages were merged
         self.assertEqual(len(request_arg.message), 1)
         self.assertEqual(request_arg.message[0].type, "model_output_thinking")
         self.assertEqual(request_arg.message[0].content, "Machine learning is a field of AI")
 
+    @patch('backend.services.conversation_management_service.save_message')
+    @patch('backend.services.conversation_management_service.create_conversation')
+    def test_import_conversation_service(self, mock_create_conversation, mock_save_message):
+        # Setup: an exported branch, the user message was edited once
+        mock_create_conversation.return_value = {"conversation_id": 99, "conversation_title": "Imported"}
+        saved_ids = iter([201, 202, 203])
+        mock_save_message.side_effect = lambda request, authorization=None: MagicMock(data=next(saved_ids))
+        search_results = [{"title": "Doc", "url": "https://example.com", "text": "t", "cite_index": 1}]
+        request = ConversationImportRequest(title="Imported", messages=[
+            {"role": "user", "message": "Question", "message_id": 1, "parent_message_id": None,
+             "minio_files": [{"type": "pdf", "name": "a.pdf", "size": 1, "object_name": "a"}]},
+            {"role": "assistant", "message_id": 2, "parent_message_id": 1, "picture": ["https://example.com/a.png"],
+             "message": [
+                 {"type": "search_content_placeholder", "content": json.dumps({"placeholder": True, "unit_id": 7})},
+                 {"type": "final_answer", "content": "Answer"}
+             ], "searchByUnitId": {"7": search_results}},
+            {"role": "user", "message": [{"type": "string", "content": "Edited"}], "message_id": 3, "parent_message_id": None},
+        ])
+
+        # Execute
+        result = import_conversation_service(request, self.user_id, "Bearer token")
+
+        # Assert
+        self.assertEqual(result["conversation_id"], 99)
+        mock_create_conversation.assert_called_once_with("Imported", self.user_id)
+        requests = [call_args[0][0] for call_args in mock_save_message.call_args_list]
+        self.assertEqual([req.conversation_id for req in requests], [99, 99, 99])
+        self.assertEqual([req.parent_message_id for req in requests], [None, 201, None])
+        self.assertTrue(all('parent_message_id' in req.model_fields_set for req in requests))
+        self.assertEqual(requests[0].message[0].content, "Question")
+        self.assertEqual(requests[0].minio_files[0]["object_name"], "a")
+        self.assertEqual(requests[2].message[0].content, "Edited")
+
+        assistant_units = [(unit.type, unit.content) for unit in requests[1].message]
+        self.assertEqual(assistant_units[0], ("search_content", json.dumps(search_results, ensure_ascii=False)))
+        self.assertEqual(assistant_units[1], ("final_answer", "Answer"))
+        self.assertEqual(assistant_units[2], ("picture_web", json.dumps({"images_url": ["https://example.com/a.png"]})))
+
+    @patch('backend.services.conversation_management_service.save_message')
+    @patch('backend.services.conversation_management_service.create_conversation')
+    def test_import_conversation_service_legacy_messages(self, mock_create_conversation, mock_save_message):
+        # Messages exported before branching carry no parent and follow the previous message
+        mock_create_conversation.return_value = {"conversation_id": 99}
+        request = ConversationImportRequest(title="Old", messages=[{"role": "user", "message": "Hi", "message_id": 1}])
+
+        import_conversation_service(request, self.user_id)
+
+        self.assertNotIn('parent_message_id', mock_save_message.call_args[0][0].model_fields_set)
+
+    @patch('backend.services.conversation_management_service.create_conversation')
+    def test_import_conversation_service_invalid_role(self, mock_create_conversation):
+        mock_create_conversation.return_value = {"conversation_id": 99}
+        request = ConversationImportRequest(title="Bad", messages=[{"role": "system", "message": "x"}])
+
+        with self.assertRaises(Exception) as context:
+            import_conversation_service(request, self.user_id)
+        self.assertIn("invalid role", str(context.exception.detail))
+
+    def test_build_search_snippet(self):
+        content = "a" * 100 + " quarterly Contract renewal " + "b" * 100
+        snippet = build_search_snippet(content, "contract", radius=10)
+        self.assertEqual(snippet, "…quarterly Contract renewal b…")
+        self.assertEqual(build_search_snippet("short text", "short"), "short text")
+        self.assertEqual(build_search_snippet("line one\n\nline two", "missing"), "line one line two")
+
+    @patch('backend.services.conversation_management_service.search_conversation_messages')
+    def test_search_conversations_service(self, mock_search):
+        mock_search.return_value = [
+            {"conversation_id": 1, "conversation_title": "Contracts", "message_id": 10, "role": "assistant",
+             "match_type": "final_answer", "content": "The contract ends in May", "create_time": 2000},
+            {"conversation_id": 1, "conversation_title": "Contracts", "message_id": 10, "role": "assistant",
+             "match_type": "step", "content": "Searching contract", "create_time": 2000},
+            {"conversation_id": 2, "conversation_title": "Other", "message_id": 20, "role": "user",
+             "match_type": "user", "content": "Find the contract", "create_time": 1000},
+        ]
+
+        request = ConversationSearchRequest(query=" contract ", include_steps=True, agent_id=4, limit=500)
+        result = search_conversations_service(request, self.user_id)
+
+        self.assertEqual([hit["message_id"] for hit in result], [10, 20])
+        self.assertEqual(result[0]["match_type"], "final_answer")
+        self.assertEqual(result[0]["snippet"], "The contract ends in May")
+        self.assertNotIn("content", result[0])
+        mock_search.assert_called_once_with(
+            self.user_id, "contract", include_steps=True, agent_id=4, start_time=None, end_time=None,
+            has_attachments=False, limit=200
+        )
+
+    @patch('backend.services.conversation_management_service.search_conversation_messages')
+    def test_search_conversations_service_empty_query(self, mock_search):
+        result = search_conversations_service(ConversationSearchRequest(query="  "), self.user_id)
+
+        self.assertEqual(result, [])
+        mock_search.assert_not_called()
+
+    @patch('backend.services.conversation_management_service.set_conversation_tags')
+    @patch('backend.services.conversation_management_service.update_conversation_placement')
+    @patch('backend.services.conversation_management_service.get_folder')
+    @patch('backend.services.conversation_management_service.get_conversation')
+    def test_organize_conversation_service(self, mock_get_conversation, mock_get_folder, mock_update_placement,
+                                           mock_set_tags):
+        mock_get_conversation.return_value = {"conversation_id": 123}
+        mock_get_folder.return_value = {"folder_id": 7}
+
+        organize_conversation_service(ConversationOrganizeRequest(conversation_id=123, pinned=False, folder_id=7),
+                                      self.user_id)
+
+        mock_get_folder.assert_called_once_with(7, self.user_id)
+        mock_update_placement.assert_called_once_with(
+            [123], {"pinned_flag": 'N', "folder_id": 7, "sort_order": None}, self.user_id
+        )
+        mock_set_tags.assert_not_called()
+
+    @patch('backend.services.conversation_management_service.update_conversation_placement')
+    @patch('backend.services.conversation_management_service.get_conversation')
+    def test_organize_conversation_service_keeps_unsent_folder(self, mock_get_conversation, mock_update_placement):
+        mock_get_conversation.return_value = {"conversation_id": 123}
+
+        organize_conversation_service(ConversationOrganizeRequest(conversation_id=123, pinned=True), self.user_id)
+        mock_update_placement.assert_called_once_with([123], {"pinned_flag": 'Y', "sort_order": None}, self.user_id)
+
+        # An explicit null takes the conversation out of its folder
+        mock_update_placement.reset_mock()
+        organize_conversation_service(ConversationOrganizeRequest(conversation_id=123, folder_id=None), self.user_id)
+        mock_update_placement.assert_called_once_with([123], {"folder_id": None, "sort_order": None}, self.user_id)
+
+    @patch('backend.services.conversation_management_service.set_conversation_tags')
+    @patch('backend.services.conversation_management_service.get_tag_list')
+    @patch('backend.services.conversation_management_service.get_conversation')
+    def test_organize_conversation_service_tags(self, mock_get_conversation, mock_get_tag_list, mock_set_tags):
+        mock_get_conversation.return_value = {"conversation_id": 123}
+        mock_get_tag_list.return_value = [{"tag_id": 1, "name": "work", "color": "#1677ff"}]
+
+        organize_conversation_service(ConversationOrganizeRequest(conversation_id=123, tag_ids=[1]), self.user_id)
+        mock_set_tags.assert_called_once_with(123, [1], self.user_id)
+
+        with self.assertRaises(HTTPException) as context:
+            organize_conversation_service(ConversationOrganizeRequest(conversation_id=123, tag_ids=[1, 2]),
+                                          self.user_id)
+        self.assertEqual(context.exception.status_code, 404)
+        mock_set_tags.assert_called_once()
+
+    @patch('backend.services.conversation_management_service.update_conversation_agent_pin')
+    @patch('backend.services.conversation_management_service.search_agent_version')
+    def test_pin_agent_version_service(self, mock_search_version, mock_update_pin):
+        mock_search_version.return_value = {"agent_id": 2, "version_no": 3}
+        mock_update_pin.return_value = True
+
+        request = ConversationAgentPinRequest(conversation_id=123, agent_id=2, version_no=3)
+        self.assertTrue(pin_agent_version_service(request, self.user_id, self.tenant_id))
+        mock_search_version.assert_called_once_with(2, 3, self.tenant_id)
+        mock_update_pin.assert_called_once_with(123, 2, 3, self.user_id)
+
+        # Unpinning needs no version
+        mock_search_version.reset_mock()
+        pin_agent_version_service(ConversationAgentPinRequest(conversation_id=123), self.user_id, self.tenant_id)
+        mock_search_version.assert_not_called()
+        mock_update_pin.assert_called_with(123, None, None, self.user_id)
+
+    @patch('backend.services.conversation_management_service.update_conversation_agent_pin')
+    @patch('backend.services.conversation_management_service.search_agent_version')
+    def test_pin_agent_version_service_rejects_unknown_version(self, mock_search_version, mock_update_pin):
+        mock_search_version.side_effect = ValueError("agent version not found")
+
+        with self.assertRaises(HTTPException) as context:
+            pin_agent_version_service(ConversationAgentPinRequest(conversation_id=123, agent_id=2, version_no=9),
+                                      self.user_id, self.tenant_id)
+        self.assertEqual(context.exception.status_code, 404)
+
+        with self.assertRaises(HTTPException) as context:
+            pin_agent_version_service(ConversationAgentPinRequest(conversation_id=123, agent_id=2),
+                                      self.user_id, self.tenant_id)
+        self.assertEqual(context.exception.status_code, 400)
+        mock_update_pin.assert_not_called()
+
+    @patch('backend.services.conversation_management_service.get_conversation')
+    def test_organize_conversation_service_other_user(self, mock_get_conversation):
+        mock_get_conversation.return_value = None
+
+        with self.assertRaises(HTTPException) as context:
+            organize_conversation_service(ConversationOrganizeRequest(conversation_id=123, pinned=True), self.user_id)
+        self.assertEqual(context.exception.status_code, 404)
+        mock_get_conversation.assert_called_once_with(123, self.user_id)
+
+    @patch('backend.services.conversation_management_service.delete_conversation')
+    @patch('backend.services.conversation_management_service.get_conversation')
+    def test_batch_delete_conversations_service(self, mock_get_conversation, mock_delete_conversation):
+        # Conversation 2 belongs to another user
+        mock_get_conversation.side_effect = lambda conversation_id, user_id: \
+            None if conversation_id == 2 else {"conversation_id": conversation_id}
+        mock_delete_conversation.return_value = True
+
+        result = batch_delete_conversations_service([1, 2, 3], self.user_id)
+
+        self.assertEqual(result, 2)
+        self.assertEqual([c.args[0] for c in mock_delete_conversation.call_args_list], [1, 3])
+
+    @patch('backend.services.conversation_management_service.update_conversation_placement')
+    @patch('backend.services.conversation_management_service.get_folder')
+    def test_batch_move_conversations_service(self, mock_get_folder, mock_update_placement):
+        mock_get_folder.return_value = None
+
+        with self.assertRaises(HTTPException) as context:
+            batch_move_conversations_service([1, 2], 9, self.user_id)
+        self.assertEqual(context.exception.status_code, 404)
+        mock_update_placement.assert_not_called()
+
+        mock_update_placement.return_value = 2
+        self.assertEqual(batch_move_conversations_service([1, 2], None, self.user_id), 2)
+        mock_update_placement.assert_called_once_with(
+            [1, 2], {"pinned_flag": 'N', "folder_id": None, "sort_order": None}, self.user_id
+        )
+
+    @patch('backend.services.conversation_management_service.create_tag')
+    def test_create_tag_service(self, mock_create_tag):
+        mock_create_tag.return_value = {"tag_id": 1, "name": "work", "color": "#1677ff"}
+
+        self.assertEqual(create_tag_service(" work ", "#1677ff", self.user_id)["tag_id"], 1)
+        mock_create_tag.assert_called_once_with("work", "#1677ff", self.user_id)
+
+        for name, color in [("work", "blue"), ("", "#1677ff")]:
+            with self.assertRaises(HTTPException) as context:
+                create_tag_service(name, color, self.user_id)
+            self.assertEqual(context.exception.status_code, 400)
+
+    @patch('backend.services.conversation_management_service.rename_folder')
+    def test_rename_folder_service(self, mock_rename_folder):
+        mock_rename_folder.return_value = False
+
+        with self.assertRaises(HTTPException) as context:
+            rename_folder_service(7, "Projects", self.user_id)
+        self.assertEqual(context.exception.status_code, 404)
+        mock_rename_folder.assert_called_once_with(7, "Projects", self.user_id)
+
+    def test_redact_tool_inputs(self):
+        messages = [
+            {"role": "user", "message": "Run the report", "message_id": 1},
+            {"role": "assistant", "message_id": 2, "message": [
+                {"type": "model_output_code", "content": "report(token='secret')"},
+                {"type": "tool", "content": "{\"query\": \"secret\"}"},
+                {"type": "final_answer", "content": "Done"}
+            ]}
+        ]
+
+        result = redact_tool_inputs(messages)
+
+        self.assertEqual(result[0], messages[0])
+        self.assertEqual([unit["content"] for unit in result[1]["message"]], ["[redacted]", "[redacted]", "Done"])
+        # The history itself is left untouched
+        self.assertEqual(messages[1]["message"][0]["content"], "report(token='secret')")
+
+    @patch('backend.services.conversation_management_service.create_conversation_share')
+    @patch('backend.services.conversation_management_service.get_conversation_history_service')
+    @patch('backend.services.conversation_management_service.get_conversation')
+    def test_create_share_service(self, mock_get_conversation, mock_get_history, mock_create_share):
+        mock_get_conversation.return_value = {"conversation_id": 123, "conversation_title": "Q3 report"}
+        mock_get_history.return_value = [{"message": [
+            {"role": "assistant", "message": [{"type": "tool", "content": "args"}], "message_id": 2}
+        ]}]
+        mock_create_share.return_value = {"token": "abc"}
+
+        request = ConversationShareRequest(conversation_id=123, visibility="public", redact_tool_inputs=True)
+        result = create_share_service(request, self.user_id, self.tenant_id)
+
+        self.assertEqual(result, {"token": "abc"})
+        share_data = mock_create_share.call_args[0][0]
+        self.assertEqual(share_data["conversation_id"], 123)
+        self.assertEqual(share_data["tenant_id"], self.tenant_id)
+        self.assertEqual(share_data["visibility"], "public")
+        self.assertEqual(share_data["redact_flag"], 'Y')
+        self.assertTrue(share_data["share_token"])
+        snapshot = json.loads(share_data["snapshot_content"])
+        self.assertEqual(snapshot["title"], "Q3 report")
+        self.assertEqual(snapshot["message"][0]["message"][0]["content"], "[redacted]")
+
+    @patch('backend.services.conversation_management_service.get_conversation')
+    def test_create_share_service_other_user(self, mock_get_conversation):
+        mock_get_conversation.return_value = None
+
+        with self.assertRaises(HTTPException) as context:
+            create_share_service(ConversationShareRequest(conversation_id=123), self.user_id, self.tenant_id)
+        self.assertEqual(context.exception.status_code, 404)
+
+    @patch('backend.services.conversation_management_service.get_current_user_id')
+    @patch('backend.services.conversation_management_service.get_conversation_share_by_token')
+    def test_get_shared_conversation_service(self, mock_get_share, mock_get_current_user_id):
+        share = {"token": "abc", "visibility": "tenant", "tenant_id": self.tenant_id, "redact_tool_inputs": False,
+                 "create_time": 1000, "snapshot_content": json.dumps({"title": "Q3 report", "message": []})}
+        mock_get_share.return_value = share
+
+        mock_get_current_user_id.return_value = ("viewer", self.tenant_id)
+        result = get_shared_conversation_service("abc", "Bearer token")
+        self.assertEqual(result, {"title": "Q3 report", "create_time": 1000, "visibility": "tenant",
+                                  "redact_tool_inputs": False, "message": []})
+
+        # Users of another tenant are refused
+        mock_get_current_user_id.return_value = ("viewer", "other_tenant")
+        with self.assertRaises(HTTPException) as context:
+            get_shared_conversation_service("abc", "Bearer token")
+        self.assertEqual(context.exception.status_code, 403)
+
+        # Public links need no session
+        mock_get_current_user_id.reset_mock()
+        mock_get_share.return_value = {**share, "visibility": "public"}
+        self.assertEqual(get_shared_conversation_service("abc")["title"], "Q3 report")
+        mock_get_current_user_id.assert_not_called()
+
+    @patch('backend.services.conversation_management_service.get_conversation_share_by_token')
+    def test_get_shared_conversation_service_revoked(self, mock_get_share):
+        mock_get_share.return_value = None
+
+        with self.assertRaises(HTTPException) as context:
+            get_shared_conversation_service("abc")
+        self.assertEqual(context.exception.status_code, 404)
+
     def test_extract_user_messages(self):
         # Setup
         history = [
@@ -337,6 +726,7 @@ USER_PROMPT: "Generate a title for: {{content}}"
                 },
                 {
                     "message_id": 2,
+                    "parent_message_id": 1,
                     "role": "assistant",
                     "message_content": "AI stands for Artificial Intelligence.",
                     "units": [],
@@ -362,6 +752,7 @@ USER_PROMPT: "Generate a title for: {{content}}"
 
         assistant_message = result[0]["message"][1]
         self.assertEqual(assistant_message["role"], "assistant")
+        self.assertEqual(assistant_message["parent_message_id"], 1)
         self.assertEqual(len(assistant_message["message"]), 1)  # Contains final_answer unit
         self.assertEqual(assistant_message["message"][0]["type"], "final_answer")
         self.assertEqual(assistant_message["message"][0]["content"], "AI stands for Artificial Intelligence.")
@@ -0,0 +1,108 @@
+import sys
+import unittest
+from unittest.mock import MagicMock, patch
+
+# Mock the database before importing the module under test
+sys.modules['database.knowledge_db'] = MagicMock()
+sys.modules['database.knowledge_document_db'] = MagicMock()
+
+from backend.services.document_attribute_service import get_metadata_fields_service, parse_document_attributes, \
+    update_document_attributes_service
+from backend.consts.model import DocumentAttributesRequest
+from fastapi import HTTPException
+
+SERVICE = 'backend.services.document_attribute_service'
+
+FIELDS = [
+    {"key": "department", "label": "Department", "type": "text", "options": None},
+    {"key": "confidentiality", "label": "Confidentiality", "type": "select", "options": ["public", "secret"]},
+    {"key": "effective_date", "label": "Effective date", "type": "date", "options": None},
+    {"key": "tags", "label": "Tags", "type": "tags", "options": None},
+]
+
+
+class TestDocumentAttributeService(unittest.TestCase):
+    def setUp(self):
+        self.tenant_id = "test_tenant_id"
+        self.user_id = "test_user_id"
+        self.es_core = MagicMock()
+
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_default_metadata_fields(self, mock_get_record):
+        mock_get_record.return_value = {"index_name": "kb", "metadata_fields": None}
+
+        fields = get_metadata_fields_service("kb", self.tenant_id)
+
+        self.assertEqual([field["key"] for field in fields], ["department", "confidentiality", "effective_date",
+                                                              "tags"])
+
+    @patch(f'{SERVICE}.get_document_attributes', return_value={})
+    @patch(f'{SERVICE}.save_document_attributes')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_update_document_attributes(self, mock_get_record, mock_save, mock_get_attributes):
+        mock_get_record.return_value = {"index_name": "kb", "metadata_fields": FIELDS}
+        self.es_core.update_document_attributes.return_value = 3
+        request = DocumentAttributesRequest(
+            path_or_url="minio/doc.pdf",
+            metadata={"department": "finance", "confidentiality": "secret", "effective_date": "2026-01-31",
+                      "tags": ["q3"], "effective_from": "", "owner": "kept"},
+            visibility={"restricted": True, "roles": ["admin"]}
+        )
+
+        result = update_document_attributes_service("kb", request, self.tenant_id, self.user_id, self.es_core)
+
+        # Empty values are dropped, values of removed fields are kept
+        metadata = {"department": "finance", "confidentiality": "secret", "effective_date": "2026-01-31",
+                    "tags": ["q3"], "owner": "kept"}
+        visibility = {"restricted": True, "users": [], "roles": ["admin"]}
+        mock_save.assert_called_once_with("kb", "minio/doc.pdf", metadata, visibility, self.tenant_id, self.user_id)
+        self.es_core.update_document_attributes.assert_called_once_with("kb", "minio/doc.pdf", metadata, visibility)
+        self.assertEqual(result, {"updated_chunks": 3})
+
+    @patch(f'{SERVICE}.get_document_attributes')
+    @patch(f'{SERVICE}.save_document_attributes')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_update_hidden_document(self, mock_get_record, mock_save, mock_get_attributes):
+        mock_get_record.return_value = {"index_name": "kb", "metadata_fields": FIELDS}
+        mock_get_attributes.return_value = {"minio/doc.pdf": {"metadata": {}, "visibility": {
+            "restricted": True, "users": ["owner_id"], "roles": ["admin"]}}}
+        request = DocumentAttributesRequest(path_or_url="minio/doc.pdf", visibility={"restricted": False})
+
+        # A user outside the audience can neither see nor lift the restriction
+        with self.assertRaises(HTTPException) as context:
+            update_document_attributes_service("kb", request, self.tenant_id, self.user_id, self.es_core,
+                                               {"users": [self.user_id], "roles": ["user"]})
+        self.assertEqual(context.exception.status_code, 404)
+        mock_save.assert_not_called()
+        self.es_core.update_document_attributes.assert_not_called()
+
+    @patch(f'{SERVICE}.get_document_attributes', return_value={})
+    @patch(f'{SERVICE}.save_document_attributes')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_invalid_metadata_values(self, mock_get_record, mock_save, mock_get_attributes):
+        mock_get_record.return_value = {"index_name": "kb", "metadata_fields": FIELDS}
+
+        for metadata in ({"confidentiality": "top"}, {"effective_date": "31/01/2026"}, {"tags": "q3"},
+                         {"department": ["finance"]}):
+            with self.assertRaises(HTTPException) as context:
+                update_document_attributes_service("kb", DocumentAttributesRequest(path_or_url="doc", metadata=metadata),
+                                                   self.tenant_id, self.user_id, self.es_core)
+            self.assertEqual(context.exception.status_code, 400)
+        mock_save.assert_not_called()
+        self.es_core.update_document_attributes.assert_not_called()
+
+    def test_parse_form_attributes(self):
+        self.assertIsNone(parse_document_attributes(None, None))
+
+        attributes = parse_document_attributes('{"department": "finance"}', None)
+        self.assertEqual(attributes.metadata, {"department": "finance"})
+        self.assertFalse(attributes.visibility.restricted)
+
+        # A restricted document must be visible to someone
+        with self.assertRaises(HTTPException) as context:
+            parse_document_attributes(None, '{"restricted": true, "users": [], "roles": []}')
+        self.assertEqual(context.exception.status_code, 400)
+
+
+if __name__ == '__main__':
+    unittest.main()
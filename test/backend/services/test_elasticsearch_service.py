@@ -100,6 +100,13 @@ class TestElasticSearchService(unittest.TestCase):
         self.mock_embedding.model = "test-model"
         self.mock_get_embedding.return_value = self.mock_embedding
 
+        # Documents have no metadata or visibility unless a test sets them
+        self.get_attributes_patcher = patch('backend.services.elasticsearch_service.get_document_attributes',
+                                            return_value={})
+        self.mock_get_attributes = self.get_attributes_patcher.start()
+        self.delete_attributes_patcher = patch('backend.services.elasticsearch_service.delete_document_attributes')
+        self.mock_delete_attributes = self.delete_attributes_patcher.start()
+
         ElasticSearchService.accurate_search = staticmethod(_accurate_search_impl)
         ElasticSearchService.semantic_search = staticmethod(_semantic_search_impl)
         ElasticSearchService.hybrid_search = staticmethod(_hybrid_search_impl)
@@ -107,6 +114,8 @@ class TestElasticSearchService(unittest.TestCase):
     def tearDown(self):
         """Clean up resources after each test."""
         self.get_embedding_model_patcher.stop()
+        self.get_attributes_patcher.stop()
+        self.delete_attributes_patcher.stop()
         del ElasticSearchService.accurate_search
         del ElasticSearchService.semantic_search
         del ElasticSearchService.hybrid_search
@@ -436,6 +445,34 @@ class TestElasticSearchService(unittest.TestCase):
         self.assertEqual(result["total_submitted"], 2)
         self.mock_es_core.index_documents.assert_called_once()
 
+    def test_index_documents_with_attributes(self):
+        """
+        Test that the metadata and visibility of a document are stamped on its chunks.
+        """
+        self.mock_es_core.client.indices.exists.return_value = True
+        self.mock_es_core.index_documents.return_value = 2
+        visibility = {"restricted": True, "users": ["cfo@example.com"], "roles": []}
+        self.mock_get_attributes.return_value = {"doc.pdf": {"metadata": {"department": "finance"},
+                                                             "visibility": visibility}}
+        test_data = [
+            {"metadata": {}, "path_or_url": "doc.pdf", "content": "First", "source_type": "minio"},
+            {"metadata": {}, "path_or_url": "other.pdf", "content": "Second", "source_type": "minio"}
+        ]
+
+        ElasticSearchService.index_documents(
+            index_name="test_index",
+            data=test_data,
+            es_core=self.mock_es_core,
+            embedding_model=self.mock_embedding
+        )
+
+        self.mock_get_attributes.assert_called_once_with("test_index", ["doc.pdf", "other.pdf"])
+        self.mock_es_core.ensure_document_attribute_mapping.assert_called_once_with("test_index")
+        documents = self.mock_es_core.index_documents.call_args.kwargs["documents"]
+        self.assertEqual(documents[0]["doc_metadata"], {"department": "finance"})
+        self.assertEqual(documents[0]["visibility"], visibility)
+        self.assertNotIn("visibility", documents[1])
+
     def test_index_documents_empty_data(self):
         """
         Test document indexing with empty data.
@@ -692,6 +729,7 @@ class TestElasticSearchService(unittest.TestCase):
         self.assertEqual(result["status"], "success")
         # Verify that delete_documents_by_path_or_url was called with correct parameters
         self.mock_es_core.delete_documents_by_path_or_url.assert_called_once_with("test_index", "test_path")
+        self.mock_delete_attributes.assert_called_once_with("test_index", "test_path")
 
     def test_accurate_search(self):
         """
@@ -1307,5 +1345,119 @@ class TestElasticSearchService(unittest.TestCase):
         self.assertEqual(result["status"], "success")
         mock_get_record.assert_called_once_with({'index_name': 'test_index'})
 
+    def _document_chunks(self):
+        return [
+            {"chunk_id": "c0", "id": "a", "path_or_url": "doc.pdf", "content": "first", "position": 0, "page": 1},
+            {"chunk_id": "c1", "id": "b", "path_or_url": "doc.pdf", "content": "second", "position": 1, "page": 1,
+             "chunk_metadata": {"section": "intro"}},
+            {"chunk_id": "c2", "id": "c", "path_or_url": "doc.pdf", "content": "third", "position": 2, "page": 2},
+        ]
+
+    @patch('backend.services.elasticsearch_service.count_tokens', return_value=3)
+    def test_list_chunks(self, mock_count_tokens):
+        """Chunks indexed without a position are numbered by their order"""
+        chunks = self._document_chunks()
+        del chunks[2]["position"]
+        self.mock_es_core.get_document_chunks.return_value = chunks
+
+        result = ElasticSearchService.list_chunks("test_index", "doc.pdf", self.mock_es_core)
+
+        self.assertEqual(result["status"], "success")
+        self.assertEqual([chunk["position"] for chunk in result["chunks"]], [0, 1, 2])
+        self.assertEqual(result["chunks"][1], {"id": "c1", "content": "second", "position": 1, "page": 1,
+                                               "token_count": 3, "metadata": {"section": "intro"}, "edited": False})
+
+    @patch('backend.services.elasticsearch_service.count_tokens', return_value=3)
+    def test_chunks_of_restricted_document_hidden_outside_audience(self, mock_count_tokens):
+        chunks = [{**chunk, "visibility": {"restricted": True, "users": ["owner@example.com"], "roles": ["admin"]}}
+                  for chunk in self._document_chunks()]
+        self.mock_es_core.get_document_chunks.return_value = chunks
+        self.mock_es_core.get_chunk.return_value = dict(chunks[1])
+        outsider = {"users": ["user_id", "user@example.com"], "roles": ["user"]}
+
+        for operation in (
+                lambda: ElasticSearchService.list_chunks("test_index", "doc.pdf", self.mock_es_core, outsider),
+                lambda: ElasticSearchService.update_chunk("test_index", "c1", "text", {}, MagicMock(),
+                                                          self.mock_es_core, outsider),
+                lambda: ElasticSearchService.create_chunk("test_index", "doc.pdf", 1, "added", {}, MagicMock(),
+                                                          self.mock_es_core, outsider),
+                lambda: ElasticSearchService.delete_chunk("test_index", "c1", self.mock_es_core, outsider)):
+            with self.assertRaises(HTTPException) as context:
+                operation()
+            self.assertEqual(context.exception.status_code, 404)
+        self.mock_es_core.save_chunk.assert_not_called()
+        self.mock_es_core.delete_chunks.assert_not_called()
+
+        # The roles of the audience see the document
+        admin = {"users": ["admin_id"], "roles": ["admin"]}
+        result = ElasticSearchService.list_chunks("test_index", "doc.pdf", self.mock_es_core, admin)
+        self.assertEqual(len(result["chunks"]), 3)
+
+    def test_update_chunk_requires_embedding_model(self):
+        with self.assertRaises(HTTPException) as context:
+            ElasticSearchService.update_chunk("test_index", "c1", "text", {}, None, self.mock_es_core)
+        self.assertEqual(context.exception.status_code, 400)
+        self.mock_es_core.save_chunk.assert_not_called()
+
+    def test_update_chunk_not_found(self):
+        self.mock_es_core.get_chunk.return_value = None
+        with self.assertRaises(HTTPException) as context:
+            ElasticSearchService.update_chunk("test_index", "c9", "text", {}, MagicMock(), self.mock_es_core)
+        self.assertEqual(context.exception.status_code, 404)
+
+    def test_create_chunk_moves_following_chunks(self):
+        chunks = self._document_chunks()
+        self.mock_es_core.get_document_chunks.return_value = chunks
+        self.mock_es_core.save_chunk.return_value = "new"
+
+        result = ElasticSearchService.create_chunk("test_index", "doc.pdf", 1, "added", {"k": "v"}, MagicMock(),
+                                                   self.mock_es_core)
+
+        saved = self.mock_es_core.save_chunk.call_args[0][1]
+        self.assertEqual(saved["path_or_url"], "doc.pdf")
+        self.assertEqual((saved["content"], saved["position"], saved["edited"]), ("added", 1, True))
+        self.assertNotIn("id", saved)
+        self.mock_es_core.update_chunk_positions.assert_called_once_with("test_index", {"c1": 2, "c2": 3})
+        self.assertEqual(result["chunk"]["id"], "new")
+
+    def test_merge_chunks(self):
+        chunks = self._document_chunks()
+        self.mock_es_core.get_chunk.return_value = dict(chunks[1])
+        self.mock_es_core.get_document_chunks.return_value = chunks
+
+        result = ElasticSearchService.merge_chunks("test_index", ["c1", "c2"], MagicMock(), self.mock_es_core)
+
+        saved = self.mock_es_core.save_chunk.call_args
+        self.assertEqual(saved[0][1]["content"], "second\nthird")
+        self.assertEqual(saved[1]["chunk_id"], "c1")
+        self.mock_es_core.delete_chunks.assert_called_once_with("test_index", ["c2"])
+        self.assertEqual(result["chunk"]["metadata"], {"section": "intro"})
+
+    def test_merge_chunks_rejects_non_adjacent(self):
+        chunks = self._document_chunks()
+        self.mock_es_core.get_chunk.return_value = dict(chunks[0])
+        self.mock_es_core.get_document_chunks.return_value = chunks
+
+        with self.assertRaises(HTTPException) as context:
+            ElasticSearchService.merge_chunks("test_index", ["c0", "c2"], MagicMock(), self.mock_es_core)
+        self.assertEqual(context.exception.status_code, 400)
+        self.mock_es_core.save_chunk.assert_not_called()
+
+    def test_split_chunk(self):
+        chunks = self._document_chunks()
+        self.mock_es_core.get_chunk.return_value = {**chunks[0], "content": "left part right part"}
+        self.mock_es_core.get_document_chunks.return_value = chunks
+        self.mock_es_core.save_chunk.side_effect = ["c0", "tail"]
+
+        result = ElasticSearchService.split_chunk("test_index", "c0", 10, MagicMock(), self.mock_es_core)
+
+        self.assertEqual([chunk["content"] for chunk in result["chunks"]], ["left part", "right part"])
+        self.assertEqual([chunk["position"] for chunk in result["chunks"]], [0, 1])
+        self.mock_es_core.update_chunk_positions.assert_called_once_with("test_index", {"c1": 2, "c2": 3})
+
+        with self.assertRaises(HTTPException) as context:
+            ElasticSearchService.split_chunk("test_index", "c0", 100, MagicMock(), self.mock_es_core)
+        self.assertEqual(context.exception.status_code, 400)
+
 if __name__ == '__main__':
     unittest.main()
@@ -0,0 +1,147 @@
+import unittest
+from unittest.mock import patch, MagicMock
+
+# Mock boto3 and minio client before importing the module under test
+import sys
+boto3_mock = MagicMock()
+sys.modules['boto3'] = boto3_mock
+
+minio_client_mock = MagicMock()
+with patch('backend.database.client.MinioClient', return_value=minio_client_mock):
+    from backend.services.evaluation_service import (
+        save_suite_service,
+        delete_suite_service,
+        list_reports_service,
+        save_report_service,
+        parse_judge_verdict,
+        judge_answer_service
+    )
+from backend.consts.model import EvaluationSuiteRequest, EvaluationReportRequest, EvaluationJudgeRequest
+from fastapi import HTTPException
+
+
+class TestEvaluationService(unittest.TestCase):
+    def setUp(self):
+        self.tenant_id = "test_tenant_id"
+        self.user_id = "test_user_id"
+        self.case = {"id": "c1", "question": "What is the Q3 revenue?", "expected": "12%", "scorer": "contains"}
+
+    @patch('backend.services.evaluation_service.create_suite')
+    @patch('backend.services.evaluation_service.search_agent_info_by_agent_id')
+    def test_save_suite_service_creates_suite(self, mock_search_agent, mock_create_suite):
+        mock_create_suite.return_value = {"suite_id": 1, "agent_id": 7, "name": "Finance", "cases": []}
+
+        request = EvaluationSuiteRequest(agent_id=7, name=" Finance ", cases=[self.case])
+        result = save_suite_service(request, self.tenant_id, self.user_id)
+
+        mock_search_agent.assert_called_once_with(7, self.tenant_id)
+        cases = mock_create_suite.call_args[0][2]
+        self.assertEqual(cases[0]["required_tools"], [])
+        self.assertEqual(mock_create_suite.call_args[0][1], "Finance")
+        self.assertEqual(result["suite_id"], 1)
+
+    @patch('backend.services.evaluation_service.create_suite')
+    @patch('backend.services.evaluation_service.search_agent_info_by_agent_id')
+    def test_save_suite_service_unknown_agent(self, mock_search_agent, mock_create_suite):
+        mock_search_agent.side_effect = ValueError("agent not found")
+
+        with self.assertRaises(HTTPException) as context:
+            save_suite_service(EvaluationSuiteRequest(agent_id=7, name="Finance"), self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 404)
+        mock_create_suite.assert_not_called()
+
+    def test_save_suite_service_rejects_duplicate_case_ids(self):
+        request = EvaluationSuiteRequest(agent_id=7, name="Finance", cases=[self.case, self.case])
+        with self.assertRaises(HTTPException) as context:
+            save_suite_service(request, self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 400)
+
+    @patch('backend.services.evaluation_service.update_suite')
+    @patch('backend.services.evaluation_service.get_suite')
+    def test_save_suite_service_updates_suite_of_same_agent(self, mock_get_suite, mock_update_suite):
+        mock_get_suite.return_value = {"suite_id": 1, "agent_id": 7}
+
+        save_suite_service(EvaluationSuiteRequest(suite_id=1, agent_id=7, name="Finance"), self.tenant_id, self.user_id)
+        mock_update_suite.assert_called_once_with(1, "Finance", [], self.tenant_id, self.user_id)
+
+        with self.assertRaises(HTTPException) as context:
+            save_suite_service(EvaluationSuiteRequest(suite_id=1, agent_id=8, name="Finance"),
+                               self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 400)
+
+    @patch('backend.services.evaluation_service.delete_suite')
+    def test_delete_suite_service_not_found(self, mock_delete_suite):
+        mock_delete_suite.return_value = False
+
+        with self.assertRaises(HTTPException) as context:
+            delete_suite_service(1, self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 404)
+
+    @patch('backend.services.evaluation_service.get_report_list')
+    @patch('backend.services.evaluation_service.get_suite')
+    def test_list_reports_service_other_tenant(self, mock_get_suite, mock_get_report_list):
+        mock_get_suite.return_value = None
+
+        with self.assertRaises(HTTPException) as context:
+            list_reports_service(1, self.tenant_id)
+        self.assertEqual(context.exception.status_code, 404)
+        mock_get_report_list.assert_not_called()
+
+    @patch('backend.services.evaluation_service.create_report')
+    @patch('backend.services.evaluation_service.get_suite')
+    def test_save_report_service(self, mock_get_suite, mock_create_report):
+        mock_get_suite.return_value = {"suite_id": 1, "agent_id": 7}
+        result = {"case_id": "c1", "question": "q", "passed": False,
+                  "checks": [{"kind": "tool", "target": "knowledge_base_search", "passed": False}]}
+
+        save_report_service(EvaluationReportRequest(suite_id=1, agent_id=7, version_no=3, results=[result]),
+                            self.tenant_id, self.user_id)
+
+        args = mock_create_report.call_args[0]
+        self.assertEqual(args[:3], (1, 7, 3))
+        self.assertEqual(args[3][0]["checks"][0]["target"], "knowledge_base_search")
+
+        with self.assertRaises(HTTPException) as context:
+            save_report_service(EvaluationReportRequest(suite_id=1, agent_id=8, results=[]),
+                                self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 400)
+
+    def test_parse_judge_verdict(self):
+        self.assertEqual(parse_judge_verdict('<think>is {x} in it?</think>```json\n{"passed": true, "reason": "ok"}\n```'),
+                         {"passed": True, "reason": "ok"})
+        self.assertEqual(parse_judge_verdict('{"passed": false}'), {"passed": False, "reason": ""})
+        for content in ['yes', '{"passed": "yes"}', '{"passed": true']:
+            with self.assertRaises(ValueError):
+                parse_judge_verdict(content)
+
+    @patch('backend.services.evaluation_service.OpenAIServerModel')
+    @patch('backend.services.evaluation_service.tenant_config_manager')
+    @patch('backend.services.evaluation_service.get_model_by_display_name')
+    def test_judge_answer_service_uses_secondary_model(self, mock_get_model, mock_config_manager, mock_model_class):
+        mock_get_model.return_value = None
+        mock_config_manager.get_model_config.return_value = {
+            "model_name": "Qwen2.5-7B", "model_repo": "Qwen", "base_url": "http://llm", "api_key": "key"
+        }
+        mock_llm = MagicMock()
+        mock_llm.return_value.content = '{"passed": true, "reason": "mentions 12%"}'
+        mock_model_class.return_value = mock_llm
+
+        verdict = judge_answer_service(EvaluationJudgeRequest(question="q", expected="12%", answer="It grew 12%",
+                                                              model_display_name="unknown"),
+                                       self.tenant_id, "en")
+
+        mock_config_manager.get_model_config.assert_called_once_with(key="LLM_SECONDARY_ID", tenant_id=self.tenant_id)
+        self.assertEqual(verdict, {"passed": True, "reason": "mentions 12%"})
+        self.assertIn("It grew 12%", mock_llm.call_args[0][0][1]["content"])
+
+    @patch('backend.services.evaluation_service.tenant_config_manager')
+    def test_judge_answer_service_without_model(self, mock_config_manager):
+        mock_config_manager.get_model_config.return_value = {}
+
+        with self.assertRaises(HTTPException) as context:
+            judge_answer_service(EvaluationJudgeRequest(question="q", expected="e", answer="a"), self.tenant_id)
+        self.assertEqual(context.exception.status_code, 400)
+
+
+if __name__ == '__main__':
+    unittest.main()
@@ -0,0 +1,120 @@
+import asyncio
+import json
+import sys
+import unittest
+from unittest.mock import AsyncMock, MagicMock, patch
+
+# Mock the search backends, the database and the other services before importing the module under test
+sys.modules['services.elasticsearch_service'] = MagicMock()
+sys.modules['services.knowledge_source_service'] = MagicMock()
+sys.modules['database.knowledge_db'] = MagicMock()
+sys.modules['database.knowledge_source_db'] = MagicMock()
+sys.modules['utils.file_management_utils'] = MagicMock()
+
+from backend.services.ingestion_profile_service import get_ingestion_profile_service, preview_chunking_service, \
+    reprocess_service
+from fastapi import HTTPException
+
+SERVICE = 'backend.services.ingestion_profile_service'
+
+PROFILE = {"chunk_size": 256, "chunk_overlap": 32, "split_by": "sentence", "ocr": False,
+           "table_mode": "text", "language": "en"}
+
+
+class TestIngestionProfileService(unittest.TestCase):
+    def setUp(self):
+        self.tenant_id = "test_tenant_id"
+        self.es_core = MagicMock()
+
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_get_default_profile(self, mock_get_record):
+        mock_get_record.return_value = {"index_name": "kb", "ingestion_profile": None}
+
+        profile = get_ingestion_profile_service("kb", self.tenant_id)
+
+        self.assertEqual(profile["chunk_size"], 512)
+        self.assertEqual(profile["split_by"], "heading")
+
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_get_profile_of_missing_knowledge_base(self, mock_get_record):
+        mock_get_record.return_value = {}
+
+        with self.assertRaises(HTTPException) as context:
+            get_ingestion_profile_service("kb", self.tenant_id)
+        self.assertEqual(context.exception.status_code, 404)
+
+    @patch(f'{SERVICE}.count_tokens')
+    @patch(f'{SERVICE}.split_document')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_preview(self, mock_get_record, mock_split, mock_count_tokens):
+        mock_get_record.return_value = {"index_name": "kb"}
+        mock_split.return_value = [{"content": "First chunk", "page": 1}, {"content": "Second", "page": 2}]
+        mock_count_tokens.side_effect = lambda text: len(text.split())
+
+        result = preview_chunking_service("kb", "doc.pdf", b"content", json.dumps(PROFILE))
+
+        self.assertEqual(mock_split.call_args.args, ("doc.pdf", b"content", PROFILE))
+        self.assertEqual(result["chunks"], [{"content": "First chunk", "page": 1, "token_count": 2},
+                                            {"content": "Second", "page": 2, "token_count": 1}])
+        self.assertEqual(result["total_tokens"], 3)
+
+    @patch(f'{SERVICE}.split_document')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_preview_with_invalid_profile(self, mock_get_record, mock_split):
+        mock_get_record.return_value = {"index_name": "kb"}
+
+        with self.assertRaises(HTTPException) as context:
+            preview_chunking_service("kb", "doc.pdf", b"content",
+                                     json.dumps({**PROFILE, "chunk_overlap": 256}))
+        self.assertEqual(context.exception.status_code, 400)
+        mock_split.assert_not_called()
+
+    @patch(f'{SERVICE}.start_source_sync')
+    @patch(f'{SERVICE}.trigger_data_process', new_callable=AsyncMock)
+    @patch(f'{SERVICE}.get_source_documents')
+    @patch(f'{SERVICE}.get_source_list')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_reprocess(self, mock_get_record, mock_get_sources, mock_get_documents, mock_trigger, mock_start):
+        mock_get_record.return_value = {"index_name": "kb", "ingestion_profile": PROFILE}
+        sources = [{"source_id": 1}, {"source_id": 2}]
+        mock_get_sources.return_value = sources
+        mock_get_documents.side_effect = lambda source_id: {"https://example.com/a": "hash"} if source_id == 1 else {}
+        self.es_core.get_file_list_with_details.return_value = [
+            {"path_or_url": "minio/doc.pdf", "filename": "doc.pdf"},
+            {"path_or_url": "https://example.com/a", "filename": "a.html"},
+        ]
+        mock_trigger.return_value = {"task_ids": ["task_1"]}
+        # The second source is syncing already
+        mock_start.side_effect = [{"run_id": 1}, HTTPException(status_code=409)]
+
+        result = asyncio.run(reprocess_service("kb", self.tenant_id, "Bearer token", self.es_core))
+
+        # Only the uploaded file goes to the data process, the synced document is processed by its source
+        files, process_params = mock_trigger.call_args.args
+        self.assertEqual(files, [{"path_or_url": "minio/doc.pdf", "filename": "doc.pdf"}])
+        self.assertEqual(process_params.chunking_strategy, "basic")
+        self.assertEqual(process_params.additional_params["max_characters"], 1024)
+        self.es_core.delete_documents_by_path_or_url.assert_called_once_with("kb", "minio/doc.pdf")
+        self.assertEqual(mock_start.call_args_list[0].kwargs, {"force": True})
+        self.assertEqual(result, {"documents": 1, "sources": 1})
+
+    @patch(f'{SERVICE}.start_source_sync')
+    @patch(f'{SERVICE}.trigger_data_process', new_callable=AsyncMock)
+    @patch(f'{SERVICE}.get_source_list')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_reprocess_keeps_chunks_when_data_process_fails(self, mock_get_record, mock_get_sources, mock_trigger,
+                                                            mock_start):
+        mock_get_record.return_value = {"index_name": "kb", "ingestion_profile": None}
+        mock_get_sources.return_value = []
+        self.es_core.get_file_list_with_details.return_value = [{"path_or_url": "minio/doc.pdf",
+                                                                 "filename": "doc.pdf"}]
+        mock_trigger.return_value = {"status": "error", "message": "Data process service error: 503"}
+
+        with self.assertRaises(HTTPException) as context:
+            asyncio.run(reprocess_service("kb", self.tenant_id, "Bearer token", self.es_core))
+        self.assertEqual(context.exception.status_code, 500)
+        self.es_core.delete_documents_by_path_or_url.assert_not_called()
+
+
+if __name__ == '__main__':
+    unittest.main()
@@ -0,0 +1,284 @@
+import asyncio
+import hashlib
+import os
+import sys
+import tempfile
+import threading
+import unittest
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+from unittest.mock import MagicMock, patch
+
+# Mock the search backends and the database before importing the module under test
+sys.modules['services.elasticsearch_service'] = MagicMock()
+sys.modules['database.attachment_db'] = MagicMock()
+sys.modules['database.knowledge_db'] = MagicMock()
+sys.modules['database.knowledge_document_db'] = MagicMock()
+sys.modules['database.knowledge_source_db'] = MagicMock()
+
+from backend.services.knowledge_source_service import _collect_items, _fetch_url, _sync_source, \
+    create_source_service, run_due_source_syncs
+from backend.consts.model import KnowledgeSourceRequest
+from fastapi import HTTPException
+
+SERVICE = 'backend.services.knowledge_source_service'
+
+# Pages served by the fixture server, {base} is replaced by its address
+PAGES = {
+    "/sitemap_index.xml": ("application/xml", '<?xml version="1.0"?>'
+                           '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">'
+                           '<sitemap><loc>{base}/sitemap.xml</loc></sitemap></sitemapindex>'),
+    "/sitemap.xml": ("application/xml", '<?xml version="1.0"?>'
+                     '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">'
+                     '<url><loc>{base}/docs/intro</loc></url><url><loc>{base}/docs/guide.html</loc></url>'
+                     '<url><loc>{base}/blog/news</loc></url></urlset>'),
+    "/docs/intro": ("text/html; charset=utf-8", "<html><body>Intro</body></html>"),
+    "/docs/guide.html": ("text/html", "<html><body>Guide</body></html>"),
+    # An index listing itself and a sitemap of the fixture server
+    "/loop_index.xml": ("application/xml", '<?xml version="1.0"?>'
+                        '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">'
+                        '<sitemap><loc>{base}/loop_index.xml</loc></sitemap>'
+                        '<sitemap><loc>{base}/sitemap.xml</loc></sitemap></sitemapindex>'),
+}
+
+
+class FixtureHandler(BaseHTTPRequestHandler):
+    def do_GET(self):
+        if self.path not in PAGES:
+            self.send_error(404)
+            return
+        content_type, body = PAGES[self.path]
+        content = body.replace("{base}", self.server.base_url).encode("utf-8")
+        self.send_response(200)
+        self.send_header("Content-Type", content_type)
+        self.send_header("Content-Length", str(len(content)))
+        self.end_headers()
+        self.wfile.write(content)
+
+    def log_message(self, format, *args):
+        pass
+
+
+def _source(source_type, config, **extra):
+    return {"source_id": 1, "index_name": "kb", "tenant_id": "test_tenant_id", "user_id": "test_user_id",
+            "name": "Docs", "type": source_type, "config": config, "sync_interval": "daily",
+            "next_sync_time": None, **extra}
+
+
+def _page_hash(path):
+    return hashlib.sha256(PAGES[path][1].encode("utf-8")).hexdigest()
+
+
+class TestKnowledgeSourceService(unittest.TestCase):
+    @classmethod
+    def setUpClass(cls):
+        cls.server = ThreadingHTTPServer(("127.0.0.1", 0), FixtureHandler)
+        cls.server.base_url = f"http://127.0.0.1:{cls.server.server_address[1]}"
+        cls.thread = threading.Thread(target=cls.server.serve_forever, daemon=True)
+        cls.thread.start()
+
+    @classmethod
+    def tearDownClass(cls):
+        cls.server.shutdown()
+        cls.server.server_close()
+        cls.thread.join()
+
+    def setUp(self):
+        self.base = self.server.base_url
+        # The fixture server listens on the loopback address
+        patcher = patch(f'{SERVICE}.SOURCE_ALLOW_PRIVATE_URLS', True)
+        patcher.start()
+        self.addCleanup(patcher.stop)
+
+    def test_sitemap_items(self):
+        items = _collect_items("sitemap", {"sitemap_url": f"{self.base}/sitemap_index.xml", "include_pattern": "/docs/"},
+                               "test_tenant_id")
+
+        # The sitemaps of an index are followed and only the URLs matching the pattern are kept
+        self.assertEqual([item.path_or_url for item in items], [f"{self.base}/docs/intro", f"{self.base}/docs/guide.html"])
+        content, filename = items[0].load()
+        self.assertEqual(content, b"<html><body>Intro</body></html>")
+        # The content type gives the extension of a URL without one
+        self.assertEqual(filename, "intro.html")
+        self.assertEqual(items[0].source_type, "url")
+
+    def test_sitemap_index_read_once(self):
+        items = _collect_items("sitemap", {"sitemap_url": f"{self.base}/loop_index.xml", "include_pattern": ""},
+                               "test_tenant_id")
+
+        self.assertEqual([item.path_or_url for item in items], [f"{self.base}/docs/intro",
+                                                                f"{self.base}/docs/guide.html",
+                                                                f"{self.base}/blog/news"])
+
+    def test_private_address_refused(self):
+        with patch(f'{SERVICE}.SOURCE_ALLOW_PRIVATE_URLS', False):
+            for url in (f"{self.base}/docs/intro", "http://169.254.169.254/latest/meta-data",
+                        "http://10.0.0.1/admin", "http://[::1]/"):
+                with self.assertRaises(ValueError):
+                    _fetch_url(url)
+
+    @patch(f'{SERVICE}.get_file_stream')
+    @patch(f'{SERVICE}.list_files')
+    def test_bucket_items_under_tenant_folder(self, mock_list_files, mock_get_file_stream):
+        mock_list_files.return_value = [{"key": "test_tenant_id/manuals/"},
+                                        {"key": "test_tenant_id/manuals/a.pdf"}]
+
+        items = _collect_items("bucket", {"bucket": "nexent", "prefix": "/manuals/"}, "test_tenant_id")
+
+        mock_list_files.assert_called_once_with("test_tenant_id/manuals/", "nexent")
+        self.assertEqual([item.path_or_url for item in items], ["minio://nexent/test_tenant_id/manuals/a.pdf"])
+
+    def test_folder_items(self):
+        with tempfile.TemporaryDirectory() as root:
+            os.makedirs(os.path.join(root, "manuals", "old"))
+            for name in ("manuals/a.txt", "manuals/.hidden", "manuals/old/b.txt"):
+                with open(os.path.join(root, name), "w") as file:
+                    file.write(name)
+
+            with patch(f'{SERVICE}.SOURCE_FOLDER_ROOT', root):
+                flat = _collect_items("folder", {"path": "manuals", "recursive": False}, "test_tenant_id")
+                nested = _collect_items("folder", {"path": "manuals", "recursive": True}, "test_tenant_id")
+
+        self.assertEqual([os.path.relpath(item.path_or_url, root) for item in flat], ["manuals/a.txt"])
+        self.assertEqual([os.path.relpath(item.path_or_url, root) for item in nested],
+                         ["manuals/a.txt", "manuals/old/b.txt"])
+
+    @patch(f'{SERVICE}.finish_sync_run')
+    @patch(f'{SERVICE}.delete_source_documents')
+    @patch(f'{SERVICE}.save_source_document')
+    @patch(f'{SERVICE}.get_source_documents')
+    @patch(f'{SERVICE}.get_es_core')
+    @patch(f'{SERVICE}.get_embedding_model')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    @patch(f'{SERVICE}.ElasticSearchService')
+    @patch(f'{SERVICE}.split_document')
+    def test_sync_processes_changed_documents_only(self, mock_split, mock_es_service, mock_get_record,
+                                                   mock_get_embedding_model, mock_get_es_core, mock_get_documents,
+                                                   mock_save_document, mock_delete_documents, mock_finish):
+        mock_split.side_effect = lambda filename, content, profile: [{"content": content.decode("utf-8"),
+                                                                      "page": None}]
+        mock_get_record.return_value = {"index_name": "kb", "ingestion_profile": None}
+        mock_get_documents.return_value = {
+            f"{self.base}/docs/intro": _page_hash("/docs/intro"),
+            f"{self.base}/docs/guide.html": "outdated",
+            f"{self.base}/docs/removed": "gone",
+        }
+        source = _source("urls", {"urls": [f"{self.base}/docs/intro", f"{self.base}/docs/guide.html",
+                                           f"{self.base}/docs/new", f"{self.base}/docs/missing"]})
+        PAGES["/docs/new"] = ("text/plain", "New")
+        try:
+            _sync_source(source, 7)
+        finally:
+            del PAGES["/docs/new"]
+
+        es_core = mock_get_es_core.return_value
+        # Only the modified and new documents are processed, the old chunks of a modified one are replaced
+        self.assertEqual([call.args[0] for call in mock_split.call_args_list], ["guide.html", "new.txt"])
+        self.assertEqual(mock_es_service.index_documents.call_count, 2)
+        self.assertEqual(mock_es_service.index_documents.call_args_list[0].args[2][0]["path_or_url"],
+                         f"{self.base}/docs/guide.html")
+        mock_save_document.assert_any_call(1, f"{self.base}/docs/guide.html", _page_hash("/docs/guide.html"),
+                                           "test_tenant_id", "test_user_id")
+        # A document no longer in the source is removed, one that failed to download keeps its chunks
+        es_core.delete_documents_by_path_or_url.assert_any_call("kb", f"{self.base}/docs/guide.html")
+        es_core.delete_documents_by_path_or_url.assert_any_call("kb", f"{self.base}/docs/removed")
+        self.assertEqual(es_core.delete_documents_by_path_or_url.call_count, 2)
+        mock_delete_documents.assert_called_once_with(1, [f"{self.base}/docs/removed"], "test_user_id")
+
+        run_id, values = mock_finish.call_args.args
+        self.assertEqual(run_id, 7)
+        self.assertEqual(values["status"], "success")
+        self.assertEqual({key: values[key] for key in ("added", "updated", "removed", "unchanged", "failed")},
+                         {"added": 1, "updated": 1, "removed": 1, "unchanged": 1, "failed": 1})
+
+    @patch(f'{SERVICE}.finish_sync_run')
+    @patch(f'{SERVICE}.delete_source_documents')
+    @patch(f'{SERVICE}.save_source_document')
+    @patch(f'{SERVICE}.get_source_documents')
+    @patch(f'{SERVICE}.get_es_core')
+    @patch(f'{SERVICE}.get_embedding_model')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    @patch(f'{SERVICE}.ElasticSearchService')
+    @patch(f'{SERVICE}.split_document')
+    def test_forced_sync_reprocesses_unchanged_documents(self, mock_split, mock_es_service, mock_get_record,
+                                                         mock_get_embedding_model, mock_get_es_core,
+                                                         mock_get_documents, mock_save_document,
+                                                         mock_delete_documents, mock_finish):
+        profile = {"chunk_size": 256, "chunk_overlap": 0, "split_by": "sentence", "ocr": False,
+                   "table_mode": "text", "language": "auto"}
+        mock_split.return_value = [{"content": "Intro", "page": 1}]
+        mock_get_record.return_value = {"index_name": "kb", "ingestion_profile": profile}
+        mock_get_documents.return_value = {f"{self.base}/docs/intro": _page_hash("/docs/intro")}
+
+        _sync_source(_source("urls", {"urls": [f"{self.base}/docs/intro"]}), 7, force=True)
+
+        # The unchanged document is split again with the profile of the knowledge base and replaces its chunks
+        self.assertEqual(mock_split.call_args.args[2], profile)
+        mock_get_es_core.return_value.delete_documents_by_path_or_url.assert_called_once_with(
+            "kb", f"{self.base}/docs/intro")
+        self.assertEqual(mock_finish.call_args.args[1]["updated"], 1)
+
+    @patch(f'{SERVICE}.finish_sync_run')
+    @patch(f'{SERVICE}.delete_source_documents')
+    @patch(f'{SERVICE}.get_source_documents')
+    @patch(f'{SERVICE}.get_es_core')
+    @patch(f'{SERVICE}.get_embedding_model')
+    def test_sync_fails_when_the_source_cannot_be_listed(self, mock_get_embedding_model, mock_get_es_core,
+                                                         mock_get_documents, mock_delete_documents, mock_finish):
+        mock_get_documents.return_value = {f"{self.base}/docs/intro": "hash"}
+
+        _sync_source(_source("sitemap", {"sitemap_url": f"{self.base}/missing.xml"}), 7)
+
+        # The documents synced before are kept while the source is unreachable
+        mock_get_es_core.return_value.delete_documents_by_path_or_url.assert_not_called()
+        mock_delete_documents.assert_not_called()
+        self.assertEqual(mock_finish.call_args.args[1]["status"], "failed")
+        self.assertIn("404", mock_finish.call_args.args[1]["error"])
+
+    @patch(f'{SERVICE}.create_source')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_create_folder_source_outside_root(self, mock_get_record, mock_create):
+        mock_get_record.return_value = {"index_name": "kb"}
+
+        with patch(f'{SERVICE}.SOURCE_FOLDER_ROOT', "/mnt/nexent"):
+            with self.assertRaises(HTTPException) as context:
+                create_source_service("kb", KnowledgeSourceRequest(name="Etc", type="folder",
+                                                                   config={"path": "../../etc"}),
+                                      "test_tenant_id", "test_user_id")
+        self.assertEqual(context.exception.status_code, 400)
+        mock_create.assert_not_called()
+
+    @patch(f'{SERVICE}.create_source')
+    @patch(f'{SERVICE}.get_knowledge_record')
+    def test_create_scheduled_source(self, mock_get_record, mock_create):
+        mock_get_record.return_value = {"index_name": "kb"}
+        mock_create.return_value = _source("urls", {"urls": ["https://example.com/a"]})
+
+        source = create_source_service("kb", KnowledgeSourceRequest(
+            name="Docs", type="urls", config={"urls": [" https://example.com/a", "https://example.com/a"],
+                                              "path": "/ignored"}, sync_interval="daily"),
+            "test_tenant_id", "test_user_id")
+
+        values = mock_create.call_args.args[0]
+        # Only the settings of the type are kept, and a scheduled source is due right away
+        self.assertEqual(values["config"], {"urls": ["https://example.com/a"]})
+        self.assertIsNotNone(values["next_sync_time"])
+        self.assertEqual((source["document_count"], source["last_sync"]), (0, None))
+
+    @patch(f'{SERVICE}.start_source_sync')
+    @patch(f'{SERVICE}.claim_source_sync')
+    @patch(f'{SERVICE}.get_due_sources')
+    def test_run_due_source_syncs_claims_first(self, mock_get_due, mock_claim, mock_start):
+        mock_get_due.return_value = [_source("urls", {"urls": []}, source_id=1, due_time="t1"),
+                                     _source("urls", {"urls": []}, source_id=2, due_time="t2")]
+        # Another worker claimed the first source
+        mock_claim.side_effect = [False, True]
+
+        asyncio.run(run_due_source_syncs())
+
+        self.assertEqual(mock_start.call_count, 1)
+        self.assertEqual(mock_start.call_args.args[0]["source_id"], 2)
+        self.assertIsNotNone(mock_claim.call_args.args[2])
+
+
+if __name__ == '__main__':
+    unittest.main()
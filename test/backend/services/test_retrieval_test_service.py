@@ -0,0 +1,131 @@
+import sys
+import unittest
+from unittest.mock import MagicMock, patch
+
+# Mock the search backends and the database before importing the module under test
+sys.modules['services.elasticsearch_service'] = MagicMock()
+sys.modules['database.model_management_db'] = MagicMock()
+sys.modules['database.retrieval_query_db'] = MagicMock()
+sys.modules['nexent.core.models.rerank_model'] = MagicMock()
+
+from backend.services.retrieval_test_service import run_retrieval_test_service, save_query_service, \
+    delete_query_service
+from backend.consts.model import RetrievalQuerySaveRequest, RetrievalTestRequest
+from fastapi import HTTPException
+
+
+def _result(content, score, **extra):
+    return {"document": {"path_or_url": "doc.pdf", "title": "Doc", "filename": "doc.pdf", "content": content},
+            "index": "kb", "score": score, **extra}
+
+
+class TestRetrievalTestService(unittest.TestCase):
+    def setUp(self):
+        self.tenant_id = "test_tenant_id"
+        self.user_id = "test_user_id"
+        self.es_core = MagicMock()
+
+    def test_keyword_search(self):
+        self.es_core.accurate_search.return_value = [_result("alpha", 2.5), _result("beta", 1.0)]
+
+        results = run_retrieval_test_service(
+            RetrievalTestRequest(query="alpha", index_names=["kb"], search_mode="keyword", top_k=2),
+            self.tenant_id, self.es_core)
+
+        self.es_core.accurate_search.assert_called_once_with(["kb"], "alpha", top_k=2, filters=[])
+        self.assertEqual(results[0]["score_details"], {"accuracy": 2.5})
+        self.assertEqual((results[0]["index_name"], results[0]["text"]), ("kb", "alpha"))
+        # The key of a chunk depends on its document and content only
+        self.assertEqual(results[0]["chunk_id"], run_retrieval_test_service(
+            RetrievalTestRequest(query="alpha", index_names=["kb"], search_mode="keyword", top_k=2),
+            self.tenant_id, self.es_core)[0]["chunk_id"])
+        self.assertNotEqual(results[0]["chunk_id"], results[1]["chunk_id"])
+
+    @patch('backend.services.retrieval_test_service.get_embedding_model')
+    def test_metadata_filters_and_visibility(self, mock_get_embedding_model):
+        self.es_core.semantic_search.return_value = []
+        audience = {"users": [self.user_id, "user@example.com"], "roles": ["user"]}
+
+        run_retrieval_test_service(RetrievalTestRequest(query="alpha", index_names=["kb"], search_mode="semantic",
+                                                        metadata_filters={"department": "finance"}),
+                                   self.tenant_id, self.es_core, audience)
+
+        filters = self.es_core.semantic_search.call_args.kwargs["filters"]
+        self.assertEqual(filters[0], {"term": {"doc_metadata.department": "finance"}})
+        # Documents visible to everyone, to one of the users or to the role of the user
+        self.assertEqual(filters[1]["bool"]["should"], [
+            {"bool": {"must_not": {"term": {"visibility.restricted": True}}}},
+            {"terms": {"visibility.users": [self.user_id, "user@example.com"]}},
+            {"terms": {"visibility.roles": ["user"]}}
+        ])
+
+    @patch('backend.services.retrieval_test_service.get_embedding_model')
+    def test_semantic_search_requires_embedding_model(self, mock_get_embedding_model):
+        mock_get_embedding_model.return_value = None
+
+        with self.assertRaises(HTTPException) as context:
+            run_retrieval_test_service(RetrievalTestRequest(query="alpha", index_names=["kb"], search_mode="semantic"),
+                                       self.tenant_id, self.es_core)
+        self.assertEqual(context.exception.status_code, 400)
+
+    @patch('backend.services.retrieval_test_service.OpenAICompatibleRerank')
+    @patch('backend.services.retrieval_test_service.get_model_by_display_name')
+    @patch('backend.services.retrieval_test_service.get_embedding_model')
+    def test_hybrid_search_with_rerank(self, mock_get_embedding_model, mock_get_model, mock_rerank_class):
+        self.es_core.hybrid_search.return_value = [
+            _result("alpha", 0.8, scores={"accurate": 1.0, "semantic": 0.7}),
+            _result("beta", 0.5, scores={"accurate": 0.2, "semantic": 1.0}),
+        ]
+        mock_get_model.return_value = {"model_type": "rerank", "model_name": "bge-reranker", "model_repo": "",
+                                       "base_url": "http://rerank", "api_key": "key"}
+        mock_rerank_class.return_value.rerank.return_value = [{"index": 1, "relevance_score": 0.95}]
+
+        results = run_retrieval_test_service(
+            RetrievalTestRequest(query="q", index_names=["kb"], rerank_model="Reranker", top_k=1),
+            self.tenant_id, self.es_core)
+
+        # Three candidates are retrieved for each result kept
+        self.assertEqual(self.es_core.hybrid_search.call_args.kwargs["top_k"], 3)
+        mock_rerank_class.return_value.rerank.assert_called_once_with("q", ["alpha", "beta"], top_n=1)
+        self.assertEqual(len(results), 1)
+        self.assertEqual(results[0]["text"], "beta")
+        self.assertEqual(results[0]["score"], 0.95)
+        self.assertEqual(results[0]["score_details"], {"accuracy": 0.2, "semantic": 1.0, "retrieval": 0.5,
+                                                       "rerank": 0.95})
+
+    @patch('backend.services.retrieval_test_service.get_model_by_display_name')
+    def test_unknown_rerank_model(self, mock_get_model):
+        self.es_core.accurate_search.return_value = [_result("alpha", 1.0)]
+        mock_get_model.return_value = {"model_type": "llm"}
+
+        with self.assertRaises(HTTPException) as context:
+            run_retrieval_test_service(RetrievalTestRequest(query="q", index_names=["kb"], search_mode="keyword",
+                                                            rerank_model="GPT"), self.tenant_id, self.es_core)
+        self.assertEqual(context.exception.status_code, 400)
+
+    @patch('backend.services.retrieval_test_service.update_query')
+    @patch('backend.services.retrieval_test_service.create_query')
+    def test_save_query_service(self, mock_create, mock_update):
+        request = RetrievalQuerySaveRequest(params=RetrievalTestRequest(query="q", index_names=["kb"]),
+                                            results=[{"chunk_id": "k1"}])
+
+        save_query_service(request, self.user_id, self.tenant_id)
+        self.assertEqual(mock_create.call_args[0][0]["search_mode"], "hybrid")
+        self.assertEqual(mock_create.call_args[0][1], [{"chunk_id": "k1"}])
+
+        mock_update.return_value = None
+        with self.assertRaises(HTTPException) as context:
+            save_query_service(request, self.user_id, self.tenant_id, query_id=3)
+        self.assertEqual(context.exception.status_code, 404)
+
+    @patch('backend.services.retrieval_test_service.delete_query')
+    def test_delete_query_service_not_found(self, mock_delete):
+        mock_delete.return_value = False
+
+        with self.assertRaises(HTTPException) as context:
+            delete_query_service(3, self.user_id, self.tenant_id)
+        self.assertEqual(context.exception.status_code, 404)
+
+
+if __name__ == '__main__':
+    unittest.main()
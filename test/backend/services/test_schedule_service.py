@@ -0,0 +1,187 @@
+import sys
+import unittest
+from unittest.mock import AsyncMock, MagicMock, patch
+
+# Mock the agent run and the database before importing the module under test
+sys.modules['agents.create_agent_info'] = MagicMock()
+sys.modules['services.agent_service'] = MagicMock()
+sys.modules['services.conversation_management_service'] = MagicMock()
+sys.modules['services.memory_config_service'] = MagicMock()
+sys.modules['database.agent_db'] = MagicMock()
+sys.modules['database.conversation_db'] = MagicMock()
+sys.modules['database.schedule_db'] = MagicMock()
+sys.modules['nexent.core.agents.run_agent'] = MagicMock()
+
+from backend.services.schedule_service import (
+    save_schedule_service,
+    delete_schedule_service,
+    run_schedule_now_service,
+    set_schedule_enabled_service,
+    rotate_webhook_service,
+    start_schedule_run,
+    trigger_webhook_service,
+    run_due_schedules
+)
+from backend.consts.model import AgentScheduleRequest
+from fastapi import HTTPException
+
+
+class TestScheduleService(unittest.IsolatedAsyncioTestCase):
+    def setUp(self):
+        self.tenant_id = "test_tenant_id"
+        self.user_id = "test_user_id"
+        self.schedule = {"schedule_id": 1, "agent_id": 7, "tenant_id": self.tenant_id, "user_id": self.user_id,
+                         "name": "Digest", "trigger": "cron", "cron": "0 9 * * 1-5", "timezone": "Asia/Shanghai",
+                         "query_template": "Summarize {{issue.title}}", "delivery": "inbox", "conversation_id": 3,
+                         "language": "en", "webhook_token": None, "enabled": True, "next_run_time": None}
+
+    @patch('backend.services.schedule_service.get_latest_runs')
+    @patch('backend.services.schedule_service.create_schedule')
+    @patch('backend.services.schedule_service.search_agent_info_by_agent_id')
+    def test_save_schedule_service_creates_cron_schedule(self, mock_search_agent, mock_create, mock_latest_runs):
+        mock_create.return_value = self.schedule
+
+        request = AgentScheduleRequest(agent_id=7, name=" Digest ", trigger="cron", cron="0 9 * * 1-5",
+                                       timezone="Asia/Shanghai", query_template="Summarize")
+        result = save_schedule_service(request, self.tenant_id, self.user_id, "en")
+
+        values = mock_create.call_args[0][0]
+        self.assertEqual(values["schedule_name"], "Digest")
+        self.assertIsNotNone(values["next_run_time"])
+        self.assertNotIn("webhook_token", values)
+        self.assertNotIn("webhook_token", result)
+        self.assertNotIn("webhook_url", result)
+
+    @patch('backend.services.schedule_service.create_schedule')
+    @patch('backend.services.schedule_service.search_agent_info_by_agent_id')
+    def test_save_schedule_service_creates_webhook(self, mock_search_agent, mock_create):
+        mock_create.side_effect = lambda values, tenant_id, user_id: {**self.schedule, "trigger": "webhook",
+                                                                      "webhook_token": values["webhook_token"]}
+
+        request = AgentScheduleRequest(agent_id=7, name="Issues", trigger="webhook", query_template="{{issue.title}}")
+        result = save_schedule_service(request, self.tenant_id, self.user_id)
+
+        values = mock_create.call_args[0][0]
+        self.assertIsNone(values["next_run_time"])
+        self.assertEqual(result["webhook_url"], f"/api/schedule/webhook/{values['webhook_token']}")
+
+    def test_save_schedule_service_rejects_invalid_cron(self):
+        for cron, timezone_name in [("0 25 * * *", "UTC"), ("0 9 * * *", "Mars/Olympus")]:
+            request = AgentScheduleRequest(agent_id=7, name="Digest", trigger="cron", cron=cron,
+                                           timezone=timezone_name, query_template="Summarize")
+            with self.assertRaises(HTTPException) as context:
+                save_schedule_service(request, self.tenant_id, self.user_id)
+            self.assertEqual(context.exception.status_code, 400)
+
+    @patch('backend.services.schedule_service.get_latest_runs')
+    @patch('backend.services.schedule_service.update_schedule')
+    @patch('backend.services.schedule_service.get_schedule')
+    def test_set_schedule_enabled_service(self, mock_get_schedule, mock_update, mock_latest_runs):
+        mock_get_schedule.return_value = self.schedule
+        mock_update.return_value = self.schedule
+        mock_latest_runs.return_value = {1: {"run_id": 5}}
+
+        result = set_schedule_enabled_service(1, False, self.tenant_id, self.user_id)
+        self.assertEqual(mock_update.call_args[0][1], {"enabled": False, "next_run_time": None})
+        self.assertEqual(result["last_run"], {"run_id": 5})
+
+        set_schedule_enabled_service(1, True, self.tenant_id, self.user_id)
+        self.assertIsNotNone(mock_update.call_args[0][1]["next_run_time"])
+
+    @patch('backend.services.schedule_service.start_schedule_run', new_callable=AsyncMock)
+    @patch('backend.services.schedule_service.delete_schedule')
+    @patch('backend.services.schedule_service.update_schedule')
+    @patch('backend.services.schedule_service.get_schedule')
+    async def test_schedule_of_another_user_refused(self, mock_get_schedule, mock_update, mock_delete,
+                                                    mock_start_run):
+        mock_get_schedule.return_value = {**self.schedule, "user_id": "other_user_id"}
+        request = AgentScheduleRequest(schedule_id=1, agent_id=7, name="Digest", trigger="cron", cron="0 9 * * 1-5",
+                                       timezone="Asia/Shanghai", query_template="Summarize")
+
+        with self.assertRaises(HTTPException) as context:
+            save_schedule_service(request, self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 403)
+        with self.assertRaises(HTTPException) as context:
+            delete_schedule_service(1, self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 403)
+        with self.assertRaises(HTTPException) as context:
+            set_schedule_enabled_service(1, False, self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 403)
+        with self.assertRaises(HTTPException) as context:
+            await run_schedule_now_service(1, None, self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 403)
+
+        mock_update.assert_not_called()
+        mock_delete.assert_not_called()
+        mock_start_run.assert_not_awaited()
+
+    @patch('backend.services.schedule_service.get_schedule')
+    def test_rotate_webhook_service_requires_webhook(self, mock_get_schedule):
+        mock_get_schedule.return_value = self.schedule
+
+        with self.assertRaises(HTTPException) as context:
+            rotate_webhook_service(1, self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 400)
+
+    @patch('backend.services.schedule_service.get_schedule_by_webhook_token')
+    async def test_trigger_webhook_service_rejects_unknown_and_paused(self, mock_get_by_token):
+        mock_get_by_token.return_value = None
+        with self.assertRaises(HTTPException) as context:
+            await trigger_webhook_service("token", {})
+        self.assertEqual(context.exception.status_code, 404)
+
+        mock_get_by_token.return_value = {**self.schedule, "trigger": "webhook", "enabled": False}
+        with self.assertRaises(HTTPException) as context:
+            await trigger_webhook_service("token", {})
+        self.assertEqual(context.exception.status_code, 409)
+
+    @patch('backend.services.schedule_service.agent_run_manager')
+    @patch('backend.services.schedule_service.get_conversation')
+    async def test_start_schedule_run_in_progress(self, mock_get_conversation, mock_run_manager):
+        mock_get_conversation.return_value = {"conversation_id": 3}
+        mock_run_manager.get_agent_run_info.return_value = MagicMock()
+
+        with self.assertRaises(HTTPException) as context:
+            await start_schedule_run(self.schedule, "manual")
+        self.assertEqual(context.exception.status_code, 409)
+
+    @patch('backend.services.schedule_service.create_inbox_item')
+    @patch('backend.services.schedule_service.finish_schedule_run')
+    @patch('backend.services.schedule_service.create_agent_run_info', new_callable=AsyncMock)
+    @patch('backend.services.schedule_service.create_schedule_run')
+    @patch('backend.services.schedule_service.agent_run_manager')
+    @patch('backend.services.schedule_service.get_conversation')
+    async def test_start_schedule_run_agent_fails(self, mock_get_conversation, mock_run_manager, mock_create_run,
+                                                  mock_create_run_info, mock_finish_run, mock_create_inbox_item):
+        mock_get_conversation.return_value = {"conversation_id": 3}
+        mock_run_manager.get_agent_run_info.return_value = None
+        mock_create_run.return_value = {"run_id": 5}
+        mock_create_run_info.side_effect = ValueError("agent not found")
+        mock_finish_run.return_value = {"run_id": 5, "status": "failed"}
+
+        result = await start_schedule_run(self.schedule, "webhook", {"issue": {"title": "Crash"}})
+
+        self.assertEqual(mock_create_run.call_args[0][0]["query"], "Summarize Crash")
+        self.assertEqual(mock_create_run_info.call_args.kwargs["user_id"], self.user_id)
+        self.assertEqual(mock_finish_run.call_args[0][1]["status"], "failed")
+        self.assertIn("agent not found", mock_create_inbox_item.call_args[0][0]["summary"])
+        mock_run_manager.register_agent_run.assert_not_called()
+        self.assertEqual(result["status"], "failed")
+
+    @patch('backend.services.schedule_service.start_schedule_run', new_callable=AsyncMock)
+    @patch('backend.services.schedule_service.claim_schedule_run')
+    @patch('backend.services.schedule_service.get_due_schedules')
+    async def test_run_due_schedules_runs_claimed_schedules(self, mock_get_due, mock_claim, mock_start_run):
+        mock_get_due.return_value = [{**self.schedule, "due_time": "due"}, {**self.schedule, "schedule_id": 2,
+                                                                             "due_time": "due"}]
+        mock_claim.side_effect = [True, False]
+
+        await run_due_schedules()
+
+        self.assertIsNotNone(mock_claim.call_args_list[0][0][2])
+        mock_start_run.assert_awaited_once()
+        self.assertEqual(mock_start_run.call_args[0][0]["schedule_id"], 1)
+
+
+if __name__ == '__main__':
+    unittest.main()
@@ -13,10 +13,12 @@ with patch('backend.database.client.MinioClient', return_value=minio_client_mock
         python_type_to_json_schema,
         get_local_tools,
         get_local_tools_classes,
+        tool_param_json_schema,
         search_tool_info_impl,
         update_tool_info_impl
     )
 from consts.model import ToolInfo, ToolSourceEnum, ToolInstanceInfoRequest
+from pydantic import Field
 
 
 class TestPythonTypeToJsonSchema:
@@ -148,6 +150,38 @@ class TestGetLocalTools:
         assert tool_info.source == ToolSourceEnum.LOCAL.value
         assert tool_info.class_name == "TestTool"
 
+    @patch('backend.services.tool_configuration_service.get_local_tools_classes')
+    def test_get_local_tools_param_schema(self, mock_get_classes):
+        """ test the JSON Schema generated for the init parameters of get_local_tools"""
+        class SchemaTool:
+            name = "schema_tool"
+            description = "Tool with constrained parameters"
+            inputs = {}
+            output_type = "string"
+
+            def __init__(self, max_results: int = Field(description="Maximum number of results", default=5, ge=1, le=20),
+                         index_names: List[str] = Field(description="Indexes to search"),
+                         observer: Any = Field(description="Message observer", default=None, exclude=True)):
+                pass
+
+        mock_get_classes.return_value = [SchemaTool]
+
+        params = get_local_tools()[0].params
+
+        assert [param["name"] for param in params] == ["max_results", "index_names"]
+        assert params[0]["schema"] == {"type": "integer", "description": "Maximum number of results",
+                                       "default": 5, "minimum": 1, "maximum": 20, "title": "Max Results"}
+        assert params[1]["schema"]["type"] == "array"
+        assert params[1]["schema"]["items"] == {"type": "string"}
+        assert params[1]["optional"] is False
+
+    def test_tool_param_json_schema_without_field(self):
+        """ test that parameters without a pydantic Field get no schema"""
+        def func(self, plain: int = 3):
+            pass
+
+        assert tool_param_json_schema("plain", inspect.signature(func).parameters["plain"]) is None
+
     @patch('backend.services.tool_configuration_service.get_local_tools_classes')
     def test_get_local_tools_no_classes(self, mock_get_classes):
         """ test the no tool class of get_local_tools"""
@@ -349,11 +383,13 @@ class TestGetAllMcpTools:
         assert mock_get_tools.call_count == 3
         mock_get_config.assert_called_once_with("NEXENT_MCP_SERVER")
 
+    @patch('backend.services.tool_configuration_service.record_mcp_error')
     @patch('backend.services.tool_configuration_service.get_mcp_records_by_tenant')
     @patch('backend.services.tool_configuration_service.get_tool_from_remote_mcp_server')
     @patch('backend.services.tool_configuration_service.config_manager.get_config')
     @patch('backend.services.tool_configuration_service.urljoin')
-    async def test_get_all_mcp_tools_connection_error(self, mock_urljoin, mock_get_config, mock_get_tools, mock_get_records):
+    async def test_get_all_mcp_tools_connection_error(self, mock_urljoin, mock_get_config, mock_get_tools, mock_get_records,
+                                                      mock_record_error):
         """测试 MCP 连接错误的情况"""
         mock_get_records.return_value = [
             {"mcp_name": "server1", "mcp_server": "http://server1.com", "status": True}
@@ -373,6 +409,33 @@ class TestGetAllMcpTools:
         # 即使连接失败，也应该返回默认工具
         assert len(result) == 1
         assert result[0].name == "default_tool"
+        # 连接错误记录到服务器的错误日志
+        mock_record_error.assert_called_once_with("server1", "test_tenant", "Connection failed")
+
+    @patch('backend.services.tool_configuration_service.get_mcp_records_by_tenant')
+    @patch('backend.services.tool_configuration_service.get_tool_from_remote_mcp_server')
+    @patch('backend.services.tool_configuration_service.config_manager.get_config')
+    @patch('backend.services.tool_configuration_service.urljoin')
+    async def test_get_all_mcp_tools_applies_tool_filter(self, mock_urljoin, mock_get_config, mock_get_tools, mock_get_records):
+        """测试按服务器的工具过滤规则隐藏工具"""
+        record = {"mcp_name": "server1", "mcp_server": "http://server1.com", "status": True,
+                  "tool_filter": {"mode": "deny", "tools": ["tool2"]}}
+        mock_get_records.return_value = [record]
+        server_tools = [
+            ToolInfo(name=name, description=name, params=[], source=ToolSourceEnum.MCP.value,
+                     inputs="{}", output_type="string", class_name=name, usage="server1")
+            for name in ["tool1", "tool2"]
+        ]
+        mock_get_tools.side_effect = [server_tools, []]
+        mock_get_config.return_value = "http://default-server.com"
+        mock_urljoin.return_value = "http://default-server.com/sse"
+
+        from backend.services.tool_configuration_service import get_all_mcp_tools
+
+        result = await get_all_mcp_tools("test_tenant")
+
+        assert [tool.name for tool in result] == ["tool1"]
+        assert mock_get_tools.call_args_list[0].kwargs["server_config"] == record
 
     @patch('backend.services.tool_configuration_service.get_mcp_records_by_tenant')
     @patch('backend.services.tool_configuration_service.get_tool_from_remote_mcp_server')
@@ -405,7 +468,7 @@ class TestGetAllMcpTools:
 class TestGetToolFromRemoteMcpServer:
     """测试 get_tool_from_remote_mcp_server 函数"""
 
-    @patch('backend.services.tool_configuration_service.Client')
+    @patch('backend.services.tool_configuration_service.build_mcp_client')
     @patch('backend.services.tool_configuration_service.jsonref.replace_refs')
     @patch('backend.services.tool_configuration_service._sanitize_function_name')
     async def test_get_tool_from_remote_mcp_server_success(self, mock_sanitize, mock_replace_refs, mock_client_cls):
@@ -451,10 +514,10 @@ class TestGetToolFromRemoteMcpServer:
         assert result[1].description == "Test tool 2 description"
         
         # 验证调用
-        mock_client_cls.assert_called_once_with("http://test-server.com", timeout=10)
+        mock_client_cls.assert_called_once_with({"mcp_server": "http://test-server.com"})
         assert mock_client.list_tools.call_count == 1
 
-    @patch('backend.services.tool_configuration_service.Client')
+    @patch('backend.services.tool_configuration_service.build_mcp_client')
     async def test_get_tool_from_remote_mcp_server_empty_tools(self, mock_client_cls):
         """测试远程服务器没有工具的情况"""
         mock_client = AsyncMock()
@@ -468,7 +531,7 @@ class TestGetToolFromRemoteMcpServer:
         
         assert result == []
 
-    @patch('backend.services.tool_configuration_service.Client')
+    @patch('backend.services.tool_configuration_service.build_mcp_client')
     async def test_get_tool_from_remote_mcp_server_connection_error(self, mock_client_cls):
         """测试连接错误的情况"""
         mock_client_cls.side_effect = Exception("Connection failed")
@@ -478,7 +541,7 @@ class TestGetToolFromRemoteMcpServer:
         with pytest.raises(Exception, match="Connection failed"):
             await get_tool_from_remote_mcp_server("test_server", "http://test-server.com")
 
-    @patch('backend.services.tool_configuration_service.Client')
+    @patch('backend.services.tool_configuration_service.build_mcp_client')
     @patch('backend.services.tool_configuration_service.jsonref.replace_refs')
     @patch('backend.services.tool_configuration_service._sanitize_function_name')
     async def test_get_tool_from_remote_mcp_server_missing_properties(self, mock_sanitize, mock_replace_refs, mock_client_cls):
@@ -0,0 +1,90 @@
+import sys
+import unittest
+from unittest.mock import AsyncMock, MagicMock, patch
+
+# Mock the agent factory and the database before importing the module under test
+sys.modules['agents.create_agent_info'] = MagicMock()
+sys.modules['services.remote_mcp_service'] = MagicMock()
+sys.modules['database.agent_db'] = MagicMock()
+sys.modules['database.tool_sample_db'] = MagicMock()
+sys.modules['utils.config_utils'] = MagicMock()
+sys.modules['nexent.core.agents.nexent_agent'] = MagicMock()
+
+from backend.services.tool_playground_service import (
+    call_tool,
+    invoke_tool_service,
+    save_sample_service,
+    delete_sample_service
+)
+from backend.consts.model import ToolInvokeRequest, ToolSampleRequest
+from fastapi import HTTPException
+
+
+class TestToolPlaygroundService(unittest.IsolatedAsyncioTestCase):
+    def setUp(self):
+        self.tenant_id = "test_tenant_id"
+        self.user_id = "test_user_id"
+        self.tool = {"tool_id": 3, "class_name": "ExaSearchTool", "source": "local", "usage": None,
+                     "params": [{"name": "exa_api_key", "type": "string", "optional": False},
+                                {"name": "max_results", "type": "integer", "default": 5, "optional": True}]}
+
+    @patch('backend.services.tool_playground_service.asyncio.to_thread', new_callable=AsyncMock)
+    @patch('backend.services.tool_playground_service.create_tool_config_list', new_callable=AsyncMock)
+    @patch('backend.services.tool_playground_service.query_tool_instances_by_id')
+    @patch('backend.services.tool_playground_service.query_all_tools')
+    async def test_invoke_tool_service_merges_params(self, mock_query_tools, mock_query_instance, mock_create_config,
+                                                     mock_to_thread):
+        mock_query_tools.return_value = [self.tool]
+        mock_query_instance.return_value = {"params": {"exa_api_key": "saved", "max_results": 8}}
+        mock_create_config.return_value = ["tool_config"]
+        mock_to_thread.return_value = {"output": "found", "error": None}
+
+        request = ToolInvokeRequest(tool_id=3, agent_id=7, params={"max_results": 2}, inputs={"query": "Q3"})
+        result = await invoke_tool_service(request, self.tenant_id, self.user_id, "en")
+
+        tools_list = mock_create_config.call_args.kwargs["tools_list"]
+        self.assertEqual([param["default"] for param in tools_list[0]["params"]], ["saved", 2])
+        self.assertEqual(mock_to_thread.call_args[0][1:], ("tool_config", {"query": "Q3"}, None, "en"))
+        self.assertEqual(result, {"output": "found", "error": None})
+
+    @patch('backend.services.tool_playground_service.query_all_tools')
+    async def test_invoke_tool_service_unknown_tool(self, mock_query_tools):
+        mock_query_tools.return_value = [self.tool]
+
+        with self.assertRaises(HTTPException) as context:
+            await invoke_tool_service(ToolInvokeRequest(tool_id=4, agent_id=7), self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 404)
+
+    @patch('backend.services.tool_playground_service.NexentAgent')
+    def test_call_tool_reports_tool_errors(self, mock_nexent_agent):
+        mock_nexent_agent.return_value.create_tool.return_value = MagicMock(side_effect=ValueError("bad key"))
+
+        self.assertEqual(call_tool(MagicMock(class_name="ExaSearchTool"), {"query": "Q3"}),
+                         {"output": None, "error": "bad key"})
+
+        mock_nexent_agent.return_value.create_tool.return_value = MagicMock(return_value=object())
+        result = call_tool(MagicMock(class_name="ExaSearchTool"), {"query": "Q3"})
+        self.assertIsInstance(result["output"], str)
+
+    @patch('backend.services.tool_playground_service.create_sample')
+    @patch('backend.services.tool_playground_service.query_all_tools')
+    def test_save_sample_service(self, mock_query_tools, mock_create_sample):
+        mock_query_tools.return_value = [self.tool]
+
+        save_sample_service(ToolSampleRequest(tool_id=3, agent_id=7, inputs={"query": "Q3"}, output=["a"],
+                                              duration=120), self.tenant_id, self.user_id)
+
+        sample = mock_create_sample.call_args[0][0]
+        self.assertEqual((sample["output"], sample["duration"], sample["error"]), (["a"], 120, None))
+
+    @patch('backend.services.tool_playground_service.delete_sample')
+    def test_delete_sample_service_not_found(self, mock_delete_sample):
+        mock_delete_sample.return_value = False
+
+        with self.assertRaises(HTTPException) as context:
+            delete_sample_service(1, self.tenant_id, self.user_id)
+        self.assertEqual(context.exception.status_code, 404)
+
+
+if __name__ == '__main__':
+    unittest.main()
@@ -0,0 +1,69 @@
+import json
+import unittest
+import sys
+import os
+from unittest.mock import MagicMock, patch
+
+# Add the project root to the Python path
+sys.path.insert(0, os.path.abspath(os.path.join(os.path.dirname(__file__), '../../../')))
+
+from backend.utils.ingestion_profile_utils import to_processing_params, split_document
+
+PROFILE = {"chunk_size": 512, "chunk_overlap": 64, "split_by": "heading", "ocr": False,
+           "table_mode": "markdown", "language": "auto"}
+
+
+class TestIngestionProfileUtils(unittest.TestCase):
+    """Test cases for ingestion_profile_utils.py"""
+
+    def test_to_processing_params(self):
+        chunking_strategy, params = to_processing_params(PROFILE)
+
+        self.assertEqual(chunking_strategy, "by_title")
+        self.assertEqual(params, {"max_characters": 2048, "new_after_n_chars": 2048, "overlap": 256,
+                                  "multipage_sections": True, "strategy": "fast", "languages": None,
+                                  "table_mode": "markdown"})
+
+    def test_split_by_and_language(self):
+        self.assertEqual(to_processing_params({**PROFILE, "split_by": "page"})[0], "by_title")
+        self.assertFalse(to_processing_params({**PROFILE, "split_by": "page"})[1]["multipage_sections"])
+        self.assertEqual(to_processing_params({**PROFILE, "split_by": "sentence"})[0], "basic")
+        self.assertEqual(to_processing_params({**PROFILE, "language": "zh"})[1]["languages"], ["chi_sim"])
+        # Scanned documents are read with OCR
+        self.assertEqual(to_processing_params({**PROFILE, "ocr": True})[1]["strategy"], "hi_res")
+
+    @patch('backend.utils.ingestion_profile_utils.requests.post')
+    def test_split_document(self, mock_post):
+        mock_post.return_value = MagicMock(status_code=200)
+        mock_post.return_value.json.return_value = {
+            "chunks": ["First", "  ", "Second"],
+            "chunk_metadata": [{"page_number": 1}, {"page_number": 1}, {}]
+        }
+
+        chunks = split_document("doc.pdf", b"content", PROFILE)
+
+        # Empty chunks are dropped, the page is kept when the format has pages
+        self.assertEqual(chunks, [{"content": "First", "page": 1}, {"content": "Second", "page": None}])
+        data = mock_post.call_args.kwargs["data"]
+        self.assertEqual(data["chunking_strategy"], "by_title")
+        self.assertEqual(json.loads(data["params"])["max_characters"], 2048)
+
+    @patch('backend.utils.ingestion_profile_utils.requests.post')
+    def test_split_document_without_profile(self, mock_post):
+        mock_post.return_value = MagicMock(status_code=200)
+        mock_post.return_value.json.return_value = {"chunks": ["Text"]}
+
+        self.assertEqual(split_document("doc.txt", b"Text", None), [{"content": "Text", "page": None}])
+        self.assertEqual(mock_post.call_args.kwargs["data"], {"chunking_strategy": "basic", "timeout": 120})
+
+    @patch('backend.utils.ingestion_profile_utils.requests.post')
+    def test_split_document_failure(self, mock_post):
+        mock_post.return_value = MagicMock(status_code=500, text="boom")
+
+        with self.assertRaises(Exception) as context:
+            split_document("doc.pdf", b"content", PROFILE)
+        self.assertIn("500", str(context.exception))
+
+
+if __name__ == '__main__':
+    unittest.main()
@@ -0,0 +1,85 @@
+import unittest
+import sys
+import os
+from datetime import datetime, timezone
+
+# Add the project root to the Python path
+sys.path.insert(0, os.path.abspath(os.path.join(os.path.dirname(__file__), '../../../')))
+
+from backend.utils.schedule_utils import parse_cron, next_cron_run, is_valid_timezone, render_query_template
+
+
+def next_runs(expression, timezone_name, after, count=3):
+    cron = parse_cron(expression)
+    runs = []
+    for _ in range(count):
+        run = next_cron_run(cron, timezone_name, after)
+        if run is None:
+            break
+        runs.append(run.isoformat())
+        after = run
+    return runs
+
+
+class TestScheduleUtils(unittest.TestCase):
+    """Test cases for schedule_utils.py"""
+
+    # 2026-01-01 is a Thursday
+    start = datetime(2026, 1, 1, tzinfo=timezone.utc)
+
+    def test_parse_cron(self):
+        """Ranges, steps and lists are expanded, weekday 7 is Sunday"""
+        cron = parse_cron("10-40/10 */6 1,15 * 5-7")
+        self.assertEqual(cron.minutes, {10, 20, 30, 40})
+        self.assertEqual(cron.hours, {0, 6, 12, 18})
+        self.assertEqual(cron.days, {1, 15})
+        self.assertEqual(cron.weekdays, {0, 5, 6, 7})
+
+    def test_parse_cron_invalid(self):
+        for expression in ["* * * *", "60 * * * *", "*/0 * * * *", "5-1 * * * *", "0 9 0 * *", "0 9 * * Mon"]:
+            self.assertIsNone(parse_cron(expression), expression)
+
+    def test_day_restrictions_from_expanded_fields(self):
+        cron = parse_cron("0 9 1-31 * */1")
+        self.assertTrue(cron.any_day and cron.any_weekday)
+        cron = parse_cron("0 9 */2 * 0-6")
+        self.assertEqual((cron.any_day, cron.any_weekday), (False, True))
+
+    def test_next_cron_run_either_day(self):
+        """With both day fields restricted a day matches when either does"""
+        self.assertEqual(next_runs("0 9 1 * 1", "UTC", self.start),
+                         ["2026-01-01T09:00:00+00:00", "2026-01-05T09:00:00+00:00", "2026-01-12T09:00:00+00:00"])
+        self.assertEqual(next_runs("0 9 1-31 * 1", "UTC", self.start),
+                         ["2026-01-05T09:00:00+00:00", "2026-01-12T09:00:00+00:00", "2026-01-19T09:00:00+00:00"])
+
+    def test_next_cron_run_in_timezone(self):
+        self.assertEqual(next_runs("0 9 * * *", "Asia/Shanghai", self.start, 2),
+                         ["2026-01-01T01:00:00+00:00", "2026-01-02T01:00:00+00:00"])
+        # 02:30 does not exist on the day New York moves to summer time
+        self.assertEqual(next_runs("30 2 * * *", "America/New_York", datetime(2026, 3, 7, tzinfo=timezone.utc)),
+                         ["2026-03-07T07:30:00+00:00", "2026-03-09T06:30:00+00:00", "2026-03-10T06:30:00+00:00"])
+
+    def test_next_cron_run_never(self):
+        self.assertIsNone(next_cron_run(parse_cron("0 9 31 2 *"), "UTC", self.start))
+
+    def test_is_valid_timezone(self):
+        self.assertTrue(is_valid_timezone("Asia/Shanghai"))
+        self.assertFalse(is_valid_timezone("Mars/Olympus"))
+
+    def test_render_query_template(self):
+        payload = {"issue": {"title": "Crash", "labels": ["bug"]}, "count": 0}
+        self.assertEqual(render_query_template("{{ issue.title }} {{issue.labels}} {{issue.labels.0}} {{count}} "
+                                               "[{{missing.field}}]", payload),
+                         'Crash ["bug"] bug 0 []')
+
+    def test_render_query_template_like_frontend(self):
+        # Same case as the query template test of agentSchedule.test.ts in the frontend
+        payload = {"issue": {"title": "Crash", "labels": ["bug", "ui"], "meta": {"owner": "Zoë", "points": 3.0}},
+                   "count": 0, "ratio": 2.5, "draft": False}
+        self.assertEqual(render_query_template("{{issue.labels}} {{issue.meta}} {{issue.labels.length}} "
+                                               "{{issue.meta.points}} {{ratio}} {{draft}}", payload),
+                         '["bug","ui"] {"owner":"Zoë","points":3}  3 2.5 false')
+
+
+if __name__ == '__main__':
+    unittest.main()
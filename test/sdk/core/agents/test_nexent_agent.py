@@ -1,4 +1,5 @@
-from threading import Event
+import json
+from threading import Event, Thread
 from unittest.mock import MagicMock, patch
 
 import pytest
@@ -64,9 +65,10 @@ module_mocks = {
 # Import the classes under test with patched dependencies in place
 # ---------------------------------------------------------------------------
 with patch.dict("sys.modules", module_mocks):
-    from sdk.nexent.core.utils.observer import MessageObserver
+    from sdk.nexent.core.utils.observer import MessageObserver, ProcessType
     from sdk.nexent.core.agents.nexent_agent import NexentAgent
     from sdk.nexent.core.agents.agent_model import ToolConfig, ModelConfig, AgentConfig
+    from sdk.nexent.core.agents.approval_gate import ApprovalGate
 
 
 # ----------------------------------------------------------------------------
@@ -501,5 +503,77 @@ def test_add_history_to_agent_none_history(nexent_agent_instance, mock_core_agen
     assert len(mock_core_agent.memory.steps) == 0
 
 
+# ----------------------------------------------------------------------------
+# Tests for tool approval
+# ----------------------------------------------------------------------------
+
+def _tool_config(require_approval: bool) -> ToolConfig:
+    return ToolConfig(class_name="SendEmailTool", name="send_email", description="", inputs="{}", output_type="string",
+                      params={}, source="local", require_approval=require_approval)
+
+
+def test_gate_tool_wraps_only_tools_requiring_approval(mock_observer):
+    """Test gate_tool wraps a tool when its config requires approval and the run has a gate."""
+    tool = MagicMock()
+    gated_agent = NexentAgent(observer=mock_observer, model_config_list=[], stop_event=Event(),
+                              approval_gate=ApprovalGate(mock_observer, Event()))
+    ungated_agent = NexentAgent(observer=mock_observer, model_config_list=[], stop_event=Event())
+
+    assert gated_agent.gate_tool(tool, _tool_config(False), "agent") is tool
+    assert ungated_agent.gate_tool(tool, _tool_config(True), "agent") is tool
+    with patch("sdk.nexent.core.agents.nexent_agent.ApprovalRequiredTool") as mock_wrapper:
+        assert gated_agent.gate_tool(tool, _tool_config(True), "agent") is mock_wrapper.return_value
+        mock_wrapper.assert_called_once_with(tool, gated_agent.approval_gate, "agent")
+
+
+def test_approval_gate_waits_for_the_decision():
+    """Test ApprovalGate announces a request, waits for the decision and reports it with the edited arguments."""
+    observer = MagicMock()
+    gate = ApprovalGate(observer, Event())
+    gate.POLL_INTERVAL = 0.01
+    result = {}
+
+    waiting = Thread(target=lambda: result.update(arguments=gate.request("agent", "send_email", {"to": "a@x.com"})))
+    waiting.start()
+    while not observer.add_message.called:
+        waiting.join(0.01)
+    request = json.loads(observer.add_message.call_args[0][2])
+
+    assert gate.decide("unknown", "approved") is False
+    assert gate.decide(request["approval_id"], "approved", {"to": "b@x.com"}) is True
+    waiting.join(1)
+
+    assert result["arguments"] == {"to": "b@x.com"}
+    decision = json.loads(observer.add_message.call_args[0][2])
+    assert decision == {"approval_id": request["approval_id"], "decision": "approved",
+                        "arguments": {"to": "b@x.com"}, "edited": True, "timed_out": False}
+
+
+def test_approval_gate_denies_when_the_run_stops():
+    """Test ApprovalGate stops waiting when the run is stopped."""
+    stop_event = Event()
+    stop_event.set()
+    gate = ApprovalGate(MagicMock(), stop_event)
+    gate.POLL_INTERVAL = 0.01
+
+    assert gate.request("agent", "send_email", {}) is None
+
+
+def test_approval_gate_denies_when_nobody_decides_in_time():
+    """Test ApprovalGate denies a request left unanswered past its timeout and reports it."""
+    observer = MagicMock()
+    gate = ApprovalGate(observer, Event(), timeout=0.05)
+    gate.POLL_INTERVAL = 0.01
+
+    assert gate.request("agent", "send_email", {"to": "a@x.com"}) is None
+
+    request = json.loads(observer.add_message.call_args_list[0][0][2])
+    assert observer.add_message.call_args[0][1] == ProcessType.APPROVAL_RESULT
+    decision = json.loads(observer.add_message.call_args[0][2])
+    assert decision == {"approval_id": request["approval_id"], "decision": "denied", "arguments": None,
+                        "edited": False, "timed_out": True}
+    assert gate.decide(request["approval_id"], "approved") is False
+
+
 if __name__ == "__main__":
     pytest.main([__file__])
@@ -223,6 +223,7 @@ def test_agent_run_thread_local_flow(basic_agent_run_info, mock_memory_context,
         observer=basic_agent_run_info.observer,
         model_config_list=basic_agent_run_info.model_config_list,
         stop_event=basic_agent_run_info.stop_event,
+        approval_gate=None,
     )
 
     # Following methods on the NexentAgent instance should be invoked
@@ -237,8 +238,10 @@ def test_agent_run_thread_local_flow(basic_agent_run_info, mock_memory_context,
 
 def test_agent_run_thread_mcp_flow(basic_agent_run_info, mock_memory_context, monkeypatch):
     """Verify behaviour when an MCP host list is provided."""
-    # Give the AgentRunInfo an MCP host list
-    basic_agent_run_info.mcp_host = ["http://mcp.server"]
+    # Give the AgentRunInfo an MCP host list, an address or the parameters of a server
+    server_parameters = {"url": "http://mcp.other", "headers": {"Authorization": "Bearer t"},
+                         "transport": "streamable-http"}
+    basic_agent_run_info.mcp_host = ["http://mcp.server", server_parameters]
 
     # Prepare ToolCollection.from_mcp to return a context manager
     mock_tool_collection = MagicMock(name="ToolCollectionInstance")
@@ -256,7 +259,7 @@ def test_agent_run_thread_mcp_flow(basic_agent_run_info, mock_memory_context, mo
     basic_agent_run_info.observer.add_message.assert_any_call("", ProcessType.AGENT_NEW_RUN, "<MCP_START>")
 
     # ToolCollection.from_mcp should be called with the expected client list and trust_remote_code=True
-    expected_client_list = [{"url": "http://mcp.server"}]
+    expected_client_list = [{"url": "http://mcp.server"}, server_parameters]
     run_agent.ToolCollection.from_mcp.assert_called_once_with(expected_client_list, trust_remote_code=True)
 
     # NexentAgent should be instantiated with mcp_tool_collection
@@ -265,6 +268,7 @@ def test_agent_run_thread_mcp_flow(basic_agent_run_info, mock_memory_context, mo
         model_config_list=basic_agent_run_info.model_config_list,
         stop_event=basic_agent_run_info.stop_event,
         mcp_tool_collection=mock_tool_collection,
+        approval_gate=None,
     )
 
     # Subsequent calls on NexentAgent instance should mirror the local flow
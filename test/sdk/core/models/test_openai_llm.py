@@ -153,6 +153,7 @@ def test_call_normal_operation(openai_model_instance, mock_chat_message):
     mock_chunk3.choices[0].delta.role = None
     mock_chunk3.usage = MagicMock()
     mock_chunk3.usage.prompt_tokens = 10
+    mock_chunk3.usage.completion_tokens = 5
     mock_chunk3.usage.total_tokens = 15
 
     mock_stream = [mock_chunk1, mock_chunk2, mock_chunk3]
@@ -178,7 +179,7 @@ def test_call_normal_operation(openai_model_instance, mock_chat_message):
 
         # Verify token counts were set
         assert openai_model_instance.last_input_token_count == 10
-        assert openai_model_instance.last_output_token_count == 15
+        assert openai_model_instance.last_output_token_count == 5
 
 
 def test_call_with_no_think_token_addition(openai_model_instance, mock_chat_message):
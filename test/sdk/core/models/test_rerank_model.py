@@ -0,0 +1,37 @@
+import pytest
+from unittest.mock import MagicMock, patch
+
+from sdk.nexent.core.models.rerank_model import OpenAICompatibleRerank
+
+
+@pytest.fixture()
+def rerank_instance():
+    """Return an OpenAICompatibleRerank instance with minimal viable attributes for tests."""
+
+    return OpenAICompatibleRerank(model_name="dummy-rerank", base_url="https://api.example.com/rerank",
+                                  api_key="dummy-key")
+
+
+def test_rerank_sorts_by_relevance(rerank_instance):
+    """rerank should post the query and documents and return the results sorted by relevance."""
+
+    response = MagicMock()
+    response.json.return_value = {"results": [{"index": 0, "relevance_score": 0.2, "document": {"text": "a"}},
+                                              {"index": 1, "relevance_score": 0.9, "document": {"text": "b"}}]}
+
+    with patch("sdk.nexent.core.models.rerank_model.requests.post", return_value=response) as mock_post:
+        result = rerank_instance.rerank("query", ["a", "b"], top_n=2)
+
+    assert result == [{"index": 1, "relevance_score": 0.9}, {"index": 0, "relevance_score": 0.2}]
+    assert mock_post.call_args.kwargs["json"] == {"model": "dummy-rerank", "query": "query",
+                                                  "documents": ["a", "b"], "top_n": 2}
+    response.raise_for_status.assert_called_once()
+
+
+def test_rerank_without_documents(rerank_instance):
+    """rerank should not call the API when there is nothing to score."""
+
+    with patch("sdk.nexent.core.models.rerank_model.requests.post") as mock_post:
+        assert rerank_instance.rerank("query", []) == []
+
+    mock_post.assert_not_called()
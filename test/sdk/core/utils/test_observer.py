@@ -186,23 +186,20 @@ class TestFinalAnswerTransformer:
 class TestTokenCountTransformer:
     """Test TokenCountTransformer class"""
 
-    def test_token_count_transformer_zh(self):
-        """Test TokenCountTransformer with Chinese language"""
+    def test_token_count_transformer_metrics(self):
+        """Test TokenCountTransformer with the metrics of a step"""
         transformer = TokenCountTransformer()
-        duration = "2.5s"
+        metrics = {"duration": 2.5, "input_tokens": 120, "output_tokens": 30, "model": "Qwen/Qwen2.5-7B"}
 
-        result = transformer.transform(content=duration, lang="zh")
-        expected = """<span style="color: #bbbbc2; font-size: 12px;">步骤耗时：2.5s</span> """
-        assert result == expected
+        result = transformer.transform(content=metrics, lang="zh")
+        assert json.loads(result) == metrics
 
-    def test_token_count_transformer_en(self):
-        """Test TokenCountTransformer with English language"""
+    def test_token_count_transformer_duration(self):
+        """Test TokenCountTransformer with a bare duration"""
         transformer = TokenCountTransformer()
-        duration = "1.8s"
 
-        result = transformer.transform(content=duration, lang="en")
-        expected = """<span style="color: #bbbbc2; font-size: 12px;">Duration:1.8s</span> """
-        assert result == expected
+        result = transformer.transform(content="1.8", lang="en")
+        assert json.loads(result) == {"duration": 1.8}
 
 
 class TestErrorTransformer: